@@ -8,11 +8,12 @@
  * - startPermissionApiServer() - starts the HTTP server
  * - PERMISSION_API_PORT - the port constant
  *
- * These tests mock only electron (external dependency) and test the real
- * module behavior.
+ * These tests mock only electron (external dependency) and storage, and test
+ * the real module behavior.
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { BrowserWindow } from 'electron';
 
 // Mock electron before importing the module
 vi.mock('electron', () => ({
@@ -27,7 +28,20 @@ vi.mock('electron', () => ({
   },
 }));
 
-// Import the REAL module functions after mocking electron
+// Saved rules, the sandbox, the audit log, trash and snapshots all read storage
+vi.mock('@main/store/storage', () => ({
+  getStorage: vi.fn(() => ({
+    getAllPermissionRules: vi.fn(() => []),
+    getSandboxSettings: vi.fn(() => ({ enabled: false, mode: 'warn', allowedRoots: [] })),
+    recordPermissionAudit: vi.fn(),
+    recordTaskArtifacts: vi.fn(),
+    getArtifactsForTask: vi.fn(() => []),
+    getTrashSettings: vi.fn(() => ({ enabled: false, retentionDays: 30 })),
+    getTaskSnapshots: vi.fn(() => []),
+  })),
+}));
+
+// Import the REAL module functions after mocking electron and storage
 import {
   isFilePermissionRequest,
   resolvePermission,
@@ -117,4 +131,47 @@ describe('Permission API Integration', () => {
       server?.close();
     });
   });
+
+  describe('request task attribution', () => {
+    const send = vi.fn();
+    let server: import('http').Server;
+
+    const request = (body: Record<string, unknown>) =>
+      fetch(`http://127.0.0.1:${PERMISSION_API_PORT}/permission`, {
+        method: 'POST',
+        body: JSON.stringify({ operation: 'create', filePath: '/tmp/out.txt', ...body }),
+      });
+
+    beforeEach(async () => {
+      initPermissionApi(
+        { isDestroyed: () => false, webContents: { send } } as unknown as BrowserWindow,
+        () => 'task_1',
+        () => '/tmp',
+        (taskId) => taskId === 'task_1' || taskId === 'task_2',
+      );
+      server = startPermissionApiServer();
+      await new Promise((resolve) => server.once('listening', resolve));
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should attribute a request to the task the tool sends', async () => {
+      const response = request({ taskId: 'task_2' });
+      await vi.waitFor(() => expect(send).toHaveBeenCalled());
+
+      const permissionRequest = send.mock.calls[0][1];
+      expect(permissionRequest.taskId).toBe('task_2');
+      resolvePermission(permissionRequest.id, false);
+      await expect((await response).json()).resolves.toEqual({ allowed: false });
+    });
+
+    it('should reject a request from a task that is not active', async () => {
+      const response = await request({ taskId: 'task_gone' });
+
+      expect(response.status).toBe(400);
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -132,6 +132,24 @@ describe('Preload Script Integration', () => {
         expect(mockInvoke).toHaveBeenCalledWith('task:get', 'task_123');
       });
 
+      it('forkTask should invoke task:fork with taskId, messageId and prompt', async () => {
+        await (
+          capturedAccomplishAPI.forkTask as (
+            taskId: string,
+            messageId: string,
+            prompt: string,
+          ) => Promise<unknown>
+        )('task_123', 'msg_456', 'Try again');
+        expect(mockInvoke).toHaveBeenCalledWith('task:fork', 'task_123', 'msg_456', 'Try again');
+      });
+
+      it('recoverTask should invoke task:recover with taskId', async () => {
+        await (capturedAccomplishAPI.recoverTask as (taskId: string) => Promise<unknown>)(
+          'task_123',
+        );
+        expect(mockInvoke).toHaveBeenCalledWith('task:recover', 'task_123');
+      });
+
       it('listTasks should invoke task:list', async () => {
         await (capturedAccomplishAPI.listTasks as () => Promise<unknown[]>)();
         expect(mockInvoke).toHaveBeenCalledWith('task:list');
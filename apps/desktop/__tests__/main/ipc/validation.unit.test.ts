@@ -230,6 +230,8 @@ describe('validation.ts', () => {
           systemPromptAppend: 'Be concise',
           outputSchema: { type: 'object' },
           sessionId: 'session_abc',
+          providerId: 'ollama',
+          modelId: 'ollama/qwen3:4b',
           chrome: true,
         };
 
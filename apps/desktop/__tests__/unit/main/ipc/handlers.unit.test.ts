@@ -89,9 +89,12 @@ const mockTaskManager = {
   sendResponse: vi.fn(),
   hasActiveTask: vi.fn(() => false),
   getActiveTaskId: vi.fn(() => null),
+  getWorkingDirectory: vi.fn(() => null),
   getSessionId: vi.fn(() => null),
   isTaskQueued: vi.fn(() => false),
   cancelQueuedTask: vi.fn(),
+  reorderQueuedTask: vi.fn(() => true),
+  getQueuedTasks: vi.fn(() => []),
   dispose: vi.fn(),
 };
 
@@ -210,6 +213,11 @@ vi.mock('@accomplish_ai/agent-core', async (importOriginal) => {
       provider: 'anthropic',
       model: 'claude-3-5-sonnet-20241022',
     })),
+    getProviderModel: vi.fn((providerId: string) =>
+      providerId === 'ollama'
+        ? { provider: 'ollama', model: 'ollama/qwen3:4b', baseUrl: 'http://localhost:11434' }
+        : null,
+    ),
     getConnectedProvider: vi.fn(() => ({
       providerId: 'anthropic',
       connectionStatus: 'connected',
@@ -249,6 +257,8 @@ vi.mock('@accomplish_ai/agent-core', async (importOriginal) => {
     validateApiKey: actual.validateApiKey,
     validateHttpUrl: actual.validateHttpUrl,
     validateTaskConfig: actual.validateTaskConfig,
+    planTaskFork: actual.planTaskFork,
+    planTaskRecovery: actual.planTaskRecovery,
     ALLOWED_API_KEY_PROVIDERS: actual.ALLOWED_API_KEY_PROVIDERS,
     STANDARD_VALIDATION_PROVIDERS: actual.STANDARD_VALIDATION_PROVIDERS,
     validate: actual.validate,
@@ -362,6 +372,25 @@ vi.mock('@main/permission-api', () => ({
   QUESTION_API_PORT: 9227,
 }));
 
+// Mock task scheduler
+const mockTaskScheduler = {
+  listSchedules: vi.fn(() => []),
+  createSchedule: vi.fn(),
+  setScheduleEnabled: vi.fn(),
+  deleteSchedule: vi.fn(),
+};
+
+vi.mock('@main/scheduler', () => ({
+  initTaskScheduler: vi.fn(() => mockTaskScheduler),
+}));
+
+vi.mock('@main/local-api', () => ({
+  initLocalApi: vi.fn(() => Promise.resolve()),
+  getLocalApiStatus: vi.fn(),
+  updateLocalApiSettings: vi.fn(),
+  regenerateLocalApiToken: vi.fn(),
+}));
+
 // Import after mocks are set up
 import { registerIPCHandlers } from '@main/ipc/handlers';
 import { ipcMain, BrowserWindow as _BrowserWindow, shell } from 'electron';
@@ -437,6 +466,13 @@ describe('IPC Handlers Integration', () => {
       expect(handlers.has('task:cancel')).toBe(true);
       expect(handlers.has('task:interrupt')).toBe(true);
       expect(handlers.has('task:get')).toBe(true);
+      expect(handlers.has('task:fork')).toBe(true);
+      expect(handlers.has('task:recover')).toBe(true);
+      expect(handlers.has('task:get-queue')).toBe(true);
+      expect(handlers.has('task:reorder-queue')).toBe(true);
+      expect(handlers.has('task:get-artifacts')).toBe(true);
+      expect(handlers.has('artifacts:open')).toBe(true);
+      expect(handlers.has('artifacts:reveal')).toBe(true);
       expect(handlers.has('task:list')).toBe(true);
       expect(handlers.has('task:delete')).toBe(true);
       expect(handlers.has('task:clear-history')).toBe(true);
@@ -741,6 +777,32 @@ describe('IPC Handlers Integration', () => {
       expect(mockTaskManager.cancelQueuedTask).toHaveBeenCalledWith(taskId);
     });
 
+    it('task:reorder-queue should move a queued task', async () => {
+      // Arrange
+      const queue = [
+        { taskId: 'task_b', prompt: 'B', priority: 0, enqueuedAt: '2024-01-01T00:00:00.000Z' },
+        { taskId: 'task_a', prompt: 'A', priority: 0, enqueuedAt: '2024-01-01T00:00:00.000Z' },
+      ];
+      mockTaskManager.getQueuedTasks.mockReturnValueOnce(queue as never);
+
+      // Act
+      const result = await invokeHandler('task:reorder-queue', 'task_b', 0);
+
+      // Assert
+      expect(mockTaskManager.reorderQueuedTask).toHaveBeenCalledWith('task_b', 0);
+      expect(result).toEqual(queue);
+    });
+
+    it('task:reorder-queue should reject a task that is not queued', async () => {
+      // Arrange
+      mockTaskManager.reorderQueuedTask.mockReturnValueOnce(false);
+
+      // Act & Assert
+      await expect(invokeHandler('task:reorder-queue', 'task_missing', 0)).rejects.toThrow(
+        'not queued',
+      );
+    });
+
     it('task:cancel should do nothing for non-existent task', async () => {
       // Arrange
       const taskId = 'task_nonexistent';
@@ -1437,6 +1499,35 @@ describe('IPC Handlers Integration', () => {
       );
     });
 
+    it('task:start should run on the requested provider instead of the active one', async () => {
+      // Arrange
+      mockTaskManager.startTask.mockResolvedValue({
+        id: 'task_override',
+        prompt: 'Quick lookup',
+        status: 'running',
+        messages: [],
+        createdAt: new Date().toISOString(),
+      });
+
+      // Act
+      await invokeHandler('task:start', { prompt: 'Quick lookup', providerId: 'ollama' });
+
+      // Assert
+      expect(mockTaskManager.startTask).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ providerId: 'ollama', modelId: 'ollama/qwen3:4b' }),
+        expect.any(Object),
+      );
+    });
+
+    it('task:start should reject a provider that is not ready', async () => {
+      // Act & Assert
+      await expect(
+        invokeHandler('task:start', { prompt: 'Quick lookup', providerId: 'openrouter' }),
+      ).rejects.toThrow('Provider openrouter is not ready');
+      expect(mockTaskManager.startTask).not.toHaveBeenCalled();
+    });
+
     it('task:start should truncate allowedTools array to 20 items', async () => {
       // Arrange
       const manyTools = Array.from({ length: 30 }, (_, i) => `tool${i}`);
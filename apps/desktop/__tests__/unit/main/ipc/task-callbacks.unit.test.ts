@@ -23,6 +23,10 @@ vi.mock('@main/opencode', () => ({
   getTaskManager: vi.fn(() => mockTaskManager),
 }));
 
+vi.mock('@main/snapshots', () => ({
+  snapshotAtCheckpoint: vi.fn(),
+}));
+
 vi.mock('@accomplish_ai/agent-core', async (importOriginal) => {
   const actual = await importOriginal<typeof import('@accomplish_ai/agent-core')>();
   return {
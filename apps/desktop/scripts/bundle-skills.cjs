@@ -39,6 +39,7 @@ const SKILLS_FULLY_BUNDLED = [
   'file-permission',
   'complete-task',
   'start-task',
+  'report-checkpoint',
 ];
 
 const bundles = [
@@ -62,6 +63,11 @@ const bundles = [
     entry: 'src/index.ts',
     outfile: 'dist/index.mjs',
   },
+  {
+    name: 'report-checkpoint',
+    entry: 'src/index.ts',
+    outfile: 'dist/index.mjs',
+  },
   {
     name: 'dev-browser-mcp',
     entry: 'src/index.ts',
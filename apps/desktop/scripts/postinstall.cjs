@@ -117,6 +117,7 @@ if (!useBundledMcp) {
     'ask-user-question',
     'complete-task',
     'start-task',
+    'report-checkpoint',
   ];
   for (const tool of tools) {
     runCommand(
@@ -25,6 +25,11 @@ import { FutureSchemaError } from '@accomplish_ai/agent-core';
 import { initThoughtStreamApi, startThoughtStreamServer } from './thought-stream-api';
 import type { ProviderId } from '@accomplish_ai/agent-core';
 import { disposeTaskManager, cleanupVertexServiceAccountKey } from './opencode';
+import { disposeTaskScheduler } from './scheduler';
+import { startTrashPurge, stopTrashPurge } from './trash';
+import { pruneSnapshots } from './snapshots';
+import { disposeWebhookDispatcher } from './webhooks';
+import { disposeLocalApi } from './local-api';
 import { oauthBrowserFlow } from './opencode/auth-browser';
 import { migrateLegacyData } from './store/legacyMigration';
 import {
@@ -268,6 +273,24 @@ if (!gotTheLock) {
       throw err;
     }
 
+    // Nothing can be running yet, so any task still marked running or queued
+    // was orphaned by a quit or crash of the previous process
+    try {
+      const { interrupted, cancelled } = getStorage().reconcileOrphanedTasks();
+      if (interrupted.length > 0 || cancelled.length > 0) {
+        console.log(
+          `[Main] Recovered orphaned tasks: ${interrupted.length} interrupted, ${cancelled.length} cancelled`,
+        );
+      }
+    } catch (err) {
+      console.error('[Main] Orphaned task reconciliation failed:', err);
+    }
+
+    // Copies kept before approved deletes and overwrites expire after the retention period
+    startTrashPurge();
+    // Before any task runs, so no snapshot can be reusing content while it is pruned
+    await pruneSnapshots();
+
     try {
       const storage = getStorage();
       const settings = storage.getProviderSettings();
@@ -335,6 +358,10 @@ app.on('window-all-closed', () => {
 });
 
 app.on('before-quit', () => {
+  disposeTaskScheduler();
+  stopTrashPurge();
+  disposeWebhookDispatcher();
+  void disposeLocalApi();
   disposeTaskManager(); // Also cleans up proxies internally
   cleanupVertexServiceAccountKey();
   oauthBrowserFlow.dispose();
@@ -3,12 +3,14 @@ import { ipcMain, BrowserWindow, shell, dialog, nativeTheme } from 'electron';
 import type { IpcMainInvokeEvent } from 'electron';
 import { URL } from 'url';
 import fs from 'fs';
+import path from 'path';
 import {
   isOpenCodeCliInstalled,
   getOpenCodeCliVersion,
   getTaskManager,
   cleanupVertexServiceAccountKey,
 } from '../opencode';
+import { getRecordingsDir, registerReplay } from '../opencode/replay';
 import { getLogCollector } from '../logging';
 import {
   validateApiKey,
@@ -24,8 +26,19 @@ import {
   sanitizeString,
   generateTaskSummary,
   validateTaskConfig,
+  planTaskFork,
+  planTaskRecovery,
+  readOpenCodeRecording,
+  validateVerificationChecks,
+  validatePermissionRuleInput,
+  formatPermissionAudit,
+} from '@accomplish_ai/agent-core';
+import {
+  createTaskId,
+  createMessageId,
+  createProjectProfileId,
+  createPermissionRuleId,
 } from '@accomplish_ai/agent-core';
-import { createTaskId, createMessageId } from '@accomplish_ai/agent-core';
 import {
   storeApiKey,
   getApiKey,
@@ -50,6 +63,9 @@ import type {
   McpConnector,
   OAuthMetadata,
   OAuthClientRegistration,
+  TaskTimeoutLimits,
+  SandboxSettings,
+  TrashSettings,
 } from '@accomplish_ai/agent-core';
 import {
   discoverOAuthMetadata,
@@ -81,12 +97,24 @@ import type {
   AzureFoundryConfig,
   LiteLLMConfig,
   LMStudioConfig,
+  UsageGroupBy,
+  UsageQuery,
+  CreateWebhookTargetInput,
+  UpdateWebhookTargetInput,
+  WebhookEvent,
+  UpdateLocalApiSettingsInput,
+  ProjectProfileInput,
+  PermissionRule,
+  PermissionRuleInput,
+  PermissionAuditDecider,
+  PermissionAuditExportFormat,
 } from '@accomplish_ai/agent-core';
 import {
   DEFAULT_PROVIDERS,
   ALLOWED_API_KEY_PROVIDERS,
   STANDARD_VALIDATION_PROVIDERS,
   ZAI_ENDPOINTS,
+  WEBHOOK_EVENTS,
 } from '@accomplish_ai/agent-core';
 import { normalizeIpcError, permissionResponseSchema, validate } from './validation';
 import { createTaskCallbacks } from './task-callbacks';
@@ -98,6 +126,16 @@ import {
 } from '../test-utils/mock-task-flow';
 import { skillsManager } from '../skills';
 import { registerVertexHandlers } from '../providers';
+import { initTaskScheduler } from '../scheduler';
+import { getWebhookDispatcher } from '../webhooks';
+import { deleteTrashEntryPermanently, restoreTaskTrash, restoreTrashEntry } from '../trash';
+import { previewRollback, rollbackTaskSnapshot } from '../snapshots';
+import {
+  initLocalApi,
+  getLocalApiStatus,
+  updateLocalApiSettings,
+  regenerateLocalApiToken,
+} from '../local-api';
 
 const API_KEY_VALIDATION_TIMEOUT_MS = 15000;
 
@@ -142,9 +180,47 @@ export function registerIPCHandlers(): void {
 
   let permissionApiInitialized = false;
 
-  handle('task:start', async (event: IpcMainInvokeEvent, config: TaskConfig) => {
-    const window = assertTrustedWindow(BrowserWindow.fromWebContents(event.sender));
-    const sender = event.sender;
+  const ensurePermissionApi = (window: BrowserWindow) => {
+    if (!permissionApiInitialized) {
+      initPermissionApi(
+        window,
+        () => taskManager.getActiveTaskId(),
+        (taskId) => taskManager.getWorkingDirectory(taskId),
+        (taskId) => taskManager.hasActiveTask(taskId),
+      );
+      startPermissionApiServer();
+      startQuestionApiServer();
+      permissionApiInitialized = true;
+    }
+  };
+
+  /**
+   * Fill in the model a task runs on: its own provider's model when it has a
+   * provider override, otherwise the active model, which is only shown.
+   */
+  const resolveTaskModel = (config: TaskConfig) => {
+    if (config.providerId) {
+      const providerModel = storage.getProviderModel(config.providerId);
+      if (!providerModel) {
+        throw new Error(
+          `Provider ${config.providerId} is not ready. Please connect it and select a model in Settings.`,
+        );
+      }
+      config.modelId = config.modelId || providerModel.model;
+    } else {
+      const activeModel = storage.getActiveProviderModel();
+      const selectedModel = activeModel || storage.getSelectedModel();
+      if (selectedModel?.model) {
+        config.modelId = selectedModel.model;
+      }
+    }
+  };
+
+  const startTask = async (
+    window: BrowserWindow,
+    sender: Electron.WebContents,
+    config: TaskConfig,
+  ) => {
     const validatedConfig = validateTaskConfig(config);
 
     if (!isMockTaskEventsEnabled() && !storage.hasReadyProvider()) {
@@ -153,12 +229,7 @@ export function registerIPCHandlers(): void {
       );
     }
 
-    if (!permissionApiInitialized) {
-      initPermissionApi(window, () => taskManager.getActiveTaskId());
-      startPermissionApiServer();
-      startQuestionApiServer();
-      permissionApiInitialized = true;
-    }
+    ensurePermissionApi(window);
 
     const taskId = createTaskId();
 
@@ -178,11 +249,7 @@ export function registerIPCHandlers(): void {
       return mockTask;
     }
 
-    const activeModel = storage.getActiveProviderModel();
-    const selectedModel = activeModel || storage.getSelectedModel();
-    if (selectedModel?.model) {
-      validatedConfig.modelId = selectedModel.model;
-    }
+    resolveTaskModel(validatedConfig);
 
     const callbacks = createTaskCallbacks({
       taskId,
@@ -214,11 +281,141 @@ export function registerIPCHandlers(): void {
       });
 
     return task;
+  };
+
+  handle('task:start', async (event: IpcMainInvokeEvent, config: TaskConfig) => {
+    const window = assertTrustedWindow(BrowserWindow.fromWebContents(event.sender));
+    return startTask(window, event.sender, config);
   });
 
-  handle('task:cancel', async (_event: IpcMainInvokeEvent, taskId?: string) => {
-    if (!taskId) return;
+  handle(
+    'task:fork',
+    async (event: IpcMainInvokeEvent, parentTaskId: string, messageId: string, prompt: string) => {
+      const window = assertTrustedWindow(BrowserWindow.fromWebContents(event.sender));
+      const sender = event.sender;
+      const validatedParentId = sanitizeString(parentTaskId, 'taskId', 128);
+      const validatedMessageId = sanitizeString(messageId, 'messageId', 128);
+      const validatedPrompt = sanitizeString(prompt, 'prompt');
+
+      if (!storage.hasReadyProvider()) {
+        throw new Error(
+          'No provider is ready. Please connect a provider and select a model in Settings.',
+        );
+      }
+
+      const parent = storage.getTask(validatedParentId);
+      if (!parent) {
+        throw new Error(`Task ${validatedParentId} not found`);
+      }
+      if (taskManager.hasActiveTask(validatedParentId)) {
+        throw new Error('Cannot fork a task while it is running');
+      }
+
+      const plan = planTaskFork(parent, validatedMessageId);
+      // A fork runs with its parent's settings, including its provider override
+      const validatedConfig = validateTaskConfig({
+        ...parent.runConfig,
+        prompt: validatedPrompt,
+        systemPromptAppend: plan.systemPromptAppend,
+      });
+
+      ensurePermissionApi(window);
+
+      const taskId = createTaskId();
+
+      resolveTaskModel(validatedConfig);
+
+      const callbacks = createTaskCallbacks({
+        taskId,
+        window,
+        sender,
+      });
+
+      const task = await taskManager.startTask(taskId, validatedConfig, callbacks);
+
+      const userMessage: TaskMessage = {
+        id: createMessageId(),
+        type: 'user',
+        content: validatedPrompt,
+        timestamp: new Date().toISOString(),
+      };
+      task.messages = [...plan.messages, userMessage];
+      task.parentTaskId = parent.id;
+      task.forkedFromMessageId = validatedMessageId;
+
+      storage.saveTask(task);
+
+      generateTaskSummary(validatedPrompt, getApiKey)
+        .then((summary) => {
+          storage.updateTaskSummary(taskId, summary);
+          if (!window.isDestroyed() && !sender.isDestroyed()) {
+            sender.send('task:summary', { taskId, summary });
+          }
+        })
+        .catch((err) => {
+          console.warn('[IPC] Failed to generate task summary:', err);
+        });
+
+      return task;
+    },
+  );
+
+  handle('task:recover', async (event: IpcMainInvokeEvent, taskId: string) => {
+    const window = assertTrustedWindow(BrowserWindow.fromWebContents(event.sender));
+    const sender = event.sender;
+    const validatedTaskId = sanitizeString(taskId, 'taskId', 128);
+
+    if (!storage.hasReadyProvider()) {
+      throw new Error(
+        'No provider is ready. Please connect a provider and select a model in Settings.',
+      );
+    }
+
+    const stored = storage.getTask(validatedTaskId);
+    if (!stored) {
+      throw new Error(`Task ${validatedTaskId} not found`);
+    }
+    if (stored.status !== 'interrupted') {
+      throw new Error('Only interrupted tasks can be resumed');
+    }
+    if (taskManager.hasActiveTask(validatedTaskId) || taskManager.isTaskQueued(validatedTaskId)) {
+      throw new Error('Task is already running');
+    }
+
+    const plan = planTaskRecovery(stored, storage.getTodosForTask(validatedTaskId));
+    // The task picks up where it was, with the settings it was started with
+    const validatedConfig = validateTaskConfig({
+      ...stored.runConfig,
+      prompt: plan.prompt,
+      taskId: validatedTaskId,
+      sessionId: plan.sessionId,
+      systemPromptAppend: plan.systemPromptAppend,
+    });
+
+    ensurePermissionApi(window);
 
+    resolveTaskModel(validatedConfig);
+
+    const callbacks = createTaskCallbacks({
+      taskId: validatedTaskId,
+      window,
+      sender,
+    });
+
+    const task = await taskManager.startTask(validatedTaskId, validatedConfig, callbacks);
+
+    storage.addTaskMessage(validatedTaskId, {
+      id: createMessageId(),
+      type: 'system',
+      content: 'Resumed after an interruption',
+      timestamp: new Date().toISOString(),
+    });
+    storage.updateTaskStatus(validatedTaskId, task.status, new Date().toISOString());
+
+    return storage.getTask(validatedTaskId) ?? task;
+  });
+
+  const cancelTask = async (taskId: string) => {
     if (taskManager.isTaskQueued(taskId)) {
       taskManager.cancelQueuedTask(taskId);
       storage.updateTaskStatus(taskId, 'cancelled', new Date().toISOString());
@@ -229,14 +426,22 @@ export function registerIPCHandlers(): void {
       await taskManager.cancelTask(taskId);
       storage.updateTaskStatus(taskId, 'cancelled', new Date().toISOString());
     }
-  });
-
-  handle('task:interrupt', async (_event: IpcMainInvokeEvent, taskId?: string) => {
-    if (!taskId) return;
+  };
 
+  const interruptTask = async (taskId: string) => {
     if (taskManager.hasActiveTask(taskId)) {
       await taskManager.interruptTask(taskId);
     }
+  };
+
+  handle('task:cancel', async (_event: IpcMainInvokeEvent, taskId?: string) => {
+    if (!taskId) return;
+    await cancelTask(taskId);
+  });
+
+  handle('task:interrupt', async (_event: IpcMainInvokeEvent, taskId?: string) => {
+    if (!taskId) return;
+    await interruptTask(taskId);
   });
 
   handle('task:get', async (_event: IpcMainInvokeEvent, taskId: string) => {
@@ -259,13 +464,99 @@ export function registerIPCHandlers(): void {
     return storage.getTodosForTask(taskId);
   });
 
-  handle('permission:respond', async (_event: IpcMainInvokeEvent, response: PermissionResponse) => {
+  handle('task:get-artifacts', async (_event: IpcMainInvokeEvent, taskId: string) => {
+    return storage.getArtifactsForTask(taskId);
+  });
+
+  // Only files a task actually recorded can be opened, so the renderer cannot
+  // ask the shell to open arbitrary paths
+  const assertTaskArtifact = (taskId: string, filePath: string) => {
+    const recorded = storage
+      .getArtifactsForTask(taskId)
+      .some((artifact) => artifact.filePath === filePath || artifact.targetPath === filePath);
+    if (!recorded) {
+      throw new Error('File is not an artifact of this task');
+    }
+  };
+
+  handle('artifacts:open', async (_event, taskId: string, filePath: string) => {
+    assertTaskArtifact(taskId, filePath);
+    const error = await shell.openPath(filePath);
+    if (error) {
+      throw new Error(error);
+    }
+  });
+
+  handle('artifacts:reveal', async (_event, taskId: string, filePath: string) => {
+    assertTaskArtifact(taskId, filePath);
+    shell.showItemInFolder(filePath);
+  });
+
+  handle('task:get-queue', async (_event: IpcMainInvokeEvent) => {
+    return taskManager.getQueuedTasks();
+  });
+
+  handle(
+    'task:reorder-queue',
+    async (_event: IpcMainInvokeEvent, taskId: string, toIndex: number) => {
+      const validatedTaskId = sanitizeString(taskId, 'taskId', 128);
+      if (typeof toIndex !== 'number' || !Number.isInteger(toIndex)) {
+        throw new Error('Invalid queue position');
+      }
+      if (!taskManager.reorderQueuedTask(validatedTaskId, toIndex)) {
+        throw new Error(`Task ${validatedTaskId} is not queued`);
+      }
+      return taskManager.getQueuedTasks();
+    },
+  );
+
+  /**
+   * Save a permission rule. Rules remembered from a task's prompt are scoped
+   * through that task, so its ID and working directory are filled in here.
+   */
+  const savePermissionRule = (input: PermissionRuleInput, taskId?: string): PermissionRule => {
+    const scoped: PermissionRuleInput = { ...input };
+    if (taskId && scoped.scope === 'task') {
+      scoped.taskId = taskId;
+    }
+    if (taskId && scoped.scope === 'project' && !scoped.workingDirectory) {
+      scoped.workingDirectory = taskManager.getWorkingDirectory(taskId) ?? undefined;
+    }
+    const rule: PermissionRule = {
+      ...validatePermissionRuleInput(scoped),
+      id: createPermissionRuleId(),
+      createdAt: new Date().toISOString(),
+    };
+    storage.insertPermissionRule(rule);
+    return rule;
+  };
+
+  const respondToPermission = async (
+    response: PermissionResponse,
+    decidedBy: PermissionAuditDecider = 'user',
+  ) => {
     const parsedResponse = validate(permissionResponseSchema, response);
     const { taskId, decision, requestId } = parsedResponse;
 
+    if (parsedResponse.remember) {
+      try {
+        savePermissionRule(
+          { ...(parsedResponse.remember as PermissionRuleInput), decision },
+          taskId,
+        );
+      } catch (error) {
+        console.warn('[IPC] Failed to save permission rule:', error);
+      }
+    }
+
     if (requestId && isFilePermissionRequest(requestId)) {
       const allowed = decision === 'allow';
-      const resolved = resolvePermission(requestId, allowed);
+      const resolved = resolvePermission(
+        requestId,
+        allowed,
+        decidedBy,
+        parsedResponse.approvedPaths,
+      );
       if (resolved) {
         return;
       }
@@ -274,11 +565,15 @@ export function registerIPCHandlers(): void {
 
     if (requestId && isQuestionRequest(requestId)) {
       const denied = decision === 'deny';
-      const resolved = resolveQuestion(requestId, {
-        selectedOptions: parsedResponse.selectedOptions,
-        customText: parsedResponse.customText,
-        denied,
-      });
+      const resolved = resolveQuestion(
+        requestId,
+        {
+          selectedOptions: parsedResponse.selectedOptions,
+          customText: parsedResponse.customText,
+          denied,
+        },
+        decidedBy,
+      );
       if (resolved) {
         return;
       }
@@ -297,6 +592,19 @@ export function registerIPCHandlers(): void {
     } else {
       await taskManager.sendResponse(taskId, 'no');
     }
+  };
+
+  handle('permission:respond', async (_event: IpcMainInvokeEvent, response: PermissionResponse) => {
+    await respondToPermission(response);
+  });
+
+  handle('questions:pick-path', async (event: IpcMainInvokeEvent, kind: 'file' | 'folder') => {
+    const window = assertTrustedWindow(BrowserWindow.fromWebContents(event.sender));
+    const result = await dialog.showOpenDialog(window, {
+      title: kind === 'folder' ? 'Choose a Folder' : 'Choose a File',
+      properties: [kind === 'folder' ? 'openDirectory' : 'openFile'],
+    });
+    return result.canceled ? null : (result.filePaths[0] ?? null);
   });
 
   handle(
@@ -333,8 +641,17 @@ export function registerIPCHandlers(): void {
         storage.addTaskMessage(validatedExistingTaskId, userMessage);
       }
 
-      const activeModelForResume = storage.getActiveProviderModel();
-      const selectedModelForResume = activeModelForResume || storage.getSelectedModel();
+      // A follow-up continues with the task's own settings, including its provider override
+      const runConfig = validatedExistingTaskId
+        ? storage.getTask(validatedExistingTaskId)?.runConfig
+        : undefined;
+      const resumeConfig = validateTaskConfig({
+        ...runConfig,
+        prompt: validatedPrompt,
+        sessionId: validatedSessionId,
+        taskId,
+      });
+      resolveTaskModel(resumeConfig);
 
       const callbacks = createTaskCallbacks({
         taskId,
@@ -342,16 +659,7 @@ export function registerIPCHandlers(): void {
         sender,
       });
 
-      const task = await taskManager.startTask(
-        taskId,
-        {
-          prompt: validatedPrompt,
-          sessionId: validatedSessionId,
-          taskId,
-          modelId: selectedModelForResume?.model,
-        },
-        callbacks,
-      );
+      const task = await taskManager.startTask(taskId, resumeConfig, callbacks);
 
       if (validatedExistingTaskId) {
         storage.updateTaskStatus(validatedExistingTaskId, task.status, new Date().toISOString());
@@ -940,6 +1248,75 @@ export function registerIPCHandlers(): void {
     }
   });
 
+  handle('settings:task-timeouts', async (_event: IpcMainInvokeEvent) => {
+    return storage.getTaskTimeoutDefaults();
+  });
+
+  handle(
+    'settings:set-task-timeouts',
+    async (_event: IpcMainInvokeEvent, limits: TaskTimeoutLimits) => {
+      if (!limits || typeof limits !== 'object') {
+        throw new Error('Invalid task timeouts');
+      }
+      for (const value of [limits.maxDurationMs, limits.maxIdleMs]) {
+        if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+          throw new Error('Invalid task timeout value');
+        }
+      }
+      storage.setTaskTimeoutDefaults({
+        maxDurationMs: limits.maxDurationMs && Math.floor(limits.maxDurationMs),
+        maxIdleMs: limits.maxIdleMs && Math.floor(limits.maxIdleMs),
+      });
+    },
+  );
+
+  handle('settings:sandbox', async (_event: IpcMainInvokeEvent) => {
+    return storage.getSandboxSettings();
+  });
+
+  handle('settings:set-sandbox', async (_event: IpcMainInvokeEvent, settings: SandboxSettings) => {
+    if (!settings || typeof settings !== 'object') {
+      throw new Error('Invalid sandbox settings');
+    }
+    if (settings.mode !== 'reject' && settings.mode !== 'warn') {
+      throw new Error(`Invalid sandbox mode: ${settings.mode}`);
+    }
+    if (
+      !Array.isArray(settings.allowedRoots) ||
+      !settings.allowedRoots.every((root) => typeof root === 'string' && path.isAbsolute(root))
+    ) {
+      throw new Error('Allowed roots must be absolute paths');
+    }
+    storage.setSandboxSettings({
+      enabled: Boolean(settings.enabled),
+      mode: settings.mode,
+      allowedRoots: [...new Set(settings.allowedRoots.map((root) => path.normalize(root)))],
+    });
+  });
+
+  handle('settings:pick-sandbox-root', async (event: IpcMainInvokeEvent) => {
+    const window = assertTrustedWindow(BrowserWindow.fromWebContents(event.sender));
+    const result = await dialog.showOpenDialog(window, {
+      title: 'Allow a Folder',
+      properties: ['openDirectory', 'createDirectory'],
+    });
+    return result.canceled ? null : (result.filePaths[0] ?? null);
+  });
+
+  handle('settings:trash', async (_event: IpcMainInvokeEvent) => {
+    return storage.getTrashSettings();
+  });
+
+  handle('settings:set-trash', async (_event: IpcMainInvokeEvent, settings: TrashSettings) => {
+    if (!settings || typeof settings !== 'object') {
+      throw new Error('Invalid trash settings');
+    }
+    storage.setTrashSettings({
+      enabled: Boolean(settings.enabled),
+      retentionDays: Number(settings.retentionDays),
+    });
+  });
+
   handle('settings:theme', async (_event: IpcMainInvokeEvent) => {
     return storage.getTheme();
   });
@@ -1155,6 +1532,92 @@ export function registerIPCHandlers(): void {
     }
   });
 
+  handle(
+    'permission-audit:export',
+    async (event: IpcMainInvokeEvent, format: PermissionAuditExportFormat, taskId?: string) => {
+      const window = BrowserWindow.fromWebContents(event.sender);
+      if (!window) throw new Error('No window found');
+      if (format !== 'csv' && format !== 'json') {
+        throw new Error(`Unsupported export format: ${String(format)}`);
+      }
+
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+      const defaultFilename = `accomplish-permission-audit-${timestamp}.${format}`;
+
+      const result = await dialog.showSaveDialog(window, {
+        title: 'Export Permission Audit',
+        defaultPath: defaultFilename,
+        filters: [
+          format === 'csv'
+            ? { name: 'CSV Files', extensions: ['csv'] }
+            : { name: 'JSON Files', extensions: ['json'] },
+          { name: 'All Files', extensions: ['*'] },
+        ],
+      });
+
+      if (result.canceled || !result.filePath) {
+        return { success: false, reason: 'cancelled' };
+      }
+
+      try {
+        const entries = storage.getPermissionAudit(taskId || undefined);
+        fs.writeFileSync(result.filePath, formatPermissionAudit(entries, format));
+        return { success: true, path: result.filePath };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, error: message };
+      }
+    },
+  );
+
+  handle('debug:replay-recording', async (event: IpcMainInvokeEvent) => {
+    const window = assertTrustedWindow(BrowserWindow.fromWebContents(event.sender));
+    const sender = event.sender;
+    if (!storage.getDebugMode()) {
+      throw new Error('Replaying recordings requires debug mode');
+    }
+
+    const result = await dialog.showOpenDialog(window, {
+      title: 'Replay a Task Recording',
+      defaultPath: getRecordingsDir(),
+      filters: [
+        { name: 'Task Recordings', extensions: ['jsonl'] },
+        { name: 'All Files', extensions: ['*'] },
+      ],
+      properties: ['openFile'],
+    });
+    if (result.canceled || result.filePaths.length === 0) {
+      return null;
+    }
+
+    const recording = readOpenCodeRecording(result.filePaths[0]);
+
+    ensurePermissionApi(window);
+
+    const taskId = createTaskId();
+    registerReplay(taskId, recording);
+
+    const callbacks = createTaskCallbacks({
+      taskId,
+      window,
+      sender,
+    });
+
+    const task = await taskManager.startTask(taskId, { prompt: recording.prompt }, callbacks);
+    task.summary = `Replay of ${recording.taskId}`;
+    task.messages = [
+      {
+        id: createMessageId(),
+        type: 'user',
+        content: recording.prompt,
+        timestamp: new Date().toISOString(),
+      },
+    ];
+    storage.saveTask(task);
+
+    return task;
+  });
+
   handle('skills:list', async () => {
     return skillsManager.getAll();
   });
@@ -1354,6 +1817,253 @@ export function registerIPCHandlers(): void {
     storage.deleteConnectorTokens(connectorId);
     storage.setConnectorStatus(connectorId, 'disconnected');
   });
+
+  // ── Schedules ───────────────────────────────────────────────────────
+
+  const taskScheduler = initTaskScheduler({ onBeforeRun: ensurePermissionApi });
+
+  handle('schedules:list', async () => {
+    return taskScheduler.listSchedules();
+  });
+
+  handle(
+    'schedules:create',
+    async (_event, name: string, cronExpression: string, config: TaskConfig) => {
+      const sanitizedName = sanitizeString(name, 'scheduleName', 128);
+      const sanitizedCron = sanitizeString(cronExpression, 'cronExpression', 128);
+      const validatedConfig = validateTaskConfig(config);
+
+      return taskScheduler.createSchedule({
+        name: sanitizedName,
+        cronExpression: sanitizedCron,
+        config: validatedConfig,
+      });
+    },
+  );
+
+  handle('schedules:set-enabled', async (_event, id: string, enabled: boolean) => {
+    return taskScheduler.setScheduleEnabled(id, Boolean(enabled));
+  });
+
+  handle('schedules:delete', async (_event, id: string) => {
+    taskScheduler.deleteSchedule(id);
+  });
+
+  handle('schedules:runs', async (_event, id: string) => {
+    return storage.getTasksForSchedule(id);
+  });
+
+  // ── Project profiles ────────────────────────────────────────────────
+
+  handle('profiles:list', async () => {
+    return storage.getAllProjectProfiles();
+  });
+
+  handle('profiles:save', async (_event, input: ProjectProfileInput, id?: string) => {
+    if (!input || typeof input !== 'object') {
+      throw new Error('Invalid project profile');
+    }
+    if (typeof input.workingDirectory !== 'string' || !path.isAbsolute(input.workingDirectory)) {
+      throw new Error('Project folder must be an absolute path');
+    }
+    const existing = id ? storage.getProjectProfileById(id) : null;
+    if (id && !existing) {
+      throw new Error(`Project profile not found: ${id}`);
+    }
+    const now = new Date().toISOString();
+    const profile = {
+      id: existing?.id ?? createProjectProfileId(),
+      name: sanitizeString(input.name, 'profileName', 128),
+      workingDirectory: path.normalize(input.workingDirectory),
+      verifications: validateVerificationChecks(input.verifications),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    storage.upsertProjectProfile(profile);
+    return profile;
+  });
+
+  handle('profiles:delete', async (_event, id: string) => {
+    storage.deleteProjectProfile(id);
+  });
+
+  handle('profiles:pick-directory', async (event: IpcMainInvokeEvent) => {
+    const window = assertTrustedWindow(BrowserWindow.fromWebContents(event.sender));
+    const result = await dialog.showOpenDialog(window, {
+      title: 'Choose a Project Folder',
+      properties: ['openDirectory'],
+    });
+    return result.canceled ? null : (result.filePaths[0] ?? null);
+  });
+
+  // ── Permission rules ────────────────────────────────────────────────
+
+  handle('permission-rules:list', async () => {
+    return storage.getAllPermissionRules();
+  });
+
+  handle('permission-rules:save', async (_event, input: PermissionRuleInput) => {
+    return savePermissionRule(input);
+  });
+
+  handle('permission-rules:delete', async (_event, id: string) => {
+    storage.deletePermissionRule(id);
+  });
+
+  // ── Permission audit ────────────────────────────────────────────────
+
+  handle('permission-audit:list', async (_event, taskId?: string, limit?: number) => {
+    return storage.getPermissionAudit(taskId || undefined, limit);
+  });
+
+  // ── Trash ───────────────────────────────────────────────────────────
+
+  handle('trash:list', async (_event, taskId?: string) => {
+    return storage.getTrashEntries(taskId || undefined);
+  });
+
+  handle('trash:restore', async (_event, id: string) => {
+    restoreTrashEntry(id);
+  });
+
+  handle('trash:restore-task', async (_event, taskId: string) => {
+    return restoreTaskTrash(taskId);
+  });
+
+  handle('trash:delete', async (_event, id: string) => {
+    deleteTrashEntryPermanently(id);
+  });
+
+  // ── Snapshots ───────────────────────────────────────────────────────
+
+  handle('snapshots:list', async (_event, taskId: string) => {
+    return storage.getTaskSnapshots(taskId);
+  });
+
+  handle('snapshots:preview', async (_event, id: string) => {
+    return previewRollback(id);
+  });
+
+  handle('snapshots:rollback', async (_event, id: string) => {
+    return rollbackTaskSnapshot(id);
+  });
+
+  // ── Webhooks ────────────────────────────────────────────────────────
+
+  const sanitizeWebhookEvents = (events: unknown): WebhookEvent[] =>
+    Array.isArray(events) ? WEBHOOK_EVENTS.filter((event) => events.includes(event)) : [];
+
+  handle('webhooks:list', async () => {
+    return getWebhookDispatcher().listTargets();
+  });
+
+  handle('webhooks:create', async (_event, input: CreateWebhookTargetInput) => {
+    return getWebhookDispatcher().createTarget({
+      name: sanitizeString(input.name, 'webhookName', 128),
+      url: sanitizeString(input.url, 'webhookUrl', 2048),
+      events: sanitizeWebhookEvents(input.events),
+      isEnabled: input.isEnabled === undefined ? undefined : Boolean(input.isEnabled),
+    });
+  });
+
+  handle('webhooks:update', async (_event, id: string, input: UpdateWebhookTargetInput) => {
+    return getWebhookDispatcher().updateTarget(sanitizeString(id, 'webhookId', 128), {
+      name: input.name === undefined ? undefined : sanitizeString(input.name, 'webhookName', 128),
+      url: input.url === undefined ? undefined : sanitizeString(input.url, 'webhookUrl', 2048),
+      events: input.events === undefined ? undefined : sanitizeWebhookEvents(input.events),
+      isEnabled: input.isEnabled === undefined ? undefined : Boolean(input.isEnabled),
+    });
+  });
+
+  handle('webhooks:delete', async (_event, id: string) => {
+    getWebhookDispatcher().deleteTarget(sanitizeString(id, 'webhookId', 128));
+  });
+
+  handle('webhooks:deliveries', async () => {
+    return getWebhookDispatcher().listDeliveries();
+  });
+
+  // ── Local API ───────────────────────────────────────────────────────
+
+  // Tasks started over HTTP stream to the first open window, like scheduled runs
+  const getApiTargetWindow = () => {
+    const window = BrowserWindow.getAllWindows().find((w) => !w.isDestroyed());
+    if (!window) {
+      throw new Error('No window available to run the task');
+    }
+    return window;
+  };
+
+  void initLocalApi({
+    startTask: async (config) => {
+      const window = getApiTargetWindow();
+      const task = await startTask(window, window.webContents, config);
+      window.webContents.send('local-api:task-started', { task });
+      return task;
+    },
+    cancelTask: (taskId) => cancelTask(taskId),
+    interruptTask: (taskId) => interruptTask(taskId),
+    listTasks: () => storage.getTasks(),
+    getTask: (taskId) => storage.getTask(taskId) ?? null,
+    respondToPermission: async (response) => {
+      await respondToPermission(response, 'local-api');
+      // Let the UI dismiss the prompt that was answered elsewhere
+      for (const window of BrowserWindow.getAllWindows()) {
+        if (!window.isDestroyed()) {
+          window.webContents.send('permission:resolved', {
+            requestId: response.requestId,
+            taskId: response.taskId,
+          });
+        }
+      }
+    },
+  });
+
+  handle('local-api:get-status', async () => {
+    return getLocalApiStatus();
+  });
+
+  handle('local-api:update', async (_event, input: UpdateLocalApiSettingsInput) => {
+    if (!input || typeof input !== 'object') {
+      throw new Error('Invalid local API settings');
+    }
+    const { port } = input;
+    if (port !== undefined && (!Number.isInteger(port) || port < 1024 || port > 65535)) {
+      throw new Error('Port must be a whole number between 1024 and 65535');
+    }
+    return updateLocalApiSettings({
+      enabled: input.enabled === undefined ? undefined : Boolean(input.enabled),
+      port,
+    });
+  });
+
+  handle('local-api:regenerate-token', async () => {
+    return regenerateLocalApiToken();
+  });
+
+  // ── Usage ───────────────────────────────────────────────────────────
+
+  const USAGE_GROUPINGS: UsageGroupBy[] = ['day', 'provider', 'model'];
+
+  const sanitizeUsageQuery = (query?: UsageQuery): UsageQuery => ({
+    since: query?.since ? sanitizeString(query.since, 'since', 64) : undefined,
+    until: query?.until ? sanitizeString(query.until, 'until', 64) : undefined,
+  });
+
+  handle('usage:totals', async (_event, query?: UsageQuery) => {
+    return storage.getUsageTotals(sanitizeUsageQuery(query));
+  });
+
+  handle('usage:breakdown', async (_event, groupBy: UsageGroupBy, query?: UsageQuery) => {
+    if (!USAGE_GROUPINGS.includes(groupBy)) {
+      throw new Error(`Invalid usage grouping: ${groupBy}`);
+    }
+    return storage.getUsageBreakdown(groupBy, sanitizeUsageQuery(query));
+  });
+
+  handle('usage:by-task', async (_event, query?: UsageQuery) => {
+    return storage.getUsageByTask(sanitizeUsageQuery(query));
+  });
 }
 
 // In-memory store for pending OAuth flows (keyed by state parameter)
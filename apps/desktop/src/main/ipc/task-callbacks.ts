@@ -1,9 +1,22 @@
 import type { BrowserWindow } from 'electron';
-import type { TaskMessage, TaskResult, TaskStatus, TodoItem } from '@accomplish_ai/agent-core';
-import { mapResultToStatus } from '@accomplish_ai/agent-core';
+import type {
+  PermissionRequest,
+  Task,
+  TaskBudgetLimitStatus,
+  TaskMessage,
+  TaskResult,
+  TaskStatus,
+  TaskUsage,
+  TodoItem,
+  WebhookEvent,
+} from '@accomplish_ai/agent-core';
+import { createMessageId, mapResultToStatus } from '@accomplish_ai/agent-core';
 import { getTaskManager, recoverDevBrowserServer } from '../opencode';
 import type { TaskCallbacks } from '../opencode';
 import { getStorage } from '../store/storage';
+import { getWebhookDispatcher } from '../webhooks';
+import { publishLocalApiEvent } from '../local-api/events';
+import { registerActiveTask, unregisterActiveTask } from '../thought-stream-api';
 
 const DEV_BROWSER_TOOL_PREFIXES = ['dev-browser-mcp_', 'dev_browser_mcp_', 'browser_'];
 const BROWSER_FAILURE_WINDOW_MS = 12000;
@@ -52,6 +65,9 @@ export function createTaskCallbacks(options: TaskCallbacksOptions): TaskCallback
   let browserRecoveryInFlight = false;
   let hasRendererSendFailure = false;
 
+  // Checkpoints the agent reports only reach the UI while the task is registered
+  registerActiveTask(taskId);
+
   const forwardToRenderer = (channel: string, data: unknown) => {
     if (hasRendererSendFailure) {
       return;
@@ -72,6 +88,14 @@ export function createTaskCallbacks(options: TaskCallbacksOptions): TaskCallback
     }
   };
 
+  const notifyWebhooks = (event: WebhookEvent, data?: Record<string, unknown>) => {
+    try {
+      getWebhookDispatcher().dispatch(event, taskId, data);
+    } catch (error) {
+      console.warn('[TaskCallbacks] Failed to dispatch webhook event', { taskId, event, error });
+    }
+  };
+
   const resetBrowserFailureState = () => {
     browserFailureCount = 0;
     browserFailureWindowStart = 0;
@@ -80,6 +104,7 @@ export function createTaskCallbacks(options: TaskCallbacksOptions): TaskCallback
   return {
     onBatchedMessages: (messages: TaskMessage[]) => {
       forwardToRenderer('task:update:batch', { taskId, messages });
+      publishLocalApiEvent({ type: 'messages', taskId, messages });
       for (const msg of messages) {
         storage.addTaskMessage(taskId, msg);
       }
@@ -90,13 +115,30 @@ export function createTaskCallbacks(options: TaskCallbacksOptions): TaskCallback
         taskId,
         ...progress,
       });
+      publishLocalApiEvent({ type: 'progress', taskId, ...progress });
+      // 'starting' is reported once, when the task leaves the queue and begins running
+      if (progress.stage === 'starting') {
+        notifyWebhooks('task.started');
+      }
     },
 
     onPermissionRequest: (request: unknown) => {
       forwardToRenderer('permission:request', request);
+      publishLocalApiEvent({ type: 'permission', taskId, request: request as PermissionRequest });
+      const { id, type, toolName, question, filePath } = request as PermissionRequest;
+      notifyWebhooks('task.waiting_permission', {
+        requestId: id,
+        type,
+        toolName,
+        question,
+        filePath,
+      });
     },
 
-    onComplete: (result: TaskResult) => {
+    onComplete: (completed: TaskResult) => {
+      const artifacts = storage.getArtifactsForTask(taskId);
+      const result: TaskResult = artifacts.length > 0 ? { ...completed, artifacts } : completed;
+
       forwardToRenderer('task:update', {
         taskId,
         type: 'complete',
@@ -106,6 +148,10 @@ export function createTaskCallbacks(options: TaskCallbacksOptions): TaskCallback
       const taskStatus = mapResultToStatus(result);
       storage.updateTaskStatus(taskId, taskStatus, new Date().toISOString());
 
+      if (result.timedOut) {
+        storage.updateTaskTimedOut(taskId, result.timedOut);
+      }
+
       const sessionId = result.sessionId || taskManager.getSessionId(taskId);
       if (sessionId) {
         storage.updateTaskSessionId(taskId, sessionId);
@@ -114,6 +160,15 @@ export function createTaskCallbacks(options: TaskCallbacksOptions): TaskCallback
       if (result.status === 'success') {
         storage.clearTodosForTask(taskId);
       }
+
+      publishLocalApiEvent({ type: 'complete', taskId, result });
+      unregisterActiveTask(taskId);
+
+      if (taskStatus === 'completed') {
+        notifyWebhooks('task.completed', { durationMs: result.durationMs, artifacts });
+      } else if (taskStatus === 'failed') {
+        notifyWebhooks('task.failed', { error: result.error });
+      }
     },
 
     onError: (error: Error) => {
@@ -124,6 +179,9 @@ export function createTaskCallbacks(options: TaskCallbacksOptions): TaskCallback
       });
 
       storage.updateTaskStatus(taskId, 'failed', new Date().toISOString());
+      publishLocalApiEvent({ type: 'error', taskId, error: error.message });
+      unregisterActiveTask(taskId);
+      notifyWebhooks('task.failed', { error: error.message });
     },
 
     onDebug: (log: { type: string; message: string; data?: unknown }) => {
@@ -142,6 +200,10 @@ export function createTaskCallbacks(options: TaskCallbacksOptions): TaskCallback
         status,
       });
       storage.updateTaskStatus(taskId, status, new Date().toISOString());
+      publishLocalApiEvent({ type: 'status', taskId, status });
+      if (status === 'cancelled') {
+        unregisterActiveTask(taskId);
+      }
     },
 
     onTodoUpdate: (todos: TodoItem[]) => {
@@ -153,6 +215,54 @@ export function createTaskCallbacks(options: TaskCallbacksOptions): TaskCallback
       forwardToRenderer('auth:error', error);
     },
 
+    onModelSwitch: (model) => {
+      // Later follow-ups and resumes stay on the fallback model
+      const runConfig = storage.getTask(taskId)?.runConfig;
+      storage.updateTaskRunConfig(taskId, {
+        ...runConfig,
+        providerId: model.providerId,
+        modelId: model.modelId,
+      });
+    },
+
+    onStepFinish: (step) => {
+      if (!step.tokens && step.cost === undefined) {
+        return;
+      }
+      try {
+        storage.recordTaskUsage(taskId, step);
+      } catch (error) {
+        console.warn('[TaskCallbacks] Failed to record step usage:', error);
+      }
+    },
+
+    onUsageUpdate: (usage: TaskUsage, budget: TaskBudgetLimitStatus[]) => {
+      forwardToRenderer('task:usage', { taskId, usage, budget });
+    },
+
+    onBudgetWarning: (status: TaskBudgetLimitStatus, usage: TaskUsage) => {
+      forwardToRenderer('task:budget-warning', { taskId, status, usage });
+    },
+
+    createSubtaskCallbacks: (subtaskId: string) =>
+      createTaskCallbacks({ taskId: subtaskId, window, sender }),
+
+    onSubtaskStarted: (subtask: Task) => {
+      const task: Task = {
+        ...subtask,
+        messages: [
+          {
+            id: createMessageId(),
+            type: 'user',
+            content: subtask.prompt,
+            timestamp: new Date().toISOString(),
+          },
+        ],
+      };
+      storage.saveTask(task);
+      forwardToRenderer('task:subtask-started', { task, parentTaskId: taskId });
+    },
+
     onToolCallComplete: ({ toolName, toolOutput }) => {
       if (!isDevBrowserToolCall(toolName)) {
         return;
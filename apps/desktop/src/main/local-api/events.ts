@@ -0,0 +1,13 @@
+import type { LocalApiEvent, LocalApiServerAPI } from '@accomplish_ai/agent-core';
+
+// Kept apart from the server setup so task code can publish without loading storage
+let publishTarget: LocalApiServerAPI | null = null;
+
+export function setLocalApiEventTarget(server: LocalApiServerAPI | null): void {
+  publishTarget = server;
+}
+
+/** Forward a task event to the API's event streams; a no-op while the server is off */
+export function publishLocalApiEvent(event: LocalApiEvent): void {
+  publishTarget?.publish(event);
+}
@@ -0,0 +1,109 @@
+import {
+  createLocalApiServer,
+  generateLocalApiToken,
+  type LocalApiHandlers,
+  type LocalApiServerAPI,
+  type LocalApiSettings,
+  type LocalApiStatus,
+  type UpdateLocalApiSettingsInput,
+} from '@accomplish_ai/agent-core';
+import { getStorage } from '../store/storage';
+import { setLocalApiEventTarget } from './events';
+
+let handlersInstance: LocalApiHandlers | null = null;
+let serverInstance: LocalApiServerAPI | null = null;
+let startError: string | undefined;
+
+/** Read the settings, generating a token the first time they are needed */
+function getSettings(): LocalApiSettings {
+  const storage = getStorage();
+  const settings = storage.getLocalApiSettings();
+  if (!settings.token) {
+    settings.token = generateLocalApiToken();
+    storage.setLocalApiSettings(settings);
+  }
+  return settings;
+}
+
+async function stopServer(): Promise<void> {
+  if (serverInstance) {
+    const server = serverInstance;
+    serverInstance = null;
+    setLocalApiEventTarget(null);
+    await server.stop();
+  }
+}
+
+/** Stop any running server and start a new one with the stored settings, if enabled */
+async function restartServer(): Promise<void> {
+  await stopServer();
+  startError = undefined;
+
+  const settings = getSettings();
+  if (!settings.enabled || !handlersInstance) {
+    return;
+  }
+
+  const server = createLocalApiServer({
+    port: settings.port,
+    token: settings.token,
+    handlers: handlersInstance,
+  });
+  try {
+    await server.start();
+    serverInstance = server;
+    setLocalApiEventTarget(server);
+    console.log(`[Local API] Server listening on port ${settings.port}`);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    startError =
+      code === 'EADDRINUSE'
+        ? `Port ${settings.port} is already in use`
+        : error instanceof Error
+          ? error.message
+          : String(error);
+    console.warn('[Local API] Failed to start server:', startError);
+  }
+}
+
+/**
+ * Register the operations the local API exposes and start the server if it is
+ * enabled. Operations run exactly as their IPC counterparts do.
+ */
+export async function initLocalApi(handlers: LocalApiHandlers): Promise<void> {
+  handlersInstance = handlers;
+  await restartServer();
+}
+
+export function getLocalApiStatus(): LocalApiStatus {
+  return {
+    settings: getSettings(),
+    running: serverInstance?.isRunning() ?? false,
+    ...(startError && { error: startError }),
+  };
+}
+
+export async function updateLocalApiSettings(
+  input: UpdateLocalApiSettingsInput,
+): Promise<LocalApiStatus> {
+  const settings = getSettings();
+  getStorage().setLocalApiSettings({
+    ...settings,
+    enabled: input.enabled ?? settings.enabled,
+    port: input.port ?? settings.port,
+  });
+  await restartServer();
+  return getLocalApiStatus();
+}
+
+/** Replace the bearer token; clients using the old one are rejected from now on */
+export async function regenerateLocalApiToken(): Promise<LocalApiStatus> {
+  getStorage().setLocalApiSettings({ ...getSettings(), token: generateLocalApiToken() });
+  await restartServer();
+  return getLocalApiStatus();
+}
+
+export async function disposeLocalApi(): Promise<void> {
+  handlersInstance = null;
+  await stopServer();
+}
@@ -23,6 +23,7 @@ import type {
   VertexCredentials,
 } from '@accomplish_ai/agent-core';
 import { getStorage } from '../store/storage';
+import { getRecordingPath, takeReplayRecording } from './replay';
 import { getAllApiKeys, getBedrockCredentials, getApiKey } from '../store/secureStorage';
 import {
   generateOpenCodeConfig,
@@ -112,7 +113,26 @@ export function getBundledOpenCodeVersion(): string | null {
   }
 }
 
-export async function buildEnvironment(taskId: string): Promise<NodeJS.ProcessEnv> {
+/**
+ * The provider and model a task runs on: its own provider override when it
+ * has one, otherwise the active provider's model.
+ */
+function resolveTaskModel(config?: TaskConfig) {
+  const storage = getStorage();
+  if (config?.providerId) {
+    const providerModel = storage.getProviderModel(config.providerId);
+    if (providerModel) {
+      return { ...providerModel, model: config.modelId || providerModel.model };
+    }
+    console.warn(`[OpenCode CLI] Provider ${config.providerId} is not ready, using active model`);
+  }
+  return storage.getActiveProviderModel() || storage.getSelectedModel();
+}
+
+export async function buildEnvironment(
+  taskId: string,
+  config?: TaskConfig,
+): Promise<NodeJS.ProcessEnv> {
   // Start with base environment
   let env: NodeJS.ProcessEnv = { ...process.env };
   const bundledNode = getBundledNodePaths();
@@ -167,11 +187,11 @@ export async function buildEnvironment(taskId: string): Promise<NodeJS.ProcessEn
   const configuredOpenAiBaseUrl = apiKeys.openai ? storage.getOpenAiBaseUrl().trim() : undefined;
 
   // Determine Ollama host
-  const activeModel = storage.getActiveProviderModel();
+  const taskModel = resolveTaskModel(config);
   const selectedModel = storage.getSelectedModel();
   let ollamaHost: string | undefined;
-  if (activeModel?.provider === 'ollama' && activeModel.baseUrl) {
-    ollamaHost = activeModel.baseUrl;
+  if (taskModel?.provider === 'ollama' && taskModel.baseUrl) {
+    ollamaHost = taskModel.baseUrl;
   } else if (selectedModel?.provider === 'ollama' && selectedModel.baseUrl) {
     ollamaHost = selectedModel.baseUrl;
   }
@@ -217,9 +237,7 @@ export async function buildEnvironment(taskId: string): Promise<NodeJS.ProcessEn
 }
 
 export async function buildCliArgs(config: TaskConfig, _taskId: string): Promise<string[]> {
-  const storage = getStorage();
-  const activeModel = storage.getActiveProviderModel();
-  const selectedModel = activeModel || storage.getSelectedModel();
+  const selectedModel = resolveTaskModel(config);
 
   return coreBuildCliArgs({
     prompt: config.prompt,
@@ -230,6 +248,8 @@ export async function buildCliArgs(config: TaskConfig, _taskId: string): Promise
           model: selectedModel.model,
         }
       : null,
+    systemPromptAppend: config.systemPromptAppend,
+    outputSchema: config.outputSchema,
   });
 }
 
@@ -241,13 +261,12 @@ export async function isCliAvailable(): Promise<boolean> {
   return isOpenCodeCliAvailable();
 }
 
-export async function onBeforeStart(): Promise<void> {
+export async function onBeforeStart(config?: TaskConfig): Promise<void> {
   await syncApiKeysToOpenCodeAuth();
 
   let azureFoundryToken: string | undefined;
   const storage = getStorage();
-  const activeModel = storage.getActiveProviderModel();
-  const selectedModel = activeModel || storage.getSelectedModel();
+  const selectedModel = resolveTaskModel(config);
   const azureFoundryConfig = storage.getAzureFoundryConfig();
   const azureFoundryProvider = storage.getConnectedProvider('azure-foundry');
   const azureFoundryCredentials = azureFoundryProvider?.credentials as
@@ -346,10 +365,15 @@ export function createElectronTaskManagerOptions(): TaskManagerOptions {
       onBeforeStart,
       getModelDisplayName,
       buildCliArgs,
+      getRecordingPath,
     },
     defaultWorkingDirectory: app.getPath('temp'),
     maxConcurrentTasks: 10,
     isCliAvailable,
     onBeforeTaskStart,
+    getDefaultTimeouts: () => getStorage().getTaskTimeoutDefaults(),
+    getReplayRecording: takeReplayRecording,
+    getProjectVerifications: (workingDirectory) =>
+      getStorage().getProjectProfileForDirectory(workingDirectory)?.verifications,
   };
 }
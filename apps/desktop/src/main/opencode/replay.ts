@@ -0,0 +1,26 @@
+import { app } from 'electron';
+import path from 'path';
+import type { OpenCodeRecording } from '@accomplish_ai/agent-core';
+import { getStorage } from '../store/storage';
+
+// Recordings waiting for the task manager to start their replay task
+const pendingReplays = new Map<string, OpenCodeRecording>();
+
+export function getRecordingsDir(): string {
+  return path.join(app.getPath('userData'), 'recordings');
+}
+
+/** Tasks are recorded while debug mode is on so they can be replayed later */
+export function getRecordingPath(taskId: string): string | undefined {
+  return getStorage().getDebugMode() ? path.join(getRecordingsDir(), `${taskId}.jsonl`) : undefined;
+}
+
+export function registerReplay(taskId: string, recording: OpenCodeRecording): void {
+  pendingReplays.set(taskId, recording);
+}
+
+export function takeReplayRecording(taskId: string): OpenCodeRecording | undefined {
+  const recording = pendingReplays.get(taskId);
+  pendingReplays.delete(taskId);
+  return recording;
+}
@@ -14,43 +14,234 @@ import {
   isFilePermissionRequest,
   isQuestionRequest,
   createPermissionHandler,
+  createFilePermissionRequestId,
+  findSandboxViolations,
+  formatSandboxRejection,
+  getFilePermissionArtifacts,
+  readFileDiff,
+  validateQuestionAnswer,
+  type PermissionAuditDecider,
+  type PermissionAuditOutcome,
   type PermissionHandlerAPI,
+  type PermissionRequest,
+  type QuestionInputConstraints,
+  type QuestionInputType,
   type PermissionFileRequestData as FilePermissionRequestData,
   type PermissionQuestionRequestData as QuestionRequestData,
   type PermissionQuestionResponseData as QuestionResponseData,
+  type SandboxMode,
 } from '@accomplish_ai/agent-core';
+import { publishLocalApiEvent } from './local-api/events';
+import { getStorage } from './store/storage';
+import { snapshotBeforeFirstChange } from './snapshots';
+import { trashBeforeChange } from './trash';
 
 export { PERMISSION_API_PORT, QUESTION_API_PORT, isFilePermissionRequest, isQuestionRequest };
 
-// Singleton permission request handler
-const permissionHandler: PermissionHandlerAPI = createPermissionHandler();
+// Singleton permission request handler; saved rules are read per request
+const permissionHandler: PermissionHandlerAPI = createPermissionHandler({
+  getPermissionRules: () => getStorage().getAllPermissionRules(),
+});
+
+// Who answered each pending request and, for a partly approved batch, which
+// paths; read back once the request's promise settles
+const pendingAnswers = new Map<
+  string,
+  { decidedBy: PermissionAuditDecider; approvedPaths?: string[] }
+>();
+
+// Typed questions waiting for an answer, so the answer can be checked
+// against the question's constraints before it reaches the agent
+const pendingTypedQuestions = new Map<
+  string,
+  { inputType: QuestionInputType; constraints?: QuestionInputConstraints }
+>();
 
 // Store reference to main window and task manager
 let mainWindow: BrowserWindow | null = null;
 let getActiveTaskId: (() => string | null) | null = null;
+let getWorkingDirectory: ((taskId: string) => string | null) | null = null;
+let isActiveTask: ((taskId: string) => boolean) | null = null;
 
 /**
  * Initialize the permission API with dependencies
  */
-export function initPermissionApi(window: BrowserWindow, taskIdGetter: () => string | null): void {
+export function initPermissionApi(
+  window: BrowserWindow,
+  taskIdGetter: () => string | null,
+  workingDirectoryGetter?: (taskId: string) => string | null,
+  activeTaskChecker?: (taskId: string) => boolean,
+): void {
   mainWindow = window;
   getActiveTaskId = taskIdGetter;
+  getWorkingDirectory = workingDirectoryGetter ?? null;
+  isActiveTask = activeTaskChecker ?? null;
+}
+
+/**
+ * The task a request comes from. Tools send their own task ID, which must be
+ * an active task; requests without one fall back to the first active task.
+ */
+function resolveRequestTaskId(requestedTaskId: unknown): string | null {
+  if (typeof requestedTaskId === 'string' && requestedTaskId) {
+    return isActiveTask?.(requestedTaskId) ? requestedTaskId : null;
+  }
+  return getActiveTaskId?.() ?? null;
+}
+
+/**
+ * Check a request against the sandbox settings. Returns null when the sandbox
+ * is off or every path is inside it.
+ */
+function checkSandbox(
+  taskId: string,
+  data: FilePermissionRequestData,
+): { mode: SandboxMode; violations: string[] } | null {
+  const sandbox = getStorage().getSandboxSettings();
+  if (!sandbox.enabled) {
+    return null;
+  }
+
+  const workingDirectory = getWorkingDirectory?.(taskId);
+  // Without a known working directory nothing can be shown to be inside the sandbox
+  const violations = workingDirectory
+    ? findSandboxViolations(data, workingDirectory, sandbox.allowedRoots)
+    : [data.filePath, ...(data.filePaths ?? []), data.targetPath].filter(
+        (filePath): filePath is string => Boolean(filePath),
+      );
+  return violations.length > 0 ? { mode: sandbox.mode, violations } : null;
 }
 
 /**
  * Resolve a pending permission request from the MCP server
  * Called when user responds via the UI
  */
-export function resolvePermission(requestId: string, allowed: boolean): boolean {
-  return permissionHandler.resolvePermissionRequest(requestId, allowed);
+export function resolvePermission(
+  requestId: string,
+  allowed: boolean,
+  decidedBy: PermissionAuditDecider = 'user',
+  approvedPaths?: string[],
+): boolean {
+  pendingAnswers.set(requestId, { decidedBy, approvedPaths });
+  const resolved = permissionHandler.resolvePermissionRequest(requestId, allowed);
+  if (!resolved) {
+    pendingAnswers.delete(requestId);
+  }
+  return resolved;
 }
 
 /**
  * Resolve a pending question request from the MCP server
- * Called when user responds via the UI
+ * Called when user responds via the UI. Throws when the answer to a typed
+ * question does not meet its constraints.
  */
-export function resolveQuestion(requestId: string, response: QuestionResponseData): boolean {
-  return permissionHandler.resolveQuestionRequest(requestId, response);
+export function resolveQuestion(
+  requestId: string,
+  response: QuestionResponseData,
+  decidedBy: PermissionAuditDecider = 'user',
+): boolean {
+  const typed = pendingTypedQuestions.get(requestId);
+  if (typed && !response.denied) {
+    const error = validateQuestionAnswer(typed.inputType, typed.constraints, response.customText);
+    if (error) {
+      throw new Error(`Invalid answer: ${error}`);
+    }
+  }
+  pendingAnswers.set(requestId, { decidedBy });
+  const resolved = permissionHandler.resolveQuestionRequest(requestId, response);
+  if (!resolved) {
+    pendingAnswers.delete(requestId);
+  }
+  return resolved;
+}
+
+/**
+ * Add a request and its answer to the permission audit trail. A failure to
+ * record is logged but never changes the answer the agent gets.
+ */
+function recordAudit(
+  request: PermissionRequest,
+  outcome: PermissionAuditOutcome,
+  details: {
+    approvedPaths?: string[];
+    decidedBy?: PermissionAuditDecider;
+    ruleId?: string;
+    selectedOptions?: string[];
+    customText?: string;
+  } = {},
+): void {
+  const filePaths = [request.filePath, ...(request.filePaths ?? []), request.targetPath].filter(
+    (filePath): filePath is string => Boolean(filePath),
+  );
+  try {
+    getStorage().recordPermissionAudit({
+      requestId: request.id,
+      taskId: request.taskId,
+      requestType: request.type,
+      fileOperation: request.fileOperation,
+      filePaths,
+      toolName: request.toolName,
+      question: request.question,
+      outcome,
+      ...details,
+      requestedAt: request.createdAt,
+      respondedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[Permission API] Failed to record permission audit entry:', error);
+  }
+}
+
+/** Take the recorded answer for a settled request, defaulting to the user */
+function takeAnswer(requestId: string): {
+  decidedBy: PermissionAuditDecider;
+  approvedPaths?: string[];
+} {
+  const answer = pendingAnswers.get(requestId) ?? { decidedBy: 'user' };
+  pendingAnswers.delete(requestId);
+  return answer;
+}
+
+/**
+ * The paths of a batch request that were approved, or undefined when the
+ * whole request was. Paths that are not part of the request are ignored.
+ */
+function narrowApprovedPaths(
+  request: PermissionRequest,
+  approvedPaths: string[] | undefined,
+): string[] | undefined {
+  const requested = request.filePaths ?? [];
+  if (!approvedPaths || requested.length < 2) {
+    return undefined;
+  }
+  const approved = requested.filter((filePath) => approvedPaths.includes(filePath));
+  return approved.length === requested.length ? undefined : approved;
+}
+
+/**
+ * Record the files an approved request lets the agent touch and refresh the
+ * task's artifact list in the UI
+ */
+function recordArtifacts(
+  taskId: string,
+  request: Parameters<typeof getFilePermissionArtifacts>[0],
+): void {
+  const artifacts = getFilePermissionArtifacts(request);
+  if (artifacts.length === 0) {
+    return;
+  }
+  try {
+    const storage = getStorage();
+    storage.recordTaskArtifacts(taskId, artifacts);
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('task:artifacts', {
+        taskId,
+        artifacts: storage.getArtifactsForTask(taskId),
+      });
+    }
+  } catch (error) {
+    console.error('[Permission API] Failed to record task artifacts:', error);
+  }
 }
 
 /**
@@ -108,28 +299,101 @@ export function startPermissionApiServer(): http.Server {
       return;
     }
 
-    const taskId = getActiveTaskId();
+    const taskId = resolveRequestTaskId(data.taskId);
     if (!taskId) {
       res.writeHead(400, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ error: 'No active task' }));
       return;
     }
 
+    const sandboxCheck = checkSandbox(taskId, data);
+    // Requests answered without asking still get an ID in the audit trail
+    const autoAnswered = () =>
+      permissionHandler.buildFilePermissionRequest(createFilePermissionRequestId(), taskId, data);
+    if (sandboxCheck?.mode === 'reject') {
+      console.warn('[Permission API] Rejected request outside the sandbox', {
+        taskId,
+        paths: sandboxCheck.violations,
+      });
+      recordAudit(autoAnswered(), 'denied', { decidedBy: 'sandbox' });
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({ allowed: false, reason: formatSandboxRejection(sandboxCheck.violations) }),
+      );
+      return;
+    }
+
+    // A saved rule answers the request without asking. An allow rule does not
+    // cover paths outside the sandbox; those still go to the user.
+    const rule = permissionHandler.findPermissionRule(taskId, data, getWorkingDirectory?.(taskId));
+    if (rule && (rule.decision === 'deny' || !sandboxCheck)) {
+      const allowed = rule.decision === 'allow';
+      console.log(`[Permission API] Request ${allowed ? 'allowed' : 'denied'} by rule ${rule.id}`);
+      recordAudit(autoAnswered(), allowed ? 'allowed' : 'denied', {
+        decidedBy: 'rule',
+        ruleId: rule.id,
+      });
+      if (allowed) {
+        const approved = { ...data, fileOperation: data.operation };
+        await snapshotBeforeFirstChange(taskId);
+        trashBeforeChange(taskId, approved);
+        recordArtifacts(taskId, approved);
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify(
+          allowed ? { allowed } : { allowed, reason: 'Denied by a saved permission rule' },
+        ),
+      );
+      return;
+    }
+
     // Create request using core handler
     const { requestId, promise } = permissionHandler.createPermissionRequest();
 
     // Build permission request for the UI
     const permissionRequest = permissionHandler.buildFilePermissionRequest(requestId, taskId, data);
+    if (sandboxCheck) {
+      permissionRequest.sandboxViolations = sandboxCheck.violations;
+    }
+    if (
+      typeof data.proposedContent === 'string' &&
+      data.filePath &&
+      (data.operation === 'modify' || data.operation === 'overwrite')
+    ) {
+      permissionRequest.diff =
+        readFileDiff(data.filePath, data.proposedContent, {
+          baseDir: getWorkingDirectory?.(taskId) ?? undefined,
+        }) ?? undefined;
+    }
 
     // Send to renderer (Electron-specific)
     mainWindow.webContents.send('permission:request', permissionRequest);
+    publishLocalApiEvent({ type: 'permission', taskId, request: permissionRequest });
 
     // Wait for user response
     try {
-      const allowed = await promise;
+      const granted = await promise;
+      const answer = takeAnswer(requestId);
+      const approvedPaths = narrowApprovedPaths(permissionRequest, answer.approvedPaths);
+      // Approving none of a batch's paths is a denial
+      const allowed = granted && approvedPaths?.length !== 0;
+      recordAudit(permissionRequest, allowed ? 'allowed' : 'denied', {
+        decidedBy: answer.decidedBy,
+        ...(allowed && approvedPaths && { approvedPaths }),
+      });
+      if (allowed) {
+        const approved = approvedPaths
+          ? { ...permissionRequest, filePaths: approvedPaths }
+          : permissionRequest;
+        await snapshotBeforeFirstChange(taskId);
+        trashBeforeChange(taskId, approved);
+        recordArtifacts(taskId, approved);
+      }
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ allowed }));
+      res.end(JSON.stringify(allowed && approvedPaths ? { allowed, approvedPaths } : { allowed }));
     } catch (_error) {
+      recordAudit(permissionRequest, 'timed-out');
       res.writeHead(408, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ error: 'Request timed out', allowed: false }));
     }
@@ -207,7 +471,7 @@ export function startQuestionApiServer(): http.Server {
       return;
     }
 
-    const taskId = getActiveTaskId();
+    const taskId = resolveRequestTaskId(data.taskId);
     if (!taskId) {
       res.writeHead(400, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ error: 'No active task' }));
@@ -219,18 +483,34 @@ export function startQuestionApiServer(): http.Server {
 
     // Build question request for the UI
     const questionRequest = permissionHandler.buildQuestionRequest(requestId, taskId, data);
+    if (questionRequest.inputType) {
+      pendingTypedQuestions.set(requestId, {
+        inputType: questionRequest.inputType,
+        constraints: questionRequest.constraints,
+      });
+    }
 
     // Send to renderer (Electron-specific)
     mainWindow.webContents.send('permission:request', questionRequest);
+    publishLocalApiEvent({ type: 'permission', taskId, request: questionRequest });
 
     // Wait for user response
     try {
       const response = await promise;
+      recordAudit(questionRequest, response.denied ? 'denied' : 'allowed', {
+        decidedBy: takeAnswer(requestId).decidedBy,
+        selectedOptions: response.selectedOptions,
+        // Secret answers are never written down
+        customText: questionRequest.inputType === 'secret' ? undefined : response.customText,
+      });
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify(response));
     } catch (_error) {
+      recordAudit(questionRequest, 'timed-out');
       res.writeHead(408, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ error: 'Request timed out', denied: true }));
+    } finally {
+      pendingTypedQuestions.delete(requestId);
     }
   });
 
@@ -0,0 +1,75 @@
+import { BrowserWindow } from 'electron';
+import { createTaskScheduler, type TaskSchedulerAPI } from '@accomplish_ai/agent-core';
+import { getTaskManager } from '../opencode';
+import { getStorage } from '../store/storage';
+import { createTaskCallbacks } from '../ipc/task-callbacks';
+
+export interface DesktopTaskSchedulerOptions {
+  /** Called with the target window before each scheduled run (e.g. to start the permission API) */
+  onBeforeRun?: (window: BrowserWindow) => void;
+}
+
+let taskSchedulerInstance: TaskSchedulerAPI | null = null;
+
+function getTargetWindow(): BrowserWindow | null {
+  const window = BrowserWindow.getAllWindows().find((w) => !w.isDestroyed());
+  return window ?? null;
+}
+
+/**
+ * Create and start the task scheduler. Scheduled runs are streamed to the first
+ * open window and skipped while no window or provider is available.
+ */
+export function initTaskScheduler(options: DesktopTaskSchedulerOptions = {}): TaskSchedulerAPI {
+  if (taskSchedulerInstance) {
+    return taskSchedulerInstance;
+  }
+
+  const storage = getStorage();
+  const taskManager = getTaskManager();
+
+  taskSchedulerInstance = createTaskScheduler({
+    storage,
+    taskManager,
+    canRun: () => storage.hasReadyProvider() && getTargetWindow() !== null,
+    prepareConfig: (config) => {
+      const activeModel = storage.getActiveProviderModel();
+      const selectedModel = activeModel || storage.getSelectedModel();
+      if (selectedModel?.model) {
+        config.modelId = selectedModel.model;
+      }
+      return config;
+    },
+    createCallbacks: (taskId) => {
+      const window = getTargetWindow();
+      if (!window) {
+        throw new Error('No window available for scheduled task');
+      }
+      options.onBeforeRun?.(window);
+      return createTaskCallbacks({ taskId, window, sender: window.webContents });
+    },
+    onTaskStarted: (task, schedule) => {
+      const window = getTargetWindow();
+      if (window) {
+        window.webContents.send('schedule:task-started', { task, scheduleId: schedule.id });
+      }
+    },
+  });
+
+  taskSchedulerInstance.start();
+  return taskSchedulerInstance;
+}
+
+export function getTaskScheduler(): TaskSchedulerAPI {
+  if (!taskSchedulerInstance) {
+    throw new Error('Task scheduler not initialized');
+  }
+  return taskSchedulerInstance;
+}
+
+export function disposeTaskScheduler(): void {
+  if (taskSchedulerInstance) {
+    taskSchedulerInstance.stop();
+    taskSchedulerInstance = null;
+  }
+}
@@ -0,0 +1,142 @@
+import path from 'path';
+import { app } from 'electron';
+import {
+  createSnapshot,
+  createTaskSnapshotId,
+  diffSnapshot,
+  pruneSnapshotObjects,
+  rollbackToSnapshot,
+  type SnapshotChange,
+  type SnapshotRollbackResult,
+  type TaskSnapshot,
+  type TaskSnapshotTrigger,
+} from '@accomplish_ai/agent-core';
+import { getTaskManager } from '../opencode';
+import { getStorage } from '../store/storage';
+
+// Tasks with a snapshot being taken, so concurrent approvals only take one
+const inFlight = new Map<string, Promise<TaskSnapshot | null>>();
+// Tasks whose directory was skipped or too large, so later approvals do not walk it again
+const unsnapshottable = new Set<string>();
+
+function getSnapshotStoreRoot(): string {
+  return path.join(app.getPath('userData'), 'snapshots');
+}
+
+/**
+ * Tasks without a working directory of their own run in the OS temp folder,
+ * which other processes share, so it is never snapshotted or rolled back.
+ */
+function isSnapshotRoot(workingDirectory: string): boolean {
+  return path.resolve(workingDirectory) !== path.resolve(app.getPath('temp'));
+}
+
+async function takeSnapshot(
+  taskId: string,
+  trigger: TaskSnapshotTrigger,
+  label?: string,
+): Promise<TaskSnapshot | null> {
+  const workingDirectory = getTaskManager().getWorkingDirectory(taskId);
+  if (!workingDirectory || !isSnapshotRoot(workingDirectory)) {
+    return null;
+  }
+
+  const manifest = await createSnapshot(getSnapshotStoreRoot(), workingDirectory);
+  if (!manifest) {
+    console.warn(`[Snapshots] ${workingDirectory} is too large to snapshot for task ${taskId}`);
+    return null;
+  }
+
+  const files = Object.values(manifest.files);
+  const snapshot: TaskSnapshot = {
+    id: createTaskSnapshotId(),
+    taskId,
+    trigger,
+    label,
+    workingDirectory,
+    fileCount: files.length,
+    totalBytes: files.reduce((total, file) => total + file.size, 0),
+    createdAt: new Date().toISOString(),
+  };
+  getStorage().insertTaskSnapshot(snapshot, manifest);
+  return snapshot;
+}
+
+/**
+ * Snapshot the task's working directory before its first approved file
+ * change. Later changes reuse the earlier snapshot. Failures are logged and
+ * never block the change.
+ */
+export async function snapshotBeforeFirstChange(taskId: string): Promise<void> {
+  const pending = inFlight.get(taskId);
+  if (pending) {
+    await pending;
+    return;
+  }
+  if (unsnapshottable.has(taskId) || getStorage().getTaskSnapshots(taskId).length > 0) {
+    return;
+  }
+
+  const snapshot = takeSnapshot(taskId, 'first-change').catch((error) => {
+    console.error(`[Snapshots] Failed to snapshot task ${taskId}:`, error);
+    return null;
+  });
+  inFlight.set(taskId, snapshot);
+  try {
+    if (!(await snapshot)) {
+      unsnapshottable.add(taskId);
+    }
+  } finally {
+    inFlight.delete(taskId);
+  }
+}
+
+/** Snapshot the task's working directory when the agent reports a checkpoint */
+export function snapshotAtCheckpoint(taskId: string, summary: string): void {
+  takeSnapshot(taskId, 'checkpoint', summary).catch((error) => {
+    console.error(`[Snapshots] Failed to snapshot task ${taskId} at checkpoint:`, error);
+  });
+}
+
+function getSnapshotWithManifest(id: string) {
+  const storage = getStorage();
+  const snapshot = storage.getTaskSnapshot(id);
+  const manifest = snapshot && storage.getTaskSnapshotManifest(id);
+  if (!snapshot || !manifest) {
+    throw new Error('Snapshot not found');
+  }
+  if (!isSnapshotRoot(snapshot.workingDirectory)) {
+    throw new Error('Snapshots of the shared temp folder cannot be rolled back');
+  }
+  return { snapshot, manifest };
+}
+
+/** What rolling back to a snapshot would change */
+export async function previewRollback(id: string): Promise<SnapshotChange[]> {
+  const { snapshot, manifest } = getSnapshotWithManifest(id);
+  return diffSnapshot(snapshot.workingDirectory, manifest);
+}
+
+/** Put the task's working directory back the way it was when the snapshot was taken */
+export async function rollbackTaskSnapshot(id: string): Promise<SnapshotRollbackResult> {
+  const { snapshot, manifest } = getSnapshotWithManifest(id);
+  if (getTaskManager().isTaskRunning(snapshot.taskId)) {
+    throw new Error('Stop the task before rolling back its changes');
+  }
+  return rollbackToSnapshot(getSnapshotStoreRoot(), snapshot.workingDirectory, manifest);
+}
+
+/** Remove stored content left behind by snapshots of deleted tasks */
+export async function pruneSnapshots(): Promise<void> {
+  try {
+    const removed = await pruneSnapshotObjects(
+      getSnapshotStoreRoot(),
+      getStorage().getReferencedSnapshotHashes(),
+    );
+    if (removed > 0) {
+      console.log(`[Snapshots] Pruned ${removed} unreferenced object(s)`);
+    }
+  } catch (error) {
+    console.error('[Snapshots] Prune failed:', error);
+  }
+}
@@ -11,10 +11,13 @@ import type { BrowserWindow } from 'electron';
 import {
   THOUGHT_STREAM_PORT,
   createThoughtStreamHandler,
+  getStuckModelSwitchPrompt,
   type ThoughtStreamAPI,
   type ThoughtStreamEvent as ThoughtEvent,
   type ThoughtStreamCheckpointEvent as CheckpointEvent,
 } from '@accomplish_ai/agent-core';
+import { getTaskManager } from './opencode';
+import { snapshotAtCheckpoint } from './snapshots';
 
 // Re-export types and constant for backwards compatibility
 export { THOUGHT_STREAM_PORT };
@@ -140,6 +143,34 @@ function handleCheckpoint(event: CheckpointEvent, res: http.ServerResponse): voi
     mainWindow.webContents.send('task:checkpoint', event);
   }
 
+  snapshotAtCheckpoint(event.taskId, event.summary);
+
+  const taskManager = getTaskManager();
+  const escalation = thoughtStreamHandler.evaluateCheckpoint(
+    event,
+    taskManager.getStuckPolicy(event.taskId),
+  );
+
+  switch (escalation?.action) {
+    case 'ask-user':
+      // The report-checkpoint tool raises the question itself and waits for the answer
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ escalation: 'ask-user' }));
+      return;
+    case 'switch-model':
+      taskManager
+        .switchTaskModel(event.taskId, escalation.fallbackModel, getStuckModelSwitchPrompt(event))
+        .catch((error) => {
+          console.error('[Thought Stream API] Failed to switch models:', error);
+        });
+      break;
+    case 'abort':
+      taskManager.abortStuckTask(event.taskId, escalation.reason).catch((error) => {
+        console.error('[Thought Stream API] Failed to abort stuck task:', error);
+      });
+      break;
+  }
+
   // Fire-and-forget: always return 200
   res.writeHead(200);
   res.end();
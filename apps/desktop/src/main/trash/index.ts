@@ -0,0 +1,149 @@
+import path from 'path';
+import { app } from 'electron';
+import {
+  copyToTrash,
+  createTrashEntryId,
+  getFilePermissionArtifacts,
+  removeFromTrash,
+  restoreFromTrash,
+  type PermissionRequest,
+  type TrashEntry,
+} from '@accomplish_ai/agent-core';
+import { getStorage } from '../store/storage';
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let purgeTimer: NodeJS.Timeout | null = null;
+
+function getTrashRoot(): string {
+  return path.join(app.getPath('userData'), 'trash');
+}
+
+/**
+ * Keep a copy of every path an approved delete or overwrite is about to
+ * replace. Failures are logged and never block the operation.
+ */
+export function trashBeforeChange(
+  taskId: string,
+  request: Pick<PermissionRequest, 'fileOperation' | 'filePath' | 'filePaths' | 'targetPath'>,
+): TrashEntry[] {
+  const reason = request.fileOperation;
+  if (reason !== 'delete' && reason !== 'overwrite') {
+    return [];
+  }
+
+  const storage = getStorage();
+  if (!storage.getTrashSettings().enabled) {
+    return [];
+  }
+
+  const entries: TrashEntry[] = [];
+  for (const { filePath } of getFilePermissionArtifacts(request)) {
+    if (!path.isAbsolute(filePath)) {
+      continue;
+    }
+    const id = createTrashEntryId();
+    try {
+      const copied = copyToTrash(getTrashRoot(), { id, originalPath: filePath });
+      if (!copied) {
+        continue;
+      }
+      const entry: TrashEntry = {
+        id,
+        taskId,
+        originalPath: filePath,
+        reason,
+        ...copied,
+        trashedAt: new Date().toISOString(),
+      };
+      storage.insertTrashEntry(entry);
+      entries.push(entry);
+    } catch (error) {
+      console.error(`[Trash] Failed to keep a copy of ${filePath}:`, error);
+      removeFromTrash(getTrashRoot(), { id });
+    }
+  }
+  return entries;
+}
+
+/** Put one trashed copy back at its original path */
+export function restoreTrashEntry(id: string): void {
+  const storage = getStorage();
+  const entry = storage.getTrashEntry(id);
+  if (!entry) {
+    throw new Error('Trash entry not found');
+  }
+  restoreFromTrash(getTrashRoot(), entry);
+  storage.deleteTrashEntry(id);
+}
+
+/**
+ * Undo every delete and overwrite a task made. Newest copies are restored
+ * first so a path changed several times ends up with its oldest content.
+ */
+export function restoreTaskTrash(taskId: string): { restored: number; failed: string[] } {
+  const storage = getStorage();
+  const failed: string[] = [];
+  let restored = 0;
+  for (const entry of storage.getTrashEntries(taskId)) {
+    try {
+      restoreFromTrash(getTrashRoot(), entry);
+      storage.deleteTrashEntry(entry.id);
+      restored++;
+    } catch (error) {
+      console.error(`[Trash] Failed to restore ${entry.originalPath}:`, error);
+      failed.push(entry.originalPath);
+    }
+  }
+  return { restored, failed };
+}
+
+/** Delete a trashed copy for good */
+export function deleteTrashEntryPermanently(id: string): void {
+  removeFromTrash(getTrashRoot(), { id });
+  getStorage().deleteTrashEntry(id);
+}
+
+/** Delete copies older than the retention period */
+export function purgeExpiredTrash(): number {
+  const storage = getStorage();
+  const { retentionDays } = storage.getTrashSettings();
+  const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString();
+  const expired = storage.getTrashEntriesBefore(cutoff);
+  for (const entry of expired) {
+    try {
+      deleteTrashEntryPermanently(entry.id);
+    } catch (error) {
+      console.error(`[Trash] Failed to purge ${entry.originalPath}:`, error);
+    }
+  }
+  return expired.length;
+}
+
+/** Purge expired copies now and then every hour while the app runs */
+export function startTrashPurge(): void {
+  if (purgeTimer) {
+    return;
+  }
+  const purge = () => {
+    try {
+      const purged = purgeExpiredTrash();
+      if (purged > 0) {
+        console.log(`[Trash] Purged ${purged} expired item(s)`);
+      }
+    } catch (error) {
+      console.error('[Trash] Purge failed:', error);
+    }
+  };
+  purge();
+  purgeTimer = setInterval(purge, PURGE_INTERVAL_MS);
+  purgeTimer.unref();
+}
+
+export function stopTrashPurge(): void {
+  if (purgeTimer) {
+    clearInterval(purgeTimer);
+    purgeTimer = null;
+  }
+}
@@ -0,0 +1,32 @@
+import { createWebhookDispatcher, type WebhookDispatcherAPI } from '@accomplish_ai/agent-core';
+import { getStorage } from '../store/storage';
+
+let webhookDispatcherInstance: WebhookDispatcherAPI | null = null;
+
+/**
+ * Get the webhook dispatcher, creating it on first use. Payloads describe the
+ * task as it is stored in history when the first delivery attempt is made.
+ */
+export function getWebhookDispatcher(): WebhookDispatcherAPI {
+  if (!webhookDispatcherInstance) {
+    const storage = getStorage();
+    webhookDispatcherInstance = createWebhookDispatcher({
+      storage,
+      describeTask: (taskId) => {
+        const task = storage.getTask(taskId);
+        if (!task) {
+          return undefined;
+        }
+        return { id: task.id, prompt: task.prompt, summary: task.summary, status: task.status };
+      },
+    });
+  }
+  return webhookDispatcherInstance;
+}
+
+export function disposeWebhookDispatcher(): void {
+  if (webhookDispatcherInstance) {
+    webhookDispatcherInstance.dispose();
+    webhookDispatcherInstance = null;
+  }
+}
@@ -6,7 +6,40 @@
  */
 
 import { contextBridge, ipcRenderer } from 'electron';
-import type { ProviderType, Skill, TodoItem, McpConnector } from '@accomplish_ai/agent-core';
+import type {
+  ProviderType,
+  Skill,
+  TodoItem,
+  TaskArtifact,
+  McpConnector,
+  TaskSchedule,
+  TaskConfig,
+  QueuedTaskInfo,
+  TaskUsageSummary,
+  UsageAggregate,
+  UsageGroupBy,
+  UsageQuery,
+  UsageTotals,
+  TaskTimeoutLimits,
+  SandboxSettings,
+  TrashSettings,
+  TrashEntry,
+  TaskSnapshot,
+  SnapshotChange,
+  SnapshotRollbackResult,
+  ProjectProfile,
+  ProjectProfileInput,
+  PermissionRule,
+  PermissionRuleInput,
+  PermissionAuditEntry,
+  PermissionAuditExportFormat,
+  WebhookTarget,
+  WebhookDelivery,
+  CreateWebhookTargetInput,
+  UpdateWebhookTargetInput,
+  LocalApiStatus,
+  UpdateLocalApiSettingsInput,
+} from '@accomplish_ai/agent-core';
 
 // Expose the accomplish API to the renderer
 const accomplishAPI = {
@@ -23,15 +56,29 @@ const accomplishAPI = {
   cancelTask: (taskId: string): Promise<void> => ipcRenderer.invoke('task:cancel', taskId),
   interruptTask: (taskId: string): Promise<void> => ipcRenderer.invoke('task:interrupt', taskId),
   getTask: (taskId: string): Promise<unknown> => ipcRenderer.invoke('task:get', taskId),
+  forkTask: (taskId: string, messageId: string, prompt: string): Promise<unknown> =>
+    ipcRenderer.invoke('task:fork', taskId, messageId, prompt),
+  recoverTask: (taskId: string): Promise<unknown> => ipcRenderer.invoke('task:recover', taskId),
   listTasks: (): Promise<unknown[]> => ipcRenderer.invoke('task:list'),
   deleteTask: (taskId: string): Promise<void> => ipcRenderer.invoke('task:delete', taskId),
   clearTaskHistory: (): Promise<void> => ipcRenderer.invoke('task:clear-history'),
   getTodosForTask: (taskId: string): Promise<TodoItem[]> =>
     ipcRenderer.invoke('task:get-todos', taskId),
+  getTaskArtifacts: (taskId: string): Promise<TaskArtifact[]> =>
+    ipcRenderer.invoke('task:get-artifacts', taskId),
+  openArtifact: (taskId: string, filePath: string): Promise<void> =>
+    ipcRenderer.invoke('artifacts:open', taskId, filePath),
+  revealArtifact: (taskId: string, filePath: string): Promise<void> =>
+    ipcRenderer.invoke('artifacts:reveal', taskId, filePath),
+  getQueuedTasks: (): Promise<QueuedTaskInfo[]> => ipcRenderer.invoke('task:get-queue'),
+  reorderQueuedTask: (taskId: string, toIndex: number): Promise<QueuedTaskInfo[]> =>
+    ipcRenderer.invoke('task:reorder-queue', taskId, toIndex),
 
   // Permission responses
   respondToPermission: (response: { taskId: string; allowed: boolean }): Promise<void> =>
     ipcRenderer.invoke('permission:respond', response),
+  pickQuestionPath: (kind: 'file' | 'folder'): Promise<string | null> =>
+    ipcRenderer.invoke('questions:pick-path', kind),
 
   // Session management
   resumeSession: (sessionId: string, prompt: string, taskId?: string): Promise<unknown> =>
@@ -45,6 +92,16 @@ const accomplishAPI = {
   getDebugMode: (): Promise<boolean> => ipcRenderer.invoke('settings:debug-mode'),
   setDebugMode: (enabled: boolean): Promise<void> =>
     ipcRenderer.invoke('settings:set-debug-mode', enabled),
+  getTaskTimeouts: (): Promise<TaskTimeoutLimits> => ipcRenderer.invoke('settings:task-timeouts'),
+  setTaskTimeouts: (limits: TaskTimeoutLimits): Promise<void> =>
+    ipcRenderer.invoke('settings:set-task-timeouts', limits),
+  getSandboxSettings: (): Promise<SandboxSettings> => ipcRenderer.invoke('settings:sandbox'),
+  setSandboxSettings: (settings: SandboxSettings): Promise<void> =>
+    ipcRenderer.invoke('settings:set-sandbox', settings),
+  pickSandboxRoot: (): Promise<string | null> => ipcRenderer.invoke('settings:pick-sandbox-root'),
+  getTrashSettings: (): Promise<TrashSettings> => ipcRenderer.invoke('settings:trash'),
+  setTrashSettings: (settings: TrashSettings): Promise<void> =>
+    ipcRenderer.invoke('settings:set-trash', settings),
   getTheme: (): Promise<string> => ipcRenderer.invoke('settings:theme'),
   setTheme: (theme: string): Promise<void> => ipcRenderer.invoke('settings:set-theme', theme),
   onThemeChange: (callback: (data: { theme: string; resolved: string }) => void) => {
@@ -350,6 +407,11 @@ const accomplishAPI = {
     ipcRenderer.on('permission:request', listener);
     return () => ipcRenderer.removeListener('permission:request', listener);
   },
+  onPermissionResolved: (callback: (data: { requestId: string; taskId: string }) => void) => {
+    const listener = (_: unknown, data: { requestId: string; taskId: string }) => callback(data);
+    ipcRenderer.on('permission:resolved', listener);
+    return () => ipcRenderer.removeListener('permission:resolved', listener);
+  },
   onTaskProgress: (callback: (progress: unknown) => void) => {
     const listener = (_: unknown, progress: unknown) => callback(progress);
     ipcRenderer.on('task:progress', listener);
@@ -378,6 +440,19 @@ const accomplishAPI = {
     ipcRenderer.on('task:summary', listener);
     return () => ipcRenderer.removeListener('task:summary', listener);
   },
+  // Sub-tasks a task fanned out to from its plan
+  onSubtaskStarted: (callback: (data: { task: unknown; parentTaskId: string }) => void) => {
+    const listener = (_: unknown, data: { task: unknown; parentTaskId: string }) => callback(data);
+    ipcRenderer.on('task:subtask-started', listener);
+    return () => ipcRenderer.removeListener('task:subtask-started', listener);
+  },
+  // Files recorded for a task after an approved file permission request
+  onTaskArtifacts: (callback: (data: { taskId: string; artifacts: TaskArtifact[] }) => void) => {
+    const listener = (_: unknown, data: { taskId: string; artifacts: TaskArtifact[] }) =>
+      callback(data);
+    ipcRenderer.on('task:artifacts', listener);
+    return () => ipcRenderer.removeListener('task:artifacts', listener);
+  },
   // Todo updates from OpenCode todowrite tool
   onTodoUpdate: (
     callback: (data: {
@@ -395,6 +470,24 @@ const accomplishAPI = {
     ipcRenderer.on('todo:update', listener);
     return () => ipcRenderer.removeListener('todo:update', listener);
   },
+  // Usage accumulated per step, with budget progress when the task has a budget
+  onTaskUsage: (
+    callback: (data: { taskId: string; usage: unknown; budget: unknown[] }) => void,
+  ) => {
+    const listener = (_: unknown, data: { taskId: string; usage: unknown; budget: unknown[] }) =>
+      callback(data);
+    ipcRenderer.on('task:usage', listener);
+    return () => ipcRenderer.removeListener('task:usage', listener);
+  },
+  // Budget warning threshold reached for one of the task's limits
+  onBudgetWarning: (
+    callback: (data: { taskId: string; status: unknown; usage: unknown }) => void,
+  ) => {
+    const listener = (_: unknown, data: { taskId: string; status: unknown; usage: unknown }) =>
+      callback(data);
+    ipcRenderer.on('task:budget-warning', listener);
+    return () => ipcRenderer.removeListener('task:budget-warning', listener);
+  },
   // Auth error events (e.g., OAuth token expired)
   onAuthError: (callback: (data: { providerId: string; message: string }) => void) => {
     const listener = (_: unknown, data: { providerId: string; message: string }) => callback(data);
@@ -408,6 +501,14 @@ const accomplishAPI = {
   // Export application logs
   exportLogs: (): Promise<{ success: boolean; path?: string; error?: string; reason?: string }> =>
     ipcRenderer.invoke('logs:export'),
+  // Export the permission audit trail for one task or all tasks
+  exportPermissionAudit: (
+    format: PermissionAuditExportFormat,
+    taskId?: string,
+  ): Promise<{ success: boolean; path?: string; error?: string; reason?: string }> =>
+    ipcRenderer.invoke('permission-audit:export', format, taskId),
+  // Replay a recorded task (debug mode)
+  replayRecording: (): Promise<unknown> => ipcRenderer.invoke('debug:replay-recording'),
 
   // Speech-to-Text API
   speechIsConfigured: (): Promise<boolean> => ipcRenderer.invoke('speech:is-configured'),
@@ -468,6 +569,85 @@ const accomplishAPI = {
       ipcRenderer.removeListener('auth:mcp-callback', listener);
     };
   },
+
+  // Schedules
+  listSchedules: (): Promise<TaskSchedule[]> => ipcRenderer.invoke('schedules:list'),
+  createSchedule: (
+    name: string,
+    cronExpression: string,
+    config: TaskConfig,
+  ): Promise<TaskSchedule> => ipcRenderer.invoke('schedules:create', name, cronExpression, config),
+  setScheduleEnabled: (id: string, enabled: boolean): Promise<TaskSchedule> =>
+    ipcRenderer.invoke('schedules:set-enabled', id, enabled),
+  deleteSchedule: (id: string): Promise<void> => ipcRenderer.invoke('schedules:delete', id),
+  getScheduleRuns: (id: string): Promise<unknown[]> => ipcRenderer.invoke('schedules:runs', id),
+  onScheduledTaskStarted: (callback: (data: { task: unknown; scheduleId: string }) => void) => {
+    const listener = (_: unknown, data: { task: unknown; scheduleId: string }) => callback(data);
+    ipcRenderer.on('schedule:task-started', listener);
+    return () => ipcRenderer.removeListener('schedule:task-started', listener);
+  },
+
+  // Project profiles
+  listProjectProfiles: (): Promise<ProjectProfile[]> => ipcRenderer.invoke('profiles:list'),
+  saveProjectProfile: (input: ProjectProfileInput, id?: string): Promise<ProjectProfile> =>
+    ipcRenderer.invoke('profiles:save', input, id),
+  deleteProjectProfile: (id: string): Promise<void> => ipcRenderer.invoke('profiles:delete', id),
+  pickProjectDirectory: (): Promise<string | null> => ipcRenderer.invoke('profiles:pick-directory'),
+
+  // Permission rules
+  listPermissionRules: (): Promise<PermissionRule[]> => ipcRenderer.invoke('permission-rules:list'),
+  savePermissionRule: (input: PermissionRuleInput): Promise<PermissionRule> =>
+    ipcRenderer.invoke('permission-rules:save', input),
+  deletePermissionRule: (id: string): Promise<void> =>
+    ipcRenderer.invoke('permission-rules:delete', id),
+
+  // Permission audit
+  listPermissionAudit: (taskId?: string, limit?: number): Promise<PermissionAuditEntry[]> =>
+    ipcRenderer.invoke('permission-audit:list', taskId, limit),
+
+  // Trash
+  listTrash: (taskId?: string): Promise<TrashEntry[]> => ipcRenderer.invoke('trash:list', taskId),
+  restoreTrashEntry: (id: string): Promise<void> => ipcRenderer.invoke('trash:restore', id),
+  restoreTaskTrash: (taskId: string): Promise<{ restored: number; failed: string[] }> =>
+    ipcRenderer.invoke('trash:restore-task', taskId),
+  deleteTrashEntry: (id: string): Promise<void> => ipcRenderer.invoke('trash:delete', id),
+
+  // Snapshots
+  listTaskSnapshots: (taskId: string): Promise<TaskSnapshot[]> =>
+    ipcRenderer.invoke('snapshots:list', taskId),
+  previewSnapshotRollback: (id: string): Promise<SnapshotChange[]> =>
+    ipcRenderer.invoke('snapshots:preview', id),
+  rollbackToSnapshot: (id: string): Promise<SnapshotRollbackResult> =>
+    ipcRenderer.invoke('snapshots:rollback', id),
+
+  // Webhooks
+  listWebhookTargets: (): Promise<WebhookTarget[]> => ipcRenderer.invoke('webhooks:list'),
+  createWebhookTarget: (input: CreateWebhookTargetInput): Promise<WebhookTarget> =>
+    ipcRenderer.invoke('webhooks:create', input),
+  updateWebhookTarget: (id: string, input: UpdateWebhookTargetInput): Promise<WebhookTarget> =>
+    ipcRenderer.invoke('webhooks:update', id, input),
+  deleteWebhookTarget: (id: string): Promise<void> => ipcRenderer.invoke('webhooks:delete', id),
+  getWebhookDeliveries: (): Promise<WebhookDelivery[]> => ipcRenderer.invoke('webhooks:deliveries'),
+
+  // Local API
+  getLocalApiStatus: (): Promise<LocalApiStatus> => ipcRenderer.invoke('local-api:get-status'),
+  updateLocalApiSettings: (input: UpdateLocalApiSettingsInput): Promise<LocalApiStatus> =>
+    ipcRenderer.invoke('local-api:update', input),
+  regenerateLocalApiToken: (): Promise<LocalApiStatus> =>
+    ipcRenderer.invoke('local-api:regenerate-token'),
+  onLocalApiTaskStarted: (callback: (data: { task: unknown }) => void) => {
+    const listener = (_: unknown, data: { task: unknown }) => callback(data);
+    ipcRenderer.on('local-api:task-started', listener);
+    return () => ipcRenderer.removeListener('local-api:task-started', listener);
+  },
+
+  // Usage
+  getUsageTotals: (query?: UsageQuery): Promise<UsageTotals> =>
+    ipcRenderer.invoke('usage:totals', query),
+  getUsageBreakdown: (groupBy: UsageGroupBy, query?: UsageQuery): Promise<UsageAggregate[]> =>
+    ipcRenderer.invoke('usage:breakdown', groupBy, query),
+  getUsageByTask: (query?: UsageQuery): Promise<TaskUsageSummary[]> =>
+    ipcRenderer.invoke('usage:by-task', query),
 };
 
 // Expose the API to the renderer
@@ -5,7 +5,7 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
 
 const mockAccomplish = {
   getOllamaConfig: vi.fn().mockResolvedValue(null),
@@ -30,7 +30,60 @@ const mockAccomplish = {
   validateBedrockCredentials: vi.fn().mockResolvedValue({ valid: true }),
   saveBedrockCredentials: vi.fn().mockResolvedValue(undefined),
   getDebugMode: vi.fn().mockResolvedValue(false),
+  getTaskTimeouts: vi.fn().mockResolvedValue({}),
+  getSandboxSettings: vi
+    .fn()
+    .mockResolvedValue({ enabled: false, mode: 'reject', allowedRoots: [] }),
+  getTrashSettings: vi.fn().mockResolvedValue({ enabled: true, retentionDays: 30 }),
+  listTrash: vi.fn().mockResolvedValue([]),
+  listProjectProfiles: vi.fn().mockResolvedValue([]),
+  listPermissionRules: vi.fn().mockResolvedValue([]),
+  listPermissionAudit: vi.fn().mockResolvedValue([]),
+  getLocalApiStatus: vi.fn().mockResolvedValue({
+    settings: { enabled: false, port: 9230, token: 'acc_test' },
+    running: false,
+  }),
+  setTaskTimeouts: vi.fn().mockResolvedValue(undefined),
   getVersion: vi.fn().mockResolvedValue('0.1.0-test'),
+  // Usage methods
+  getUsageTotals: vi.fn().mockResolvedValue({
+    inputTokens: 12000,
+    outputTokens: 800,
+    reasoningTokens: 200,
+    cacheReadTokens: 4000,
+    cacheWriteTokens: 0,
+    costUsd: 1.5,
+    steps: 6,
+    taskCount: 2,
+  }),
+  getUsageBreakdown: vi.fn().mockResolvedValue([
+    {
+      key: 'anthropic/claude-sonnet-4-5',
+      inputTokens: 12000,
+      outputTokens: 800,
+      reasoningTokens: 200,
+      cacheReadTokens: 4000,
+      cacheWriteTokens: 0,
+      costUsd: 1.5,
+      steps: 6,
+      taskCount: 2,
+    },
+  ]),
+  getUsageByTask: vi.fn().mockResolvedValue([
+    {
+      taskId: 'task_1',
+      prompt: 'Summarize the report',
+      firstRecordedAt: '2026-03-01T10:00:00.000Z',
+      lastRecordedAt: '2026-03-01T10:05:00.000Z',
+      inputTokens: 12000,
+      outputTokens: 800,
+      reasoningTokens: 200,
+      cacheReadTokens: 4000,
+      cacheWriteTokens: 0,
+      costUsd: 1.5,
+      steps: 6,
+    },
+  ]),
 };
 
 // Mock the accomplish module
@@ -221,4 +274,36 @@ describe('SettingsDialog Integration', () => {
       expect(mockAccomplish.getProviderSettings).toHaveBeenCalled();
     });
   });
+
+  describe('usage tab', () => {
+    it('should show usage totals and per-task breakdown', async () => {
+      render(<SettingsDialog {...defaultProps} initialTab="usage" />);
+
+      await waitFor(() => {
+        expect(screen.getByTestId('usage-panel')).toBeInTheDocument();
+      });
+
+      expect(screen.getAllByText('$1.50').length).toBeGreaterThan(0);
+      expect(screen.getByText('Summarize the report')).toBeInTheDocument();
+      expect(mockAccomplish.getUsageBreakdown).toHaveBeenCalledWith(
+        'day',
+        expect.objectContaining({ since: expect.any(String) }),
+      );
+    });
+
+    it('should regroup the breakdown when another grouping is selected', async () => {
+      render(<SettingsDialog {...defaultProps} initialTab="usage" />);
+
+      await waitFor(() => {
+        expect(screen.getByTestId('usage-panel')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Model' }));
+
+      await waitFor(() => {
+        expect(mockAccomplish.getUsageBreakdown).toHaveBeenCalledWith('model', expect.anything());
+      });
+      expect(screen.getByText('anthropic/claude-sonnet-4-5')).toBeInTheDocument();
+    });
+  });
 });
@@ -586,4 +586,52 @@ describe('TaskInputBar Integration', () => {
       expect(screen.getByPlaceholderText('Search skills...')).toBeInTheDocument();
     });
   });
+
+  describe('per-task model picker', () => {
+    it('should pick a connected provider for the next task only', async () => {
+      const defaultSettings = await mockAccomplish.getProviderSettings();
+      mockAccomplish.getProviderSettings.mockResolvedValue({
+        activeProviderId: 'anthropic',
+        connectedProviders: {
+          anthropic: {
+            providerId: 'anthropic',
+            connectionStatus: 'connected',
+            selectedModelId: 'anthropic/claude-opus-4-5',
+            credentials: { type: 'api-key', apiKey: 'test-key' },
+          },
+          ollama: {
+            providerId: 'ollama',
+            connectionStatus: 'connected',
+            selectedModelId: 'ollama/qwen3:4b',
+            credentials: { type: 'ollama', serverUrl: 'http://localhost:11434' },
+          },
+        },
+        debugMode: false,
+      });
+      const onTaskModelChange = vi.fn();
+
+      renderWithRouter(
+        <TaskInputBar
+          value=""
+          onChange={vi.fn()}
+          onSubmit={vi.fn()}
+          onOpenModelSettings={vi.fn()}
+          onTaskModelChange={onTaskModelChange}
+        />,
+      );
+
+      try {
+        const trigger = await screen.findByTestId('model-indicator-trigger');
+        fireEvent.pointerDown(trigger, { button: 0, ctrlKey: false });
+        fireEvent.click(await screen.findByTestId('model-indicator-option-ollama'));
+
+        expect(onTaskModelChange).toHaveBeenCalledWith({
+          providerId: 'ollama',
+          modelId: 'ollama/qwen3:4b',
+        });
+      } finally {
+        mockAccomplish.getProviderSettings.mockResolvedValue(defaultSettings);
+      }
+    });
+  });
 });
@@ -94,6 +94,7 @@ const mockAccomplish = {
   saveBedrockCredentials: vi.fn().mockResolvedValue(undefined),
   speechIsConfigured: vi.fn().mockResolvedValue(true),
   getTodosForTask: vi.fn().mockResolvedValue([]),
+  getTaskArtifacts: vi.fn().mockResolvedValue([]),
   getEnabledSkills: mockGetEnabledSkills,
   getConnectors: mockGetConnectors,
   setConnectorEnabled: vi.fn().mockResolvedValue(undefined),
@@ -126,6 +127,7 @@ let mockStoreState: {
   setupProgress: string | null;
   setupProgressTaskId: string | null;
   setupDownloadStep: number;
+  tasks: Task[];
 } = {
   currentTask: null,
   loadTaskById: mockLoadTaskById,
@@ -146,6 +148,7 @@ let mockStoreState: {
   setupProgress: null,
   setupProgressTaskId: null,
   setupDownloadStep: 1,
+  tasks: [],
 };
 
 // Mock the task store - needs both hook usage and .getState() for direct calls
@@ -267,6 +270,7 @@ describe('Execution Page Integration', () => {
       setupProgress: null,
       setupProgressTaskId: null,
       setupDownloadStep: 1,
+      tasks: [],
     };
   });
 
@@ -555,6 +559,59 @@ describe('Execution Page Integration', () => {
       expect(screen.getByText('CREATE')).toBeInTheDocument();
       expect(screen.getByText('/path/to/file.txt')).toBeInTheDocument();
     });
+
+    it('should only submit a typed answer once it meets the constraints', async () => {
+      mockStoreState.currentTask = createMockTask('task-123', 'Task', 'running');
+      mockStoreState.permissionRequest = {
+        id: 'questionreq_1',
+        taskId: 'task-123',
+        type: 'question',
+        question: 'How many retries?',
+        inputType: 'number',
+        constraints: { min: 1, max: 5, step: 1 },
+        createdAt: new Date().toISOString(),
+      };
+
+      renderWithRouter('task-123');
+
+      const input = screen.getByTestId('question-input');
+      const submitButton = screen.getByTestId('permission-allow-button');
+      expect(submitButton).toBeDisabled();
+
+      fireEvent.change(input, { target: { value: '9' } });
+      expect(submitButton).toBeDisabled();
+      expect(screen.getByTestId('question-input-error')).toHaveTextContent('Must be at most 5');
+
+      fireEvent.change(input, { target: { value: '3' } });
+      expect(submitButton).not.toBeDisabled();
+      fireEvent.click(submitButton);
+
+      await waitFor(() => {
+        expect(mockRespondToPermission).toHaveBeenCalledWith({
+          requestId: 'questionreq_1',
+          taskId: 'task-123',
+          decision: 'allow',
+          selectedOptions: [],
+          customText: '3',
+        });
+      });
+    });
+
+    it('should mask secret answers', () => {
+      mockStoreState.currentTask = createMockTask('task-123', 'Task', 'running');
+      mockStoreState.permissionRequest = {
+        id: 'questionreq_1',
+        taskId: 'task-123',
+        type: 'question',
+        question: 'Paste your API key',
+        inputType: 'secret',
+        createdAt: new Date().toISOString(),
+      };
+
+      renderWithRouter('task-123');
+
+      expect(screen.getByTestId('question-input')).toHaveAttribute('type', 'password');
+    });
   });
 
   describe('error state', () => {
@@ -741,6 +798,45 @@ describe('Execution Page Integration', () => {
     });
   });
 
+  describe('sub-tasks', () => {
+    it('should list the sub-tasks spawned from this task but not its forks', () => {
+      mockStoreState.currentTask = createMockTask('task-123', 'Compare laptops', 'running');
+      mockStoreState.tasks = [
+        {
+          ...createMockTask('task-a', 'Research A in detail', 'completed'),
+          parentTaskId: 'task-123',
+          summary: 'Research A',
+        },
+        { ...createMockTask('task-b', 'Research B', 'running'), parentTaskId: 'task-123' },
+        {
+          ...createMockTask('task-fork', 'Forked task', 'completed'),
+          parentTaskId: 'task-123',
+          forkedFromMessageId: 'msg-1',
+        },
+      ];
+
+      renderWithRouter('task-123');
+
+      expect(screen.getByTestId('execution-subtasks')).toHaveTextContent('1 of 2 finished');
+      expect(screen.getByTestId('execution-subtask-task-a')).toHaveTextContent('Research A');
+      expect(screen.getByTestId('execution-subtask-task-b')).toBeInTheDocument();
+      expect(screen.queryByTestId('execution-subtask-task-fork')).not.toBeInTheDocument();
+    });
+
+    it('should link a sub-task back to its parent', () => {
+      mockStoreState.currentTask = {
+        ...createMockTask('task-a', 'Research A'),
+        parentTaskId: 'task-123',
+      };
+
+      renderWithRouter('task-a');
+
+      expect(screen.getByTestId('execution-subtask-of')).toBeInTheDocument();
+      expect(screen.queryByTestId('execution-forked-from')).not.toBeInTheDocument();
+      expect(screen.queryByTestId('execution-subtasks')).not.toBeInTheDocument();
+    });
+  });
+
   describe('event subscriptions', () => {
     it('should subscribe to task updates on mount', () => {
       mockStoreState.currentTask = createMockTask('task-123');
@@ -969,6 +1065,33 @@ describe('Execution Page Integration', () => {
       expect(screen.getByText('MOVE')).toBeInTheDocument();
     });
 
+    it('should approve only the checked paths of a batch request', async () => {
+      mockStoreState.currentTask = createMockTask('task-123', 'Task', 'running');
+      mockStoreState.permissionRequest = {
+        id: 'perm-1',
+        taskId: 'task-123',
+        type: 'file',
+        fileOperation: 'delete',
+        filePaths: ['/path/a.txt', '/path/b.txt', '/path/c.txt'],
+        createdAt: new Date().toISOString(),
+      };
+
+      renderWithRouter('task-123');
+
+      fireEvent.click(screen.getByLabelText('/path/b.txt'));
+      expect(screen.getByText('2 of 3 selected')).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Delete Selected (2)' }));
+
+      await waitFor(() => {
+        expect(mockRespondToPermission).toHaveBeenCalledWith({
+          requestId: 'perm-1',
+          taskId: 'task-123',
+          decision: 'allow',
+          approvedPaths: ['/path/a.txt', '/path/c.txt'],
+        });
+      });
+    });
+
     it('should show tool name in tool permission dialog', () => {
       mockStoreState.currentTask = createMockTask('task-123', 'Task', 'running');
       mockStoreState.permissionRequest = {
@@ -0,0 +1,157 @@
+/**
+ * Integration tests for Schedules page
+ * Tests listing, creating, pausing and deleting schedules
+ * @module __tests__/integration/renderer/pages/Schedules.integration.test
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router';
+import type { TaskSchedule } from '@accomplish_ai/agent-core/common';
+
+function createMockSchedule(overrides: Partial<TaskSchedule> = {}): TaskSchedule {
+  return {
+    id: 'sched_1',
+    name: 'Morning summary',
+    cronExpression: '0 9 * * 1-5',
+    config: { prompt: 'Summarize my inbox' },
+    isEnabled: true,
+    nextRunAt: new Date('2025-03-17T09:00:00').toISOString(),
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+const mockAccomplish = {
+  listSchedules: vi.fn(),
+  createSchedule: vi.fn(),
+  setScheduleEnabled: vi.fn(),
+  deleteSchedule: vi.fn(),
+};
+
+vi.mock('@/lib/accomplish', () => ({
+  getAccomplish: () => mockAccomplish,
+}));
+
+vi.mock('framer-motion', () => ({
+  motion: {
+    div: ({ children, ...props }: { children: React.ReactNode; [key: string]: unknown }) => {
+      const { layout: _layout, ...rest } = props;
+      return <div {...(rest as Record<string, unknown>)}>{children}</div>;
+    },
+  },
+  AnimatePresence: ({ children }: { children: React.ReactNode }) => <>{children}</>,
+}));
+
+import SchedulesPage from '@/pages/Schedules';
+
+function renderPage() {
+  return render(
+    <MemoryRouter>
+      <SchedulesPage />
+    </MemoryRouter>,
+  );
+}
+
+describe('Schedules Page Integration', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAccomplish.listSchedules.mockResolvedValue([]);
+  });
+
+  it('should show the empty state when there are no schedules', async () => {
+    renderPage();
+
+    expect(await screen.findByText('No schedules yet')).toBeInTheDocument();
+  });
+
+  it('should list existing schedules', async () => {
+    mockAccomplish.listSchedules.mockResolvedValue([createMockSchedule()]);
+
+    renderPage();
+
+    expect(await screen.findByText('Morning summary')).toBeInTheDocument();
+    expect(screen.getByText('0 9 * * 1-5')).toBeInTheDocument();
+    expect(screen.getByText('Summarize my inbox')).toBeInTheDocument();
+    expect(screen.getByText('Active')).toBeInTheDocument();
+  });
+
+  it('should create a schedule from the form', async () => {
+    const created = createMockSchedule({ id: 'sched_new', name: 'Nightly build check' });
+    mockAccomplish.createSchedule.mockResolvedValue(created);
+
+    renderPage();
+    await screen.findByText('No schedules yet');
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Nightly build check' } });
+    fireEvent.change(screen.getByLabelText('Schedule'), { target: { value: '0 2 * * *' } });
+    fireEvent.change(screen.getByLabelText('Task'), { target: { value: 'Check the CI' } });
+    fireEvent.change(screen.getByLabelText('Working directory (optional)'), {
+      target: { value: '/repo' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Create schedule' }));
+
+    await waitFor(() => {
+      expect(mockAccomplish.createSchedule).toHaveBeenCalledWith(
+        'Nightly build check',
+        '0 2 * * *',
+        { prompt: 'Check the CI', workingDirectory: '/repo' },
+      );
+    });
+    expect(await screen.findByText('Nightly build check')).toBeInTheDocument();
+  });
+
+  it('should show an error when creating a schedule fails', async () => {
+    mockAccomplish.createSchedule.mockRejectedValue(new Error('Invalid cron expression "x"'));
+
+    renderPage();
+    await screen.findByText('No schedules yet');
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Broken' } });
+    fireEvent.change(screen.getByLabelText('Schedule'), { target: { value: 'x' } });
+    fireEvent.change(screen.getByLabelText('Task'), { target: { value: 'Do it' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Create schedule' }));
+
+    expect(await screen.findByText('Invalid cron expression "x"')).toBeInTheDocument();
+  });
+
+  it('should pause a schedule', async () => {
+    const schedule = createMockSchedule();
+    mockAccomplish.listSchedules.mockResolvedValue([schedule]);
+    mockAccomplish.setScheduleEnabled.mockResolvedValue({
+      ...schedule,
+      isEnabled: false,
+      nextRunAt: undefined,
+    });
+
+    renderPage();
+    await screen.findByText('Morning summary');
+
+    fireEvent.click(screen.getByTitle('Pause schedule'));
+
+    await waitFor(() => {
+      expect(mockAccomplish.setScheduleEnabled).toHaveBeenCalledWith('sched_1', false);
+    });
+    expect(await screen.findByText('Paused')).toBeInTheDocument();
+  });
+
+  it('should delete a schedule after confirmation', async () => {
+    mockAccomplish.listSchedules.mockResolvedValue([createMockSchedule()]);
+    mockAccomplish.deleteSchedule.mockResolvedValue(undefined);
+
+    renderPage();
+    await screen.findByText('Morning summary');
+
+    fireEvent.click(screen.getByTitle('Delete schedule'));
+    expect(mockAccomplish.deleteSchedule).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByTitle('Click again to delete'));
+
+    await waitFor(() => {
+      expect(mockAccomplish.deleteSchedule).toHaveBeenCalledWith('sched_1');
+    });
+    expect(await screen.findByText('No schedules yet')).toBeInTheDocument();
+  });
+});
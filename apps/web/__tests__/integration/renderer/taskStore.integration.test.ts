@@ -51,6 +51,8 @@ const mockAccomplish = {
   respondToPermission: vi.fn(),
   listTasks: vi.fn(),
   getTask: vi.fn(),
+  forkTask: vi.fn(),
+  recoverTask: vi.fn(),
   deleteTask: vi.fn(),
   clearTaskHistory: vi.fn(),
   logEvent: vi.fn().mockResolvedValue(undefined),
@@ -432,6 +434,80 @@ describe('taskStore Integration', () => {
     });
   });
 
+  describe('forkTask', () => {
+    it('should fork the task and make the new task current', async () => {
+      // Arrange
+      const { useTaskStore } = await import('@/stores/taskStore');
+      const parentTask = createMockTask('task-123', 'Parent', 'completed');
+      const forkedTask: Task = {
+        ...createMockTask('task-456', 'Try another way', 'running'),
+        parentTaskId: 'task-123',
+        forkedFromMessageId: 'msg-1',
+      };
+      mockAccomplish.forkTask.mockResolvedValueOnce(forkedTask);
+      useTaskStore.setState({ currentTask: parentTask, tasks: [parentTask] });
+
+      // Act
+      const result = await useTaskStore.getState().forkTask('task-123', 'msg-1', 'Try another way');
+      const state = useTaskStore.getState();
+
+      // Assert
+      expect(mockAccomplish.forkTask).toHaveBeenCalledWith('task-123', 'msg-1', 'Try another way');
+      expect(result).toEqual(forkedTask);
+      expect(state.currentTask?.id).toBe('task-456');
+      expect(state.tasks.map((t) => t.id)).toEqual(['task-456', 'task-123']);
+    });
+
+    it('should handle forkTask failure', async () => {
+      // Arrange
+      const { useTaskStore } = await import('@/stores/taskStore');
+      mockAccomplish.forkTask.mockRejectedValueOnce(new Error('Fork failed'));
+
+      // Act
+      const result = await useTaskStore.getState().forkTask('task-123', 'msg-1', 'Again');
+      const state = useTaskStore.getState();
+
+      // Assert
+      expect(result).toBeNull();
+      expect(state.error).toBe('Fork failed');
+      expect(state.isLoading).toBe(false);
+    });
+  });
+
+  describe('recoverTask', () => {
+    it('should resume an interrupted task in place', async () => {
+      // Arrange
+      const { useTaskStore } = await import('@/stores/taskStore');
+      const interruptedTask = createMockTask('task-123', 'Test', 'interrupted');
+      const resumedTask = createMockTask('task-123', 'Test', 'running');
+      mockAccomplish.recoverTask.mockResolvedValueOnce(resumedTask);
+      useTaskStore.setState({ currentTask: interruptedTask, tasks: [interruptedTask] });
+
+      // Act
+      await useTaskStore.getState().recoverTask('task-123');
+      const state = useTaskStore.getState();
+
+      // Assert
+      expect(mockAccomplish.recoverTask).toHaveBeenCalledWith('task-123');
+      expect(state.currentTask?.status).toBe('running');
+      expect(state.tasks[0].status).toBe('running');
+    });
+
+    it('should handle recoverTask failure', async () => {
+      // Arrange
+      const { useTaskStore } = await import('@/stores/taskStore');
+      mockAccomplish.recoverTask.mockRejectedValueOnce(new Error('Only interrupted tasks'));
+
+      // Act
+      await useTaskStore.getState().recoverTask('task-123');
+      const state = useTaskStore.getState();
+
+      // Assert
+      expect(state.error).toBe('Only interrupted tasks');
+      expect(state.isLoading).toBe(false);
+    });
+  });
+
   describe('cancelTask', () => {
     it('should call cancelTask API and update status', async () => {
       // Arrange
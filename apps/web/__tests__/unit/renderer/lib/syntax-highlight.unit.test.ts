@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { getSyntaxLanguage, highlightLine } from '@/lib/syntax-highlight';
+
+describe('syntax highlighting', () => {
+  it('picks a language from the file extension', () => {
+    expect(getSyntaxLanguage('/work/src/index.ts')).not.toBeNull();
+    expect(getSyntaxLanguage('/work/README.md')).toBeNull();
+    expect(getSyntaxLanguage(undefined)).toBeNull();
+  });
+
+  it('tokenizes keywords, strings, numbers and comments', () => {
+    const tokens = highlightLine("const name = 'a//b' + 42; // note", getSyntaxLanguage('file.ts'));
+
+    expect(tokens).toEqual([
+      { kind: 'keyword', text: 'const' },
+      { kind: 'plain', text: ' name = ' },
+      { kind: 'string', text: "'a//b'" },
+      { kind: 'plain', text: ' + ' },
+      { kind: 'number', text: '42' },
+      { kind: 'plain', text: '; ' },
+      { kind: 'comment', text: '// note' },
+    ]);
+  });
+
+  it('uses the comment marker of the language', () => {
+    const tokens = highlightLine('x = 1  # set x', getSyntaxLanguage('script.py'));
+
+    expect(tokens[tokens.length - 1]).toEqual({ kind: 'comment', text: '# set x' });
+  });
+
+  it('returns the line as plain text without a language', () => {
+    expect(highlightLine('const x = 1', null)).toEqual([{ kind: 'plain', text: 'const x = 1' }]);
+  });
+});
@@ -0,0 +1,97 @@
+import { useTranslation } from 'react-i18next';
+import type { FileOperation, TaskArtifact } from '@accomplish_ai/agent-core/common';
+import {
+  ArrowRight,
+  ArrowSquareOut,
+  FilePlus,
+  Files,
+  FolderOpen,
+  PencilSimple,
+  Trash,
+} from '@phosphor-icons/react';
+
+function ArtifactOperationIcon({ operation }: { operation: FileOperation }) {
+  switch (operation) {
+    case 'create':
+      return <FilePlus className="h-3.5 w-3.5 text-green-600 shrink-0" />;
+    case 'delete':
+      return <Trash className="h-3.5 w-3.5 text-destructive shrink-0" />;
+    case 'move':
+    case 'rename':
+      return <ArrowRight className="h-3.5 w-3.5 text-muted-foreground shrink-0" />;
+    default:
+      return <PencilSimple className="h-3.5 w-3.5 text-amber-600 shrink-0" />;
+  }
+}
+
+interface ArtifactsPanelProps {
+  artifacts: TaskArtifact[];
+  onOpen: (filePath: string) => void;
+  onReveal: (filePath: string) => void;
+}
+
+/** Files the task touched through approved file permission requests */
+export function ArtifactsPanel({ artifacts, onOpen, onReveal }: ArtifactsPanelProps) {
+  const { t } = useTranslation('execution');
+
+  return (
+    <div className="max-w-4xl mx-auto mt-3" data-testid="execution-artifacts">
+      <div className="flex items-center gap-1.5 text-xs text-muted-foreground mb-2">
+        <Files className="h-3.5 w-3.5" />
+        <span className="font-medium">{t('artifacts.title')}</span>
+        <span>· {t('artifacts.count', { count: artifacts.length })}</span>
+      </div>
+      <ul className="space-y-1">
+        {artifacts.map((artifact) => {
+          // A moved or renamed file now lives at its destination; a deleted one is gone
+          const currentPath = artifact.targetPath ?? artifact.filePath;
+          const exists = artifact.operation !== 'delete';
+
+          return (
+            <li
+              key={artifact.id}
+              className="flex items-center gap-2 text-xs text-foreground"
+              data-testid={`execution-artifact-${artifact.id}`}
+            >
+              <ArtifactOperationIcon operation={artifact.operation} />
+              <span className="shrink-0 text-muted-foreground">
+                {t(`artifacts.operations.${artifact.operation}`)}
+              </span>
+              <span className="truncate" title={artifact.filePath}>
+                {artifact.filePath}
+              </span>
+              {artifact.targetPath && (
+                <>
+                  <ArrowRight className="h-3 w-3 text-muted-foreground shrink-0" />
+                  <span className="truncate" title={artifact.targetPath}>
+                    {artifact.targetPath}
+                  </span>
+                </>
+              )}
+              {exists && (
+                <span className="ml-auto flex items-center gap-2 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => onOpen(currentPath)}
+                    className="inline-flex items-center gap-1 text-muted-foreground hover:text-foreground"
+                    title={t('artifacts.open')}
+                  >
+                    <ArrowSquareOut className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onReveal(currentPath)}
+                    className="inline-flex items-center gap-1 text-muted-foreground hover:text-foreground"
+                    title={t('artifacts.reveal')}
+                  >
+                    <FolderOpen className="h-3.5 w-3.5" />
+                  </button>
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
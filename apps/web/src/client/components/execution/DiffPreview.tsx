@@ -0,0 +1,140 @@
+import { useMemo, useState } from 'react';
+import type { FileDiff, FileDiffLine } from '@accomplish_ai/agent-core/common';
+import { cn } from '@/lib/utils';
+import {
+  getSyntaxLanguage,
+  highlightLine,
+  type SyntaxLanguage,
+  type SyntaxTokenKind,
+} from '@/lib/syntax-highlight';
+
+/** Lines shown before "Show more", and how many more each click reveals */
+const PAGE_LINES = 200;
+
+const TOKEN_CLASSES: Record<SyntaxTokenKind, string> = {
+  plain: '',
+  keyword: 'text-purple-600 dark:text-purple-400',
+  string: 'text-green-700 dark:text-green-400',
+  comment: 'text-muted-foreground italic',
+  number: 'text-blue-600 dark:text-blue-400',
+};
+
+const LINE_CLASSES: Record<FileDiffLine['type'], string> = {
+  context: '',
+  add: 'bg-green-500/10',
+  remove: 'bg-red-500/10',
+};
+
+const LINE_SIGNS: Record<FileDiffLine['type'], string> = {
+  context: ' ',
+  add: '+',
+  remove: '-',
+};
+
+type DiffRow = { kind: 'line'; line: FileDiffLine } | { kind: 'gap'; unchanged: number };
+
+/** Hunk lines with the unchanged stretches between and after them collapsed into gap rows */
+function toRows(diff: FileDiff): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let oldLine = 0;
+  for (const hunk of diff.hunks) {
+    const hunkFirstOld = hunk.oldLines > 0 ? hunk.oldStart : hunk.oldStart + 1;
+    if (hunkFirstOld - 1 > oldLine) {
+      rows.push({ kind: 'gap', unchanged: hunkFirstOld - 1 - oldLine });
+    }
+    for (const line of hunk.lines) {
+      rows.push({ kind: 'line', line });
+    }
+    oldLine = hunkFirstOld - 1 + hunk.oldLines;
+  }
+  if (!diff.truncated && diff.oldLineCount > oldLine && diff.hunks.length > 0) {
+    rows.push({ kind: 'gap', unchanged: diff.oldLineCount - oldLine });
+  }
+  return rows;
+}
+
+function DiffLineRow({ line, language }: { line: FileDiffLine; language: SyntaxLanguage | null }) {
+  return (
+    <tr className={LINE_CLASSES[line.type]}>
+      <td className="select-none px-1.5 text-right text-muted-foreground/70">{line.oldLine}</td>
+      <td className="select-none px-1.5 text-right text-muted-foreground/70">{line.newLine}</td>
+      <td
+        className={cn(
+          'select-none pl-1 pr-2',
+          line.type === 'add' && 'text-green-600',
+          line.type === 'remove' && 'text-red-600',
+        )}
+      >
+        {LINE_SIGNS[line.type]}
+      </td>
+      <td className="whitespace-pre pr-3">
+        {highlightLine(line.content, language).map((token, index) => (
+          <span key={index} className={TOKEN_CLASSES[token.kind]}>
+            {token.text}
+          </span>
+        ))}
+      </td>
+    </tr>
+  );
+}
+
+interface DiffPreviewProps {
+  diff: FileDiff;
+  /** Used to pick the syntax highlighting */
+  filePath?: string;
+}
+
+/** Unified diff of a proposed modify or overwrite against the file on disk */
+export function DiffPreview({ diff, filePath }: DiffPreviewProps) {
+  const [visibleLines, setVisibleLines] = useState(PAGE_LINES);
+  const language = useMemo(() => getSyntaxLanguage(filePath), [filePath]);
+  const rows = useMemo(() => toRows(diff), [diff]);
+  const shown = rows.slice(0, visibleLines);
+  const hidden = rows.length - shown.length;
+
+  return (
+    <div className="mb-4" data-testid="permission-diff-preview">
+      <div className="mb-1.5 flex items-center gap-2 text-xs">
+        <span className="text-green-600">+{diff.additions}</span>
+        <span className="text-red-600">-{diff.deletions}</span>
+        {diff.isNewFile && <span className="text-muted-foreground">New file</span>}
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No changes to the file content.</p>
+      ) : (
+        <div className="max-h-80 overflow-auto rounded border border-border bg-muted/40 text-xs font-mono">
+          <table className="min-w-full border-collapse">
+            <tbody>
+              {shown.map((row, index) =>
+                row.kind === 'gap' ? (
+                  <tr key={index} className="bg-muted text-muted-foreground">
+                    <td colSpan={4} className="px-3 py-0.5">
+                      ⋯ {row.unchanged} unchanged line{row.unchanged === 1 ? '' : 's'}
+                    </td>
+                  </tr>
+                ) : (
+                  <DiffLineRow key={index} line={row.line} language={language} />
+                ),
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {hidden > 0 && (
+        <button
+          type="button"
+          onClick={() => setVisibleLines((lines) => lines + PAGE_LINES)}
+          data-testid="permission-diff-show-more"
+          className="mt-1.5 text-xs text-primary hover:underline"
+        >
+          Show more ({hidden} more line{hidden === 1 ? '' : 's'})
+        </button>
+      )}
+      {diff.truncated && hidden === 0 && (
+        <p className="mt-1.5 text-xs text-muted-foreground">
+          The diff is too large to show in full.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { springs } from '../../lib/animations';
 import type { TaskMessage } from '@accomplish_ai/agent-core/common';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
-import { Wrench, Terminal, Check, Copy, Play } from '@phosphor-icons/react';
+import { Wrench, Terminal, Check, Copy, Play, GitFork } from '@phosphor-icons/react';
 import { cn } from '@/lib/utils';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
@@ -22,6 +22,9 @@ export interface MessageBubbleProps {
   continueLabel?: string;
   onContinue?: () => void;
   isLoading?: boolean;
+  /** Start a new task from the conversation up to this message */
+  onFork?: (messageId: string) => void;
+  forkLabel?: string;
 }
 
 const COPIED_STATE_DURATION_MS = 1000;
@@ -36,6 +39,8 @@ export const MessageBubble = memo(
     continueLabel,
     onContinue,
     isLoading = false,
+    onFork,
+    forkLabel,
   }: MessageBubbleProps) {
     const [streamComplete, setStreamComplete] = useState(!shouldStream);
     const [copied, setCopied] = useState(false);
@@ -90,6 +95,7 @@ export const MessageBubble = memo(
     }
 
     const showCopyButton = !isTool && !!message.content?.trim();
+    const showForkButton = !!onFork && (isUser || isAssistant);
 
     const proseClasses = cn(
       'text-sm prose prose-sm max-w-none',
@@ -242,6 +248,33 @@ export const MessageBubble = memo(
                 </TooltipContent>
               </Tooltip>
             )}
+            {showForkButton && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => onFork(message.id)}
+                    data-testid="message-fork-button"
+                    className={cn(
+                      'absolute bottom-2',
+                      showCopyButton ? 'right-9' : 'right-2',
+                      'opacity-0 group-hover:opacity-100 transition-all duration-200',
+                      'p-1 rounded',
+                      isUser
+                        ? 'hover:bg-primary-foreground/20 text-primary-foreground/70 hover:text-primary-foreground'
+                        : 'hover:bg-accent text-muted-foreground hover:text-foreground',
+                    )}
+                    aria-label={forkLabel || 'Fork from here'}
+                  >
+                    <GitFork className="h-4 w-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <span>{forkLabel || 'Fork from here'}</span>
+                </TooltipContent>
+              </Tooltip>
+            )}
           </div>
         )}
       </motion.div>
@@ -253,5 +286,6 @@ export const MessageBubble = memo(
     prev.isLastMessage === next.isLastMessage &&
     prev.isRunning === next.isRunning &&
     prev.showContinueButton === next.showContinueButton &&
-    prev.isLoading === next.isLoading,
+    prev.isLoading === next.isLoading &&
+    prev.onFork === next.onFork,
 );
@@ -0,0 +1,142 @@
+import { useCallback, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type {
+  PermissionAuditEntry,
+  PermissionAuditExportFormat,
+} from '@accomplish_ai/agent-core/common';
+import { CaretDown, CaretRight, ShieldCheck } from '@phosphor-icons/react';
+import { getAccomplish } from '@/lib/accomplish';
+
+const OUTCOME_CLASSES: Record<PermissionAuditEntry['outcome'], string> = {
+  allowed: 'text-green-600',
+  denied: 'text-destructive',
+  'timed-out': 'text-amber-600',
+};
+
+interface PermissionAuditPanelProps {
+  taskId: string;
+}
+
+/** Every permission and question request the task made and how each was answered */
+export function PermissionAuditPanel({ taskId }: PermissionAuditPanelProps) {
+  const { t } = useTranslation('execution');
+  const [expanded, setExpanded] = useState(false);
+  const [entries, setEntries] = useState<PermissionAuditEntry[] | null>(null);
+  const [exportError, setExportError] = useState(false);
+  const accomplish = getAccomplish();
+
+  const handleToggle = useCallback(() => {
+    const next = !expanded;
+    setExpanded(next);
+    // Reload on every expand so answers given since the last look show up
+    if (next) {
+      accomplish
+        .listPermissionAudit(taskId)
+        .then(setEntries)
+        .catch((err) => console.error('Failed to load permission audit:', err));
+    }
+  }, [accomplish, expanded, taskId]);
+
+  const handleExport = useCallback(
+    async (format: PermissionAuditExportFormat) => {
+      setExportError(false);
+      try {
+        const result = await accomplish.exportPermissionAudit(format, taskId);
+        if (!result.success && result.reason !== 'cancelled') {
+          console.error('Failed to export permission audit:', result.error);
+          setExportError(true);
+        }
+      } catch (err) {
+        console.error('Export permission audit error:', err);
+        setExportError(true);
+      }
+    },
+    [accomplish, taskId],
+  );
+
+  return (
+    <div className="max-w-4xl mx-auto mt-3" data-testid="execution-permission-audit">
+      <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <button
+          type="button"
+          onClick={handleToggle}
+          className="inline-flex items-center gap-1.5 hover:text-foreground"
+        >
+          {expanded ? <CaretDown className="h-3 w-3" /> : <CaretRight className="h-3 w-3" />}
+          <ShieldCheck className="h-3.5 w-3.5" />
+          <span className="font-medium">{t('permissionAudit.title')}</span>
+          {entries && <span>· {t('permissionAudit.count', { count: entries.length })}</span>}
+        </button>
+        {expanded && entries && entries.length > 0 && (
+          <span className="ml-auto flex items-center gap-3">
+            {exportError && (
+              <span className="text-destructive">{t('permissionAudit.exportFailed')}</span>
+            )}
+            <button
+              type="button"
+              onClick={() => void handleExport('csv')}
+              className="hover:text-foreground"
+            >
+              {t('permissionAudit.exportCsv')}
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleExport('json')}
+              className="hover:text-foreground"
+            >
+              {t('permissionAudit.exportJson')}
+            </button>
+          </span>
+        )}
+      </div>
+
+      {expanded && entries && (
+        <ul className="mt-2 space-y-1">
+          {entries.length === 0 && (
+            <li className="text-xs text-muted-foreground">{t('permissionAudit.empty')}</li>
+          )}
+          {entries.map((entry) => (
+            <li
+              key={entry.id}
+              className="flex items-center gap-2 text-xs text-foreground"
+              data-testid={`execution-permission-audit-${entry.id}`}
+            >
+              <span className="shrink-0 text-muted-foreground">
+                {new Date(entry.respondedAt).toLocaleTimeString()}
+              </span>
+              <span className={`shrink-0 font-medium ${OUTCOME_CLASSES[entry.outcome]}`}>
+                {t(`permissionAudit.outcomes.${entry.outcome}`)}
+              </span>
+              <span className="truncate" title={entry.question ?? entry.filePaths.join('\n')}>
+                {entry.requestType === 'question'
+                  ? entry.question
+                  : `${entry.fileOperation ?? entry.toolName ?? ''} ${entry.filePaths.join(', ')}`}
+                {entry.approvedPaths && (
+                  <span className="text-muted-foreground">
+                    {' '}
+                    ·{' '}
+                    {t('permissionAudit.partial', {
+                      approved: entry.approvedPaths.length,
+                      total: entry.filePaths.length,
+                    })}
+                  </span>
+                )}
+                {entry.selectedOptions && entry.selectedOptions.length > 0 && (
+                  <span className="text-muted-foreground">
+                    {' '}
+                    → {entry.selectedOptions.join(', ')}
+                  </span>
+                )}
+              </span>
+              {entry.decidedBy && (
+                <span className="ml-auto shrink-0 text-muted-foreground">
+                  {t(`permissionAudit.deciders.${entry.decidedBy}`)}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
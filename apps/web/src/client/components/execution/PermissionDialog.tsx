@@ -5,6 +5,8 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Warning, WarningCircle, File, Brain } from '@phosphor-icons/react';
 import { cn } from '@/lib/utils';
+import { DiffPreview } from './DiffPreview';
+import { QuestionInput, type TypedQuestionInputType } from './QuestionInput';
 
 function getOperationBadgeClasses(operation?: string): string {
   switch (operation) {
@@ -38,27 +40,119 @@ function getDisplayFilePaths(request: { filePath?: string; filePaths?: string[]
   return [];
 }
 
-import type { PermissionRequest } from '@accomplish_ai/agent-core/common';
+import {
+  validateQuestionAnswer,
+  type PermissionRequest,
+  type PermissionRuleInput,
+  type PermissionRuleScope,
+} from '@accomplish_ai/agent-core/common';
+
+/** The deepest folder that contains every path */
+function getCommonFolder(paths: string[]): string {
+  const split = paths.map((path) => path.split(/[\\/]/).slice(0, -1));
+  const common: string[] = [];
+  for (let i = 0; i < split[0].length; i++) {
+    if (split.some((segments) => segments[i] !== split[0][i])) {
+      break;
+    }
+    common.push(split[0][i]);
+  }
+  return common.join('/') || '/';
+}
+
+type RememberScope = 'once' | PermissionRuleScope;
+type RememberMatch = 'folder' | 'file' | 'any';
+
+const REMEMBER_SCOPES: Array<{ value: RememberScope; label: string }> = [
+  { value: 'once', label: 'Just this once' },
+  { value: 'task', label: 'For the rest of this task' },
+  { value: 'project', label: 'For this project' },
+  { value: 'global', label: 'Always' },
+];
 
 interface PermissionDialogProps {
   permissionRequest: PermissionRequest;
-  onRespond: (allowed: boolean, selectedOptions?: string[], customText?: string) => void;
+  onRespond: (
+    allowed: boolean,
+    selectedOptions?: string[],
+    customText?: string,
+    remember?: PermissionRuleInput,
+    approvedPaths?: string[],
+  ) => void;
 }
 
 export function PermissionDialog({ permissionRequest, onRespond }: PermissionDialogProps) {
   const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
   const [customResponse, setCustomResponse] = useState('');
+  const [rememberScope, setRememberScope] = useState<RememberScope>('once');
+  const [rememberMatch, setRememberMatch] = useState<RememberMatch>('folder');
+  // Paths of a batch request the user unchecked; everything starts approved
+  const [excludedPaths, setExcludedPaths] = useState<string[]>([]);
+
+  const batchPaths =
+    permissionRequest.type === 'file' && (permissionRequest.filePaths?.length ?? 0) > 1
+      ? (permissionRequest.filePaths ?? [])
+      : [];
+  const approvedPaths = batchPaths.filter((path) => !excludedPaths.includes(path));
+  const isPartial = excludedPaths.length > 0;
+
+  // Questions that ask for a specific kind of value get their own input instead of options
+  const typedInput: TypedQuestionInputType | null =
+    permissionRequest.type === 'question' &&
+    permissionRequest.inputType &&
+    permissionRequest.inputType !== 'choice'
+      ? permissionRequest.inputType
+      : null;
+  // Secrets are sent exactly as typed
+  const typedAnswer = typedInput === 'secret' ? customResponse : customResponse.trim();
+  const typedAnswerError = typedInput
+    ? validateQuestionAnswer(typedInput, permissionRequest.constraints, typedAnswer)
+    : null;
+
+  const togglePath = (path: string) => {
+    setExcludedPaths((excluded) =>
+      excluded.includes(path) ? excluded.filter((p) => p !== path) : [...excluded, path],
+    );
+  };
+
+  const buildRememberRule = (allowed: boolean): PermissionRuleInput | undefined => {
+    // A rule cannot express a partial approval
+    if (permissionRequest.type !== 'file' || rememberScope === 'once' || isPartial) {
+      return undefined;
+    }
+    const paths = [...getDisplayFilePaths(permissionRequest), permissionRequest.targetPath].filter(
+      (path): path is string => Boolean(path),
+    );
+    return {
+      decision: allowed ? 'allow' : 'deny',
+      scope: rememberScope,
+      operation: permissionRequest.fileOperation,
+      pathGlob:
+        rememberMatch === 'any' || paths.length === 0
+          ? undefined
+          : rememberMatch === 'file' && paths.length === 1
+            ? paths[0]
+            : `${getCommonFolder(paths).replace(/\/$/, '')}/**`,
+    };
+  };
 
   const handleRespond = (allowed: boolean) => {
     const isQuestion = permissionRequest.type === 'question';
-    const hasCustomText = isQuestion && customResponse.trim();
+    // A typed answer is only sent when the user submits it
+    const answer = typedInput ? (allowed ? typedAnswer : '') : customResponse.trim();
+    const hasCustomText = isQuestion && answer;
     onRespond(
       allowed,
       isQuestion ? (hasCustomText ? [] : selectedOptions) : undefined,
-      hasCustomText ? customResponse.trim() : undefined,
+      hasCustomText ? answer : undefined,
+      buildRememberRule(allowed),
+      allowed && isPartial ? approvedPaths : undefined,
     );
     setSelectedOptions([]);
     setCustomResponse('');
+    setRememberScope('once');
+    setRememberMatch('folder');
+    setExcludedPaths([]);
   };
 
   return (
@@ -75,7 +169,12 @@ export function PermissionDialog({ permissionRequest, onRespond }: PermissionDia
         exit={{ opacity: 0, scale: 0.95, y: 10 }}
         transition={springs.bouncy}
       >
-        <Card className="w-full max-w-lg mx-4 max-h-[80vh] flex flex-col overflow-hidden">
+        <Card
+          className={cn(
+            'w-full mx-4 max-h-[80vh] flex flex-col overflow-hidden',
+            permissionRequest.diff ? 'max-w-3xl' : 'max-w-lg',
+          )}
+        >
           <div className="flex items-start gap-4 p-6 pb-4 shrink-0">
             <div
               className={cn(
@@ -118,6 +217,29 @@ export function PermissionDialog({ permissionRequest, onRespond }: PermissionDia
           <div className="flex-1 overflow-y-auto px-6 min-h-0">
             {permissionRequest.type === 'file' && (
               <>
+                {permissionRequest.sandboxViolations &&
+                  permissionRequest.sandboxViolations.length > 0 && (
+                    <div
+                      className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/30"
+                      data-testid="permission-sandbox-warning"
+                    >
+                      <p className="flex items-center gap-1.5 text-sm font-semibold text-red-600">
+                        <Warning className="h-4 w-4 shrink-0" />
+                        Outside the working directory
+                      </p>
+                      <p className="mt-1 text-sm text-red-600/90">
+                        The agent wants to change files outside the sandbox:
+                      </p>
+                      <ul className="mt-1 space-y-0.5">
+                        {permissionRequest.sandboxViolations.map((path) => (
+                          <li key={path} className="text-sm font-mono break-all text-red-600">
+                            • {path}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
                 {isDeleteOperation(permissionRequest) && (
                   <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/20">
                     <p className="text-sm text-red-600">
@@ -154,23 +276,45 @@ export function PermissionDialog({ permissionRequest, onRespond }: PermissionDia
                 >
                   {(() => {
                     const paths = getDisplayFilePaths(permissionRequest);
-                    if (paths.length > 1) {
+                    if (batchPaths.length > 0) {
                       return (
-                        <ul className="space-y-1">
-                          {paths.map((path, idx) => (
-                            <li
-                              key={idx}
-                              className={cn(
-                                'text-sm font-mono break-all',
-                                isDeleteOperation(permissionRequest)
-                                  ? 'text-red-600'
-                                  : 'text-foreground',
-                              )}
+                        <>
+                          <div className="mb-2 flex items-center justify-between text-xs text-muted-foreground">
+                            <span>
+                              {approvedPaths.length} of {batchPaths.length} selected
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => setExcludedPaths(isPartial ? [] : batchPaths)}
+                              className="hover:text-foreground"
                             >
-                              • {path}
-                            </li>
-                          ))}
-                        </ul>
+                              {isPartial ? 'Select all' : 'Select none'}
+                            </button>
+                          </div>
+                          <ul className="space-y-1" data-testid="permission-batch-paths">
+                            {batchPaths.map((path) => (
+                              <li key={path}>
+                                <label
+                                  className={cn(
+                                    'flex items-start gap-2 text-sm font-mono break-all cursor-pointer',
+                                    isDeleteOperation(permissionRequest)
+                                      ? 'text-red-600'
+                                      : 'text-foreground',
+                                    excludedPaths.includes(path) && 'opacity-50 line-through',
+                                  )}
+                                >
+                                  <input
+                                    type="checkbox"
+                                    checked={!excludedPaths.includes(path)}
+                                    onChange={() => togglePath(path)}
+                                    className="mt-1 shrink-0"
+                                  />
+                                  {path}
+                                </label>
+                              </li>
+                            ))}
+                          </ul>
+                        </>
                       );
                     }
                     return (
@@ -195,15 +339,55 @@ export function PermissionDialog({ permissionRequest, onRespond }: PermissionDia
                   <p className="text-sm text-red-600/80 mb-4">This action cannot be undone.</p>
                 )}
 
-                {permissionRequest.contentPreview && (
-                  <details className="mb-4">
-                    <summary className="text-xs text-muted-foreground cursor-pointer hover:text-foreground">
-                      Preview content
-                    </summary>
-                    <pre className="mt-2 p-2 rounded bg-muted text-xs overflow-x-auto max-h-32 overflow-y-auto">
-                      {permissionRequest.contentPreview}
-                    </pre>
-                  </details>
+                {permissionRequest.diff ? (
+                  <DiffPreview
+                    diff={permissionRequest.diff}
+                    filePath={permissionRequest.filePath}
+                  />
+                ) : (
+                  permissionRequest.contentPreview && (
+                    <details className="mb-4">
+                      <summary className="text-xs text-muted-foreground cursor-pointer hover:text-foreground">
+                        Preview content
+                      </summary>
+                      <pre className="mt-2 p-2 rounded bg-muted text-xs overflow-x-auto max-h-32 overflow-y-auto">
+                        {permissionRequest.contentPreview}
+                      </pre>
+                    </details>
+                  )
+                )}
+
+                {!isPartial && (
+                  <div className="mb-4 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span>Remember this decision</span>
+                    <select
+                      value={rememberScope}
+                      onChange={(e) => setRememberScope(e.target.value as RememberScope)}
+                      data-testid="permission-remember-scope"
+                      className="rounded-md border border-input bg-background px-2 py-1 text-xs text-foreground"
+                    >
+                      {REMEMBER_SCOPES.map(({ value, label }) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                    {rememberScope !== 'once' && (
+                      <select
+                        value={rememberMatch}
+                        onChange={(e) => setRememberMatch(e.target.value as RememberMatch)}
+                        data-testid="permission-remember-match"
+                        className="rounded-md border border-input bg-background px-2 py-1 text-xs text-foreground"
+                      >
+                        <option value="folder">in this folder</option>
+                        {getDisplayFilePaths(permissionRequest).length === 1 &&
+                          !permissionRequest.targetPath && (
+                            <option value="file">for this file</option>
+                          )}
+                        <option value="any">for any file</option>
+                      </select>
+                    )}
+                  </div>
                 )}
               </>
             )}
@@ -212,74 +396,99 @@ export function PermissionDialog({ permissionRequest, onRespond }: PermissionDia
               <>
                 <p className="text-sm text-foreground mb-4">{permissionRequest.question}</p>
 
-                {permissionRequest.options && permissionRequest.options.length > 0 && (
-                  <div className="mb-4 space-y-2">
-                    {permissionRequest.options
-                      .filter((opt) => opt.label.toLowerCase() !== 'other')
-                      .map((option, idx) => (
-                        <button
-                          key={idx}
-                          onClick={() => {
-                            setCustomResponse('');
-                            if (permissionRequest.multiSelect) {
-                              setSelectedOptions((prev) =>
-                                prev.includes(option.label)
-                                  ? prev.filter((o) => o !== option.label)
-                                  : [...prev, option.label],
-                              );
-                            } else {
-                              setSelectedOptions([option.label]);
-                            }
-                          }}
-                          className={cn(
-                            'w-full text-left p-3 rounded-lg border transition-colors',
-                            selectedOptions.includes(option.label)
-                              ? 'border-primary bg-primary/10'
-                              : 'border-border hover:border-primary/50',
-                          )}
-                        >
-                          <div className="font-medium text-sm">{option.label}</div>
-                          {option.description && (
-                            <div className="text-xs text-muted-foreground mt-1">
-                              {option.description}
-                            </div>
-                          )}
-                        </button>
-                      ))}
-                  </div>
-                )}
-
-                {permissionRequest.options && permissionRequest.options.length > 0 && (
-                  <div className="flex items-center gap-3 mb-4">
-                    <div className="flex-1 h-px bg-border" />
-                    <span className="text-xs text-muted-foreground">or type your own</span>
-                    <div className="flex-1 h-px bg-border" />
-                  </div>
-                )}
-
-                <div className="mb-4">
-                  <textarea
+                {typedInput && (
+                  <QuestionInput
+                    inputType={typedInput}
+                    constraints={permissionRequest.constraints}
                     value={customResponse}
-                    onChange={(e) => {
-                      setSelectedOptions([]);
-                      setCustomResponse(e.target.value);
-                      e.target.style.height = 'auto';
-                      e.target.style.height = `${e.target.scrollHeight}px`;
-                    }}
-                    placeholder="Enter a different option..."
-                    aria-label="Custom response"
-                    maxLength={10000}
-                    rows={1}
-                    className="w-full resize-none overflow-hidden rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs placeholder:text-muted-foreground focus-visible:outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
-                    style={{ minHeight: '38px', maxHeight: '150px' }}
-                    onKeyDown={(e) => {
-                      if (e.nativeEvent.isComposing || e.keyCode === 229) return;
-                      if (e.key === 'Enter' && (e.metaKey || e.ctrlKey) && customResponse.trim()) {
+                    error={typedAnswerError}
+                    onChange={setCustomResponse}
+                    onSubmit={() => {
+                      if (!typedAnswerError) {
                         handleRespond(true);
                       }
                     }}
                   />
-                </div>
+                )}
+
+                {!typedInput &&
+                  permissionRequest.options &&
+                  permissionRequest.options.length > 0 && (
+                    <div className="mb-4 space-y-2">
+                      {permissionRequest.options
+                        .filter((opt) => opt.label.toLowerCase() !== 'other')
+                        .map((option, idx) => (
+                          <button
+                            key={idx}
+                            onClick={() => {
+                              setCustomResponse('');
+                              if (permissionRequest.multiSelect) {
+                                setSelectedOptions((prev) =>
+                                  prev.includes(option.label)
+                                    ? prev.filter((o) => o !== option.label)
+                                    : [...prev, option.label],
+                                );
+                              } else {
+                                setSelectedOptions([option.label]);
+                              }
+                            }}
+                            className={cn(
+                              'w-full text-left p-3 rounded-lg border transition-colors',
+                              selectedOptions.includes(option.label)
+                                ? 'border-primary bg-primary/10'
+                                : 'border-border hover:border-primary/50',
+                            )}
+                          >
+                            <div className="font-medium text-sm">{option.label}</div>
+                            {option.description && (
+                              <div className="text-xs text-muted-foreground mt-1">
+                                {option.description}
+                              </div>
+                            )}
+                          </button>
+                        ))}
+                    </div>
+                  )}
+
+                {!typedInput &&
+                  permissionRequest.options &&
+                  permissionRequest.options.length > 0 && (
+                    <div className="flex items-center gap-3 mb-4">
+                      <div className="flex-1 h-px bg-border" />
+                      <span className="text-xs text-muted-foreground">or type your own</span>
+                      <div className="flex-1 h-px bg-border" />
+                    </div>
+                  )}
+
+                {!typedInput && (
+                  <div className="mb-4">
+                    <textarea
+                      value={customResponse}
+                      onChange={(e) => {
+                        setSelectedOptions([]);
+                        setCustomResponse(e.target.value);
+                        e.target.style.height = 'auto';
+                        e.target.style.height = `${e.target.scrollHeight}px`;
+                      }}
+                      placeholder="Enter a different option..."
+                      aria-label="Custom response"
+                      maxLength={10000}
+                      rows={1}
+                      className="w-full resize-none overflow-hidden rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs placeholder:text-muted-foreground focus-visible:outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+                      style={{ minHeight: '38px', maxHeight: '150px' }}
+                      onKeyDown={(e) => {
+                        if (e.nativeEvent.isComposing || e.keyCode === 229) return;
+                        if (
+                          e.key === 'Enter' &&
+                          (e.metaKey || e.ctrlKey) &&
+                          customResponse.trim()
+                        ) {
+                          handleRespond(true);
+                        }
+                      }}
+                    />
+                  </div>
+                )}
               </>
             )}
 
@@ -317,18 +526,22 @@ export function PermissionDialog({ permissionRequest, onRespond }: PermissionDia
               )}
               data-testid="permission-allow-button"
               disabled={
-                permissionRequest.type === 'question' &&
-                selectedOptions.length === 0 &&
-                !customResponse.trim()
+                (permissionRequest.type === 'question' &&
+                  (typedInput
+                    ? typedAnswerError !== null
+                    : selectedOptions.length === 0 && !customResponse.trim())) ||
+                (batchPaths.length > 0 && approvedPaths.length === 0)
               }
             >
-              {isDeleteOperation(permissionRequest)
-                ? getDisplayFilePaths(permissionRequest).length > 1
-                  ? 'Delete All'
-                  : 'Delete'
-                : permissionRequest.type === 'question'
-                  ? 'Submit'
-                  : 'Allow'}
+              {isPartial
+                ? `${isDeleteOperation(permissionRequest) ? 'Delete' : 'Allow'} Selected (${approvedPaths.length})`
+                : isDeleteOperation(permissionRequest)
+                  ? getDisplayFilePaths(permissionRequest).length > 1
+                    ? 'Delete All'
+                    : 'Delete'
+                  : permissionRequest.type === 'question'
+                    ? 'Submit'
+                    : 'Allow'}
             </Button>
           </div>
         </Card>
@@ -0,0 +1,190 @@
+import type { KeyboardEvent } from 'react';
+import type {
+  QuestionAnswerError,
+  QuestionInputConstraints,
+  QuestionInputType,
+} from '@accomplish_ai/agent-core/common';
+import { FolderOpen } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getAccomplish } from '@/lib/accomplish';
+import { cn } from '@/lib/utils';
+
+export type TypedQuestionInputType = Exclude<QuestionInputType, 'choice'>;
+
+const INPUT_TYPES: Record<
+  Exclude<TypedQuestionInputType, 'confirm' | 'file' | 'folder'>,
+  string
+> = {
+  text: 'text',
+  secret: 'password',
+  number: 'number',
+  date: 'date',
+};
+
+function getErrorMessage(
+  error: QuestionAnswerError,
+  constraints: QuestionInputConstraints,
+): string {
+  switch (error) {
+    case 'required':
+      return 'An answer is required';
+    case 'tooShort':
+      return `Must be at least ${constraints.minLength} characters`;
+    case 'tooLong':
+      return `Must be at most ${constraints.maxLength} characters`;
+    case 'pattern':
+      return 'Not in the expected format';
+    case 'notANumber':
+      return 'Enter a number';
+    case 'belowMin':
+      return `Must be at least ${constraints.min}`;
+    case 'aboveMax':
+      return `Must be at most ${constraints.max}`;
+    case 'step':
+      return `Must be a multiple of ${constraints.step}`;
+    case 'notADate':
+      return 'Enter a date';
+    case 'beforeMinDate':
+      return `Must be on or after ${constraints.minDate}`;
+    case 'afterMaxDate':
+      return `Must be on or before ${constraints.maxDate}`;
+    case 'notYesOrNo':
+      return 'Choose Yes or No';
+  }
+}
+
+interface QuestionInputProps {
+  inputType: TypedQuestionInputType;
+  constraints?: QuestionInputConstraints;
+  value: string;
+  /** Why the current value would be rejected; only shown once something is entered */
+  error: QuestionAnswerError | null;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+}
+
+/** The answer widget for a question that asks for a specific kind of value */
+export function QuestionInput({
+  inputType,
+  constraints = {},
+  value,
+  error,
+  onChange,
+  onSubmit,
+}: QuestionInputProps) {
+  if (inputType === 'confirm') {
+    return (
+      <div className="mb-4 flex gap-2" data-testid="question-input-confirm">
+        {(['yes', 'no'] as const).map((answer) => (
+          <button
+            key={answer}
+            type="button"
+            onClick={() => onChange(answer)}
+            className={cn(
+              'flex-1 p-3 rounded-lg border text-sm font-medium transition-colors',
+              value === answer
+                ? 'border-primary bg-primary/10'
+                : 'border-border hover:border-primary/50',
+            )}
+          >
+            {answer === 'yes' ? 'Yes' : 'No'}
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.nativeEvent.isComposing || e.keyCode === 229) return;
+    if (e.key === 'Enter') {
+      onSubmit();
+    }
+  };
+
+  const handleBrowse = async () => {
+    const kind = inputType === 'folder' ? 'folder' : 'file';
+    try {
+      const path = await getAccomplish().pickQuestionPath(kind);
+      if (path) {
+        onChange(path);
+      }
+    } catch (err) {
+      console.error('Failed to pick a path:', err);
+    }
+  };
+
+  const showError = error !== null && value !== '';
+
+  return (
+    <div className="mb-4">
+      {inputType === 'file' || inputType === 'folder' ? (
+        <div className="flex gap-2">
+          <Input
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={
+              constraints.placeholder ??
+              (inputType === 'folder' ? 'Choose a folder...' : 'Choose a file...')
+            }
+            aria-label={inputType === 'folder' ? 'Folder path' : 'File path'}
+            aria-invalid={showError}
+            data-testid="question-input"
+            className="font-mono"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => void handleBrowse()}
+            data-testid="question-input-browse"
+          >
+            <FolderOpen className="h-4 w-4" />
+            Browse
+          </Button>
+        </div>
+      ) : (
+        <Input
+          type={INPUT_TYPES[inputType]}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={constraints.placeholder}
+          aria-label="Answer"
+          aria-invalid={showError}
+          data-testid="question-input"
+          autoComplete={inputType === 'secret' ? 'off' : undefined}
+          spellCheck={inputType === 'secret' ? false : undefined}
+          maxLength={
+            inputType === 'text' || inputType === 'secret' ? constraints.maxLength : undefined
+          }
+          min={
+            inputType === 'number'
+              ? constraints.min
+              : inputType === 'date'
+                ? constraints.minDate
+                : undefined
+          }
+          max={
+            inputType === 'number'
+              ? constraints.max
+              : inputType === 'date'
+                ? constraints.maxDate
+                : undefined
+          }
+          step={inputType === 'number' ? constraints.step : undefined}
+        />
+      )}
+      {showError && (
+        <p className="mt-1.5 text-xs text-destructive" data-testid="question-input-error">
+          {getErrorMessage(error, constraints)}
+        </p>
+      )}
+      {inputType === 'secret' && (
+        <p className="mt-1.5 text-xs text-muted-foreground">
+          Only the agent sees this. It is not shown in the task history.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useCallback, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type {
+  SnapshotChange,
+  SnapshotChangeType,
+  SnapshotRollbackResult,
+  TaskSnapshot,
+} from '@accomplish_ai/agent-core/common';
+import {
+  ArrowCounterClockwise,
+  CaretDown,
+  CaretRight,
+  ClockCounterClockwise,
+} from '@phosphor-icons/react';
+import { getAccomplish } from '@/lib/accomplish';
+
+const CHANGE_CLASSES: Record<SnapshotChangeType, string> = {
+  modified: 'text-amber-600',
+  created: 'text-green-600',
+  deleted: 'text-destructive',
+};
+
+const CHANGE_TYPES: SnapshotChangeType[] = ['modified', 'created', 'deleted'];
+
+interface SnapshotsPanelProps {
+  taskId: string;
+  /** Rolling back is only allowed once the task has stopped */
+  canRollBack: boolean;
+}
+
+type RollbackState =
+  | { step: 'idle' }
+  | { step: 'previewing'; snapshotId: string }
+  | { step: 'confirm'; snapshotId: string; changes: SnapshotChange[] }
+  | { step: 'rolling-back'; snapshotId: string }
+  | { step: 'done'; snapshotId: string; result: SnapshotRollbackResult }
+  | { step: 'error'; snapshotId: string };
+
+/** Working-directory snapshots the task took, each of which the folder can be rolled back to */
+export function SnapshotsPanel({ taskId, canRollBack }: SnapshotsPanelProps) {
+  const { t } = useTranslation('execution');
+  const [expanded, setExpanded] = useState(false);
+  const [snapshots, setSnapshots] = useState<TaskSnapshot[] | null>(null);
+  const [rollback, setRollback] = useState<RollbackState>({ step: 'idle' });
+  const accomplish = getAccomplish();
+
+  const handleToggle = useCallback(() => {
+    const next = !expanded;
+    setExpanded(next);
+    if (next) {
+      accomplish
+        .listTaskSnapshots(taskId)
+        .then(setSnapshots)
+        .catch((err) => console.error('Failed to load snapshots:', err));
+    }
+  }, [accomplish, expanded, taskId]);
+
+  const handlePreview = useCallback(
+    async (snapshotId: string) => {
+      setRollback({ step: 'previewing', snapshotId });
+      try {
+        const changes = await accomplish.previewSnapshotRollback(snapshotId);
+        setRollback({ step: 'confirm', snapshotId, changes });
+      } catch (err) {
+        console.error('Failed to preview rollback:', err);
+        setRollback({ step: 'error', snapshotId });
+      }
+    },
+    [accomplish],
+  );
+
+  const handleConfirm = useCallback(
+    async (snapshotId: string) => {
+      setRollback({ step: 'rolling-back', snapshotId });
+      try {
+        const result = await accomplish.rollbackToSnapshot(snapshotId);
+        setRollback({ step: 'done', snapshotId, result });
+      } catch (err) {
+        console.error('Failed to roll back:', err);
+        setRollback({ step: 'error', snapshotId });
+      }
+    },
+    [accomplish],
+  );
+
+  const renderRollback = (snapshotId: string) => {
+    if (rollback.step === 'idle' || rollback.snapshotId !== snapshotId) {
+      return null;
+    }
+    switch (rollback.step) {
+      case 'previewing':
+      case 'rolling-back':
+        return (
+          <p className="mt-1 text-muted-foreground">
+            {t(rollback.step === 'previewing' ? 'snapshots.previewing' : 'snapshots.rollingBack')}
+          </p>
+        );
+      case 'error':
+        return <p className="mt-1 text-destructive">{t('snapshots.failed')}</p>;
+      case 'done':
+        return (
+          <p className="mt-1 text-muted-foreground" title={rollback.result.failed.join('\n')}>
+            {t('snapshots.done', {
+              restored: rollback.result.restored,
+              removed: rollback.result.removed,
+            })}
+            {rollback.result.failed.length > 0 && (
+              <span className="text-destructive">
+                {' '}
+                · {t('snapshots.doneFailed', { count: rollback.result.failed.length })}
+              </span>
+            )}
+          </p>
+        );
+      case 'confirm': {
+        const { changes } = rollback;
+        return (
+          <div
+            className="mt-1.5 rounded border border-border bg-muted/40 p-2"
+            data-testid="execution-snapshot-preview"
+          >
+            {changes.length === 0 ? (
+              <p className="text-muted-foreground">{t('snapshots.noChanges')}</p>
+            ) : (
+              <>
+                <p className="text-foreground">
+                  {CHANGE_TYPES.map((type) =>
+                    t(`snapshots.summary.${type}`, {
+                      count: changes.filter((change) => change.change === type).length,
+                    }),
+                  ).join(' · ')}
+                </p>
+                <ul className="mt-1.5 max-h-40 space-y-0.5 overflow-y-auto">
+                  {changes.map((change) => (
+                    <li key={change.path} className="flex gap-2">
+                      <span className={`w-20 shrink-0 ${CHANGE_CLASSES[change.change]}`}>
+                        {t(`snapshots.changes.${change.change}`)}
+                      </span>
+                      <span className="truncate" title={change.path}>
+                        {change.path}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+            <div className="mt-2 flex gap-3">
+              {changes.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => void handleConfirm(snapshotId)}
+                  data-testid="execution-snapshot-confirm"
+                  className="font-medium text-destructive hover:underline"
+                >
+                  {t('snapshots.confirm')}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setRollback({ step: 'idle' })}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                {t('snapshots.cancel')}
+              </button>
+            </div>
+          </div>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto mt-3" data-testid="execution-snapshots">
+      <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <button
+          type="button"
+          onClick={handleToggle}
+          className="inline-flex items-center gap-1.5 hover:text-foreground"
+        >
+          {expanded ? <CaretDown className="h-3 w-3" /> : <CaretRight className="h-3 w-3" />}
+          <ClockCounterClockwise className="h-3.5 w-3.5" />
+          <span className="font-medium">{t('snapshots.title')}</span>
+          {snapshots && <span>· {t('snapshots.count', { count: snapshots.length })}</span>}
+        </button>
+      </div>
+
+      {expanded && snapshots && (
+        <ul className="mt-2 space-y-1.5 text-xs">
+          {snapshots.length === 0 && (
+            <li className="text-muted-foreground">{t('snapshots.empty')}</li>
+          )}
+          {snapshots.map((snapshot) => (
+            <li key={snapshot.id} data-testid={`execution-snapshot-${snapshot.id}`}>
+              <div className="flex items-center gap-2 text-foreground">
+                <span className="shrink-0 text-muted-foreground">
+                  {new Date(snapshot.createdAt).toLocaleTimeString()}
+                </span>
+                <span className="truncate" title={snapshot.label}>
+                  {snapshot.trigger === 'first-change'
+                    ? t('snapshots.firstChange')
+                    : snapshot.label || t('snapshots.checkpoint')}
+                </span>
+                <span className="shrink-0 text-muted-foreground">
+                  {t('snapshots.files', { count: snapshot.fileCount })}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => void handlePreview(snapshot.id)}
+                  disabled={!canRollBack || rollback.step === 'rolling-back'}
+                  title={canRollBack ? undefined : t('snapshots.stopFirst')}
+                  data-testid={`execution-snapshot-rollback-${snapshot.id}`}
+                  className="ml-auto inline-flex shrink-0 items-center gap-1 text-primary hover:underline disabled:opacity-50 disabled:no-underline"
+                >
+                  <ArrowCounterClockwise className="h-3 w-3" />
+                  {t('snapshots.rollBack')}
+                </button>
+              </div>
+              {renderRollback(snapshot.id)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { useTranslation } from 'react-i18next';
+import type { Task, TaskStatus } from '@accomplish_ai/agent-core/common';
+import { CheckCircle, Clock, Square, TreeStructure, XCircle } from '@phosphor-icons/react';
+import { cn } from '@/lib/utils';
+import { SpinningIcon } from './SpinningIcon';
+
+const FINISHED_STATUSES: TaskStatus[] = ['completed', 'failed', 'cancelled', 'interrupted'];
+
+function SubtaskStatusIcon({ status }: { status: TaskStatus }) {
+  switch (status) {
+    case 'completed':
+      return <CheckCircle className="h-3.5 w-3.5 text-green-600 shrink-0" />;
+    case 'failed':
+      return <XCircle className="h-3.5 w-3.5 text-destructive shrink-0" />;
+    case 'cancelled':
+      return <XCircle className="h-3.5 w-3.5 text-muted-foreground shrink-0" />;
+    case 'interrupted':
+      return <Square className="h-3.5 w-3.5 text-amber-600 shrink-0" />;
+    case 'queued':
+    case 'pending':
+      return <Clock className="h-3.5 w-3.5 text-amber-600 shrink-0" />;
+    default:
+      return <SpinningIcon className="h-3.5 w-3.5 shrink-0" />;
+  }
+}
+
+interface SubtaskListProps {
+  subtasks: Task[];
+  onOpen: (taskId: string) => void;
+}
+
+/** Child tasks a task fanned out to from its plan, with their progress */
+export function SubtaskList({ subtasks, onOpen }: SubtaskListProps) {
+  const { t } = useTranslation('execution');
+  const finished = subtasks.filter((task) => FINISHED_STATUSES.includes(task.status)).length;
+
+  return (
+    <div className="max-w-4xl mx-auto mt-3" data-testid="execution-subtasks">
+      <div className="flex items-center gap-1.5 text-xs text-muted-foreground mb-2">
+        <TreeStructure className="h-3.5 w-3.5" />
+        <span className="font-medium">{t('subtasks.title')}</span>
+        <span>· {t('subtasks.progress', { finished, total: subtasks.length })}</span>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {subtasks.map((task) => (
+          <button
+            key={task.id}
+            type="button"
+            onClick={() => onOpen(task.id)}
+            className={cn(
+              'inline-flex items-center gap-1.5 max-w-xs rounded-md border border-border px-2.5 py-1 text-xs',
+              'text-foreground hover:bg-muted transition-colors',
+            )}
+            title={task.summary || task.prompt}
+            data-testid={`execution-subtask-${task.id}`}
+          >
+            <SubtaskStatusIcon status={task.status} />
+            <span className="truncate">{task.summary || task.prompt}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useCallback, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { TrashEntry } from '@accomplish_ai/agent-core/common';
+import { ArrowCounterClockwise, CaretDown, CaretRight, Trash } from '@phosphor-icons/react';
+import { getAccomplish } from '@/lib/accomplish';
+import { formatBytes } from '@/lib/utils';
+
+interface TrashPanelProps {
+  taskId: string;
+}
+
+/** Copies of the files the task deleted or overwrote, with per-file and whole-task restore */
+export function TrashPanel({ taskId }: TrashPanelProps) {
+  const { t } = useTranslation('execution');
+  const [expanded, setExpanded] = useState(false);
+  const [entries, setEntries] = useState<TrashEntry[] | null>(null);
+  const [failedPaths, setFailedPaths] = useState<string[]>([]);
+  const accomplish = getAccomplish();
+
+  const load = useCallback(() => {
+    accomplish
+      .listTrash(taskId)
+      .then(setEntries)
+      .catch((err) => console.error('Failed to load trash:', err));
+  }, [accomplish, taskId]);
+
+  const handleToggle = useCallback(() => {
+    const next = !expanded;
+    setExpanded(next);
+    if (next) {
+      load();
+    }
+  }, [expanded, load]);
+
+  const handleRestore = useCallback(
+    async (entry: TrashEntry) => {
+      setFailedPaths([]);
+      try {
+        await accomplish.restoreTrashEntry(entry.id);
+      } catch (err) {
+        console.error('Failed to restore from trash:', err);
+        setFailedPaths([entry.originalPath]);
+      }
+      load();
+    },
+    [accomplish, load],
+  );
+
+  const handleRestoreAll = useCallback(async () => {
+    setFailedPaths([]);
+    try {
+      const { failed } = await accomplish.restoreTaskTrash(taskId);
+      setFailedPaths(failed);
+    } catch (err) {
+      console.error('Failed to restore task trash:', err);
+    }
+    load();
+  }, [accomplish, load, taskId]);
+
+  return (
+    <div className="max-w-4xl mx-auto mt-3" data-testid="execution-trash">
+      <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <button
+          type="button"
+          onClick={handleToggle}
+          className="inline-flex items-center gap-1.5 hover:text-foreground"
+        >
+          {expanded ? <CaretDown className="h-3 w-3" /> : <CaretRight className="h-3 w-3" />}
+          <Trash className="h-3.5 w-3.5" />
+          <span className="font-medium">{t('trash.title')}</span>
+          {entries && <span>· {t('trash.count', { count: entries.length })}</span>}
+        </button>
+        {expanded && entries && entries.length > 0 && (
+          <button
+            type="button"
+            onClick={() => void handleRestoreAll()}
+            data-testid="execution-trash-restore-all"
+            className="ml-auto inline-flex items-center gap-1 hover:text-foreground"
+          >
+            <ArrowCounterClockwise className="h-3 w-3" />
+            {t('trash.restoreAll')}
+          </button>
+        )}
+      </div>
+
+      {expanded && failedPaths.length > 0 && (
+        <p className="mt-2 text-xs text-destructive" title={failedPaths.join('\n')}>
+          {t('trash.restoreFailed', { count: failedPaths.length })}
+        </p>
+      )}
+
+      {expanded && entries && (
+        <ul className="mt-2 space-y-1">
+          {entries.length === 0 && (
+            <li className="text-xs text-muted-foreground">{t('trash.empty')}</li>
+          )}
+          {entries.map((entry) => (
+            <li
+              key={entry.id}
+              className="flex items-center gap-2 text-xs text-foreground"
+              data-testid={`execution-trash-${entry.id}`}
+            >
+              <span className="shrink-0 font-medium text-muted-foreground">
+                {t(`trash.reasons.${entry.reason}`)}
+              </span>
+              <span className="truncate" title={entry.originalPath}>
+                {entry.originalPath}
+              </span>
+              <span className="shrink-0 text-muted-foreground">{formatBytes(entry.sizeBytes)}</span>
+              <button
+                type="button"
+                onClick={() => void handleRestore(entry)}
+                className="ml-auto shrink-0 text-primary hover:underline"
+              >
+                {t('trash.restore')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useEffect } from 'react';
 import { Link } from 'react-router';
 import { useTranslation } from 'react-i18next';
 import { useTaskStore } from '../../stores/taskStore';
+import { getTimeoutMinutes } from '../../lib/task-utils';
 import type { Task } from '@accomplish_ai/agent-core/common';
 
 interface TaskHistoryProps {
@@ -75,6 +76,7 @@ function TaskHistoryItem({ task, onDelete }: { task: Task; onDelete: () => void
     running: { color: 'bg-primary', labelKey: 'status.running' },
     failed: { color: 'bg-danger', labelKey: 'status.failed' },
     cancelled: { color: 'bg-text-muted', labelKey: 'status.cancelled' },
+    interrupted: { color: 'bg-warning', labelKey: 'status.interrupted' },
     pending: { color: 'bg-warning', labelKey: 'status.pending' },
     waiting_permission: { color: 'bg-warning', labelKey: 'status.waiting' },
   };
@@ -96,6 +98,13 @@ function TaskHistoryItem({ task, onDelete }: { task: Task; onDelete: () => void
           {tCommon(config.labelKey)} · {timeAgo} ·{' '}
           {tCommon('messages', { count: task.messages.length })}
         </p>
+        {task.timedOut && (
+          <p className="text-xs text-warning mt-1">
+            {tCommon(`timeout.${task.timedOut.kind}`, {
+              minutes: getTimeoutMinutes(task.timedOut),
+            })}
+          </p>
+        )}
       </div>
       <button
         onClick={(e) => {
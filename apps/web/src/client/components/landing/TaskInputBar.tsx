@@ -8,7 +8,7 @@ import { PROMPT_DEFAULT_MAX_LENGTH } from '@accomplish_ai/agent-core/common';
 import { useSpeechInput } from '@/hooks/useSpeechInput';
 import { useTypingPlaceholder } from '@/hooks/useTypingPlaceholder';
 import { SpeechInputButton } from '@/components/ui/SpeechInputButton';
-import { ModelIndicator } from '@/components/ui/ModelIndicator';
+import { ModelIndicator, type TaskModelSelection } from '@/components/ui/ModelIndicator';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 
@@ -25,6 +25,9 @@ interface TaskInputBarProps {
   onOpenSpeechSettings?: () => void;
   onOpenModelSettings?: () => void;
   hideModelWhenNoModel?: boolean;
+  /** Model picked for this task only; null runs it on the active provider */
+  taskModel?: TaskModelSelection | null;
+  onTaskModelChange?: (selection: TaskModelSelection | null) => void;
   autoSubmitOnTranscription?: boolean;
   toolbarLeft?: ReactNode;
 }
@@ -42,6 +45,8 @@ export function TaskInputBar({
   onOpenSpeechSettings,
   onOpenModelSettings,
   hideModelWhenNoModel = false,
+  taskModel = null,
+  onTaskModelChange,
   autoSubmitOnTranscription = true,
   toolbarLeft,
 }: TaskInputBarProps) {
@@ -162,6 +167,8 @@ export function TaskInputBar({
                 isRunning={false}
                 onOpenSettings={onOpenModelSettings}
                 hideWhenNoModel={hideModelWhenNoModel}
+                taskModel={taskModel}
+                onTaskModelChange={onTaskModelChange}
               />
             )}
 
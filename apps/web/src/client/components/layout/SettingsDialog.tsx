@@ -13,8 +13,25 @@ import { SpeechSettingsForm } from '@/components/settings/SpeechSettingsForm';
 import { SkillsPanel, AddSkillDropdown } from '@/components/settings/skills';
 import { AboutTab } from '@/components/settings/AboutTab';
 import { DebugSection } from '@/components/settings/DebugSection';
+import { TaskTimeoutSection } from '@/components/settings/TaskTimeoutSection';
+import { LocalApiSection } from '@/components/settings/LocalApiSection';
+import { SandboxSection } from '@/components/settings/SandboxSection';
+import { ProjectProfilesSection } from '@/components/settings/ProjectProfilesSection';
+import { PermissionRulesSection } from '@/components/settings/PermissionRulesSection';
+import { PermissionAuditSection } from '@/components/settings/PermissionAuditSection';
+import { TrashSection } from '@/components/settings/TrashSection';
 import { ConnectorsPanel } from '@/components/settings/connectors';
-import { Key, Lightning, Microphone, Info, Plugs } from '@phosphor-icons/react';
+import { UsagePanel } from '@/components/settings/usage';
+import { WebhooksPanel } from '@/components/settings/webhooks';
+import {
+  Key,
+  Lightning,
+  Microphone,
+  Info,
+  Plugs,
+  ChartBar,
+  WebhooksLogo,
+} from '@phosphor-icons/react';
 import { cn } from '@/lib/utils';
 import logoImage from '/assets/logo-1.png';
 
@@ -22,7 +39,9 @@ const TABS = [
   { id: 'providers' as const, labelKey: 'tabs.providers', icon: Key },
   { id: 'skills' as const, labelKey: 'tabs.skills', icon: Lightning },
   { id: 'connectors' as const, labelKey: 'tabs.connectors', icon: Plugs },
+  { id: 'webhooks' as const, labelKey: 'tabs.webhooks', icon: WebhooksLogo },
   { id: 'voice' as const, labelKey: 'tabs.voiceInput', icon: Microphone },
+  { id: 'usage' as const, labelKey: 'tabs.usage', icon: ChartBar },
   { id: 'about' as const, labelKey: 'tabs.about', icon: Info },
 ];
 
@@ -37,7 +56,7 @@ interface SettingsDialogProps {
   /**
    * Initial tab to show when dialog opens ('providers' or 'voice')
    */
-  initialTab?: 'providers' | 'voice' | 'skills' | 'connectors' | 'about';
+  initialTab?: 'providers' | 'voice' | 'skills' | 'connectors' | 'webhooks' | 'usage' | 'about';
 }
 
 export function SettingsDialog({
@@ -53,7 +72,7 @@ export function SettingsDialog({
   const [closeWarning, setCloseWarning] = useState(false);
   const [showModelError, setShowModelError] = useState(false);
   const [activeTab, setActiveTab] = useState<
-    'providers' | 'voice' | 'skills' | 'connectors' | 'about'
+    'providers' | 'voice' | 'skills' | 'connectors' | 'webhooks' | 'usage' | 'about'
   >(initialTab);
   const [appVersion, setAppVersion] = useState<string>('');
   const [skillsRefreshTrigger, setSkillsRefreshTrigger] = useState(0);
@@ -417,7 +436,20 @@ export function SettingsDialog({
                         exit="exit"
                         transition={{ ...settingsTransitions.enter, delay: 0.05 }}
                       >
-                        <DebugSection debugMode={debugMode} onDebugToggle={handleDebugToggle} />
+                        <div className="space-y-4">
+                          <DebugSection
+                            debugMode={debugMode}
+                            onDebugToggle={handleDebugToggle}
+                            onClose={() => onOpenChange(false)}
+                          />
+                          <PermissionAuditSection />
+                          <TaskTimeoutSection />
+                          <SandboxSection />
+                          <TrashSection />
+                          <PermissionRulesSection />
+                          <ProjectProfilesSection />
+                          <LocalApiSection />
+                        </div>
                       </motion.section>
                     )}
                   </AnimatePresence>
@@ -438,6 +470,9 @@ export function SettingsDialog({
                 </div>
               )}
 
+              {/* Webhooks Tab */}
+              {activeTab === 'webhooks' && <WebhooksPanel />}
+
               {/* Voice Input Tab */}
               {activeTab === 'voice' && (
                 <div className="space-y-6">
@@ -445,6 +480,9 @@ export function SettingsDialog({
                 </div>
               )}
 
+              {/* Usage Tab */}
+              {activeTab === 'usage' && <UsagePanel />}
+
               {/* About Tab */}
               {activeTab === 'about' && <AboutTab appVersion={appVersion} />}
 
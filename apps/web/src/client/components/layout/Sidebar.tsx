@@ -11,7 +11,8 @@ import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import ConversationListItem from './ConversationListItem';
 import SettingsDialog from './SettingsDialog';
-import { Gear, ChatText, MagnifyingGlass } from '@phosphor-icons/react';
+import { QueuePanel } from '../queue';
+import { Gear, ChatText, MagnifyingGlass, CalendarBlank } from '@phosphor-icons/react';
 import logoImage from '/assets/logo-1.png';
 
 export default function Sidebar() {
@@ -36,11 +37,29 @@ export default function Sidebar() {
       addTaskUpdate(event);
     });
 
+    // Scheduled runs are started by the main process, so reload to pick them up
+    const unsubscribeScheduledTask = accomplish.onScheduledTaskStarted?.(() => {
+      loadTasks();
+    });
+
+    // Same for tasks started through the local API
+    const unsubscribeApiTask = accomplish.onLocalApiTaskStarted?.(() => {
+      loadTasks();
+    });
+
+    // Same for sub-tasks a running task fans out to
+    const unsubscribeSubtask = accomplish.onSubtaskStarted?.(() => {
+      loadTasks();
+    });
+
     return () => {
       unsubscribeStatusChange?.();
       unsubscribeTaskUpdate();
+      unsubscribeScheduledTask?.();
+      unsubscribeApiTask?.();
+      unsubscribeSubtask?.();
     };
-  }, [updateTaskStatus, addTaskUpdate, accomplish]);
+  }, [updateTaskStatus, addTaskUpdate, loadTasks, accomplish]);
 
   const handleNewConversation = () => {
     navigate('/');
@@ -71,8 +90,20 @@ export default function Sidebar() {
           >
             <MagnifyingGlass className="h-4 w-4" />
           </Button>
+          <Button
+            data-testid="sidebar-schedules-button"
+            onClick={() => navigate('/schedules')}
+            variant="outline"
+            size="sm"
+            className="px-2"
+            title={t('schedules')}
+          >
+            <CalendarBlank className="h-4 w-4" />
+          </Button>
         </div>
 
+        <QueuePanel />
+
         {/* Conversation List */}
         <ScrollArea className="flex-1">
           <div className="p-2 space-y-1">
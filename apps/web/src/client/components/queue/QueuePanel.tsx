@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router';
+import { useTranslation } from 'react-i18next';
+import { ArrowLineUp, DotsSixVertical, X } from '@phosphor-icons/react';
+import { cn } from '@/lib/utils';
+import { useTaskQueue } from './useTaskQueue';
+
+export function QueuePanel() {
+  const navigate = useNavigate();
+  const { t } = useTranslation('sidebar');
+  const { queue, moveTask, bumpTask, cancelTask } = useTaskQueue();
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  if (queue.length === 0) {
+    return null;
+  }
+
+  const handleDrop = (index: number) => {
+    if (draggedTaskId) {
+      moveTask(draggedTaskId, index);
+    }
+    setDraggedTaskId(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="px-2 py-2 border-b border-border" data-testid="sidebar-queue-panel">
+      <div className="px-2 pb-1 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+        {t('queue.title', { count: queue.length })}
+      </div>
+      <ul className="space-y-0.5">
+        {queue.map((item, index) => (
+          <li
+            key={item.taskId}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDraggedTaskId(item.taskId);
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDragEnd={() => {
+              setDraggedTaskId(null);
+              setDropIndex(null);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(index);
+            }}
+            onClick={() => navigate(`/execution/${item.taskId}`)}
+            title={item.prompt}
+            className={cn(
+              'group flex items-center gap-1.5 rounded-md px-1.5 py-1 text-xs cursor-pointer',
+              'text-foreground hover:bg-accent transition-colors duration-200',
+              draggedTaskId === item.taskId && 'opacity-50',
+              dropIndex === index && draggedTaskId !== item.taskId && 'bg-accent',
+            )}
+            data-testid="sidebar-queue-item"
+          >
+            <DotsSixVertical className="h-3.5 w-3.5 shrink-0 cursor-grab text-muted-foreground" />
+            <span className="w-4 shrink-0 text-right tabular-nums text-muted-foreground">
+              {index + 1}
+            </span>
+            <span className="flex-1 truncate">{item.prompt}</span>
+            {index > 0 && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  bumpTask(item.taskId);
+                }}
+                className="rounded p-0.5 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                aria-label={t('queue.bump')}
+                title={t('queue.bump')}
+                data-testid="sidebar-queue-bump"
+              >
+                <ArrowLineUp className="h-3 w-3" />
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                cancelTask(item.taskId);
+              }}
+              className="rounded p-0.5 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+              aria-label={t('queue.cancel')}
+              title={t('queue.cancel')}
+              data-testid="sidebar-queue-cancel"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { QueuePanel } from './QueuePanel';
+export { useTaskQueue } from './useTaskQueue';
@@ -0,0 +1,69 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { QueuedTaskInfo } from '@accomplish_ai/agent-core/common';
+import { getAccomplish } from '@/lib/accomplish';
+import { useTaskStore } from '@/stores/taskStore';
+
+export function useTaskQueue() {
+  const [queue, setQueue] = useState<QueuedTaskInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const updateTaskStatus = useTaskStore((state) => state.updateTaskStatus);
+
+  // Tasks enter and leave the queue through the task store, so refetch
+  // whenever the set of queued tasks there changes
+  const queuedTaskKey = useTaskStore((state) =>
+    state.tasks
+      .filter((task) => task.status === 'queued')
+      .map((task) => task.id)
+      .join(','),
+  );
+
+  const fetchQueue = useCallback(() => {
+    return getAccomplish()
+      .getQueuedTasks()
+      .then((data) => {
+        setQueue(data);
+        setError(null);
+      })
+      .catch((err) => {
+        console.error('Failed to load task queue:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load task queue');
+      });
+  }, []);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue, queuedTaskKey]);
+
+  const moveTask = useCallback(async (taskId: string, toIndex: number) => {
+    try {
+      const accomplish = getAccomplish();
+      const data = await accomplish.reorderQueuedTask(taskId, toIndex);
+      setQueue(data);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to reorder task queue:', err);
+      setError(err instanceof Error ? err.message : 'Failed to reorder task queue');
+    }
+  }, []);
+
+  const bumpTask = useCallback((taskId: string) => moveTask(taskId, 0), [moveTask]);
+
+  const cancelTask = useCallback(
+    async (taskId: string) => {
+      const accomplish = getAccomplish();
+      await accomplish.cancelTask(taskId);
+      updateTaskStatus(taskId, 'cancelled');
+      setQueue((prev) => prev.filter((q) => q.taskId !== taskId));
+    },
+    [updateTaskStatus],
+  );
+
+  return {
+    queue,
+    error,
+    moveTask,
+    bumpTask,
+    cancelTask,
+    refetch: fetchQueue,
+  };
+}
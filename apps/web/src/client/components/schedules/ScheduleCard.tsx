@@ -0,0 +1,123 @@
+import { memo, useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router';
+import type { TaskSchedule } from '@accomplish_ai/agent-core/common';
+
+interface ScheduleCardProps {
+  schedule: TaskSchedule;
+  onToggleEnabled: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+function formatDateTime(value: string | undefined): string | null {
+  if (!value) return null;
+  return new Date(value).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
+
+export const ScheduleCard = memo(function ScheduleCard({
+  schedule,
+  onToggleEnabled,
+  onDelete,
+}: ScheduleCardProps) {
+  const { t } = useTranslation('schedules');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  // Auto-cancel delete confirmation after 3 seconds, cleanup on unmount
+  useEffect(() => {
+    if (!confirmDelete) return;
+    const timer = setTimeout(() => setConfirmDelete(false), 3000);
+    return () => clearTimeout(timer);
+  }, [confirmDelete]);
+
+  const nextRun = formatDateTime(schedule.nextRunAt);
+  const lastRun = formatDateTime(schedule.lastRunAt);
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4" data-testid="schedule-card">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <h3 className="truncate text-sm font-medium text-foreground">{schedule.name}</h3>
+            <span
+              className={`flex items-center gap-1 text-[11px] ${
+                schedule.isEnabled ? 'text-green-600' : 'text-muted-foreground'
+              }`}
+            >
+              <span
+                className={`inline-block h-1.5 w-1.5 rounded-full ${
+                  schedule.isEnabled ? 'bg-green-500' : 'bg-muted-foreground'
+                }`}
+              />
+              {schedule.isEnabled ? t('status.active') : t('status.paused')}
+            </span>
+          </div>
+          <p className="mt-0.5 font-mono text-xs text-muted-foreground">
+            {schedule.cronExpression}
+          </p>
+          <p className="mt-2 line-clamp-2 text-xs text-foreground" title={schedule.config.prompt}>
+            {schedule.config.prompt}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onToggleEnabled(schedule.id)}
+            className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors duration-200 ${
+              schedule.isEnabled ? 'bg-primary' : 'bg-muted'
+            }`}
+            title={schedule.isEnabled ? t('pause') : t('resume')}
+          >
+            <span
+              className={`inline-block h-3.5 w-3.5 transform rounded-full bg-white shadow-sm transition-transform duration-200 ${
+                schedule.isEnabled ? 'translate-x-[18px]' : 'translate-x-[3px]'
+              }`}
+            />
+          </button>
+
+          <button
+            onClick={() => {
+              if (confirmDelete) {
+                onDelete(schedule.id);
+                setConfirmDelete(false);
+              } else {
+                setConfirmDelete(true);
+              }
+            }}
+            className={`rounded p-1 transition-colors ${
+              confirmDelete
+                ? 'text-destructive hover:bg-destructive/10'
+                : 'text-muted-foreground hover:text-foreground hover:bg-muted'
+            }`}
+            title={confirmDelete ? t('confirmDelete') : t('delete')}
+          >
+            <svg
+              className="h-3.5 w-3.5"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+            >
+              <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-[11px] text-muted-foreground">
+        <span>{t('nextRun', { time: nextRun ?? t('notScheduled') })}</span>
+        <span>
+          {lastRun && schedule.lastTaskId ? (
+            <Link to={`/execution/${schedule.lastTaskId}`} className="hover:text-foreground">
+              {t('lastRun', { time: lastRun })}
+            </Link>
+          ) : (
+            t('neverRun')
+          )}
+        </span>
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,144 @@
+import { useState, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { TaskConfig } from '@accomplish_ai/agent-core/common';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+
+const CRON_PRESETS = [
+  { key: 'hourly', expression: '0 * * * *' },
+  { key: 'dailyMorning', expression: '0 9 * * *' },
+  { key: 'weekdayMorning', expression: '0 9 * * 1-5' },
+  { key: 'weeklyMonday', expression: '0 9 * * 1' },
+] as const;
+
+interface ScheduleFormProps {
+  onSubmit: (name: string, cronExpression: string, config: TaskConfig) => Promise<unknown>;
+}
+
+export function ScheduleForm({ onSubmit }: ScheduleFormProps) {
+  const { t } = useTranslation('schedules');
+  const [name, setName] = useState('');
+  const [cronExpression, setCronExpression] = useState<string>(CRON_PRESETS[1].expression);
+  const [prompt, setPrompt] = useState('');
+  const [workingDirectory, setWorkingDirectory] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canSubmit = name.trim() && cronExpression.trim() && prompt.trim() && !saving;
+
+  const handleSubmit = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!canSubmit) return;
+
+      setSaving(true);
+      setError(null);
+      try {
+        const config: TaskConfig = { prompt: prompt.trim() };
+        if (workingDirectory.trim()) {
+          config.workingDirectory = workingDirectory.trim();
+        }
+        await onSubmit(name.trim(), cronExpression.trim(), config);
+        setName('');
+        setPrompt('');
+        setWorkingDirectory('');
+      } catch (err) {
+        console.error('Failed to create schedule:', err);
+        setError(err instanceof Error ? err.message : t('createFailed'));
+      } finally {
+        setSaving(false);
+      }
+    },
+    [canSubmit, name, cronExpression, prompt, workingDirectory, onSubmit, t],
+  );
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex flex-col gap-4 rounded-lg border border-border bg-card p-4"
+      data-testid="schedule-form"
+    >
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="schedule-name">{t('form.name')}</Label>
+        <Input
+          id="schedule-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t('form.namePlaceholder')}
+          disabled={saving}
+        />
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="schedule-cron">{t('form.cron')}</Label>
+        <div className="flex flex-wrap gap-2">
+          {CRON_PRESETS.map((preset) => (
+            <button
+              key={preset.key}
+              type="button"
+              onClick={() => setCronExpression(preset.expression)}
+              className={`rounded-md border px-2.5 py-1 text-xs transition-colors ${
+                cronExpression === preset.expression
+                  ? 'border-primary bg-primary/10 text-foreground'
+                  : 'border-border text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {t(`presets.${preset.key}`)}
+            </button>
+          ))}
+        </div>
+        <Input
+          id="schedule-cron"
+          value={cronExpression}
+          onChange={(e) => setCronExpression(e.target.value)}
+          placeholder="0 9 * * 1-5"
+          className="font-mono"
+          disabled={saving}
+        />
+        <p className="text-xs text-muted-foreground">{t('form.cronHint')}</p>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="schedule-prompt">{t('form.prompt')}</Label>
+        <Textarea
+          id="schedule-prompt"
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          placeholder={t('form.promptPlaceholder')}
+          disabled={saving}
+        />
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="schedule-cwd">{t('form.workingDirectory')}</Label>
+        <Input
+          id="schedule-cwd"
+          value={workingDirectory}
+          onChange={(e) => setWorkingDirectory(e.target.value)}
+          placeholder={t('form.workingDirectoryPlaceholder')}
+          disabled={saving}
+        />
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={!canSubmit}
+          className="flex items-center gap-1.5 rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+        >
+          {saving && (
+            <div className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+          )}
+          {t('form.create')}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,3 @@
+export { ScheduleForm } from './ScheduleForm';
+export { ScheduleCard } from './ScheduleCard';
+export { useSchedules } from './useSchedules';
@@ -0,0 +1,73 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { TaskConfig, TaskSchedule } from '@accomplish_ai/agent-core/common';
+import { getAccomplish } from '@/lib/accomplish';
+
+export function useSchedules() {
+  const [schedules, setSchedules] = useState<TaskSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const accomplish = getAccomplish();
+      const data = await accomplish.listSchedules();
+      setSchedules(data);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load schedules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load schedules');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  // Refresh last/next run times whenever a scheduled run starts
+  useEffect(() => {
+    const unsubscribe = window.accomplish?.onScheduledTaskStarted?.(() => {
+      fetchSchedules();
+    });
+    return () => unsubscribe?.();
+  }, [fetchSchedules]);
+
+  const createSchedule = useCallback(
+    async (name: string, cronExpression: string, config: TaskConfig) => {
+      const accomplish = getAccomplish();
+      const schedule = await accomplish.createSchedule(name, cronExpression, config);
+      setSchedules((prev) => [schedule, ...prev]);
+      return schedule;
+    },
+    [],
+  );
+
+  const deleteSchedule = useCallback(async (id: string) => {
+    const accomplish = getAccomplish();
+    await accomplish.deleteSchedule(id);
+    setSchedules((prev) => prev.filter((s) => s.id !== id));
+  }, []);
+
+  const toggleEnabled = useCallback(
+    async (id: string) => {
+      const schedule = schedules.find((s) => s.id === id);
+      if (!schedule) return;
+
+      const accomplish = getAccomplish();
+      const updated = await accomplish.setScheduleEnabled(id, !schedule.isEnabled);
+      setSchedules((prev) => prev.map((s) => (s.id === id ? updated : s)));
+    },
+    [schedules],
+  );
+
+  return {
+    schedules,
+    loading,
+    error,
+    createSchedule,
+    deleteSchedule,
+    toggleEnabled,
+    refetch: fetchSchedules,
+  };
+}
@@ -1,13 +1,53 @@
 import { useState, useCallback } from 'react';
+import { useNavigate } from 'react-router';
 import { useTranslation } from 'react-i18next';
 import { getAccomplish } from '@/lib/accomplish';
+import { useTaskStore } from '@/stores/taskStore';
 
 interface DebugSectionProps {
   debugMode: boolean;
   onDebugToggle: () => void;
+  onClose?: () => void;
 }
 
-export function DebugSection({ debugMode, onDebugToggle }: DebugSectionProps) {
+function ReplayRecordingButton({ onClose }: { onClose?: () => void }) {
+  const { t } = useTranslation('settings');
+  const navigate = useNavigate();
+  const loadTasks = useTaskStore((state) => state.loadTasks);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReplay = useCallback(async () => {
+    setError(null);
+    try {
+      const task = await getAccomplish().replayRecording();
+      if (task) {
+        void loadTasks();
+        onClose?.();
+        navigate(`/execution/${task.id}`);
+      }
+    } catch (err) {
+      console.error('Failed to replay recording:', err);
+      setError(err instanceof Error ? err.message : t('developer.replayFailed'));
+    }
+  }, [loadTasks, navigate, onClose, t]);
+
+  return (
+    <div className="mt-3 flex items-center gap-3">
+      <button
+        onClick={handleReplay}
+        data-testid="settings-replay-recording"
+        className="rounded-md border border-border px-3 py-1.5 text-sm text-foreground hover:bg-muted transition-colors"
+      >
+        {t('developer.replayRecording')}
+      </button>
+      <p className="flex-1 text-xs text-muted-foreground">
+        {error ?? t('developer.replayDescription')}
+      </p>
+    </div>
+  );
+}
+
+export function DebugSection({ debugMode, onDebugToggle, onClose }: DebugSectionProps) {
   const { t } = useTranslation('settings');
   const [exportStatus, setExportStatus] = useState<'idle' | 'exporting' | 'success' | 'error'>(
     'idle',
@@ -113,6 +153,7 @@ export function DebugSection({ debugMode, onDebugToggle }: DebugSectionProps) {
           <p className="text-sm text-warning">{t('developer.debugEnabled')}</p>
         </div>
       )}
+      {debugMode && <ReplayRecordingButton onClose={onClose} />}
     </div>
   );
 }
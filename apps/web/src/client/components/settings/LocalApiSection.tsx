@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { LocalApiStatus, UpdateLocalApiSettingsInput } from '@accomplish_ai/agent-core/common';
+import { getAccomplish } from '@/lib/accomplish';
+
+export function LocalApiSection() {
+  const { t } = useTranslation('settings');
+  const [status, setStatus] = useState<LocalApiStatus | null>(null);
+  const [port, setPort] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const accomplish = getAccomplish();
+
+  const applyStatus = useCallback((next: LocalApiStatus) => {
+    setStatus(next);
+    setPort(String(next.settings.port));
+  }, []);
+
+  useEffect(() => {
+    accomplish
+      .getLocalApiStatus()
+      .then(applyStatus)
+      .catch((err) => console.error('Failed to load local API settings:', err));
+  }, [accomplish, applyStatus]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const update = useCallback(
+    async (input: UpdateLocalApiSettingsInput) => {
+      setError(null);
+      try {
+        applyStatus(await accomplish.updateLocalApiSettings(input));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : t('localApi.saveFailed'));
+      }
+    },
+    [accomplish, applyStatus, t],
+  );
+
+  const handlePortBlur = useCallback(() => {
+    const value = Number(port);
+    if (status && value !== status.settings.port) {
+      void update({ port: value });
+    }
+  }, [port, status, update]);
+
+  const handleRegenerate = useCallback(async () => {
+    setError(null);
+    try {
+      applyStatus(await accomplish.regenerateLocalApiToken());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('localApi.saveFailed'));
+    }
+  }, [accomplish, applyStatus, t]);
+
+  const handleCopyToken = async () => {
+    if (!status) return;
+    try {
+      await navigator.clipboard.writeText(status.settings.token);
+      setCopied(true);
+    } catch {
+      // clipboard write may fail in non-secure contexts
+    }
+  };
+
+  if (!status) {
+    return null;
+  }
+
+  const { enabled, token } = status.settings;
+  const statusMessage = status.error ?? error;
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-5">
+      <div className="flex items-center justify-between">
+        <div className="flex-1">
+          <div className="font-medium text-foreground">{t('localApi.title')}</div>
+          <p className="mt-1.5 text-sm text-muted-foreground leading-relaxed">
+            {t('localApi.description')}
+          </p>
+        </div>
+        <button
+          data-testid="settings-local-api-toggle"
+          onClick={() => void update({ enabled: !enabled })}
+          className={`ml-4 relative inline-flex h-6 w-11 items-center rounded-full transition-colors duration-200 ease-accomplish ${
+            enabled ? 'bg-primary' : 'bg-muted'
+          }`}
+        >
+          <span
+            className={`inline-block h-4 w-4 transform rounded-full bg-white shadow-sm transition-transform duration-200 ease-accomplish ${
+              enabled ? 'translate-x-6' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+      {enabled && (
+        <div className="mt-4 space-y-3">
+          <div className="grid grid-cols-[8rem_1fr] gap-4">
+            <label className="text-sm text-foreground">
+              {t('localApi.port')}
+              <input
+                type="number"
+                min={1024}
+                max={65535}
+                value={port}
+                onChange={(e) => setPort(e.target.value)}
+                onBlur={handlePortBlur}
+                data-testid="settings-local-api-port"
+                className="mt-1.5 w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm"
+              />
+            </label>
+            <div className="text-sm text-foreground">
+              {t('localApi.token')}
+              <div className="mt-1.5 flex items-center gap-3">
+                <code className="flex-1 truncate rounded-md bg-muted px-3 py-1.5 text-xs">
+                  {token}
+                </code>
+                <button
+                  onClick={handleCopyToken}
+                  className="text-xs text-muted-foreground hover:text-foreground"
+                >
+                  {copied ? t('localApi.copied') : t('localApi.copyToken')}
+                </button>
+                <button
+                  onClick={() => void handleRegenerate()}
+                  data-testid="settings-local-api-regenerate"
+                  className="text-xs text-muted-foreground hover:text-foreground"
+                >
+                  {t('localApi.regenerateToken')}
+                </button>
+              </div>
+            </div>
+          </div>
+          <p
+            className={`text-xs ${statusMessage ? 'text-destructive' : 'text-muted-foreground'}`}
+            data-testid="settings-local-api-status"
+          >
+            {statusMessage ??
+              (status.running
+                ? t('localApi.running', { url: `http://127.0.0.1:${status.settings.port}/v1` })
+                : t('localApi.stopped'))}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type {
+  PermissionAuditEntry,
+  PermissionAuditExportFormat,
+} from '@accomplish_ai/agent-core/common';
+import { getAccomplish } from '@/lib/accomplish';
+
+const RECENT_LIMIT = 50;
+
+const OUTCOME_CLASSES: Record<PermissionAuditEntry['outcome'], string> = {
+  allowed: 'text-green-600',
+  denied: 'text-destructive',
+  'timed-out': 'text-amber-600',
+};
+
+export function PermissionAuditSection() {
+  const { t } = useTranslation('settings');
+  const [entries, setEntries] = useState<PermissionAuditEntry[]>([]);
+  const [exportStatus, setExportStatus] = useState<'idle' | 'exporting' | 'success' | 'error'>(
+    'idle',
+  );
+  const accomplish = getAccomplish();
+
+  useEffect(() => {
+    accomplish
+      .listPermissionAudit(undefined, RECENT_LIMIT)
+      .then(setEntries)
+      .catch((err) => console.error('Failed to load permission audit:', err));
+  }, [accomplish]);
+
+  const handleExport = useCallback(
+    async (format: PermissionAuditExportFormat) => {
+      setExportStatus('exporting');
+      try {
+        const result = await accomplish.exportPermissionAudit(format);
+        if (result.success) {
+          setExportStatus('success');
+          setTimeout(() => setExportStatus('idle'), 2000);
+        } else if (result.reason === 'cancelled') {
+          setExportStatus('idle');
+        } else {
+          console.error('Failed to export permission audit:', result.error);
+          setExportStatus('error');
+          setTimeout(() => setExportStatus('idle'), 3000);
+        }
+      } catch (error) {
+        console.error('Export permission audit error:', error);
+        setExportStatus('error');
+        setTimeout(() => setExportStatus('idle'), 3000);
+      }
+    },
+    [accomplish],
+  );
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-5">
+      <div className="flex items-center justify-between">
+        <div className="flex-1">
+          <div className="font-medium text-foreground">{t('permissionAudit.title')}</div>
+          <p className="mt-1.5 text-sm text-muted-foreground leading-relaxed">
+            {t('permissionAudit.description')}
+          </p>
+        </div>
+        <div className="ml-4 flex items-center gap-3">
+          {exportStatus === 'success' && (
+            <span className="text-xs text-green-600">{t('permissionAudit.exported')}</span>
+          )}
+          {exportStatus === 'error' && (
+            <span className="text-xs text-destructive">{t('permissionAudit.exportFailed')}</span>
+          )}
+          <button
+            onClick={() => void handleExport('csv')}
+            disabled={exportStatus === 'exporting'}
+            data-testid="settings-permission-audit-export-csv"
+            className="text-xs text-primary hover:underline disabled:opacity-50"
+          >
+            {t('permissionAudit.exportCsv')}
+          </button>
+          <button
+            onClick={() => void handleExport('json')}
+            disabled={exportStatus === 'exporting'}
+            data-testid="settings-permission-audit-export-json"
+            className="text-xs text-primary hover:underline disabled:opacity-50"
+          >
+            {t('permissionAudit.exportJson')}
+          </button>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="mt-4 text-xs text-muted-foreground">{t('permissionAudit.empty')}</p>
+      ) : (
+        <ul className="mt-4 max-h-64 space-y-1.5 overflow-y-auto">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex items-center gap-3 text-sm">
+              <span className="shrink-0 text-xs text-muted-foreground">
+                {new Date(entry.respondedAt).toLocaleString()}
+              </span>
+              <span className={`shrink-0 text-xs font-medium ${OUTCOME_CLASSES[entry.outcome]}`}>
+                {t(`permissionAudit.outcomes.${entry.outcome}`)}
+              </span>
+              <code
+                className="flex-1 truncate rounded-md bg-muted px-3 py-1.5 text-xs"
+                title={entry.question ?? entry.filePaths.join('\n')}
+              >
+                {entry.requestType === 'question'
+                  ? entry.question
+                  : `${entry.fileOperation ?? entry.toolName ?? ''} ${entry.filePaths.join(', ')}`}
+                {entry.approvedPaths &&
+                  ` · ${t('permissionAudit.partial', {
+                    approved: entry.approvedPaths.length,
+                    total: entry.filePaths.length,
+                  })}`}
+              </code>
+              <span className="max-w-[10rem] shrink-0 truncate text-xs text-muted-foreground">
+                {entry.decidedBy
+                  ? t(`permissionAudit.deciders.${entry.decidedBy}`)
+                  : t('permissionAudit.noAnswer')}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FILE_OPERATIONS } from '@accomplish_ai/agent-core/common';
+import type {
+  FileOperation,
+  PermissionRule,
+  PermissionRuleInput,
+} from '@accomplish_ai/agent-core/common';
+import { getAccomplish } from '@/lib/accomplish';
+
+const EMPTY_DRAFT: PermissionRuleInput = { decision: 'allow', scope: 'global' };
+
+export function PermissionRulesSection() {
+  const { t } = useTranslation('settings');
+  const [rules, setRules] = useState<PermissionRule[]>([]);
+  const [draft, setDraft] = useState<PermissionRuleInput | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const accomplish = getAccomplish();
+
+  const load = useCallback(() => {
+    accomplish
+      .listPermissionRules()
+      .then(setRules)
+      .catch((err) => console.error('Failed to load permission rules:', err));
+  }, [accomplish]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handlePickDirectory = useCallback(async () => {
+    if (!draft) return;
+    try {
+      const directory = await accomplish.pickProjectDirectory();
+      if (directory) {
+        setDraft({ ...draft, workingDirectory: directory });
+      }
+    } catch (err) {
+      console.error('Failed to pick a project folder:', err);
+    }
+  }, [accomplish, draft]);
+
+  const handleSave = useCallback(async () => {
+    if (!draft) return;
+    setError(null);
+    try {
+      await accomplish.savePermissionRule(draft);
+      setDraft(null);
+      load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('permissionRules.saveFailed'));
+    }
+  }, [accomplish, draft, load, t]);
+
+  const handleDelete = useCallback(
+    async (id: string) => {
+      try {
+        await accomplish.deletePermissionRule(id);
+        load();
+      } catch (err) {
+        console.error('Failed to delete permission rule:', err);
+      }
+    },
+    [accomplish, load],
+  );
+
+  const describeScope = (rule: PermissionRule) => {
+    switch (rule.scope) {
+      case 'task':
+        return t('permissionRules.scopeTask', { taskId: rule.taskId });
+      case 'project':
+        return t('permissionRules.scopeProject', { folder: rule.workingDirectory });
+      default:
+        return t('permissionRules.scopes.global');
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-5">
+      <div className="flex items-center justify-between">
+        <div className="flex-1">
+          <div className="font-medium text-foreground">{t('permissionRules.title')}</div>
+          <p className="mt-1.5 text-sm text-muted-foreground leading-relaxed">
+            {t('permissionRules.description')}
+          </p>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => setDraft(EMPTY_DRAFT)}
+            data-testid="settings-permission-rules-add"
+            className="ml-4 text-xs text-primary hover:underline"
+          >
+            {t('permissionRules.add')}
+          </button>
+        )}
+      </div>
+
+      {rules.length > 0 && (
+        <ul className="mt-4 space-y-1.5">
+          {rules.map((rule) => (
+            <li key={rule.id} className="flex items-center gap-3 text-sm">
+              <span
+                className={
+                  rule.decision === 'allow'
+                    ? 'text-xs font-medium text-green-600'
+                    : 'text-xs font-medium text-destructive'
+                }
+              >
+                {t(`permissionRules.decisions.${rule.decision}`)}
+              </span>
+              <span className="text-xs text-foreground">
+                {rule.operation
+                  ? t(`permissionRules.operations.${rule.operation}`)
+                  : t('permissionRules.anyOperation')}
+              </span>
+              <code className="flex-1 truncate rounded-md bg-muted px-3 py-1.5 text-xs">
+                {rule.pathGlob ?? t('permissionRules.anyPath')}
+                {rule.toolName && ` · ${rule.toolName}`}
+              </code>
+              <span className="max-w-[12rem] truncate text-xs text-muted-foreground">
+                {describeScope(rule)}
+              </span>
+              <button
+                onClick={() => void handleDelete(rule.id)}
+                className="text-xs text-muted-foreground hover:text-foreground"
+              >
+                {t('permissionRules.delete')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft && (
+        <div className="mt-4 space-y-3" data-testid="settings-permission-rule-form">
+          <div className="grid grid-cols-3 gap-4">
+            <label className="text-sm text-foreground">
+              {t('permissionRules.decision')}
+              <select
+                value={draft.decision}
+                onChange={(e) =>
+                  setDraft({ ...draft, decision: e.target.value as PermissionRule['decision'] })
+                }
+                className="mt-1.5 w-full rounded-md border border-input bg-background px-2 py-1.5 text-sm"
+              >
+                <option value="allow">{t('permissionRules.decisions.allow')}</option>
+                <option value="deny">{t('permissionRules.decisions.deny')}</option>
+              </select>
+            </label>
+            <label className="text-sm text-foreground">
+              {t('permissionRules.operation')}
+              <select
+                value={draft.operation ?? ''}
+                onChange={(e) =>
+                  setDraft({
+                    ...draft,
+                    operation: (e.target.value || undefined) as FileOperation | undefined,
+                  })
+                }
+                className="mt-1.5 w-full rounded-md border border-input bg-background px-2 py-1.5 text-sm"
+              >
+                <option value="">{t('permissionRules.anyOperation')}</option>
+                {FILE_OPERATIONS.map((operation) => (
+                  <option key={operation} value={operation}>
+                    {t(`permissionRules.operations.${operation}`)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-foreground">
+              {t('permissionRules.scope')}
+              <select
+                value={draft.scope}
+                onChange={(e) =>
+                  setDraft({
+                    ...draft,
+                    scope: e.target.value as 'global' | 'project',
+                    workingDirectory: undefined,
+                  })
+                }
+                className="mt-1.5 w-full rounded-md border border-input bg-background px-2 py-1.5 text-sm"
+              >
+                <option value="global">{t('permissionRules.scopes.global')}</option>
+                <option value="project">{t('permissionRules.scopes.project')}</option>
+              </select>
+            </label>
+          </div>
+
+          <div className="grid grid-cols-[1fr_12rem] gap-4">
+            <label className="text-sm text-foreground">
+              {t('permissionRules.pathGlob')}
+              <input
+                value={draft.pathGlob ?? ''}
+                onChange={(e) => setDraft({ ...draft, pathGlob: e.target.value })}
+                placeholder="/Users/me/Projects/site/**"
+                className="mt-1.5 w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm font-mono"
+              />
+            </label>
+            <label className="text-sm text-foreground">
+              {t('permissionRules.toolName')}
+              <input
+                value={draft.toolName ?? ''}
+                onChange={(e) => setDraft({ ...draft, toolName: e.target.value })}
+                placeholder="Write"
+                className="mt-1.5 w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm"
+              />
+            </label>
+          </div>
+          <p className="text-xs text-muted-foreground">{t('permissionRules.pathGlobHint')}</p>
+
+          {draft.scope === 'project' && (
+            <div className="flex items-center gap-3 text-sm">
+              <code className="flex-1 truncate rounded-md bg-muted px-3 py-1.5 text-xs">
+                {draft.workingDirectory || t('permissionRules.noFolder')}
+              </code>
+              <button
+                onClick={() => void handlePickDirectory()}
+                className="text-xs text-muted-foreground hover:text-foreground"
+              >
+                {t('permissionRules.chooseFolder')}
+              </button>
+            </div>
+          )}
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+
+          <div className="flex gap-3">
+            <button
+              onClick={() => void handleSave()}
+              disabled={draft.scope === 'project' && !draft.workingDirectory}
+              data-testid="settings-permission-rule-save"
+              className="rounded-md bg-primary px-3 py-1.5 text-xs text-primary-foreground disabled:opacity-50"
+            >
+              {t('permissionRules.save')}
+            </button>
+            <button
+              onClick={() => {
+                setDraft(null);
+                setError(null);
+              }}
+              className="text-xs text-muted-foreground hover:text-foreground"
+            >
+              {t('permissionRules.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type {
+  ProjectProfile,
+  ProjectProfileInput,
+  VerificationCheck,
+  VerificationCheckType,
+} from '@accomplish_ai/agent-core/common';
+import { getAccomplish } from '@/lib/accomplish';
+
+const CHECK_TYPES: VerificationCheckType[] = ['command', 'file-exists', 'url-status'];
+
+interface ProfileDraft extends ProjectProfileInput {
+  id?: string;
+}
+
+function getCheckValue(check: VerificationCheck): string {
+  switch (check.type) {
+    case 'command':
+      return check.command;
+    case 'file-exists':
+      return check.path;
+    case 'url-status':
+      return check.url;
+  }
+}
+
+function createCheck(type: VerificationCheckType, value: string): VerificationCheck {
+  switch (type) {
+    case 'command':
+      return { type, command: value };
+    case 'file-exists':
+      return { type, path: value };
+    case 'url-status':
+      return { type, url: value };
+  }
+}
+
+export function ProjectProfilesSection() {
+  const { t } = useTranslation('settings');
+  const [profiles, setProfiles] = useState<ProjectProfile[]>([]);
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const accomplish = getAccomplish();
+
+  const load = useCallback(() => {
+    accomplish
+      .listProjectProfiles()
+      .then(setProfiles)
+      .catch((err) => console.error('Failed to load project profiles:', err));
+  }, [accomplish]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handlePickDirectory = useCallback(async () => {
+    if (!draft) return;
+    try {
+      const directory = await accomplish.pickProjectDirectory();
+      if (directory) {
+        setDraft({ ...draft, workingDirectory: directory });
+      }
+    } catch (err) {
+      console.error('Failed to pick a project folder:', err);
+    }
+  }, [accomplish, draft]);
+
+  const handleSave = useCallback(async () => {
+    if (!draft) return;
+    setError(null);
+    try {
+      const { id, ...input } = draft;
+      await accomplish.saveProjectProfile(
+        {
+          ...input,
+          verifications: input.verifications.filter((check) => getCheckValue(check).trim()),
+        },
+        id,
+      );
+      setDraft(null);
+      load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('projectProfiles.saveFailed'));
+    }
+  }, [accomplish, draft, load, t]);
+
+  const handleDelete = useCallback(
+    async (id: string) => {
+      try {
+        await accomplish.deleteProjectProfile(id);
+        load();
+      } catch (err) {
+        console.error('Failed to delete project profile:', err);
+      }
+    },
+    [accomplish, load],
+  );
+
+  const updateCheck = (index: number, check: VerificationCheck) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      verifications: draft.verifications.map((existing, i) => (i === index ? check : existing)),
+    });
+  };
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-5">
+      <div className="flex items-center justify-between">
+        <div className="flex-1">
+          <div className="font-medium text-foreground">{t('projectProfiles.title')}</div>
+          <p className="mt-1.5 text-sm text-muted-foreground leading-relaxed">
+            {t('projectProfiles.description')}
+          </p>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => setDraft({ name: '', workingDirectory: '', verifications: [] })}
+            data-testid="settings-project-profiles-add"
+            className="ml-4 text-xs text-primary hover:underline"
+          >
+            {t('projectProfiles.add')}
+          </button>
+        )}
+      </div>
+
+      {profiles.length > 0 && (
+        <ul className="mt-4 space-y-1.5">
+          {profiles.map((profile) => (
+            <li key={profile.id} className="flex items-center gap-3 text-sm">
+              <span className="font-medium text-foreground">{profile.name}</span>
+              <code className="flex-1 truncate rounded-md bg-muted px-3 py-1.5 text-xs">
+                {profile.workingDirectory}
+              </code>
+              <span className="text-xs text-muted-foreground">
+                {t('projectProfiles.checkCount', { count: profile.verifications.length })}
+              </span>
+              <button
+                onClick={() => setDraft({ ...profile })}
+                className="text-xs text-muted-foreground hover:text-foreground"
+              >
+                {t('projectProfiles.edit')}
+              </button>
+              <button
+                onClick={() => void handleDelete(profile.id)}
+                className="text-xs text-muted-foreground hover:text-foreground"
+              >
+                {t('projectProfiles.delete')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft && (
+        <div className="mt-4 space-y-3" data-testid="settings-project-profile-form">
+          <div className="grid grid-cols-[12rem_1fr] gap-4">
+            <label className="text-sm text-foreground">
+              {t('projectProfiles.name')}
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="mt-1.5 w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm"
+              />
+            </label>
+            <div className="text-sm text-foreground">
+              {t('projectProfiles.folder')}
+              <div className="mt-1.5 flex items-center gap-3">
+                <code className="flex-1 truncate rounded-md bg-muted px-3 py-1.5 text-xs">
+                  {draft.workingDirectory || t('projectProfiles.noFolder')}
+                </code>
+                <button
+                  onClick={() => void handlePickDirectory()}
+                  className="text-xs text-muted-foreground hover:text-foreground"
+                >
+                  {t('projectProfiles.chooseFolder')}
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="text-sm text-foreground">
+            {t('projectProfiles.checks')}
+            <p className="mt-1 text-xs text-muted-foreground">{t('projectProfiles.checksHint')}</p>
+            <ul className="mt-2 space-y-1.5">
+              {draft.verifications.map((check, index) => (
+                <li key={index} className="flex items-center gap-3">
+                  <select
+                    value={check.type}
+                    onChange={(e) =>
+                      updateCheck(
+                        index,
+                        createCheck(e.target.value as VerificationCheckType, getCheckValue(check)),
+                      )
+                    }
+                    className="rounded-md border border-input bg-background px-2 py-1.5 text-sm"
+                  >
+                    {CHECK_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {t(`projectProfiles.checkTypes.${type}`)}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    value={getCheckValue(check)}
+                    onChange={(e) => updateCheck(index, createCheck(check.type, e.target.value))}
+                    placeholder={t(`projectProfiles.placeholders.${check.type}`)}
+                    className="flex-1 rounded-md border border-input bg-background px-3 py-1.5 text-sm font-mono"
+                  />
+                  <button
+                    onClick={() =>
+                      setDraft({
+                        ...draft,
+                        verifications: draft.verifications.filter((_, i) => i !== index),
+                      })
+                    }
+                    className="text-xs text-muted-foreground hover:text-foreground"
+                  >
+                    {t('projectProfiles.removeCheck')}
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={() =>
+                setDraft({
+                  ...draft,
+                  verifications: [...draft.verifications, createCheck('command', '')],
+                })
+              }
+              className="mt-2 text-xs text-primary hover:underline"
+            >
+              {t('projectProfiles.addCheck')}
+            </button>
+          </div>
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+
+          <div className="flex gap-3">
+            <button
+              onClick={() => void handleSave()}
+              disabled={!draft.name.trim() || !draft.workingDirectory}
+              data-testid="settings-project-profile-save"
+              className="rounded-md bg-primary px-3 py-1.5 text-xs text-primary-foreground disabled:opacity-50"
+            >
+              {t('projectProfiles.save')}
+            </button>
+            <button
+              onClick={() => {
+                setDraft(null);
+                setError(null);
+              }}
+              className="text-xs text-muted-foreground hover:text-foreground"
+            >
+              {t('projectProfiles.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { SandboxMode, SandboxSettings } from '@accomplish_ai/agent-core/common';
+import { getAccomplish } from '@/lib/accomplish';
+
+const MODES: SandboxMode[] = ['reject', 'warn'];
+
+export function SandboxSection() {
+  const { t } = useTranslation('settings');
+  const [settings, setSettings] = useState<SandboxSettings | null>(null);
+  const accomplish = getAccomplish();
+
+  useEffect(() => {
+    accomplish
+      .getSandboxSettings()
+      .then(setSettings)
+      .catch((error) => console.error('Failed to load sandbox settings:', error));
+  }, [accomplish]);
+
+  const save = useCallback(
+    (next: SandboxSettings) => {
+      setSettings(next);
+      accomplish
+        .setSandboxSettings(next)
+        .catch((error) => console.error('Failed to save sandbox settings:', error));
+    },
+    [accomplish],
+  );
+
+  const handleAddRoot = useCallback(async () => {
+    if (!settings) return;
+    try {
+      const root = await accomplish.pickSandboxRoot();
+      if (root && !settings.allowedRoots.includes(root)) {
+        save({ ...settings, allowedRoots: [...settings.allowedRoots, root] });
+      }
+    } catch (error) {
+      console.error('Failed to pick a sandbox folder:', error);
+    }
+  }, [accomplish, save, settings]);
+
+  if (!settings) {
+    return null;
+  }
+
+  const { enabled, mode, allowedRoots } = settings;
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-5">
+      <div className="flex items-center justify-between">
+        <div className="flex-1">
+          <div className="font-medium text-foreground">{t('sandbox.title')}</div>
+          <p className="mt-1.5 text-sm text-muted-foreground leading-relaxed">
+            {t('sandbox.description')}
+          </p>
+        </div>
+        <button
+          data-testid="settings-sandbox-toggle"
+          onClick={() => save({ ...settings, enabled: !enabled })}
+          className={`ml-4 relative inline-flex h-6 w-11 items-center rounded-full transition-colors duration-200 ease-accomplish ${
+            enabled ? 'bg-primary' : 'bg-muted'
+          }`}
+        >
+          <span
+            className={`inline-block h-4 w-4 transform rounded-full bg-white shadow-sm transition-transform duration-200 ease-accomplish ${
+              enabled ? 'translate-x-6' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+      {enabled && (
+        <div className="mt-4 space-y-4">
+          <label className="block text-sm text-foreground">
+            {t('sandbox.mode')}
+            <select
+              value={mode}
+              onChange={(e) => save({ ...settings, mode: e.target.value as SandboxMode })}
+              data-testid="settings-sandbox-mode"
+              className="mt-1.5 w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm"
+            >
+              {MODES.map((value) => (
+                <option key={value} value={value}>
+                  {t(`sandbox.modes.${value}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="text-sm text-foreground">
+            {t('sandbox.allowedRoots')}
+            <p className="mt-1 text-xs text-muted-foreground">{t('sandbox.allowedRootsHint')}</p>
+            <ul className="mt-2 space-y-1.5">
+              {allowedRoots.map((root) => (
+                <li key={root} className="flex items-center gap-3">
+                  <code className="flex-1 truncate rounded-md bg-muted px-3 py-1.5 text-xs">
+                    {root}
+                  </code>
+                  <button
+                    onClick={() =>
+                      save({
+                        ...settings,
+                        allowedRoots: allowedRoots.filter((existing) => existing !== root),
+                      })
+                    }
+                    className="text-xs text-muted-foreground hover:text-foreground"
+                  >
+                    {t('sandbox.removeRoot')}
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={() => void handleAddRoot()}
+              data-testid="settings-sandbox-add-root"
+              className="mt-2 text-xs text-primary hover:underline"
+            >
+              {t('sandbox.addRoot')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
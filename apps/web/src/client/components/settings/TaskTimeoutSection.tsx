@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { TaskTimeoutLimits } from '@accomplish_ai/agent-core/common';
+import { getAccomplish } from '@/lib/accomplish';
+
+const MS_PER_MINUTE = 60_000;
+
+type TimeoutField = keyof TaskTimeoutLimits;
+
+function toMinutes(ms: number | undefined): string {
+  return ms ? String(Math.round(ms / MS_PER_MINUTE)) : '';
+}
+
+/** Empty or non-positive input means no limit */
+function toMs(minutes: string): number | undefined {
+  const value = Number(minutes);
+  return Number.isFinite(value) && value > 0 ? Math.round(value * MS_PER_MINUTE) : undefined;
+}
+
+export function TaskTimeoutSection() {
+  const { t } = useTranslation('settings');
+  const [values, setValues] = useState<Record<TimeoutField, string>>({
+    maxDurationMs: '',
+    maxIdleMs: '',
+  });
+  const accomplish = getAccomplish();
+
+  useEffect(() => {
+    accomplish
+      .getTaskTimeouts()
+      .then((limits) =>
+        setValues({
+          maxDurationMs: toMinutes(limits.maxDurationMs),
+          maxIdleMs: toMinutes(limits.maxIdleMs),
+        }),
+      )
+      .catch((error) => console.error('Failed to load task timeouts:', error));
+  }, [accomplish]);
+
+  const handleSave = useCallback(() => {
+    accomplish
+      .setTaskTimeouts({
+        maxDurationMs: toMs(values.maxDurationMs),
+        maxIdleMs: toMs(values.maxIdleMs),
+      })
+      .catch((error) => console.error('Failed to save task timeouts:', error));
+  }, [accomplish, values]);
+
+  const fields: { key: TimeoutField; label: string }[] = [
+    { key: 'maxDurationMs', label: t('taskTimeouts.maxDuration') },
+    { key: 'maxIdleMs', label: t('taskTimeouts.maxIdle') },
+  ];
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-5">
+      <div className="font-medium text-foreground">{t('taskTimeouts.title')}</div>
+      <p className="mt-1.5 text-sm text-muted-foreground leading-relaxed">
+        {t('taskTimeouts.description')}
+      </p>
+      <div className="mt-4 grid grid-cols-2 gap-4">
+        {fields.map(({ key, label }) => (
+          <label key={key} className="text-sm text-foreground">
+            {label}
+            <input
+              type="number"
+              min={0}
+              value={values[key]}
+              onChange={(e) => setValues((prev) => ({ ...prev, [key]: e.target.value }))}
+              onBlur={handleSave}
+              placeholder={t('taskTimeouts.noLimit')}
+              data-testid={`settings-task-timeout-${key}`}
+              className="mt-1.5 w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
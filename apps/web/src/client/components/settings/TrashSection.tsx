@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { TrashEntry, TrashSettings } from '@accomplish_ai/agent-core/common';
+import { getAccomplish } from '@/lib/accomplish';
+import { formatBytes } from '@/lib/utils';
+
+const MAX_RETENTION_DAYS = 365;
+
+export function TrashSection() {
+  const { t } = useTranslation('settings');
+  const [settings, setSettings] = useState<TrashSettings | null>(null);
+  const [retention, setRetention] = useState('');
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [failedId, setFailedId] = useState<string | null>(null);
+  const accomplish = getAccomplish();
+
+  const loadEntries = useCallback(() => {
+    accomplish
+      .listTrash()
+      .then(setEntries)
+      .catch((error) => console.error('Failed to load trash:', error));
+  }, [accomplish]);
+
+  useEffect(() => {
+    accomplish
+      .getTrashSettings()
+      .then((loaded) => {
+        setSettings(loaded);
+        setRetention(String(loaded.retentionDays));
+      })
+      .catch((error) => console.error('Failed to load trash settings:', error));
+    loadEntries();
+  }, [accomplish, loadEntries]);
+
+  const save = useCallback(
+    (next: TrashSettings) => {
+      setSettings(next);
+      setRetention(String(next.retentionDays));
+      accomplish
+        .setTrashSettings(next)
+        .catch((error) => console.error('Failed to save trash settings:', error));
+    },
+    [accomplish],
+  );
+
+  const handleRetentionBlur = useCallback(() => {
+    if (!settings) return;
+    const days = Number(retention);
+    if (Number.isInteger(days) && days >= 1 && days <= MAX_RETENTION_DAYS) {
+      save({ ...settings, retentionDays: days });
+    } else {
+      setRetention(String(settings.retentionDays));
+    }
+  }, [retention, save, settings]);
+
+  const handleRestore = useCallback(
+    async (id: string) => {
+      setFailedId(null);
+      try {
+        await accomplish.restoreTrashEntry(id);
+      } catch (error) {
+        console.error('Failed to restore from trash:', error);
+        setFailedId(id);
+      }
+      loadEntries();
+    },
+    [accomplish, loadEntries],
+  );
+
+  const handleDelete = useCallback(
+    async (id: string) => {
+      try {
+        await accomplish.deleteTrashEntry(id);
+      } catch (error) {
+        console.error('Failed to delete from trash:', error);
+      }
+      loadEntries();
+    },
+    [accomplish, loadEntries],
+  );
+
+  if (!settings) {
+    return null;
+  }
+
+  const { enabled } = settings;
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-5">
+      <div className="flex items-center justify-between">
+        <div className="flex-1">
+          <div className="font-medium text-foreground">{t('trash.title')}</div>
+          <p className="mt-1.5 text-sm text-muted-foreground leading-relaxed">
+            {t('trash.description')}
+          </p>
+        </div>
+        <button
+          data-testid="settings-trash-toggle"
+          onClick={() => save({ ...settings, enabled: !enabled })}
+          className={`ml-4 relative inline-flex h-6 w-11 items-center rounded-full transition-colors duration-200 ease-accomplish ${
+            enabled ? 'bg-primary' : 'bg-muted'
+          }`}
+        >
+          <span
+            className={`inline-block h-4 w-4 transform rounded-full bg-white shadow-sm transition-transform duration-200 ease-accomplish ${
+              enabled ? 'translate-x-6' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+
+      <label className="mt-4 block text-sm text-foreground">
+        {t('trash.retentionDays')}
+        <input
+          type="number"
+          min={1}
+          max={MAX_RETENTION_DAYS}
+          value={retention}
+          onChange={(e) => setRetention(e.target.value)}
+          onBlur={handleRetentionBlur}
+          data-testid="settings-trash-retention"
+          className="mt-1.5 w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm"
+        />
+      </label>
+
+      {entries.length === 0 ? (
+        <p className="mt-4 text-xs text-muted-foreground">{t('trash.empty')}</p>
+      ) : (
+        <ul className="mt-4 max-h-64 space-y-1.5 overflow-y-auto">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex items-center gap-3 text-sm">
+              <span className="shrink-0 text-xs text-muted-foreground">
+                {new Date(entry.trashedAt).toLocaleString()}
+              </span>
+              <span className="shrink-0 text-xs font-medium">
+                {t(`trash.reasons.${entry.reason}`)}
+              </span>
+              <code
+                className="flex-1 truncate rounded-md bg-muted px-3 py-1.5 text-xs"
+                title={entry.originalPath}
+              >
+                {entry.originalPath}
+              </code>
+              <span className="shrink-0 text-xs text-muted-foreground">
+                {formatBytes(entry.sizeBytes)}
+              </span>
+              {failedId === entry.id && (
+                <span className="shrink-0 text-xs text-destructive">
+                  {t('trash.restoreFailed')}
+                </span>
+              )}
+              <button
+                onClick={() => void handleRestore(entry.id)}
+                data-testid={`settings-trash-restore-${entry.id}`}
+                className="text-xs text-primary hover:underline"
+              >
+                {t('trash.restore')}
+              </button>
+              <button
+                onClick={() => void handleDelete(entry.id)}
+                className="text-xs text-muted-foreground hover:text-foreground"
+              >
+                {t('trash.delete')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
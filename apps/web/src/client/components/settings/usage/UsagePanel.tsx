@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { UsageGroupBy } from '@accomplish_ai/agent-core/common';
+import { cn } from '@/lib/utils';
+import { useUsage, type UsageRange } from './useUsage';
+
+const RANGES: Array<{ id: UsageRange; labelKey: string }> = [
+  { id: '7d', labelKey: 'usage.range.last7Days' },
+  { id: '30d', labelKey: 'usage.range.last30Days' },
+  { id: 'all', labelKey: 'usage.range.allTime' },
+];
+
+const GROUPINGS: Array<{ id: UsageGroupBy; labelKey: string }> = [
+  { id: 'day', labelKey: 'usage.groupBy.day' },
+  { id: 'provider', labelKey: 'usage.groupBy.provider' },
+  { id: 'model', labelKey: 'usage.groupBy.model' },
+];
+
+function formatTokens(value: number): string {
+  return value.toLocaleString();
+}
+
+/** Show sub-dollar amounts with enough precision to reconcile small tasks */
+function formatCost(value: number): string {
+  return `$${value.toFixed(value > 0 && value < 1 ? 4 : 2)}`;
+}
+
+function SegmentedControl<T extends string>({
+  options,
+  value,
+  onChange,
+  testId,
+}: {
+  options: Array<{ id: T; label: string }>;
+  value: T;
+  onChange: (value: T) => void;
+  testId: string;
+}) {
+  return (
+    <div className="inline-flex rounded-md border border-border p-0.5" data-testid={testId}>
+      {options.map((option) => (
+        <button
+          key={option.id}
+          onClick={() => onChange(option.id)}
+          className={cn(
+            'rounded px-2.5 py-1 text-xs font-medium transition-colors',
+            value === option.id
+              ? 'bg-primary text-primary-foreground'
+              : 'text-muted-foreground hover:text-foreground',
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function UsagePanel() {
+  const { t } = useTranslation('settings');
+  const [range, setRange] = useState<UsageRange>('30d');
+  const [groupBy, setGroupBy] = useState<UsageGroupBy>('day');
+  const { totals, breakdown, tasks, loading, error } = useUsage(range, groupBy);
+
+  if (loading) {
+    return (
+      <div className="flex h-[300px] items-center justify-center">
+        <div className="text-sm text-muted-foreground">{t('usage.loading')}</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">{error}</div>
+    );
+  }
+
+  const summaryCards = totals
+    ? [
+        { label: t('usage.totals.cost'), value: formatCost(totals.costUsd) },
+        { label: t('usage.totals.inputTokens'), value: formatTokens(totals.inputTokens) },
+        {
+          label: t('usage.totals.outputTokens'),
+          value: formatTokens(totals.outputTokens + totals.reasoningTokens),
+        },
+        { label: t('usage.totals.cacheReadTokens'), value: formatTokens(totals.cacheReadTokens) },
+        { label: t('usage.totals.tasks'), value: formatTokens(totals.taskCount) },
+        { label: t('usage.totals.steps'), value: formatTokens(totals.steps) },
+      ]
+    : [];
+
+  return (
+    <div className="flex flex-col gap-5" data-testid="usage-panel">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">{t('usage.description')}</p>
+        <SegmentedControl
+          options={RANGES.map((option) => ({ id: option.id, label: t(option.labelKey) }))}
+          value={range}
+          onChange={setRange}
+          testId="usage-range"
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {summaryCards.map((card) => (
+          <div key={card.label} className="rounded-lg border border-border bg-card p-3">
+            <div className="text-xs text-muted-foreground">{card.label}</div>
+            <div className="mt-1 text-lg font-semibold text-foreground tabular-nums">
+              {card.value}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <section className="flex flex-col gap-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-foreground">{t('usage.breakdownTitle')}</h4>
+          <SegmentedControl
+            options={GROUPINGS.map((option) => ({ id: option.id, label: t(option.labelKey) }))}
+            value={groupBy}
+            onChange={setGroupBy}
+            testId="usage-group-by"
+          />
+        </div>
+        {breakdown.length > 0 ? (
+          <table className="w-full text-sm" data-testid="usage-breakdown">
+            <thead>
+              <tr className="border-b border-border text-left text-xs text-muted-foreground">
+                <th className="py-2 font-medium">{t(`usage.groupBy.${groupBy}`)}</th>
+                <th className="py-2 text-right font-medium">{t('usage.columns.tasks')}</th>
+                <th className="py-2 text-right font-medium">{t('usage.columns.input')}</th>
+                <th className="py-2 text-right font-medium">{t('usage.columns.output')}</th>
+                <th className="py-2 text-right font-medium">{t('usage.columns.cost')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {breakdown.map((row) => (
+                <tr key={row.key} className="border-b border-border/50 tabular-nums">
+                  <td className="py-2 text-foreground">{row.key}</td>
+                  <td className="py-2 text-right">{formatTokens(row.taskCount)}</td>
+                  <td className="py-2 text-right">{formatTokens(row.inputTokens)}</td>
+                  <td className="py-2 text-right">
+                    {formatTokens(row.outputTokens + row.reasoningTokens)}
+                  </td>
+                  <td className="py-2 text-right">{formatCost(row.costUsd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="flex h-[120px] items-center justify-center rounded-lg border border-dashed border-border text-sm text-muted-foreground">
+            {t('usage.empty')}
+          </div>
+        )}
+      </section>
+
+      {tasks.length > 0 && (
+        <section className="flex flex-col gap-2">
+          <h4 className="text-sm font-medium text-foreground">{t('usage.tasksTitle')}</h4>
+          <table className="w-full text-sm" data-testid="usage-tasks">
+            <thead>
+              <tr className="border-b border-border text-left text-xs text-muted-foreground">
+                <th className="py-2 font-medium">{t('usage.columns.task')}</th>
+                <th className="py-2 text-right font-medium">{t('usage.columns.steps')}</th>
+                <th className="py-2 text-right font-medium">{t('usage.columns.input')}</th>
+                <th className="py-2 text-right font-medium">{t('usage.columns.output')}</th>
+                <th className="py-2 text-right font-medium">{t('usage.columns.cost')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tasks.map((task) => (
+                <tr key={task.taskId} className="border-b border-border/50 tabular-nums">
+                  <td className="max-w-[260px] truncate py-2 text-foreground">
+                    {task.summary || task.prompt || (
+                      <span className="text-muted-foreground">{t('usage.deletedTask')}</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right">{formatTokens(task.steps)}</td>
+                  <td className="py-2 text-right">{formatTokens(task.inputTokens)}</td>
+                  <td className="py-2 text-right">
+                    {formatTokens(task.outputTokens + task.reasoningTokens)}
+                  </td>
+                  <td className="py-2 text-right">{formatCost(task.costUsd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { UsagePanel } from './UsagePanel';
@@ -0,0 +1,56 @@
+import { useState, useCallback, useEffect } from 'react';
+import type {
+  TaskUsageSummary,
+  UsageAggregate,
+  UsageGroupBy,
+  UsageTotals,
+} from '@accomplish_ai/agent-core/common';
+import { getAccomplish } from '@/lib/accomplish';
+
+export type UsageRange = '7d' | '30d' | 'all';
+
+const RANGE_DAYS: Record<UsageRange, number | null> = {
+  '7d': 7,
+  '30d': 30,
+  all: null,
+};
+
+function getRangeStart(range: UsageRange): string | undefined {
+  const days = RANGE_DAYS[range];
+  return days === null ? undefined : new Date(Date.now() - days * 86_400_000).toISOString();
+}
+
+export function useUsage(range: UsageRange, groupBy: UsageGroupBy) {
+  const [totals, setTotals] = useState<UsageTotals | null>(null);
+  const [breakdown, setBreakdown] = useState<UsageAggregate[]>([]);
+  const [tasks, setTasks] = useState<TaskUsageSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsage = useCallback(async () => {
+    try {
+      const accomplish = getAccomplish();
+      const query = { since: getRangeStart(range) };
+      const [totalsData, breakdownData, tasksData] = await Promise.all([
+        accomplish.getUsageTotals(query),
+        accomplish.getUsageBreakdown(groupBy, query),
+        accomplish.getUsageByTask(query),
+      ]);
+      setTotals(totalsData);
+      setBreakdown(breakdownData);
+      setTasks(tasksData);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load usage:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load usage');
+    } finally {
+      setLoading(false);
+    }
+  }, [range, groupBy]);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  return { totals, breakdown, tasks, loading, error, refresh: fetchUsage };
+}
@@ -0,0 +1,143 @@
+import { memo, useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { WEBHOOK_EVENTS } from '@accomplish_ai/agent-core/common';
+import type { WebhookEvent, WebhookTarget } from '@accomplish_ai/agent-core/common';
+import { cn } from '@/lib/utils';
+import { WEBHOOK_EVENT_LABEL_KEYS } from './constants';
+
+interface WebhookTargetCardProps {
+  target: WebhookTarget;
+  onToggleEnabled: (id: string) => void;
+  onToggleEvent: (id: string, event: WebhookEvent) => void;
+  onDelete: (id: string) => void;
+}
+
+export const WebhookTargetCard = memo(function WebhookTargetCard({
+  target,
+  onToggleEnabled,
+  onToggleEvent,
+  onDelete,
+}: WebhookTargetCardProps) {
+  const { t } = useTranslation('settings');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [showSecret, setShowSecret] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  // Auto-cancel delete confirmation after 3 seconds, cleanup on unmount
+  useEffect(() => {
+    if (!confirmDelete) return;
+    const timer = setTimeout(() => setConfirmDelete(false), 3000);
+    return () => clearTimeout(timer);
+  }, [confirmDelete]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopySecret = async () => {
+    try {
+      await navigator.clipboard.writeText(target.secret);
+      setCopied(true);
+    } catch {
+      // clipboard write may fail in non-secure contexts
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4" data-testid="webhook-target-card">
+      <div className="flex items-start justify-between gap-3">
+        {/* Left: Name, URL */}
+        <div className="min-w-0 flex-1">
+          <h3 className="truncate text-sm font-medium text-foreground">{target.name}</h3>
+          <p className="mt-0.5 truncate text-xs text-muted-foreground" title={target.url}>
+            {target.url}
+          </p>
+        </div>
+
+        {/* Right: Toggle + Delete */}
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onToggleEnabled(target.id)}
+            className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors duration-200 ${
+              target.isEnabled ? 'bg-primary' : 'bg-muted'
+            }`}
+            title={target.isEnabled ? t('webhooks.disable') : t('webhooks.enable')}
+          >
+            <span
+              className={`inline-block h-3.5 w-3.5 transform rounded-full bg-white shadow-sm transition-transform duration-200 ${
+                target.isEnabled ? 'translate-x-[18px]' : 'translate-x-[3px]'
+              }`}
+            />
+          </button>
+
+          <button
+            onClick={() => {
+              if (confirmDelete) {
+                onDelete(target.id);
+                setConfirmDelete(false);
+              } else {
+                setConfirmDelete(true);
+              }
+            }}
+            className={`rounded p-1 transition-colors ${
+              confirmDelete
+                ? 'text-destructive hover:bg-destructive/10'
+                : 'text-muted-foreground hover:text-foreground hover:bg-muted'
+            }`}
+            title={confirmDelete ? t('webhooks.confirmDelete') : t('webhooks.delete')}
+          >
+            <svg
+              className="h-3.5 w-3.5"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+            >
+              <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {/* Subscribed events */}
+      <div className="mt-3 flex flex-wrap gap-1.5">
+        {WEBHOOK_EVENTS.map((event) => {
+          const subscribed = target.events.includes(event);
+          return (
+            <button
+              key={event}
+              onClick={() => onToggleEvent(target.id, event)}
+              className={cn(
+                'rounded-full border px-2 py-0.5 text-[11px] transition-colors',
+                subscribed
+                  ? 'border-primary bg-primary/10 text-primary'
+                  : 'border-border text-muted-foreground hover:text-foreground',
+              )}
+            >
+              {t(WEBHOOK_EVENT_LABEL_KEYS[event])}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Signing secret */}
+      <div className="mt-3 flex items-center gap-2 text-xs">
+        <span className="text-muted-foreground">{t('webhooks.secret')}</span>
+        <code className="min-w-0 flex-1 truncate rounded bg-muted px-1.5 py-0.5 font-mono">
+          {showSecret ? target.secret : '•'.repeat(24)}
+        </code>
+        <button
+          onClick={() => setShowSecret((prev) => !prev)}
+          className="text-muted-foreground hover:text-foreground"
+        >
+          {showSecret ? t('webhooks.hideSecret') : t('webhooks.showSecret')}
+        </button>
+        <button onClick={handleCopySecret} className="text-muted-foreground hover:text-foreground">
+          {copied ? t('webhooks.copied') : t('webhooks.copySecret')}
+        </button>
+      </div>
+    </div>
+  );
+});
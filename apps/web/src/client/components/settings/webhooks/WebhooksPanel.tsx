@@ -0,0 +1,251 @@
+import { useState, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AnimatePresence, motion } from 'framer-motion';
+import { WEBHOOK_EVENTS } from '@accomplish_ai/agent-core/common';
+import type {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from '@accomplish_ai/agent-core/common';
+import { Input } from '@/components/ui/input';
+import { settingsVariants, settingsTransitions } from '@/lib/animations';
+import { WebhookTargetCard } from './WebhookTargetCard';
+import { useWebhooks } from './useWebhooks';
+import { WEBHOOK_EVENT_LABEL_KEYS } from './constants';
+
+const deliveryStatusClass: Record<WebhookDeliveryStatus, string> = {
+  success: 'text-green-600',
+  pending: 'text-yellow-600',
+  failed: 'text-destructive',
+};
+
+function toggleEvent(events: WebhookEvent[], event: WebhookEvent): WebhookEvent[] {
+  return events.includes(event) ? events.filter((e) => e !== event) : [...events, event];
+}
+
+export function WebhooksPanel() {
+  const { t } = useTranslation('settings');
+  const { targets, deliveries, loading, addTarget, updateTarget, deleteTarget, refreshDeliveries } =
+    useWebhooks();
+
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>([...WEBHOOK_EVENTS]);
+  const [adding, setAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = useCallback(async () => {
+    const trimmedUrl = url.trim();
+    if (!trimmedUrl) return;
+
+    try {
+      const parsed = new URL(trimmedUrl);
+      if (!parsed.protocol.startsWith('http')) {
+        setError(t('webhooks.urlMustBeHttp'));
+        return;
+      }
+    } catch {
+      setError(t('webhooks.invalidUrl'));
+      return;
+    }
+    if (events.length === 0) {
+      setError(t('webhooks.noEvents'));
+      return;
+    }
+
+    setAdding(true);
+    setError(null);
+    try {
+      await addTarget({
+        name: name.trim() || new URL(trimmedUrl).hostname,
+        url: trimmedUrl,
+        events,
+      });
+      setName('');
+      setUrl('');
+    } catch (err) {
+      console.error('Failed to add webhook:', err);
+      setError(err instanceof Error ? err.message : t('webhooks.addFailed'));
+    } finally {
+      setAdding(false);
+    }
+  }, [name, url, events, addTarget, t]);
+
+  const handleUpdate = useCallback(
+    (id: string, input: Parameters<typeof updateTarget>[1]) => {
+      setError(null);
+      updateTarget(id, input).catch((err) => {
+        console.error('Failed to update webhook:', err);
+        setError(err instanceof Error ? err.message : t('webhooks.updateFailed'));
+      });
+    },
+    [updateTarget, t],
+  );
+
+  const handleToggleEnabled = useCallback(
+    (id: string) => {
+      const target = targets.find((w) => w.id === id);
+      if (target) {
+        handleUpdate(id, { isEnabled: !target.isEnabled });
+      }
+    },
+    [targets, handleUpdate],
+  );
+
+  const handleToggleEvent = useCallback(
+    (id: string, event: WebhookEvent) => {
+      const target = targets.find((w) => w.id === id);
+      if (target) {
+        handleUpdate(id, { events: toggleEvent(target.events, event) });
+      }
+    },
+    [targets, handleUpdate],
+  );
+
+  const handleDelete = useCallback(
+    (id: string) => {
+      deleteTarget(id).catch((err) => console.error('Failed to delete webhook:', err));
+    },
+    [deleteTarget],
+  );
+
+  const targetName = (delivery: WebhookDelivery) =>
+    targets.find((w) => w.id === delivery.targetId)?.name ?? delivery.targetId;
+
+  if (loading) {
+    return (
+      <div className="flex h-[300px] items-center justify-center">
+        <div className="text-sm text-muted-foreground">{t('webhooks.loading')}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-sm text-muted-foreground">{t('webhooks.description')}</p>
+
+      {/* Add form */}
+      <div className="flex flex-col gap-2 rounded-lg border border-border bg-card p-4">
+        <div className="flex gap-2">
+          <Input
+            placeholder={t('webhooks.namePlaceholder')}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-40"
+            disabled={adding}
+          />
+          <Input
+            type="url"
+            placeholder={t('webhooks.urlPlaceholder')}
+            value={url}
+            onChange={(e) => {
+              setUrl(e.target.value);
+              setError(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !adding) {
+                handleAdd();
+              }
+            }}
+            className="flex-1"
+            disabled={adding}
+            data-testid="webhook-url-input"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={adding || !url.trim()}
+            className="rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+            data-testid="webhook-add-button"
+          >
+            {t('webhooks.add')}
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          {WEBHOOK_EVENTS.map((event) => (
+            <label key={event} className="flex items-center gap-1.5 text-xs text-foreground">
+              <input
+                type="checkbox"
+                checked={events.includes(event)}
+                onChange={() => setEvents((prev) => toggleEvent(prev, event))}
+                disabled={adding}
+              />
+              {t(WEBHOOK_EVENT_LABEL_KEYS[event])}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <AnimatePresence>
+        {error && (
+          <motion.div
+            className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive"
+            variants={settingsVariants.fadeSlide}
+            initial="initial"
+            animate="animate"
+            exit="exit"
+            transition={settingsTransitions.enter}
+          >
+            {error}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Target list */}
+      {targets.length > 0 ? (
+        <div className="grid gap-3">
+          {targets.map((target) => (
+            <WebhookTargetCard
+              key={target.id}
+              target={target}
+              onToggleEnabled={handleToggleEnabled}
+              onToggleEvent={handleToggleEvent}
+              onDelete={handleDelete}
+            />
+          ))}
+        </div>
+      ) : (
+        <div className="flex h-[120px] items-center justify-center rounded-lg border border-dashed border-border text-sm text-muted-foreground">
+          {t('webhooks.empty')}
+        </div>
+      )}
+
+      {/* Delivery log */}
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-foreground">{t('webhooks.deliveries.title')}</h3>
+        <button
+          onClick={() => refreshDeliveries()}
+          className="text-xs text-muted-foreground hover:text-foreground"
+        >
+          {t('webhooks.deliveries.refresh')}
+        </button>
+      </div>
+      {deliveries.length > 0 ? (
+        <div
+          className="divide-y divide-border rounded-lg border border-border"
+          data-testid="webhook-deliveries"
+        >
+          {deliveries.map((delivery) => (
+            <div key={delivery.id} className="flex items-center gap-3 px-3 py-2 text-xs">
+              <span className="w-32 shrink-0 text-muted-foreground">
+                {new Date(delivery.createdAt).toLocaleString()}
+              </span>
+              <span className="w-36 shrink-0">{t(WEBHOOK_EVENT_LABEL_KEYS[delivery.event])}</span>
+              <span className="min-w-0 flex-1 truncate text-muted-foreground">
+                {targetName(delivery)}
+              </span>
+              <span className={deliveryStatusClass[delivery.status]} title={delivery.error}>
+                {t(`webhooks.deliveries.status.${delivery.status}`)}
+                {delivery.responseStatus ? ` · ${delivery.responseStatus}` : ''}
+              </span>
+              <span className="w-20 shrink-0 text-right text-muted-foreground">
+                {t('webhooks.deliveries.attempts', { count: delivery.attempts })}
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">{t('webhooks.deliveries.empty')}</p>
+      )}
+    </div>
+  );
+}
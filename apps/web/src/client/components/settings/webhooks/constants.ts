@@ -0,0 +1,9 @@
+import type { WebhookEvent } from '@accomplish_ai/agent-core/common';
+
+/** Locale keys per event; event names contain dots, which i18next reads as nesting */
+export const WEBHOOK_EVENT_LABEL_KEYS: Record<WebhookEvent, string> = {
+  'task.started': 'webhooks.events.started',
+  'task.waiting_permission': 'webhooks.events.waitingPermission',
+  'task.completed': 'webhooks.events.completed',
+  'task.failed': 'webhooks.events.failed',
+};
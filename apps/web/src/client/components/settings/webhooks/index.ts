@@ -0,0 +1,2 @@
+export { WebhooksPanel } from './WebhooksPanel';
+export { WebhookTargetCard } from './WebhookTargetCard';
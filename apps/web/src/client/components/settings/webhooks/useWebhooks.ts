@@ -0,0 +1,70 @@
+import { useState, useCallback, useEffect } from 'react';
+import type {
+  CreateWebhookTargetInput,
+  UpdateWebhookTargetInput,
+  WebhookDelivery,
+  WebhookTarget,
+} from '@accomplish_ai/agent-core/common';
+import { getAccomplish } from '@/lib/accomplish';
+
+export function useWebhooks() {
+  const [targets, setTargets] = useState<WebhookTarget[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const accomplish = getAccomplish();
+      setDeliveries(await accomplish.getWebhookDeliveries());
+    } catch (err) {
+      console.error('Failed to load webhook deliveries:', err);
+    }
+  }, []);
+
+  const fetchTargets = useCallback(async () => {
+    try {
+      const accomplish = getAccomplish();
+      setTargets(await accomplish.listWebhookTargets());
+    } catch (err) {
+      console.error('Failed to load webhook targets:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTargets();
+    fetchDeliveries();
+  }, [fetchTargets, fetchDeliveries]);
+
+  const addTarget = useCallback(async (input: CreateWebhookTargetInput) => {
+    const accomplish = getAccomplish();
+    const target = await accomplish.createWebhookTarget(input);
+    setTargets((prev) => [target, ...prev]);
+    return target;
+  }, []);
+
+  const updateTarget = useCallback(async (id: string, input: UpdateWebhookTargetInput) => {
+    const accomplish = getAccomplish();
+    const updated = await accomplish.updateWebhookTarget(id, input);
+    setTargets((prev) => prev.map((t) => (t.id === id ? updated : t)));
+    return updated;
+  }, []);
+
+  const deleteTarget = useCallback(async (id: string) => {
+    const accomplish = getAccomplish();
+    await accomplish.deleteWebhookTarget(id);
+    setTargets((prev) => prev.filter((t) => t.id !== id));
+    setDeliveries((prev) => prev.filter((d) => d.targetId !== id));
+  }, []);
+
+  return {
+    targets,
+    deliveries,
+    loading,
+    addTarget,
+    updateTarget,
+    deleteTarget,
+    refreshDeliveries: fetchDeliveries,
+  };
+}
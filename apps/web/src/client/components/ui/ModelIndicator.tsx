@@ -10,10 +10,15 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
 import { CaretDown, Gear, Warning } from '@phosphor-icons/react';
+import { PROVIDER_META, isProviderReady } from '@accomplish_ai/agent-core/common';
+import type { ProviderId } from '@accomplish_ai/agent-core/common';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
@@ -21,6 +26,12 @@ import { getModelDisplayName } from '@/lib/model-utils';
 import { useProviderSettings } from '@/components/settings/hooks/useProviderSettings';
 import { cn } from '@/lib/utils';
 
+/** A connected provider and model to run a single task with */
+export interface TaskModelSelection {
+  providerId: ProviderId;
+  modelId: string;
+}
+
 interface ModelIndicatorProps {
   /** Whether a task is currently running */
   isRunning?: boolean;
@@ -30,6 +41,10 @@ interface ModelIndicatorProps {
   className?: string;
   /** Hide the indicator when no model is selected (instead of showing warning) */
   hideWhenNoModel?: boolean;
+  /** Model picked for the next task only; null follows the active provider */
+  taskModel?: TaskModelSelection | null;
+  /** Enables picking the next task's model from the connected providers */
+  onTaskModelChange?: (selection: TaskModelSelection | null) => void;
 }
 
 export function ModelIndicator({
@@ -37,6 +52,8 @@ export function ModelIndicator({
   onOpenSettings,
   className,
   hideWhenNoModel = false,
+  taskModel = null,
+  onTaskModelChange,
 }: ModelIndicatorProps) {
   const { t } = useTranslation('common');
   const { settings, loading, refetch } = useProviderSettings();
@@ -65,9 +82,29 @@ export function ModelIndicator({
   const activeProvider = activeProviderId ? settings?.connectedProviders[activeProviderId] : null;
   const selectedModelId = activeProvider?.selectedModelId;
 
+  // Providers a single task can be sent to instead of the active one
+  const readyProviders = settings
+    ? Object.values(settings.connectedProviders).filter((provider) => isProviderReady(provider))
+    : [];
+  const canPickTaskModel = Boolean(onTaskModelChange) && readyProviders.length > 1;
+  const taskModelId =
+    taskModel && isProviderReady(settings?.connectedProviders[taskModel.providerId])
+      ? taskModel.modelId
+      : null;
+
   // Determine display values
   const hasModel = Boolean(activeProviderId && selectedModelId);
-  const modelDisplayName = selectedModelId ? getModelDisplayName(selectedModelId) : null;
+  const displayModelId = taskModelId ?? selectedModelId;
+  const modelDisplayName = displayModelId ? getModelDisplayName(displayModelId) : null;
+
+  const handleTaskModelChange = (providerId: string) => {
+    const provider = settings?.connectedProviders[providerId as ProviderId];
+    if (providerId === activeProviderId || !provider?.selectedModelId) {
+      onTaskModelChange?.(null);
+      return;
+    }
+    onTaskModelChange?.({ providerId: provider.providerId, modelId: provider.selectedModelId });
+  };
 
   // Determine state
   const isWarning = !hasModel && !loading;
@@ -138,9 +175,46 @@ export function ModelIndicator({
         </button>
       </DropdownMenuTrigger>
 
-      <DropdownMenuContent align="end" sideOffset={8} className="w-48 shadow-lg">
+      <DropdownMenuContent
+        align="end"
+        sideOffset={8}
+        className={cn('shadow-lg', canPickTaskModel ? 'w-64' : 'w-48')}
+      >
+        {/* Per-task model picker */}
+        {hasModel && canPickTaskModel && (
+          <>
+            <DropdownMenuLabel className="text-[11px] font-normal text-muted-foreground/60 uppercase tracking-wide">
+              {t('model.runWith')}
+            </DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={taskModelId && taskModel ? taskModel.providerId : (activeProviderId ?? '')}
+              onValueChange={handleTaskModelChange}
+            >
+              {readyProviders.map((provider) => (
+                <DropdownMenuRadioItem
+                  key={provider.providerId}
+                  value={provider.providerId}
+                  className="py-2 cursor-pointer"
+                  data-testid={`model-indicator-option-${provider.providerId}`}
+                >
+                  <div className="flex min-w-0 flex-col">
+                    <span className="truncate text-sm font-medium text-foreground">
+                      {getModelDisplayName(provider.selectedModelId!)}
+                    </span>
+                    <span className="truncate text-xs text-muted-foreground">
+                      {PROVIDER_META[provider.providerId].name}
+                      {provider.providerId === activeProviderId && ` · ${t('model.default')}`}
+                    </span>
+                  </div>
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+            <DropdownMenuSeparator />
+          </>
+        )}
+
         {/* Current model display */}
-        {hasModel && (
+        {hasModel && !canPickTaskModel && (
           <>
             <div className="px-3 py-2">
               <div className="text-[11px] text-muted-foreground/60 uppercase tracking-wide mb-1">
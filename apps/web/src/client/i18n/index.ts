@@ -17,6 +17,7 @@ import enExecution from '@locales/en/execution.json';
 import enHistory from '@locales/en/history.json';
 import enErrors from '@locales/en/errors.json';
 import enSidebar from '@locales/en/sidebar.json';
+import enSchedules from '@locales/en/schedules.json';
 
 // Static Chinese locale imports
 import zhCNCommon from '@locales/zh-CN/common.json';
@@ -26,6 +27,7 @@ import zhCNExecution from '@locales/zh-CN/execution.json';
 import zhCNHistory from '@locales/zh-CN/history.json';
 import zhCNErrors from '@locales/zh-CN/errors.json';
 import zhCNSidebar from '@locales/zh-CN/sidebar.json';
+import zhCNSchedules from '@locales/zh-CN/schedules.json';
 
 // Supported languages and namespaces
 export const SUPPORTED_LANGUAGES = ['en', 'zh-CN'] as const;
@@ -37,6 +39,7 @@ export const NAMESPACES = [
   'history',
   'errors',
   'sidebar',
+  'schedules',
 ] as const;
 
 export type SupportedLanguage = (typeof SUPPORTED_LANGUAGES)[number];
@@ -102,6 +105,7 @@ export async function initI18n(): Promise<void> {
             history: enHistory as Record<string, unknown>,
             errors: enErrors as Record<string, unknown>,
             sidebar: enSidebar as Record<string, unknown>,
+            schedules: enSchedules as Record<string, unknown>,
           },
           'zh-CN': {
             common: zhCNCommon as Record<string, unknown>,
@@ -111,6 +115,7 @@ export async function initI18n(): Promise<void> {
             history: zhCNHistory as Record<string, unknown>,
             errors: zhCNErrors as Record<string, unknown>,
             sidebar: zhCNSidebar as Record<string, unknown>,
+            schedules: zhCNSchedules as Record<string, unknown>,
           },
         },
         lng: initialLanguage,
@@ -21,9 +21,38 @@ import type {
   ProviderId,
   ConnectedProvider,
   TodoItem,
+  TaskArtifact,
   ToolSupportStatus,
   Skill,
   McpConnector,
+  TaskSchedule,
+  QueuedTaskInfo,
+  TaskUsage,
+  TaskBudgetLimitStatus,
+  TaskUsageSummary,
+  UsageAggregate,
+  UsageGroupBy,
+  UsageQuery,
+  UsageTotals,
+  TaskTimeoutLimits,
+  SandboxSettings,
+  TrashSettings,
+  TrashEntry,
+  TaskSnapshot,
+  SnapshotChange,
+  SnapshotRollbackResult,
+  ProjectProfile,
+  ProjectProfileInput,
+  PermissionRule,
+  PermissionRuleInput,
+  PermissionAuditEntry,
+  PermissionAuditExportFormat,
+  WebhookTarget,
+  WebhookDelivery,
+  CreateWebhookTargetInput,
+  UpdateWebhookTargetInput,
+  LocalApiStatus,
+  UpdateLocalApiSettingsInput,
 } from '@accomplish_ai/agent-core/common';
 
 // Define the API interface
@@ -40,12 +69,16 @@ interface AccomplishAPI {
   cancelTask(taskId: string): Promise<void>;
   interruptTask(taskId: string): Promise<void>;
   getTask(taskId: string): Promise<Task | null>;
+  forkTask(taskId: string, messageId: string, prompt: string): Promise<Task>;
+  recoverTask(taskId: string): Promise<Task>;
   listTasks(): Promise<Task[]>;
   deleteTask(taskId: string): Promise<void>;
   clearTaskHistory(): Promise<void>;
 
   // Permission responses
   respondToPermission(response: PermissionResponse): Promise<void>;
+  /** Let the user pick a local path to answer a file or folder question */
+  pickQuestionPath(kind: 'file' | 'folder'): Promise<string | null>;
 
   // Session management
   resumeSession(sessionId: string, prompt: string, taskId?: string): Promise<Task>;
@@ -74,6 +107,14 @@ interface AccomplishAPI {
   removeApiKey(id: string): Promise<void>;
   getDebugMode(): Promise<boolean>;
   setDebugMode(enabled: boolean): Promise<void>;
+  getTaskTimeouts(): Promise<TaskTimeoutLimits>;
+  setTaskTimeouts(limits: TaskTimeoutLimits): Promise<void>;
+  getSandboxSettings(): Promise<SandboxSettings>;
+  setSandboxSettings(settings: SandboxSettings): Promise<void>;
+  /** Let the user choose a folder to add to the sandbox; null if they cancel */
+  pickSandboxRoot(): Promise<string | null>;
+  getTrashSettings(): Promise<TrashSettings>;
+  setTrashSettings(settings: TrashSettings): Promise<void>;
   getTheme(): Promise<string>;
   setTheme(theme: string): Promise<void>;
   onThemeChange?(callback: (data: { theme: string; resolved: string }) => void): () => void;
@@ -305,19 +346,42 @@ interface AccomplishAPI {
   // Todo operations
   getTodosForTask(taskId: string): Promise<TodoItem[]>;
 
+  // Task artifacts
+  getTaskArtifacts(taskId: string): Promise<TaskArtifact[]>;
+  openArtifact(taskId: string, filePath: string): Promise<void>;
+  revealArtifact(taskId: string, filePath: string): Promise<void>;
+
+  // Task queue
+  getQueuedTasks(): Promise<QueuedTaskInfo[]>;
+  reorderQueuedTask(taskId: string, toIndex: number): Promise<QueuedTaskInfo[]>;
+
   // Event subscriptions
   onTaskUpdate(callback: (event: TaskUpdateEvent) => void): () => void;
   onTaskUpdateBatch?(
     callback: (event: { taskId: string; messages: TaskMessage[] }) => void,
   ): () => void;
   onPermissionRequest(callback: (request: PermissionRequest) => void): () => void;
+  /** A permission request was answered outside the UI, e.g. through the local API */
+  onPermissionResolved?(
+    callback: (data: { requestId: string; taskId: string }) => void,
+  ): () => void;
   onTaskProgress(callback: (progress: TaskProgress) => void): () => void;
   onDebugLog(callback: (log: unknown) => void): () => void;
   onDebugModeChange?(callback: (data: { enabled: boolean }) => void): () => void;
   onTaskStatusChange?(callback: (data: { taskId: string; status: TaskStatus }) => void): () => void;
   onTaskSummary?(callback: (data: { taskId: string; summary: string }) => void): () => void;
+  onSubtaskStarted?(callback: (data: { task: Task; parentTaskId: string }) => void): () => void;
   onTodoUpdate?(callback: (data: { taskId: string; todos: TodoItem[] }) => void): () => void;
+  onTaskArtifacts?(
+    callback: (data: { taskId: string; artifacts: TaskArtifact[] }) => void,
+  ): () => void;
   onAuthError?(callback: (data: { providerId: string; message: string }) => void): () => void;
+  onTaskUsage?(
+    callback: (data: { taskId: string; usage: TaskUsage; budget: TaskBudgetLimitStatus[] }) => void,
+  ): () => void;
+  onBudgetWarning?(
+    callback: (data: { taskId: string; status: TaskBudgetLimitStatus; usage: TaskUsage }) => void,
+  ): () => void;
 
   // Speech-to-Text
   speechIsConfigured(): Promise<boolean>;
@@ -344,6 +408,12 @@ interface AccomplishAPI {
     context?: Record<string, unknown>;
   }): Promise<unknown>;
   exportLogs(): Promise<{ success: boolean; path?: string; error?: string; reason?: string }>;
+  exportPermissionAudit(
+    format: PermissionAuditExportFormat,
+    taskId?: string,
+  ): Promise<{ success: boolean; path?: string; error?: string; reason?: string }>;
+  /** Pick a task recording and replay it as a new task; null when cancelled */
+  replayRecording(): Promise<Task | null>;
 
   // Skills management
   getSkills(): Promise<Skill[]>;
@@ -367,6 +437,63 @@ interface AccomplishAPI {
   completeConnectorOAuth(state: string, code: string): Promise<McpConnector>;
   disconnectConnector(connectorId: string): Promise<void>;
   onMcpAuthCallback?(callback: (url: string) => void): () => void;
+
+  // Schedules
+  listSchedules(): Promise<TaskSchedule[]>;
+  createSchedule(name: string, cronExpression: string, config: TaskConfig): Promise<TaskSchedule>;
+  setScheduleEnabled(id: string, enabled: boolean): Promise<TaskSchedule>;
+  deleteSchedule(id: string): Promise<void>;
+  getScheduleRuns(id: string): Promise<Task[]>;
+  onScheduledTaskStarted?(callback: (data: { task: Task; scheduleId: string }) => void): () => void;
+
+  // Project profiles
+  listProjectProfiles(): Promise<ProjectProfile[]>;
+  saveProjectProfile(input: ProjectProfileInput, id?: string): Promise<ProjectProfile>;
+  deleteProjectProfile(id: string): Promise<void>;
+  pickProjectDirectory(): Promise<string | null>;
+
+  // Permission rules
+  listPermissionRules(): Promise<PermissionRule[]>;
+  savePermissionRule(input: PermissionRuleInput): Promise<PermissionRule>;
+  deletePermissionRule(id: string): Promise<void>;
+
+  // Permission audit
+  listPermissionAudit(taskId?: string, limit?: number): Promise<PermissionAuditEntry[]>;
+
+  // Trash
+  /** Copies kept before approved deletes and overwrites, newest first */
+  listTrash(taskId?: string): Promise<TrashEntry[]>;
+  restoreTrashEntry(id: string): Promise<void>;
+  /** Undo every delete and overwrite a task made; lists the paths that could not be restored */
+  restoreTaskTrash(taskId: string): Promise<{ restored: number; failed: string[] }>;
+  /** Delete a trashed copy for good */
+  deleteTrashEntry(id: string): Promise<void>;
+
+  // Snapshots
+  /** Working-directory snapshots of a task, oldest first */
+  listTaskSnapshots(taskId: string): Promise<TaskSnapshot[]>;
+  /** What rolling back to a snapshot would change */
+  previewSnapshotRollback(id: string): Promise<SnapshotChange[]>;
+  /** Put the working directory back the way it was in the snapshot; fails while the task runs */
+  rollbackToSnapshot(id: string): Promise<SnapshotRollbackResult>;
+
+  // Webhooks
+  listWebhookTargets(): Promise<WebhookTarget[]>;
+  createWebhookTarget(input: CreateWebhookTargetInput): Promise<WebhookTarget>;
+  updateWebhookTarget(id: string, input: UpdateWebhookTargetInput): Promise<WebhookTarget>;
+  deleteWebhookTarget(id: string): Promise<void>;
+  getWebhookDeliveries(): Promise<WebhookDelivery[]>;
+
+  // Local API
+  getLocalApiStatus(): Promise<LocalApiStatus>;
+  updateLocalApiSettings(input: UpdateLocalApiSettingsInput): Promise<LocalApiStatus>;
+  regenerateLocalApiToken(): Promise<LocalApiStatus>;
+  onLocalApiTaskStarted?(callback: (data: { task: Task }) => void): () => void;
+
+  // Usage
+  getUsageTotals(query?: UsageQuery): Promise<UsageTotals>;
+  getUsageBreakdown(groupBy: UsageGroupBy, query?: UsageQuery): Promise<UsageAggregate[]>;
+  getUsageByTask(query?: UsageQuery): Promise<TaskUsageSummary[]>;
 }
 
 interface AccomplishShell {
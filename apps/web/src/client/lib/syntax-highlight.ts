@@ -0,0 +1,141 @@
+/**
+ * Lightweight, line-at-a-time syntax highlighting for diff previews.
+ * Tokens never span lines, so a block comment or string that continues onto
+ * the next line is only highlighted where it starts.
+ */
+
+export type SyntaxTokenKind = 'plain' | 'keyword' | 'string' | 'comment' | 'number';
+
+export interface SyntaxToken {
+  kind: SyntaxTokenKind;
+  text: string;
+}
+
+export interface SyntaxLanguage {
+  keywords: Set<string>;
+  /** Markers that start a comment running to the end of the line */
+  lineComments: string[];
+}
+
+/** Keywords listed space-separated */
+function words(list: string): string[] {
+  return list.split(' ');
+}
+
+const JS_KEYWORDS = words(
+  'as async await break case catch class const continue default delete do else enum export extends false finally for from function if implements import in instanceof interface let new null of private protected public readonly return static super switch this throw true try type typeof undefined var void while yield',
+);
+
+const PYTHON_KEYWORDS = words(
+  'and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return self True try while with yield',
+);
+
+const SHELL_KEYWORDS = words(
+  'case do done elif else esac export fi for function if in local return then while',
+);
+
+const C_LIKE_KEYWORDS = words(
+  'bool break case catch char class const continue default do double else enum extends false final float fn for func go if impl import int interface let long match mut namespace new nil null package private protected pub public return static struct switch this throw true try use using val var void while',
+);
+
+const JS: SyntaxLanguage = { keywords: new Set(JS_KEYWORDS), lineComments: ['//'] };
+const PYTHON: SyntaxLanguage = { keywords: new Set(PYTHON_KEYWORDS), lineComments: ['#'] };
+const SHELL: SyntaxLanguage = { keywords: new Set(SHELL_KEYWORDS), lineComments: ['#'] };
+const C_LIKE: SyntaxLanguage = { keywords: new Set(C_LIKE_KEYWORDS), lineComments: ['//'] };
+const DATA: SyntaxLanguage = { keywords: new Set(['true', 'false', 'null']), lineComments: [] };
+const YAML: SyntaxLanguage = { keywords: new Set(['true', 'false', 'null']), lineComments: ['#'] };
+
+const LANGUAGES_BY_EXTENSION: Record<string, SyntaxLanguage> = {
+  js: JS,
+  jsx: JS,
+  mjs: JS,
+  cjs: JS,
+  ts: JS,
+  tsx: JS,
+  py: PYTHON,
+  sh: SHELL,
+  bash: SHELL,
+  zsh: SHELL,
+  c: C_LIKE,
+  h: C_LIKE,
+  cpp: C_LIKE,
+  hpp: C_LIKE,
+  cs: C_LIKE,
+  go: C_LIKE,
+  java: C_LIKE,
+  kt: C_LIKE,
+  rs: C_LIKE,
+  swift: C_LIKE,
+  json: DATA,
+  yaml: YAML,
+  yml: YAML,
+  toml: YAML,
+};
+
+/** The language to highlight a file as, or null for plain text */
+export function getSyntaxLanguage(filePath: string | undefined): SyntaxLanguage | null {
+  const extension = filePath?.split('.').pop()?.toLowerCase();
+  return (extension && LANGUAGES_BY_EXTENSION[extension]) || null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const patternCache = new WeakMap<SyntaxLanguage, RegExp>();
+
+function getPattern(language: SyntaxLanguage): RegExp {
+  let pattern = patternCache.get(language);
+  if (!pattern) {
+    const comment = language.lineComments.map(escapeRegExp).join('|');
+    pattern = new RegExp(
+      [
+        comment ? `(?:${comment}).*$` : '(?!)',
+        // Strings may be left unterminated when they continue on the next line
+        `"(?:[^"\\\\]|\\\\.)*"?|'(?:[^'\\\\]|\\\\.)*'?|\`(?:[^\`\\\\]|\\\\.)*\`?`,
+        '\\b(?:0[xX][0-9a-fA-F]+|\\d[\\d_]*(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)\\b',
+        '[A-Za-z_$][\\w$]*',
+      ]
+        .map((part) => `(${part})`)
+        .join('|'),
+      'g',
+    );
+    patternCache.set(language, pattern);
+  }
+  return pattern;
+}
+
+/** Split one line into highlighted tokens; adjacent plain text is merged */
+export function highlightLine(line: string, language: SyntaxLanguage | null): SyntaxToken[] {
+  if (!language) {
+    return [{ kind: 'plain', text: line }];
+  }
+
+  const tokens: SyntaxToken[] = [];
+  const push = (kind: SyntaxTokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (kind === 'plain' && last?.kind === 'plain') {
+      last.text += text;
+    } else if (text) {
+      tokens.push({ kind, text });
+    }
+  };
+
+  let position = 0;
+  for (const match of line.matchAll(getPattern(language))) {
+    const [text, comment, string, number] = match;
+    push('plain', line.slice(position, match.index));
+    if (comment !== undefined) {
+      push('comment', text);
+    } else if (string !== undefined) {
+      push('string', text);
+    } else if (number !== undefined) {
+      push('number', text);
+    } else {
+      push(language.keywords.has(text) ? 'keyword' : 'plain', text);
+    }
+    position = match.index + text.length;
+  }
+  push('plain', line.slice(position));
+  return tokens;
+}
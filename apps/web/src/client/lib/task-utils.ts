@@ -1,4 +1,4 @@
-import type { Task } from '@accomplish_ai/agent-core/common';
+import type { Task, TaskTimeout } from '@accomplish_ai/agent-core/common';
 
 export const STATUS_COLORS: Record<string, string> = {
   running: 'border-2 border-muted-foreground',
@@ -11,6 +11,11 @@ export const STATUS_COLORS: Record<string, string> = {
   queued: 'bg-muted-foreground',
 };
 
+/** Whole minutes of a timeout's limit, for the `timeout.*` messages */
+export function getTimeoutMinutes(timeout: TaskTimeout): number {
+  return Math.max(1, Math.round(timeout.limitMs / 60_000));
+}
+
 const URL_REGEX = /https?:\/\/(?:www\.)?([a-zA-Z0-9-]+(?:\.[a-zA-Z0-9-]+)+)/g;
 
 export function extractDomains(task: Task): string[] {
@@ -6,6 +6,7 @@ import { useTaskStore } from '../stores/taskStore';
 import { getAccomplish } from '../lib/accomplish';
 import { springs } from '../lib/animations';
 import { hasAnyReadyProvider } from '@accomplish_ai/agent-core/common';
+import type { PermissionRuleInput, TaskArtifact } from '@accomplish_ai/agent-core/common';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Card } from '@/components/ui/card';
@@ -19,8 +20,13 @@ import {
   Square,
   Download,
   CaretDown,
+  GitFork,
+  X,
+  ArrowClockwise,
+  TreeStructure,
 } from '@phosphor-icons/react';
 import { isWaitingForUser } from '../lib/waiting-detection';
+import { getTimeoutMinutes } from '../lib/task-utils';
 import { SettingsDialog } from '../components/layout/SettingsDialog';
 import { TodoSidebar } from '../components/TodoSidebar';
 import { ModelIndicator } from '../components/ui/ModelIndicator';
@@ -32,6 +38,11 @@ import { MessageBubble } from '../components/execution/MessageList';
 import { ToolProgress } from '../components/execution/ToolProgress';
 import { PermissionDialog } from '../components/execution/PermissionDialog';
 import { DebugPanel, type DebugLogEntry } from '../components/execution/DebugPanel';
+import { SubtaskList } from '../components/execution/SubtaskList';
+import { ArtifactsPanel } from '../components/execution/ArtifactsPanel';
+import { PermissionAuditPanel } from '../components/execution/PermissionAuditPanel';
+import { TrashPanel } from '../components/execution/TrashPanel';
+import { SnapshotsPanel } from '../components/execution/SnapshotsPanel';
 
 function debounce<T extends (...args: unknown[]) => void>(fn: T, ms: number): T {
   let timeoutId: ReturnType<typeof setTimeout>;
@@ -59,6 +70,8 @@ export function ExecutionPage() {
     'providers' | 'voice' | 'skills' | 'connectors'
   >('providers');
   const [pendingFollowUp, setPendingFollowUp] = useState<string | null>(null);
+  const [forkFromMessageId, setForkFromMessageId] = useState<string | null>(null);
+  const [artifacts, setArtifacts] = useState<TaskArtifact[]>([]);
   const pendingSpeechFollowUpRef = useRef<string | null>(null);
 
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -77,6 +90,8 @@ export function ExecutionPage() {
     permissionRequest,
     respondToPermission,
     sendFollowUp,
+    forkTask,
+    recoverTask,
     interruptTask,
     setupProgress,
     setupProgressTaskId,
@@ -86,8 +101,15 @@ export function ExecutionPage() {
     clearStartupStage,
     todos,
     todosTaskId,
+    tasks,
   } = useTaskStore();
 
+  // Forks also point at their parent, but only sub-tasks have no fork point
+  const subtasks = useMemo(
+    () => tasks.filter((task) => task.parentTaskId === id && !task.forkedFromMessageId),
+    [tasks, id],
+  );
+
   const speechInput = useSpeechInput({
     onTranscriptionComplete: (text) => {
       setFollowUp((prev) => {
@@ -148,11 +170,17 @@ export function ExecutionPage() {
     if (id) {
       loadTaskById(id);
       setDebugLogs([]);
+      setForkFromMessageId(null);
       setCurrentTool(null);
       setCurrentToolInput(null);
       accomplish.getTodosForTask(id).then((todos) => {
         useTaskStore.getState().setTodos(id, todos);
       });
+      setArtifacts([]);
+      accomplish
+        .getTaskArtifacts(id)
+        .then(setArtifacts)
+        .catch((err) => console.error('Failed to load task artifacts:', err));
     }
 
     const unsubscribeTask = accomplish.onTaskUpdate((event) => {
@@ -200,6 +228,18 @@ export function ExecutionPage() {
       setPermissionRequest(request);
     });
 
+    const unsubscribePermissionResolved = accomplish.onPermissionResolved?.(({ requestId }) => {
+      if (useTaskStore.getState().permissionRequest?.id === requestId) {
+        setPermissionRequest(null);
+      }
+    });
+
+    const unsubscribeArtifacts = accomplish.onTaskArtifacts?.((data) => {
+      if (data.taskId === id) {
+        setArtifacts(data.artifacts);
+      }
+    });
+
     const unsubscribeStatusChange = accomplish.onTaskStatusChange?.((data) => {
       if (data.taskId === id) {
         updateTaskStatus(data.taskId, data.status);
@@ -217,6 +257,8 @@ export function ExecutionPage() {
       unsubscribeTask();
       unsubscribeTaskBatch?.();
       unsubscribePermission();
+      unsubscribePermissionResolved?.();
+      unsubscribeArtifacts?.();
       unsubscribeStatusChange?.();
       unsubscribeDebugLog();
     };
@@ -234,12 +276,33 @@ export function ExecutionPage() {
   );
   const hasSession = currentTask?.sessionId || currentTask?.result?.sessionId;
   const canFollowUp = isComplete && (hasSession || currentTask?.status === 'interrupted');
+  const isForking = isComplete && forkFromMessageId !== null;
+  const showFollowUpInput = canFollowUp || isForking;
 
   useEffect(() => {
-    if (canFollowUp) {
+    if (showFollowUpInput) {
       followUpInputRef.current?.focus();
     }
-  }, [canFollowUp]);
+  }, [showFollowUpInput, forkFromMessageId]);
+
+  const handleFork = useCallback((messageId: string) => {
+    setForkFromMessageId(messageId);
+  }, []);
+
+  const submitFollowUp = useCallback(
+    async (message: string) => {
+      if (forkFromMessageId && currentTask) {
+        const task = await forkTask(currentTask.id, forkFromMessageId, message);
+        if (task) {
+          setForkFromMessageId(null);
+          navigate(`/execution/${task.id}`);
+        }
+        return;
+      }
+      await sendFollowUp(message);
+    },
+    [forkFromMessageId, currentTask, forkTask, navigate, sendFollowUp],
+  );
 
   const handleFollowUp = useCallback(async () => {
     if (!followUp.trim()) return;
@@ -253,9 +316,9 @@ export function ExecutionPage() {
         return;
       }
     }
-    await sendFollowUp(followUp);
+    await submitFollowUp(followUp);
     setFollowUp('');
-  }, [followUp, accomplish, sendFollowUp]);
+  }, [followUp, accomplish, submitFollowUp]);
 
   const handleSettingsDialogClose = (open: boolean) => {
     setShowSettingsDialog(open);
@@ -268,7 +331,7 @@ export function ExecutionPage() {
   const handleApiKeySaved = async () => {
     setShowSettingsDialog(false);
     if (pendingFollowUp) {
-      await sendFollowUp(pendingFollowUp);
+      await submitFollowUp(pendingFollowUp);
       setFollowUp('');
       setPendingFollowUp(null);
     }
@@ -288,6 +351,20 @@ export function ExecutionPage() {
     await sendFollowUp('continue');
   };
 
+  const handleRecover = async () => {
+    if (!currentTask) return;
+    const isE2EMode = await accomplish.isE2EMode();
+    if (!isE2EMode) {
+      const settings = await accomplish.getProviderSettings();
+      if (!hasAnyReadyProvider(settings)) {
+        setSettingsInitialTab('providers');
+        setShowSettingsDialog(true);
+        return;
+      }
+    }
+    await recoverTask(currentTask.id);
+  };
+
   const handleOpenSpeechSettings = useCallback(() => {
     setSettingsInitialTab('voice');
     setShowSettingsDialog(true);
@@ -300,16 +377,18 @@ export function ExecutionPage() {
 
   useEffect(() => {
     if (!pendingSpeechFollowUpRef.current) return;
-    if (!canFollowUp || isLoading) return;
+    if (!showFollowUpInput || isLoading) return;
     if (followUp !== pendingSpeechFollowUpRef.current) return;
     pendingSpeechFollowUpRef.current = null;
     void handleFollowUp();
-  }, [canFollowUp, followUp, handleFollowUp, isLoading]);
+  }, [showFollowUpInput, followUp, handleFollowUp, isLoading]);
 
   const handlePermissionResponse = async (
     allowed: boolean,
     selectedOpts?: string[],
     customText?: string,
+    remember?: PermissionRuleInput,
+    approvedPaths?: string[],
   ) => {
     if (!permissionRequest || !currentTask) return;
 
@@ -319,6 +398,8 @@ export function ExecutionPage() {
       decision: allowed ? 'allow' : 'deny',
       selectedOptions: selectedOpts,
       customText: customText,
+      remember,
+      approvedPaths,
     });
 
     if (!allowed && permissionRequest.type === 'question') {
@@ -427,9 +508,60 @@ export function ExecutionPage() {
                   {currentTask.prompt}
                 </h1>
                 <span data-testid="execution-status-badge">{getStatusBadge()}</span>
+                {currentTask.parentTaskId && !currentTask.forkedFromMessageId && (
+                  <button
+                    type="button"
+                    onClick={() => navigate(`/execution/${currentTask.parentTaskId}`)}
+                    className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground shrink-0"
+                    data-testid="execution-subtask-of"
+                  >
+                    <TreeStructure className="h-3 w-3" />
+                    {t('subtasks.subtaskOf')}
+                  </button>
+                )}
+                {currentTask.parentTaskId && currentTask.forkedFromMessageId && (
+                  <button
+                    type="button"
+                    onClick={() => navigate(`/execution/${currentTask.parentTaskId}`)}
+                    className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground shrink-0"
+                    data-testid="execution-forked-from"
+                  >
+                    <GitFork className="h-3 w-3" />
+                    {t('fork.forkedFrom')}
+                  </button>
+                )}
               </div>
             </div>
           </div>
+          {subtasks.length > 0 && (
+            <SubtaskList
+              subtasks={subtasks}
+              onOpen={(taskId) => navigate(`/execution/${taskId}`)}
+            />
+          )}
+          {id && artifacts.length > 0 && (
+            <ArtifactsPanel
+              artifacts={artifacts}
+              onOpen={(filePath) =>
+                accomplish
+                  .openArtifact(id, filePath)
+                  .catch((err) => console.error('Failed to open artifact:', err))
+              }
+              onReveal={(filePath) =>
+                accomplish
+                  .revealArtifact(id, filePath)
+                  .catch((err) => console.error('Failed to reveal artifact:', err))
+              }
+            />
+          )}
+          {id &&
+            artifacts.some(
+              (artifact) => artifact.operation === 'delete' || artifact.operation === 'overwrite',
+            ) && <TrashPanel key={id} taskId={id} />}
+          {id && artifacts.length > 0 && (
+            <SnapshotsPanel key={id} taskId={id} canRollBack={isComplete} />
+          )}
+          {id && <PermissionAuditPanel key={id} taskId={id} />}
         </div>
 
         {/* Browser installation modal */}
@@ -603,6 +735,8 @@ export function ExecutionPage() {
                         }
                         onContinue={handleContinue}
                         isLoading={isLoading}
+                        onFork={isComplete ? handleFork : undefined}
+                        forkLabel={t('fork.action')}
                       />
                     );
                   })}
@@ -685,9 +819,56 @@ export function ExecutionPage() {
         )}
 
         {/* Follow-up input */}
-        {canFollowUp && (
+        {showFollowUpInput && (
           <div className="flex-shrink-0 border-t border-border bg-card/50 px-6 py-4">
             <div className="max-w-4xl mx-auto space-y-2">
+              {isForking && (
+                <div
+                  className="flex items-center gap-2 rounded-lg bg-muted px-3 py-2 text-xs text-muted-foreground"
+                  data-testid="execution-fork-banner"
+                >
+                  <GitFork className="h-4 w-4 shrink-0" />
+                  <span className="flex-1">{t('fork.banner')}</span>
+                  <button
+                    type="button"
+                    onClick={() => setForkFromMessageId(null)}
+                    className="rounded p-0.5 hover:bg-accent hover:text-foreground"
+                    aria-label={t('fork.cancel')}
+                    title={t('fork.cancel')}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              )}
+              {currentTask.status === 'interrupted' && !isForking && (
+                <div
+                  className="flex items-center gap-2 rounded-lg bg-muted px-3 py-2 text-xs text-muted-foreground"
+                  data-testid="execution-recover-banner"
+                >
+                  <ArrowClockwise className="h-4 w-4 shrink-0" />
+                  <span className="flex-1">
+                    {currentTask.timedOut && (
+                      <span className="font-medium" data-testid="execution-timeout-reason">
+                        {tCommon(`timeout.${currentTask.timedOut.kind}`, {
+                          minutes: getTimeoutMinutes(currentTask.timedOut),
+                        })}
+                        .{' '}
+                      </span>
+                    )}
+                    {t('recover.banner')}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 text-xs"
+                    onClick={handleRecover}
+                    disabled={isLoading}
+                    data-testid="execution-recover-button"
+                  >
+                    {t('recover.action')}
+                  </Button>
+                </div>
+              )}
               {speechInput.error && (
                 <Alert
                   variant="destructive"
@@ -726,13 +907,15 @@ export function ExecutionPage() {
                       }
                     }}
                     placeholder={
-                      currentTask.status === 'interrupted'
-                        ? hasSession
-                          ? t('followUp.interruptedPlaceholder')
-                          : t('followUp.noSessionPlaceholder')
-                        : currentTask.status === 'completed'
-                          ? t('followUp.completedPlaceholder')
-                          : t('followUp.defaultPlaceholder')
+                      isForking
+                        ? t('fork.placeholder')
+                        : currentTask.status === 'interrupted'
+                          ? hasSession
+                            ? t('followUp.interruptedPlaceholder')
+                            : t('followUp.noSessionPlaceholder')
+                          : currentTask.status === 'completed'
+                            ? t('followUp.completedPlaceholder')
+                            : t('followUp.defaultPlaceholder')
                     }
                     disabled={isLoading || speechInput.isRecording}
                     rows={1}
@@ -786,7 +969,7 @@ export function ExecutionPage() {
         )}
 
         {/* Completed/Failed state (no session to continue) */}
-        {isComplete && !canFollowUp && (
+        {isComplete && !showFollowUpInput && (
           <div className="flex-shrink-0 border-t border-border bg-card/50 px-6 py-4 text-center">
             <p className="text-sm text-muted-foreground mb-3">
               {t('taskStatus', {
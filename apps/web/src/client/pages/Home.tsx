@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router';
 import { motion } from 'framer-motion';
 import { useTranslation } from 'react-i18next';
 import { TaskInputBar } from '@/components/landing/TaskInputBar';
+import type { TaskModelSelection } from '@/components/ui/ModelIndicator';
 import { SettingsDialog } from '@/components/layout/SettingsDialog';
 import { useTaskStore } from '@/stores/taskStore';
 import { getAccomplish } from '@/lib/accomplish';
@@ -26,6 +27,7 @@ const USE_CASE_KEYS = [
 
 export function HomePage() {
   const [prompt, setPrompt] = useState('');
+  const [taskModel, setTaskModel] = useState<TaskModelSelection | null>(null);
   const [showSettingsDialog, setShowSettingsDialog] = useState(false);
   const [settingsInitialTab, setSettingsInitialTab] = useState<
     'providers' | 'voice' | 'skills' | 'connectors'
@@ -64,11 +66,15 @@ export function HomePage() {
     if (!prompt.trim() || isLoading) return;
 
     const taskId = `task_${Date.now()}`;
-    const task = await startTask({ prompt: prompt.trim(), taskId });
+    const task = await startTask({
+      prompt: prompt.trim(),
+      taskId,
+      ...(taskModel && { providerId: taskModel.providerId, modelId: taskModel.modelId }),
+    });
     if (task) {
       navigate(`/execution/${task.id}`);
     }
-  }, [prompt, isLoading, startTask, navigate]);
+  }, [prompt, isLoading, startTask, navigate, taskModel]);
 
   const handleSubmit = async () => {
     if (isLoading) {
@@ -173,6 +179,8 @@ export function HomePage() {
                 onOpenSpeechSettings={handleOpenSpeechSettings}
                 onOpenModelSettings={handleOpenModelSettings}
                 hideModelWhenNoModel={true}
+                taskModel={taskModel}
+                onTaskModelChange={setTaskModel}
                 toolbarLeft={
                   <PlusMenu
                     onSkillSelect={handleSkillSelect}
@@ -0,0 +1,61 @@
+import { useTranslation } from 'react-i18next';
+import { AnimatePresence, motion } from 'framer-motion';
+import { ScheduleCard, ScheduleForm, useSchedules } from '@/components/schedules';
+
+export default function SchedulesPage() {
+  const { t } = useTranslation('schedules');
+  const { schedules, loading, error, createSchedule, deleteSchedule, toggleEnabled } =
+    useSchedules();
+
+  return (
+    <div className="h-full overflow-y-auto bg-background">
+      <main className="mx-auto flex max-w-3xl flex-col gap-6 px-6 py-12">
+        <div>
+          <h1 className="text-2xl font-semibold text-foreground">{t('title')}</h1>
+          <p className="mt-1 text-sm text-muted-foreground">{t('description')}</p>
+        </div>
+
+        <ScheduleForm onSubmit={createSchedule} />
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-sm text-muted-foreground">{t('loading')}</div>
+        ) : schedules.length > 0 ? (
+          <div className="grid gap-3">
+            <AnimatePresence mode="popLayout">
+              {schedules.map((schedule) => (
+                <motion.div
+                  key={schedule.id}
+                  layout
+                  initial={{ opacity: 0, scale: 0.95 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  exit={{ opacity: 0, scale: 0.95 }}
+                  transition={{
+                    layout: { duration: 0.2 },
+                    opacity: { duration: 0.15 },
+                    scale: { duration: 0.15 },
+                  }}
+                >
+                  <ScheduleCard
+                    schedule={schedule}
+                    onToggleEnabled={toggleEnabled}
+                    onDelete={deleteSchedule}
+                  />
+                </motion.div>
+              ))}
+            </AnimatePresence>
+          </div>
+        ) : (
+          <div className="flex h-[160px] items-center justify-center rounded-lg border border-dashed border-border text-sm text-muted-foreground">
+            {t('empty')}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { createHashRouter, Navigate } from 'react-router';
 import { App } from './App';
 import { HomePage } from './pages/Home';
 import ExecutionPage from './pages/Execution';
+import SchedulesPage from './pages/Schedules';
 
 export const router = createHashRouter([
   {
@@ -10,6 +11,7 @@ export const router = createHashRouter([
     children: [
       { index: true, Component: HomePage },
       { path: 'execution/:id', Component: ExecutionPage },
+      { path: 'schedules', Component: SchedulesPage },
       { path: '*', element: <Navigate to="/" replace /> },
     ],
   },
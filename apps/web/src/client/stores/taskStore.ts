@@ -69,6 +69,8 @@ interface TaskState {
   ) => void;
   clearStartupStage: (taskId: string) => void;
   sendFollowUp: (message: string) => Promise<void>;
+  forkTask: (taskId: string, messageId: string, prompt: string) => Promise<Task | null>;
+  recoverTask: (taskId: string) => Promise<void>;
   cancelTask: () => Promise<void>;
   interruptTask: () => Promise<void>;
   setPermissionRequest: (request: PermissionRequest | null) => void;
@@ -284,6 +286,65 @@ export const useTaskStore = create<TaskState>((set, get) => ({
     }
   },
 
+  forkTask: async (taskId: string, messageId: string, prompt: string) => {
+    const accomplish = getAccomplish();
+    set({ isLoading: true, error: null });
+    try {
+      void accomplish.logEvent({
+        level: 'info',
+        message: 'UI fork task',
+        context: { parentTaskId: taskId, messageId },
+      });
+      const task = await accomplish.forkTask(taskId, messageId, prompt);
+      const currentTasks = get().tasks;
+      set({
+        currentTask: task,
+        tasks: [task, ...currentTasks.filter((t) => t.id !== task.id)],
+        isLoading: task.status === 'queued',
+      });
+      return task;
+    } catch (err) {
+      set({
+        error: err instanceof Error ? err.message : 'Failed to fork task',
+        isLoading: false,
+      });
+      void accomplish.logEvent({
+        level: 'error',
+        message: 'UI task fork failed',
+        context: { error: err instanceof Error ? err.message : String(err) },
+      });
+      return null;
+    }
+  },
+
+  recoverTask: async (taskId: string) => {
+    const accomplish = getAccomplish();
+    set({ isLoading: true, error: null });
+    try {
+      void accomplish.logEvent({
+        level: 'info',
+        message: 'UI recover task',
+        context: { taskId },
+      });
+      const task = await accomplish.recoverTask(taskId);
+      set((state) => ({
+        currentTask: state.currentTask?.id === taskId ? task : state.currentTask,
+        tasks: state.tasks.map((t) => (t.id === taskId ? { ...t, status: task.status } : t)),
+        isLoading: task.status === 'queued',
+      }));
+    } catch (err) {
+      set({
+        error: err instanceof Error ? err.message : 'Failed to resume task',
+        isLoading: false,
+      });
+      void accomplish.logEvent({
+        level: 'error',
+        message: 'UI task recovery failed',
+        context: { taskId, error: err instanceof Error ? err.message : String(err) },
+      });
+    }
+  },
+
   cancelTask: async () => {
     const accomplish = getAccomplish();
     const { currentTask } = get();
@@ -322,10 +383,12 @@ export const useTaskStore = create<TaskState>((set, get) => ({
 
   respondToPermission: async (response: PermissionResponse) => {
     const accomplish = getAccomplish();
+    // Secret answers are never logged
+    const isSecret = get().permissionRequest?.inputType === 'secret';
     void accomplish.logEvent({
       level: 'info',
       message: 'UI permission response',
-      context: { ...response },
+      context: { ...response, ...(isSecret && { customText: '[hidden]' }) },
     });
     await accomplish.respondToPermission(response);
     set({ permissionRequest: null });
@@ -368,6 +431,7 @@ export const useTaskStore = create<TaskState>((set, get) => ({
             result: event.result,
             completedAt: newStatus === 'interrupted' ? undefined : new Date().toISOString(),
             sessionId: event.result.sessionId || state.currentTask.sessionId,
+            timedOut: event.result.timedOut,
           };
         }
       }
@@ -391,6 +455,9 @@ export const useTaskStore = create<TaskState>((set, get) => ({
             ? {
                 ...t,
                 status: finalStatus,
+                ...(event.type === 'complete' && event.result?.timedOut
+                  ? { timedOut: event.result.timedOut }
+                  : {}),
                 ...(isCurrentTask && updatedCurrentTask
                   ? { messages: updatedCurrentTask.messages }
                   : {}),
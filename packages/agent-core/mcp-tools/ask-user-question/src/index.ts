@@ -15,15 +15,55 @@ interface QuestionOption {
   description?: string;
 }
 
+type QuestionInputType =
+  | 'choice'
+  | 'text'
+  | 'number'
+  | 'date'
+  | 'confirm'
+  | 'secret'
+  | 'file'
+  | 'folder';
+
+interface QuestionInputConstraints {
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  minDate?: string;
+  maxDate?: string;
+  placeholder?: string;
+}
+
 interface AskUserQuestionInput {
   questions: Array<{
     question: string;
     header?: string;
     options?: QuestionOption[];
     multiSelect?: boolean;
+    inputType?: QuestionInputType;
+    constraints?: QuestionInputConstraints;
   }>;
 }
 
+/** Turn the answer to a typed question into the text the agent gets back */
+function formatTypedAnswer(inputType: QuestionInputType, answer: string): string {
+  switch (inputType) {
+    case 'confirm':
+      return `User answered: ${answer}`;
+    case 'secret':
+      // The markers let the app hide the value wherever the tool result is shown
+      return `User provided the secret: [secret]${answer}[/secret]\nUse it as needed, but never repeat it in your messages.`;
+    case 'file':
+    case 'folder':
+      return `User chose the ${inputType}: ${answer}`;
+    default:
+      return `User responded: ${answer}`;
+  }
+}
+
 const server = new Server(
   { name: 'ask-user-question', version: '1.0.0' },
   { capabilities: { tools: {} } },
@@ -34,7 +74,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     {
       name: 'AskUserQuestion',
       description:
-        "Ask the user a question and wait for their response. Use this for clarifications, confirmations before sensitive actions, or when you need user input to proceed. Returns the user's selected option(s) or custom text response.",
+        "Ask the user a question and wait for their response. Use this for clarifications, confirmations before sensitive actions, or when you need user input to proceed. Returns the user's selected option(s) or custom text response. Set inputType to get a typed answer instead: free text with a pattern or length limit, a number in a range, a date, a yes/no confirmation, a secret that is never shown in the transcript, or a local file or folder path.",
       inputSchema: {
         type: 'object',
         properties: {
@@ -75,6 +115,36 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
                   description: 'Allow selecting multiple options',
                   default: false,
                 },
+                inputType: {
+                  type: 'string',
+                  enum: ['choice', 'text', 'number', 'date', 'confirm', 'secret', 'file', 'folder'],
+                  description:
+                    'How the user answers. "choice" (default) shows the options with a free-text fallback. "text" and "secret" take typed text; a secret (password, API key, token) is masked and never shown in the transcript. "number" and "date" (YYYY-MM-DD) take a value in the constraints range. "confirm" answers "yes" or "no". "file" and "folder" let the user pick a local path.',
+                  default: 'choice',
+                },
+                constraints: {
+                  type: 'object',
+                  description: 'Limits on a typed answer; only those that fit the inputType apply',
+                  properties: {
+                    pattern: {
+                      type: 'string',
+                      description:
+                        'text/secret: JavaScript regular expression the whole answer must match',
+                    },
+                    minLength: { type: 'number', description: 'text/secret: minimum length' },
+                    maxLength: { type: 'number', description: 'text/secret: maximum length' },
+                    min: { type: 'number', description: 'number: smallest allowed value' },
+                    max: { type: 'number', description: 'number: largest allowed value' },
+                    step: {
+                      type: 'number',
+                      description:
+                        'number: answers must be a multiple of this (1 for whole numbers)',
+                    },
+                    minDate: { type: 'string', description: 'date: earliest date, YYYY-MM-DD' },
+                    maxDate: { type: 'string', description: 'date: latest date, YYYY-MM-DD' },
+                    placeholder: { type: 'string', description: 'Hint shown in an empty input' },
+                  },
+                },
               },
               required: ['question'],
             },
@@ -123,6 +193,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request): Promise<CallToo
         header: question.header,
         options: question.options,
         multiSelect: question.multiSelect,
+        inputType: question.inputType,
+        constraints: question.constraints,
+        taskId: process.env.ACCOMPLISH_TASK_ID,
       }),
       signal: AbortSignal.timeout(300000), // 5 minutes — matches question API server timeout
     });
@@ -157,8 +230,17 @@ server.setRequestHandler(CallToolRequestSchema, async (request): Promise<CallToo
     }
 
     if (result.customText) {
+      const inputType = question.inputType ?? 'choice';
       return {
-        content: [{ type: 'text', text: `User responded: ${result.customText}` }],
+        content: [
+          {
+            type: 'text',
+            text:
+              inputType === 'choice'
+                ? `User responded: ${result.customText}`
+                : formatTypedAnswer(inputType, result.customText),
+          },
+        ],
       };
     }
 
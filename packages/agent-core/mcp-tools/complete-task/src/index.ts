@@ -37,6 +37,11 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             description:
               'If blocked or partial, describe what remains and why you could not complete it',
           },
+          result: {
+            type: 'string',
+            description:
+              'Final answer as a JSON string. Required with status "success" when the task specifies an output schema; it must validate against that schema.',
+          },
         },
       },
     },
@@ -48,12 +53,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     throw new Error(`Unknown tool: ${request.params.name}`);
   }
 
-  const { status, summary, original_request_summary, remaining_work } = request.params
+  const { status, summary, original_request_summary, remaining_work, result } = request.params
     .arguments as {
     status: 'success' | 'blocked' | 'partial';
     summary: string;
     original_request_summary: string;
     remaining_work?: string;
+    result?: string;
   };
 
   console.error(`[complete-task] status=${status}`);
@@ -62,6 +68,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   if (remaining_work) {
     console.error(`[complete-task] remaining=${remaining_work}`);
   }
+  if (result) {
+    console.error(`[complete-task] result=${result}`);
+  }
 
   let responseText = `Task ${status}.`;
   if (status === 'success') {
@@ -16,6 +16,8 @@ interface FilePermissionInput {
   filePaths?: string[];
   targetPath?: string;
   contentPreview?: string;
+  proposedContent?: string;
+  toolName?: string;
 }
 
 const server = new Server(
@@ -28,7 +30,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     {
       name: 'request_file_permission',
       description:
-        'Request user permission before performing file operations (create, delete, rename, move, modify, overwrite). Always call this tool BEFORE executing any file modification. Returns "allowed" or "denied".',
+        'Request user permission before performing file operations (create, delete, rename, move, modify, overwrite). Always call this tool BEFORE executing any file modification. Returns "allowed", "denied", or for batch requests the subset of paths that was allowed.',
       inputSchema: {
         type: 'object',
         properties: {
@@ -55,6 +57,16 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             type: 'string',
             description: 'Preview of file content for create/modify operations (first ~500 chars)',
           },
+          proposedContent: {
+            type: 'string',
+            description:
+              'Full file content after a modify/overwrite, so the user can review a diff against the current file',
+          },
+          toolName: {
+            type: 'string',
+            description:
+              'Name of the tool that will perform the operation (e.g., Write, Edit, Bash)',
+          },
         },
         required: ['operation'],
       },
@@ -71,7 +83,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request): Promise<CallToo
   }
 
   const args = request.params.arguments as FilePermissionInput;
-  const { operation, filePath, filePaths, targetPath, contentPreview } = args;
+  const { operation, filePath, filePaths, targetPath, contentPreview, proposedContent, toolName } =
+    args;
 
   if (!operation || (!filePath && (!filePaths || filePaths.length === 0))) {
     return {
@@ -92,6 +105,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request): Promise<CallToo
         filePaths,
         targetPath,
         contentPreview: contentPreview?.substring(0, 500),
+        proposedContent,
+        toolName,
+        taskId: process.env.ACCOMPLISH_TASK_ID,
       }),
     });
 
@@ -105,9 +121,27 @@ server.setRequestHandler(CallToolRequestSchema, async (request): Promise<CallToo
       };
     }
 
-    const result = (await response.json()) as { allowed: boolean };
+    const result = (await response.json()) as {
+      allowed: boolean;
+      reason?: string;
+      approvedPaths?: string[];
+    };
+    if (result.allowed && result.approvedPaths) {
+      // The user approved only some of the batch; spell out which so nothing else is touched
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `allowed only for these paths:\n${result.approvedPaths.join('\n')}\nThe other paths were denied. Do not touch them.`,
+          },
+        ],
+      };
+    }
+    if (result.allowed) {
+      return { content: [{ type: 'text', text: 'allowed' }] };
+    }
     return {
-      content: [{ type: 'text', text: result.allowed ? 'allowed' : 'denied' }],
+      content: [{ type: 'text', text: result.reason ? `denied: ${result.reason}` : 'denied' }],
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
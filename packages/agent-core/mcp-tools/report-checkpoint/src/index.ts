@@ -11,6 +11,10 @@ const THOUGHT_STREAM_PORT = process.env.THOUGHT_STREAM_PORT || '9228';
 const CHECKPOINT_URL = `http://127.0.0.1:${THOUGHT_STREAM_PORT}/checkpoint`;
 const THOUGHT_STREAM_TASK_ID =
   process.env.THOUGHT_STREAM_TASK_ID || process.env.ACCOMPLISH_TASK_ID || '';
+const QUESTION_API_PORT = process.env.QUESTION_API_PORT || '9227';
+const QUESTION_API_URL = `http://localhost:${QUESTION_API_PORT}/question`;
+
+const STOP_OPTION = 'Stop the task';
 
 interface ReportCheckpointInput {
   status: 'progress' | 'complete' | 'stuck';
@@ -19,6 +23,57 @@ interface ReportCheckpointInput {
   blocker?: string;
 }
 
+interface CheckpointResponse {
+  escalation?: 'ask-user';
+}
+
+interface QuestionResponse {
+  answered: boolean;
+  selectedOptions?: string[];
+  customText?: string;
+  denied?: boolean;
+}
+
+/** Put the blocker in front of the user and turn their answer into guidance */
+async function askUserAboutBlocker(summary: string, blocker?: string): Promise<string> {
+  try {
+    const response = await fetch(QUESTION_API_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        question: `The agent is stuck: ${blocker || summary}\n\nHow should it proceed?`,
+        header: 'Stuck',
+        options: [
+          { label: 'Keep trying', description: 'Try a different approach' },
+          { label: STOP_OPTION, description: 'End the task as blocked' },
+        ],
+        multiSelect: false,
+      }),
+      signal: AbortSignal.timeout(300000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const result = (await response.json()) as QuestionResponse;
+    if (result.denied || !result.answered) {
+      return `The user dismissed the question. Stop and call complete_task with status "blocked".`;
+    }
+    if (result.customText) {
+      return `The user responded: ${result.customText}\n\nFollow their guidance.`;
+    }
+    if (result.selectedOptions?.includes(STOP_OPTION)) {
+      return `The user asked you to stop. Call complete_task with status "blocked" and describe the blocker.`;
+    }
+    return 'The user asked you to keep trying. Take a different approach to get past the blocker.';
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`[report-checkpoint] Failed to ask the user (non-fatal): ${errorMessage}`);
+    return 'Checkpoint recorded.';
+  }
+}
+
 const server = new Server(
   { name: 'report-checkpoint', version: '1.0.0' },
   { capabilities: { tools: {} } },
@@ -103,6 +158,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request): Promise<CallToo
 
       if (!response.ok) {
         console.error(`[report-checkpoint] HTTP error (non-fatal): ${response.status}`);
+      } else {
+        const result = (await response.json().catch(() => ({}))) as CheckpointResponse;
+        if (result.escalation === 'ask-user') {
+          const guidance = await askUserAboutBlocker(summary, blocker);
+          return { content: [{ type: 'text', text: guidance }] };
+        }
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
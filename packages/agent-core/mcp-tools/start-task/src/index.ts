@@ -44,6 +44,12 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             description:
               'How you will verify the task is complete (required when needs_planning is true)',
           },
+          subtasks: {
+            type: 'array',
+            items: { type: 'string' },
+            description:
+              'Optional. Independent parts of the work that can run in parallel as separate tasks, each a self-contained instruction. Only for parts that do not depend on each other or on your other steps. Requires needs_planning to be true.',
+          },
           skills: {
             type: 'array',
             items: { type: 'string' },
@@ -61,13 +67,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     throw new Error(`Unknown tool: ${request.params.name}`);
   }
 
-  const { original_request, needs_planning, goal, steps, verification, skills } = request.params
-    .arguments as {
+  const { original_request, needs_planning, goal, steps, verification, subtasks, skills } = request
+    .params.arguments as {
     original_request: string;
     needs_planning: boolean;
     goal?: string;
     steps?: string[];
     verification?: string[];
+    subtasks?: string[];
     skills: string[];
   };
 
@@ -83,13 +90,37 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     };
   }
 
+  if (subtasks?.length && !needs_planning) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Error: subtasks can only be used when needs_planning is true.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
   console.error(`[start-task] original_request=${original_request}`);
   console.error(`[start-task] needs_planning=${needs_planning}`);
   if (goal) console.error(`[start-task] goal=${goal}`);
   if (steps) console.error(`[start-task] steps=${JSON.stringify(steps)}`);
   if (verification) console.error(`[start-task] verification=${JSON.stringify(verification)}`);
+  if (subtasks?.length) console.error(`[start-task] subtasks=${JSON.stringify(subtasks)}`);
   console.error(`[start-task] skills=${JSON.stringify(skills)}`);
 
+  if (subtasks?.length) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Plan registered. ${subtasks.length} sub-tasks will run in parallel. End your turn now without calling complete_task; you will be resumed with their results.`,
+        },
+      ],
+    };
+  }
+
   return {
     content: [{ type: 'text', text: 'Plan registered. Proceed with execution.' }],
   };
@@ -0,0 +1,257 @@
+import os from 'os';
+import path from 'path';
+import { parseArgs } from 'util';
+import type { TaskBudget } from '../common/types/task.js';
+import type { VerificationCheck } from '../common/types/verification.js';
+
+export type OutputFormat = 'text' | 'ndjson';
+
+/**
+ * How the CLI answers file permission and question requests from the agent.
+ * - auto-approve: allow every file operation the sandbox does not flag, pick the first option for questions
+ * - deny-all: deny every file operation and decline every question
+ * - prompt: ask on the terminal (requires an interactive TTY)
+ */
+export type PermissionPolicy = 'auto-approve' | 'deny-all' | 'prompt';
+
+export interface RunCommandOptions {
+  prompt: string;
+  /** Model in `<provider>/<model>` form; falls back to the model selected in the app */
+  model?: string;
+  workingDirectory: string;
+  format: OutputFormat;
+  permissionPolicy: PermissionPolicy;
+  /** Directory holding accomplish.db and secure storage (shared with the desktop app) */
+  dataDir: string;
+  /** Explicit path to the opencode executable */
+  opencodePath?: string;
+  /** Session to resume instead of starting a new conversation */
+  sessionId?: string;
+  budget?: TaskBudget;
+  /** Checks run when the agent reports success; replaces the project profile's checks */
+  verifications?: VerificationCheck[];
+  browser: boolean;
+  verbose: boolean;
+}
+
+export type CliCommand =
+  | { command: 'run'; options: RunCommandOptions; readPromptFromStdin: boolean }
+  | { command: 'help' }
+  | { command: 'version' };
+
+export interface CliEnvironment {
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  platform: NodeJS.Platform;
+  homeDir: string;
+  isInteractive: boolean;
+}
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export const USAGE = `Usage: accomplish run [options] <prompt...>
+
+Run an Accomplish task headlessly and stream its progress to stdout.
+Pass "-" as the prompt (or pipe it in) to read the prompt from stdin.
+
+Options:
+  -m, --model <provider/model>  Model to use, e.g. anthropic/claude-sonnet-4-5
+  -C, --cwd <dir>               Working directory for the task (default: current directory)
+  -f, --format <text|ndjson>    Output format (default: text)
+      --auto-approve            Approve all file operations without asking
+      --deny-all                Deny all file operations and questions
+      --session <id>            Resume an existing OpenCode session
+      --max-cost <usd>          Interrupt the task once it has cost this much
+      --max-steps <n>           Interrupt the task after this many model steps
+      --max-input-tokens <n>    Interrupt the task after this many input tokens
+      --max-output-tokens <n>   Interrupt the task after this many output tokens
+      --verify <command>        Command that must exit 0 before the task completes (repeatable)
+      --verify-file <path>      File that must exist before the task completes (repeatable)
+      --verify-url <url>        URL that must respond with 2xx before the task completes (repeatable)
+      --data-dir <dir>          Accomplish data directory (env: ACCOMPLISH_DATA_DIR)
+      --opencode <path>         Path to the opencode executable (env: OPENCODE_CLI_PATH)
+      --no-browser              Do not start the built-in browser tools
+  -v, --verbose                 Print internal logs to stderr
+  -h, --help                    Show this help
+      --version                 Show the version
+
+Exit codes:
+  0  task completed successfully
+  1  task failed or could not be started
+  2  invalid usage
+  130 task was interrupted`;
+
+/**
+ * Default location of the desktop app's user data, so the CLI picks up the
+ * providers, API keys and history configured in the app.
+ */
+export function getDefaultDataDir(
+  platform: NodeJS.Platform,
+  homeDir: string,
+  env: NodeJS.ProcessEnv,
+): string {
+  if (platform === 'darwin') {
+    return path.join(homeDir, 'Library', 'Application Support', 'Accomplish');
+  }
+  if (platform === 'win32') {
+    return path.join(env.APPDATA || path.join(homeDir, 'AppData', 'Roaming'), 'Accomplish');
+  }
+  return path.join(env.XDG_CONFIG_HOME || path.join(homeDir, '.config'), 'Accomplish');
+}
+
+export function getDefaultCliEnvironment(): CliEnvironment {
+  return {
+    cwd: process.cwd(),
+    env: process.env,
+    platform: process.platform,
+    homeDir: os.homedir(),
+    isInteractive: Boolean(process.stdin.isTTY && process.stderr.isTTY),
+  };
+}
+
+export function parseCliArgs(argv: string[], environment: CliEnvironment): CliCommand {
+  let parsed: ReturnType<typeof parseRawArgs>;
+  try {
+    parsed = parseRawArgs(argv);
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const { values, positionals } = parsed;
+
+  if (values.version) {
+    return { command: 'version' };
+  }
+
+  const [command, ...promptParts] = positionals;
+  if (values.help || !command || command === 'help') {
+    return { command: 'help' };
+  }
+
+  if (command !== 'run') {
+    throw new CliUsageError(`Unknown command "${command}"`);
+  }
+
+  const format = values.format ?? 'text';
+  if (format !== 'text' && format !== 'ndjson') {
+    throw new CliUsageError(`Invalid --format "${format}" (expected text or ndjson)`);
+  }
+
+  if (values['auto-approve'] && values['deny-all']) {
+    throw new CliUsageError('--auto-approve and --deny-all cannot be used together');
+  }
+
+  let permissionPolicy: PermissionPolicy;
+  if (values['auto-approve']) {
+    permissionPolicy = 'auto-approve';
+  } else if (values['deny-all'] || !environment.isInteractive) {
+    permissionPolicy = 'deny-all';
+  } else {
+    permissionPolicy = 'prompt';
+  }
+
+  if (values.model !== undefined && !/^[^/\s]+\/\S+$/.test(values.model)) {
+    throw new CliUsageError(`Invalid --model "${values.model}" (expected <provider>/<model>)`);
+  }
+
+  const budget: TaskBudget = {};
+  const budgetFlags = [
+    ['max-cost', 'maxCostUsd'],
+    ['max-steps', 'maxSteps'],
+    ['max-input-tokens', 'maxInputTokens'],
+    ['max-output-tokens', 'maxOutputTokens'],
+  ] as const;
+  for (const [flag, key] of budgetFlags) {
+    const raw = values[flag];
+    if (raw === undefined) {
+      continue;
+    }
+    const value = Number(raw);
+    if (
+      !Number.isFinite(value) ||
+      value <= 0 ||
+      (key !== 'maxCostUsd' && !Number.isInteger(value))
+    ) {
+      throw new CliUsageError(`Invalid --${flag} "${raw}" (expected a positive number)`);
+    }
+    budget[key] = value;
+  }
+
+  const verifications: VerificationCheck[] = [
+    ...(values.verify ?? []).map((command) => ({ type: 'command' as const, command })),
+    ...(values['verify-file'] ?? []).map((filePath) => ({
+      type: 'file-exists' as const,
+      path: filePath,
+    })),
+    ...(values['verify-url'] ?? []).map((url) => {
+      if (!/^https?:\/\//i.test(url)) {
+        throw new CliUsageError(`Invalid --verify-url "${url}" (expected an http(s) URL)`);
+      }
+      return { type: 'url-status' as const, url };
+    }),
+  ];
+
+  const prompt = promptParts.join(' ').trim();
+  const readPromptFromStdin = prompt === '' || prompt === '-';
+  if (readPromptFromStdin && environment.isInteractive) {
+    throw new CliUsageError('Missing prompt');
+  }
+
+  return {
+    command: 'run',
+    readPromptFromStdin,
+    options: {
+      prompt: readPromptFromStdin ? '' : prompt,
+      model: values.model,
+      workingDirectory: path.resolve(environment.cwd, values.cwd ?? '.'),
+      format,
+      permissionPolicy,
+      dataDir: path.resolve(
+        environment.cwd,
+        values['data-dir'] ??
+          environment.env.ACCOMPLISH_DATA_DIR ??
+          getDefaultDataDir(environment.platform, environment.homeDir, environment.env),
+      ),
+      opencodePath: values.opencode ?? environment.env.OPENCODE_CLI_PATH,
+      sessionId: values.session,
+      budget: Object.keys(budget).length > 0 ? budget : undefined,
+      verifications: verifications.length > 0 ? verifications : undefined,
+      browser: !values['no-browser'],
+      verbose: values.verbose ?? false,
+    },
+  };
+}
+
+function parseRawArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    strict: true,
+    options: {
+      model: { type: 'string', short: 'm' },
+      cwd: { type: 'string', short: 'C' },
+      format: { type: 'string', short: 'f' },
+      'auto-approve': { type: 'boolean' },
+      'deny-all': { type: 'boolean' },
+      session: { type: 'string' },
+      'max-cost': { type: 'string' },
+      'max-steps': { type: 'string' },
+      'max-input-tokens': { type: 'string' },
+      'max-output-tokens': { type: 'string' },
+      verify: { type: 'string', multiple: true },
+      'verify-file': { type: 'string', multiple: true },
+      'verify-url': { type: 'string', multiple: true },
+      'data-dir': { type: 'string' },
+      opencode: { type: 'string' },
+      'no-browser': { type: 'boolean' },
+      verbose: { type: 'boolean', short: 'v' },
+      help: { type: 'boolean', short: 'h' },
+      version: { type: 'boolean' },
+    },
+  });
+}
@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+/**
+ * Headless command-line runner for Accomplish tasks.
+ *
+ *   accomplish run "<prompt>" [--model provider/model] [--cwd dir] [--format text|ndjson]
+ *
+ * stdout carries only task events; internal logs go to stderr with --verbose.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline/promises';
+import { fileURLToPath } from 'url';
+import { CliUsageError, USAGE, getDefaultCliEnvironment, parseCliArgs } from './args.js';
+import { createEventEmitter } from './output.js';
+import type { Prompter } from './permissions.js';
+import { EXIT_CODES, runTask } from './run.js';
+
+const USAGE_EXIT_CODE = 2;
+
+function redirectConsole(verbose: boolean): void {
+  const toStderr = (...args: unknown[]) => {
+    if (verbose) {
+      console.error(...args);
+    }
+  };
+  console.log = toStderr;
+  console.info = toStderr;
+  console.debug = toStderr;
+  console.warn = toStderr;
+}
+
+async function readStdin(): Promise<string> {
+  let input = '';
+  for await (const chunk of process.stdin) {
+    input += chunk;
+  }
+  return input.trim();
+}
+
+function createTtyPrompter(): Prompter {
+  return async (question) => {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+    try {
+      return await rl.question(question);
+    } finally {
+      rl.close();
+    }
+  };
+}
+
+function getVersion(): string {
+  const packageJsonPath = path.join(
+    fileURLToPath(new URL('../..', import.meta.url)),
+    'package.json',
+  );
+  return JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8')).version;
+}
+
+async function main(argv: string[]): Promise<number> {
+  let command;
+  try {
+    command = parseCliArgs(argv, getDefaultCliEnvironment());
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      process.stderr.write(`${error.message}\n\n${USAGE}\n`);
+      return USAGE_EXIT_CODE;
+    }
+    throw error;
+  }
+
+  if (command.command === 'help') {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  if (command.command === 'version') {
+    process.stdout.write(`${getVersion()}\n`);
+    return 0;
+  }
+
+  const { options } = command;
+  redirectConsole(options.verbose);
+
+  if (command.readPromptFromStdin) {
+    options.prompt = await readStdin();
+    if (!options.prompt) {
+      process.stderr.write(`Missing prompt\n\n${USAGE}\n`);
+      return USAGE_EXIT_CODE;
+    }
+  }
+
+  const emit = createEventEmitter(options.format, (chunk) => process.stdout.write(chunk));
+  return runTask(options, {
+    emit,
+    prompter: options.permissionPolicy === 'prompt' ? createTtyPrompter() : undefined,
+  });
+}
+
+main(process.argv.slice(2))
+  .then((exitCode) => {
+    process.exit(exitCode);
+  })
+  .catch((error) => {
+    process.stderr.write(`${error instanceof Error ? error.stack : String(error)}\n`);
+    process.exit(EXIT_CODES.error);
+  });
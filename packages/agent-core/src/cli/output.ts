@@ -0,0 +1,113 @@
+import type {
+  TaskBudgetLimitStatus,
+  TaskMessage,
+  TaskResult,
+  TaskStatus,
+  TaskUsage,
+} from '../common/types/task.js';
+import type { PermissionRequest } from '../common/types/permission.js';
+import { TODO_STATUS_MARKERS, type TodoItem } from '../common/types/todo.js';
+import type { TaskProgressEvent } from '../types/task-manager.js';
+import { describeVerificationCheck } from '../utils/verification.js';
+import type { OutputFormat } from './args.js';
+
+export type CliEvent =
+  | { type: 'task'; taskId: string; prompt: string; model?: string; workingDirectory: string }
+  | { type: 'progress'; progress: TaskProgressEvent }
+  | { type: 'message'; message: TaskMessage }
+  | { type: 'status'; status: TaskStatus }
+  | { type: 'todos'; todos: TodoItem[] }
+  | { type: 'permission'; request: PermissionRequest; decision: 'allow' | 'deny'; answer?: string }
+  | { type: 'auth-error'; providerId: string; message: string }
+  | { type: 'usage'; usage: TaskUsage; budget: TaskBudgetLimitStatus[] }
+  | { type: 'budget-warning'; status: TaskBudgetLimitStatus; usage: TaskUsage }
+  | { type: 'complete'; result: TaskResult }
+  | { type: 'error'; message: string };
+
+export type EmitCliEvent = (event: CliEvent) => void;
+
+/**
+ * Create an emitter that writes task events as NDJSON (one JSON object per
+ * line, stamped with the time) or as human-readable text.
+ */
+export function createEventEmitter(
+  format: OutputFormat,
+  write: (chunk: string) => void,
+): EmitCliEvent {
+  if (format === 'ndjson') {
+    return (event) => {
+      write(`${JSON.stringify({ ...event, timestamp: new Date().toISOString() })}\n`);
+    };
+  }
+
+  return (event) => {
+    const text = formatEventAsText(event);
+    if (text !== null) {
+      write(`${text}\n`);
+    }
+  };
+}
+
+export function formatEventAsText(event: CliEvent): string | null {
+  switch (event.type) {
+    case 'task':
+      return `[task] ${event.taskId} started in ${event.workingDirectory}${
+        event.model ? ` using ${event.model}` : ''
+      }`;
+    case 'progress':
+      return event.progress.message ? `[${event.progress.stage}] ${event.progress.message}` : null;
+    case 'message':
+      return formatMessageAsText(event.message);
+    case 'status':
+      return `[status] ${event.status}`;
+    case 'todos':
+      return event.todos
+        .map((todo) => `${TODO_STATUS_MARKERS[todo.status]} ${todo.content}`)
+        .join('\n');
+    case 'permission': {
+      const subject =
+        event.request.type === 'question'
+          ? event.request.question
+          : `${event.request.fileOperation} ${
+              event.request.filePaths?.join(', ') ?? event.request.filePath
+            }`;
+      const verdict = event.decision === 'allow' ? 'allowed' : 'denied';
+      return `[permission] ${subject} -> ${event.answer ? `${verdict}: ${event.answer}` : verdict}`;
+    }
+    case 'auth-error':
+      return `[auth] ${event.providerId}: ${event.message}`;
+    case 'usage':
+      return null;
+    case 'budget-warning':
+      return `[budget] ${event.status.limit} at ${Math.round(event.status.ratio * 100)}% (${
+        event.status.used
+      } of ${event.status.max})`;
+    case 'complete': {
+      const duration =
+        event.result.durationMs !== undefined
+          ? ` in ${(event.result.durationMs / 1000).toFixed(1)}s`
+          : '';
+      const error = event.result.error ? `: ${event.result.error}` : '';
+      const checks = (event.result.verification ?? []).map(
+        (result) =>
+          `[verify] ${result.passed ? 'passed' : 'failed'} ${describeVerificationCheck(result.check)}`,
+      );
+      return [...checks, `[done] ${event.result.status}${duration}${error}`].join('\n');
+    }
+    case 'error':
+      return `[error] ${event.message}`;
+  }
+}
+
+function formatMessageAsText(message: TaskMessage): string | null {
+  switch (message.type) {
+    case 'assistant':
+      return message.content;
+    case 'tool':
+      return `[tool] ${message.toolName ?? message.content}`;
+    case 'system':
+      return `[system] ${message.content}`;
+    case 'user':
+      return `> ${message.content}`;
+  }
+}
@@ -0,0 +1,317 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { PermissionRequest, QuestionInputType } from '../common/types/permission.js';
+import type { SandboxSettings } from '../common/types/sandbox.js';
+import { validateQuestionAnswer } from '../common/utils/question-answer.js';
+import { findSandboxViolations, formatSandboxRejection } from '../utils/sandbox.js';
+import type {
+  FilePermissionRequestData,
+  PermissionHandlerAPI,
+  QuestionRequestData,
+  QuestionResponseData,
+} from '../types/permission-handler.js';
+import type { PermissionPolicy } from './args.js';
+
+/** Asks the user a single line question and resolves with their answer */
+export type Prompter = (question: string) => Promise<string>;
+
+export interface PermissionResolver {
+  resolveFilePermission(request: PermissionRequest): Promise<boolean>;
+  resolveQuestion(request: PermissionRequest): Promise<QuestionResponseData>;
+}
+
+export interface PermissionServersOptions {
+  handler: PermissionHandlerAPI;
+  resolver: PermissionResolver;
+  getTaskId: () => string | null;
+  /** Sandbox file operations are checked against; omitted or disabled means no sandbox */
+  sandbox?: SandboxSettings & { workingDirectory: string };
+  onResolved?: (
+    request: PermissionRequest,
+    decision: 'allow' | 'deny',
+    response?: QuestionResponseData,
+  ) => void;
+}
+
+export interface PermissionServers {
+  permissionPort: number;
+  questionPort: number;
+  close(): Promise<void>;
+}
+
+/**
+ * Build a resolver that answers requests according to the CLI permission policy.
+ * Interactive prompts are serialized so concurrent requests never interleave.
+ */
+export function createPermissionResolver(
+  policy: PermissionPolicy,
+  prompter?: Prompter,
+): PermissionResolver {
+  if (policy === 'auto-approve') {
+    return {
+      // Requests the sandbox escalates need a person to look at them
+      resolveFilePermission: async (request) => !request.sandboxViolations?.length,
+      resolveQuestion: async (request) =>
+        request.options?.length
+          ? { selectedOptions: [request.options[0].label] }
+          : { denied: true },
+    };
+  }
+
+  if (policy === 'deny-all' || !prompter) {
+    return {
+      resolveFilePermission: async () => false,
+      resolveQuestion: async () => ({ denied: true }),
+    };
+  }
+
+  let queue: Promise<unknown> = Promise.resolve();
+  const serialize = <T>(fn: () => Promise<T>): Promise<T> => {
+    const next = queue.then(fn, fn);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  return {
+    resolveFilePermission: (request) =>
+      serialize(async () => {
+        const paths = request.filePaths?.length ? request.filePaths.join(', ') : request.filePath;
+        const target = request.targetPath ? ` -> ${request.targetPath}` : '';
+        const warning = request.sandboxViolations?.length
+          ? `WARNING: outside the working directory: ${request.sandboxViolations.join(', ')}\n`
+          : '';
+        const answer = await prompter(
+          `${warning}Allow ${request.fileOperation} ${paths}${target}? [y/N] `,
+        );
+        return /^y(es)?$/i.test(answer.trim());
+      }),
+    resolveQuestion: (request) =>
+      serialize(async () => {
+        if (request.inputType && request.inputType !== 'choice') {
+          return askTypedQuestion(request, request.inputType, prompter);
+        }
+        const options = request.options ?? [];
+        const lines = [request.header, request.question].filter(Boolean) as string[];
+        options.forEach((option, index) => {
+          lines.push(
+            `  ${index + 1}. ${option.label}${option.description ? ` - ${option.description}` : ''}`,
+          );
+        });
+        const hint = options.length
+          ? request.multiSelect
+            ? 'Choose numbers separated by commas, or type an answer'
+            : 'Choose a number, or type an answer'
+          : 'Type an answer';
+        lines.push(`${hint} (empty to decline): `);
+
+        const answer = (await prompter(lines.join('\n'))).trim();
+        return parseQuestionAnswer(answer, options, request.multiSelect ?? false);
+      }),
+  };
+}
+
+const TYPED_QUESTION_HINTS: Record<Exclude<QuestionInputType, 'choice'>, string> = {
+  text: 'Type an answer',
+  number: 'Type a number',
+  date: 'Type a date as YYYY-MM-DD',
+  confirm: 'Answer y or n',
+  secret: 'Type the secret',
+  file: 'Type a file path',
+  folder: 'Type a folder path',
+};
+
+/** Ask a typed question until the answer meets its constraints or is left empty */
+async function askTypedQuestion(
+  request: PermissionRequest,
+  inputType: Exclude<QuestionInputType, 'choice'>,
+  prompter: Prompter,
+): Promise<QuestionResponseData> {
+  const hint = `${TYPED_QUESTION_HINTS[inputType]} (empty to decline): `;
+  let prompt = [request.header, request.question, hint].filter(Boolean).join('\n');
+  for (;;) {
+    const raw = await prompter(prompt);
+    // Secrets are passed on exactly as typed
+    let answer = inputType === 'secret' ? raw : raw.trim();
+    if (!answer) {
+      return { denied: true };
+    }
+    if (inputType === 'confirm') {
+      answer = /^y(es)?$/i.test(answer) ? 'yes' : /^no?$/i.test(answer) ? 'no' : answer;
+    }
+    const error = validateQuestionAnswer(inputType, request.constraints, answer);
+    if (!error) {
+      return { customText: answer };
+    }
+    prompt = `Invalid answer (${error}). ${hint}`;
+  }
+}
+
+export function parseQuestionAnswer(
+  answer: string,
+  options: Array<{ label: string }>,
+  multiSelect: boolean,
+): QuestionResponseData {
+  if (!answer) {
+    return { denied: true };
+  }
+
+  const tokens = answer.split(',').map((token) => token.trim());
+  const indexes = tokens.map((token) => (/^\d+$/.test(token) ? Number(token) - 1 : -1));
+  const allValid = indexes.every((index) => index >= 0 && index < options.length);
+
+  if (options.length > 0 && allValid && (multiSelect || indexes.length === 1)) {
+    return { selectedOptions: indexes.map((index) => options[index].label) };
+  }
+
+  return { customText: answer };
+}
+
+/**
+ * Start the HTTP endpoints the file-permission and ask-user-question MCP tools
+ * call. They listen on ephemeral ports so the CLI can run next to the desktop app.
+ */
+export async function startPermissionServers(
+  options: PermissionServersOptions,
+): Promise<PermissionServers> {
+  const { handler, resolver, getTaskId, sandbox, onResolved } = options;
+
+  const permissionServer = createJsonServer('/permission', async (body) => {
+    const validation = handler.validateFilePermissionRequest(body);
+    if (!validation.valid) {
+      return { status: 400, payload: { error: validation.error } };
+    }
+
+    const taskId = getTaskId();
+    if (!taskId) {
+      return { status: 400, payload: { error: 'No active task' } };
+    }
+
+    const { requestId, promise } = handler.createPermissionRequest();
+    const request = handler.buildFilePermissionRequest(
+      requestId,
+      taskId,
+      body as FilePermissionRequestData,
+    );
+
+    const violations = sandbox?.enabled
+      ? findSandboxViolations(request, sandbox.workingDirectory, sandbox.allowedRoots)
+      : [];
+    if (violations.length > 0) {
+      if (sandbox?.mode === 'reject') {
+        handler.resolvePermissionRequest(requestId, false);
+        onResolved?.(request, 'deny');
+        return {
+          status: 200,
+          payload: { allowed: false, reason: formatSandboxRejection(violations) },
+        };
+      }
+      request.sandboxViolations = violations;
+    }
+
+    void resolver
+      .resolveFilePermission(request)
+      .catch(() => false)
+      .then((allowed) => {
+        handler.resolvePermissionRequest(requestId, allowed);
+        onResolved?.(request, allowed ? 'allow' : 'deny');
+      });
+
+    try {
+      return { status: 200, payload: { allowed: await promise } };
+    } catch {
+      return { status: 408, payload: { error: 'Request timed out', allowed: false } };
+    }
+  });
+
+  const questionServer = createJsonServer('/question', async (body) => {
+    const validation = handler.validateQuestionRequest(body);
+    if (!validation.valid) {
+      return { status: 400, payload: { error: validation.error } };
+    }
+
+    const taskId = getTaskId();
+    if (!taskId) {
+      return { status: 400, payload: { error: 'No active task' } };
+    }
+
+    const { requestId, promise } = handler.createQuestionRequest();
+    const request = handler.buildQuestionRequest(requestId, taskId, body as QuestionRequestData);
+    void resolver
+      .resolveQuestion(request)
+      .catch((): QuestionResponseData => ({ denied: true }))
+      .then((response) => {
+        handler.resolveQuestionRequest(requestId, response);
+        onResolved?.(request, response.denied ? 'deny' : 'allow', response);
+      });
+
+    try {
+      return { status: 200, payload: await promise };
+    } catch {
+      return { status: 408, payload: { error: 'Request timed out', denied: true } };
+    }
+  });
+
+  const [permissionPort, questionPort] = await Promise.all([
+    listenOnEphemeralPort(permissionServer),
+    listenOnEphemeralPort(questionServer),
+  ]);
+
+  return {
+    permissionPort,
+    questionPort,
+    close: async () => {
+      handler.clearAll();
+      await Promise.all([closeServer(permissionServer), closeServer(questionServer)]);
+    },
+  };
+}
+
+function createJsonServer(
+  route: string,
+  onRequest: (body: unknown) => Promise<{ status: number; payload: unknown }>,
+): http.Server {
+  return http.createServer(async (req, res) => {
+    const send = (status: number, payload: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(payload));
+    };
+
+    if (req.method !== 'POST' || req.url !== route) {
+      send(404, { error: 'Not found' });
+      return;
+    }
+
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(body);
+    } catch {
+      send(400, { error: 'Invalid JSON' });
+      return;
+    }
+
+    const { status, payload } = await onRequest(data);
+    send(status, payload);
+  });
+}
+
+function listenOnEphemeralPort(server: http.Server): Promise<number> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      server.off('error', reject);
+      resolve((server.address() as AddressInfo).port);
+    });
+  });
+}
+
+function closeServer(server: http.Server): Promise<void> {
+  return new Promise((resolve) => {
+    server.closeAllConnections?.();
+    server.close(() => resolve());
+  });
+}
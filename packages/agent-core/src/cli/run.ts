@@ -0,0 +1,511 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { TaskResult, TaskMessage } from '../common/types/task.js';
+import type { SelectedModel } from '../common/types/provider.js';
+import type { ProviderId } from '../common/types/providerSettings.js';
+import type { BedrockCredentials, VertexCredentials } from '../common/types/auth.js';
+import type { AzureFoundryCredentials } from '../common/types/providerSettings.js';
+import { PROVIDER_ID_TO_OPENCODE } from '../common/types/providerSettings.js';
+import { DEV_BROWSER_PORT } from '../common/constants.js';
+import { getModelDisplayName } from '../common/constants/model-display.js';
+import { createMessageId, createTaskId } from '../common/utils/id.js';
+import type { StorageAPI } from '../types/storage.js';
+import type { TaskCallbacks, TaskManagerOptions } from '../types/task-manager.js';
+import { createStorage } from '../factories/storage.js';
+import { createTaskManager } from '../factories/task-manager.js';
+import { createPermissionHandler } from '../factories/permission-handler.js';
+import { generateConfig, buildCliArgs } from '../opencode/config-generator.js';
+import { buildProviderConfigs, syncApiKeysToOpenCodeAuth } from '../opencode/config-builder.js';
+import { buildOpenCodeEnvironment } from '../opencode/environment.js';
+import { resolveCliPath } from '../opencode/cli-resolver.js';
+import { getOpenCodeAuthPath } from '../opencode/auth.js';
+import { getAzureEntraToken } from '../opencode/proxies/index.js';
+import { isTokenExpired } from '../connectors/mcp-oauth.js';
+import { ensureDevBrowserServer } from '../browser/server.js';
+import { getEnabledSkills } from '../storage/repositories/index.js';
+import { mapResultToStatus } from '../utils/task-status.js';
+import { getFilePermissionArtifacts } from '../utils/task-artifacts.js';
+import type { RunCommandOptions } from './args.js';
+import type { EmitCliEvent } from './output.js';
+import { createPermissionResolver, startPermissionServers, type Prompter } from './permissions.js';
+
+/** Root of the agent-core package, valid from both src/cli and dist/cli */
+const PACKAGE_ROOT = fileURLToPath(new URL('../..', import.meta.url));
+
+const VERTEX_SA_KEY_FILENAME = 'vertex-sa-key.json';
+
+export const EXIT_CODES: Record<TaskResult['status'], number> = {
+  success: 0,
+  error: 1,
+  interrupted: 130,
+};
+
+export function getExitCode(result: TaskResult): number {
+  return EXIT_CODES[result.status];
+}
+
+/**
+ * Resolve a `<provider>/<model>` flag into the model shape the CLI args builder
+ * expects. The provider may be given as an Accomplish provider ID (`zai`) or as
+ * its OpenCode ID (`zai-coding-plan`).
+ */
+export function parseModelFlag(value: string): SelectedModel {
+  const separator = value.indexOf('/');
+  const prefix = value.slice(0, separator);
+  const rest = value.slice(separator + 1);
+
+  const providerId = (Object.keys(PROVIDER_ID_TO_OPENCODE) as ProviderId[]).find(
+    (id) => id === prefix || PROVIDER_ID_TO_OPENCODE[id] === prefix,
+  );
+  if (!providerId) {
+    throw new Error(`Unknown provider "${prefix}" in --model ${value}`);
+  }
+
+  return {
+    provider: providerId,
+    model: `${PROVIDER_ID_TO_OPENCODE[providerId]}/${rest}`,
+  };
+}
+
+export interface RunTaskIO {
+  emit: EmitCliEvent;
+  /** Used to ask the user when the permission policy is "prompt" */
+  prompter?: Prompter;
+}
+
+/**
+ * Run a single task to completion without Electron and return the process exit code.
+ * Provider settings, API keys and task history are shared with the desktop app
+ * through the data directory.
+ */
+export async function runTask(options: RunCommandOptions, io: RunTaskIO): Promise<number> {
+  const { emit } = io;
+
+  if (
+    !fs.existsSync(options.workingDirectory) ||
+    !fs.statSync(options.workingDirectory).isDirectory()
+  ) {
+    emit({ type: 'error', message: `Working directory not found: ${options.workingDirectory}` });
+    return EXIT_CODES.error;
+  }
+
+  fs.mkdirSync(options.dataDir, { recursive: true });
+  const storage = createStorage({
+    databasePath: path.join(options.dataDir, 'accomplish.db'),
+    runMigrations: true,
+    userDataPath: options.dataDir,
+    secureStorageFileName: 'secure-storage.json',
+  });
+
+  const cleanups: Array<() => void | Promise<void>> = [() => storage.close()];
+  const cleanup = async () => {
+    for (const fn of cleanups.reverse()) {
+      try {
+        await fn();
+      } catch (error) {
+        console.warn('[CLI] Cleanup failed:', error);
+      }
+    }
+  };
+
+  try {
+    storage.initialize();
+
+    const selectedModel = options.model
+      ? parseModelFlag(options.model)
+      : (storage.getActiveProviderModel() ?? storage.getSelectedModel());
+    if (!selectedModel) {
+      throw new Error(
+        'No model selected. Pass --model <provider>/<model> or choose a model in the Accomplish app.',
+      );
+    }
+
+    const cliPath =
+      options.opencodePath ?? resolveCliPath({ isPackaged: false, appPath: PACKAGE_ROOT })?.cliPath;
+    if (!cliPath || !fs.existsSync(cliPath)) {
+      throw new Error(
+        'OpenCode CLI executable not found. Pass --opencode <path> or set OPENCODE_CLI_PATH.',
+      );
+    }
+
+    let activeTaskId: string | null = null;
+    const permissionServers = await startPermissionServers({
+      handler: createPermissionHandler(),
+      resolver: createPermissionResolver(options.permissionPolicy, io.prompter),
+      getTaskId: () => activeTaskId,
+      sandbox: { ...storage.getSandboxSettings(), workingDirectory: options.workingDirectory },
+      onResolved: (request, decision, response) => {
+        // Secret answers are for the agent only
+        const answer =
+          request.inputType === 'secret'
+            ? undefined
+            : response?.selectedOptions?.join(', ') || response?.customText;
+        emit({ type: 'permission', request, decision, ...(answer && { answer }) });
+        if (request.type === 'file' && decision === 'allow') {
+          const artifacts = getFilePermissionArtifacts(request);
+          if (artifacts.length > 0) {
+            storage.recordTaskArtifacts(request.taskId, artifacts);
+          }
+        }
+      },
+    });
+    cleanups.push(() => permissionServers.close());
+
+    const configDir = path.join(options.dataDir, 'cli');
+    cleanups.push(() => removeVertexServiceAccountKey(configDir));
+
+    const taskManager = createTaskManager(
+      createCliTaskManagerOptions({
+        options,
+        storage,
+        selectedModel,
+        cliPath,
+        configDir,
+        permissionApiPort: permissionServers.permissionPort,
+        questionApiPort: permissionServers.questionPort,
+      }),
+    );
+    cleanups.push(() => taskManager.dispose());
+
+    const taskId = createTaskId();
+    activeTaskId = taskId;
+
+    let resolveResult: (result: TaskResult) => void = () => {};
+    const resultPromise = new Promise<TaskResult>((resolve) => {
+      resolveResult = resolve;
+    });
+
+    const callbacks = createCliTaskCallbacks(taskId, storage, emit, resolveResult);
+
+    let interruptCount = 0;
+    const onSigint = () => {
+      interruptCount += 1;
+      if (interruptCount === 1) {
+        emit({
+          type: 'progress',
+          progress: {
+            stage: 'interrupt',
+            message: 'Interrupting task (Ctrl+C again to cancel)...',
+          },
+        });
+        void taskManager.interruptTask(taskId).catch(() => undefined);
+      } else {
+        void taskManager
+          .cancelTask(taskId)
+          .catch(() => undefined)
+          .finally(() => resolveResult({ status: 'interrupted', error: 'Cancelled by user' }));
+      }
+    };
+    process.on('SIGINT', onSigint);
+    cleanups.push(() => {
+      process.off('SIGINT', onSigint);
+    });
+
+    emit({
+      type: 'task',
+      taskId,
+      prompt: options.prompt,
+      model: selectedModel.model,
+      workingDirectory: options.workingDirectory,
+    });
+
+    const task = await taskManager.startTask(
+      taskId,
+      {
+        prompt: options.prompt,
+        taskId,
+        workingDirectory: options.workingDirectory,
+        sessionId: options.sessionId,
+        modelId: selectedModel.model,
+        budget: options.budget,
+        verifications: options.verifications,
+      },
+      callbacks,
+    );
+
+    const initialUserMessage: TaskMessage = {
+      id: createMessageId(),
+      type: 'user',
+      content: options.prompt,
+      timestamp: new Date().toISOString(),
+    };
+    task.messages = [initialUserMessage];
+    storage.saveTask(task);
+
+    const result = await resultPromise;
+    return getExitCode(result);
+  } catch (error) {
+    emit({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    return EXIT_CODES.error;
+  } finally {
+    await cleanup();
+  }
+}
+
+function createCliTaskCallbacks(
+  taskId: string,
+  storage: StorageAPI,
+  emit: EmitCliEvent,
+  onResult: (result: TaskResult) => void,
+): TaskCallbacks {
+  return {
+    onBatchedMessages: (messages) => {
+      for (const message of messages) {
+        emit({ type: 'message', message });
+        storage.addTaskMessage(taskId, message);
+      }
+    },
+    onProgress: (progress) => {
+      emit({ type: 'progress', progress });
+    },
+    onPermissionRequest: (request) => {
+      // Tool permissions are answered by the MCP permission servers; this path
+      // only fires for legacy CLI prompts, which the CLI cannot answer.
+      emit({ type: 'permission', request, decision: 'deny' });
+    },
+    onStatusChange: (status) => {
+      emit({ type: 'status', status });
+      storage.updateTaskStatus(taskId, status, new Date().toISOString());
+    },
+    onTodoUpdate: (todos) => {
+      emit({ type: 'todos', todos });
+      storage.saveTodosForTask(taskId, todos);
+    },
+    onAuthError: (error) => {
+      emit({ type: 'auth-error', ...error });
+    },
+    onStepFinish: (step) => {
+      if (step.tokens || step.cost !== undefined) {
+        storage.recordTaskUsage(taskId, step);
+      }
+    },
+    onUsageUpdate: (usage, budget) => {
+      emit({ type: 'usage', usage, budget });
+    },
+    onBudgetWarning: (status, usage) => {
+      emit({ type: 'budget-warning', status, usage });
+    },
+    onComplete: (completed) => {
+      const artifacts = storage.getArtifactsForTask(taskId);
+      const result: TaskResult = artifacts.length > 0 ? { ...completed, artifacts } : completed;
+      storage.updateTaskStatus(taskId, mapResultToStatus(result), new Date().toISOString());
+      if (result.sessionId) {
+        storage.updateTaskSessionId(taskId, result.sessionId);
+      }
+      if (result.status === 'success') {
+        storage.clearTodosForTask(taskId);
+      }
+      emit({ type: 'complete', result });
+      onResult(result);
+    },
+    onError: (error) => {
+      storage.updateTaskStatus(taskId, 'failed', new Date().toISOString());
+      const result: TaskResult = { status: 'error', error: error.message };
+      emit({ type: 'complete', result });
+      onResult(result);
+    },
+  };
+}
+
+interface CliTaskManagerContext {
+  options: RunCommandOptions;
+  storage: StorageAPI;
+  selectedModel: SelectedModel;
+  cliPath: string;
+  configDir: string;
+  permissionApiPort: number;
+  questionApiPort: number;
+}
+
+function createCliTaskManagerOptions(context: CliTaskManagerContext): TaskManagerOptions {
+  const { options, storage, selectedModel, cliPath, configDir } = context;
+  const mcpToolsPath = path.join(PACKAGE_ROOT, 'mcp-tools');
+  // MCP tools run on the same Node.js that runs the CLI
+  const nodeBinPath = path.dirname(process.execPath);
+  const configPath = path.join(configDir, 'opencode', 'opencode.json');
+
+  return {
+    adapterOptions: {
+      platform: process.platform,
+      isPackaged: false,
+      tempPath: options.workingDirectory,
+      getCliCommand: () => ({ command: cliPath, args: [] }),
+      getModelDisplayName,
+      buildCliArgs: async (config) =>
+        buildCliArgs({
+          prompt: config.prompt,
+          sessionId: config.sessionId,
+          selectedModel: { provider: selectedModel.provider, model: selectedModel.model },
+          systemPromptAppend: config.systemPromptAppend,
+          outputSchema: config.outputSchema,
+        }),
+      buildEnvironment: async (taskId) => {
+        const env: NodeJS.ProcessEnv = {
+          ...process.env,
+          OPENCODE_CONFIG: configPath,
+          OPENCODE_CONFIG_DIR: path.dirname(configPath),
+        };
+
+        let vertexCredentials: VertexCredentials | undefined;
+        let vertexServiceAccountKeyPath: string | undefined;
+        const vertexCredsJson = storage.getApiKey('vertex');
+        if (vertexCredsJson) {
+          try {
+            vertexCredentials = JSON.parse(vertexCredsJson) as VertexCredentials;
+            if (
+              vertexCredentials.authType === 'serviceAccount' &&
+              vertexCredentials.serviceAccountJson
+            ) {
+              vertexServiceAccountKeyPath = path.join(configDir, VERTEX_SA_KEY_FILENAME);
+              fs.writeFileSync(vertexServiceAccountKeyPath, vertexCredentials.serviceAccountJson, {
+                mode: 0o600,
+              });
+            }
+          } catch {
+            console.warn('[CLI] Failed to parse Vertex credentials');
+          }
+        }
+
+        const apiKeys = await storage.getAllApiKeys();
+        return buildOpenCodeEnvironment(env, {
+          apiKeys,
+          bedrockCredentials:
+            (storage.getBedrockCredentials() as BedrockCredentials | null) ?? undefined,
+          vertexCredentials,
+          vertexServiceAccountKeyPath,
+          bundledNodeBinPath: nodeBinPath,
+          taskId,
+          openAiBaseUrl: apiKeys.openai
+            ? storage.getOpenAiBaseUrl().trim() || undefined
+            : undefined,
+          ollamaHost: selectedModel.provider === 'ollama' ? selectedModel.baseUrl : undefined,
+        });
+      },
+      onBeforeStart: async () => {
+        await syncApiKeysToOpenCodeAuth(getOpenCodeAuthPath(), await storage.getAllApiKeys());
+        await generateCliOpenCodeConfig({
+          ...context,
+          mcpToolsPath,
+          nodeBinPath,
+          azureFoundryToken: await getAzureFoundryTokenIfNeeded(storage, selectedModel),
+        });
+      },
+    },
+    defaultWorkingDirectory: options.workingDirectory,
+    maxConcurrentTasks: 1,
+    isCliAvailable: async () => fs.existsSync(cliPath),
+    getProjectVerifications: (workingDirectory) =>
+      storage.getProjectProfileForDirectory(workingDirectory)?.verifications,
+    onBeforeTaskStart: options.browser
+      ? async (callbacks, isFirstTask) => {
+          if (isFirstTask) {
+            callbacks.onProgress({
+              stage: 'browser',
+              message: 'Preparing browser...',
+              isFirstTask,
+            });
+          }
+          await ensureDevBrowserServer(
+            { mcpToolsPath, bundledNodeBinPath: nodeBinPath, devBrowserPort: DEV_BROWSER_PORT },
+            callbacks.onProgress,
+          );
+        }
+      : undefined,
+  };
+}
+
+async function getAzureFoundryTokenIfNeeded(
+  storage: StorageAPI,
+  selectedModel: SelectedModel,
+): Promise<string | undefined> {
+  if (selectedModel.provider !== 'azure-foundry') {
+    return undefined;
+  }
+
+  const credentials = storage.getConnectedProvider('azure-foundry')?.credentials as
+    | AzureFoundryCredentials
+    | undefined;
+  const isEntraId =
+    credentials?.authMethod === 'entra-id' ||
+    storage.getAzureFoundryConfig()?.authType === 'entra-id';
+  if (!isEntraId) {
+    return undefined;
+  }
+
+  const tokenResult = await getAzureEntraToken();
+  if (!tokenResult.success) {
+    throw new Error(tokenResult.error);
+  }
+  return tokenResult.token;
+}
+
+async function generateCliOpenCodeConfig(
+  context: CliTaskManagerContext & {
+    mcpToolsPath: string;
+    nodeBinPath: string;
+    azureFoundryToken?: string;
+  },
+): Promise<void> {
+  const { storage, options } = context;
+
+  const { providerConfigs, enabledProviders, modelOverride } = await buildProviderConfigs({
+    getApiKey: (provider) => storage.getApiKey(provider),
+    azureFoundryToken: context.azureFoundryToken,
+  });
+
+  // Project-scoped OpenAI keys reject stored completions
+  if (storage.getApiKey('openai')) {
+    const openAi = providerConfigs.find((p) => p.id === 'openai');
+    if (openAi) {
+      openAi.options.store = false;
+    } else {
+      providerConfigs.push({ id: 'openai', options: { store: false } });
+    }
+  }
+
+  const connectors = storage
+    .getEnabledConnectors()
+    .filter((connector) => connector.status === 'connected')
+    .flatMap((connector) => {
+      const tokens = storage.getConnectorTokens(connector.id);
+      if (!tokens?.accessToken || isTokenExpired(tokens)) {
+        console.warn(`[CLI] Skipping connector ${connector.name}: no valid access token`);
+        return [];
+      }
+      return [
+        {
+          id: connector.id,
+          name: connector.name,
+          url: connector.url,
+          accessToken: tokens.accessToken,
+        },
+      ];
+    });
+
+  generateConfig({
+    platform: process.platform,
+    mcpToolsPath: context.mcpToolsPath,
+    userDataPath: context.configDir,
+    isPackaged: false,
+    bundledNodeBinPath: context.nodeBinPath,
+    skills: getEnabledSkills(),
+    providerConfigs,
+    permissionApiPort: context.permissionApiPort,
+    questionApiPort: context.questionApiPort,
+    enabledProviders,
+    model: modelOverride?.model,
+    smallModel: modelOverride?.smallModel,
+    browser: options.browser ? undefined : { mode: 'none' },
+    connectors: connectors.length > 0 ? connectors : undefined,
+  });
+
+  console.log('[CLI] Generated OpenCode config in', context.configDir);
+}
+
+function removeVertexServiceAccountKey(configDir: string): void {
+  const keyPath = path.join(configDir, VERTEX_SA_KEY_FILENAME);
+  if (fs.existsSync(keyPath)) {
+    fs.unlinkSync(keyPath);
+  }
+}
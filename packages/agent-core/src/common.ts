@@ -15,6 +15,16 @@ export type {
   TaskAttachment,
   TaskMessage,
   TaskResult,
+  TaskBudget,
+  TaskBudgetLimit,
+  TaskBudgetLimitStatus,
+  TaskTimeoutLimits,
+  TaskTimeout,
+  TaskRunConfig,
+  QueuedTaskInfo,
+  SubtaskResult,
+  JsonValue,
+  TaskUsage,
   TaskProgress,
   TaskUpdateEvent,
 } from './common/types/task.js';
@@ -26,11 +36,14 @@ export type {
   PermissionRequest,
   PermissionOption,
   PermissionResponse,
+  QuestionInputType,
+  QuestionInputConstraints,
 } from './common/types/permission.js';
 export {
   FILE_OPERATIONS,
   FILE_PERMISSION_REQUEST_PREFIX,
   QUESTION_REQUEST_PREFIX,
+  QUESTION_INPUT_TYPES,
 } from './common/types/permission.js';
 
 // Provider types
@@ -115,6 +128,94 @@ export type {
 // Skills types
 export type { SkillSource, Skill, SkillFrontmatter } from './common/types/skills.js';
 
+// Schedule types
+export type { TaskSchedule, CreateScheduleInput } from './common/types/schedule.js';
+
+// Webhook types
+export type {
+  WebhookEvent,
+  WebhookTarget,
+  CreateWebhookTargetInput,
+  UpdateWebhookTargetInput,
+  WebhookDeliveryStatus,
+  WebhookDelivery,
+  WebhookTaskSummary,
+  WebhookPayload,
+} from './common/types/webhook.js';
+export { WEBHOOK_EVENTS } from './common/types/webhook.js';
+
+// Artifact types
+export type { TaskArtifact, TaskArtifactInput } from './common/types/artifact.js';
+
+// Sandbox types
+export type { SandboxMode, SandboxSettings } from './common/types/sandbox.js';
+
+// Trash types
+export type { TrashEntry, TrashReason, TrashSettings } from './common/types/trash.js';
+
+// Snapshot types
+export type {
+  SnapshotChange,
+  SnapshotChangeType,
+  SnapshotFileRecord,
+  SnapshotManifest,
+  SnapshotRollbackResult,
+  TaskSnapshot,
+  TaskSnapshotTrigger,
+} from './common/types/snapshot.js';
+
+// Verification types
+export type {
+  VerificationCheck,
+  VerificationCheckType,
+  VerificationResult,
+  ProjectProfile,
+  ProjectProfileInput,
+} from './common/types/verification.js';
+
+// Permission rule types
+export type {
+  PermissionRule,
+  PermissionRuleDecision,
+  PermissionRuleInput,
+  PermissionRuleScope,
+} from './common/types/permission-rule.js';
+
+// Permission audit types
+export type {
+  PermissionAuditDecider,
+  PermissionAuditEntry,
+  PermissionAuditEntryInput,
+  PermissionAuditExportFormat,
+  PermissionAuditOutcome,
+} from './common/types/permission-audit.js';
+
+// File diff types
+export type {
+  FileDiff,
+  FileDiffHunk,
+  FileDiffLine,
+  FileDiffLineType,
+} from './common/types/file-diff.js';
+
+// Local API types
+export type {
+  LocalApiSettings,
+  UpdateLocalApiSettingsInput,
+  LocalApiStatus,
+  LocalApiEvent,
+} from './common/types/local-api.js';
+
+// Usage types
+export type {
+  TaskUsageRecord,
+  TaskUsageSummary,
+  UsageAggregate,
+  UsageGroupBy,
+  UsageQuery,
+  UsageTotals,
+} from './common/types/usage.js';
+
 // Connector types
 export type {
   ConnectorStatus,
@@ -127,7 +228,14 @@ export type {
 // Other types
 export type { TodoItem } from './common/types/todo.js';
 export type { LogLevel, LogSource, LogEntry } from './common/types/logging.js';
-export type { ThoughtEvent, CheckpointEvent } from './common/types/thought-stream.js';
+export type {
+  ThoughtEvent,
+  CheckpointEvent,
+  StuckAction,
+  StuckPolicy,
+  StuckFallbackModel,
+  StuckEscalation,
+} from './common/types/thought-stream.js';
 
 // === CONSTANTS ===
 export {
@@ -136,6 +244,7 @@ export {
   THOUGHT_STREAM_PORT,
   PERMISSION_API_PORT,
   QUESTION_API_PORT,
+  LOCAL_API_DEFAULT_PORT,
   PERMISSION_REQUEST_TIMEOUT_MS,
   LOG_MAX_FILE_SIZE_BYTES,
   LOG_RETENTION_DAYS,
@@ -156,6 +265,13 @@ export { PROMPT_DEFAULT_MAX_LENGTH } from './utils/sanitize.js';
 export {
   createTaskId,
   createMessageId,
+  createScheduleId,
+  createWebhookTargetId,
+  createWebhookDeliveryId,
+  createProjectProfileId,
+  createPermissionRuleId,
+  createTrashEntryId,
+  createTaskSnapshotId,
   createFilePermissionRequestId,
   createQuestionRequestId,
   isFilePermissionRequest,
@@ -163,6 +279,8 @@ export {
 } from './common/utils/id.js';
 
 export { isWaitingForUser } from './common/utils/waiting-detection.js';
+export { validateQuestionInput, validateQuestionAnswer } from './common/utils/question-answer.js';
+export type { QuestionAnswerError } from './common/utils/question-answer.js';
 export { detectLogSource, LOG_SOURCE_PATTERNS } from './common/utils/log-source-detector.js';
 
 // === SCHEMAS ===
@@ -8,6 +8,9 @@ export const PERMISSION_API_PORT = 9226;
 
 export const QUESTION_API_PORT = 9227;
 
+/** Default port of the opt-in localhost REST API used for automation */
+export const LOCAL_API_DEFAULT_PORT = 9230;
+
 export const PERMISSION_REQUEST_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
 
 // Logging configuration constants
@@ -10,6 +10,16 @@ export type {
   TaskAttachment,
   TaskMessage,
   TaskResult,
+  TaskBudget,
+  TaskBudgetLimit,
+  TaskBudgetLimitStatus,
+  TaskTimeoutLimits,
+  TaskTimeout,
+  TaskRunConfig,
+  QueuedTaskInfo,
+  SubtaskResult,
+  JsonValue,
+  TaskUsage,
   TaskProgress,
   TaskUpdateEvent,
 } from './types/task.js';
@@ -21,11 +31,14 @@ export type {
   PermissionRequest,
   PermissionOption,
   PermissionResponse,
+  QuestionInputType,
+  QuestionInputConstraints,
 } from './types/permission.js';
 export {
   FILE_OPERATIONS,
   FILE_PERMISSION_REQUEST_PREFIX,
   QUESTION_REQUEST_PREFIX,
+  QUESTION_INPUT_TYPES,
 } from './types/permission.js';
 
 // Provider types
@@ -110,10 +123,100 @@ export type {
 // Skills types
 export type { SkillSource, Skill, SkillFrontmatter } from './types/skills.js';
 
+// Schedule types
+export type { TaskSchedule, CreateScheduleInput } from './types/schedule.js';
+
+// Webhook types
+export type {
+  WebhookEvent,
+  WebhookTarget,
+  CreateWebhookTargetInput,
+  UpdateWebhookTargetInput,
+  WebhookDeliveryStatus,
+  WebhookDelivery,
+  WebhookTaskSummary,
+  WebhookPayload,
+} from './types/webhook.js';
+export { WEBHOOK_EVENTS } from './types/webhook.js';
+
+// Artifact types
+export type { TaskArtifact, TaskArtifactInput } from './types/artifact.js';
+
+// Sandbox types
+export type { SandboxMode, SandboxSettings } from './types/sandbox.js';
+
+// Trash types
+export type { TrashEntry, TrashReason, TrashSettings } from './types/trash.js';
+
+// Snapshot types
+export type {
+  SnapshotChange,
+  SnapshotChangeType,
+  SnapshotFileRecord,
+  SnapshotManifest,
+  SnapshotRollbackResult,
+  TaskSnapshot,
+  TaskSnapshotTrigger,
+} from './types/snapshot.js';
+
+// Verification types
+export type {
+  VerificationCheck,
+  VerificationCheckType,
+  VerificationResult,
+  ProjectProfile,
+  ProjectProfileInput,
+} from './types/verification.js';
+
+// Permission rule types
+export type {
+  PermissionRule,
+  PermissionRuleDecision,
+  PermissionRuleInput,
+  PermissionRuleScope,
+} from './types/permission-rule.js';
+
+// Permission audit types
+export type {
+  PermissionAuditDecider,
+  PermissionAuditEntry,
+  PermissionAuditEntryInput,
+  PermissionAuditExportFormat,
+  PermissionAuditOutcome,
+} from './types/permission-audit.js';
+
+// File diff types
+export type { FileDiff, FileDiffHunk, FileDiffLine, FileDiffLineType } from './types/file-diff.js';
+
+// Local API types
+export type {
+  LocalApiSettings,
+  UpdateLocalApiSettingsInput,
+  LocalApiStatus,
+  LocalApiEvent,
+} from './types/local-api.js';
+
+// Usage types
+export type {
+  TaskUsageRecord,
+  TaskUsageSummary,
+  UsageAggregate,
+  UsageGroupBy,
+  UsageQuery,
+  UsageTotals,
+} from './types/usage.js';
+
 // Other types
 export type { TodoItem } from './types/todo.js';
 export type { LogLevel, LogSource, LogEntry } from './types/logging.js';
-export type { ThoughtEvent, CheckpointEvent } from './types/thought-stream.js';
+export type {
+  ThoughtEvent,
+  CheckpointEvent,
+  StuckAction,
+  StuckPolicy,
+  StuckFallbackModel,
+  StuckEscalation,
+} from './types/thought-stream.js';
 
 // === CONSTANTS ===
 export {
@@ -122,6 +225,7 @@ export {
   THOUGHT_STREAM_PORT,
   PERMISSION_API_PORT,
   QUESTION_API_PORT,
+  LOCAL_API_DEFAULT_PORT,
   PERMISSION_REQUEST_TIMEOUT_MS,
   LOG_MAX_FILE_SIZE_BYTES,
   LOG_RETENTION_DAYS,
@@ -139,6 +243,13 @@ export {
 export {
   createTaskId,
   createMessageId,
+  createScheduleId,
+  createWebhookTargetId,
+  createWebhookDeliveryId,
+  createProjectProfileId,
+  createPermissionRuleId,
+  createTrashEntryId,
+  createTaskSnapshotId,
   createFilePermissionRequestId,
   createQuestionRequestId,
   isFilePermissionRequest,
@@ -146,6 +257,8 @@ export {
 } from './utils/id.js';
 
 export { isWaitingForUser } from './utils/waiting-detection.js';
+export { validateQuestionInput, validateQuestionAnswer } from './utils/question-answer.js';
+export type { QuestionAnswerError } from './utils/question-answer.js';
 export { detectLogSource, LOG_SOURCE_PATTERNS } from './utils/log-source-detector.js';
 
 // === SCHEMAS ===
@@ -1,5 +1,46 @@
 import { z } from 'zod';
 
+export const taskBudgetSchema = z.object({
+  maxInputTokens: z.number().int().positive().optional(),
+  maxOutputTokens: z.number().int().positive().optional(),
+  maxCostUsd: z.number().positive().optional(),
+  maxSteps: z.number().int().positive().optional(),
+  warningThreshold: z.number().gt(0).max(1).optional(),
+});
+
+export const verificationCheckSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('command'),
+    command: z.string().min(1, 'Verification command is required'),
+    expectExitCode: z.number().int().optional(),
+    timeoutMs: z.number().int().positive().optional(),
+    name: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('file-exists'),
+    path: z.string().min(1, 'Verification path is required'),
+    name: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('url-status'),
+    url: z.string().url('Verification URL must be a valid URL'),
+    expectStatus: z.number().int().positive().optional(),
+    timeoutMs: z.number().int().positive().optional(),
+    name: z.string().optional(),
+  }),
+]);
+
+export const stuckPolicySchema = z.object({
+  action: z.enum(['notify', 'ask-user', 'switch-model']),
+  fallbackModel: z
+    .object({
+      providerId: z.string().min(1, 'Fallback provider is required'),
+      modelId: z.string().min(1, 'Fallback model is required'),
+    })
+    .optional(),
+  abortAfter: z.number().int().positive().optional(),
+});
+
 export const taskConfigSchema = z.object({
   prompt: z.string().min(1, 'Prompt is required'),
   taskId: z.string().optional(),
@@ -8,7 +49,15 @@ export const taskConfigSchema = z.object({
   systemPromptAppend: z.string().optional(),
   outputSchema: z.record(z.any()).optional(),
   sessionId: z.string().optional(),
+  modelId: z.string().optional(),
+  providerId: z.string().optional(),
   chrome: z.boolean().optional(),
+  budget: taskBudgetSchema.optional(),
+  priority: z.number().int().optional(),
+  maxDurationMs: z.number().int().nonnegative().optional(),
+  maxIdleMs: z.number().int().nonnegative().optional(),
+  verifications: z.array(verificationCheckSchema).optional(),
+  stuckPolicy: stuckPolicySchema.optional(),
 });
 
 export const permissionResponseSchema = z.object({
@@ -18,6 +67,18 @@ export const permissionResponseSchema = z.object({
   message: z.string().optional(),
   selectedOptions: z.array(z.string()).optional(),
   customText: z.string().optional(),
+  remember: z
+    .object({
+      decision: z.enum(['allow', 'deny']),
+      scope: z.enum(['global', 'project', 'task']),
+      operation: z.string().optional(),
+      pathGlob: z.string().optional(),
+      toolName: z.string().optional(),
+      taskId: z.string().optional(),
+      workingDirectory: z.string().optional(),
+    })
+    .optional(),
+  approvedPaths: z.array(z.string()).optional(),
 });
 
 export const resumeSessionSchema = z.object({
@@ -0,0 +1,15 @@
+import type { FileOperation } from './permission.js';
+
+/** A file a task touched through an approved file permission request */
+export interface TaskArtifact {
+  id: number;
+  taskId: string;
+  operation: FileOperation;
+  /** File the operation applied to (the source of a move or rename) */
+  filePath: string;
+  /** Destination of a move or rename */
+  targetPath?: string;
+  recordedAt: string;
+}
+
+export type TaskArtifactInput = Pick<TaskArtifact, 'operation' | 'filePath' | 'targetPath'>;
@@ -0,0 +1,32 @@
+export type FileDiffLineType = 'context' | 'add' | 'remove';
+
+export interface FileDiffLine {
+  type: FileDiffLineType;
+  content: string;
+  /** Line number in the file on disk; unset for added lines */
+  oldLine?: number;
+  /** Line number in the proposed content; unset for removed lines */
+  newLine?: number;
+}
+
+/** A run of changes with the unchanged lines around it, as in a unified diff `@@` block */
+export interface FileDiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: FileDiffLine[];
+}
+
+/** Unified diff between a file on disk and the content an agent proposes to write */
+export interface FileDiff {
+  hunks: FileDiffHunk[];
+  additions: number;
+  deletions: number;
+  /** Line count of the file on disk, so the unchanged tail after the last hunk can be shown */
+  oldLineCount: number;
+  /** The file did not exist yet, so every line is an addition */
+  isNewFile?: boolean;
+  /** Lines were dropped from the end of the diff to keep it within the size cap */
+  truncated?: boolean;
+}
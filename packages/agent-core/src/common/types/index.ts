@@ -27,12 +27,15 @@ export {
   FILE_OPERATIONS,
   FILE_PERMISSION_REQUEST_PREFIX,
   QUESTION_REQUEST_PREFIX,
+  QUESTION_INPUT_TYPES,
 } from './permission.js';
 export type {
   FileOperation,
   PermissionRequest,
   PermissionOption,
   PermissionResponse,
+  QuestionInputType,
+  QuestionInputConstraints,
 } from './permission.js';
 
 export {
@@ -99,6 +102,71 @@ export type {
   McpConnector,
 } from './connector.js';
 
+export type { TaskSchedule, CreateScheduleInput } from './schedule.js';
+
+export type {
+  WebhookEvent,
+  WebhookTarget,
+  CreateWebhookTargetInput,
+  UpdateWebhookTargetInput,
+  WebhookDeliveryStatus,
+  WebhookDelivery,
+  WebhookTaskSummary,
+  WebhookPayload,
+} from './webhook.js';
+export { WEBHOOK_EVENTS } from './webhook.js';
+
+export type { TaskArtifact, TaskArtifactInput } from './artifact.js';
+
+export type { SandboxMode, SandboxSettings } from './sandbox.js';
+export type { TrashEntry, TrashReason, TrashSettings } from './trash.js';
+export type {
+  SnapshotChange,
+  SnapshotChangeType,
+  SnapshotFileRecord,
+  SnapshotManifest,
+  SnapshotRollbackResult,
+  TaskSnapshot,
+  TaskSnapshotTrigger,
+} from './snapshot.js';
+export type {
+  VerificationCheck,
+  VerificationCheckType,
+  VerificationResult,
+  ProjectProfile,
+  ProjectProfileInput,
+} from './verification.js';
+export type {
+  PermissionRule,
+  PermissionRuleDecision,
+  PermissionRuleInput,
+  PermissionRuleScope,
+} from './permission-rule.js';
+export type {
+  PermissionAuditDecider,
+  PermissionAuditEntry,
+  PermissionAuditEntryInput,
+  PermissionAuditExportFormat,
+  PermissionAuditOutcome,
+} from './permission-audit.js';
+export type { FileDiff, FileDiffHunk, FileDiffLine, FileDiffLineType } from './file-diff.js';
+
+export type {
+  LocalApiSettings,
+  UpdateLocalApiSettingsInput,
+  LocalApiStatus,
+  LocalApiEvent,
+} from './local-api.js';
+
+export type {
+  TaskUsageRecord,
+  TaskUsageSummary,
+  UsageAggregate,
+  UsageGroupBy,
+  UsageQuery,
+  UsageTotals,
+} from './usage.js';
+
 export { STARTUP_STAGES } from './task.js';
 export type {
   TaskStatus,
@@ -107,11 +175,28 @@ export type {
   TaskAttachment,
   TaskMessage,
   TaskResult,
+  TaskBudget,
+  TaskBudgetLimit,
+  TaskBudgetLimitStatus,
+  TaskTimeoutLimits,
+  TaskTimeout,
+  TaskRunConfig,
+  QueuedTaskInfo,
+  SubtaskResult,
+  JsonValue,
+  TaskUsage,
   StartupStage,
   TaskProgress,
   TaskUpdateEvent,
 } from './task.js';
 
-export type { ThoughtEvent, CheckpointEvent } from './thought-stream.js';
+export type {
+  ThoughtEvent,
+  CheckpointEvent,
+  StuckAction,
+  StuckPolicy,
+  StuckFallbackModel,
+  StuckEscalation,
+} from './thought-stream.js';
 
 export type { TodoItem } from './todo.js';
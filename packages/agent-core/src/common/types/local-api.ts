@@ -0,0 +1,29 @@
+import type { PermissionRequest } from './permission.js';
+import type { TaskMessage, TaskResult, TaskStatus } from './task.js';
+
+export interface LocalApiSettings {
+  /** Whether the localhost API server runs */
+  enabled: boolean;
+  port: number;
+  /** Bearer token every request must send in the Authorization header */
+  token: string;
+}
+
+export type UpdateLocalApiSettingsInput = Partial<Pick<LocalApiSettings, 'enabled' | 'port'>>;
+
+/** State of the localhost API server as shown in settings */
+export interface LocalApiStatus {
+  settings: LocalApiSettings;
+  running: boolean;
+  /** Why the server could not start, e.g. the port is in use */
+  error?: string;
+}
+
+/** Task event streamed to Server-Sent Events subscribers; `type` is the SSE event name */
+export type LocalApiEvent =
+  | { type: 'messages'; taskId: string; messages: TaskMessage[] }
+  | { type: 'progress'; taskId: string; stage: string; message?: string }
+  | { type: 'status'; taskId: string; status: TaskStatus }
+  | { type: 'permission'; taskId: string; request: PermissionRequest }
+  | { type: 'complete'; taskId: string; result: TaskResult }
+  | { type: 'error'; taskId: string; error: string };
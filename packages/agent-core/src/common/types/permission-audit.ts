@@ -0,0 +1,34 @@
+import type { FileOperation, PermissionRequest } from './permission.js';
+
+export type PermissionAuditOutcome = 'allowed' | 'denied' | 'timed-out';
+
+/** What answered a request: the user in the app, a local API client, a saved rule or the sandbox */
+export type PermissionAuditDecider = 'user' | 'local-api' | 'rule' | 'sandbox';
+
+/** One permission or question request and how it was answered */
+export interface PermissionAuditEntry {
+  id: number;
+  requestId: string;
+  taskId: string;
+  requestType: PermissionRequest['type'];
+  fileOperation?: FileOperation;
+  /** Every file the request covered, including the destination of a move or rename */
+  filePaths: string[];
+  /** The subset of a batch request's paths that was allowed, when not all of them were */
+  approvedPaths?: string[];
+  toolName?: string;
+  question?: string;
+  outcome: PermissionAuditOutcome;
+  /** Unset when the request timed out */
+  decidedBy?: PermissionAuditDecider;
+  /** The saved rule that answered the request */
+  ruleId?: string;
+  selectedOptions?: string[];
+  customText?: string;
+  requestedAt: string;
+  respondedAt: string;
+}
+
+export type PermissionAuditEntryInput = Omit<PermissionAuditEntry, 'id'>;
+
+export type PermissionAuditExportFormat = 'csv' | 'json';
@@ -0,0 +1,28 @@
+import type { FileOperation } from './permission.js';
+
+export type PermissionRuleDecision = 'allow' | 'deny';
+
+/** Where a rule applies: every task, tasks in one project folder, or a single task */
+export type PermissionRuleScope = 'global' | 'project' | 'task';
+
+/**
+ * A remembered answer to file permission requests. Unset matchers match
+ * anything; a rule applies only when every path in the request matches.
+ */
+export interface PermissionRule {
+  id: string;
+  decision: PermissionRuleDecision;
+  operation?: FileOperation;
+  /** `*` matches within one folder and `**` across folders; relative globs resolve against the task's working directory */
+  pathGlob?: string;
+  /** Tool the agent said it will use for the operation, e.g. `Write` */
+  toolName?: string;
+  scope: PermissionRuleScope;
+  /** Set for the task scope */
+  taskId?: string;
+  /** Set for the project scope; the rule covers this folder and everything under it */
+  workingDirectory?: string;
+  createdAt: string;
+}
+
+export type PermissionRuleInput = Omit<PermissionRule, 'id' | 'createdAt'>;
@@ -1,3 +1,6 @@
+import type { FileDiff } from './file-diff.js';
+import type { PermissionRuleInput } from './permission-rule.js';
+
 export const FILE_OPERATIONS = [
   'create',
   'delete',
@@ -9,6 +12,42 @@ export const FILE_OPERATIONS = [
 
 export type FileOperation = (typeof FILE_OPERATIONS)[number];
 
+/** How a question is answered; 'choice' is the option list with optional custom text */
+export const QUESTION_INPUT_TYPES = [
+  'choice',
+  'text',
+  'number',
+  'date',
+  'confirm',
+  'secret',
+  'file',
+  'folder',
+] as const;
+
+export type QuestionInputType = (typeof QUESTION_INPUT_TYPES)[number];
+
+/** Limits on a typed answer; only those that fit the input type apply */
+export interface QuestionInputConstraints {
+  /** text and secret: regular expression the whole answer must match */
+  pattern?: string;
+  /** text and secret: minimum number of characters */
+  minLength?: number;
+  /** text and secret: maximum number of characters */
+  maxLength?: number;
+  /** number: smallest allowed value */
+  min?: number;
+  /** number: largest allowed value */
+  max?: number;
+  /** number: answers must be a multiple of this, counted from `min` (1 for whole numbers) */
+  step?: number;
+  /** date: earliest allowed date as YYYY-MM-DD */
+  minDate?: string;
+  /** date: latest allowed date as YYYY-MM-DD */
+  maxDate?: string;
+  /** Hint shown in an empty input */
+  placeholder?: string;
+}
+
 export const FILE_PERMISSION_REQUEST_PREFIX = 'filereq_';
 export const QUESTION_REQUEST_PREFIX = 'questionreq_';
 
@@ -22,11 +61,18 @@ export interface PermissionRequest {
   header?: string;
   options?: PermissionOption[];
   multiSelect?: boolean;
+  /** How a question is answered; options with custom text when absent */
+  inputType?: QuestionInputType;
+  constraints?: QuestionInputConstraints;
   fileOperation?: FileOperation;
   filePath?: string;
   filePaths?: string[];
   targetPath?: string;
   contentPreview?: string;
+  /** Diff of a modify or overwrite against the file on disk, when the agent sent the new content */
+  diff?: FileDiff;
+  /** Paths outside the task's sandbox; set when the sandbox escalates instead of rejecting */
+  sandboxViolations?: string[];
   timeoutMs?: number;
   createdAt: string;
 }
@@ -43,4 +89,8 @@ export interface PermissionResponse {
   message?: string;
   selectedOptions?: string[];
   customText?: string;
+  /** Save a rule so matching requests are answered the same way without asking */
+  remember?: PermissionRuleInput;
+  /** For an allowed batch file request, the paths the user approved; the others are denied */
+  approvedPaths?: string[];
 }
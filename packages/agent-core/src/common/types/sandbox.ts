@@ -0,0 +1,14 @@
+/**
+ * What happens to a file permission request that reaches outside the sandbox.
+ * - reject: deny it without asking
+ * - warn: ask the user, with a prominent warning naming the outside paths
+ */
+export type SandboxMode = 'reject' | 'warn';
+
+export interface SandboxSettings {
+  /** Whether file operations are confined to the task's working directory */
+  enabled: boolean;
+  mode: SandboxMode;
+  /** Directories besides the working directory that file operations may touch */
+  allowedRoots: string[];
+}
@@ -0,0 +1,23 @@
+import type { TaskConfig } from './task.js';
+
+export interface TaskSchedule {
+  id: string;
+  name: string;
+  /** Standard 5-field cron expression (minute hour day-of-month month day-of-week), local time */
+  cronExpression: string;
+  /** Task configuration used for every run of this schedule */
+  config: TaskConfig;
+  isEnabled: boolean;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastTaskId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateScheduleInput {
+  name: string;
+  cronExpression: string;
+  config: TaskConfig;
+  isEnabled?: boolean;
+}
@@ -0,0 +1,44 @@
+/** What caused a working-directory snapshot to be taken */
+export type TaskSnapshotTrigger = 'first-change' | 'checkpoint';
+
+/** A content-addressed snapshot of a task's working directory */
+export interface TaskSnapshot {
+  id: string;
+  taskId: string;
+  trigger: TaskSnapshotTrigger;
+  /** Checkpoint summary, for snapshots taken at a checkpoint */
+  label?: string;
+  workingDirectory: string;
+  fileCount: number;
+  totalBytes: number;
+  createdAt: string;
+}
+
+export interface SnapshotFileRecord {
+  /** SHA-256 of the content, or null for a file too large to keep (left alone on rollback) */
+  hash: string | null;
+  size: number;
+  mode: number;
+}
+
+/** Files and folders in a snapshot, keyed by path relative to the working directory */
+export interface SnapshotManifest {
+  files: Record<string, SnapshotFileRecord>;
+  directories: string[];
+}
+
+/** What the task did to a path since the snapshot; rollback undoes it */
+export type SnapshotChangeType = 'modified' | 'created' | 'deleted';
+
+export interface SnapshotChange {
+  /** Path relative to the working directory */
+  path: string;
+  change: SnapshotChangeType;
+}
+
+export interface SnapshotRollbackResult {
+  restored: number;
+  removed: number;
+  /** Relative paths that could not be rolled back */
+  failed: string[];
+}
@@ -1,3 +1,8 @@
+import type { ProviderId } from './providerSettings.js';
+import type { TaskArtifact } from './artifact.js';
+import type { VerificationCheck, VerificationResult } from './verification.js';
+import type { StuckPolicy } from './thought-stream.js';
+
 export type TaskStatus =
   | 'pending'
   | 'queued'
@@ -14,10 +19,98 @@ export interface TaskConfig {
   workingDirectory?: string;
   allowedTools?: string[];
   systemPromptAppend?: string;
+  /** JSON Schema the task's final result must validate against */
   outputSchema?: object;
   sessionId?: string;
-  /** Model ID for display name in progress events */
+  /**
+   * Model ID for display name in progress events. Together with providerId,
+   * the model this task runs on instead of the active one.
+   */
   modelId?: string;
+  /** Connected provider to run this task with instead of the active provider */
+  providerId?: ProviderId;
+  /** Usage limits; the task is interrupted when any of them is crossed */
+  budget?: TaskBudget;
+  /** Queue priority; higher values start first. Defaults to 0 */
+  priority?: number;
+  /** Wall-clock limit in milliseconds; the task is interrupted once it runs longer */
+  maxDurationMs?: number;
+  /** Interrupt the task after this many milliseconds without any agent activity */
+  maxIdleMs?: number;
+  /**
+   * Checks that must pass before a reported success is accepted. Falls back to
+   * the project profile of the working directory when unset.
+   */
+  verifications?: VerificationCheck[];
+  /** How to react when the agent reports that it is stuck. Stuck reports are only shown when unset */
+  stuckPolicy?: StuckPolicy;
+}
+
+/**
+ * Per-task usage limits. Every limit is optional; an empty budget never
+ * interrupts the task.
+ */
+export interface TaskBudget {
+  maxInputTokens?: number;
+  /** Output limit, counting reasoning tokens as output */
+  maxOutputTokens?: number;
+  maxCostUsd?: number;
+  maxSteps?: number;
+  /** Fraction (0-1) of a limit at which a warning is emitted. Defaults to 0.8 */
+  warningThreshold?: number;
+}
+
+export type TaskBudgetLimit = 'maxInputTokens' | 'maxOutputTokens' | 'maxCostUsd' | 'maxSteps';
+
+/** Usage accumulated from the step_finish events of a task */
+export interface TaskUsage {
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+  steps: number;
+}
+
+/** Time limits applied to a task; unset limits never stop it */
+export interface TaskTimeoutLimits {
+  maxDurationMs?: number;
+  maxIdleMs?: number;
+}
+
+/** The time limit a task was stopped for */
+export interface TaskTimeout {
+  kind: 'duration' | 'idle';
+  limitMs: number;
+}
+
+/**
+ * The settings a task was started with that still apply when it is resumed,
+ * recovered, or forked. A provider and model are only kept for a task that
+ * runs on its own instead of the active one.
+ */
+export type TaskRunConfig = Pick<
+  TaskConfig,
+  | 'workingDirectory'
+  | 'allowedTools'
+  | 'outputSchema'
+  | 'providerId'
+  | 'modelId'
+  | 'budget'
+  | 'maxDurationMs'
+  | 'maxIdleMs'
+  | 'verifications'
+  | 'stuckPolicy'
+>;
+
+/** How far a task is into one of its budget limits */
+export interface TaskBudgetLimitStatus {
+  limit: TaskBudgetLimit;
+  used: number;
+  max: number;
+  /** used / max */
+  ratio: number;
 }
 
 export interface Task {
@@ -31,6 +124,36 @@ export interface Task {
   startedAt?: string;
   completedAt?: string;
   result?: TaskResult;
+  /** ID of the schedule that started this task, if it was a scheduled run */
+  scheduleId?: string;
+  /** ID of the task this one was forked from, or that spawned it as a sub-task */
+  parentTaskId?: string;
+  /** ID of the parent's message the fork continues from */
+  forkedFromMessageId?: string;
+  /** Set when the task was stopped for running past a time limit */
+  timedOut?: TaskTimeout;
+  /** Settings to start the task with again when it is resumed, recovered, or forked */
+  runConfig?: TaskRunConfig;
+}
+
+/** A task waiting in the TaskManager queue, in start order */
+export interface QueuedTaskInfo {
+  taskId: string;
+  prompt: string;
+  priority: number;
+  enqueuedAt: string;
+}
+
+/** How a sub-task ended, as reported back to the task that spawned it */
+export interface SubtaskResult {
+  taskId: string;
+  /** The plan step the sub-task was given */
+  step: string;
+  status: TaskResult['status'] | 'cancelled';
+  /** Final result, absent when the sub-task was cancelled */
+  result?: TaskResult;
+  /** The sub-task's last message, usually its complete_task summary */
+  summary?: string;
 }
 
 export interface TaskAttachment {
@@ -49,11 +172,32 @@ export interface TaskMessage {
   attachments?: TaskAttachment[];
 }
 
+/** Any value that survives a JSON round trip */
+export type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
 export interface TaskResult {
   status: 'success' | 'error' | 'interrupted';
   sessionId?: string;
   durationMs?: number;
   error?: string;
+  /** Usage accumulated over the task's steps, when any were reported */
+  usage?: TaskUsage;
+  /** Set when the task was interrupted for crossing a budget limit */
+  budgetExceeded?: TaskBudgetLimitStatus;
+  /** Set when the task was interrupted for running past a time limit */
+  timedOut?: TaskTimeout;
+  /** Final result validated against TaskConfig.outputSchema */
+  structuredOutput?: JsonValue;
+  /** Files the task touched through approved file permission requests */
+  artifacts?: TaskArtifact[];
+  /** Outcome of the task's verification checks, from the last time they ran */
+  verification?: VerificationResult[];
 }
 
 export type StartupStage =
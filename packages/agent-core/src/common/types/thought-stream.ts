@@ -3,6 +3,8 @@
  * report-checkpoint) with the Electron UI for real-time subagent streaming.
  */
 
+import type { ProviderId } from './providerSettings.js';
+
 export interface ThoughtEvent {
   taskId: string;
   content: string;
@@ -20,3 +22,31 @@ export interface CheckpointEvent {
   agentName: string;
   timestamp: number;
 }
+
+/** A model to continue a stuck task on */
+export interface StuckFallbackModel {
+  providerId: ProviderId;
+  modelId: string;
+}
+
+/**
+ * How the app reacts when the agent reports a stuck checkpoint.
+ * - notify: only show the checkpoint
+ * - ask-user: hold the agent until the user says how to proceed
+ * - switch-model: continue the session on `fallbackModel` (once per task)
+ */
+export type StuckAction = 'notify' | 'ask-user' | 'switch-model';
+
+export interface StuckPolicy {
+  action: StuckAction;
+  /** Model used by the switch-model action */
+  fallbackModel?: StuckFallbackModel;
+  /** Abort the task once it has reported this many stuck checkpoints */
+  abortAfter?: number;
+}
+
+/** What the app should do about a stuck checkpoint, as decided by the task's stuck policy */
+export type StuckEscalation =
+  | { action: 'ask-user'; stuckCount: number }
+  | { action: 'switch-model'; stuckCount: number; fallbackModel: StuckFallbackModel }
+  | { action: 'abort'; stuckCount: number; reason: string };
@@ -4,3 +4,11 @@ export interface TodoItem {
   status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
   priority: 'high' | 'medium' | 'low';
 }
+
+/** Checkbox-style marker for each todo status, used when todos are printed as text */
+export const TODO_STATUS_MARKERS: Record<TodoItem['status'], string> = {
+  pending: '[ ]',
+  in_progress: '[~]',
+  completed: '[x]',
+  cancelled: '[-]',
+};
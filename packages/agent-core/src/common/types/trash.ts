@@ -0,0 +1,20 @@
+/** Why a file's previous content was kept */
+export type TrashReason = 'delete' | 'overwrite';
+
+/** A copy of a file or folder taken before an approved delete or overwrite */
+export interface TrashEntry {
+  id: string;
+  taskId: string;
+  originalPath: string;
+  reason: TrashReason;
+  isDirectory: boolean;
+  sizeBytes: number;
+  trashedAt: string;
+}
+
+export interface TrashSettings {
+  /** Whether approved deletes and overwrites keep a copy of the previous content */
+  enabled: boolean;
+  /** Days a trashed copy is kept before it is purged */
+  retentionDays: number;
+}
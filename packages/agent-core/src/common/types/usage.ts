@@ -0,0 +1,45 @@
+import type { TaskUsage } from './task.js';
+
+/** Token usage and cost of a single model step, as persisted in the task_usage table */
+export interface TaskUsageRecord {
+  id: number;
+  taskId: string;
+  /** Provider prefix of the model ID, e.g. `anthropic` */
+  providerId: string;
+  /** Full model ID as passed to OpenCode, e.g. `anthropic/claude-sonnet-4-5` */
+  modelId: string;
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+  recordedAt: string;
+}
+
+export type UsageGroupBy = 'day' | 'provider' | 'model';
+
+/** Restricts usage queries to records in `[since, until)` (ISO 8601 timestamps) */
+export interface UsageQuery {
+  since?: string;
+  until?: string;
+}
+
+/** Usage summed over a set of steps; `steps` is the number of step records */
+export interface UsageTotals extends TaskUsage {
+  taskCount: number;
+}
+
+export interface UsageAggregate extends UsageTotals {
+  /** Day (`YYYY-MM-DD`, UTC), provider ID or model ID depending on the grouping */
+  key: string;
+}
+
+export interface TaskUsageSummary extends TaskUsage {
+  taskId: string;
+  /** Task prompt and summary; missing once the task has been pruned from history */
+  prompt?: string;
+  summary?: string;
+  firstRecordedAt: string;
+  lastRecordedAt: string;
+}
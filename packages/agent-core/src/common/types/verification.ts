@@ -0,0 +1,56 @@
+/**
+ * A check run when the agent reports success. A task only completes once all
+ * of its checks pass; failures are sent back to the agent to fix.
+ */
+export type VerificationCheck =
+  | {
+      type: 'command';
+      /** Shell command run in the task's working directory */
+      command: string;
+      /** Exit code that counts as passing. Defaults to 0 */
+      expectExitCode?: number;
+      timeoutMs?: number;
+      /** Label shown in results instead of the command */
+      name?: string;
+    }
+  | {
+      type: 'file-exists';
+      /** Path that must exist, relative to the task's working directory */
+      path: string;
+      name?: string;
+    }
+  | {
+      type: 'url-status';
+      url: string;
+      /** HTTP status that counts as passing. Defaults to any 2xx status */
+      expectStatus?: number;
+      timeoutMs?: number;
+      name?: string;
+    };
+
+export type VerificationCheckType = VerificationCheck['type'];
+
+export interface VerificationResult {
+  check: VerificationCheck;
+  passed: boolean;
+  /** What was observed, e.g. the exit code and output tail of a failed command */
+  message: string;
+}
+
+/**
+ * Verification checks saved for a directory. Tasks that run in the directory,
+ * or below it, use these checks unless they declare their own.
+ */
+export interface ProjectProfile {
+  id: string;
+  name: string;
+  workingDirectory: string;
+  verifications: VerificationCheck[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ProjectProfileInput = Pick<
+  ProjectProfile,
+  'name' | 'workingDirectory' | 'verifications'
+>;
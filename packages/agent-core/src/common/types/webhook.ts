@@ -0,0 +1,68 @@
+import type { TaskStatus } from './task.js';
+
+export const WEBHOOK_EVENTS = [
+  'task.started',
+  'task.waiting_permission',
+  'task.completed',
+  'task.failed',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export interface WebhookTarget {
+  id: string;
+  name: string;
+  url: string;
+  /** Shared secret used to sign every payload sent to this target */
+  secret: string;
+  /** Events this target is subscribed to */
+  events: WebhookEvent[];
+  isEnabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateWebhookTargetInput {
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  isEnabled?: boolean;
+}
+
+export type UpdateWebhookTargetInput = Partial<CreateWebhookTargetInput>;
+
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed';
+
+/** One payload sent (or being retried) to one target */
+export interface WebhookDelivery {
+  id: string;
+  targetId: string;
+  event: WebhookEvent;
+  taskId: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** HTTP status of the last attempt, when the target responded */
+  responseStatus?: number;
+  /** Why the last attempt failed */
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookTaskSummary {
+  id: string;
+  prompt?: string;
+  summary?: string;
+  status?: TaskStatus;
+}
+
+/** JSON body POSTed to a webhook target */
+export interface WebhookPayload {
+  /** Delivery ID, stable across retries so receivers can deduplicate */
+  id: string;
+  event: WebhookEvent;
+  timestamp: string;
+  task: WebhookTaskSummary;
+  /** Event-specific details, e.g. the error of a failed task */
+  data?: Record<string, unknown>;
+}
@@ -8,6 +8,34 @@ export function createMessageId(): string {
   return `msg_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
 }
 
+export function createScheduleId(): string {
+  return `sched_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+export function createWebhookTargetId(): string {
+  return `webhook_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+export function createWebhookDeliveryId(): string {
+  return `whdel_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+export function createProjectProfileId(): string {
+  return `profile_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+export function createPermissionRuleId(): string {
+  return `rule_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+export function createTrashEntryId(): string {
+  return `trash_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+export function createTaskSnapshotId(): string {
+  return `snap_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
 export function createFilePermissionRequestId(): string {
   return `${FILE_PERMISSION_REQUEST_PREFIX}${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
 }
@@ -1,6 +1,9 @@
 export {
   createTaskId,
   createMessageId,
+  createScheduleId,
+  createWebhookTargetId,
+  createWebhookDeliveryId,
   createFilePermissionRequestId,
   createQuestionRequestId,
   isFilePermissionRequest,
@@ -10,3 +13,6 @@ export {
 export { LOG_SOURCE_PATTERNS, detectLogSource } from './log-source-detector.js';
 
 export { isWaitingForUser } from './waiting-detection.js';
+
+export { validateQuestionInput, validateQuestionAnswer } from './question-answer.js';
+export type { QuestionAnswerError } from './question-answer.js';
@@ -0,0 +1,144 @@
+import {
+  QUESTION_INPUT_TYPES,
+  type QuestionInputConstraints,
+  type QuestionInputType,
+} from '../types/permission.js';
+
+/** Why a typed answer was rejected */
+export type QuestionAnswerError =
+  | 'required'
+  | 'tooShort'
+  | 'tooLong'
+  | 'pattern'
+  | 'notANumber'
+  | 'belowMin'
+  | 'aboveMax'
+  | 'step'
+  | 'notADate'
+  | 'beforeMinDate'
+  | 'afterMaxDate'
+  | 'notYesOrNo';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function compilePattern(pattern: string): RegExp {
+  return new RegExp(`^(?:${pattern})$`);
+}
+
+/**
+ * Check the constraints an agent sent with a typed question. Returns an error
+ * message, or null when they are usable.
+ */
+export function validateQuestionInput(
+  inputType: unknown,
+  constraints: QuestionInputConstraints = {},
+): string | null {
+  if (!QUESTION_INPUT_TYPES.includes(inputType as QuestionInputType)) {
+    return `inputType must be one of: ${QUESTION_INPUT_TYPES.join(', ')}`;
+  }
+  if (typeof constraints !== 'object' || constraints === null) {
+    return 'constraints must be an object';
+  }
+  if (constraints.pattern !== undefined) {
+    try {
+      compilePattern(constraints.pattern);
+    } catch {
+      return `constraints.pattern is not a valid regular expression: ${constraints.pattern}`;
+    }
+  }
+  for (const key of ['minLength', 'maxLength', 'min', 'max', 'step'] as const) {
+    const value = constraints[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) {
+      return `constraints.${key} must be a number`;
+    }
+  }
+  if (constraints.step !== undefined && constraints.step <= 0) {
+    return 'constraints.step must be greater than 0';
+  }
+  for (const key of ['minDate', 'maxDate'] as const) {
+    const value = constraints[key];
+    if (value !== undefined && !isValidDate(value)) {
+      return `constraints.${key} must be a date as YYYY-MM-DD`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a typed answer against its question's constraints. Answers are sent
+ * as text: numbers as written, dates as YYYY-MM-DD, confirmations as "yes" or
+ * "no", and files and folders as paths. Option-list answers are not checked.
+ */
+export function validateQuestionAnswer(
+  inputType: QuestionInputType,
+  constraints: QuestionInputConstraints = {},
+  answer: string | undefined,
+): QuestionAnswerError | null {
+  if (inputType === 'choice') {
+    return null;
+  }
+  if (!answer) {
+    return 'required';
+  }
+
+  switch (inputType) {
+    case 'text':
+    case 'secret': {
+      const length = [...answer].length;
+      if (constraints.minLength !== undefined && length < constraints.minLength) {
+        return 'tooShort';
+      }
+      if (constraints.maxLength !== undefined && length > constraints.maxLength) {
+        return 'tooLong';
+      }
+      if (constraints.pattern !== undefined && !compilePattern(constraints.pattern).test(answer)) {
+        return 'pattern';
+      }
+      return null;
+    }
+    case 'number': {
+      const value = Number(answer);
+      if (answer.trim() === '' || !Number.isFinite(value)) {
+        return 'notANumber';
+      }
+      if (constraints.min !== undefined && value < constraints.min) {
+        return 'belowMin';
+      }
+      if (constraints.max !== undefined && value > constraints.max) {
+        return 'aboveMax';
+      }
+      if (constraints.step !== undefined) {
+        const steps = (value - (constraints.min ?? 0)) / constraints.step;
+        // Allow for floating-point error in fractional steps such as 0.1
+        if (Math.abs(steps - Math.round(steps)) > 1e-9) {
+          return 'step';
+        }
+      }
+      return null;
+    }
+    case 'date':
+      if (!isValidDate(answer)) {
+        return 'notADate';
+      }
+      if (constraints.minDate !== undefined && answer < constraints.minDate) {
+        return 'beforeMinDate';
+      }
+      if (constraints.maxDate !== undefined && answer > constraints.maxDate) {
+        return 'afterMaxDate';
+      }
+      return null;
+    case 'confirm':
+      return answer === 'yes' || answer === 'no' ? null : 'notYesOrNo';
+    case 'file':
+    case 'folder':
+      return null;
+  }
+}
@@ -1,4 +1,7 @@
 export { createTaskManager } from './task-manager.js';
+export { createTaskScheduler } from './scheduler.js';
+export { createWebhookDispatcher } from './webhooks.js';
+export { createLocalApiServer } from './local-api.js';
 export { createStorage } from './storage.js';
 export { createPermissionHandler } from './permission-handler.js';
 export { createThoughtStreamHandler } from './thought-stream.js';
@@ -0,0 +1,6 @@
+import { LocalApiServer } from '../internal/classes/LocalApiServer.js';
+import type { LocalApiServerOptions, LocalApiServerAPI } from '../types/local-api.js';
+
+export function createLocalApiServer(options: LocalApiServerOptions): LocalApiServerAPI {
+  return new LocalApiServer(options);
+}
@@ -5,5 +5,5 @@ import type {
 } from '../types/permission-handler.js';
 
 export function createPermissionHandler(options?: PermissionHandlerOptions): PermissionHandlerAPI {
-  return new PermissionRequestHandler(options?.defaultTimeoutMs);
+  return new PermissionRequestHandler(options?.defaultTimeoutMs, options?.getPermissionRules);
 }
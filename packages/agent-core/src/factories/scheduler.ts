@@ -0,0 +1,6 @@
+import { TaskScheduler } from '../internal/classes/TaskScheduler.js';
+import type { TaskSchedulerOptions, TaskSchedulerAPI } from '../types/scheduler.js';
+
+export function createTaskScheduler(options: TaskSchedulerOptions): TaskSchedulerAPI {
+  return new TaskScheduler(options);
+}
@@ -7,11 +7,15 @@ import {
 import {
   getTasks,
   getTask,
+  getTasksForSchedule,
   saveTask,
   updateTaskStatus,
+  reconcileOrphanedTasks,
   addTaskMessage,
   updateTaskSessionId,
   updateTaskSummary,
+  updateTaskTimedOut,
+  updateTaskRunConfig,
   deleteTask,
   clearHistory,
   getTodosForTask,
@@ -37,6 +41,14 @@ import {
   setOpenAiBaseUrl,
   getTheme,
   setTheme,
+  getTaskTimeoutDefaults,
+  setTaskTimeoutDefaults,
+  getLocalApiSettings,
+  setLocalApiSettings,
+  getSandboxSettings,
+  setSandboxSettings,
+  getTrashSettings,
+  setTrashSettings,
   getAppSettings,
   clearAppSettings,
 } from '../storage/repositories/appSettings.js';
@@ -52,6 +64,7 @@ import {
   getProviderDebugMode,
   clearProviderSettings,
   getActiveProviderModel,
+  getProviderModel,
   hasReadyProvider,
   getConnectedProviderIds,
 } from '../storage/repositories/providerSettings.js';
@@ -65,6 +78,64 @@ import {
   deleteConnector,
   clearAllConnectors,
 } from '../storage/repositories/connectors.js';
+import {
+  getAllSchedules,
+  getEnabledSchedules,
+  getScheduleById,
+  upsertSchedule,
+  recordScheduleRun,
+  deleteSchedule,
+  clearAllSchedules,
+} from '../storage/repositories/schedules.js';
+import {
+  getAllWebhookTargets,
+  getWebhookTargetById,
+  upsertWebhookTarget,
+  deleteWebhookTarget,
+  clearAllWebhookTargets,
+  getWebhookDeliveries,
+  upsertWebhookDelivery,
+  pruneWebhookDeliveries,
+} from '../storage/repositories/webhooks.js';
+import {
+  recordTaskUsage,
+  getUsageForTask,
+  getUsageTotals,
+  getUsageBreakdown,
+  getUsageByTask,
+  clearTaskUsage,
+} from '../storage/repositories/taskUsage.js';
+import { recordTaskArtifacts, getArtifactsForTask } from '../storage/repositories/taskArtifacts.js';
+import {
+  getAllProjectProfiles,
+  getProjectProfileById,
+  getProjectProfileForDirectory,
+  upsertProjectProfile,
+  deleteProjectProfile,
+} from '../storage/repositories/projectProfiles.js';
+import {
+  getAllPermissionRules,
+  insertPermissionRule,
+  deletePermissionRule,
+} from '../storage/repositories/permissionRules.js';
+import {
+  recordPermissionAudit,
+  getPermissionAudit,
+} from '../storage/repositories/permissionAudit.js';
+import {
+  insertTrashEntry,
+  getTrashEntries,
+  getTrashEntry,
+  getTrashEntriesBefore,
+  deleteTrashEntry,
+} from '../storage/repositories/trashEntries.js';
+import {
+  insertTaskSnapshot,
+  getTaskSnapshots,
+  getTaskSnapshot,
+  getTaskSnapshotManifest,
+  getReferencedSnapshotHashes,
+} from '../storage/repositories/taskSnapshots.js';
 import { SecureStorage } from '../internal/classes/SecureStorage.js';
 import type { OAuthTokens } from '../common/types/connector.js';
 import type { StorageAPI, StorageOptions } from '../types/storage.js';
@@ -91,12 +162,16 @@ export function createStorage(options: StorageOptions = {}): StorageAPI {
     // Task History
     getTasks: () => getTasks(),
     getTask: (taskId) => getTask(taskId),
+    getTasksForSchedule: (scheduleId) => getTasksForSchedule(scheduleId),
     saveTask: (task) => saveTask(task),
     updateTaskStatus: (taskId, status, completedAt) =>
       updateTaskStatus(taskId, status, completedAt),
+    reconcileOrphanedTasks: () => reconcileOrphanedTasks(),
     addTaskMessage: (taskId, message) => addTaskMessage(taskId, message),
     updateTaskSessionId: (taskId, sessionId) => updateTaskSessionId(taskId, sessionId),
     updateTaskSummary: (taskId, summary) => updateTaskSummary(taskId, summary),
+    updateTaskTimedOut: (taskId, timeout) => updateTaskTimedOut(taskId, timeout),
+    updateTaskRunConfig: (taskId, runConfig) => updateTaskRunConfig(taskId, runConfig),
     deleteTask: (taskId) => deleteTask(taskId),
     clearHistory: () => clearHistory(),
     getTodosForTask: (taskId) => getTodosForTask(taskId),
@@ -122,6 +197,14 @@ export function createStorage(options: StorageOptions = {}): StorageAPI {
     setOpenAiBaseUrl: (baseUrl) => setOpenAiBaseUrl(baseUrl),
     getTheme: () => getTheme(),
     setTheme: (theme) => setTheme(theme),
+    getTaskTimeoutDefaults: () => getTaskTimeoutDefaults(),
+    setTaskTimeoutDefaults: (limits) => setTaskTimeoutDefaults(limits),
+    getLocalApiSettings: () => getLocalApiSettings(),
+    setLocalApiSettings: (settings) => setLocalApiSettings(settings),
+    getSandboxSettings: () => getSandboxSettings(),
+    setSandboxSettings: (settings) => setSandboxSettings(settings),
+    getTrashSettings: () => getTrashSettings(),
+    setTrashSettings: (settings) => setTrashSettings(settings),
     getAppSettings: () => getAppSettings(),
     clearAppSettings: () => clearAppSettings(),
 
@@ -137,6 +220,7 @@ export function createStorage(options: StorageOptions = {}): StorageAPI {
     getProviderDebugMode: () => getProviderDebugMode(),
     clearProviderSettings: () => clearProviderSettings(),
     getActiveProviderModel: () => getActiveProviderModel(),
+    getProviderModel: (providerId) => getProviderModel(providerId),
     hasReadyProvider: () => hasReadyProvider(),
     getConnectedProviderIds: () => getConnectedProviderIds(),
 
@@ -163,6 +247,69 @@ export function createStorage(options: StorageOptions = {}): StorageAPI {
     },
     deleteConnectorTokens: (connectorId) => secureStorage.delete(`connector-tokens:${connectorId}`),
 
+    // Schedules
+    getAllSchedules: () => getAllSchedules(),
+    getEnabledSchedules: () => getEnabledSchedules(),
+    getScheduleById: (id) => getScheduleById(id),
+    upsertSchedule: (schedule) => upsertSchedule(schedule),
+    recordScheduleRun: (id, taskId, runAt, nextRunAt) =>
+      recordScheduleRun(id, taskId, runAt, nextRunAt),
+    deleteSchedule: (id) => deleteSchedule(id),
+    clearAllSchedules: () => clearAllSchedules(),
+
+    // Webhooks
+    getAllWebhookTargets: () => getAllWebhookTargets(),
+    getWebhookTargetById: (id) => getWebhookTargetById(id),
+    upsertWebhookTarget: (target) => upsertWebhookTarget(target),
+    deleteWebhookTarget: (id) => deleteWebhookTarget(id),
+    clearAllWebhookTargets: () => clearAllWebhookTargets(),
+    getWebhookDeliveries: (limit) => getWebhookDeliveries(limit),
+    upsertWebhookDelivery: (delivery) => upsertWebhookDelivery(delivery),
+    pruneWebhookDeliveries: (keep) => pruneWebhookDeliveries(keep),
+
+    // Usage
+    recordTaskUsage: (taskId, step, recordedAt) => recordTaskUsage(taskId, step, recordedAt),
+    getUsageForTask: (taskId) => getUsageForTask(taskId),
+    getUsageTotals: (query) => getUsageTotals(query),
+    getUsageBreakdown: (groupBy, query) => getUsageBreakdown(groupBy, query),
+    getUsageByTask: (query, limit) => getUsageByTask(query, limit),
+    clearTaskUsage: () => clearTaskUsage(),
+
+    // Artifacts
+    recordTaskArtifacts: (taskId, artifacts, recordedAt) =>
+      recordTaskArtifacts(taskId, artifacts, recordedAt),
+    getArtifactsForTask: (taskId) => getArtifactsForTask(taskId),
+
+    // Project profiles
+    getAllProjectProfiles: () => getAllProjectProfiles(),
+    getProjectProfileById: (id) => getProjectProfileById(id),
+    getProjectProfileForDirectory: (directory) => getProjectProfileForDirectory(directory),
+    upsertProjectProfile: (profile) => upsertProjectProfile(profile),
+    deleteProjectProfile: (id) => deleteProjectProfile(id),
+
+    // Permission rules
+    getAllPermissionRules: () => getAllPermissionRules(),
+    insertPermissionRule: (rule) => insertPermissionRule(rule),
+    deletePermissionRule: (id) => deletePermissionRule(id),
+
+    // Permission audit
+    recordPermissionAudit: (entry) => recordPermissionAudit(entry),
+    getPermissionAudit: (taskId, limit) => getPermissionAudit(taskId, limit),
+
+    // Trash
+    insertTrashEntry: (entry) => insertTrashEntry(entry),
+    getTrashEntries: (taskId) => getTrashEntries(taskId),
+    getTrashEntry: (id) => getTrashEntry(id),
+    getTrashEntriesBefore: (cutoff) => getTrashEntriesBefore(cutoff),
+    deleteTrashEntry: (id) => deleteTrashEntry(id),
+
+    // Snapshots
+    insertTaskSnapshot: (snapshot, manifest) => insertTaskSnapshot(snapshot, manifest),
+    getTaskSnapshots: (taskId) => getTaskSnapshots(taskId),
+    getTaskSnapshot: (id) => getTaskSnapshot(id),
+    getTaskSnapshotManifest: (id) => getTaskSnapshotManifest(id),
+    getReferencedSnapshotHashes: () => getReferencedSnapshotHashes(),
+
     // Secure Storage
     storeApiKey: (provider, apiKey) => secureStorage.storeApiKey(provider, apiKey),
     getApiKey: (provider) => secureStorage.getApiKey(provider),
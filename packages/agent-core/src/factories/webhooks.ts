@@ -0,0 +1,6 @@
+import { WebhookDispatcher } from '../internal/classes/WebhookDispatcher.js';
+import type { WebhookDispatcherOptions, WebhookDispatcherAPI } from '../types/webhooks.js';
+
+export function createWebhookDispatcher(options: WebhookDispatcherOptions): WebhookDispatcherAPI {
+  return new WebhookDispatcher(options);
+}
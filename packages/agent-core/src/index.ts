@@ -15,6 +15,9 @@ console.log('[agent-core] u2d sync test');
 // Factory functions - new encapsulated API
 export {
   createTaskManager,
+  createTaskScheduler,
+  createWebhookDispatcher,
+  createLocalApiServer,
   createStorage,
   createPermissionHandler,
   createThoughtStreamHandler,
@@ -36,16 +39,36 @@ export type {
   TaskAdapterOptions,
   TaskCallbacks as TaskManagerCallbacks,
   TaskProgressEvent as TaskManagerProgressEvent,
+  // Task Scheduler API
+  TaskSchedulerAPI,
+  TaskSchedulerOptions,
+  // Webhook Dispatcher API
+  WebhookDispatcherAPI,
+  WebhookDispatcherOptions,
+  // Local API Server
+  LocalApiServerAPI,
+  LocalApiServerOptions,
+  LocalApiHandlers,
   // Storage API
   StorageAPI,
   StorageOptions,
   StoredTask,
+  OrphanedTaskReconciliation,
   AppSettings,
   ThemePreference,
   TaskStorageAPI,
   AppSettingsAPI,
   ProviderSettingsAPI,
   SecureStorageAPI,
+  ScheduleStorageAPI,
+  WebhookStorageAPI,
+  UsageStorageAPI,
+  ArtifactStorageAPI,
+  ProjectProfileStorageAPI,
+  PermissionRuleStorageAPI,
+  PermissionAuditStorageAPI,
+  TrashStorageAPI,
+  SnapshotStorageAPI,
   DatabaseLifecycleAPI,
   // Permission Handler API
   PermissionHandlerAPI,
@@ -193,6 +216,76 @@ export { sanitizeString, PROMPT_DEFAULT_MAX_LENGTH } from './utils/sanitize.js';
 // URL validation functions
 export { validateHttpUrl } from './utils/url.js';
 
+// Cron expression functions
+export { parseCronExpression, isValidCronExpression, getNextCronRun } from './utils/cron.js';
+
+export type { CronSchedule } from './utils/cron.js';
+
+// Webhook signature functions
+export {
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from './utils/webhook-signature.js';
+
+// Local API token functions
+export { generateLocalApiToken, verifyBearerToken } from './utils/local-api-token.js';
+
+// Task artifact functions
+export { getFilePermissionArtifacts } from './utils/task-artifacts.js';
+
+// Sandbox functions
+export {
+  resolveSandboxPath,
+  isPathWithinRoot,
+  findSandboxViolations,
+  formatSandboxRejection,
+} from './utils/sandbox.js';
+
+// Permission rule functions
+export {
+  matchesPathGlob,
+  findMatchingPermissionRule,
+  validatePermissionRuleInput,
+} from './utils/permission-rules.js';
+export type { PermissionRuleContext } from './utils/permission-rules.js';
+
+// File diff functions
+export { computeFileDiff, readFileDiff } from './utils/file-diff.js';
+export type { FileDiffOptions, ReadFileDiffOptions } from './utils/file-diff.js';
+
+// Trash functions
+export {
+  TRASH_MAX_ITEM_BYTES,
+  getTrashItemPath,
+  copyToTrash,
+  restoreFromTrash,
+  removeFromTrash,
+} from './utils/trash.js';
+
+// Snapshot functions
+export {
+  SNAPSHOT_IGNORED_DIRECTORIES,
+  createSnapshot,
+  diffSnapshot,
+  rollbackToSnapshot,
+  pruneSnapshotObjects,
+} from './utils/snapshot.js';
+export type { SnapshotOptions } from './utils/snapshot.js';
+
+// Permission audit functions
+export { formatPermissionAudit, formatPermissionAuditCsv } from './utils/permission-audit.js';
+
+// Stuck policy functions
+export { validateStuckPolicy, getStuckModelSwitchPrompt } from './utils/stuck-policy.js';
+
+// Verification functions
+export {
+  describeVerificationCheck,
+  runVerificationChecks,
+  validateVerificationChecks,
+} from './utils/verification.js';
+
 // Task validation functions
 export { validateTaskConfig } from './utils/task-validation.js';
 
@@ -206,6 +299,53 @@ export { redact } from './utils/redact.js';
 
 export { mapResultToStatus } from './utils/task-status.js';
 
+// Task budget functions
+export {
+  DEFAULT_BUDGET_WARNING_THRESHOLD,
+  createEmptyTaskUsage,
+  addStepUsage,
+  getTaskBudgetStatus,
+  isTaskBudgetEmpty,
+  formatBudgetExceeded,
+} from './utils/task-budget.js';
+
+// Task fork functions
+export { planTaskFork, formatForkTranscript } from './utils/task-fork.js';
+export type { TaskForkPlan } from './utils/task-fork.js';
+
+// Task recovery functions
+export { planTaskRecovery, buildRecoveryPrompt, getTaskRunConfig } from './utils/task-recovery.js';
+export type { TaskRecoveryPlan } from './utils/task-recovery.js';
+
+// Sub-task fan-out functions
+export {
+  buildSubtaskPrompt,
+  buildSubtaskResultsPrompt,
+  buildSubtasksUnavailablePrompt,
+} from './utils/task-subtasks.js';
+
+// Task timeout functions
+export {
+  resolveTaskTimeoutLimits,
+  hasTaskTimeoutLimits,
+  getExceededTimeout,
+  formatTaskTimeout,
+} from './utils/task-timeout.js';
+export type { TaskActivity } from './utils/task-timeout.js';
+
+// OpenCode recording functions
+export {
+  OPENCODE_RECORDING_VERSION,
+  parseOpenCodeRecording,
+  readOpenCodeRecording,
+} from './opencode/recording.js';
+export type {
+  OpenCodeRecording,
+  OpenCodeRecordingEntry,
+  OpenCodeRecordingHeader,
+  ReplayOptions,
+} from './opencode/recording.js';
+
 // Logging - use createLogWriter factory from ./factories/log-writer.js instead
 
 // -----------------------------------------------------------------------------
@@ -244,6 +384,16 @@ export type {
   TaskAttachment,
   TaskMessage,
   TaskResult,
+  TaskBudget,
+  TaskBudgetLimit,
+  TaskBudgetLimitStatus,
+  TaskTimeoutLimits,
+  TaskTimeout,
+  TaskRunConfig,
+  QueuedTaskInfo,
+  SubtaskResult,
+  JsonValue,
+  TaskUsage,
   TaskProgress,
   TaskUpdateEvent,
 } from './common/types/task.js';
@@ -255,11 +405,14 @@ export type {
   PermissionRequest,
   PermissionOption,
   PermissionResponse,
+  QuestionInputType,
+  QuestionInputConstraints,
 } from './common/types/permission.js';
 export {
   FILE_OPERATIONS,
   FILE_PERMISSION_REQUEST_PREFIX,
   QUESTION_REQUEST_PREFIX,
+  QUESTION_INPUT_TYPES,
 } from './common/types/permission.js';
 
 // Provider types
@@ -344,6 +497,94 @@ export type {
 // Skills types
 export type { SkillSource, Skill, SkillFrontmatter } from './common/types/skills.js';
 
+// Schedule types
+export type { TaskSchedule, CreateScheduleInput } from './common/types/schedule.js';
+
+// Webhook types
+export type {
+  WebhookEvent,
+  WebhookTarget,
+  CreateWebhookTargetInput,
+  UpdateWebhookTargetInput,
+  WebhookDeliveryStatus,
+  WebhookDelivery,
+  WebhookTaskSummary,
+  WebhookPayload,
+} from './common/types/webhook.js';
+export { WEBHOOK_EVENTS } from './common/types/webhook.js';
+
+// Artifact types
+export type { TaskArtifact, TaskArtifactInput } from './common/types/artifact.js';
+
+// Sandbox types
+export type { SandboxMode, SandboxSettings } from './common/types/sandbox.js';
+
+// Trash types
+export type { TrashEntry, TrashReason, TrashSettings } from './common/types/trash.js';
+
+// Snapshot types
+export type {
+  SnapshotChange,
+  SnapshotChangeType,
+  SnapshotFileRecord,
+  SnapshotManifest,
+  SnapshotRollbackResult,
+  TaskSnapshot,
+  TaskSnapshotTrigger,
+} from './common/types/snapshot.js';
+
+// Verification types
+export type {
+  VerificationCheck,
+  VerificationCheckType,
+  VerificationResult,
+  ProjectProfile,
+  ProjectProfileInput,
+} from './common/types/verification.js';
+
+// Permission rule types
+export type {
+  PermissionRule,
+  PermissionRuleDecision,
+  PermissionRuleInput,
+  PermissionRuleScope,
+} from './common/types/permission-rule.js';
+
+// Permission audit types
+export type {
+  PermissionAuditDecider,
+  PermissionAuditEntry,
+  PermissionAuditEntryInput,
+  PermissionAuditExportFormat,
+  PermissionAuditOutcome,
+} from './common/types/permission-audit.js';
+
+// File diff types
+export type {
+  FileDiff,
+  FileDiffHunk,
+  FileDiffLine,
+  FileDiffLineType,
+} from './common/types/file-diff.js';
+
+// Local API types
+export type {
+  LocalApiSettings,
+  UpdateLocalApiSettingsInput,
+  LocalApiStatus,
+  LocalApiEvent,
+} from './common/types/local-api.js';
+
+// Usage types
+export type {
+  TaskUsageRecord,
+  TaskUsageSummary,
+  UsageAggregate,
+  UsageGroupBy,
+  UsageQuery,
+  UsageTotals,
+} from './common/types/usage.js';
+
 // Connector types
 export type {
   ConnectorStatus,
@@ -367,7 +608,14 @@ export {
 // Other types
 export type { TodoItem } from './common/types/todo.js';
 export type { LogLevel, LogSource, LogEntry } from './common/types/logging.js';
-export type { ThoughtEvent, CheckpointEvent } from './common/types/thought-stream.js';
+export type {
+  ThoughtEvent,
+  CheckpointEvent,
+  StuckAction,
+  StuckPolicy,
+  StuckFallbackModel,
+  StuckEscalation,
+} from './common/types/thought-stream.js';
 
 // Constants
 export {
@@ -376,6 +624,7 @@ export {
   THOUGHT_STREAM_PORT,
   PERMISSION_API_PORT,
   QUESTION_API_PORT,
+  LOCAL_API_DEFAULT_PORT,
   PERMISSION_REQUEST_TIMEOUT_MS,
   LOG_MAX_FILE_SIZE_BYTES,
   LOG_RETENTION_DAYS,
@@ -393,6 +642,13 @@ export {
 export {
   createTaskId,
   createMessageId,
+  createScheduleId,
+  createWebhookTargetId,
+  createWebhookDeliveryId,
+  createProjectProfileId,
+  createPermissionRuleId,
+  createTrashEntryId,
+  createTaskSnapshotId,
   createFilePermissionRequestId,
   createQuestionRequestId,
   isFilePermissionRequest,
@@ -403,6 +659,8 @@ export {
 export { stripAnsi, quoteForShell, getPlatformShell, getShellArgs } from './utils/shell.js';
 export { isPortInUse, waitForPortRelease } from './utils/network.js';
 export { isWaitingForUser } from './common/utils/waiting-detection.js';
+export { validateQuestionInput, validateQuestionAnswer } from './common/utils/question-answer.js';
+export type { QuestionAnswerError } from './common/utils/question-answer.js';
 export { detectLogSource, LOG_SOURCE_PATTERNS } from './common/utils/log-source-detector.js';
 
 // Schemas
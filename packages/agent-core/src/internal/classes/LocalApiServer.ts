@@ -0,0 +1,281 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { LocalApiEvent } from '../../common/types/local-api.js';
+import type { PermissionResponse } from '../../common/types/permission.js';
+import type { TaskConfig, TaskStatus } from '../../common/types/task.js';
+import { verifyBearerToken } from '../../utils/local-api-token.js';
+import { validateTaskConfig } from '../../utils/task-validation.js';
+import type { LocalApiServerOptions } from '../../types/local-api.js';
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_KEEP_ALIVE_INTERVAL_MS = 15_000;
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+const TASK_ROUTE = /^\/v1\/tasks\/([^/]+)(?:\/(cancel|interrupt|events))?$/;
+const PERMISSION_ROUTE = /^\/v1\/permissions\/([^/]+)$/;
+
+/** Error carrying the HTTP status it should be answered with */
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function isTerminalEvent(event: LocalApiEvent): boolean {
+  return event.type === 'complete' || event.type === 'error';
+}
+
+function isFinishedStatus(status: TaskStatus): boolean {
+  return (
+    status === 'completed' ||
+    status === 'failed' ||
+    status === 'cancelled' ||
+    status === 'interrupted'
+  );
+}
+
+export class LocalApiServer {
+  private options: LocalApiServerOptions;
+  private keepAliveIntervalMs: number;
+  private maxBodyBytes: number;
+  private server: http.Server | null = null;
+  /** Open SSE responses keyed by the task they follow */
+  private streams = new Map<string, Set<http.ServerResponse>>();
+
+  constructor(options: LocalApiServerOptions) {
+    this.options = options;
+    this.keepAliveIntervalMs = options.keepAliveIntervalMs ?? DEFAULT_KEEP_ALIVE_INTERVAL_MS;
+    this.maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  }
+
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = http.createServer((req, res) => {
+      void this.handleRequest(req, res);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host ?? DEFAULT_HOST, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    server.on('error', (error) => {
+      console.error('[LocalApiServer] Server error:', error);
+    });
+    this.server = server;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+
+    for (const streams of this.streams.values()) {
+      for (const res of streams) {
+        res.end();
+      }
+    }
+    this.streams.clear();
+
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  getPort(): number | null {
+    const address = this.server?.address();
+    return address ? (address as AddressInfo).port : null;
+  }
+
+  publish(event: LocalApiEvent): void {
+    const streams = this.streams.get(event.taskId);
+    if (!streams) {
+      return;
+    }
+
+    for (const res of streams) {
+      this.writeEvent(res, event);
+      if (isTerminalEvent(event)) {
+        res.end();
+      }
+    }
+    if (isTerminalEvent(event)) {
+      this.streams.delete(event.taskId);
+    }
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    try {
+      if (!verifyBearerToken(req.headers.authorization, this.options.token)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        throw new HttpError(401, 'Missing or invalid bearer token');
+      }
+      await this.route(req, res);
+    } catch (error) {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      const status = error instanceof HttpError ? error.status : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      sendJson(res, status, { error: message });
+    }
+  }
+
+  private async route(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const { handlers } = this.options;
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    const method = req.method ?? 'GET';
+
+    if (pathname === '/v1/tasks') {
+      if (method === 'GET') {
+        sendJson(res, 200, handlers.listTasks());
+        return;
+      }
+      if (method === 'POST') {
+        const config = this.validateConfig(await this.readJson(req));
+        sendJson(res, 201, await handlers.startTask(config));
+        return;
+      }
+      throw new HttpError(405, 'Method not allowed');
+    }
+
+    const taskMatch = TASK_ROUTE.exec(pathname);
+    if (taskMatch) {
+      const taskId = decodeURIComponent(taskMatch[1]);
+      const action = taskMatch[2];
+      const expectedMethod = !action || action === 'events' ? 'GET' : 'POST';
+      if (method !== expectedMethod) {
+        throw new HttpError(405, 'Method not allowed');
+      }
+
+      const task = handlers.getTask(taskId);
+      if (!task) {
+        throw new HttpError(404, `Task not found: ${taskId}`);
+      }
+
+      if (action === 'cancel') {
+        await handlers.cancelTask(taskId);
+        sendJson(res, 200, handlers.getTask(taskId));
+      } else if (action === 'interrupt') {
+        await handlers.interruptTask(taskId);
+        sendJson(res, 200, handlers.getTask(taskId));
+      } else if (action === 'events') {
+        this.openStream(taskId, req, res);
+        this.writeEvent(res, { type: 'status', taskId, status: task.status });
+        // No further events will come for a finished task
+        if (isFinishedStatus(task.status)) {
+          res.end();
+        }
+      } else {
+        sendJson(res, 200, task);
+      }
+      return;
+    }
+
+    const permissionMatch = PERMISSION_ROUTE.exec(pathname);
+    if (permissionMatch) {
+      if (method !== 'POST') {
+        throw new HttpError(405, 'Method not allowed');
+      }
+      const body = (await this.readJson(req)) as Partial<PermissionResponse>;
+      if (typeof body.taskId !== 'string' || !body.taskId) {
+        throw new HttpError(400, 'taskId is required');
+      }
+      if (body.decision !== 'allow' && body.decision !== 'deny') {
+        throw new HttpError(400, "decision must be 'allow' or 'deny'");
+      }
+      await handlers.respondToPermission({
+        ...body,
+        requestId: decodeURIComponent(permissionMatch[1]),
+        taskId: body.taskId,
+        decision: body.decision,
+      });
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+
+    throw new HttpError(404, 'Not found');
+  }
+
+  private openStream(taskId: string, req: http.IncomingMessage, res: http.ServerResponse): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    let streams = this.streams.get(taskId);
+    if (!streams) {
+      streams = new Set();
+      this.streams.set(taskId, streams);
+    }
+    streams.add(res);
+
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), this.keepAliveIntervalMs);
+    keepAlive.unref?.();
+
+    res.on('close', () => {
+      clearInterval(keepAlive);
+      const current = this.streams.get(taskId);
+      current?.delete(res);
+      if (current?.size === 0) {
+        this.streams.delete(taskId);
+      }
+    });
+    req.socket.setTimeout(0);
+  }
+
+  private writeEvent(res: http.ServerResponse, event: LocalApiEvent): void {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  }
+
+  private validateConfig(body: unknown): TaskConfig {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new HttpError(400, 'Task config must be a JSON object');
+    }
+    try {
+      return validateTaskConfig(body as TaskConfig);
+    } catch (error) {
+      throw new HttpError(400, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async readJson(req: http.IncomingMessage): Promise<unknown> {
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+      if (body.length > this.maxBodyBytes) {
+        throw new HttpError(413, 'Request body too large');
+      }
+    }
+
+    try {
+      return body ? JSON.parse(body) : {};
+    } catch {
+      throw new HttpError(400, 'Invalid JSON');
+    }
+  }
+}
@@ -11,11 +11,16 @@ import {
   CompletionEnforcerCallbacks,
 } from '../../opencode/completion/index.js';
 import { isNonTaskContinuationToolName } from '../../opencode/tool-classification.js';
+import { hideSecretAnswers } from '../../opencode/message-processor.js';
+import { OpenCodeRecorder } from '../../opencode/recording.js';
 import type { TaskConfig, Task, TaskMessage, TaskResult } from '../../common/types/task.js';
 import type { OpenCodeMessage } from '../../common/types/opencode.js';
 import type { PermissionRequest } from '../../common/types/permission.js';
 import type { TodoItem } from '../../common/types/todo.js';
+import type { ProviderId } from '../../common/types/providerSettings.js';
+import type { StuckFallbackModel } from '../../common/types/thought-stream.js';
 import { serializeError } from '../../utils/error.js';
+import { runVerificationChecks } from '../../utils/verification.js';
 
 const LOG_TRUNCATION_LIMIT = 500;
 
@@ -33,10 +38,12 @@ export interface AdapterOptions {
   isPackaged: boolean;
   tempPath: string;
   getCliCommand: () => { command: string; args: string[] };
-  buildEnvironment: (taskId: string) => Promise<NodeJS.ProcessEnv>;
+  buildEnvironment: (taskId: string, config?: TaskConfig) => Promise<NodeJS.ProcessEnv>;
   buildCliArgs: (config: TaskConfig) => Promise<string[]>;
-  onBeforeStart?: () => Promise<void>;
+  onBeforeStart?: (config?: TaskConfig) => Promise<void>;
   getModelDisplayName?: (modelId: string) => string;
+  /** File to record the task's raw CLI messages to, or undefined to not record */
+  getRecordingPath?: (taskId: string) => string | undefined;
 }
 
 export interface OpenCodeAdapterEvents {
@@ -50,6 +57,10 @@ export interface OpenCodeAdapterEvents {
   debug: [{ type: string; message: string; data?: unknown }];
   'todo:update': [TodoItem[]];
   'auth-error': [{ providerId: string; message: string }];
+  /** The session moved to another model; continuations run on it from now on */
+  'model-switch': [StuckFallbackModel];
+  /** Independent plan steps the agent handed off to run as parallel sub-tasks */
+  subtasks: [{ steps: string[]; goal?: string }];
   reasoning: [string];
   'tool-call-complete': [
     {
@@ -87,9 +98,16 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
   private completionEnforcer: CompletionEnforcer;
   private lastWorkingDirectory: string | undefined;
   private currentModelId: string | null = null;
+  private currentProviderId: ProviderId | null = null;
   private waitingTransitionTimer: ReturnType<typeof setTimeout> | null = null;
   private hasReceivedFirstTool: boolean = false;
   private startTaskCalled: boolean = false;
+  private subtasksRequested: boolean = false;
+  private awaitingSubtasks: boolean = false;
+  private subtaskResultsPrompt: string | null = null;
+  private modelSwitchPrompt: string | null = null;
+  private lastActivityAt: number = Date.now();
+  private recorder: OpenCodeRecorder | null = null;
   private options: AdapterOptions;
 
   constructor(options: AdapterOptions, taskId?: string) {
@@ -108,11 +126,7 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
         await this.spawnSessionResumption(prompt);
       },
       onComplete: () => {
-        this.hasCompleted = true;
-        this.emit('complete', {
-          status: 'success',
-          sessionId: this.currentSessionId || undefined,
-        });
+        this.emitCompletion();
       },
       onDebug: (type: string, message: string, data?: unknown) => {
         this.emit('debug', { type, message, data });
@@ -121,7 +135,34 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
     return new CompletionEnforcer(callbacks);
   }
 
-  private setupLogWatcher(): void {
+  /**
+   * Emit the final result of a task that ran to the end. A task with an
+   * output schema fails when it never produced a valid result, and a task
+   * with verification checks fails when they still do not pass.
+   */
+  private emitCompletion(): void {
+    this.hasCompleted = true;
+    const verification = this.completionEnforcer.getVerificationResults();
+    const error =
+      this.completionEnforcer.getOutputError() ?? this.completionEnforcer.getVerificationError();
+    if (error) {
+      this.emit('complete', {
+        status: 'error',
+        sessionId: this.currentSessionId || undefined,
+        error,
+        ...(verification && { verification }),
+      });
+      return;
+    }
+    this.emit('complete', {
+      status: 'success',
+      sessionId: this.currentSessionId || undefined,
+      structuredOutput: this.completionEnforcer.getStructuredOutput(),
+      ...(verification && { verification }),
+    });
+  }
+
+  protected setupLogWatcher(): void {
     this.logWatcher = createLogWatcher();
 
     this.logWatcher.on('error', (error: OpenCodeLogError) => {
@@ -178,25 +219,39 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
     this.currentTaskId = taskId;
     this.currentSessionId = null;
     this.currentModelId = config.modelId || null;
+    this.currentProviderId = config.providerId || null;
     this.messages = [];
     this.streamParser.reset();
     this.hasCompleted = false;
     this.wasInterrupted = false;
     this.completionEnforcer.reset();
+    this.completionEnforcer.setOutputSchema(config.outputSchema);
+    this.completionEnforcer.setVerifications(config.verifications, (checks) =>
+      runVerificationChecks(checks, config.workingDirectory || this.options.tempPath),
+    );
     this.lastWorkingDirectory = config.workingDirectory;
     this.hasReceivedFirstTool = false;
     this.startTaskCalled = false;
+    this.subtasksRequested = false;
+    this.awaitingSubtasks = false;
+    this.subtaskResultsPrompt = null;
+    this.lastActivityAt = Date.now();
     if (this.waitingTransitionTimer) {
       clearTimeout(this.waitingTransitionTimer);
       this.waitingTransitionTimer = null;
     }
 
+    const recordingPath = this.options.getRecordingPath?.(taskId);
+    this.recorder = recordingPath
+      ? new OpenCodeRecorder(recordingPath, { taskId, prompt: config.prompt })
+      : null;
+
     if (this.logWatcher) {
       await this.logWatcher.start();
     }
 
     if (this.options.onBeforeStart) {
-      await this.options.onBeforeStart();
+      await this.options.onBeforeStart(config);
     }
 
     const cliArgs = await this.options.buildCliArgs(config);
@@ -206,7 +261,7 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
     console.log('[OpenCode CLI]', startMsg);
     this.emit('debug', { type: 'info', message: startMsg });
 
-    const env = await this.options.buildEnvironment(taskId);
+    const env = await this.options.buildEnvironment(taskId, config);
 
     const allArgs = [...baseArgs, ...cliArgs];
     const cmdMsg = `Command: ${command}`;
@@ -238,19 +293,7 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
     this.emit('debug', { type: 'info', message: cwdMsg });
 
     {
-      const { file: spawnFile, args: spawnArgs } = this.buildPtySpawnArgs(command, allArgs);
-
-      const spawnMsg = `PTY spawn: ${spawnFile} ${spawnArgs.join(' ')}`;
-      console.log('[OpenCode CLI]', spawnMsg);
-      this.emit('debug', { type: 'info', message: spawnMsg });
-
-      this.ptyProcess = pty.spawn(spawnFile, spawnArgs, {
-        name: 'xterm-256color',
-        cols: 32000,
-        rows: 30,
-        cwd: safeCwd,
-        env: env as { [key: string]: string },
-      });
+      this.ptyProcess = this.spawnCli(command, allArgs, safeCwd, env);
       const pidMsg = `PTY Process PID: ${this.ptyProcess.pid}`;
       console.log('[OpenCode CLI]', pidMsg);
       this.emit('debug', { type: 'info', message: pidMsg });
@@ -265,11 +308,13 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
           .replace(/\x1B\][^\x1B]*\x1B\\/g, '');
         /* eslint-enable no-control-regex */
         if (cleanData.trim()) {
+          // Logs and the debug panel never show secret answers; the parser needs them as sent
+          const visibleData = hideSecretAnswers(cleanData);
           const truncated =
-            cleanData.substring(0, LOG_TRUNCATION_LIMIT) +
-            (cleanData.length > LOG_TRUNCATION_LIMIT ? '...' : '');
+            visibleData.substring(0, LOG_TRUNCATION_LIMIT) +
+            (visibleData.length > LOG_TRUNCATION_LIMIT ? '...' : '');
           console.log('[OpenCode CLI stdout]:', truncated);
-          this.emit('debug', { type: 'stdout', message: cleanData });
+          this.emit('debug', { type: 'stdout', message: visibleData });
 
           this.streamParser.feed(cleanData);
         }
@@ -317,6 +362,17 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
   }
 
   async interruptTask(): Promise<void> {
+    if (!this.ptyProcess && this.awaitingSubtasks && !this.hasCompleted) {
+      console.log('[OpenCode CLI] Task interrupted while waiting for sub-tasks');
+      this.awaitingSubtasks = false;
+      this.hasCompleted = true;
+      this.emit('complete', {
+        status: 'interrupted',
+        sessionId: this.currentSessionId || undefined,
+      });
+      return;
+    }
+
     if (!this.ptyProcess) {
       console.log('[OpenCode CLI] No active process to interrupt');
       return;
@@ -337,6 +393,68 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
     }
   }
 
+  /**
+   * Move the session to another model. The current turn is stopped and the
+   * session resumes on the new model with `prompt` once its process exits.
+   */
+  async switchModel(model: StuckFallbackModel, prompt: string): Promise<void> {
+    if (this.hasCompleted) {
+      return;
+    }
+
+    this.currentProviderId = model.providerId;
+    this.currentModelId = model.modelId;
+    this.modelSwitchPrompt = prompt;
+    this.emit('model-switch', model);
+    this.emit('progress', {
+      stage: 'model-switch',
+      message: 'Switching to the fallback model...',
+      modelName: this.options.getModelDisplayName?.(model.modelId) ?? model.modelId,
+    });
+
+    if (this.ptyProcess) {
+      this.ptyProcess.write('\x03');
+      console.log('[OpenCode CLI] Sent Ctrl+C to switch models');
+    } else {
+      await this.resumeOnSwitchedModel();
+    }
+  }
+
+  /**
+   * Continue the session once the sub-tasks it handed off have ended. The
+   * agent ends its turn after fanning out, so this waits for that turn's
+   * process to exit before resuming with `prompt`.
+   */
+  async resumeWithSubtaskResults(prompt: string): Promise<void> {
+    if (!this.awaitingSubtasks || this.hasCompleted) {
+      return;
+    }
+
+    this.subtaskResultsPrompt = prompt;
+    if (!this.ptyProcess) {
+      await this.resumeAfterSubtasks();
+    }
+  }
+
+  isAwaitingSubtasks(): boolean {
+    return this.awaitingSubtasks;
+  }
+
+  /** When the agent last produced a message, as epoch milliseconds */
+  getLastActivityAt(): number {
+    return this.lastActivityAt;
+  }
+
+  /** The agent's most recent message, used as a sub-task's summary */
+  getLastAssistantMessage(): string | undefined {
+    for (let i = this.messages.length - 1; i >= 0; i--) {
+      if (this.messages[i].type === 'assistant' && this.messages[i].content.trim()) {
+        return this.messages[i].content;
+      }
+    }
+    return undefined;
+  }
+
   getSessionId(): string | null {
     return this.currentSessionId;
   }
@@ -383,6 +501,9 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
     this.currentModelId = null;
     this.hasReceivedFirstTool = false;
     this.startTaskCalled = false;
+    this.awaitingSubtasks = false;
+    this.subtaskResultsPrompt = null;
+    this.recorder = null;
 
     if (this.waitingTransitionTimer) {
       clearTimeout(this.waitingTransitionTimer);
@@ -418,6 +539,7 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
 
   private setupStreamParsing(): void {
     this.streamParser.on('message', (message: OpenCodeMessage) => {
+      this.recorder?.recordMessage(message);
       this.handleMessage(message);
     });
 
@@ -429,6 +551,7 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
 
   private handleMessage(message: OpenCodeMessage): void {
     console.log('[OpenCode Adapter] Handling message type:', message.type);
+    this.lastActivityAt = Date.now();
 
     switch (message.type) {
       case 'step_start': {
@@ -553,15 +676,17 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
           break;
         }
 
+        // Ending the turn is expected while sub-tasks run; completion is
+        // checked once the session resumes with their results
+        if (this.awaitingSubtasks) {
+          break;
+        }
+
         const action = this.completionEnforcer.handleStepFinish(message.part.reason);
         console.log(`[OpenCode Adapter] step_finish action: ${action}`);
 
         if (action === 'complete' && !this.hasCompleted) {
-          this.hasCompleted = true;
-          this.emit('complete', {
-            status: 'success',
-            sessionId: this.currentSessionId || undefined,
-          });
+          this.emitCompletion();
         }
         break;
       }
@@ -604,6 +729,13 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
             console.log('[OpenCode Adapter] Created todos from start_task steps');
           }
         }
+        // tool_use is reported once per state change, so only fan out once
+        if (startInput.subtasks?.length && !this.subtasksRequested) {
+          this.subtasksRequested = true;
+          this.awaitingSubtasks = true;
+          this.emit('subtasks', { steps: startInput.subtasks, goal: startInput.goal });
+          console.log(`[OpenCode Adapter] Requested ${startInput.subtasks.length} sub-tasks`);
+        }
       }
     }
 
@@ -628,7 +760,11 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
     if (toolName === 'complete_task' || toolName.endsWith('_complete_task')) {
       this.completionEnforcer.handleCompleteTaskDetection(toolInput);
       const completeInput = toolInput as { summary?: string };
-      if (completeInput?.summary && this.completionEnforcer.shouldComplete()) {
+      if (
+        completeInput?.summary &&
+        (this.completionEnforcer.shouldComplete() ||
+          this.completionEnforcer.isPendingVerification())
+      ) {
         this.emit('message', {
           type: 'text',
           part: {
@@ -670,6 +806,13 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
 
   private handleProcessExit(code: number | null): void {
     this.ptyProcess = null;
+    this.recorder?.recordExit(code);
+
+    // A turn stopped to switch models exits however Ctrl+C leaves it
+    if (this.modelSwitchPrompt && !this.hasCompleted && !this.wasInterrupted) {
+      void this.resumeOnSwitchedModel();
+      return;
+    }
 
     if (this.wasInterrupted && code === 0 && !this.hasCompleted) {
       console.log('[OpenCode CLI] Task was interrupted by user');
@@ -682,6 +825,15 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
       return;
     }
 
+    if (code === 0 && !this.hasCompleted && this.awaitingSubtasks) {
+      if (this.subtaskResultsPrompt) {
+        void this.resumeAfterSubtasks();
+      } else {
+        console.log('[OpenCode Adapter] Turn ended, waiting for sub-tasks');
+      }
+      return;
+    }
+
     if (code === 0 && !this.hasCompleted) {
       this.completionEnforcer.handleProcessExit(code).catch((error) => {
         console.error('[OpenCode Adapter] Completion enforcer error:', error);
@@ -704,6 +856,51 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
     this.currentTaskId = null;
   }
 
+  private async resumeAfterSubtasks(): Promise<void> {
+    const prompt = this.subtaskResultsPrompt;
+    if (!prompt) {
+      return;
+    }
+
+    this.subtaskResultsPrompt = null;
+    this.awaitingSubtasks = false;
+    this.emit('debug', { type: 'subtasks', message: 'Resuming with sub-task results' });
+
+    try {
+      await this.spawnSessionResumption(prompt);
+    } catch (error) {
+      console.error('[OpenCode Adapter] Failed to resume after sub-tasks:', error);
+      this.hasCompleted = true;
+      this.emit('complete', {
+        status: 'error',
+        sessionId: this.currentSessionId || undefined,
+        error: `Failed to resume after sub-tasks: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }
+
+  private async resumeOnSwitchedModel(): Promise<void> {
+    const prompt = this.modelSwitchPrompt;
+    if (!prompt) {
+      return;
+    }
+
+    this.modelSwitchPrompt = null;
+    this.emit('debug', { type: 'model-switch', message: 'Resuming on the fallback model' });
+
+    try {
+      await this.spawnSessionResumption(prompt);
+    } catch (error) {
+      console.error('[OpenCode Adapter] Failed to resume on the fallback model:', error);
+      this.hasCompleted = true;
+      this.emit('complete', {
+        status: 'error',
+        sessionId: this.currentSessionId || undefined,
+        error: `Failed to switch models: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }
+
   private async spawnSessionResumption(prompt: string): Promise<void> {
     const sessionId = this.currentSessionId;
     if (!sessionId) {
@@ -713,12 +910,18 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
     console.log(`[OpenCode Adapter] Starting session resumption with session ${sessionId}`);
 
     this.streamParser.reset();
+    this.lastActivityAt = Date.now();
 
     const config: TaskConfig = {
       prompt,
       sessionId: sessionId,
       workingDirectory: this.lastWorkingDirectory,
     };
+    // Continuations stay on the task's own provider and model
+    if (this.currentProviderId) {
+      config.providerId = this.currentProviderId;
+      config.modelId = this.currentModelId || undefined;
+    }
 
     const cliArgs = await this.options.buildCliArgs(config);
 
@@ -729,20 +932,12 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
       [...baseArgs, ...cliArgs].join(' '),
     );
 
-    const env = await this.options.buildEnvironment(this.currentTaskId || 'default');
+    const env = await this.options.buildEnvironment(this.currentTaskId || 'default', config);
 
     const allArgs = [...baseArgs, ...cliArgs];
     const safeCwd = config.workingDirectory || this.options.tempPath;
 
-    const { file: spawnFile, args: spawnArgs } = this.buildPtySpawnArgs(command, allArgs);
-
-    this.ptyProcess = pty.spawn(spawnFile, spawnArgs, {
-      name: 'xterm-256color',
-      cols: 32000,
-      rows: 30,
-      cwd: safeCwd,
-      env: env as { [key: string]: string },
-    });
+    this.ptyProcess = this.spawnCli(command, allArgs, safeCwd, env);
 
     this.ptyProcess.onData((data: string) => {
       /* eslint-disable no-control-regex */
@@ -752,11 +947,13 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
         .replace(/\x1B\][^\x1B]*\x1B\\/g, '');
       /* eslint-enable no-control-regex */
       if (cleanData.trim()) {
+        // Logs and the debug panel never show secret answers; the parser needs them as sent
+        const visibleData = hideSecretAnswers(cleanData);
         const truncated =
-          cleanData.substring(0, LOG_TRUNCATION_LIMIT) +
-          (cleanData.length > LOG_TRUNCATION_LIMIT ? '...' : '');
+          visibleData.substring(0, LOG_TRUNCATION_LIMIT) +
+          (visibleData.length > LOG_TRUNCATION_LIMIT ? '...' : '');
         console.log('[OpenCode CLI stdout]:', truncated);
-        this.emit('debug', { type: 'stdout', message: cleanData });
+        this.emit('debug', { type: 'stdout', message: visibleData });
 
         this.streamParser.feed(cleanData);
       }
@@ -821,6 +1018,28 @@ export class OpenCodeAdapter extends EventEmitter<OpenCodeAdapterEvents> {
     console.log('[OpenCode Adapter] Emitted synthetic plan message');
   }
 
+  /** Launch the CLI in a PTY. The replay adapter plays back a recording here instead. */
+  protected spawnCli(
+    command: string,
+    args: string[],
+    cwd: string,
+    env: NodeJS.ProcessEnv,
+  ): pty.IPty {
+    const { file: spawnFile, args: spawnArgs } = this.buildPtySpawnArgs(command, args);
+
+    const spawnMsg = `PTY spawn: ${spawnFile} ${spawnArgs.join(' ')}`;
+    console.log('[OpenCode CLI]', spawnMsg);
+    this.emit('debug', { type: 'info', message: spawnMsg });
+
+    return pty.spawn(spawnFile, spawnArgs, {
+      name: 'xterm-256color',
+      cols: 32000,
+      rows: 30,
+      cwd,
+      env: env as { [key: string]: string },
+    });
+  }
+
   private buildPtySpawnArgs(command: string, args: string[]): { file: string; args: string[] } {
     if (this.options.platform === 'win32') {
       // Windows policy: always spawn the real .exe, never cmd wrappers.
@@ -852,6 +1071,7 @@ interface StartTaskInput {
   goal?: string;
   steps?: string[];
   verification?: string[];
+  subtasks?: string[];
   skills: string[];
 }
 
@@ -11,12 +11,17 @@ import {
   PERMISSION_REQUEST_TIMEOUT_MS,
   createFilePermissionRequestId,
   createQuestionRequestId,
+  validateQuestionInput,
 } from '../../common/index.js';
 import type {
   FileOperation,
   PermissionRequest,
   PermissionOption,
+  QuestionInputConstraints,
+  QuestionInputType,
 } from '../../common/types/permission.js';
+import type { PermissionRule } from '../../common/types/permission-rule.js';
+import { findMatchingPermissionRule } from '../../utils/permission-rules.js';
 
 /**
  * Generic pending request interface
@@ -44,6 +49,8 @@ export interface FilePermissionRequestData {
   filePaths?: string[];
   targetPath?: string;
   contentPreview?: string;
+  proposedContent?: string;
+  toolName?: string;
 }
 
 /**
@@ -54,6 +61,9 @@ export interface QuestionRequestData {
   header?: string;
   options?: Array<{ label: string; description?: string }>;
   multiSelect?: boolean;
+  /** How the question is answered; an option list with custom text when absent */
+  inputType?: QuestionInputType;
+  constraints?: QuestionInputConstraints;
 }
 
 /**
@@ -73,9 +83,34 @@ export class PermissionRequestHandler {
   private pendingPermissions = new Map<string, PendingRequest<boolean>>();
   private pendingQuestions = new Map<string, PendingRequest<QuestionResponseData>>();
   private defaultTimeoutMs: number;
+  private getPermissionRules: () => PermissionRule[];
 
-  constructor(timeoutMs: number = PERMISSION_REQUEST_TIMEOUT_MS) {
+  constructor(
+    timeoutMs: number = PERMISSION_REQUEST_TIMEOUT_MS,
+    getPermissionRules: () => PermissionRule[] = () => [],
+  ) {
     this.defaultTimeoutMs = timeoutMs;
+    this.getPermissionRules = getPermissionRules;
+  }
+
+  /**
+   * Find a saved rule that answers a file permission request without asking
+   * the user
+   * @param taskId - The task making the request
+   * @param data - The validated request data
+   * @param workingDirectory - The task's working directory, for project rules and relative paths
+   * @returns The deciding rule, or null if the user has to be asked
+   */
+  findPermissionRule(
+    taskId: string,
+    data: FilePermissionRequestData,
+    workingDirectory?: string | null,
+  ): PermissionRule | null {
+    return findMatchingPermissionRule(
+      this.getPermissionRules(),
+      { ...data, fileOperation: data.operation as FileOperation },
+      { taskId, workingDirectory },
+    );
   }
 
   /**
@@ -207,6 +242,16 @@ export class PermissionRequestHandler {
       return { valid: false, error: 'question is required' };
     }
 
+    if (requestData.inputType !== undefined || requestData.constraints !== undefined) {
+      const inputError = validateQuestionInput(
+        requestData.inputType ?? 'choice',
+        requestData.constraints,
+      );
+      if (inputError) {
+        return { valid: false, error: inputError };
+      }
+    }
+
     return { valid: true };
   }
 
@@ -231,6 +276,7 @@ export class PermissionRequestHandler {
       filePaths: data.filePaths,
       targetPath: data.targetPath,
       contentPreview: data.contentPreview?.substring(0, 500),
+      toolName: data.toolName,
       createdAt: new Date().toISOString(),
     };
   }
@@ -255,6 +301,8 @@ export class PermissionRequestHandler {
       header: data.header,
       options: data.options as PermissionOption[],
       multiSelect: data.multiSelect,
+      ...(data.inputType && data.inputType !== 'choice' && { inputType: data.inputType }),
+      ...(data.constraints && { constraints: data.constraints }),
       createdAt: new Date().toISOString(),
     };
   }
@@ -0,0 +1,185 @@
+import type { IDisposable, IEvent, IPty } from 'node-pty';
+import { OpenCodeAdapter, type AdapterOptions } from './OpenCodeAdapter.js';
+import type {
+  OpenCodeRecording,
+  OpenCodeRecordingEntry,
+  ReplayOptions,
+} from '../../opencode/recording.js';
+
+type ExitEvent = { exitCode: number; signal?: number };
+
+/** One CLI process of a recording: its entries and when it started */
+interface RecordedRun {
+  startOffsetMs: number;
+  entries: OpenCodeRecordingEntry[];
+}
+
+function splitRuns(entries: OpenCodeRecordingEntry[]): RecordedRun[] {
+  const runs: RecordedRun[] = [];
+  let current: RecordedRun = { startOffsetMs: 0, entries: [] };
+  for (const entry of entries) {
+    current.entries.push(entry);
+    if (entry.type === 'exit') {
+      runs.push(current);
+      current = { startOffsetMs: entry.offsetMs, entries: [] };
+    }
+  }
+  if (current.entries.length > 0) {
+    runs.push(current);
+  }
+  return runs;
+}
+
+function createEvent<T>(listeners: Set<(e: T) => void>): IEvent<T> {
+  return (listener): IDisposable => {
+    listeners.add(listener);
+    return { dispose: () => listeners.delete(listener) };
+  };
+}
+
+/**
+ * Stands in for the CLI's PTY, writing a recorded run's messages to stdout
+ * as JSON lines at their recorded pace and then exiting with the recorded
+ * code. A run that was recorded without an exit stays open, like a CLI that
+ * hung.
+ */
+class ReplayProcess implements IPty {
+  readonly pid = 0;
+  readonly cols = 32000;
+  readonly rows = 30;
+  readonly process = 'opencode-replay';
+  handleFlowControl = false;
+
+  private readonly dataListeners = new Set<(data: string) => void>();
+  private readonly exitListeners = new Set<(e: ExitEvent) => void>();
+  readonly onData = createEvent(this.dataListeners);
+  readonly onExit = createEvent(this.exitListeners);
+
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private nextIndex = 0;
+  private ended = false;
+
+  constructor(
+    private readonly run: RecordedRun,
+    private readonly speed: number,
+  ) {
+    // Deferred so the adapter can attach its listeners first
+    this.scheduleNext(run.startOffsetMs);
+  }
+
+  write(data: string | Buffer): void {
+    // Ctrl+C makes the CLI stop its turn and exit cleanly
+    if (data.toString().includes('\x03')) {
+      this.stop();
+      this.timer = setTimeout(() => this.emitExit(0), 0);
+    }
+  }
+
+  /** The adapter drops the process right after killing it, so no exit is reported */
+  kill(): void {
+    this.stop();
+  }
+
+  resize(): void {}
+
+  clear(): void {}
+
+  pause(): void {}
+
+  resume(): void {}
+
+  private scheduleNext(previousOffsetMs: number): void {
+    const entry = this.run.entries[this.nextIndex];
+    if (!entry || this.ended) {
+      return;
+    }
+
+    const gap = Math.max(0, entry.offsetMs - previousOffsetMs);
+    const delay = this.speed > 0 ? gap / this.speed : 0;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.nextIndex++;
+      if (entry.type === 'exit') {
+        this.emitExit(entry.exitCode ?? 0);
+        return;
+      }
+      const line = JSON.stringify(entry.message) + '\n';
+      for (const listener of this.dataListeners) {
+        listener(line);
+      }
+      this.scheduleNext(entry.offsetMs);
+    }, delay);
+  }
+
+  private stop(): void {
+    this.ended = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private emitExit(exitCode: number): void {
+    this.ended = true;
+    for (const listener of this.exitListeners) {
+      listener({ exitCode });
+    }
+  }
+}
+
+/**
+ * An OpenCodeAdapter that plays back a recorded task instead of running the
+ * CLI. Each CLI process the adapter starts, including continuations, plays
+ * the next recorded run, so the adapter's own parsing and completion logic
+ * produce the same events as the recorded task.
+ */
+export class ReplayAdapter extends OpenCodeAdapter {
+  private readonly runs: RecordedRun[];
+  private readonly speed: number;
+  private nextRun = 0;
+
+  constructor(
+    recording: OpenCodeRecording,
+    options: AdapterOptions,
+    taskId?: string,
+    replayOptions: ReplayOptions = {},
+  ) {
+    super(
+      {
+        platform: options.platform,
+        isPackaged: options.isPackaged,
+        tempPath: options.tempPath,
+        getModelDisplayName: options.getModelDisplayName,
+        getCliCommand: () => ({ command: 'opencode-replay', args: [] }),
+        buildEnvironment: async () => ({}),
+        buildCliArgs: async () => [],
+      },
+      taskId,
+    );
+    this.runs = splitRuns(recording.entries);
+    this.speed = replayOptions.speed ?? 1;
+  }
+
+  /** Recorded runs never touch the CLI's logs, so there is nothing to watch */
+  protected setupLogWatcher(): void {}
+
+  protected spawnCli(): IPty {
+    const run = this.runs[this.nextRun++];
+    if (!run) {
+      this.emit('debug', {
+        type: 'error',
+        message: 'Replay: the recording has no more CLI runs',
+      });
+      return new ReplayProcess(
+        { startOffsetMs: 0, entries: [{ type: 'exit', offsetMs: 0, exitCode: 1 }] },
+        0,
+      );
+    }
+
+    this.emit('debug', {
+      type: 'info',
+      message: `Replay: playing CLI run ${this.nextRun} of ${this.runs.length}`,
+    });
+    return new ReplayProcess(run, this.speed);
+  }
+}
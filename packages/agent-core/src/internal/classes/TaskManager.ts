@@ -1,21 +1,54 @@
 import { OpenCodeAdapter, AdapterOptions, OpenCodeCliNotFoundError } from './OpenCodeAdapter.js';
+import { ReplayAdapter } from './ReplayAdapter.js';
 import type {
   TaskConfig,
   Task,
   TaskMessage,
   TaskResult,
   TaskStatus,
+  TaskBudgetLimit,
+  TaskBudgetLimitStatus,
+  TaskUsage,
+  QueuedTaskInfo,
+  SubtaskResult,
+  TaskTimeout,
+  TaskTimeoutLimits,
 } from '../../common/types/task.js';
 import type { OpenCodeMessage } from '../../common/types/opencode.js';
+import type { OpenCodeRecording, ReplayOptions } from '../../opencode/recording.js';
 import type { PermissionRequest } from '../../common/types/permission.js';
 import type { TodoItem } from '../../common/types/todo.js';
+import type { VerificationCheck } from '../../common/types/verification.js';
+import type { StuckFallbackModel, StuckPolicy } from '../../common/types/thought-stream.js';
+import { createTaskId } from '../../common/utils/id.js';
 import {
   toTaskMessage,
+  createStructuredOutputMessage,
   flushAndCleanupBatcher,
   queueMessage,
 } from '../../opencode/message-processor.js';
 import { stopAzureFoundryProxy } from '../../opencode/proxies/azure-foundry-proxy.js';
 import { stopMoonshotProxy } from '../../opencode/proxies/moonshot-proxy.js';
+import {
+  addStepUsage,
+  createEmptyTaskUsage,
+  formatBudgetExceeded,
+  getBudgetWarningThreshold,
+  getTaskBudgetStatus,
+  isTaskBudgetEmpty,
+} from '../../utils/task-budget.js';
+import {
+  buildSubtaskPrompt,
+  buildSubtaskResultsPrompt,
+  buildSubtasksUnavailablePrompt,
+} from '../../utils/task-subtasks.js';
+import { getTaskRunConfig } from '../../utils/task-recovery.js';
+import {
+  formatTaskTimeout,
+  getExceededTimeout,
+  hasTaskTimeoutLimits,
+  resolveTaskTimeoutLimits,
+} from '../../utils/task-timeout.js';
 
 export interface TaskProgressEvent {
   stage: string;
@@ -35,6 +68,7 @@ export interface TaskCallbacks {
   onDebug?: (log: { type: string; message: string; data?: unknown }) => void;
   onTodoUpdate?: (todos: TodoItem[]) => void;
   onAuthError?: (error: { providerId: string; message: string }) => void;
+  onModelSwitch?: (model: StuckFallbackModel) => void;
   onReasoning?: (text: string) => void;
   onToolUse?: (toolName: string, toolInput: unknown) => void;
   onToolCallComplete?: (data: {
@@ -54,6 +88,10 @@ export interface TaskCallbacks {
     };
     cost?: number;
   }) => void;
+  onUsageUpdate?: (usage: TaskUsage, budget: TaskBudgetLimitStatus[]) => void;
+  onBudgetWarning?: (status: TaskBudgetLimitStatus, usage: TaskUsage) => void;
+  createSubtaskCallbacks?: (subtaskId: string) => TaskCallbacks;
+  onSubtaskStarted?: (subtask: Task) => void;
 }
 
 export interface TaskManagerOptions {
@@ -64,6 +102,24 @@ export interface TaskManagerOptions {
   maxConcurrentTasks?: number;
   isCliAvailable: () => Promise<boolean>;
   onBeforeTaskStart?: (callbacks: TaskCallbacks, isFirstTask: boolean) => Promise<void>;
+  getDefaultTimeouts?: () => TaskTimeoutLimits;
+  getReplayRecording?: (taskId: string) => OpenCodeRecording | undefined;
+  replayOptions?: ReplayOptions;
+  getProjectVerifications?: (workingDirectory: string) => VerificationCheck[] | undefined;
+}
+
+interface BudgetState {
+  usage: TaskUsage;
+  warnedLimits: Set<TaskBudgetLimit>;
+  exceeded?: TaskBudgetLimitStatus;
+}
+
+interface TimeoutState {
+  limits: TaskTimeoutLimits;
+  startedAt: number;
+  /** Set on a permission request; idle time does not count until the agent acts again */
+  waitingForUserSince?: number;
+  timedOut?: TaskTimeout;
 }
 
 interface ManagedTask {
@@ -72,29 +128,58 @@ interface ManagedTask {
   callbacks: TaskCallbacks;
   cleanup: () => void;
   createdAt: Date;
+  budgetState: BudgetState;
+  workingDirectory: string;
+  stuckPolicy?: StuckPolicy;
+  /** Set when the stuck policy stopped the task */
+  stuckAbortReason?: string;
+}
+
+interface SubtaskGroup {
+  /** One entry per step, in plan order, filled in as sub-tasks end */
+  results: SubtaskResult[];
+  pending: Set<string>;
 }
 
 interface QueuedTask {
   taskId: string;
   config: TaskConfig;
   callbacks: TaskCallbacks;
+  priority: number;
   createdAt: Date;
 }
 
 const DEFAULT_MAX_CONCURRENT_TASKS = 10;
 
+/** How often running tasks are checked against their time limits */
+const TIMEOUT_CHECK_INTERVAL_MS = 5_000;
+
+/** Grace period for a timed-out task to stop on interrupt before it is killed */
+const TIMEOUT_FORCE_STOP_MS = 10_000;
+
 export class TaskManager {
   private activeTasks: Map<string, ManagedTask> = new Map();
   private taskQueue: QueuedTask[] = [];
   private maxConcurrentTasks: number;
   private options: TaskManagerOptions;
   private isFirstTask: boolean = true;
+  /** Sub-tasks still running, keyed by the parent waiting on them */
+  private subtaskGroups: Map<string, SubtaskGroup> = new Map();
+  private subtaskParents: Map<string, string> = new Map();
 
   constructor(options: TaskManagerOptions) {
     this.options = options;
     this.maxConcurrentTasks = options.maxConcurrentTasks ?? DEFAULT_MAX_CONCURRENT_TASKS;
   }
 
+  /**
+   * Slots taken towards maxConcurrentTasks. A parent waiting on its sub-tasks
+   * gives up its slot so they can run even when the limit is low.
+   */
+  private get occupiedSlots(): number {
+    return this.activeTasks.size - this.subtaskGroups.size;
+  }
+
   getIsFirstTask(): boolean {
     return this.isFirstTask;
   }
@@ -109,7 +194,7 @@ export class TaskManager {
       throw new Error(`Task ${taskId} is already running or queued`);
     }
 
-    if (this.activeTasks.size >= this.maxConcurrentTasks) {
+    if (this.occupiedSlots >= this.maxConcurrentTasks) {
       console.log(
         `[TaskManager] At max concurrent tasks (${this.maxConcurrentTasks}). Queueing task ${taskId}`,
       );
@@ -130,11 +215,21 @@ export class TaskManager {
       taskId,
       config,
       callbacks,
+      priority: config.priority ?? 0,
       createdAt: new Date(),
     };
 
-    this.taskQueue.push(queuedTask);
-    console.log(`[TaskManager] Task ${taskId} queued. Queue length: ${this.taskQueue.length}`);
+    // The queue is kept ordered by priority, then by enqueue time, so a new
+    // task goes after every task of the same or higher priority.
+    const insertAt = this.taskQueue.findIndex((q) => q.priority < queuedTask.priority);
+    if (insertAt === -1) {
+      this.taskQueue.push(queuedTask);
+    } else {
+      this.taskQueue.splice(insertAt, 0, queuedTask);
+    }
+    console.log(
+      `[TaskManager] Task ${taskId} queued at position ${this.taskQueue.indexOf(queuedTask)} (priority ${queuedTask.priority}). Queue length: ${this.taskQueue.length}`,
+    );
 
     return {
       id: taskId,
@@ -142,6 +237,7 @@ export class TaskManager {
       status: 'queued',
       messages: [],
       createdAt: new Date().toISOString(),
+      runConfig: getTaskRunConfig(config),
     };
   }
 
@@ -155,7 +251,20 @@ export class TaskManager {
       buildCliArgs: (taskConfig) => this.options.adapterOptions.buildCliArgs(taskConfig, taskId),
     };
 
-    const adapter = new OpenCodeAdapter(adapterOptions, taskId);
+    const recording = this.options.getReplayRecording?.(taskId);
+    const adapter = recording
+      ? new ReplayAdapter(recording, adapterOptions, taskId, this.options.replayOptions)
+      : new OpenCodeAdapter(adapterOptions, taskId);
+    const budgetState: BudgetState = {
+      usage: createEmptyTaskUsage(),
+      warnedLimits: new Set(),
+    };
+    const timeoutState: TimeoutState = {
+      limits: resolveTaskTimeoutLimits(config, this.options.getDefaultTimeouts?.()),
+      startedAt: Date.now(),
+    };
+    let timeoutTimer: ReturnType<typeof setInterval> | null = null;
+    let forceStopTimer: ReturnType<typeof setTimeout> | null = null;
 
     const useInternalBatching = !!callbacks.onBatchedMessages;
     const batchForward = useInternalBatching
@@ -180,6 +289,7 @@ export class TaskManager {
     };
 
     const onPermissionRequest = (request: PermissionRequest) => {
+      timeoutState.waitingForUserSince = Date.now();
       if (useInternalBatching) {
         flushAndCleanupBatcher(taskId);
       }
@@ -187,11 +297,25 @@ export class TaskManager {
     };
 
     const onComplete = (result: TaskResult) => {
-      if (useInternalBatching) {
+      const summary = adapter.getLastAssistantMessage();
+      const finalResult = this.applyStuckAbortToResult(
+        this.applyTimeoutToResult(this.applyBudgetToResult(result, budgetState), timeoutState),
+        this.activeTasks.get(taskId)?.stuckAbortReason,
+      );
+      if (useInternalBatching && batchForward) {
+        if (result.structuredOutput !== undefined) {
+          queueMessage(
+            taskId,
+            createStructuredOutputMessage(result.structuredOutput),
+            batchForward,
+            () => {},
+          );
+        }
         flushAndCleanupBatcher(taskId);
       }
-      callbacks.onComplete(result);
+      callbacks.onComplete(finalResult);
       this.cleanupTask(taskId);
+      this.settleSubtask(taskId, { status: finalResult.status, result: finalResult, summary });
       this.processQueue();
     };
 
@@ -201,6 +325,10 @@ export class TaskManager {
       }
       callbacks.onError(error);
       this.cleanupTask(taskId);
+      this.settleSubtask(taskId, {
+        status: 'error',
+        result: { status: 'error', error: error.message },
+      });
       this.processQueue();
     };
 
@@ -216,6 +344,10 @@ export class TaskManager {
       callbacks.onAuthError?.(error);
     };
 
+    const onModelSwitch = (model: StuckFallbackModel) => {
+      callbacks.onModelSwitch?.(model);
+    };
+
     const onReasoning = (text: string) => {
       callbacks.onReasoning?.(text);
     };
@@ -233,6 +365,65 @@ export class TaskManager {
       callbacks.onToolCallComplete?.(data);
     };
 
+    const checkTimeouts = () => {
+      if (timeoutState.timedOut) {
+        return;
+      }
+
+      const lastActivityAt = adapter.getLastActivityAt();
+      const waitingForUser =
+        timeoutState.waitingForUserSince !== undefined &&
+        lastActivityAt <= timeoutState.waitingForUserSince;
+      const timeout = getExceededTimeout(
+        timeoutState.limits,
+        {
+          startedAt: timeoutState.startedAt,
+          lastActivityAt,
+          idlePaused: waitingForUser || adapter.isAwaitingSubtasks(),
+        },
+        Date.now(),
+      );
+      if (!timeout) {
+        return;
+      }
+
+      timeoutState.timedOut = timeout;
+      console.log(`[TaskManager] Task ${taskId}: ${formatTaskTimeout(timeout)}. Interrupting.`);
+      this.interruptTask(taskId).catch((err) => {
+        console.error(`[TaskManager] Failed to interrupt timed-out task ${taskId}:`, err);
+      });
+
+      // A hung CLI may never act on the interrupt, so stop it outright
+      forceStopTimer = setTimeout(() => {
+        if (this.activeTasks.get(taskId)?.adapter !== adapter) {
+          return;
+        }
+        console.log(`[TaskManager] Task ${taskId} did not stop after timing out. Killing it.`);
+        const sessionId = adapter.getSessionId() || undefined;
+        adapter
+          .cancelTask()
+          .catch((err) => {
+            console.error(`[TaskManager] Failed to kill timed-out task ${taskId}:`, err);
+          })
+          .finally(() => {
+            // The killed process may already have reported its exit
+            if (this.activeTasks.get(taskId)?.adapter === adapter) {
+              onComplete({ status: 'interrupted', sessionId });
+            }
+          });
+      }, TIMEOUT_FORCE_STOP_MS);
+    };
+
+    if (hasTaskTimeoutLimits(timeoutState.limits)) {
+      timeoutTimer = setInterval(checkTimeouts, TIMEOUT_CHECK_INTERVAL_MS);
+    }
+
+    const onSubtasks = (request: { steps: string[]; goal?: string }) => {
+      this.spawnSubtasks(taskId, config, callbacks, request).catch((err) => {
+        console.error(`[TaskManager] Failed to spawn sub-tasks for ${taskId}:`, err);
+      });
+    };
+
     const onStepFinish = (data: {
       reason: string;
       model?: string;
@@ -245,6 +436,7 @@ export class TaskManager {
       cost?: number;
     }) => {
       callbacks.onStepFinish?.(data);
+      this.trackStepUsage(taskId, config, callbacks, budgetState, data);
     };
 
     adapter.on('message', onMessage);
@@ -255,10 +447,12 @@ export class TaskManager {
     adapter.on('debug', onDebug);
     adapter.on('todo:update', onTodoUpdate);
     adapter.on('auth-error', onAuthError);
+    adapter.on('model-switch', onModelSwitch);
     adapter.on('reasoning', onReasoning);
     adapter.on('tool-use', onToolUse);
     adapter.on('tool-call-complete', onToolCallComplete);
     adapter.on('step-finish', onStepFinish);
+    adapter.on('subtasks', onSubtasks);
 
     const cleanup = () => {
       adapter.off('message', onMessage);
@@ -269,10 +463,18 @@ export class TaskManager {
       adapter.off('debug', onDebug);
       adapter.off('todo:update', onTodoUpdate);
       adapter.off('auth-error', onAuthError);
+      adapter.off('model-switch', onModelSwitch);
       adapter.off('reasoning', onReasoning);
       adapter.off('tool-use', onToolUse);
       adapter.off('tool-call-complete', onToolCallComplete);
       adapter.off('step-finish', onStepFinish);
+      adapter.off('subtasks', onSubtasks);
+      if (timeoutTimer) {
+        clearInterval(timeoutTimer);
+      }
+      if (forceStopTimer) {
+        clearTimeout(forceStopTimer);
+      }
       adapter.dispose();
     };
 
@@ -282,6 +484,9 @@ export class TaskManager {
       callbacks,
       cleanup,
       createdAt: new Date(),
+      budgetState,
+      workingDirectory: config.workingDirectory || this.options.defaultWorkingDirectory,
+      stuckPolicy: config.stuckPolicy,
     };
     this.activeTasks.set(taskId, managedTask);
 
@@ -293,6 +498,7 @@ export class TaskManager {
       status: 'running',
       messages: [],
       createdAt: new Date().toISOString(),
+      runConfig: getTaskRunConfig(config),
     };
 
     const isFirstTask = this.isFirstTask;
@@ -317,12 +523,20 @@ export class TaskManager {
         await adapter.startTask({
           ...config,
           taskId,
-          workingDirectory: config.workingDirectory || this.options.defaultWorkingDirectory,
+          workingDirectory: managedTask.workingDirectory,
+          verifications:
+            config.verifications ??
+            this.options.getProjectVerifications?.(managedTask.workingDirectory),
         });
       } catch (error) {
         console.error(`[TaskManager] Task startup failed for ${taskId}:`, error);
-        callbacks.onError(error instanceof Error ? error : new Error(String(error)));
+        const startupError = error instanceof Error ? error : new Error(String(error));
+        callbacks.onError(startupError);
         this.cleanupTask(taskId);
+        this.settleSubtask(taskId, {
+          status: 'error',
+          result: { status: 'error', error: startupError.message },
+        });
         this.processQueue();
       }
     })();
@@ -330,8 +544,238 @@ export class TaskManager {
     return task;
   }
 
+  private trackStepUsage(
+    taskId: string,
+    config: TaskConfig,
+    callbacks: TaskCallbacks,
+    budgetState: BudgetState,
+    step: Parameters<typeof addStepUsage>[1],
+  ): void {
+    budgetState.usage = addStepUsage(budgetState.usage, step);
+
+    const budget = config.budget;
+    if (!budget || isTaskBudgetEmpty(budget)) {
+      callbacks.onUsageUpdate?.(budgetState.usage, []);
+      return;
+    }
+
+    const statuses = getTaskBudgetStatus(budgetState.usage, budget);
+    callbacks.onUsageUpdate?.(budgetState.usage, statuses);
+
+    if (budgetState.exceeded) {
+      return;
+    }
+
+    const exceeded = statuses.find((status) => status.ratio >= 1);
+    if (exceeded) {
+      budgetState.exceeded = exceeded;
+      console.log(`[TaskManager] Task ${taskId}: ${formatBudgetExceeded(exceeded)}. Interrupting.`);
+      this.interruptTask(taskId).catch((err) => {
+        console.error(`[TaskManager] Failed to interrupt task ${taskId} over budget:`, err);
+      });
+      return;
+    }
+
+    const threshold = getBudgetWarningThreshold(budget);
+    for (const status of statuses) {
+      if (status.ratio >= threshold && !budgetState.warnedLimits.has(status.limit)) {
+        budgetState.warnedLimits.add(status.limit);
+        callbacks.onBudgetWarning?.(status, budgetState.usage);
+      }
+    }
+  }
+
+  /**
+   * Attach accumulated usage to a result and, when the task was stopped for
+   * crossing a limit, turn it into an interrupted "budget exceeded" result.
+   * A task that managed to finish successfully keeps its success status.
+   */
+  private applyBudgetToResult(result: TaskResult, budgetState: BudgetState): TaskResult {
+    const withUsage: TaskResult =
+      budgetState.usage.steps > 0 ? { ...result, usage: budgetState.usage } : result;
+
+    if (!budgetState.exceeded || result.status === 'success') {
+      return withUsage;
+    }
+
+    return {
+      ...withUsage,
+      status: 'interrupted',
+      error: formatBudgetExceeded(budgetState.exceeded),
+      budgetExceeded: budgetState.exceeded,
+    };
+  }
+
+  /**
+   * Start one child task per independent step a task handed off. The parent
+   * resumes with every child's result once the last of them has ended.
+   */
+  private async spawnSubtasks(
+    parentTaskId: string,
+    parentConfig: TaskConfig,
+    parentCallbacks: TaskCallbacks,
+    request: { steps: string[]; goal?: string },
+  ): Promise<void> {
+    const parent = this.activeTasks.get(parentTaskId);
+    if (!parent) {
+      return;
+    }
+
+    // Sub-tasks do not fan out further, and without a way to report children
+    // to the host the parent carries out the steps itself
+    if (this.subtaskParents.has(parentTaskId) || !parentCallbacks.createSubtaskCallbacks) {
+      console.log(`[TaskManager] Sub-tasks unavailable for ${parentTaskId}, running steps inline`);
+      await parent.adapter.resumeWithSubtaskResults(buildSubtasksUnavailablePrompt(request.steps));
+      return;
+    }
+
+    const group: SubtaskGroup = { results: [], pending: new Set() };
+    for (const step of request.steps) {
+      const subtaskId = createTaskId();
+      group.results.push({ taskId: subtaskId, step, status: 'cancelled' });
+      group.pending.add(subtaskId);
+      this.subtaskParents.set(subtaskId, parentTaskId);
+    }
+    this.subtaskGroups.set(parentTaskId, group);
+
+    console.log(`[TaskManager] Task ${parentTaskId} fanned out ${group.results.length} sub-tasks`);
+    parentCallbacks.onProgress({
+      stage: 'subtasks',
+      message: `Waiting for ${group.results.length} sub-tasks...`,
+    });
+
+    for (const { taskId: subtaskId, step } of group.results) {
+      if (this.subtaskGroups.get(parentTaskId) !== group) {
+        break;
+      }
+
+      const subtaskConfig: TaskConfig = {
+        prompt: buildSubtaskPrompt(parentConfig.prompt, step, request.goal),
+        workingDirectory: parentConfig.workingDirectory,
+        providerId: parentConfig.providerId,
+        modelId: parentConfig.modelId,
+        priority: parentConfig.priority,
+      };
+
+      try {
+        const callbacks = parentCallbacks.createSubtaskCallbacks(subtaskId);
+        const task = await this.startTask(subtaskId, subtaskConfig, callbacks);
+        parentCallbacks.onSubtaskStarted?.({ ...task, parentTaskId, summary: step });
+      } catch (error) {
+        console.error(`[TaskManager] Failed to start sub-task ${subtaskId}:`, error);
+        this.settleSubtask(subtaskId, {
+          status: 'error',
+          result: {
+            status: 'error',
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+    }
+
+    this.processQueue();
+  }
+
+  /** Record how a sub-task ended and resume its parent when it was the last one */
+  private settleSubtask(
+    taskId: string,
+    outcome: Pick<SubtaskResult, 'status' | 'result' | 'summary'>,
+  ): void {
+    const parentTaskId = this.subtaskParents.get(taskId);
+    if (!parentTaskId) {
+      return;
+    }
+    this.subtaskParents.delete(taskId);
+
+    const group = this.subtaskGroups.get(parentTaskId);
+    if (!group || !group.pending.delete(taskId)) {
+      return;
+    }
+
+    const entry = group.results.find((result) => result.taskId === taskId);
+    if (entry) {
+      Object.assign(entry, outcome);
+    }
+
+    if (group.pending.size > 0) {
+      return;
+    }
+
+    this.subtaskGroups.delete(parentTaskId);
+    const parent = this.activeTasks.get(parentTaskId);
+    if (!parent) {
+      return;
+    }
+
+    console.log(`[TaskManager] All sub-tasks of ${parentTaskId} ended. Resuming parent`);
+    parent.adapter
+      .resumeWithSubtaskResults(buildSubtaskResultsPrompt(group.results))
+      .catch((err) => {
+        console.error(`[TaskManager] Failed to resume task ${parentTaskId}:`, err);
+      });
+  }
+
+  /** Cancel the sub-tasks of a parent that ended before they did */
+  private cancelSubtasks(parentTaskId: string): void {
+    const group = this.subtaskGroups.get(parentTaskId);
+    if (!group) {
+      return;
+    }
+    this.subtaskGroups.delete(parentTaskId);
+
+    for (const subtaskId of group.pending) {
+      this.subtaskParents.delete(subtaskId);
+      const callbacks =
+        this.activeTasks.get(subtaskId)?.callbacks ??
+        this.taskQueue.find((q) => q.taskId === subtaskId)?.callbacks;
+      console.log(`[TaskManager] Cancelling sub-task ${subtaskId} of ${parentTaskId}`);
+      this.cancelTask(subtaskId)
+        .then(() => callbacks?.onStatusChange?.('cancelled'))
+        .catch((err) => {
+          console.error(`[TaskManager] Error cancelling sub-task ${subtaskId}:`, err);
+        });
+    }
+  }
+
+  /**
+   * Turn the result of a task stopped for running past a time limit into an
+   * interrupted "timed out" result. A task that finished anyway keeps its status.
+   */
+  private applyTimeoutToResult(result: TaskResult, timeoutState: TimeoutState): TaskResult {
+    if (!timeoutState.timedOut || result.status === 'success' || result.budgetExceeded) {
+      return result;
+    }
+
+    return {
+      ...result,
+      status: 'interrupted',
+      error: formatTaskTimeout(timeoutState.timedOut),
+      timedOut: timeoutState.timedOut,
+    };
+  }
+
+  /**
+   * Turn the result of a task the stuck policy stopped into an interrupted
+   * result that names the blocker. A task that finished anyway keeps its status.
+   */
+  private applyStuckAbortToResult(result: TaskResult, abortReason?: string): TaskResult {
+    if (!abortReason || result.status === 'success' || result.budgetExceeded || result.timedOut) {
+      return result;
+    }
+
+    return { ...result, status: 'interrupted', error: abortReason };
+  }
+
+  getTaskUsage(taskId: string): TaskUsage | null {
+    return this.activeTasks.get(taskId)?.budgetState.usage ?? null;
+  }
+
+  getWorkingDirectory(taskId: string): string | null {
+    return this.activeTasks.get(taskId)?.workingDirectory ?? null;
+  }
+
   private async processQueue(): Promise<void> {
-    while (this.taskQueue.length > 0 && this.activeTasks.size < this.maxConcurrentTasks) {
+    while (this.taskQueue.length > 0 && this.occupiedSlots < this.maxConcurrentTasks) {
       const nextTask = this.taskQueue.shift()!;
       console.log(
         `[TaskManager] Processing queue. Starting task ${nextTask.taskId}. Active: ${this.activeTasks.size}, Remaining in queue: ${this.taskQueue.length}`,
@@ -357,6 +801,7 @@ export class TaskManager {
     if (queueIndex !== -1) {
       console.log(`[TaskManager] Cancelling queued task ${taskId}`);
       this.taskQueue.splice(queueIndex, 1);
+      this.settleSubtask(taskId, { status: 'cancelled' });
       return;
     }
 
@@ -372,6 +817,7 @@ export class TaskManager {
       await managedTask.adapter.cancelTask();
     } finally {
       this.cleanupTask(taskId);
+      this.settleSubtask(taskId, { status: 'cancelled' });
       this.processQueue();
     }
   }
@@ -387,6 +833,39 @@ export class TaskManager {
     await managedTask.adapter.interruptTask();
   }
 
+  getStuckPolicy(taskId: string): StuckPolicy | undefined {
+    return this.activeTasks.get(taskId)?.stuckPolicy;
+  }
+
+  async switchTaskModel(
+    taskId: string,
+    fallbackModel: StuckFallbackModel,
+    prompt: string,
+  ): Promise<void> {
+    const managedTask = this.activeTasks.get(taskId);
+    if (!managedTask) {
+      console.warn(`[TaskManager] Task ${taskId} not found for model switch`);
+      return;
+    }
+
+    console.log(
+      `[TaskManager] Switching task ${taskId} to ${fallbackModel.providerId}/${fallbackModel.modelId}`,
+    );
+    await managedTask.adapter.switchModel(fallbackModel, prompt);
+  }
+
+  async abortStuckTask(taskId: string, reason: string): Promise<void> {
+    const managedTask = this.activeTasks.get(taskId);
+    if (!managedTask) {
+      console.warn(`[TaskManager] Task ${taskId} not found for stuck abort`);
+      return;
+    }
+
+    console.log(`[TaskManager] Task ${taskId}: ${reason}. Interrupting.`);
+    managedTask.stuckAbortReason = reason;
+    await managedTask.adapter.interruptTask();
+  }
+
   cancelQueuedTask(taskId: string): boolean {
     const queueIndex = this.taskQueue.findIndex((q) => q.taskId === taskId);
     if (queueIndex === -1) {
@@ -395,9 +874,47 @@ export class TaskManager {
 
     console.log(`[TaskManager] Removing task ${taskId} from queue`);
     this.taskQueue.splice(queueIndex, 1);
+    this.settleSubtask(taskId, { status: 'cancelled' });
+    return true;
+  }
+
+  /**
+   * Move a queued task to `toIndex`. The moved task takes on the priority of
+   * the neighbour it passes, so later enqueues keep respecting the new order.
+   */
+  reorderQueuedTask(taskId: string, toIndex: number): boolean {
+    const fromIndex = this.taskQueue.findIndex((q) => q.taskId === taskId);
+    if (fromIndex === -1) {
+      return false;
+    }
+
+    const targetIndex = Math.max(0, Math.min(Math.trunc(toIndex), this.taskQueue.length - 1));
+    const [queuedTask] = this.taskQueue.splice(fromIndex, 1);
+    this.taskQueue.splice(targetIndex, 0, queuedTask);
+
+    const before = this.taskQueue[targetIndex - 1];
+    const after = this.taskQueue[targetIndex + 1];
+    if (targetIndex < fromIndex && after) {
+      queuedTask.priority = Math.max(queuedTask.priority, after.priority);
+    } else if (targetIndex > fromIndex && before) {
+      queuedTask.priority = Math.min(queuedTask.priority, before.priority);
+    }
+
+    console.log(
+      `[TaskManager] Moved queued task ${taskId} from position ${fromIndex} to ${targetIndex}`,
+    );
     return true;
   }
 
+  getQueuedTasks(): QueuedTaskInfo[] {
+    return this.taskQueue.map((q) => ({
+      taskId: q.taskId,
+      prompt: q.config.prompt,
+      priority: q.priority,
+      enqueuedAt: q.createdAt.toISOString(),
+    }));
+  }
+
   async sendResponse(taskId: string, response: string): Promise<void> {
     const managedTask = this.activeTasks.get(taskId);
     if (!managedTask) {
@@ -472,6 +989,7 @@ export class TaskManager {
       console.log(`[TaskManager] Cleaning up task ${taskId}`);
       managedTask.cleanup();
       this.activeTasks.delete(taskId);
+      this.cancelSubtasks(taskId);
       console.log(
         `[TaskManager] Task ${taskId} cleaned up. Active tasks: ${this.activeTasks.size}`,
       );
@@ -495,6 +1013,8 @@ export class TaskManager {
     }
 
     this.activeTasks.clear();
+    this.subtaskGroups.clear();
+    this.subtaskParents.clear();
 
     // Clean up proxies
     stopAzureFoundryProxy().catch((err) => {
@@ -0,0 +1,186 @@
+import type { Task, TaskMessage } from '../../common/types/task.js';
+import type { TaskSchedule, CreateScheduleInput } from '../../common/types/schedule.js';
+import { createMessageId, createScheduleId, createTaskId } from '../../common/utils/id.js';
+import { getNextCronRun, parseCronExpression } from '../../utils/cron.js';
+import type { TaskSchedulerOptions } from '../../types/scheduler.js';
+
+const DEFAULT_CHECK_INTERVAL_MS = 30_000;
+
+export class TaskScheduler {
+  private options: TaskSchedulerOptions;
+  private checkIntervalMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isChecking = false;
+
+  constructor(options: TaskSchedulerOptions) {
+    this.options = options;
+    this.checkIntervalMs = options.checkIntervalMs ?? DEFAULT_CHECK_INTERVAL_MS;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    // Skip runs missed while stopped: move stale schedules to their next future slot
+    const now = new Date();
+    for (const schedule of this.options.storage.getEnabledSchedules()) {
+      if (!schedule.nextRunAt || new Date(schedule.nextRunAt) <= now) {
+        this.options.storage.upsertSchedule({
+          ...schedule,
+          nextRunAt: this.computeNextRunAt(schedule.cronExpression, now),
+          updatedAt: now.toISOString(),
+        });
+      }
+    }
+
+    this.timer = setInterval(() => {
+      void this.checkDueSchedules();
+    }, this.checkIntervalMs);
+    this.timer.unref?.();
+
+    console.log(`[TaskScheduler] Started (checking every ${this.checkIntervalMs}ms)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('[TaskScheduler] Stopped');
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  listSchedules(): TaskSchedule[] {
+    return this.options.storage.getAllSchedules();
+  }
+
+  createSchedule(input: CreateScheduleInput): TaskSchedule {
+    parseCronExpression(input.cronExpression);
+
+    const now = new Date();
+    const isEnabled = input.isEnabled ?? true;
+    const schedule: TaskSchedule = {
+      id: createScheduleId(),
+      name: input.name,
+      cronExpression: input.cronExpression.trim(),
+      config: input.config,
+      isEnabled,
+      nextRunAt: isEnabled ? this.computeNextRunAt(input.cronExpression, now) : undefined,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+
+    this.options.storage.upsertSchedule(schedule);
+    return schedule;
+  }
+
+  setScheduleEnabled(id: string, enabled: boolean): TaskSchedule {
+    const schedule = this.options.storage.getScheduleById(id);
+    if (!schedule) {
+      throw new Error(`Schedule not found: ${id}`);
+    }
+
+    const now = new Date();
+    const updated: TaskSchedule = {
+      ...schedule,
+      isEnabled: enabled,
+      nextRunAt: enabled ? this.computeNextRunAt(schedule.cronExpression, now) : undefined,
+      updatedAt: now.toISOString(),
+    };
+
+    this.options.storage.upsertSchedule(updated);
+    return updated;
+  }
+
+  deleteSchedule(id: string): void {
+    this.options.storage.deleteSchedule(id);
+  }
+
+  async checkDueSchedules(now: Date = new Date()): Promise<void> {
+    if (this.isChecking) {
+      return;
+    }
+    this.isChecking = true;
+
+    try {
+      const due = this.options.storage
+        .getEnabledSchedules()
+        .filter((schedule) => schedule.nextRunAt && new Date(schedule.nextRunAt) <= now);
+
+      for (const schedule of due) {
+        await this.runSchedule(schedule, now);
+      }
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private async runSchedule(schedule: TaskSchedule, now: Date): Promise<void> {
+    const nextRunAt = this.computeNextRunAt(schedule.cronExpression, now);
+
+    // Advance first so a failing run is not retried on every tick
+    this.options.storage.upsertSchedule({
+      ...schedule,
+      nextRunAt,
+      updatedAt: now.toISOString(),
+    });
+
+    if (schedule.lastTaskId && this.options.taskManager.hasActiveTask(schedule.lastTaskId)) {
+      console.log(
+        `[TaskScheduler] Skipping run of ${schedule.id}: previous run ${schedule.lastTaskId} is still active`,
+      );
+      return;
+    }
+
+    if (this.options.canRun && !this.options.canRun(schedule)) {
+      console.log(`[TaskScheduler] Skipping run of ${schedule.id}: host is not ready`);
+      return;
+    }
+
+    const taskId = createTaskId();
+    const config = this.options.prepareConfig
+      ? this.options.prepareConfig({ ...schedule.config }, schedule)
+      : { ...schedule.config };
+
+    try {
+      const callbacks = this.options.createCallbacks(taskId, schedule);
+      const task: Task = await this.options.taskManager.startTask(taskId, config, callbacks);
+
+      const initialUserMessage: TaskMessage = {
+        id: createMessageId(),
+        type: 'user',
+        content: config.prompt,
+        timestamp: new Date().toISOString(),
+      };
+      task.messages = [initialUserMessage];
+      task.summary = task.summary ?? schedule.name;
+      task.scheduleId = schedule.id;
+
+      this.options.storage.saveTask(task);
+      this.options.storage.recordScheduleRun(
+        schedule.id,
+        taskId,
+        now.toISOString(),
+        nextRunAt ?? null,
+      );
+
+      console.log(`[TaskScheduler] Started task ${taskId} for schedule ${schedule.id}`);
+      this.options.onTaskStarted?.(task, schedule);
+    } catch (error) {
+      console.error(`[TaskScheduler] Failed to start run of schedule ${schedule.id}:`, error);
+    }
+  }
+
+  private computeNextRunAt(cronExpression: string, after: Date): string | undefined {
+    try {
+      return getNextCronRun(cronExpression, after)?.toISOString();
+    } catch (error) {
+      console.error(`[TaskScheduler] Invalid cron expression "${cronExpression}":`, error);
+      return undefined;
+    }
+  }
+}
@@ -6,7 +6,12 @@
  * and IPC forwarding remain in the desktop app.
  */
 
-import type { ThoughtEvent, CheckpointEvent } from '../../common/types/thought-stream.js';
+import type {
+  ThoughtEvent,
+  CheckpointEvent,
+  StuckEscalation,
+  StuckPolicy,
+} from '../../common/types/thought-stream.js';
 
 /**
  * Handler for thought stream events from MCP tools.
@@ -14,6 +19,8 @@ import type { ThoughtEvent, CheckpointEvent } from '../../common/types/thought-s
  */
 export class ThoughtStreamHandler {
   private activeTaskIds = new Set<string>();
+  private stuckCounts = new Map<string, number>();
+  private switchedModelTaskIds = new Set<string>();
 
   /**
    * Register a task ID as active (called when task starts)
@@ -27,6 +34,8 @@ export class ThoughtStreamHandler {
    */
   unregisterTask(taskId: string): void {
     this.activeTaskIds.delete(taskId);
+    this.stuckCounts.delete(taskId);
+    this.switchedModelTaskIds.delete(taskId);
   }
 
   /**
@@ -48,6 +57,8 @@ export class ThoughtStreamHandler {
    */
   clearAllTasks(): void {
     this.activeTaskIds.clear();
+    this.stuckCounts.clear();
+    this.switchedModelTaskIds.clear();
   }
 
   /**
@@ -88,6 +99,47 @@ export class ThoughtStreamHandler {
     return typed;
   }
 
+  /**
+   * Decide what to do about a checkpoint under the task's stuck policy.
+   * Returns null for progress reports, unknown tasks and the notify action.
+   */
+  evaluateCheckpoint(event: CheckpointEvent, policy?: StuckPolicy): StuckEscalation | null {
+    if (event.status !== 'stuck' || !this.isTaskActive(event.taskId)) {
+      return null;
+    }
+
+    const stuckCount = (this.stuckCounts.get(event.taskId) ?? 0) + 1;
+    this.stuckCounts.set(event.taskId, stuckCount);
+
+    if (!policy) {
+      return null;
+    }
+
+    if (policy.abortAfter !== undefined && stuckCount >= policy.abortAfter) {
+      return {
+        action: 'abort',
+        stuckCount,
+        reason: `Aborted after the agent reported being stuck ${stuckCount} time(s)${
+          event.blocker ? `: ${event.blocker}` : ''
+        }`,
+      };
+    }
+
+    switch (policy.action) {
+      case 'ask-user':
+        return { action: 'ask-user', stuckCount };
+      case 'switch-model':
+        // A second stuck report on the fallback model is left to abortAfter
+        if (!policy.fallbackModel || this.switchedModelTaskIds.has(event.taskId)) {
+          return null;
+        }
+        this.switchedModelTaskIds.add(event.taskId);
+        return { action: 'switch-model', stuckCount, fallbackModel: policy.fallbackModel };
+      default:
+        return null;
+    }
+  }
+
   /**
    * Type guard to check if data matches ThoughtEvent structure
    */
@@ -0,0 +1,257 @@
+import {
+  WEBHOOK_EVENTS,
+  type CreateWebhookTargetInput,
+  type UpdateWebhookTargetInput,
+  type WebhookDelivery,
+  type WebhookEvent,
+  type WebhookPayload,
+  type WebhookTarget,
+} from '../../common/types/webhook.js';
+import { createWebhookDeliveryId, createWebhookTargetId } from '../../common/utils/id.js';
+import { fetchWithTimeout } from '../../utils/fetch.js';
+import { validateHttpUrl } from '../../utils/url.js';
+import { generateWebhookSecret, signWebhookPayload } from '../../utils/webhook-signature.js';
+import type { WebhookDispatcherOptions } from '../../types/webhooks.js';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_INITIAL_BACKOFF_MS = 2_000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_LOG_ENTRIES = 200;
+
+/** A delivery being sent: the log entry plus what is needed to (re)send it */
+interface PendingDelivery {
+  delivery: WebhookDelivery;
+  target: WebhookTarget;
+  data?: Record<string, unknown>;
+  /** Built on the first attempt and reused by retries so the payload never changes */
+  body?: string;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/** Timeouts, network errors, rate limiting and server errors are worth retrying */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function validateEvents(events: WebhookEvent[]): WebhookEvent[] {
+  const valid = WEBHOOK_EVENTS.filter((event) => events.includes(event));
+  if (valid.length === 0) {
+    throw new Error('Select at least one webhook event');
+  }
+  return valid;
+}
+
+export class WebhookDispatcher {
+  private options: WebhookDispatcherOptions;
+  private maxAttempts: number;
+  private initialBackoffMs: number;
+  private requestTimeoutMs: number;
+  private maxLogEntries: number;
+  private pending = new Map<string, PendingDelivery>();
+  private disposed = false;
+
+  constructor(options: WebhookDispatcherOptions) {
+    this.options = options;
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+    this.initialBackoffMs = options.initialBackoffMs ?? DEFAULT_INITIAL_BACKOFF_MS;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.maxLogEntries = options.maxLogEntries ?? DEFAULT_MAX_LOG_ENTRIES;
+  }
+
+  listTargets(): WebhookTarget[] {
+    return this.options.storage.getAllWebhookTargets();
+  }
+
+  createTarget(input: CreateWebhookTargetInput): WebhookTarget {
+    const now = new Date().toISOString();
+    const target: WebhookTarget = {
+      id: createWebhookTargetId(),
+      name: input.name,
+      url: validateHttpUrl(input.url, 'Webhook URL').toString(),
+      secret: generateWebhookSecret(),
+      events: validateEvents(input.events),
+      isEnabled: input.isEnabled ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.options.storage.upsertWebhookTarget(target);
+    return target;
+  }
+
+  updateTarget(id: string, input: UpdateWebhookTargetInput): WebhookTarget {
+    const target = this.options.storage.getWebhookTargetById(id);
+    if (!target) {
+      throw new Error(`Webhook target not found: ${id}`);
+    }
+
+    const updated: WebhookTarget = {
+      ...target,
+      name: input.name ?? target.name,
+      url: input.url ? validateHttpUrl(input.url, 'Webhook URL').toString() : target.url,
+      events: input.events ? validateEvents(input.events) : target.events,
+      isEnabled: input.isEnabled ?? target.isEnabled,
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.options.storage.upsertWebhookTarget(updated);
+    return updated;
+  }
+
+  deleteTarget(id: string): void {
+    for (const [deliveryId, pending] of this.pending) {
+      if (pending.target.id === id) {
+        if (pending.timer) {
+          clearTimeout(pending.timer);
+        }
+        this.pending.delete(deliveryId);
+      }
+    }
+    this.options.storage.deleteWebhookTarget(id);
+  }
+
+  listDeliveries(limit: number = this.maxLogEntries): WebhookDelivery[] {
+    return this.options.storage.getWebhookDeliveries(limit);
+  }
+
+  dispatch(event: WebhookEvent, taskId: string, data?: Record<string, unknown>): void {
+    if (this.disposed) {
+      return;
+    }
+
+    const targets = this.options.storage
+      .getAllWebhookTargets()
+      .filter((target) => target.isEnabled && target.events.includes(event));
+    if (targets.length === 0) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    for (const target of targets) {
+      const delivery: WebhookDelivery = {
+        id: createWebhookDeliveryId(),
+        targetId: target.id,
+        event,
+        taskId,
+        status: 'pending',
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.options.storage.upsertWebhookDelivery(delivery);
+
+      const pending: PendingDelivery = { delivery, target, data, timer: null };
+      this.pending.set(delivery.id, pending);
+      // Deferred so the event's caller finishes (e.g. saving the task) before the payload is built
+      this.scheduleAttempt(pending, 0);
+    }
+
+    this.options.storage.pruneWebhookDeliveries(this.maxLogEntries);
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    for (const pending of this.pending.values()) {
+      if (pending.timer) {
+        clearTimeout(pending.timer);
+      }
+    }
+    this.pending.clear();
+  }
+
+  private scheduleAttempt(pending: PendingDelivery, delayMs: number): void {
+    pending.timer = setTimeout(() => {
+      pending.timer = null;
+      void this.attempt(pending);
+    }, delayMs);
+    pending.timer.unref?.();
+  }
+
+  private buildBody(pending: PendingDelivery): string {
+    const { delivery, data } = pending;
+    const payload: WebhookPayload = {
+      id: delivery.id,
+      event: delivery.event,
+      timestamp: delivery.createdAt,
+      task: this.options.describeTask?.(delivery.taskId) ?? { id: delivery.taskId },
+      ...(data ? { data } : {}),
+    };
+    return JSON.stringify(payload);
+  }
+
+  private async attempt(pending: PendingDelivery): Promise<void> {
+    const { target } = pending;
+    if (pending.body === undefined) {
+      pending.body = this.buildBody(pending);
+    }
+    const body = pending.body;
+    const attempts = pending.delivery.attempts + 1;
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+    let retryable = true;
+    try {
+      const response = await fetchWithTimeout(
+        target.url,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'Accomplish-Webhooks/1',
+            'X-Accomplish-Event': pending.delivery.event,
+            'X-Accomplish-Delivery': pending.delivery.id,
+            'X-Accomplish-Timestamp': String(timestamp),
+            'X-Accomplish-Signature': signWebhookPayload(target.secret, timestamp, body),
+          },
+          body,
+        },
+        this.requestTimeoutMs,
+      );
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+        retryable = isRetryableStatus(response.status);
+      }
+    } catch (err) {
+      error = err instanceof Error && err.name === 'AbortError' ? 'Request timed out' : String(err);
+    }
+
+    // The target was deleted or the dispatcher disposed while the request was in flight
+    if (!this.pending.has(pending.delivery.id)) {
+      return;
+    }
+
+    const willRetry = error !== undefined && retryable && attempts < this.maxAttempts;
+    pending.delivery = {
+      ...pending.delivery,
+      status: error === undefined ? 'success' : willRetry ? 'pending' : 'failed',
+      attempts,
+      responseStatus,
+      error,
+      updatedAt: new Date().toISOString(),
+    };
+
+    try {
+      this.options.storage.upsertWebhookDelivery(pending.delivery);
+    } catch (err) {
+      console.warn(`[WebhookDispatcher] Failed to log delivery ${pending.delivery.id}:`, err);
+    }
+
+    if (willRetry) {
+      const backoffMs = this.initialBackoffMs * 2 ** (attempts - 1);
+      console.log(
+        `[WebhookDispatcher] Delivery ${pending.delivery.id} to ${target.url} failed (${error}), retrying in ${backoffMs}ms`,
+      );
+      this.scheduleAttempt(pending, backoffMs);
+      return;
+    }
+
+    this.pending.delete(pending.delivery.id);
+    if (error !== undefined) {
+      console.warn(
+        `[WebhookDispatcher] Delivery ${pending.delivery.id} to ${target.url} failed after ${attempts} attempt(s): ${error}`,
+      );
+    }
+  }
+}
@@ -1,6 +1,15 @@
 import { CompletionState, CompletionFlowState, CompleteTaskArgs } from './completion-state.js';
-import { getContinuationPrompt, getPartialContinuationPrompt } from './prompts.js';
+import {
+  getContinuationPrompt,
+  getPartialContinuationPrompt,
+  getOutputValidationPrompt,
+  getVerificationFailurePrompt,
+} from './prompts.js';
+import { OutputSchemaValidator } from './output-schema.js';
+import type { JsonValue } from '../../common/types/task.js';
 import type { TodoItem } from '../../common/types/todo.js';
+import type { VerificationCheck, VerificationResult } from '../../common/types/verification.js';
+import { describeVerificationCheck } from '../../utils/verification.js';
 
 export interface CompletionEnforcerCallbacks {
   onStartContinuation: (prompt: string) => Promise<void>;
@@ -10,6 +19,9 @@ export interface CompletionEnforcerCallbacks {
 
 export type StepFinishAction = 'continue' | 'pending' | 'complete';
 
+/** Runs a task's verification checks, e.g. in its working directory */
+export type VerificationRunner = (checks: VerificationCheck[]) => Promise<VerificationResult[]>;
+
 export class CompletionEnforcer {
   private state: CompletionState;
   private callbacks: CompletionEnforcerCallbacks;
@@ -18,10 +30,39 @@ export class CompletionEnforcer {
   private taskToolsWereUsedEver: boolean = false;
   private taskRequiresCompletion: boolean = false;
   private inContinuation: boolean = false;
-
-  constructor(callbacks: CompletionEnforcerCallbacks, maxContinuationAttempts?: number) {
+  private outputSchema: object | null = null;
+  private outputValidator: OutputSchemaValidator | null = null;
+  private structuredOutput: JsonValue | undefined;
+  private outputErrors: string[] = [];
+  private verifications: VerificationCheck[] = [];
+  private runVerifications: VerificationRunner | null = null;
+  private verificationResults: VerificationResult[] | undefined;
+
+  constructor(
+    callbacks: CompletionEnforcerCallbacks,
+    maxContinuationAttempts?: number,
+    maxOutputValidationAttempts?: number,
+  ) {
     this.callbacks = callbacks;
-    this.state = new CompletionState(maxContinuationAttempts);
+    this.state = new CompletionState(maxContinuationAttempts, maxOutputValidationAttempts);
+  }
+
+  /**
+   * Require complete_task(success) to carry a `result` matching this schema.
+   * Throws if the schema itself cannot be compiled. Cleared by reset().
+   */
+  setOutputSchema(schema: object | undefined): void {
+    this.outputSchema = schema ?? null;
+    this.outputValidator = schema ? new OutputSchemaValidator(schema) : null;
+  }
+
+  /**
+   * Hold complete_task(success) until these checks pass. Failed checks are
+   * sent back to the agent as a continuation prompt. Cleared by reset().
+   */
+  setVerifications(checks: VerificationCheck[] | undefined, run: VerificationRunner): void {
+    this.verifications = checks ?? [];
+    this.runVerifications = this.verifications.length > 0 ? run : null;
   }
 
   updateTodos(todos: TodoItem[]): void {
@@ -54,6 +95,7 @@ export class CompletionEnforcer {
       summary?: string;
       original_request_summary?: string;
       remaining_work?: string;
+      result?: unknown;
     };
 
     const completeTaskArgs: CompleteTaskArgs = {
@@ -61,6 +103,7 @@ export class CompletionEnforcer {
       summary: args?.summary || '',
       original_request_summary: args?.original_request_summary || '',
       remaining_work: args?.remaining_work,
+      result: args?.result,
     };
 
     if (completeTaskArgs.status === 'success' && this.hasIncompleteTodos()) {
@@ -73,6 +116,31 @@ export class CompletionEnforcer {
       completeTaskArgs.remaining_work = this.getIncompleteTodosSummary();
     }
 
+    if (completeTaskArgs.status === 'success' && this.outputValidator) {
+      const validation = this.outputValidator.validate(completeTaskArgs.result);
+      if (!validation.valid) {
+        this.outputErrors = validation.errors;
+        this.state.recordOutputValidationFailure(completeTaskArgs);
+        this.callbacks.onDebug(
+          'output_validation',
+          'complete_task result does not match the output schema',
+          { errors: validation.errors },
+        );
+        return true;
+      }
+      this.structuredOutput = validation.output;
+      this.outputErrors = [];
+    }
+
+    if (completeTaskArgs.status === 'success' && this.runVerifications) {
+      this.state.recordVerificationPending(completeTaskArgs);
+      this.callbacks.onDebug(
+        'verification',
+        `complete_task(success) held until ${this.verifications.length} verification check(s) pass`,
+      );
+      return true;
+    }
+
     this.state.recordCompleteTaskCall(completeTaskArgs);
 
     if (this.shouldComplete()) {
@@ -102,6 +170,20 @@ export class CompletionEnforcer {
       return 'pending';
     }
 
+    if (this.state.isPendingOutputValidation()) {
+      this.callbacks.onDebug(
+        'output_validation',
+        'Scheduling continuation to fix the complete_task result',
+        { errors: this.outputErrors },
+      );
+      return 'pending';
+    }
+
+    if (this.state.isPendingVerification()) {
+      this.callbacks.onDebug('verification', 'Scheduling verification checks');
+      return 'pending';
+    }
+
     if (!this.state.isCompleteTaskCalled()) {
       if (this.isConversationalTurn()) {
         this.callbacks.onDebug(
@@ -158,6 +240,32 @@ export class CompletionEnforcer {
       return;
     }
 
+    if (this.state.isPendingOutputValidation() && exitCode === 0 && this.outputSchema) {
+      const prompt = getOutputValidationPrompt(this.outputErrors, this.outputSchema);
+
+      if (!this.state.startOutputValidationRetry()) {
+        console.warn('[CompletionEnforcer] Max output validation attempts reached');
+        this.callbacks.onComplete();
+        return;
+      }
+
+      this.callbacks.onDebug(
+        'output_validation',
+        `Starting output validation retry (attempt ${this.state.getOutputValidationAttempts()})`,
+        { errors: this.outputErrors, continuationPrompt: prompt },
+      );
+
+      this.taskToolsWereUsed = false;
+      this.inContinuation = true;
+      await this.callbacks.onStartContinuation(prompt);
+      return;
+    }
+
+    if (this.state.isPendingVerification() && exitCode === 0 && this.runVerifications) {
+      await this.verify();
+      return;
+    }
+
     if (this.state.isPendingContinuation() && exitCode === 0) {
       const prompt = getContinuationPrompt();
 
@@ -176,6 +284,52 @@ export class CompletionEnforcer {
     this.callbacks.onComplete();
   }
 
+  private async verify(): Promise<void> {
+    const args = this.state.getCompleteTaskArgs();
+    const results = await this.runVerifications!(this.verifications);
+    this.verificationResults = results;
+    const failures = results.filter((result) => !result.passed);
+
+    this.callbacks.onDebug(
+      'verification',
+      `${results.length - failures.length} of ${results.length} verification check(s) passed`,
+      { results },
+    );
+
+    if (failures.length === 0) {
+      if (args) {
+        this.state.recordCompleteTaskCall(args);
+      } else {
+        this.state.markDone();
+      }
+      this.inContinuation = false;
+      this.callbacks.onComplete();
+      return;
+    }
+
+    if (!this.state.startVerificationRetry()) {
+      console.warn('[CompletionEnforcer] Max verification attempts reached');
+      this.callbacks.onComplete();
+      return;
+    }
+
+    const prompt = getVerificationFailurePrompt(
+      failures.map((failure) => ({
+        label: describeVerificationCheck(failure.check),
+        message: failure.message,
+      })),
+    );
+    this.callbacks.onDebug(
+      'verification',
+      `Starting verification retry (attempt ${this.state.getVerificationAttempts()})`,
+      { continuationPrompt: prompt },
+    );
+
+    this.taskToolsWereUsed = false;
+    this.inContinuation = true;
+    await this.callbacks.onStartContinuation(prompt);
+  }
+
   shouldComplete(): boolean {
     return (
       this.state.isDone() ||
@@ -191,6 +345,13 @@ export class CompletionEnforcer {
     this.taskToolsWereUsedEver = false;
     this.taskRequiresCompletion = false;
     this.inContinuation = false;
+    this.outputSchema = null;
+    this.outputValidator = null;
+    this.structuredOutput = undefined;
+    this.outputErrors = [];
+    this.verifications = [];
+    this.runVerifications = null;
+    this.verificationResults = undefined;
   }
 
   private hasIncompleteTodos(): boolean {
@@ -204,6 +365,10 @@ export class CompletionEnforcer {
     return incomplete.map((t) => `- ${t.content}`).join('\n');
   }
 
+  isPendingVerification(): boolean {
+    return this.state.isPendingVerification();
+  }
+
   isInContinuation(): boolean {
     return this.inContinuation;
   }
@@ -216,7 +381,46 @@ export class CompletionEnforcer {
     return this.state.getContinuationAttempts();
   }
 
+  /** The validated complete_task result, when the task has an output schema */
+  getStructuredOutput(): JsonValue | undefined {
+    return this.structuredOutput;
+  }
+
+  /**
+   * Why the task has no structured output, or undefined when it has one or
+   * no output schema was set.
+   */
+  getOutputError(): string | undefined {
+    if (!this.outputValidator || this.structuredOutput !== undefined) {
+      return undefined;
+    }
+    if (this.outputErrors.length > 0) {
+      return `Result does not match the output schema: ${this.outputErrors.join('; ')}`;
+    }
+    return 'Task finished without a result matching the output schema';
+  }
+
+  /** Results of the last verification run, or undefined if the checks never ran */
+  getVerificationResults(): VerificationResult[] | undefined {
+    return this.verificationResults;
+  }
+
+  /** Why the task failed verification, or undefined when its last run passed or never happened */
+  getVerificationError(): string | undefined {
+    const failures = this.verificationResults?.filter((result) => !result.passed) ?? [];
+    if (failures.length === 0) {
+      return undefined;
+    }
+    return `Verification failed: ${failures
+      .map((failure) => describeVerificationCheck(failure.check))
+      .join(', ')}`;
+  }
+
   private isConversationalTurn(): boolean {
+    // A schema-bound task always has to finish through complete_task
+    if (this.outputValidator) {
+      return false;
+    }
     return !this.taskToolsWereUsed && !this.taskToolsWereUsedEver && !this.taskRequiresCompletion;
   }
 }
@@ -5,6 +5,8 @@ export enum CompletionFlowState {
   CONTINUATION_PENDING,
   MAX_RETRIES_REACHED,
   DONE,
+  OUTPUT_VALIDATION_PENDING,
+  VERIFICATION_PENDING,
 }
 
 export interface CompleteTaskArgs {
@@ -12,16 +14,28 @@ export interface CompleteTaskArgs {
   summary: string;
   original_request_summary: string;
   remaining_work?: string;
+  /** JSON-encoded final result, required when the task has an output schema */
+  result?: unknown;
 }
 
 export class CompletionState {
   private state: CompletionFlowState = CompletionFlowState.IDLE;
   private continuationAttempts: number = 0;
+  private outputValidationAttempts: number = 0;
+  private verificationAttempts: number = 0;
   private completeTaskArgs: CompleteTaskArgs | null = null;
   private readonly maxContinuationAttempts: number;
-
-  constructor(maxContinuationAttempts: number = 10) {
+  private readonly maxOutputValidationAttempts: number;
+  private readonly maxVerificationAttempts: number;
+
+  constructor(
+    maxContinuationAttempts: number = 10,
+    maxOutputValidationAttempts: number = 3,
+    maxVerificationAttempts: number = 3,
+  ) {
     this.maxContinuationAttempts = maxContinuationAttempts;
+    this.maxOutputValidationAttempts = maxOutputValidationAttempts;
+    this.maxVerificationAttempts = maxVerificationAttempts;
   }
 
   getState(): CompletionFlowState {
@@ -40,11 +54,21 @@ export class CompletionState {
     return this.maxContinuationAttempts;
   }
 
+  getOutputValidationAttempts(): number {
+    return this.outputValidationAttempts;
+  }
+
+  getVerificationAttempts(): number {
+    return this.verificationAttempts;
+  }
+
   isCompleteTaskCalled(): boolean {
     return (
       this.state !== CompletionFlowState.IDLE &&
       this.state !== CompletionFlowState.CONTINUATION_PENDING &&
-      this.state !== CompletionFlowState.PARTIAL_CONTINUATION_PENDING
+      this.state !== CompletionFlowState.PARTIAL_CONTINUATION_PENDING &&
+      this.state !== CompletionFlowState.OUTPUT_VALIDATION_PENDING &&
+      this.state !== CompletionFlowState.VERIFICATION_PENDING
     );
   }
 
@@ -56,6 +80,14 @@ export class CompletionState {
     return this.state === CompletionFlowState.PARTIAL_CONTINUATION_PENDING;
   }
 
+  isPendingOutputValidation(): boolean {
+    return this.state === CompletionFlowState.OUTPUT_VALIDATION_PENDING;
+  }
+
+  isPendingVerification(): boolean {
+    return this.state === CompletionFlowState.VERIFICATION_PENDING;
+  }
+
   isDone(): boolean {
     return (
       this.state === CompletionFlowState.DONE ||
@@ -74,6 +106,17 @@ export class CompletionState {
     }
   }
 
+  recordOutputValidationFailure(args: CompleteTaskArgs): void {
+    this.completeTaskArgs = args;
+    this.state = CompletionFlowState.OUTPUT_VALIDATION_PENDING;
+  }
+
+  /** A reported success is held until the task's verification checks pass */
+  recordVerificationPending(args: CompleteTaskArgs): void {
+    this.completeTaskArgs = args;
+    this.state = CompletionFlowState.VERIFICATION_PENDING;
+  }
+
   scheduleContinuation(): boolean {
     if (
       this.state !== CompletionFlowState.IDLE &&
@@ -116,6 +159,38 @@ export class CompletionState {
     return true;
   }
 
+  startOutputValidationRetry(): boolean {
+    if (this.state !== CompletionFlowState.OUTPUT_VALIDATION_PENDING) {
+      throw new Error(
+        `Cannot retry output validation from state ${CompletionFlowState[this.state]}`,
+      );
+    }
+
+    this.outputValidationAttempts++;
+    if (this.outputValidationAttempts > this.maxOutputValidationAttempts) {
+      this.state = CompletionFlowState.MAX_RETRIES_REACHED;
+      return false;
+    }
+
+    this.state = CompletionFlowState.IDLE;
+    return true;
+  }
+
+  startVerificationRetry(): boolean {
+    if (this.state !== CompletionFlowState.VERIFICATION_PENDING) {
+      throw new Error(`Cannot retry verification from state ${CompletionFlowState[this.state]}`);
+    }
+
+    this.verificationAttempts++;
+    if (this.verificationAttempts > this.maxVerificationAttempts) {
+      this.state = CompletionFlowState.MAX_RETRIES_REACHED;
+      return false;
+    }
+
+    this.state = CompletionFlowState.IDLE;
+    return true;
+  }
+
   markDone(): void {
     this.state = CompletionFlowState.DONE;
   }
@@ -123,6 +198,8 @@ export class CompletionState {
   reset(): void {
     this.state = CompletionFlowState.IDLE;
     this.continuationAttempts = 0;
+    this.outputValidationAttempts = 0;
+    this.verificationAttempts = 0;
     this.completeTaskArgs = null;
   }
 }
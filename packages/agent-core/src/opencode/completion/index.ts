@@ -1,5 +1,17 @@
 export { CompletionEnforcer } from './completion-enforcer.js';
-export type { CompletionEnforcerCallbacks, StepFinishAction } from './completion-enforcer.js';
+export type {
+  CompletionEnforcerCallbacks,
+  StepFinishAction,
+  VerificationRunner,
+} from './completion-enforcer.js';
 export { CompletionState, CompletionFlowState } from './completion-state.js';
 export type { CompleteTaskArgs } from './completion-state.js';
-export { getContinuationPrompt, getPartialContinuationPrompt } from './prompts.js';
+export {
+  getContinuationPrompt,
+  getPartialContinuationPrompt,
+  getOutputSchemaInstructions,
+  getOutputValidationPrompt,
+  getVerificationFailurePrompt,
+} from './prompts.js';
+export { OutputSchemaValidator } from './output-schema.js';
+export type { OutputValidationResult } from './output-schema.js';
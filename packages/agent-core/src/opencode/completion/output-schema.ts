@@ -0,0 +1,51 @@
+import { Ajv, type ErrorObject, type ValidateFunction } from 'ajv';
+import type { JsonValue } from '../../common/types/task.js';
+
+export type OutputValidationResult =
+  | { valid: true; output: JsonValue }
+  | { valid: false; errors: string[] };
+
+function formatError(error: ErrorObject): string {
+  const location = error.instancePath || '(root)';
+  return `${location} ${error.message ?? 'is invalid'}`;
+}
+
+/**
+ * Validates the result an agent passes to complete_task against a task's
+ * output schema. The schema is compiled once, so an invalid schema throws
+ * from the constructor rather than on every check.
+ */
+export class OutputSchemaValidator {
+  private readonly validateFn: ValidateFunction;
+
+  constructor(schema: object) {
+    const ajv = new Ajv({ allErrors: true, strict: false });
+    this.validateFn = ajv.compile(schema);
+  }
+
+  /**
+   * @param result - The `result` argument of complete_task: a JSON string, or
+   * an already-parsed value when the model sent structured input
+   */
+  validate(result: unknown): OutputValidationResult {
+    if (result === undefined || result === null || result === '') {
+      return { valid: false, errors: ['No result was provided'] };
+    }
+
+    let output: unknown = result;
+    if (typeof result === 'string') {
+      try {
+        output = JSON.parse(result);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return { valid: false, errors: [`Result is not valid JSON: ${message}`] };
+      }
+    }
+
+    if (this.validateFn(output)) {
+      return { valid: true, output: output as JsonValue };
+    }
+
+    return { valid: false, errors: (this.validateFn.errors ?? []).map(formatError) };
+  }
+}
@@ -64,3 +64,38 @@ Before continuing, you MUST:
 
 Now create your continuation plan and resume working on the remaining items.`;
 }
+
+export function getOutputSchemaInstructions(schema: object): string {
+  return `## Required Output Format
+When you finish, call complete_task with status="success" and pass your final answer in the \`result\` parameter as a JSON string that validates against this JSON Schema:
+
+\`\`\`json
+${JSON.stringify(schema, null, 2)}
+\`\`\`
+
+The \`result\` must be raw JSON only - no markdown fences and no commentary.`;
+}
+
+export function getOutputValidationPrompt(errors: string[], schema: object): string {
+  return `Your complete_task call was rejected because its \`result\` does not match the required output schema:
+
+${errors.map((error) => `- ${error}`).join('\n')}
+
+The result must be a JSON string that validates against this JSON Schema:
+
+\`\`\`json
+${JSON.stringify(schema, null, 2)}
+\`\`\`
+
+Fix the result and call complete_task again with status="success". Do not redo work that is already done.`;
+}
+
+export function getVerificationFailurePrompt(
+  failures: Array<{ label: string; message: string }>,
+): string {
+  return `Your complete_task call was rejected because these verification checks failed:
+
+${failures.map(({ label, message }) => `- ${label}\n${message.replace(/^/gm, '    ')}`).join('\n')}
+
+Fix the problems they report, then call complete_task again with status="success". The checks run again every time you report success. If a check cannot pass for reasons outside your control, call complete_task with status="blocked" and explain why.`;
+}
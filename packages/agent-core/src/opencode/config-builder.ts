@@ -202,11 +202,10 @@ export async function buildProviderConfigs(
 
   // OpenRouter provider
   const openrouterProvider = providerSettings.connectedProviders.openrouter;
-  if (
-    openrouterProvider?.connectionStatus === 'connected' &&
-    activeModel?.provider === 'openrouter'
-  ) {
-    const modelId = activeModel.model.replace('openrouter/', '');
+  // Connected providers register their selected model even when they are not
+  // the active provider, so a task can be run on them through TaskConfig.providerId
+  if (openrouterProvider?.connectionStatus === 'connected' && openrouterProvider.selectedModelId) {
+    const modelId = openrouterProvider.selectedModelId.replace('openrouter/', '');
     providerConfigs.push({
       id: 'openrouter',
       npm: '@ai-sdk/openai-compatible',
@@ -277,9 +276,9 @@ export async function buildProviderConfigs(
     // For Bedrock, we need to register the selected model in the models field
     // so OpenCode can find it (otherwise it looks in built-in models which have region prefixes)
     const bedrockModels: Record<string, ProviderModelConfig> = {};
-    if (activeModel?.provider === 'bedrock' && activeModel.model) {
+    if (bedrockProvider.selectedModelId) {
       // Extract model ID without provider prefix (e.g., "anthropic.claude-opus..." from "amazon-bedrock/anthropic.claude-opus...")
-      const modelId = activeModel.model.replace(/^amazon-bedrock\//, '');
+      const modelId = bedrockProvider.selectedModelId.replace(/^amazon-bedrock\//, '');
       bedrockModels[modelId] = { name: modelId, tools: true };
     }
 
@@ -351,10 +350,10 @@ export async function buildProviderConfigs(
     };
 
     const vertexModels: Record<string, ProviderModelConfig> = {};
-    if (activeModel?.provider === 'vertex' && activeModel.model) {
+    if (vertexProvider.selectedModelId) {
       // Model IDs are stored as "vertex/{publisher}/{model}" (e.g. "vertex/google/gemini-2.5-flash")
       // but @ai-sdk/google-vertex expects just the model name (e.g. "gemini-2.5-flash")
-      const modelId = activeModel.model.replace(/^vertex\/[^/]+\//, '');
+      const modelId = vertexProvider.selectedModelId.replace(/^vertex\/[^/]+\//, '');
       vertexModels[modelId] = { name: modelId, tools: true };
     }
 
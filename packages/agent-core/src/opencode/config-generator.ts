@@ -2,6 +2,8 @@ import path from 'path';
 import fs from 'fs';
 import type { ProviderId } from '../common/types/providerSettings.js';
 import type { Skill } from '../common/types/skills.js';
+import { THOUGHT_STREAM_PORT } from '../common/constants.js';
+import { getOutputSchemaInstructions } from './completion/prompts.js';
 
 export const ACCOMPLISH_AGENT_NAME = 'accomplish';
 
@@ -145,6 +147,7 @@ start_task requires:
 - steps: Array of planned actions to achieve the goal
 - verification: Array of how you will verify the task is complete
 - skills: Array of relevant skill names from <available-skills> (or empty [] if none apply)
+- subtasks (optional): Independent parts of the work to run in parallel as separate tasks, each a self-contained instruction. Only use it for parts that do not depend on each other or on your other steps. After start_task returns, end your turn without calling complete_task; you will be resumed with each sub-task's result and then finish the remaining steps.
 
 **STEP 2: UPDATE TODOS AS YOU PROGRESS**
 
@@ -206,7 +209,8 @@ Input:
   "operation": "create" | "delete" | "rename" | "move" | "modify" | "overwrite",
   "filePath": "/absolute/path/to/file",
   "targetPath": "/new/path",       // Required for rename/move
-  "contentPreview": "file content" // Optional preview for create/modify/overwrite
+  "contentPreview": "file content", // Optional preview for create/modify/overwrite
+  "proposedContent": "full new file content" // For modify/overwrite: the whole file as it will be after the change
 }
 
 Operations:
@@ -218,6 +222,8 @@ Operations:
 - overwrite: Replacing entire file content
 
 Returns: "allowed" or "denied" - proceed only if allowed
+For a batch request (filePaths) the user may approve only some paths. The result is then
+"allowed only for these paths:" followed by one path per line - operate on those paths only
 </parameters>
 
 <example>
@@ -239,6 +245,7 @@ See the ask-user-question MCP tool for full documentation and examples.
 - Use AskUserQuestion tool for clarifying questions before starting ambiguous tasks
 {{BROWSER_BEHAVIOR}}- Don't announce server checks or startup - proceed directly to the task
 - Only use AskUserQuestion when you genuinely need user input or decisions
+- When you need a specific kind of answer (a number, a date, yes/no, a password or API key, or a local file or folder), set AskUserQuestion's \`inputType\` instead of listing options. Secret answers come back between [secret] and [/secret]: use the value, but never repeat it in your messages
 
 **DO NOT ASK FOR PERMISSION TO CONTINUE:**
 If the user gave you a task with specific criteria (e.g., "find 8-15 results", "check all items"):
@@ -248,6 +255,9 @@ If the user gave you a task with specific criteria (e.g., "find 8-15 results", "
 - Just continue working until the task requirements are met
 - Only use AskUserQuestion for genuine clarifications about requirements, NOT for progress check-ins
 
+**PROGRESS CHECKPOINTS:**
+Call \`report_checkpoint\` with status "stuck" and a \`blocker\` when you cannot make progress on your own. Follow any guidance it returns.
+
 **TASK COMPLETION - CRITICAL:**
 
 You MUST call the \`complete_task\` tool when \`needs_planning\` was true. For conversational responses (\`needs_planning: false\`), do NOT call complete_task — just respond and stop naturally.
@@ -392,6 +402,16 @@ Use empty array [] if no skills apply to your task.
       enabled: true,
       timeout: 30000,
     },
+    'report-checkpoint': {
+      type: 'local',
+      command: resolveMcpCommand(mcpToolsPath, 'report-checkpoint', 'dist/index.mjs', nodeExe),
+      enabled: true,
+      environment: {
+        THOUGHT_STREAM_PORT: String(THOUGHT_STREAM_PORT),
+        QUESTION_API_PORT: String(questionApiPort),
+      },
+      timeout: 600000, // A stuck report can wait on the user's answer
+    },
   };
 
   // Conditionally register dev-browser-mcp based on browser config
@@ -578,10 +598,14 @@ export interface BuildCliArgsOptions {
     provider: string;
     model: string;
   } | null;
+  /** Extra instructions for this run only (e.g. a forked task's transcript) */
+  systemPromptAppend?: string;
+  /** JSON Schema the final complete_task result must match */
+  outputSchema?: object;
 }
 
 export function buildCliArgs(options: BuildCliArgsOptions): string[] {
-  const { prompt, sessionId, selectedModel } = options;
+  const { prompt, sessionId, selectedModel, systemPromptAppend, outputSchema } = options;
 
   const args: string[] = ['run'];
 
@@ -622,7 +646,16 @@ export function buildCliArgs(options: BuildCliArgsOptions): string[] {
 
   args.push('--agent', ACCOMPLISH_AGENT_NAME);
 
-  args.push(prompt);
+  // OpenCode has no per-run system prompt flag and the agent config is shared
+  // by concurrent tasks, so run-specific context travels ahead of the prompt.
+  const runContext: string[] = [];
+  if (systemPromptAppend) {
+    runContext.push(systemPromptAppend);
+  }
+  if (outputSchema) {
+    runContext.push(getOutputSchemaInstructions(outputSchema));
+  }
+  args.push([...runContext, prompt].join('\n\n'));
 
   return args;
 }
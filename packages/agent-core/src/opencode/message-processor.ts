@@ -1,5 +1,5 @@
 import type { OpenCodeMessage, OpenCodeToolUseMessage } from '../common/types/opencode.js';
-import type { TaskMessage } from '../common/types/task.js';
+import type { JsonValue, TaskMessage } from '../common/types/task.js';
 import { createMessageId } from '../common/index.js';
 import { isHiddenToolName } from './tool-classification.js';
 
@@ -147,12 +147,17 @@ export function getToolDisplayName(toolName: string): string | null {
   return toolName;
 }
 
+/** Replace secret answers from AskUserQuestion, which are for the agent only */
+export function hideSecretAnswers(text: string): string {
+  return text.replace(/\[secret\][\s\S]*?\[\/secret\]/g, '[hidden]');
+}
+
 /**
  * Sanitizes tool output for display by removing ANSI codes,
  * connection URLs, call logs, and simplifying error messages.
  */
 export function sanitizeToolOutput(text: string, isError: boolean): string {
-  let result = text;
+  let result = hideSecretAnswers(text);
 
   // eslint-disable-next-line no-control-regex
   result = result.replace(/\x1B\[[0-9;]*[a-zA-Z]/g, '');
@@ -258,6 +263,20 @@ export function toTaskMessage(message: OpenCodeMessage): TaskMessage | null {
   return null;
 }
 
+/**
+ * Creates the message that carries a task's validated structured output
+ * as a json attachment.
+ */
+export function createStructuredOutputMessage(output: JsonValue): TaskMessage {
+  return {
+    id: createMessageId(),
+    type: 'assistant',
+    content: 'Structured result',
+    timestamp: new Date().toISOString(),
+    attachments: [{ type: 'json', data: JSON.stringify(output, null, 2), label: 'result.json' }],
+  };
+}
+
 /**
  * Map to store active message batchers by task ID.
  */
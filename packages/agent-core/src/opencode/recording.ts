@@ -0,0 +1,132 @@
+import fs from 'fs';
+import path from 'path';
+import type { OpenCodeMessage } from '../common/types/opencode.js';
+import { hideSecretAnswers } from './message-processor.js';
+
+export const OPENCODE_RECORDING_VERSION = 1;
+
+/**
+ * One recorded event of a task's CLI output. Offsets are milliseconds since
+ * the recording started. Every CLI process a task runs, including
+ * continuations, ends with an `exit` entry.
+ */
+export type OpenCodeRecordingEntry =
+  | { type: 'message'; offsetMs: number; message: OpenCodeMessage }
+  | { type: 'exit'; offsetMs: number; exitCode: number | null };
+
+export interface OpenCodeRecordingHeader {
+  version: number;
+  taskId: string;
+  prompt: string;
+  recordedAt: string;
+}
+
+export interface OpenCodeRecording extends OpenCodeRecordingHeader {
+  entries: OpenCodeRecordingEntry[];
+}
+
+export interface ReplayOptions {
+  /** Playback speed relative to the recording; 0 plays it back without delays (default: 1) */
+  speed?: number;
+}
+
+/**
+ * Writes the raw messages a task receives from the CLI to a JSON Lines file:
+ * a header line followed by one entry per line. Writes are synchronous so the
+ * file stays complete up to the last message if the app crashes. Secret
+ * answers are hidden before they reach the file.
+ */
+export class OpenCodeRecorder {
+  private readonly startedAt = Date.now();
+  private failed = false;
+
+  constructor(
+    private readonly filePath: string,
+    header: Pick<OpenCodeRecordingHeader, 'taskId' | 'prompt'>,
+  ) {
+    const line: OpenCodeRecordingHeader = {
+      version: OPENCODE_RECORDING_VERSION,
+      ...header,
+      recordedAt: new Date(this.startedAt).toISOString(),
+    };
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(line) + '\n');
+    } catch (err) {
+      this.fail(err);
+    }
+  }
+
+  recordMessage(message: OpenCodeMessage): void {
+    this.append({ type: 'message', offsetMs: this.offset(), message });
+  }
+
+  recordExit(exitCode: number | null): void {
+    this.append({ type: 'exit', offsetMs: this.offset(), exitCode });
+  }
+
+  private offset(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  private append(entry: OpenCodeRecordingEntry): void {
+    if (this.failed) {
+      return;
+    }
+    try {
+      fs.appendFileSync(this.filePath, hideSecretAnswers(JSON.stringify(entry)) + '\n');
+    } catch (err) {
+      this.fail(err);
+    }
+  }
+
+  private fail(err: unknown): void {
+    // A broken recording must never affect the task itself
+    this.failed = true;
+    console.warn(`[OpenCode Recorder] Failed to write ${this.filePath}:`, err);
+  }
+}
+
+/** Parse the contents of a recording file written by {@link OpenCodeRecorder} */
+export function parseOpenCodeRecording(content: string): OpenCodeRecording {
+  const lines = content.split('\n').filter((line) => line.trim());
+  if (lines.length === 0) {
+    throw new Error('Recording is empty');
+  }
+
+  const parseLine = (line: string, index: number): unknown => {
+    try {
+      return JSON.parse(line);
+    } catch {
+      throw new Error(`Recording line ${index + 1} is not valid JSON`);
+    }
+  };
+
+  const header = parseLine(lines[0], 0) as Partial<OpenCodeRecordingHeader>;
+  if (header.version !== OPENCODE_RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version: ${String(header.version)}`);
+  }
+  if (typeof header.taskId !== 'string' || typeof header.prompt !== 'string') {
+    throw new Error('Recording header is missing the task ID or prompt');
+  }
+
+  const entries = lines.slice(1).map((line, i) => {
+    const entry = parseLine(line, i + 1) as Partial<OpenCodeRecordingEntry>;
+    if ((entry.type !== 'message' && entry.type !== 'exit') || typeof entry.offsetMs !== 'number') {
+      throw new Error(`Recording line ${i + 2} is not a recorded message or exit`);
+    }
+    return entry as OpenCodeRecordingEntry;
+  });
+
+  return {
+    version: header.version,
+    taskId: header.taskId,
+    prompt: header.prompt,
+    recordedAt: header.recordedAt ?? '',
+    entries,
+  };
+}
+
+export function readOpenCodeRecording(filePath: string): OpenCodeRecording {
+  return parseOpenCodeRecording(fs.readFileSync(filePath, 'utf-8'));
+}
@@ -47,6 +47,14 @@ export {
   setOpenAiBaseUrl,
   getTheme,
   setTheme,
+  getTaskTimeoutDefaults,
+  setTaskTimeoutDefaults,
+  getLocalApiSettings,
+  setLocalApiSettings,
+  getSandboxSettings,
+  setSandboxSettings,
+  getTrashSettings,
+  setTrashSettings,
   getAppSettings,
   clearAppSettings,
   type AppSettings,
@@ -64,6 +72,7 @@ export {
   getProviderDebugMode,
   clearProviderSettings,
   getActiveProviderModel,
+  getProviderModel,
   hasReadyProvider,
   getConnectedProviderIds,
 } from './repositories/index.js';
@@ -71,11 +80,15 @@ export {
 export {
   getTasks,
   getTask,
+  getTasksForSchedule,
   saveTask,
   updateTaskStatus,
+  reconcileOrphanedTasks,
   addTaskMessage,
   updateTaskSessionId,
   updateTaskSummary,
+  updateTaskTimedOut,
+  updateTaskRunConfig,
   deleteTask,
   clearHistory,
   setMaxHistoryItems,
@@ -107,3 +120,67 @@ export {
   deleteConnector,
   clearAllConnectors,
 } from './repositories/index.js';
+
+export {
+  getAllSchedules,
+  getEnabledSchedules,
+  getScheduleById,
+  upsertSchedule,
+  recordScheduleRun,
+  deleteSchedule,
+  clearAllSchedules,
+} from './repositories/index.js';
+
+export {
+  getAllProjectProfiles,
+  getProjectProfileById,
+  getProjectProfileForDirectory,
+  upsertProjectProfile,
+  deleteProjectProfile,
+} from './repositories/index.js';
+
+export {
+  getAllPermissionRules,
+  insertPermissionRule,
+  deletePermissionRule,
+} from './repositories/index.js';
+
+export { recordPermissionAudit, getPermissionAudit } from './repositories/index.js';
+
+export {
+  insertTrashEntry,
+  getTrashEntries,
+  getTrashEntry,
+  getTrashEntriesBefore,
+  deleteTrashEntry,
+} from './repositories/index.js';
+
+export {
+  insertTaskSnapshot,
+  getTaskSnapshots,
+  getTaskSnapshot,
+  getTaskSnapshotManifest,
+  getReferencedSnapshotHashes,
+} from './repositories/index.js';
+
+export {
+  getAllWebhookTargets,
+  getWebhookTargetById,
+  upsertWebhookTarget,
+  deleteWebhookTarget,
+  clearAllWebhookTargets,
+  getWebhookDeliveries,
+  upsertWebhookDelivery,
+  pruneWebhookDeliveries,
+} from './repositories/index.js';
+
+export {
+  recordTaskUsage,
+  getUsageForTask,
+  getUsageTotals,
+  getUsageBreakdown,
+  getUsageByTask,
+  clearTaskUsage,
+} from './repositories/index.js';
+
+export { recordTaskArtifacts, getArtifactsForTask } from './repositories/index.js';
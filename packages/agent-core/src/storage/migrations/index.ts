@@ -15,15 +15,54 @@ import { migration as v005 } from './v005-task-todos.js';
 import { migration as v006 } from './v006-skills.js';
 import { migration as v007 } from './v007-connectors.js';
 import { migration as v008 } from './v008-theme.js';
-
-const migrations: Migration[] = [v001, v002, v003, v004, v005, v006, v007, v008];
+import { migration as v009 } from './v009-schedules.js';
+import { migration as v010 } from './v010-task-usage.js';
+import { migration as v011 } from './v011-task-forks.js';
+import { migration as v012 } from './v012-task-timeouts.js';
+import { migration as v013 } from './v013-webhooks.js';
+import { migration as v014 } from './v014-local-api.js';
+import { migration as v015 } from './v015-task-artifacts.js';
+import { migration as v016 } from './v016-sandbox.js';
+import { migration as v017 } from './v017-project-profiles.js';
+import { migration as v018 } from './v018-permission-rules.js';
+import { migration as v019 } from './v019-permission-audit.js';
+import { migration as v020 } from './v020-permission-audit-approved-paths.js';
+import { migration as v021 } from './v021-trash.js';
+import { migration as v022 } from './v022-task-snapshots.js';
+import { migration as v023 } from './v023-task-run-config.js';
+
+const migrations: Migration[] = [
+  v001,
+  v002,
+  v003,
+  v004,
+  v005,
+  v006,
+  v007,
+  v008,
+  v009,
+  v010,
+  v011,
+  v012,
+  v013,
+  v014,
+  v015,
+  v016,
+  v017,
+  v018,
+  v019,
+  v020,
+  v021,
+  v022,
+  v023,
+];
 
 export function registerMigration(migration: Migration): void {
   migrations.push(migration);
   migrations.sort((a, b) => a.version - b.version);
 }
 
-export const CURRENT_VERSION = 8;
+export const CURRENT_VERSION = 23;
 
 export function getStoredVersion(db: Database): number {
   try {
@@ -0,0 +1,29 @@
+import type { Database } from 'better-sqlite3';
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 9,
+  up: (db: Database) => {
+    db.exec(`
+      CREATE TABLE task_schedules (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        cron_expression TEXT NOT NULL,
+        task_config_json TEXT NOT NULL,
+        is_enabled INTEGER NOT NULL DEFAULT 1,
+        next_run_at TEXT,
+        last_run_at TEXT,
+        last_task_id TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    db.exec(`CREATE INDEX idx_task_schedules_enabled ON task_schedules(is_enabled)`);
+
+    db.exec(
+      `ALTER TABLE tasks ADD COLUMN schedule_id TEXT REFERENCES task_schedules(id) ON DELETE SET NULL`,
+    );
+    db.exec(`CREATE INDEX idx_tasks_schedule_id ON tasks(schedule_id)`);
+  },
+};
@@ -0,0 +1,28 @@
+import type { Database } from 'better-sqlite3';
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 10,
+  up: (db: Database) => {
+    // No foreign key on task_id: usage must outlive history pruning and task
+    // deletion so totals still reconcile against provider bills.
+    db.exec(`
+      CREATE TABLE task_usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        task_id TEXT NOT NULL,
+        provider_id TEXT NOT NULL,
+        model_id TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        reasoning_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd REAL NOT NULL DEFAULT 0,
+        recorded_at TEXT NOT NULL
+      )
+    `);
+
+    db.exec(`CREATE INDEX idx_task_usage_task_id ON task_usage(task_id)`);
+    db.exec(`CREATE INDEX idx_task_usage_recorded_at ON task_usage(recorded_at)`);
+  },
+};
@@ -0,0 +1,13 @@
+import type { Database } from 'better-sqlite3';
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 11,
+  up: (db: Database) => {
+    // Plain columns rather than foreign keys: saveTask rewrites rows with
+    // INSERT OR REPLACE, which would clear the link on every save of the parent.
+    db.exec(`ALTER TABLE tasks ADD COLUMN parent_task_id TEXT`);
+    db.exec(`ALTER TABLE tasks ADD COLUMN forked_from_message_id TEXT`);
+    db.exec(`CREATE INDEX idx_tasks_parent_task_id ON tasks(parent_task_id)`);
+  },
+};
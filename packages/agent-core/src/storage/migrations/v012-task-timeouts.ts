@@ -0,0 +1,12 @@
+import type { Database } from 'better-sqlite3';
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 12,
+  up: (db: Database) => {
+    // NULL means no default limit
+    db.exec(`ALTER TABLE app_settings ADD COLUMN task_max_duration_ms INTEGER`);
+    db.exec(`ALTER TABLE app_settings ADD COLUMN task_max_idle_ms INTEGER`);
+    db.exec(`ALTER TABLE tasks ADD COLUMN timed_out TEXT`);
+  },
+};
@@ -0,0 +1,37 @@
+import type { Database } from 'better-sqlite3';
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 13,
+  up: (db: Database) => {
+    db.exec(`
+      CREATE TABLE webhook_targets (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        events_json TEXT NOT NULL,
+        is_enabled INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        target_id TEXT NOT NULL REFERENCES webhook_targets(id) ON DELETE CASCADE,
+        event TEXT NOT NULL,
+        task_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        response_status INTEGER,
+        error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    db.exec(`CREATE INDEX idx_webhook_deliveries_created_at ON webhook_deliveries(created_at)`);
+  },
+};
@@ -0,0 +1,12 @@
+import type { Database } from 'better-sqlite3';
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 14,
+  up: (db: Database) => {
+    // NULL port means the default port; NULL token means one has not been generated yet
+    db.exec(`ALTER TABLE app_settings ADD COLUMN local_api_enabled INTEGER NOT NULL DEFAULT 0`);
+    db.exec(`ALTER TABLE app_settings ADD COLUMN local_api_port INTEGER`);
+    db.exec(`ALTER TABLE app_settings ADD COLUMN local_api_token TEXT`);
+  },
+};
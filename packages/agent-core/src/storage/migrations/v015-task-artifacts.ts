@@ -0,0 +1,20 @@
+import type { Database } from 'better-sqlite3';
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 15,
+  up: (db: Database) => {
+    db.exec(`
+      CREATE TABLE task_artifacts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+        operation TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        target_path TEXT,
+        recorded_at TEXT NOT NULL
+      )
+    `);
+
+    db.exec(`CREATE INDEX idx_task_artifacts_task_id ON task_artifacts(task_id)`);
+  },
+};
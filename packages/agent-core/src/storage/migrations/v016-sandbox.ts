@@ -0,0 +1,11 @@
+import type { Database } from 'better-sqlite3';
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 16,
+  up: (db: Database) => {
+    db.exec(`ALTER TABLE app_settings ADD COLUMN sandbox_enabled INTEGER NOT NULL DEFAULT 0`);
+    db.exec(`ALTER TABLE app_settings ADD COLUMN sandbox_mode TEXT NOT NULL DEFAULT 'reject'`);
+    db.exec(`ALTER TABLE app_settings ADD COLUMN sandbox_allowed_roots TEXT`);
+  },
+};
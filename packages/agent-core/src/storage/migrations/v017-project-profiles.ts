@@ -0,0 +1,18 @@
+import type { Database } from 'better-sqlite3';
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 17,
+  up: (db: Database) => {
+    db.exec(`
+      CREATE TABLE project_profiles (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        working_directory TEXT NOT NULL,
+        verifications_json TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+  },
+};
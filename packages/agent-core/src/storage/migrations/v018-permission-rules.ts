@@ -0,0 +1,21 @@
+import type { Database } from 'better-sqlite3';
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 18,
+  up: (db: Database) => {
+    db.exec(`
+      CREATE TABLE permission_rules (
+        id TEXT PRIMARY KEY,
+        decision TEXT NOT NULL CHECK (decision IN ('allow', 'deny')),
+        operation TEXT,
+        path_glob TEXT,
+        tool_name TEXT,
+        scope TEXT NOT NULL CHECK (scope IN ('global', 'project', 'task')),
+        task_id TEXT REFERENCES tasks(id) ON DELETE CASCADE,
+        working_directory TEXT,
+        created_at TEXT NOT NULL
+      )
+    `);
+  },
+};
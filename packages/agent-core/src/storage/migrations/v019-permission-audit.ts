@@ -0,0 +1,30 @@
+import type { Database } from 'better-sqlite3';
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 19,
+  up: (db: Database) => {
+    // No foreign key to tasks: the audit trail outlives deleted tasks
+    db.exec(`
+      CREATE TABLE permission_audit (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        request_id TEXT NOT NULL,
+        task_id TEXT NOT NULL,
+        request_type TEXT NOT NULL,
+        file_operation TEXT,
+        file_paths_json TEXT NOT NULL,
+        tool_name TEXT,
+        question TEXT,
+        outcome TEXT NOT NULL,
+        decided_by TEXT,
+        rule_id TEXT,
+        selected_options_json TEXT,
+        custom_text TEXT,
+        requested_at TEXT NOT NULL,
+        responded_at TEXT NOT NULL
+      )
+    `);
+
+    db.exec(`CREATE INDEX idx_permission_audit_task_id ON permission_audit(task_id)`);
+  },
+};
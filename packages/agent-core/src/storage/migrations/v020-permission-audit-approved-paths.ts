@@ -0,0 +1,9 @@
+import type { Database } from 'better-sqlite3';
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 20,
+  up: (db: Database) => {
+    db.exec(`ALTER TABLE permission_audit ADD COLUMN approved_paths_json TEXT`);
+  },
+};
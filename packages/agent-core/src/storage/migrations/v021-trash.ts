@@ -0,0 +1,25 @@
+import type { Database } from 'better-sqlite3';
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 21,
+  up: (db: Database) => {
+    // No foreign key to tasks: trashed copies stay restorable until they are purged
+    db.exec(`
+      CREATE TABLE trash_entries (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL,
+        original_path TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        is_directory INTEGER NOT NULL DEFAULT 0,
+        size_bytes INTEGER NOT NULL DEFAULT 0,
+        trashed_at TEXT NOT NULL
+      )
+    `);
+
+    db.exec(`CREATE INDEX idx_trash_entries_task_id ON trash_entries(task_id)`);
+
+    db.exec(`ALTER TABLE app_settings ADD COLUMN trash_enabled INTEGER NOT NULL DEFAULT 1`);
+    db.exec(`ALTER TABLE app_settings ADD COLUMN trash_retention_days INTEGER NOT NULL DEFAULT 30`);
+  },
+};
@@ -0,0 +1,23 @@
+import type { Database } from 'better-sqlite3';
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 22,
+  up: (db: Database) => {
+    db.exec(`
+      CREATE TABLE task_snapshots (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+        trigger TEXT NOT NULL,
+        label TEXT,
+        working_directory TEXT NOT NULL,
+        manifest_json TEXT NOT NULL,
+        file_count INTEGER NOT NULL DEFAULT 0,
+        total_bytes INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL
+      )
+    `);
+
+    db.exec(`CREATE INDEX idx_task_snapshots_task_id ON task_snapshots(task_id)`);
+  },
+};
@@ -0,0 +1,9 @@
+import type { Database } from 'better-sqlite3';
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 23,
+  up: (db: Database) => {
+    db.exec(`ALTER TABLE tasks ADD COLUMN run_config TEXT`);
+  },
+};
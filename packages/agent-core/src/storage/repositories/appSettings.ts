@@ -5,6 +5,11 @@ import type {
   AzureFoundryConfig,
   LMStudioConfig,
 } from '../../common/types/provider.js';
+import type { TaskTimeoutLimits } from '../../common/types/task.js';
+import type { LocalApiSettings } from '../../common/types/local-api.js';
+import type { SandboxMode, SandboxSettings } from '../../common/types/sandbox.js';
+import type { TrashSettings } from '../../common/types/trash.js';
+import { LOCAL_API_DEFAULT_PORT } from '../../common/constants.js';
 import type { ThemePreference } from '../../types/storage.js';
 import { getDatabase } from '../database.js';
 import { safeParseJsonWithFallback } from '../../utils/json.js';
@@ -20,6 +25,16 @@ interface AppSettingsRow {
   lmstudio_config: string | null;
   openai_base_url: string | null;
   theme: string;
+  task_max_duration_ms: number | null;
+  task_max_idle_ms: number | null;
+  local_api_enabled: number;
+  local_api_port: number | null;
+  local_api_token: string | null;
+  sandbox_enabled: number;
+  sandbox_mode: string;
+  sandbox_allowed_roots: string | null;
+  trash_enabled: number;
+  trash_retention_days: number;
 }
 
 export interface AppSettings {
@@ -32,6 +47,10 @@ export interface AppSettings {
   lmstudioConfig: LMStudioConfig | null;
   openaiBaseUrl: string;
   theme: ThemePreference;
+  taskTimeoutDefaults: TaskTimeoutLimits;
+  localApi: LocalApiSettings;
+  sandbox: SandboxSettings;
+  trash: TrashSettings;
 }
 
 function getRow(): AppSettingsRow {
@@ -169,6 +188,107 @@ export function setTheme(theme: ThemePreference): void {
   db.prepare('UPDATE app_settings SET theme = ? WHERE id = 1').run(theme);
 }
 
+function toTaskTimeoutLimits(row: AppSettingsRow): TaskTimeoutLimits {
+  return {
+    ...(row.task_max_duration_ms && { maxDurationMs: row.task_max_duration_ms }),
+    ...(row.task_max_idle_ms && { maxIdleMs: row.task_max_idle_ms }),
+  };
+}
+
+export function getTaskTimeoutDefaults(): TaskTimeoutLimits {
+  return toTaskTimeoutLimits(getRow());
+}
+
+export function setTaskTimeoutDefaults(limits: TaskTimeoutLimits): void {
+  const db = getDatabase();
+  db.prepare(
+    'UPDATE app_settings SET task_max_duration_ms = ?, task_max_idle_ms = ? WHERE id = 1',
+  ).run(limits.maxDurationMs || null, limits.maxIdleMs || null);
+}
+
+function toLocalApiSettings(row: AppSettingsRow): LocalApiSettings {
+  return {
+    enabled: row.local_api_enabled === 1,
+    port: row.local_api_port || LOCAL_API_DEFAULT_PORT,
+    token: row.local_api_token || '',
+  };
+}
+
+export function getLocalApiSettings(): LocalApiSettings {
+  return toLocalApiSettings(getRow());
+}
+
+export function setLocalApiSettings(settings: LocalApiSettings): void {
+  const db = getDatabase();
+  db.prepare(
+    'UPDATE app_settings SET local_api_enabled = ?, local_api_port = ?, local_api_token = ? WHERE id = 1',
+  ).run(
+    settings.enabled ? 1 : 0,
+    settings.port === LOCAL_API_DEFAULT_PORT ? null : settings.port,
+    settings.token || null,
+  );
+}
+
+const VALID_SANDBOX_MODES: SandboxMode[] = ['reject', 'warn'];
+
+function toSandboxSettings(row: AppSettingsRow): SandboxSettings {
+  return {
+    enabled: row.sandbox_enabled === 1,
+    mode: VALID_SANDBOX_MODES.includes(row.sandbox_mode as SandboxMode)
+      ? (row.sandbox_mode as SandboxMode)
+      : 'reject',
+    allowedRoots: safeParseJsonWithFallback<string[]>(row.sandbox_allowed_roots) ?? [],
+  };
+}
+
+export function getSandboxSettings(): SandboxSettings {
+  return toSandboxSettings(getRow());
+}
+
+export function setSandboxSettings(settings: SandboxSettings): void {
+  if (!VALID_SANDBOX_MODES.includes(settings.mode)) {
+    throw new Error(`Invalid sandbox mode: ${settings.mode}`);
+  }
+  const db = getDatabase();
+  db.prepare(
+    'UPDATE app_settings SET sandbox_enabled = ?, sandbox_mode = ?, sandbox_allowed_roots = ? WHERE id = 1',
+  ).run(
+    settings.enabled ? 1 : 0,
+    settings.mode,
+    settings.allowedRoots.length > 0 ? JSON.stringify(settings.allowedRoots) : null,
+  );
+}
+
+const MAX_TRASH_RETENTION_DAYS = 365;
+
+function toTrashSettings(row: AppSettingsRow): TrashSettings {
+  return {
+    enabled: row.trash_enabled === 1,
+    retentionDays: row.trash_retention_days,
+  };
+}
+
+export function getTrashSettings(): TrashSettings {
+  return toTrashSettings(getRow());
+}
+
+export function setTrashSettings(settings: TrashSettings): void {
+  const { retentionDays } = settings;
+  if (
+    !Number.isInteger(retentionDays) ||
+    retentionDays < 1 ||
+    retentionDays > MAX_TRASH_RETENTION_DAYS
+  ) {
+    throw new Error(
+      `Trash retention must be a whole number of days between 1 and ${MAX_TRASH_RETENTION_DAYS}`,
+    );
+  }
+  const db = getDatabase();
+  db.prepare(
+    'UPDATE app_settings SET trash_enabled = ?, trash_retention_days = ? WHERE id = 1',
+  ).run(settings.enabled ? 1 : 0, retentionDays);
+}
+
 export function getAppSettings(): AppSettings {
   const row = getRow();
   return {
@@ -183,6 +303,10 @@ export function getAppSettings(): AppSettings {
     theme: VALID_THEMES.includes(row.theme as ThemePreference)
       ? (row.theme as ThemePreference)
       : 'system',
+    taskTimeoutDefaults: toTaskTimeoutLimits(row),
+    localApi: toLocalApiSettings(row),
+    sandbox: toSandboxSettings(row),
+    trash: toTrashSettings(row),
   };
 }
 
@@ -198,7 +322,17 @@ export function clearAppSettings(): void {
       azure_foundry_config = NULL,
       lmstudio_config = NULL,
       openai_base_url = '',
-      theme = 'system'
+      theme = 'system',
+      task_max_duration_ms = NULL,
+      task_max_idle_ms = NULL,
+      local_api_enabled = 0,
+      local_api_port = NULL,
+      local_api_token = NULL,
+      sandbox_enabled = 0,
+      sandbox_mode = 'reject',
+      sandbox_allowed_roots = NULL,
+      trash_enabled = 1,
+      trash_retention_days = 30
     WHERE id = 1`,
   ).run();
 }
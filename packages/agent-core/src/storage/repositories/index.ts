@@ -17,6 +17,14 @@ export {
   setOpenAiBaseUrl,
   getTheme,
   setTheme,
+  getTaskTimeoutDefaults,
+  setTaskTimeoutDefaults,
+  getLocalApiSettings,
+  setLocalApiSettings,
+  getSandboxSettings,
+  setSandboxSettings,
+  getTrashSettings,
+  setTrashSettings,
   getAppSettings,
   clearAppSettings,
   type AppSettings,
@@ -34,6 +42,7 @@ export {
   getProviderDebugMode,
   clearProviderSettings,
   getActiveProviderModel,
+  getProviderModel,
   hasReadyProvider,
   getConnectedProviderIds,
 } from './providerSettings.js';
@@ -41,11 +50,15 @@ export {
 export {
   getTasks,
   getTask,
+  getTasksForSchedule,
   saveTask,
   updateTaskStatus,
+  reconcileOrphanedTasks,
   addTaskMessage,
   updateTaskSessionId,
   updateTaskSummary,
+  updateTaskTimedOut,
+  updateTaskRunConfig,
   deleteTask,
   clearHistory,
   setMaxHistoryItems,
@@ -77,3 +90,67 @@ export {
   deleteConnector,
   clearAllConnectors,
 } from './connectors.js';
+
+export {
+  getAllSchedules,
+  getEnabledSchedules,
+  getScheduleById,
+  upsertSchedule,
+  recordScheduleRun,
+  deleteSchedule,
+  clearAllSchedules,
+} from './schedules.js';
+
+export {
+  getAllProjectProfiles,
+  getProjectProfileById,
+  getProjectProfileForDirectory,
+  upsertProjectProfile,
+  deleteProjectProfile,
+} from './projectProfiles.js';
+
+export {
+  getAllPermissionRules,
+  insertPermissionRule,
+  deletePermissionRule,
+} from './permissionRules.js';
+
+export { recordPermissionAudit, getPermissionAudit } from './permissionAudit.js';
+
+export {
+  insertTrashEntry,
+  getTrashEntries,
+  getTrashEntry,
+  getTrashEntriesBefore,
+  deleteTrashEntry,
+} from './trashEntries.js';
+
+export {
+  insertTaskSnapshot,
+  getTaskSnapshots,
+  getTaskSnapshot,
+  getTaskSnapshotManifest,
+  getReferencedSnapshotHashes,
+} from './taskSnapshots.js';
+
+export {
+  getAllWebhookTargets,
+  getWebhookTargetById,
+  upsertWebhookTarget,
+  deleteWebhookTarget,
+  clearAllWebhookTargets,
+  getWebhookDeliveries,
+  upsertWebhookDelivery,
+  pruneWebhookDeliveries,
+} from './webhooks.js';
+
+export {
+  recordTaskUsage,
+  getUsageForTask,
+  getUsageTotals,
+  getUsageBreakdown,
+  getUsageByTask,
+  clearTaskUsage,
+} from './taskUsage.js';
+
+export { recordTaskArtifacts, getArtifactsForTask } from './taskArtifacts.js';
@@ -0,0 +1,95 @@
+import type { FileOperation, PermissionRequest } from '../../common/types/permission.js';
+import type {
+  PermissionAuditDecider,
+  PermissionAuditEntry,
+  PermissionAuditEntryInput,
+  PermissionAuditOutcome,
+} from '../../common/types/permission-audit.js';
+import { safeParseJsonWithFallback } from '../../utils/json.js';
+import { getDatabase } from '../database.js';
+
+interface PermissionAuditRow {
+  id: number;
+  request_id: string;
+  task_id: string;
+  request_type: string;
+  file_operation: string | null;
+  file_paths_json: string;
+  approved_paths_json: string | null;
+  tool_name: string | null;
+  question: string | null;
+  outcome: string;
+  decided_by: string | null;
+  rule_id: string | null;
+  selected_options_json: string | null;
+  custom_text: string | null;
+  requested_at: string;
+  responded_at: string;
+}
+
+function rowToPermissionAuditEntry(row: PermissionAuditRow): PermissionAuditEntry {
+  return {
+    id: row.id,
+    requestId: row.request_id,
+    taskId: row.task_id,
+    requestType: row.request_type as PermissionRequest['type'],
+    fileOperation: (row.file_operation as FileOperation | null) ?? undefined,
+    filePaths: safeParseJsonWithFallback<string[]>(row.file_paths_json) ?? [],
+    approvedPaths: row.approved_paths_json
+      ? (safeParseJsonWithFallback<string[]>(row.approved_paths_json) ?? undefined)
+      : undefined,
+    toolName: row.tool_name ?? undefined,
+    question: row.question ?? undefined,
+    outcome: row.outcome as PermissionAuditOutcome,
+    decidedBy: (row.decided_by as PermissionAuditDecider | null) ?? undefined,
+    ruleId: row.rule_id ?? undefined,
+    selectedOptions: row.selected_options_json
+      ? (safeParseJsonWithFallback<string[]>(row.selected_options_json) ?? undefined)
+      : undefined,
+    customText: row.custom_text ?? undefined,
+    requestedAt: row.requested_at,
+    respondedAt: row.responded_at,
+  };
+}
+
+export function recordPermissionAudit(entry: PermissionAuditEntryInput): void {
+  const db = getDatabase();
+  db.prepare(
+    `INSERT INTO permission_audit (
+      request_id, task_id, request_type, file_operation, file_paths_json, approved_paths_json,
+      tool_name, question, outcome, decided_by, rule_id, selected_options_json, custom_text,
+      requested_at, responded_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  ).run(
+    entry.requestId,
+    entry.taskId,
+    entry.requestType,
+    entry.fileOperation ?? null,
+    JSON.stringify(entry.filePaths),
+    entry.approvedPaths ? JSON.stringify(entry.approvedPaths) : null,
+    entry.toolName ?? null,
+    entry.question ?? null,
+    entry.outcome,
+    entry.decidedBy ?? null,
+    entry.ruleId ?? null,
+    entry.selectedOptions ? JSON.stringify(entry.selectedOptions) : null,
+    entry.customText ?? null,
+    entry.requestedAt,
+    entry.respondedAt,
+  );
+}
+
+/** Audit entries for one task, or for every task when no ID is given, newest first */
+export function getPermissionAudit(taskId?: string, limit?: number): PermissionAuditEntry[] {
+  const db = getDatabase();
+  const where = taskId ? 'WHERE task_id = ?' : '';
+  const params: Array<string | number> = taskId ? [taskId] : [];
+  const limitClause = limit ? 'LIMIT ?' : '';
+  if (limit) {
+    params.push(limit);
+  }
+  const rows = db
+    .prepare(`SELECT * FROM permission_audit ${where} ORDER BY id DESC ${limitClause}`)
+    .all(...params) as PermissionAuditRow[];
+  return rows.map(rowToPermissionAuditEntry);
+}
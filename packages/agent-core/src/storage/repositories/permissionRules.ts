@@ -0,0 +1,66 @@
+import type { FileOperation } from '../../common/types/permission.js';
+import type {
+  PermissionRule,
+  PermissionRuleDecision,
+  PermissionRuleScope,
+} from '../../common/types/permission-rule.js';
+import { getDatabase } from '../database.js';
+
+interface PermissionRuleRow {
+  id: string;
+  decision: PermissionRuleDecision;
+  operation: string | null;
+  path_glob: string | null;
+  tool_name: string | null;
+  scope: PermissionRuleScope;
+  task_id: string | null;
+  working_directory: string | null;
+  created_at: string;
+}
+
+function rowToPermissionRule(row: PermissionRuleRow): PermissionRule {
+  return {
+    id: row.id,
+    decision: row.decision,
+    operation: (row.operation as FileOperation | null) ?? undefined,
+    pathGlob: row.path_glob ?? undefined,
+    toolName: row.tool_name ?? undefined,
+    scope: row.scope,
+    taskId: row.task_id ?? undefined,
+    workingDirectory: row.working_directory ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+export function getAllPermissionRules(): PermissionRule[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare('SELECT * FROM permission_rules ORDER BY created_at DESC')
+    .all() as PermissionRuleRow[];
+  return rows.map(rowToPermissionRule);
+}
+
+export function insertPermissionRule(rule: PermissionRule): void {
+  const db = getDatabase();
+  db.prepare(
+    `
+    INSERT INTO permission_rules (id, decision, operation, path_glob, tool_name, scope, task_id, working_directory, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `,
+  ).run(
+    rule.id,
+    rule.decision,
+    rule.operation ?? null,
+    rule.pathGlob ?? null,
+    rule.toolName ?? null,
+    rule.scope,
+    rule.taskId ?? null,
+    rule.workingDirectory ?? null,
+    rule.createdAt,
+  );
+}
+
+export function deletePermissionRule(id: string): void {
+  const db = getDatabase();
+  db.prepare('DELETE FROM permission_rules WHERE id = ?').run(id);
+}
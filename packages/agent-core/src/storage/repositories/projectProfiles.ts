@@ -0,0 +1,86 @@
+import type { ProjectProfile, VerificationCheck } from '../../common/types/verification.js';
+import { safeParseJsonWithFallback } from '../../utils/json.js';
+import { isPathWithinRoot, resolveSandboxPath } from '../../utils/sandbox.js';
+import { getDatabase } from '../database.js';
+
+interface ProjectProfileRow {
+  id: string;
+  name: string;
+  working_directory: string;
+  verifications_json: string;
+  created_at: string;
+  updated_at: string;
+}
+
+function rowToProjectProfile(row: ProjectProfileRow): ProjectProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    workingDirectory: row.working_directory,
+    verifications: safeParseJsonWithFallback<VerificationCheck[]>(row.verifications_json) ?? [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function getAllProjectProfiles(): ProjectProfile[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare('SELECT * FROM project_profiles ORDER BY name COLLATE NOCASE')
+    .all() as ProjectProfileRow[];
+  return rows.map(rowToProjectProfile);
+}
+
+export function getProjectProfileById(id: string): ProjectProfile | null {
+  const db = getDatabase();
+  const row = db.prepare('SELECT * FROM project_profiles WHERE id = ?').get(id) as
+    | ProjectProfileRow
+    | undefined;
+  return row ? rowToProjectProfile(row) : null;
+}
+
+/**
+ * Find the profile that applies to a directory: the one whose working
+ * directory is the closest ancestor of it (or the directory itself).
+ */
+export function getProjectProfileForDirectory(directory: string): ProjectProfile | null {
+  const target = resolveSandboxPath(directory, directory);
+  let match: ProjectProfile | null = null;
+  let matchLength = -1;
+
+  for (const profile of getAllProjectProfiles()) {
+    const root = resolveSandboxPath(profile.workingDirectory, directory);
+    if (isPathWithinRoot(target, root) && root.length > matchLength) {
+      match = profile;
+      matchLength = root.length;
+    }
+  }
+  return match;
+}
+
+export function upsertProjectProfile(profile: ProjectProfile): void {
+  const db = getDatabase();
+  db.prepare(
+    `
+    INSERT INTO project_profiles (id, name, working_directory, verifications_json, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      name = excluded.name,
+      working_directory = excluded.working_directory,
+      verifications_json = excluded.verifications_json,
+      updated_at = excluded.updated_at
+  `,
+  ).run(
+    profile.id,
+    profile.name,
+    profile.workingDirectory,
+    JSON.stringify(profile.verifications),
+    profile.createdAt,
+    profile.updatedAt,
+  );
+}
+
+export function deleteProjectProfile(id: string): void {
+  const db = getDatabase();
+  db.prepare('DELETE FROM project_profiles WHERE id = ?').run(id);
+}
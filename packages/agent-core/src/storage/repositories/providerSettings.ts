@@ -147,11 +147,19 @@ export function getActiveProviderModel(): {
   const activeId = getActiveProviderId();
   if (!activeId) return null;
 
-  const provider = getConnectedProvider(activeId);
+  return getProviderModel(activeId);
+}
+
+export function getProviderModel(providerId: ProviderId): {
+  provider: ProviderId;
+  model: string;
+  baseUrl?: string;
+} | null {
+  const provider = getConnectedProvider(providerId);
   if (!provider || !provider.selectedModelId) return null;
 
   const result: { provider: ProviderId; model: string; baseUrl?: string } = {
-    provider: activeId,
+    provider: providerId,
     model: provider.selectedModelId,
   };
 
@@ -0,0 +1,118 @@
+import type { TaskSchedule } from '../../common/types/schedule.js';
+import type { TaskConfig } from '../../common/types/task.js';
+import { getDatabase } from '../database.js';
+
+interface ScheduleRow {
+  id: string;
+  name: string;
+  cron_expression: string;
+  task_config_json: string;
+  is_enabled: number;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_task_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function parseTaskConfig(json: string): TaskConfig {
+  try {
+    return JSON.parse(json) as TaskConfig;
+  } catch {
+    console.error('Failed to parse schedule task config from database:', json.slice(0, 100));
+    return { prompt: '' };
+  }
+}
+
+function rowToSchedule(row: ScheduleRow): TaskSchedule {
+  return {
+    id: row.id,
+    name: row.name,
+    cronExpression: row.cron_expression,
+    config: parseTaskConfig(row.task_config_json),
+    isEnabled: row.is_enabled === 1,
+    nextRunAt: row.next_run_at || undefined,
+    lastRunAt: row.last_run_at || undefined,
+    lastTaskId: row.last_task_id || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function getAllSchedules(): TaskSchedule[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare('SELECT * FROM task_schedules ORDER BY created_at DESC')
+    .all() as ScheduleRow[];
+  return rows.map(rowToSchedule);
+}
+
+export function getEnabledSchedules(): TaskSchedule[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare('SELECT * FROM task_schedules WHERE is_enabled = 1 ORDER BY created_at DESC')
+    .all() as ScheduleRow[];
+  return rows.map(rowToSchedule);
+}
+
+export function getScheduleById(id: string): TaskSchedule | null {
+  const db = getDatabase();
+  const row = db.prepare('SELECT * FROM task_schedules WHERE id = ?').get(id) as
+    | ScheduleRow
+    | undefined;
+  return row ? rowToSchedule(row) : null;
+}
+
+export function upsertSchedule(schedule: TaskSchedule): void {
+  const db = getDatabase();
+  db.prepare(
+    `
+    INSERT INTO task_schedules (id, name, cron_expression, task_config_json, is_enabled, next_run_at, last_run_at, last_task_id, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      name = excluded.name,
+      cron_expression = excluded.cron_expression,
+      task_config_json = excluded.task_config_json,
+      is_enabled = excluded.is_enabled,
+      next_run_at = excluded.next_run_at,
+      last_run_at = excluded.last_run_at,
+      last_task_id = excluded.last_task_id,
+      updated_at = excluded.updated_at
+  `,
+  ).run(
+    schedule.id,
+    schedule.name,
+    schedule.cronExpression,
+    JSON.stringify(schedule.config),
+    schedule.isEnabled ? 1 : 0,
+    schedule.nextRunAt || null,
+    schedule.lastRunAt || null,
+    schedule.lastTaskId || null,
+    schedule.createdAt,
+    schedule.updatedAt,
+  );
+}
+
+export function recordScheduleRun(
+  id: string,
+  taskId: string,
+  runAt: string,
+  nextRunAt: string | null,
+): void {
+  const db = getDatabase();
+  db.prepare(
+    `UPDATE task_schedules
+      SET last_run_at = ?, last_task_id = ?, next_run_at = ?, updated_at = ?
+      WHERE id = ?`,
+  ).run(runAt, taskId, nextRunAt, new Date().toISOString(), id);
+}
+
+export function deleteSchedule(id: string): void {
+  const db = getDatabase();
+  db.prepare('DELETE FROM task_schedules WHERE id = ?').run(id);
+}
+
+export function clearAllSchedules(): void {
+  const db = getDatabase();
+  db.prepare('DELETE FROM task_schedules').run();
+}
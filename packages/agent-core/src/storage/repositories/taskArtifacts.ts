@@ -0,0 +1,55 @@
+import type { FileOperation } from '../../common/types/permission.js';
+import type { TaskArtifact, TaskArtifactInput } from '../../common/types/artifact.js';
+import { getDatabase } from '../database.js';
+
+interface ArtifactRow {
+  id: number;
+  task_id: string;
+  operation: string;
+  file_path: string;
+  target_path: string | null;
+  recorded_at: string;
+}
+
+function rowToArtifact(row: ArtifactRow): TaskArtifact {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    operation: row.operation as FileOperation,
+    filePath: row.file_path,
+    targetPath: row.target_path || undefined,
+    recordedAt: row.recorded_at,
+  };
+}
+
+export function recordTaskArtifacts(
+  taskId: string,
+  artifacts: TaskArtifactInput[],
+  recordedAt: string = new Date().toISOString(),
+): void {
+  const db = getDatabase();
+  const insert = db.prepare(
+    `INSERT INTO task_artifacts (task_id, operation, file_path, target_path, recorded_at)
+    VALUES (?, ?, ?, ?, ?)`,
+  );
+
+  db.transaction(() => {
+    for (const artifact of artifacts) {
+      insert.run(
+        taskId,
+        artifact.operation,
+        artifact.filePath,
+        artifact.targetPath || null,
+        recordedAt,
+      );
+    }
+  })();
+}
+
+export function getArtifactsForTask(taskId: string): TaskArtifact[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare('SELECT * FROM task_artifacts WHERE task_id = ? ORDER BY id')
+    .all(taskId) as ArtifactRow[];
+  return rows.map(rowToArtifact);
+}
@@ -1,6 +1,15 @@
-import type { Task, TaskMessage, TaskStatus, TaskAttachment } from '../../common/types/task.js';
+import type {
+  Task,
+  TaskMessage,
+  TaskStatus,
+  TaskAttachment,
+  TaskRunConfig,
+  TaskTimeout,
+} from '../../common/types/task.js';
 import type { TodoItem } from '../../common/types/todo.js';
+import type { OrphanedTaskReconciliation } from '../../types/storage.js';
 import { getDatabase } from '../database.js';
+import { safeParseJsonWithFallback } from '../../utils/json.js';
 
 export interface StoredTask {
   id: string;
@@ -12,6 +21,11 @@ export interface StoredTask {
   createdAt: string;
   startedAt?: string;
   completedAt?: string;
+  scheduleId?: string;
+  parentTaskId?: string;
+  forkedFromMessageId?: string;
+  timedOut?: TaskTimeout;
+  runConfig?: TaskRunConfig;
 }
 
 interface TaskRow {
@@ -23,6 +37,11 @@ interface TaskRow {
   created_at: string;
   started_at: string | null;
   completed_at: string | null;
+  schedule_id: string | null;
+  parent_task_id: string | null;
+  forked_from_message_id: string | null;
+  timed_out: string | null;
+  run_config: string | null;
 }
 
 interface MessageRow {
@@ -103,6 +122,11 @@ function rowToTask(row: TaskRow): StoredTask {
     createdAt: row.created_at,
     startedAt: row.started_at || undefined,
     completedAt: row.completed_at || undefined,
+    scheduleId: row.schedule_id || undefined,
+    parentTaskId: row.parent_task_id || undefined,
+    forkedFromMessageId: row.forked_from_message_id || undefined,
+    timedOut: safeParseJsonWithFallback<TaskTimeout>(row.timed_out) ?? undefined,
+    runConfig: safeParseJsonWithFallback<TaskRunConfig>(row.run_config) ?? undefined,
     messages: getMessagesForTask(row.id),
   };
 }
@@ -123,14 +147,24 @@ export function getTask(taskId: string): StoredTask | undefined {
   return row ? rowToTask(row) : undefined;
 }
 
+export function getTasksForSchedule(scheduleId: string): StoredTask[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare('SELECT * FROM tasks WHERE schedule_id = ? ORDER BY created_at DESC')
+    .all(scheduleId) as TaskRow[];
+
+  return rows.map(rowToTask);
+}
+
 export function saveTask(task: Task): void {
   const db = getDatabase();
 
   db.transaction(() => {
     db.prepare(
       `INSERT OR REPLACE INTO tasks
-        (id, prompt, summary, status, session_id, created_at, started_at, completed_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        (id, prompt, summary, status, session_id, created_at, started_at, completed_at, schedule_id,
+         parent_task_id, forked_from_message_id, timed_out, run_config)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     ).run(
       task.id,
       task.prompt,
@@ -140,6 +174,11 @@ export function saveTask(task: Task): void {
       task.createdAt,
       task.startedAt || null,
       task.completedAt || null,
+      task.scheduleId || null,
+      task.parentTaskId || null,
+      task.forkedFromMessageId || null,
+      task.timedOut ? JSON.stringify(task.timedOut) : null,
+      task.runConfig ? JSON.stringify(task.runConfig) : null,
     );
 
     db.prepare('DELETE FROM task_messages WHERE task_id = ?').run(task.id);
@@ -196,6 +235,41 @@ export function updateTaskStatus(taskId: string, status: TaskStatus, completedAt
   }
 }
 
+/**
+ * Settle tasks left mid-flight by a quit or crash. Nothing is running at
+ * startup, so tasks that had started become `interrupted` (and can be
+ * resumed) while tasks that never left the queue become `cancelled`.
+ */
+export function reconcileOrphanedTasks(): OrphanedTaskReconciliation {
+  const db = getDatabase();
+  const completedAt = new Date().toISOString();
+
+  return db.transaction(() => {
+    const rows = db
+      .prepare(
+        `SELECT id, status FROM tasks
+         WHERE status IN ('running', 'waiting_permission', 'pending', 'queued')`,
+      )
+      .all() as Array<{ id: string; status: TaskStatus }>;
+
+    const interrupted: string[] = [];
+    const cancelled: string[] = [];
+    const update = db.prepare('UPDATE tasks SET status = ?, completed_at = ? WHERE id = ?');
+
+    for (const row of rows) {
+      if (row.status === 'running' || row.status === 'waiting_permission') {
+        update.run('interrupted', completedAt, row.id);
+        interrupted.push(row.id);
+      } else {
+        update.run('cancelled', completedAt, row.id);
+        cancelled.push(row.id);
+      }
+    }
+
+    return { interrupted, cancelled };
+  })();
+}
+
 export function addTaskMessage(taskId: string, message: TaskMessage): void {
   const db = getDatabase();
 
@@ -243,6 +317,16 @@ export function updateTaskSummary(taskId: string, summary: string): void {
   db.prepare('UPDATE tasks SET summary = ? WHERE id = ?').run(summary, taskId);
 }
 
+export function updateTaskTimedOut(taskId: string, timeout: TaskTimeout): void {
+  const db = getDatabase();
+  db.prepare('UPDATE tasks SET timed_out = ? WHERE id = ?').run(JSON.stringify(timeout), taskId);
+}
+
+export function updateTaskRunConfig(taskId: string, runConfig: TaskRunConfig): void {
+  const db = getDatabase();
+  db.prepare('UPDATE tasks SET run_config = ? WHERE id = ?').run(JSON.stringify(runConfig), taskId);
+}
+
 export function deleteTask(taskId: string): void {
   const db = getDatabase();
   db.prepare('DELETE FROM tasks WHERE id = ?').run(taskId);
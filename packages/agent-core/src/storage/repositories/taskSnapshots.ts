@@ -0,0 +1,97 @@
+import type {
+  SnapshotManifest,
+  TaskSnapshot,
+  TaskSnapshotTrigger,
+} from '../../common/types/snapshot.js';
+import { getDatabase } from '../database.js';
+
+interface TaskSnapshotRow {
+  id: string;
+  task_id: string;
+  trigger: string;
+  label: string | null;
+  working_directory: string;
+  file_count: number;
+  total_bytes: number;
+  created_at: string;
+}
+
+const SUMMARY_COLUMNS =
+  'id, task_id, trigger, label, working_directory, file_count, total_bytes, created_at';
+
+function rowToTaskSnapshot(row: TaskSnapshotRow): TaskSnapshot {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    trigger: row.trigger as TaskSnapshotTrigger,
+    label: row.label || undefined,
+    workingDirectory: row.working_directory,
+    fileCount: row.file_count,
+    totalBytes: row.total_bytes,
+    createdAt: row.created_at,
+  };
+}
+
+export function insertTaskSnapshot(snapshot: TaskSnapshot, manifest: SnapshotManifest): void {
+  const db = getDatabase();
+  db.prepare(
+    `INSERT INTO task_snapshots
+      (id, task_id, trigger, label, working_directory, manifest_json, file_count, total_bytes, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  ).run(
+    snapshot.id,
+    snapshot.taskId,
+    snapshot.trigger,
+    snapshot.label || null,
+    snapshot.workingDirectory,
+    JSON.stringify(manifest),
+    snapshot.fileCount,
+    snapshot.totalBytes,
+    snapshot.createdAt,
+  );
+}
+
+/** Snapshots of a task's working directory, oldest first */
+export function getTaskSnapshots(taskId: string): TaskSnapshot[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare(
+      `SELECT ${SUMMARY_COLUMNS} FROM task_snapshots WHERE task_id = ? ORDER BY created_at, rowid`,
+    )
+    .all(taskId) as TaskSnapshotRow[];
+  return rows.map(rowToTaskSnapshot);
+}
+
+export function getTaskSnapshot(id: string): TaskSnapshot | null {
+  const db = getDatabase();
+  const row = db.prepare(`SELECT ${SUMMARY_COLUMNS} FROM task_snapshots WHERE id = ?`).get(id) as
+    | TaskSnapshotRow
+    | undefined;
+  return row ? rowToTaskSnapshot(row) : null;
+}
+
+export function getTaskSnapshotManifest(id: string): SnapshotManifest | null {
+  const db = getDatabase();
+  const row = db.prepare('SELECT manifest_json FROM task_snapshots WHERE id = ?').get(id) as
+    | { manifest_json: string }
+    | undefined;
+  return row ? (JSON.parse(row.manifest_json) as SnapshotManifest) : null;
+}
+
+/** Every content hash still referenced by a snapshot */
+export function getReferencedSnapshotHashes(): Set<string> {
+  const db = getDatabase();
+  const rows = db.prepare('SELECT manifest_json FROM task_snapshots').all() as Array<{
+    manifest_json: string;
+  }>;
+  const hashes = new Set<string>();
+  for (const row of rows) {
+    const manifest = JSON.parse(row.manifest_json) as SnapshotManifest;
+    for (const file of Object.values(manifest.files)) {
+      if (file.hash) {
+        hashes.add(file.hash);
+      }
+    }
+  }
+  return hashes;
+}
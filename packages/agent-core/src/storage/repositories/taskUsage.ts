@@ -0,0 +1,210 @@
+import type {
+  TaskUsageRecord,
+  TaskUsageSummary,
+  UsageAggregate,
+  UsageGroupBy,
+  UsageQuery,
+  UsageTotals,
+} from '../../common/types/usage.js';
+import { addStepUsage, createEmptyTaskUsage, type StepUsage } from '../../utils/task-budget.js';
+import { getDatabase } from '../database.js';
+
+interface UsageRecordRow {
+  id: number;
+  task_id: string;
+  provider_id: string;
+  model_id: string;
+  input_tokens: number;
+  output_tokens: number;
+  reasoning_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  cost_usd: number;
+  recorded_at: string;
+}
+
+interface UsageSumRow {
+  input_tokens: number;
+  output_tokens: number;
+  reasoning_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  cost_usd: number;
+  steps: number;
+  task_count: number;
+}
+
+interface UsageAggregateRow extends UsageSumRow {
+  key: string;
+}
+
+interface TaskUsageSummaryRow extends UsageSumRow {
+  task_id: string;
+  prompt: string | null;
+  summary: string | null;
+  first_recorded_at: string;
+  last_recorded_at: string;
+}
+
+const UNKNOWN_MODEL = 'unknown';
+
+const SUM_COLUMNS = `
+  COALESCE(SUM(u.input_tokens), 0) AS input_tokens,
+  COALESCE(SUM(u.output_tokens), 0) AS output_tokens,
+  COALESCE(SUM(u.reasoning_tokens), 0) AS reasoning_tokens,
+  COALESCE(SUM(u.cache_read_tokens), 0) AS cache_read_tokens,
+  COALESCE(SUM(u.cache_write_tokens), 0) AS cache_write_tokens,
+  COALESCE(SUM(u.cost_usd), 0) AS cost_usd,
+  COUNT(u.id) AS steps,
+  COUNT(DISTINCT u.task_id) AS task_count`;
+
+const GROUP_KEYS: Record<UsageGroupBy, string> = {
+  day: 'substr(u.recorded_at, 1, 10)',
+  provider: 'u.provider_id',
+  model: 'u.model_id',
+};
+
+function rowToRecord(row: UsageRecordRow): TaskUsageRecord {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    providerId: row.provider_id,
+    modelId: row.model_id,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    reasoningTokens: row.reasoning_tokens,
+    cacheReadTokens: row.cache_read_tokens,
+    cacheWriteTokens: row.cache_write_tokens,
+    costUsd: row.cost_usd,
+    recordedAt: row.recorded_at,
+  };
+}
+
+function rowToTotals(row: UsageSumRow): UsageTotals {
+  return {
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    reasoningTokens: row.reasoning_tokens,
+    cacheReadTokens: row.cache_read_tokens,
+    cacheWriteTokens: row.cache_write_tokens,
+    costUsd: row.cost_usd,
+    steps: row.steps,
+    taskCount: row.task_count,
+  };
+}
+
+function buildWhereClause(query: UsageQuery): { sql: string; params: string[] } {
+  const conditions: string[] = [];
+  const params: string[] = [];
+
+  if (query.since) {
+    conditions.push('u.recorded_at >= ?');
+    params.push(query.since);
+  }
+  if (query.until) {
+    conditions.push('u.recorded_at < ?');
+    params.push(query.until);
+  }
+
+  return { sql: conditions.length ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+export function recordTaskUsage(
+  taskId: string,
+  step: StepUsage,
+  recordedAt: string = new Date().toISOString(),
+): void {
+  const db = getDatabase();
+  const usage = addStepUsage(createEmptyTaskUsage(), step);
+  const modelId = step.model || UNKNOWN_MODEL;
+  const separator = modelId.indexOf('/');
+  const providerId = separator > 0 ? modelId.slice(0, separator) : UNKNOWN_MODEL;
+
+  db.prepare(
+    `INSERT INTO task_usage
+      (task_id, provider_id, model_id, input_tokens, output_tokens, reasoning_tokens,
+       cache_read_tokens, cache_write_tokens, cost_usd, recorded_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  ).run(
+    taskId,
+    providerId,
+    modelId,
+    usage.inputTokens,
+    usage.outputTokens,
+    usage.reasoningTokens,
+    usage.cacheReadTokens,
+    usage.cacheWriteTokens,
+    usage.costUsd,
+    recordedAt,
+  );
+}
+
+export function getUsageForTask(taskId: string): TaskUsageRecord[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare('SELECT * FROM task_usage WHERE task_id = ? ORDER BY id')
+    .all(taskId) as UsageRecordRow[];
+  return rows.map(rowToRecord);
+}
+
+export function getUsageTotals(query: UsageQuery = {}): UsageTotals {
+  const db = getDatabase();
+  const where = buildWhereClause(query);
+  const row = db
+    .prepare(`SELECT ${SUM_COLUMNS} FROM task_usage u ${where.sql}`)
+    .get(...where.params) as UsageSumRow;
+  return rowToTotals(row);
+}
+
+/** Sum usage per day (newest first), provider or model (most expensive first) */
+export function getUsageBreakdown(groupBy: UsageGroupBy, query: UsageQuery = {}): UsageAggregate[] {
+  const db = getDatabase();
+  const where = buildWhereClause(query);
+  const order = groupBy === 'day' ? 'key DESC' : 'cost_usd DESC, key';
+  const rows = db
+    .prepare(
+      `SELECT ${GROUP_KEYS[groupBy]} AS key, ${SUM_COLUMNS}
+        FROM task_usage u ${where.sql}
+        GROUP BY key
+        ORDER BY ${order}`,
+    )
+    .all(...where.params) as UsageAggregateRow[];
+  return rows.map((row) => ({ key: row.key, ...rowToTotals(row) }));
+}
+
+/** Sum usage per task, most recently active first */
+export function getUsageByTask(query: UsageQuery = {}, limit = 50): TaskUsageSummary[] {
+  const db = getDatabase();
+  const where = buildWhereClause(query);
+  const rows = db
+    .prepare(
+      `SELECT u.task_id, t.prompt, t.summary,
+          MIN(u.recorded_at) AS first_recorded_at,
+          MAX(u.recorded_at) AS last_recorded_at,
+          ${SUM_COLUMNS}
+        FROM task_usage u
+        LEFT JOIN tasks t ON t.id = u.task_id
+        ${where.sql}
+        GROUP BY u.task_id
+        ORDER BY last_recorded_at DESC
+        LIMIT ?`,
+    )
+    .all(...where.params, limit) as TaskUsageSummaryRow[];
+
+  return rows.map((row) => {
+    const { taskCount: _taskCount, ...usage } = rowToTotals(row);
+    return {
+      taskId: row.task_id,
+      prompt: row.prompt || undefined,
+      summary: row.summary || undefined,
+      firstRecordedAt: row.first_recorded_at,
+      lastRecordedAt: row.last_recorded_at,
+      ...usage,
+    };
+  });
+}
+
+export function clearTaskUsage(): void {
+  const db = getDatabase();
+  db.prepare('DELETE FROM task_usage').run();
+}
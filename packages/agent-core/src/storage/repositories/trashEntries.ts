@@ -0,0 +1,77 @@
+import type { TrashEntry, TrashReason } from '../../common/types/trash.js';
+import { getDatabase } from '../database.js';
+
+interface TrashEntryRow {
+  id: string;
+  task_id: string;
+  original_path: string;
+  reason: string;
+  is_directory: number;
+  size_bytes: number;
+  trashed_at: string;
+}
+
+function rowToTrashEntry(row: TrashEntryRow): TrashEntry {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    originalPath: row.original_path,
+    reason: row.reason as TrashReason,
+    isDirectory: row.is_directory === 1,
+    sizeBytes: row.size_bytes,
+    trashedAt: row.trashed_at,
+  };
+}
+
+export function insertTrashEntry(entry: TrashEntry): void {
+  const db = getDatabase();
+  db.prepare(
+    `INSERT INTO trash_entries (id, task_id, original_path, reason, is_directory, size_bytes, trashed_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+  ).run(
+    entry.id,
+    entry.taskId,
+    entry.originalPath,
+    entry.reason,
+    entry.isDirectory ? 1 : 0,
+    entry.sizeBytes,
+    entry.trashedAt,
+  );
+}
+
+/** Trash entries for one task, or for every task when no ID is given, newest first */
+export function getTrashEntries(taskId?: string): TrashEntry[] {
+  const db = getDatabase();
+  const rows = (
+    taskId
+      ? db
+          .prepare(
+            'SELECT * FROM trash_entries WHERE task_id = ? ORDER BY trashed_at DESC, rowid DESC',
+          )
+          .all(taskId)
+      : db.prepare('SELECT * FROM trash_entries ORDER BY trashed_at DESC, rowid DESC').all()
+  ) as TrashEntryRow[];
+  return rows.map(rowToTrashEntry);
+}
+
+export function getTrashEntry(id: string): TrashEntry | null {
+  const db = getDatabase();
+  const row = db.prepare('SELECT * FROM trash_entries WHERE id = ?').get(id) as
+    | TrashEntryRow
+    | undefined;
+  return row ? rowToTrashEntry(row) : null;
+}
+
+/** Trash entries created before the given time */
+export function getTrashEntriesBefore(cutoff: string): TrashEntry[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare('SELECT * FROM trash_entries WHERE trashed_at < ?')
+    .all(cutoff) as TrashEntryRow[];
+  return rows.map(rowToTrashEntry);
+}
+
+export function deleteTrashEntry(id: string): void {
+  const db = getDatabase();
+  db.prepare('DELETE FROM trash_entries WHERE id = ?').run(id);
+}
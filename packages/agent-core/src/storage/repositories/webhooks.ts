@@ -0,0 +1,165 @@
+import type {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookTarget,
+} from '../../common/types/webhook.js';
+import { getDatabase } from '../database.js';
+
+interface WebhookTargetRow {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  events_json: string;
+  is_enabled: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface WebhookDeliveryRow {
+  id: string;
+  target_id: string;
+  event: string;
+  task_id: string;
+  status: string;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function parseEvents(json: string): WebhookEvent[] {
+  try {
+    return JSON.parse(json) as WebhookEvent[];
+  } catch {
+    console.error('Failed to parse webhook events from database:', json.slice(0, 100));
+    return [];
+  }
+}
+
+function rowToTarget(row: WebhookTargetRow): WebhookTarget {
+  return {
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    secret: row.secret,
+    events: parseEvents(row.events_json),
+    isEnabled: row.is_enabled === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function rowToDelivery(row: WebhookDeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    targetId: row.target_id,
+    event: row.event as WebhookEvent,
+    taskId: row.task_id,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts,
+    responseStatus: row.response_status ?? undefined,
+    error: row.error || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function getAllWebhookTargets(): WebhookTarget[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare('SELECT * FROM webhook_targets ORDER BY created_at DESC')
+    .all() as WebhookTargetRow[];
+  return rows.map(rowToTarget);
+}
+
+export function getWebhookTargetById(id: string): WebhookTarget | null {
+  const db = getDatabase();
+  const row = db.prepare('SELECT * FROM webhook_targets WHERE id = ?').get(id) as
+    | WebhookTargetRow
+    | undefined;
+  return row ? rowToTarget(row) : null;
+}
+
+export function upsertWebhookTarget(target: WebhookTarget): void {
+  const db = getDatabase();
+  db.prepare(
+    `
+    INSERT INTO webhook_targets (id, name, url, secret, events_json, is_enabled, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      name = excluded.name,
+      url = excluded.url,
+      secret = excluded.secret,
+      events_json = excluded.events_json,
+      is_enabled = excluded.is_enabled,
+      updated_at = excluded.updated_at
+  `,
+  ).run(
+    target.id,
+    target.name,
+    target.url,
+    target.secret,
+    JSON.stringify(target.events),
+    target.isEnabled ? 1 : 0,
+    target.createdAt,
+    target.updatedAt,
+  );
+}
+
+export function deleteWebhookTarget(id: string): void {
+  const db = getDatabase();
+  db.prepare('DELETE FROM webhook_targets WHERE id = ?').run(id);
+}
+
+export function clearAllWebhookTargets(): void {
+  const db = getDatabase();
+  db.prepare('DELETE FROM webhook_targets').run();
+}
+
+export function getWebhookDeliveries(limit: number): WebhookDelivery[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare('SELECT * FROM webhook_deliveries ORDER BY created_at DESC, rowid DESC LIMIT ?')
+    .all(limit) as WebhookDeliveryRow[];
+  return rows.map(rowToDelivery);
+}
+
+export function upsertWebhookDelivery(delivery: WebhookDelivery): void {
+  const db = getDatabase();
+  db.prepare(
+    `
+    INSERT INTO webhook_deliveries (id, target_id, event, task_id, status, attempts, response_status, error, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      status = excluded.status,
+      attempts = excluded.attempts,
+      response_status = excluded.response_status,
+      error = excluded.error,
+      updated_at = excluded.updated_at
+  `,
+  ).run(
+    delivery.id,
+    delivery.targetId,
+    delivery.event,
+    delivery.taskId,
+    delivery.status,
+    delivery.attempts,
+    delivery.responseStatus ?? null,
+    delivery.error || null,
+    delivery.createdAt,
+    delivery.updatedAt,
+  );
+}
+
+/** Delete all but the most recent `keep` deliveries */
+export function pruneWebhookDeliveries(keep: number): void {
+  const db = getDatabase();
+  db.prepare(
+    `DELETE FROM webhook_deliveries WHERE id NOT IN (
+      SELECT id FROM webhook_deliveries ORDER BY created_at DESC, rowid DESC LIMIT ?
+    )`,
+  ).run(keep);
+}
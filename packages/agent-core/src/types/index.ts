@@ -14,17 +14,36 @@ export type {
   TaskProgressEvent,
 } from './task-manager.js';
 
+// Task Scheduler API
+export type { TaskSchedulerAPI, TaskSchedulerOptions } from './scheduler.js';
+
+// Webhook Dispatcher API
+export type { WebhookDispatcherAPI, WebhookDispatcherOptions } from './webhooks.js';
+
+// Local API Server
+export type { LocalApiServerAPI, LocalApiServerOptions, LocalApiHandlers } from './local-api.js';
+
 // Storage API
 export type {
   StorageAPI,
   StorageOptions,
   StoredTask,
+  OrphanedTaskReconciliation,
   AppSettings,
   ThemePreference,
   TaskStorageAPI,
   AppSettingsAPI,
   ProviderSettingsAPI,
   SecureStorageAPI,
+  ScheduleStorageAPI,
+  WebhookStorageAPI,
+  UsageStorageAPI,
+  ArtifactStorageAPI,
+  ProjectProfileStorageAPI,
+  PermissionRuleStorageAPI,
+  PermissionAuditStorageAPI,
+  TrashStorageAPI,
+  SnapshotStorageAPI,
   DatabaseLifecycleAPI,
 } from './storage.js';
 
@@ -0,0 +1,72 @@
+/**
+ * Public API interface for LocalApiServer
+ * Serves task operations and Server-Sent Event streams over localhost HTTP so
+ * external tools can drive the app. Consumers should use the createLocalApiServer
+ * factory function to get an instance.
+ */
+
+import type { LocalApiEvent } from '../common/types/local-api.js';
+import type { PermissionResponse } from '../common/types/permission.js';
+import type { Task, TaskConfig } from '../common/types/task.js';
+import type { StoredTask } from './storage.js';
+
+/** Operations the server exposes; implemented by the host app */
+export interface LocalApiHandlers {
+  /** Start (or queue) a task from a validated config. Throwing answers the request with 500. */
+  startTask(config: TaskConfig): Promise<Task>;
+  /** Cancel a queued or running task */
+  cancelTask(taskId: string): Promise<void>;
+  /** Interrupt a running task, keeping its session so it can be continued */
+  interruptTask(taskId: string): Promise<void>;
+  /** Get task history, newest first */
+  listTasks(): StoredTask[];
+  /** Get a task from history */
+  getTask(taskId: string): StoredTask | null;
+  /** Answer a pending permission or question request */
+  respondToPermission(response: PermissionResponse): Promise<void>;
+}
+
+/** Options for creating a LocalApiServer instance */
+export interface LocalApiServerOptions {
+  /** Port to listen on; 0 picks a free port */
+  port: number;
+  /** Bearer token every request must send */
+  token: string;
+  handlers: LocalApiHandlers;
+  /** Interface to bind (default: 127.0.0.1) */
+  host?: string;
+  /** Interval between SSE keep-alive comments in milliseconds (default: 15000) */
+  keepAliveIntervalMs?: number;
+  /** Largest accepted request body in bytes (default: 1 MiB) */
+  maxBodyBytes?: number;
+}
+
+/** Public API for running the localhost REST server */
+export interface LocalApiServerAPI {
+  /**
+   * Start listening
+   * @throws Error if the port cannot be bound (e.g. it is already in use)
+   */
+  start(): Promise<void>;
+
+  /**
+   * Close all event streams and stop listening
+   */
+  stop(): Promise<void>;
+
+  /**
+   * Whether the server is listening
+   */
+  isRunning(): boolean;
+
+  /**
+   * Port the server is bound to, or null when it is not running
+   */
+  getPort(): number | null;
+
+  /**
+   * Send a task event to every stream subscribed to that task.
+   * Streams are closed after a 'complete' or 'error' event.
+   */
+  publish(event: LocalApiEvent): void;
+}
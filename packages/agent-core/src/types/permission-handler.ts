@@ -3,7 +3,13 @@
  * Handles permission requests and question dialogs for tasks.
  */
 
-import type { PermissionRequest, FileOperation } from '../common/types/permission';
+import type {
+  PermissionRequest,
+  FileOperation,
+  QuestionInputConstraints,
+  QuestionInputType,
+} from '../common/types/permission';
+import type { PermissionRule } from '../common/types/permission-rule';
 
 /** Data for file permission requests */
 export interface FilePermissionRequestData {
@@ -12,6 +18,12 @@ export interface FilePermissionRequestData {
   filePaths?: string[];
   targetPath?: string;
   contentPreview?: string;
+  /** Full content a modify or overwrite would leave in the file, used to show a diff */
+  proposedContent?: string;
+  /** Tool the agent will perform the operation with */
+  toolName?: string;
+  /** Task the request comes from, as set in the tool's ACCOMPLISH_TASK_ID */
+  taskId?: string;
 }
 
 /** Data for question requests */
@@ -20,6 +32,11 @@ export interface QuestionRequestData {
   header?: string;
   options?: Array<{ label: string; description?: string }>;
   multiSelect?: boolean;
+  /** How the question is answered; an option list with custom text when absent */
+  inputType?: QuestionInputType;
+  constraints?: QuestionInputConstraints;
+  /** Task the question comes from, as set in the tool's ACCOMPLISH_TASK_ID */
+  taskId?: string;
 }
 
 /** Response data from a question dialog */
@@ -39,6 +56,8 @@ export interface PermissionValidationResult {
 export interface PermissionHandlerOptions {
   /** Default timeout for permission requests in milliseconds */
   defaultTimeoutMs?: number;
+  /** Saved permission rules, read each time a file permission request arrives */
+  getPermissionRules?: () => PermissionRule[];
 }
 
 /** Public API for permission handling operations */
@@ -63,6 +82,19 @@ export interface PermissionHandlerAPI {
     promise: Promise<QuestionResponseData>;
   };
 
+  /**
+   * Find a saved rule that answers a file permission request
+   * @param taskId - ID of the requesting task
+   * @param data - File permission data
+   * @param workingDirectory - The task's working directory
+   * @returns The deciding rule, or null if the user has to be asked
+   */
+  findPermissionRule(
+    taskId: string,
+    data: FilePermissionRequestData,
+    workingDirectory?: string | null,
+  ): PermissionRule | null;
+
   /**
    * Resolve a pending permission request
    * @param requestId - ID of the request to resolve
@@ -0,0 +1,84 @@
+/**
+ * Public API interface for TaskScheduler
+ * Runs saved task configurations on recurring cron schedules.
+ * Consumers should use the createTaskScheduler factory function to get an instance.
+ */
+
+import type { Task, TaskConfig } from '../common/types/task.js';
+import type { TaskSchedule, CreateScheduleInput } from '../common/types/schedule.js';
+import type { TaskCallbacks, TaskManagerAPI } from './task-manager.js';
+import type { ScheduleStorageAPI, TaskStorageAPI } from './storage.js';
+
+/** Options for creating a TaskScheduler instance */
+export interface TaskSchedulerOptions {
+  /** Storage used to persist schedules and record each run in task history */
+  storage: ScheduleStorageAPI & Pick<TaskStorageAPI, 'saveTask'>;
+  /** Task manager that executes scheduled runs */
+  taskManager: Pick<TaskManagerAPI, 'startTask' | 'hasActiveTask'>;
+  /** Build the lifecycle callbacks for a scheduled run */
+  createCallbacks: (taskId: string, schedule: TaskSchedule) => TaskCallbacks;
+  /**
+   * Called before each due run. Return false to skip it (e.g. no provider is ready);
+   * the schedule still advances to its next run time.
+   */
+  canRun?: (schedule: TaskSchedule) => boolean;
+  /** Adjust the saved config right before a run (e.g. fill in the active model) */
+  prepareConfig?: (config: TaskConfig, schedule: TaskSchedule) => TaskConfig;
+  /** Called after a scheduled run has been started and saved to history */
+  onTaskStarted?: (task: Task, schedule: TaskSchedule) => void;
+  /** How often to check for due schedules in milliseconds (default: 30000) */
+  checkIntervalMs?: number;
+}
+
+/** Public API for managing and running task schedules */
+export interface TaskSchedulerAPI {
+  /**
+   * Start checking for due schedules.
+   * Runs missed while the scheduler was stopped are skipped, not replayed.
+   */
+  start(): void;
+
+  /**
+   * Stop checking for due schedules. Tasks that are already running are not affected.
+   */
+  stop(): void;
+
+  /**
+   * Check if the scheduler is currently active
+   */
+  isRunning(): boolean;
+
+  /**
+   * Get all schedules
+   */
+  listSchedules(): TaskSchedule[];
+
+  /**
+   * Create a new schedule
+   * @param input - Name, cron expression and task configuration
+   * @returns The created schedule with its next run time
+   * @throws Error if the cron expression is invalid
+   */
+  createSchedule(input: CreateScheduleInput): TaskSchedule;
+
+  /**
+   * Pause or resume a schedule
+   * @param id - ID of the schedule
+   * @param enabled - false to pause, true to resume
+   * @returns The updated schedule
+   */
+  setScheduleEnabled(id: string, enabled: boolean): TaskSchedule;
+
+  /**
+   * Delete a schedule. Tasks it already started stay in history.
+   * @param id - ID of the schedule
+   */
+  deleteSchedule(id: string): void;
+
+  /**
+   * Start every enabled schedule whose next run time has passed.
+   * Normally driven by the internal timer; exposed for hosts and tests.
+   * @param now - Reference time (defaults to the current time)
+   */
+  checkDueSchedules(now?: Date): Promise<void>;
+}
@@ -1,4 +1,11 @@
-import type { Task, TaskStatus, TaskMessage } from '../common/types/task.js';
+import type {
+  Task,
+  TaskStatus,
+  TaskMessage,
+  TaskRunConfig,
+  TaskTimeout,
+  TaskTimeoutLimits,
+} from '../common/types/task.js';
 import type { TodoItem } from '../common/types/todo.js';
 import type {
   SelectedModel,
@@ -13,6 +20,28 @@ import type {
   ConnectedProvider,
 } from '../common/types/providerSettings.js';
 import type { McpConnector, ConnectorStatus, OAuthTokens } from '../common/types/connector.js';
+import type { TaskSchedule } from '../common/types/schedule.js';
+import type { WebhookDelivery, WebhookTarget } from '../common/types/webhook.js';
+import type { LocalApiSettings } from '../common/types/local-api.js';
+import type { SandboxSettings } from '../common/types/sandbox.js';
+import type { TrashEntry, TrashSettings } from '../common/types/trash.js';
+import type { SnapshotManifest, TaskSnapshot } from '../common/types/snapshot.js';
+import type { TaskArtifact, TaskArtifactInput } from '../common/types/artifact.js';
+import type { ProjectProfile } from '../common/types/verification.js';
+import type { PermissionRule } from '../common/types/permission-rule.js';
+import type {
+  PermissionAuditEntry,
+  PermissionAuditEntryInput,
+} from '../common/types/permission-audit.js';
+import type {
+  TaskUsageRecord,
+  TaskUsageSummary,
+  UsageAggregate,
+  UsageGroupBy,
+  UsageQuery,
+  UsageTotals,
+} from '../common/types/usage.js';
+import type { StepUsage } from '../utils/task-budget.js';
 
 /** Options for creating a Storage instance */
 export interface StorageOptions {
@@ -39,6 +68,16 @@ export interface StoredTask {
   createdAt: string;
   startedAt?: string;
   completedAt?: string;
+  /** ID of the schedule that started this task, if any */
+  scheduleId?: string;
+  /** ID of the task this one was forked from, if any */
+  parentTaskId?: string;
+  /** ID of the parent's message the fork continues from */
+  forkedFromMessageId?: string;
+  /** Time limit the task was stopped for, if any */
+  timedOut?: TaskTimeout;
+  /** Settings to start the task with again when it is resumed, recovered, or forked */
+  runConfig?: TaskRunConfig;
 }
 
 export type ThemePreference = 'system' | 'light' | 'dark';
@@ -54,28 +93,52 @@ export interface AppSettings {
   lmstudioConfig: LMStudioConfig | null;
   openaiBaseUrl: string;
   theme: ThemePreference;
+  /** App-wide time limits for tasks that don't set their own */
+  taskTimeoutDefaults: TaskTimeoutLimits;
+  /** Localhost REST API server settings */
+  localApi: LocalApiSettings;
+  /** Working-directory sandbox for file operations */
+  sandbox: SandboxSettings;
+  /** Copies kept before approved deletes and overwrites */
+  trash: TrashSettings;
 }
 
 // ---------------------------------------------------------------------------
 // Sub-interfaces for focused, slice-level access
 // ---------------------------------------------------------------------------
 
+/** Outcome of settling tasks that were left running by a quit or crash */
+export interface OrphanedTaskReconciliation {
+  /** Tasks that had started; marked `interrupted` so they can be resumed */
+  interrupted: string[];
+  /** Tasks that never left the queue; marked `cancelled` */
+  cancelled: string[];
+}
+
 /** API for task CRUD operations and todo management */
 export interface TaskStorageAPI {
   /** Get all stored tasks */
   getTasks(): StoredTask[];
   /** Get a task by ID, returns undefined if not found */
   getTask(taskId: string): StoredTask | undefined;
+  /** Get all stored runs of a schedule, newest first */
+  getTasksForSchedule(scheduleId: string): StoredTask[];
   /** Persist a new task or update an existing one */
   saveTask(task: Task): void;
   /** Update a task's status and optional completion timestamp */
   updateTaskStatus(taskId: string, status: TaskStatus, completedAt?: string): void;
+  /** Mark tasks left running or queued by a previous process as interrupted or cancelled */
+  reconcileOrphanedTasks(): OrphanedTaskReconciliation;
   /** Append a message to a task's message history */
   addTaskMessage(taskId: string, message: TaskMessage): void;
   /** Update the CLI session ID for a task */
   updateTaskSessionId(taskId: string, sessionId: string): void;
   /** Set the AI-generated summary for a task */
   updateTaskSummary(taskId: string, summary: string): void;
+  /** Record the time limit a task was stopped for */
+  updateTaskTimedOut(taskId: string, timeout: TaskTimeout): void;
+  /** Replace the settings a task is started with again when it is resumed or recovered */
+  updateTaskRunConfig(taskId: string, runConfig: TaskRunConfig): void;
   /** Delete a task and its associated data */
   deleteTask(taskId: string): void;
   /** Delete all task history */
@@ -126,6 +189,22 @@ export interface AppSettingsAPI {
   getTheme(): ThemePreference;
   /** Set the theme preference */
   setTheme(theme: ThemePreference): void;
+  /** Get the default time limits applied to tasks */
+  getTaskTimeoutDefaults(): TaskTimeoutLimits;
+  /** Set the default time limits; an unset or 0 limit means none */
+  setTaskTimeoutDefaults(limits: TaskTimeoutLimits): void;
+  /** Get the localhost REST API settings; the token is empty until one is generated */
+  getLocalApiSettings(): LocalApiSettings;
+  /** Set the localhost REST API settings */
+  setLocalApiSettings(settings: LocalApiSettings): void;
+  /** Get the working-directory sandbox settings for file operations */
+  getSandboxSettings(): SandboxSettings;
+  /** Set the working-directory sandbox settings */
+  setSandboxSettings(settings: SandboxSettings): void;
+  /** Get the trash settings for approved deletes and overwrites */
+  getTrashSettings(): TrashSettings;
+  /** Set the trash settings; retention must be 1-365 days */
+  setTrashSettings(settings: TrashSettings): void;
   /** Get all application settings as a snapshot */
   getAppSettings(): AppSettings;
   /** Reset all application settings to defaults */
@@ -160,6 +239,12 @@ export interface ProviderSettingsAPI {
     model: string;
     baseUrl?: string;
   } | null;
+  /** Get a connected provider's selected model and optional base URL */
+  getProviderModel(providerId: ProviderId): {
+    provider: ProviderId;
+    model: string;
+    baseUrl?: string;
+  } | null;
   /** Check if any provider is configured and ready */
   hasReadyProvider(): boolean;
   /** Get IDs of all connected providers */
@@ -214,6 +299,128 @@ export interface ConnectorStorageAPI {
   deleteConnectorTokens(connectorId: string): void;
 }
 
+/** API for recurring task schedules */
+export interface ScheduleStorageAPI {
+  /** Get all schedules */
+  getAllSchedules(): TaskSchedule[];
+  /** Get only enabled schedules */
+  getEnabledSchedules(): TaskSchedule[];
+  /** Get a schedule by ID */
+  getScheduleById(id: string): TaskSchedule | null;
+  /** Create or update a schedule */
+  upsertSchedule(schedule: TaskSchedule): void;
+  /** Record that a schedule started a task and store its next run time */
+  recordScheduleRun(id: string, taskId: string, runAt: string, nextRunAt: string | null): void;
+  /** Delete a schedule (tasks it started are kept in history) */
+  deleteSchedule(id: string): void;
+  /** Delete all schedules */
+  clearAllSchedules(): void;
+}
+
+/** API for webhook targets and their delivery log */
+export interface WebhookStorageAPI {
+  /** Get all webhook targets */
+  getAllWebhookTargets(): WebhookTarget[];
+  /** Get a webhook target by ID */
+  getWebhookTargetById(id: string): WebhookTarget | null;
+  /** Create or update a webhook target */
+  upsertWebhookTarget(target: WebhookTarget): void;
+  /** Delete a webhook target and its deliveries */
+  deleteWebhookTarget(id: string): void;
+  /** Delete all webhook targets */
+  clearAllWebhookTargets(): void;
+  /** Get the most recent deliveries, newest first */
+  getWebhookDeliveries(limit: number): WebhookDelivery[];
+  /** Create or update a delivery log entry */
+  upsertWebhookDelivery(delivery: WebhookDelivery): void;
+  /** Delete all but the most recent `keep` deliveries */
+  pruneWebhookDeliveries(keep: number): void;
+}
+
+/** API for per-step token usage and cost records */
+export interface UsageStorageAPI {
+  /** Record the usage reported by one model step of a task */
+  recordTaskUsage(taskId: string, step: StepUsage, recordedAt?: string): void;
+  /** Get the step records of a task, oldest first */
+  getUsageForTask(taskId: string): TaskUsageRecord[];
+  /** Sum all usage in the given time range */
+  getUsageTotals(query?: UsageQuery): UsageTotals;
+  /** Sum usage per day, provider or model */
+  getUsageBreakdown(groupBy: UsageGroupBy, query?: UsageQuery): UsageAggregate[];
+  /** Sum usage per task, most recently active first */
+  getUsageByTask(query?: UsageQuery, limit?: number): TaskUsageSummary[];
+  /** Delete all usage records */
+  clearTaskUsage(): void;
+}
+
+/** API for the files tasks touched through approved file permission requests */
+export interface ArtifactStorageAPI {
+  /** Record files a task touched; deleted along with the task */
+  recordTaskArtifacts(taskId: string, artifacts: TaskArtifactInput[], recordedAt?: string): void;
+  /** Get the files a task touched, oldest first */
+  getArtifactsForTask(taskId: string): TaskArtifact[];
+}
+
+/** API for saved project profiles and their verification checks */
+export interface ProjectProfileStorageAPI {
+  /** Get all project profiles, sorted by name */
+  getAllProjectProfiles(): ProjectProfile[];
+  /** Get a project profile by ID */
+  getProjectProfileById(id: string): ProjectProfile | null;
+  /** Get the profile whose working directory is the closest ancestor of a directory */
+  getProjectProfileForDirectory(directory: string): ProjectProfile | null;
+  /** Create or update a project profile */
+  upsertProjectProfile(profile: ProjectProfile): void;
+  /** Delete a project profile */
+  deleteProjectProfile(id: string): void;
+}
+
+/** API for remembered permission decisions */
+export interface PermissionRuleStorageAPI {
+  /** Get all permission rules, newest first */
+  getAllPermissionRules(): PermissionRule[];
+  /** Save a new permission rule */
+  insertPermissionRule(rule: PermissionRule): void;
+  /** Delete a permission rule */
+  deletePermissionRule(id: string): void;
+}
+
+/** API for the record of every permission request and how it was answered */
+export interface PermissionAuditStorageAPI {
+  /** Record how a permission or question request was answered */
+  recordPermissionAudit(entry: PermissionAuditEntryInput): void;
+  /** Get audit entries for one task, or for all tasks when no ID is given, newest first */
+  getPermissionAudit(taskId?: string, limit?: number): PermissionAuditEntry[];
+}
+
+/** API for copies of files kept before approved deletes and overwrites */
+export interface TrashStorageAPI {
+  /** Record a copy that was put in the trash */
+  insertTrashEntry(entry: TrashEntry): void;
+  /** Get trash entries for one task, or for all tasks when no ID is given, newest first */
+  getTrashEntries(taskId?: string): TrashEntry[];
+  /** Get a trash entry by ID */
+  getTrashEntry(id: string): TrashEntry | null;
+  /** Get trash entries created before the given ISO time */
+  getTrashEntriesBefore(cutoff: string): TrashEntry[];
+  /** Delete a trash entry's record */
+  deleteTrashEntry(id: string): void;
+}
+
+/** API for snapshots of task working directories */
+export interface SnapshotStorageAPI {
+  /** Record a snapshot and its file manifest */
+  insertTaskSnapshot(snapshot: TaskSnapshot, manifest: SnapshotManifest): void;
+  /** Get a task's snapshots, oldest first */
+  getTaskSnapshots(taskId: string): TaskSnapshot[];
+  /** Get a snapshot by ID */
+  getTaskSnapshot(id: string): TaskSnapshot | null;
+  /** Get the file manifest of a snapshot */
+  getTaskSnapshotManifest(id: string): SnapshotManifest | null;
+  /** Get every content hash still referenced by a snapshot */
+  getReferencedSnapshotHashes(): Set<string>;
+}
+
 /** API for database initialization and lifecycle management */
 export interface DatabaseLifecycleAPI {
   /** Initialize the database, creating it if needed and running migrations */
@@ -226,7 +433,7 @@ export interface DatabaseLifecycleAPI {
   getDatabasePath(): string | null;
 }
 
-/** Unified storage API combining task, settings, provider, secure storage, connector, and database lifecycle operations */
+/** Unified storage API combining task, settings, provider, secure storage, connector, schedule, webhook, usage, artifact, project profile, permission rule, permission audit, trash, snapshot, and database lifecycle operations */
 export interface StorageAPI
   extends
     TaskStorageAPI,
@@ -234,6 +441,15 @@ export interface StorageAPI
     ProviderSettingsAPI,
     SecureStorageAPI,
     ConnectorStorageAPI,
+    ScheduleStorageAPI,
+    WebhookStorageAPI,
+    UsageStorageAPI,
+    ArtifactStorageAPI,
+    ProjectProfileStorageAPI,
+    PermissionRuleStorageAPI,
+    PermissionAuditStorageAPI,
+    TrashStorageAPI,
+    SnapshotStorageAPI,
     DatabaseLifecycleAPI {}
 
 export type {
@@ -252,4 +468,19 @@ export type {
   McpConnector,
   ConnectorStatus,
   OAuthTokens,
+  TaskSchedule,
+  WebhookTarget,
+  WebhookDelivery,
+  TaskUsageRecord,
+  TaskUsageSummary,
+  UsageAggregate,
+  UsageGroupBy,
+  UsageQuery,
+  UsageTotals,
+  TaskArtifact,
+  ProjectProfile,
+  PermissionRule,
+  PermissionAuditEntry,
+  TrashEntry,
+  TaskSnapshot,
 };
@@ -5,10 +5,23 @@
  */
 
 // Import DTOs from common types
-import type { Task, TaskConfig, TaskStatus, TaskMessage, TaskResult } from '../common/types/task';
+import type {
+  Task,
+  TaskConfig,
+  TaskStatus,
+  TaskMessage,
+  TaskResult,
+  TaskBudgetLimitStatus,
+  TaskUsage,
+  QueuedTaskInfo,
+  TaskTimeoutLimits,
+} from '../common/types/task';
 import type { PermissionRequest } from '../common/types/permission';
 import type { TodoItem } from '../common/types/todo';
+import type { VerificationCheck } from '../common/types/verification';
+import type { StuckFallbackModel, StuckPolicy } from '../common/types/thought-stream';
 import type { OpenCodeMessage } from '../common/types/opencode';
+import type { OpenCodeRecording, ReplayOptions } from '../opencode/recording';
 
 /** Progress event emitted during task execution */
 export interface TaskProgressEvent {
@@ -48,6 +61,8 @@ export interface TaskCallbacks {
   onTodoUpdate?: (todos: TodoItem[]) => void;
   /** Called when an auth error occurs */
   onAuthError?: (error: { providerId: string; message: string }) => void;
+  /** Called when the task moves to a fallback model, which it keeps for the rest of its run */
+  onModelSwitch?: (model: StuckFallbackModel) => void;
   /** Called when the agent emits reasoning text */
   onReasoning?: (text: string) => void;
   /** Called when a tool is about to be used (before execution) */
@@ -71,6 +86,20 @@ export interface TaskCallbacks {
     };
     cost?: number;
   }) => void;
+  /**
+   * Called after every step with the usage accumulated so far and, when the
+   * task has a budget, how far it is into each limit (most consumed first).
+   */
+  onUsageUpdate?: (usage: TaskUsage, budget: TaskBudgetLimitStatus[]) => void;
+  /** Called once per limit when usage reaches the budget's warning threshold */
+  onBudgetWarning?: (status: TaskBudgetLimitStatus, usage: TaskUsage) => void;
+  /**
+   * Supplies the callbacks for a sub-task this task fans out to from its
+   * start_task plan. Without it the task carries out those steps itself.
+   */
+  createSubtaskCallbacks?: (subtaskId: string) => TaskCallbacks;
+  /** Called when a sub-task has started or been queued, with its step as the summary */
+  onSubtaskStarted?: (subtask: Task) => void;
 }
 
 /** Adapter options for the underlying CLI adapter */
@@ -84,13 +113,15 @@ export interface TaskAdapterOptions {
   /** Function to get the CLI command and arguments */
   getCliCommand: () => { command: string; args: string[] };
   /** Function to build environment variables for a task */
-  buildEnvironment: (taskId: string) => Promise<NodeJS.ProcessEnv>;
+  buildEnvironment: (taskId: string, config?: TaskConfig) => Promise<NodeJS.ProcessEnv>;
   /** Function to build CLI arguments for a task */
   buildCliArgs: (config: TaskConfig, taskId: string) => Promise<string[]>;
   /** Called before the CLI starts */
-  onBeforeStart?: () => Promise<void>;
+  onBeforeStart?: (config?: TaskConfig) => Promise<void>;
   /** Function to get display name for a model ID */
   getModelDisplayName?: (modelId: string) => string;
+  /** File to record a task's raw CLI messages to, with timing, or undefined to not record */
+  getRecordingPath?: (taskId: string) => string | undefined;
 }
 
 /** Options for creating a TaskManager instance */
@@ -105,6 +136,14 @@ export interface TaskManagerOptions {
   isCliAvailable: () => Promise<boolean>;
   /** Called before a task starts */
   onBeforeTaskStart?: (callbacks: TaskCallbacks, isFirstTask: boolean) => Promise<void>;
+  /** Time limits for tasks whose config does not set its own */
+  getDefaultTimeouts?: () => TaskTimeoutLimits;
+  /** Recording to play back instead of running the CLI, for replaying a task offline */
+  getReplayRecording?: (taskId: string) => OpenCodeRecording | undefined;
+  /** Playback options for replayed tasks */
+  replayOptions?: ReplayOptions;
+  /** Verification checks saved for a working directory, used when a task declares none */
+  getProjectVerifications?: (workingDirectory: string) => VerificationCheck[] | undefined;
 }
 
 /** Public API for task management operations */
@@ -130,6 +169,28 @@ export interface TaskManagerAPI {
    */
   interruptTask(taskId: string): Promise<void>;
 
+  /**
+   * Get the stuck policy an active task was started with
+   * @param taskId - ID of the task
+   * @returns The policy, or undefined if the task has none or is not active
+   */
+  getStuckPolicy(taskId: string): StuckPolicy | undefined;
+
+  /**
+   * Move a running task to another model and resume it with a prompt
+   * @param taskId - ID of the task
+   * @param fallbackModel - Provider and model to continue on
+   * @param prompt - Message the resumed session starts with
+   */
+  switchTaskModel(taskId: string, fallbackModel: StuckFallbackModel, prompt: string): Promise<void>;
+
+  /**
+   * Interrupt a task the stuck policy gave up on; its result carries the reason
+   * @param taskId - ID of the task
+   * @param reason - Error message for the interrupted result
+   */
+  abortStuckTask(taskId: string, reason: string): Promise<void>;
+
   /**
    * Cancel a task that is queued but not yet running
    * @param taskId - ID of the queued task
@@ -137,6 +198,19 @@ export interface TaskManagerAPI {
    */
   cancelQueuedTask(taskId: string): boolean;
 
+  /**
+   * Move a queued task to a new position in the queue
+   * @param taskId - ID of the queued task
+   * @param toIndex - Target position, clamped to the queue bounds (0 starts next)
+   * @returns true if task was found and moved
+   */
+  reorderQueuedTask(taskId: string, toIndex: number): boolean;
+
+  /**
+   * Get the queued tasks in the order they will start
+   */
+  getQueuedTasks(): QueuedTaskInfo[];
+
   /**
    * Send a response to a waiting task (e.g., permission response)
    * @param taskId - ID of the task
@@ -144,6 +218,20 @@ export interface TaskManagerAPI {
    */
   sendResponse(taskId: string, response: string): Promise<void>;
 
+  /**
+   * Get the usage accumulated by an active task
+   * @param taskId - ID of the task
+   * @returns Usage totals or null if the task is not active
+   */
+  getTaskUsage(taskId: string): TaskUsage | null;
+
+  /**
+   * Get the directory an active task runs in
+   * @param taskId - ID of the task
+   * @returns Working directory or null if the task is not active
+   */
+  getWorkingDirectory(taskId: string): string | null;
+
   /**
    * Get the session ID for a task
    * @param taskId - ID of the task
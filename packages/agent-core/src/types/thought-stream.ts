@@ -3,6 +3,8 @@
  * Handles validation and tracking of thought stream events from MCP tools.
  */
 
+import type { StuckEscalation, StuckPolicy } from '../common/types/thought-stream.js';
+
 /** Category of a thought event */
 export type ThoughtCategory = 'observation' | 'reasoning' | 'decision' | 'action';
 
@@ -90,4 +92,14 @@ export interface ThoughtStreamAPI {
    * @returns Validated CheckpointEvent or null if invalid
    */
   validateCheckpointEvent(data: unknown): CheckpointEvent | null;
+
+  /**
+   * Apply a task's stuck policy to a checkpoint. Stuck reports are counted per
+   * registered task; once the count reaches `abortAfter` the task is aborted,
+   * otherwise the policy's action is returned (a model switch only once).
+   * @param event - Validated checkpoint event
+   * @param policy - Stuck policy of the checkpoint's task, if any
+   * @returns The escalation to carry out, or null when nothing should happen
+   */
+  evaluateCheckpoint(event: CheckpointEvent, policy?: StuckPolicy): StuckEscalation | null;
 }
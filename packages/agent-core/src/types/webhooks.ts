@@ -0,0 +1,79 @@
+/**
+ * Public API interface for WebhookDispatcher
+ * Sends signed task lifecycle events to the configured webhook targets.
+ * Consumers should use the createWebhookDispatcher factory function to get an instance.
+ */
+
+import type {
+  CreateWebhookTargetInput,
+  UpdateWebhookTargetInput,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookTarget,
+  WebhookTaskSummary,
+} from '../common/types/webhook.js';
+import type { WebhookStorageAPI } from './storage.js';
+
+/** Options for creating a WebhookDispatcher instance */
+export interface WebhookDispatcherOptions {
+  /** Storage used to persist targets and the delivery log */
+  storage: WebhookStorageAPI;
+  /**
+   * Describe the task an event is about. Called right before the first attempt,
+   * so a task saved just after it started is already found.
+   */
+  describeTask?: (taskId: string) => WebhookTaskSummary | undefined;
+  /** Attempts per delivery, including the first (default: 5) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds; doubles on every retry (default: 2000) */
+  initialBackoffMs?: number;
+  /** Time to wait for a target to respond in milliseconds (default: 10000) */
+  requestTimeoutMs?: number;
+  /** Number of deliveries kept in the log (default: 200) */
+  maxLogEntries?: number;
+}
+
+/** Public API for managing webhook targets and sending events */
+export interface WebhookDispatcherAPI {
+  /**
+   * Get all webhook targets
+   */
+  listTargets(): WebhookTarget[];
+
+  /**
+   * Create a webhook target with a newly generated signing secret
+   * @throws Error if the URL is not http(s) or no events are selected
+   */
+  createTarget(input: CreateWebhookTargetInput): WebhookTarget;
+
+  /**
+   * Update a webhook target's name, URL, events or enabled state
+   * @throws Error if the target does not exist or the update is invalid
+   */
+  updateTarget(id: string, input: UpdateWebhookTargetInput): WebhookTarget;
+
+  /**
+   * Delete a webhook target along with its deliveries and pending retries
+   */
+  deleteTarget(id: string): void;
+
+  /**
+   * Get the most recent deliveries, newest first
+   * @param limit - Maximum number of deliveries (defaults to the log size)
+   */
+  listDeliveries(limit?: number): WebhookDelivery[];
+
+  /**
+   * Queue an event for every enabled target subscribed to it.
+   * Returns immediately; sending and retries happen in the background.
+   * @param event - Lifecycle event
+   * @param taskId - Task the event is about
+   * @param data - Event-specific details included in the payload
+   */
+  dispatch(event: WebhookEvent, taskId: string, data?: Record<string, unknown>): void;
+
+  /**
+   * Cancel pending retries. Deliveries still waiting are left as pending in the log.
+   */
+  dispose(): void;
+}
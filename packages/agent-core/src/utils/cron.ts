@@ -0,0 +1,230 @@
+/**
+ * Minimal 5-field cron expression support for task schedules.
+ *
+ * Fields: minute hour day-of-month month day-of-week, evaluated in local time.
+ * Each field accepts `*`, single values, ranges (`1-5`), steps (`*\/15`, `0-30/10`)
+ * and comma-separated lists. Month and day-of-week also accept three-letter
+ * names (JAN, MON). Like classic cron, when both day-of-month and day-of-week
+ * are restricted a date matches if either of them matches.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELD_SPECS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+  },
+  // 7 is accepted as an alias for Sunday and folded into 0 after parsing
+  {
+    name: 'day-of-week',
+    min: 0,
+    max: 7,
+    names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'],
+  },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+/** How far ahead getNextCronRun searches before giving up on an expression */
+const MAX_LOOKAHEAD_YEARS = 5;
+
+function parseValue(raw: string, spec: FieldSpec, expression: string): number {
+  const upper = raw.toUpperCase();
+  const nameIndex = spec.names?.indexOf(upper) ?? -1;
+  if (nameIndex >= 0) {
+    return spec.name === 'month' ? nameIndex + 1 : nameIndex;
+  }
+
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(`Invalid cron expression "${expression}": bad ${spec.name} value "${raw}"`);
+  }
+
+  const value = Number(raw);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(
+      `Invalid cron expression "${expression}": ${spec.name} value ${value} is out of range ${spec.min}-${spec.max}`,
+    );
+  }
+  return value;
+}
+
+function parseField(field: string, spec: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    if (!part) {
+      throw new Error(`Invalid cron expression "${expression}": empty ${spec.name} list entry`);
+    }
+
+    const [rangePart, stepPart, ...rest] = part.split('/');
+    if (rest.length > 0) {
+      throw new Error(`Invalid cron expression "${expression}": bad ${spec.name} step "${part}"`);
+    }
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || Number(stepPart) === 0) {
+        throw new Error(`Invalid cron expression "${expression}": bad ${spec.name} step "${part}"`);
+      }
+      step = Number(stepPart);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, spec, expression);
+      end = parseValue(to, spec, expression);
+      if (start > end) {
+        throw new Error(
+          `Invalid cron expression "${expression}": ${spec.name} range "${rangePart}" is reversed`,
+        );
+      }
+    } else {
+      start = parseValue(rangePart, spec, expression);
+      // "5/15" means "every 15 starting at 5"
+      end = stepPart !== undefined ? spec.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression into the set of matching values for each field.
+ * Throws an Error describing the first problem if the expression is invalid.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const normalized = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = normalized.split(/\s+/);
+
+  if (fields.length !== FIELD_SPECS.length) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`,
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELD_SPECS[index], expression),
+  );
+
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !fields[2].startsWith('*'),
+    dayOfWeekRestricted: !fields[4].startsWith('*'),
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  if (schedule.dayOfMonthRestricted) {
+    return domMatch;
+  }
+  if (schedule.dayOfWeekRestricted) {
+    return dowMatch;
+  }
+  return true;
+}
+
+/**
+ * Get the first time strictly after `after` that matches the expression.
+ * Returns null if the expression can never match (e.g. "0 0 31 2 *").
+ */
+export function getNextCronRun(expression: string | CronSchedule, after: Date): Date | null {
+  const schedule = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  const limit = new Date(after.getTime());
+  limit.setFullYear(limit.getFullYear() + MAX_LOOKAHEAD_YEARS);
+
+  while (candidate <= limit) {
+    if (!schedule.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(schedule, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return candidate;
+  }
+
+  return null;
+}
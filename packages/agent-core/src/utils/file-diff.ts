@@ -0,0 +1,269 @@
+import fs from 'fs';
+import path from 'path';
+import type { FileDiff, FileDiffHunk, FileDiffLine } from '../common/types/file-diff.js';
+
+const DEFAULT_CONTEXT_LINES = 3;
+const DEFAULT_MAX_LINES = 2000;
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+// Beyond this many changed lines the diff falls back to replacing the changed
+// middle wholesale; the edit-graph trace grows with its square
+const MAX_EDIT_DISTANCE = 1000;
+
+export interface FileDiffOptions {
+  /** Unchanged lines kept around each change (default 3) */
+  contextLines?: number;
+  /** Lines kept across all hunks before the diff is truncated (default 2000) */
+  maxLines?: number;
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Shortest edit script between two line arrays (Myers' algorithm), or null
+ * when more than MAX_EDIT_DISTANCE lines differ.
+ */
+function myersDiff(a: string[], b: string[]): Array<'context' | 'add' | 'remove'> | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(trace, n, m);
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): Array<'context' | 'add' | 'remove'> {
+  const ops: Array<'context' | 'add' | 'remove'> = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    // trace[d - 1] holds diagonals -(d - 1)..(d - 1)
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      ops.push('context');
+      x--;
+      y--;
+    }
+    ops.push(previousK === k + 1 ? 'add' : 'remove');
+    x = previousX;
+    y = previousY;
+  }
+  while (x > 0 && y > 0) {
+    ops.push('context');
+    x--;
+    y--;
+  }
+  return ops.reverse();
+}
+
+function diffLines(a: string[], b: string[]): FileDiffLine[] {
+  // Common prefix and suffix are matched up front to keep the edit graph small
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const middleOps = myersDiff(oldMiddle, newMiddle) ?? [
+    ...oldMiddle.map(() => 'remove' as const),
+    ...newMiddle.map(() => 'add' as const),
+  ];
+  const ops = [
+    ...Array<'context'>(prefix).fill('context'),
+    ...middleOps,
+    ...Array<'context'>(suffix).fill('context'),
+  ];
+
+  const lines: FileDiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const op of ops) {
+    if (op === 'context') {
+      lines.push({ type: op, content: a[oldIndex], oldLine: ++oldIndex, newLine: ++newIndex });
+    } else if (op === 'remove') {
+      lines.push({ type: op, content: a[oldIndex], oldLine: ++oldIndex });
+    } else {
+      lines.push({ type: op, content: b[newIndex], newLine: ++newIndex });
+    }
+  }
+  return lines;
+}
+
+function toHunk(lines: FileDiffLine[], oldBefore: number, newBefore: number): FileDiffHunk {
+  const oldLines = lines.filter((line) => line.type !== 'add').length;
+  const newLines = lines.filter((line) => line.type !== 'remove').length;
+  // As in `diff -u`, an empty side points at the line before the change
+  return {
+    oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+    oldLines,
+    newStart: newLines > 0 ? newBefore + 1 : newBefore,
+    newLines,
+    lines,
+  };
+}
+
+/**
+ * Compute a unified diff between a file's current content and the content an
+ * agent proposes to write. Pass null as the old content for a file that does
+ * not exist yet.
+ */
+export function computeFileDiff(
+  oldContent: string | null,
+  newContent: string,
+  options: FileDiffOptions = {},
+): FileDiff {
+  const contextLines = options.contextLines ?? DEFAULT_CONTEXT_LINES;
+  const maxLines = options.maxLines ?? DEFAULT_MAX_LINES;
+  const oldLines = splitLines(oldContent ?? '');
+  const lines = diffLines(oldLines, splitLines(newContent));
+
+  const hunks: FileDiffHunk[] = [];
+  let budget = maxLines;
+  let truncated = false;
+  let index = 0;
+  // Old and new lines before `counted`, for the hunk headers
+  let counted = 0;
+  let oldBefore = 0;
+  let newBefore = 0;
+
+  while (index < lines.length) {
+    let firstChange = index;
+    while (firstChange < lines.length && lines[firstChange].type === 'context') {
+      firstChange++;
+    }
+    if (firstChange === lines.length) {
+      break;
+    }
+
+    // Extend the hunk while the next change is close enough that the context would overlap
+    let end = firstChange;
+    let lastChange = firstChange;
+    while (end < lines.length) {
+      if (lines[end].type !== 'context') {
+        lastChange = end;
+      } else if (end - lastChange > contextLines * 2) {
+        break;
+      }
+      end++;
+    }
+
+    const start = Math.max(index, firstChange - contextLines);
+    const stop = Math.min(lines.length, lastChange + contextLines + 1);
+    let hunkLines = lines.slice(start, stop);
+    if (hunkLines.length > budget) {
+      hunkLines = hunkLines.slice(0, budget);
+      truncated = true;
+    }
+
+    for (; counted < start; counted++) {
+      oldBefore += lines[counted].type !== 'add' ? 1 : 0;
+      newBefore += lines[counted].type !== 'remove' ? 1 : 0;
+    }
+    if (hunkLines.length > 0) {
+      hunks.push(toHunk(hunkLines, oldBefore, newBefore));
+      budget -= hunkLines.length;
+    }
+    if (truncated || budget === 0) {
+      truncated = truncated || lines.slice(stop).some((line) => line.type !== 'context');
+      break;
+    }
+    index = stop;
+  }
+
+  return {
+    hunks,
+    additions: lines.filter((line) => line.type === 'add').length,
+    deletions: lines.filter((line) => line.type === 'remove').length,
+    oldLineCount: oldLines.length,
+    ...(oldContent === null && { isNewFile: true }),
+    ...(truncated && { truncated: true }),
+  };
+}
+
+export interface ReadFileDiffOptions extends FileDiffOptions {
+  /** Folder relative paths are taken from, normally the task's working directory */
+  baseDir?: string;
+}
+
+/**
+ * Diff the file on disk against proposed content. Returns null when either
+ * side is too large or looks binary, or when a relative path has no base
+ * folder, so callers fall back to the plain preview.
+ */
+export function readFileDiff(
+  filePath: string,
+  proposedContent: string,
+  options: ReadFileDiffOptions = {},
+): FileDiff | null {
+  if (Buffer.byteLength(proposedContent) > MAX_FILE_BYTES || proposedContent.includes('\0')) {
+    return null;
+  }
+  if (!path.isAbsolute(filePath) && !options.baseDir) {
+    return null;
+  }
+  const resolvedPath = path.resolve(options.baseDir ?? '', filePath);
+
+  let current: string | null = null;
+  try {
+    const stats = fs.statSync(resolvedPath);
+    if (!stats.isFile() || stats.size > MAX_FILE_BYTES) {
+      return null;
+    }
+    current = fs.readFileSync(resolvedPath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      return null;
+    }
+  }
+  if (current?.includes('\0')) {
+    return null;
+  }
+
+  return computeFileDiff(current, proposedContent, options);
+}
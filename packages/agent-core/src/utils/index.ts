@@ -42,4 +42,92 @@ export { mapResultToStatus } from './task-status.js';
 
 export { validateTaskConfig } from './task-validation.js';
 
+export {
+  DEFAULT_BUDGET_WARNING_THRESHOLD,
+  createEmptyTaskUsage,
+  addStepUsage,
+  getTaskBudgetStatus,
+  isTaskBudgetEmpty,
+  getBudgetWarningThreshold,
+  formatBudgetExceeded,
+} from './task-budget.js';
+export type { StepUsage } from './task-budget.js';
+
+export { planTaskFork, formatForkTranscript } from './task-fork.js';
+export type { TaskForkPlan } from './task-fork.js';
+
+export { planTaskRecovery, buildRecoveryPrompt, getTaskRunConfig } from './task-recovery.js';
+export type { TaskRecoveryPlan } from './task-recovery.js';
+
+export {
+  buildSubtaskPrompt,
+  buildSubtaskResultsPrompt,
+  buildSubtasksUnavailablePrompt,
+} from './task-subtasks.js';
+
+export {
+  resolveTaskTimeoutLimits,
+  hasTaskTimeoutLimits,
+  getExceededTimeout,
+  formatTaskTimeout,
+} from './task-timeout.js';
+export type { TaskActivity } from './task-timeout.js';
+
 export { serializeError } from './error.js';
+
+export {
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from './webhook-signature.js';
+
+export { generateLocalApiToken, verifyBearerToken } from './local-api-token.js';
+
+export { getFilePermissionArtifacts } from './task-artifacts.js';
+
+export {
+  resolveSandboxPath,
+  isPathWithinRoot,
+  findSandboxViolations,
+  formatSandboxRejection,
+} from './sandbox.js';
+
+export {
+  matchesPathGlob,
+  findMatchingPermissionRule,
+  validatePermissionRuleInput,
+} from './permission-rules.js';
+export type { PermissionRuleContext } from './permission-rules.js';
+
+export { formatPermissionAudit, formatPermissionAuditCsv } from './permission-audit.js';
+
+export { computeFileDiff, readFileDiff } from './file-diff.js';
+
+export {
+  TRASH_MAX_ITEM_BYTES,
+  getTrashItemPath,
+  copyToTrash,
+  restoreFromTrash,
+  removeFromTrash,
+} from './trash.js';
+
+export {
+  SNAPSHOT_IGNORED_DIRECTORIES,
+  createSnapshot,
+  diffSnapshot,
+  rollbackToSnapshot,
+  pruneSnapshotObjects,
+} from './snapshot.js';
+export type { SnapshotOptions } from './snapshot.js';
+export type { FileDiffOptions, ReadFileDiffOptions } from './file-diff.js';
+
+export { validateStuckPolicy, getStuckModelSwitchPrompt } from './stuck-policy.js';
+
+export {
+  describeVerificationCheck,
+  runVerificationChecks,
+  validateVerificationChecks,
+} from './verification.js';
+
+export { parseCronExpression, isValidCronExpression, getNextCronRun } from './cron.js';
+export type { CronSchedule } from './cron.js';
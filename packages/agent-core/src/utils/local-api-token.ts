@@ -0,0 +1,21 @@
+import crypto from 'crypto';
+
+const BEARER_PREFIX = 'Bearer ';
+
+/** Generate a random bearer token for the localhost REST API */
+export function generateLocalApiToken(): string {
+  return `acc_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Check an Authorization header against the expected token in constant time.
+ * An empty expected token never matches.
+ */
+export function verifyBearerToken(header: string | undefined, token: string): boolean {
+  if (!token || !header?.startsWith(BEARER_PREFIX)) {
+    return false;
+  }
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(header.slice(BEARER_PREFIX.length).trim());
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,55 @@
+import type {
+  PermissionAuditEntry,
+  PermissionAuditExportFormat,
+} from '../common/types/permission-audit.js';
+
+const CSV_COLUMNS: Array<keyof PermissionAuditEntry> = [
+  'id',
+  'requestedAt',
+  'respondedAt',
+  'taskId',
+  'requestId',
+  'requestType',
+  'fileOperation',
+  'filePaths',
+  'approvedPaths',
+  'toolName',
+  'question',
+  'outcome',
+  'decidedBy',
+  'ruleId',
+  'selectedOptions',
+  'customText',
+];
+
+function toCsvField(value: PermissionAuditEntry[keyof PermissionAuditEntry]): string {
+  if (value === undefined) {
+    return '';
+  }
+  // Several paths or options share one cell, one per line
+  let text = Array.isArray(value) ? value.join('\n') : String(value);
+  // Paths and answers come from the agent or user; spreadsheets run cells like `=...` as formulas
+  if (typeof value !== 'number' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Render audit entries as CSV with a header row */
+export function formatPermissionAuditCsv(entries: PermissionAuditEntry[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const entry of entries) {
+    lines.push(CSV_COLUMNS.map((column) => toCsvField(entry[column])).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+/** Render audit entries in the given export format */
+export function formatPermissionAudit(
+  entries: PermissionAuditEntry[],
+  format: PermissionAuditExportFormat,
+): string {
+  return format === 'csv'
+    ? formatPermissionAuditCsv(entries)
+    : `${JSON.stringify(entries, null, 2)}\n`;
+}
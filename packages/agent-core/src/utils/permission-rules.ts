@@ -0,0 +1,164 @@
+import path from 'path';
+import { FILE_OPERATIONS } from '../common/types/permission.js';
+import type { FileOperation, PermissionRequest } from '../common/types/permission.js';
+import type {
+  PermissionRule,
+  PermissionRuleInput,
+  PermissionRuleScope,
+} from '../common/types/permission-rule.js';
+import { isPathWithinRoot } from './sandbox.js';
+import { sanitizeString } from './sanitize.js';
+
+const CASE_INSENSITIVE = process.platform === 'win32';
+const SCOPES: PermissionRuleScope[] = ['global', 'project', 'task'];
+
+/** The task a permission request belongs to, used to pick the rules in scope */
+export interface PermissionRuleContext {
+  taskId: string;
+  workingDirectory?: string | null;
+}
+
+function toSlashes(filePath: string): string {
+  return filePath.replace(/\\/g, '/');
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `dir/**/file` also matches `dir/file`
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, CASE_INSENSITIVE ? 'i' : '');
+}
+
+/**
+ * Whether a path matches a rule's glob. Relative paths and globs are taken
+ * relative to `baseDir`.
+ */
+export function matchesPathGlob(filePath: string, glob: string, baseDir?: string | null): boolean {
+  const base = baseDir ?? process.cwd();
+  const absolutePath = toSlashes(path.resolve(base, filePath));
+  const absoluteGlob = path.isAbsolute(glob) ? glob : `${toSlashes(base)}/${glob}`;
+  return globToRegExp(toSlashes(absoluteGlob)).test(absolutePath);
+}
+
+function isRuleInScope(rule: PermissionRule, context: PermissionRuleContext): boolean {
+  switch (rule.scope) {
+    case 'global':
+      return true;
+    case 'task':
+      return rule.taskId === context.taskId;
+    case 'project':
+      return (
+        !!rule.workingDirectory &&
+        !!context.workingDirectory &&
+        isPathWithinRoot(
+          path.resolve(context.workingDirectory),
+          path.resolve(rule.workingDirectory),
+        )
+      );
+  }
+}
+
+/**
+ * Find the saved rule that decides a file permission request, or null when
+ * the user has to be asked. Every path in the request, including the
+ * destination of a move, must match a rule's glob. A deny rule wins over an
+ * allow rule.
+ */
+export function findMatchingPermissionRule(
+  rules: PermissionRule[],
+  request: Pick<
+    PermissionRequest,
+    'fileOperation' | 'filePath' | 'filePaths' | 'targetPath' | 'toolName'
+  >,
+  context: PermissionRuleContext,
+): PermissionRule | null {
+  const paths = [request.filePath, ...(request.filePaths ?? []), request.targetPath].filter(
+    (filePath): filePath is string => Boolean(filePath),
+  );
+
+  const matching = rules.filter((rule) => {
+    if (!isRuleInScope(rule, context)) {
+      return false;
+    }
+    if (rule.operation && rule.operation !== request.fileOperation) {
+      return false;
+    }
+    if (rule.toolName && rule.toolName.toLowerCase() !== request.toolName?.toLowerCase()) {
+      return false;
+    }
+    if (rule.pathGlob) {
+      const glob = rule.pathGlob;
+      return (
+        paths.length > 0 &&
+        paths.every((filePath) => matchesPathGlob(filePath, glob, context.workingDirectory))
+      );
+    }
+    return true;
+  });
+
+  return matching.find((rule) => rule.decision === 'deny') ?? matching[0] ?? null;
+}
+
+/**
+ * Check and sanitize a rule that arrives over IPC. Throws when the rule is
+ * malformed or would match every request in its scope.
+ */
+export function validatePermissionRuleInput(input: unknown): PermissionRuleInput {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Invalid permission rule');
+  }
+  const raw = input as Record<string, unknown>;
+
+  if (raw.decision !== 'allow' && raw.decision !== 'deny') {
+    throw new Error('Permission rule decision must be "allow" or "deny"');
+  }
+  if (!SCOPES.includes(raw.scope as PermissionRuleScope)) {
+    throw new Error(`Permission rule scope must be one of: ${SCOPES.join(', ')}`);
+  }
+  if (raw.operation !== undefined && !FILE_OPERATIONS.includes(raw.operation as FileOperation)) {
+    throw new Error(`Invalid operation. Must be one of: ${FILE_OPERATIONS.join(', ')}`);
+  }
+
+  const optionalString = (value: unknown, field: string, maxLength: number) =>
+    typeof value === 'string' && value.trim()
+      ? sanitizeString(value.trim(), field, maxLength)
+      : undefined;
+
+  const rule: PermissionRuleInput = {
+    decision: raw.decision,
+    scope: raw.scope as PermissionRuleScope,
+    operation: raw.operation as FileOperation | undefined,
+    pathGlob: optionalString(raw.pathGlob, 'pathGlob', 1024),
+    toolName: optionalString(raw.toolName, 'toolName', 128),
+    taskId: optionalString(raw.taskId, 'taskId', 128),
+    workingDirectory: optionalString(raw.workingDirectory, 'workingDirectory', 1024),
+  };
+
+  if (!rule.operation && !rule.pathGlob && !rule.toolName) {
+    throw new Error('A permission rule needs an operation, a path or a tool to match');
+  }
+  if (rule.scope === 'task' && !rule.taskId) {
+    throw new Error('A task rule needs a task');
+  }
+  if (rule.scope === 'project' && !rule.workingDirectory) {
+    throw new Error('A project rule needs a project folder');
+  }
+  return rule;
+}
@@ -0,0 +1,79 @@
+import fs from 'fs';
+import path from 'path';
+import type { PermissionRequest } from '../common/types/permission.js';
+
+const CASE_INSENSITIVE = process.platform === 'win32';
+const SEPARATORS = process.platform === 'win32' ? /[\\/]+/ : /\/+/;
+
+/**
+ * Resolve a path the way the file system will see it. Segments are walked in
+ * order and symlinks are followed before any `..` that comes after them, so
+ * `link/../x` lands next to the link's target, as it does when the file is
+ * written. Segments that do not exist yet, such as a file about to be
+ * created, are kept unchanged.
+ */
+export function resolveSandboxPath(filePath: string, baseDir: string): string {
+  // path.resolve would collapse `..` before symlinks are followed
+  const raw = path.isAbsolute(filePath)
+    ? filePath
+    : `${path.resolve(baseDir)}${path.sep}${filePath}`;
+  const { root } = path.parse(raw);
+  let current = root;
+
+  for (const segment of raw.slice(root.length).split(SEPARATORS)) {
+    if (segment === '' || segment === '.') {
+      continue;
+    }
+    if (segment === '..') {
+      current = path.dirname(current);
+      continue;
+    }
+    const next = path.join(current, segment);
+    try {
+      current = fs.realpathSync.native(next);
+    } catch {
+      current = next;
+    }
+  }
+  return current;
+}
+
+/** Whether a resolved path is the root itself or somewhere beneath it */
+export function isPathWithinRoot(filePath: string, root: string): boolean {
+  const relative = CASE_INSENSITIVE
+    ? path.relative(root.toLowerCase(), filePath.toLowerCase())
+    : path.relative(root, filePath);
+  return (
+    relative === '' ||
+    (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative))
+  );
+}
+
+/**
+ * List the paths of a file permission request that fall outside the working
+ * directory and the extra allowed roots. Every file operated on and the
+ * destination of a move or rename are checked; relative paths are taken
+ * relative to the working directory.
+ */
+export function findSandboxViolations(
+  request: Pick<PermissionRequest, 'filePath' | 'filePaths' | 'targetPath'>,
+  workingDirectory: string,
+  allowedRoots: string[] = [],
+): string[] {
+  const roots = [workingDirectory, ...allowedRoots].map((root) =>
+    resolveSandboxPath(root, workingDirectory),
+  );
+  const paths = [request.filePath, ...(request.filePaths ?? []), request.targetPath].filter(
+    (filePath): filePath is string => Boolean(filePath),
+  );
+
+  return [...new Set(paths)].filter((filePath) => {
+    const resolved = resolveSandboxPath(filePath, workingDirectory);
+    return !roots.some((root) => isPathWithinRoot(resolved, root));
+  });
+}
+
+/** Reason returned to the agent when the sandbox rejects a request */
+export function formatSandboxRejection(violations: string[]): string {
+  return `Outside the sandbox: ${violations.join(', ')}. File operations are limited to the task's working directory and the allowed roots.`;
+}
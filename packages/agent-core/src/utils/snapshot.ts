@@ -0,0 +1,267 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type {
+  SnapshotChange,
+  SnapshotFileRecord,
+  SnapshotManifest,
+  SnapshotRollbackResult,
+} from '../common/types/snapshot.js';
+
+/** Folders that are never snapshotted or rolled back */
+export const SNAPSHOT_IGNORED_DIRECTORIES = ['.git', '.hg', '.svn', 'node_modules'];
+
+export interface SnapshotOptions {
+  /** More files than this and no snapshot is taken (default 20000) */
+  maxFiles?: number;
+  /** Larger files are listed but their content is not kept (default 20 MB) */
+  maxFileBytes?: number;
+  /** More content than this in total and no snapshot is taken (default 500 MB) */
+  maxTotalBytes?: number;
+}
+
+const DEFAULT_MAX_FILES = 20000;
+const DEFAULT_MAX_FILE_BYTES = 20 * 1024 * 1024;
+const DEFAULT_MAX_TOTAL_BYTES = 500 * 1024 * 1024;
+
+interface WalkedFile {
+  size: number;
+  mode: number;
+}
+
+interface WalkResult {
+  files: Map<string, WalkedFile>;
+  directories: string[];
+}
+
+/**
+ * List the regular files and folders under a working directory. Symlinks are
+ * skipped, so they are never followed, snapshotted, or removed. Returns null
+ * when there are more than `maxFiles` files.
+ */
+async function walk(root: string, maxFiles: number): Promise<WalkResult | null> {
+  const files = new Map<string, WalkedFile>();
+  const directories: string[] = [];
+  const pending = [''];
+
+  while (pending.length > 0) {
+    const relativeDir = pending.pop()!;
+    const entries = await fs.readdir(path.join(root, relativeDir), { withFileTypes: true });
+    for (const entry of entries) {
+      const relativePath = path.join(relativeDir, entry.name);
+      if (entry.isDirectory()) {
+        if (!SNAPSHOT_IGNORED_DIRECTORIES.includes(entry.name)) {
+          directories.push(relativePath);
+          pending.push(relativePath);
+        }
+      } else if (entry.isFile()) {
+        if (files.size >= maxFiles) {
+          return null;
+        }
+        const stats = await fs.stat(path.join(root, relativePath));
+        files.set(relativePath, { size: stats.size, mode: stats.mode & 0o777 });
+      }
+    }
+  }
+  return { files, directories };
+}
+
+function getObjectPath(storeRoot: string, hash: string): string {
+  return path.join(storeRoot, 'objects', hash.slice(0, 2), hash);
+}
+
+async function exists(target: string): Promise<boolean> {
+  return fs.access(target).then(
+    () => true,
+    () => false,
+  );
+}
+
+/**
+ * Snapshot every file under a working directory into a content-addressed
+ * store, so unchanged content is only stored once across snapshots. Returns
+ * null when the folder is over the file-count or total-size limit.
+ */
+export async function createSnapshot(
+  storeRoot: string,
+  workingDirectory: string,
+  options: SnapshotOptions = {},
+): Promise<SnapshotManifest | null> {
+  const maxFileBytes = options.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+  const maxTotalBytes = options.maxTotalBytes ?? DEFAULT_MAX_TOTAL_BYTES;
+  const walked = await walk(workingDirectory, options.maxFiles ?? DEFAULT_MAX_FILES);
+  if (!walked) {
+    return null;
+  }
+
+  let totalBytes = 0;
+  const files: Record<string, SnapshotFileRecord> = {};
+  for (const [relativePath, { size, mode }] of walked.files) {
+    if (size > maxFileBytes) {
+      files[relativePath] = { hash: null, size, mode };
+      continue;
+    }
+    totalBytes += size;
+    if (totalBytes > maxTotalBytes) {
+      return null;
+    }
+
+    const content = await fs.readFile(path.join(workingDirectory, relativePath));
+    const hash = crypto.createHash('sha256').update(content).digest('hex');
+    const objectPath = getObjectPath(storeRoot, hash);
+    if (!(await exists(objectPath))) {
+      await fs.mkdir(path.dirname(objectPath), { recursive: true });
+      // Write then rename so a crash never leaves a partial object under its hash
+      const temporaryPath = `${objectPath}.${process.pid}.tmp`;
+      await fs.writeFile(temporaryPath, content);
+      await fs.rename(temporaryPath, objectPath);
+    }
+    files[relativePath] = { hash, size, mode };
+  }
+
+  return { files, directories: walked.directories };
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const content = await fs.readFile(filePath);
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * What changed under the working directory since the snapshot, sorted by path.
+ * Files whose content was too large to keep are not compared.
+ */
+export async function diffSnapshot(
+  workingDirectory: string,
+  manifest: SnapshotManifest,
+  options: SnapshotOptions = {},
+): Promise<SnapshotChange[]> {
+  const walked = await walk(workingDirectory, options.maxFiles ?? DEFAULT_MAX_FILES);
+  if (!walked) {
+    throw new Error('The working directory has too many files to compare');
+  }
+
+  const changes: SnapshotChange[] = [];
+  for (const [relativePath, record] of Object.entries(manifest.files)) {
+    if (!record.hash) {
+      continue;
+    }
+    const current = walked.files.get(relativePath);
+    if (!current) {
+      changes.push({ path: relativePath, change: 'deleted' });
+    } else if (
+      current.size !== record.size ||
+      (await hashFile(path.join(workingDirectory, relativePath))) !== record.hash
+    ) {
+      changes.push({ path: relativePath, change: 'modified' });
+    }
+  }
+  for (const relativePath of walked.files.keys()) {
+    if (!(relativePath in manifest.files)) {
+      changes.push({ path: relativePath, change: 'created' });
+    }
+  }
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Create the folders above a file being restored. Fails when one of them is a
+ * symlink, so a restore never writes outside the working directory.
+ */
+async function prepareParentDirectories(workingDirectory: string, relativePath: string) {
+  let current = workingDirectory;
+  for (const segment of path.dirname(relativePath).split(path.sep)) {
+    if (segment === '.') {
+      continue;
+    }
+    current = path.join(current, segment);
+    const stats = await fs.lstat(current).catch(() => null);
+    if (!stats) {
+      await fs.mkdir(current);
+    } else if (!stats.isDirectory()) {
+      throw new Error(`${current} is not a folder`);
+    }
+  }
+}
+
+/**
+ * Put the working directory back the way it was in the snapshot: restore
+ * modified and deleted files, remove created files, and remove folders that
+ * are empty and were not in the snapshot.
+ */
+export async function rollbackToSnapshot(
+  storeRoot: string,
+  workingDirectory: string,
+  manifest: SnapshotManifest,
+  options: SnapshotOptions = {},
+): Promise<SnapshotRollbackResult> {
+  const changes = await diffSnapshot(workingDirectory, manifest, options);
+  const result: SnapshotRollbackResult = { restored: 0, removed: 0, failed: [] };
+
+  // Removals first, so a folder that replaced a snapshotted file is cleared before the restore
+  for (const { path: relativePath } of changes.filter(({ change }) => change === 'created')) {
+    try {
+      await fs.rm(path.join(workingDirectory, relativePath), { force: true });
+      result.removed++;
+    } catch {
+      result.failed.push(relativePath);
+    }
+  }
+
+  for (const { path: relativePath } of changes.filter(({ change }) => change !== 'created')) {
+    const record = manifest.files[relativePath];
+    const destination = path.join(workingDirectory, relativePath);
+    try {
+      await prepareParentDirectories(workingDirectory, relativePath);
+      const stats = await fs.lstat(destination).catch(() => null);
+      if (stats?.isDirectory()) {
+        await fs.rm(destination, { recursive: true });
+      } else if (stats?.isSymbolicLink()) {
+        // Copying onto the link would write to wherever it points
+        await fs.unlink(destination);
+      }
+      await fs.copyFile(getObjectPath(storeRoot, record.hash!), destination);
+      await fs.chmod(destination, record.mode);
+      result.restored++;
+    } catch {
+      result.failed.push(relativePath);
+    }
+  }
+
+  const walked = await walk(workingDirectory, Number.POSITIVE_INFINITY);
+  const snapshotDirectories = new Set(manifest.directories);
+  // Deepest first, so a folder whose only content was a created folder goes too
+  const createdDirectories = (walked?.directories ?? [])
+    .filter((directory) => !snapshotDirectories.has(directory))
+    .sort((a, b) => b.length - a.length);
+  for (const directory of createdDirectories) {
+    await fs.rmdir(path.join(workingDirectory, directory)).catch(() => undefined);
+  }
+  for (const directory of manifest.directories) {
+    await fs.mkdir(path.join(workingDirectory, directory), { recursive: true }).catch(() => {
+      result.failed.push(directory);
+    });
+  }
+
+  return result;
+}
+
+/** Delete stored content no snapshot refers to any more; returns how many objects were removed */
+export async function pruneSnapshotObjects(
+  storeRoot: string,
+  referencedHashes: Set<string>,
+): Promise<number> {
+  const objectsRoot = path.join(storeRoot, 'objects');
+  let removed = 0;
+  const prefixes = await fs.readdir(objectsRoot).catch(() => [] as string[]);
+  for (const prefix of prefixes) {
+    for (const name of await fs.readdir(path.join(objectsRoot, prefix))) {
+      if (!referencedHashes.has(name)) {
+        await fs.rm(path.join(objectsRoot, prefix, name), { force: true });
+        removed++;
+      }
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,54 @@
+import type { ProviderId } from '../common/types/providerSettings.js';
+import type { CheckpointEvent, StuckAction, StuckPolicy } from '../common/types/thought-stream.js';
+import { sanitizeString } from './sanitize.js';
+
+const STUCK_ACTIONS: StuckAction[] = ['notify', 'ask-user', 'switch-model'];
+
+/**
+ * Keep a well-formed stuck policy, or undefined when it is unusable. A
+ * switch-model policy without a fallback model falls back to notify.
+ */
+export function validateStuckPolicy(policy: unknown): StuckPolicy | undefined {
+  if (!policy || typeof policy !== 'object') {
+    return undefined;
+  }
+  const raw = policy as Record<string, unknown>;
+  if (!STUCK_ACTIONS.includes(raw.action as StuckAction)) {
+    return undefined;
+  }
+
+  const validated: StuckPolicy = { action: raw.action as StuckAction };
+  const fallback = raw.fallbackModel as Record<string, unknown> | undefined;
+  if (
+    fallback &&
+    typeof fallback.providerId === 'string' &&
+    typeof fallback.modelId === 'string' &&
+    fallback.providerId.trim() &&
+    fallback.modelId.trim()
+  ) {
+    validated.fallbackModel = {
+      providerId: sanitizeString(fallback.providerId, 'fallbackProviderId', 64) as ProviderId,
+      modelId: sanitizeString(fallback.modelId, 'fallbackModelId', 256),
+    };
+  }
+  if (validated.action === 'switch-model' && !validated.fallbackModel) {
+    validated.action = 'notify';
+  }
+  if (
+    typeof raw.abortAfter === 'number' &&
+    Number.isInteger(raw.abortAfter) &&
+    raw.abortAfter > 0
+  ) {
+    validated.abortAfter = raw.abortAfter;
+  }
+  return validated;
+}
+
+/** Prompt that resumes a stuck session after it was moved to the fallback model */
+export function getStuckModelSwitchPrompt(checkpoint: CheckpointEvent): string {
+  return `You reported being stuck${checkpoint.blocker ? `: ${checkpoint.blocker}` : '.'}
+
+Your last checkpoint: ${checkpoint.summary}
+
+This session has been moved to a different model to get past the blocker. Review what has been tried so far, take a fresh approach, and continue the task. Call complete_task when you are done, or with status "blocked" if the blocker cannot be resolved.`;
+}
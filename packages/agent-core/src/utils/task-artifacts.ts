@@ -0,0 +1,29 @@
+import type { TaskArtifactInput } from '../common/types/artifact.js';
+import type { PermissionRequest } from '../common/types/permission.js';
+
+/**
+ * List the files an approved file permission request lets the agent touch.
+ * Batch requests yield one artifact per path; a move or rename keeps its
+ * destination alongside the source.
+ */
+export function getFilePermissionArtifacts(
+  request: Pick<PermissionRequest, 'fileOperation' | 'filePath' | 'filePaths' | 'targetPath'>,
+): TaskArtifactInput[] {
+  const { fileOperation, targetPath } = request;
+  if (!fileOperation) {
+    return [];
+  }
+
+  const paths = request.filePaths?.length
+    ? request.filePaths
+    : request.filePath
+      ? [request.filePath]
+      : [];
+  const tracksTarget = fileOperation === 'move' || fileOperation === 'rename';
+
+  return [...new Set(paths)].map((filePath) => ({
+    operation: fileOperation,
+    filePath,
+    ...(tracksTarget && targetPath && { targetPath }),
+  }));
+}
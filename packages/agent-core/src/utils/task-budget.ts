@@ -0,0 +1,118 @@
+import type {
+  TaskBudget,
+  TaskBudgetLimit,
+  TaskBudgetLimitStatus,
+  TaskUsage,
+} from '../common/types/task.js';
+
+export const DEFAULT_BUDGET_WARNING_THRESHOLD = 0.8;
+
+/** Token and cost figures reported by a single step_finish event */
+export interface StepUsage {
+  /** Model ID the step ran on, e.g. `anthropic/claude-sonnet-4-5` */
+  model?: string;
+  tokens?: {
+    input: number;
+    output: number;
+    reasoning: number;
+    cache?: { read: number; write: number };
+  };
+  cost?: number;
+}
+
+const BUDGET_LIMITS: TaskBudgetLimit[] = [
+  'maxInputTokens',
+  'maxOutputTokens',
+  'maxCostUsd',
+  'maxSteps',
+];
+
+export function createEmptyTaskUsage(): TaskUsage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    costUsd: 0,
+    steps: 0,
+  };
+}
+
+/**
+ * Add one step's usage to a running total. Returns a new object; missing or
+ * non-numeric fields count as zero.
+ */
+export function addStepUsage(usage: TaskUsage, step: StepUsage): TaskUsage {
+  const n = (value: number | undefined) => (Number.isFinite(value) ? (value as number) : 0);
+
+  return {
+    inputTokens: usage.inputTokens + n(step.tokens?.input),
+    outputTokens: usage.outputTokens + n(step.tokens?.output),
+    reasoningTokens: usage.reasoningTokens + n(step.tokens?.reasoning),
+    cacheReadTokens: usage.cacheReadTokens + n(step.tokens?.cache?.read),
+    cacheWriteTokens: usage.cacheWriteTokens + n(step.tokens?.cache?.write),
+    costUsd: usage.costUsd + n(step.cost),
+    steps: usage.steps + 1,
+  };
+}
+
+function getUsedAmount(usage: TaskUsage, limit: TaskBudgetLimit): number {
+  switch (limit) {
+    case 'maxInputTokens':
+      return usage.inputTokens;
+    case 'maxOutputTokens':
+      return usage.outputTokens + usage.reasoningTokens;
+    case 'maxCostUsd':
+      return usage.costUsd;
+    case 'maxSteps':
+      return usage.steps;
+  }
+}
+
+/**
+ * Report how far the usage is into every limit set on the budget,
+ * ordered from the most to the least consumed limit.
+ */
+export function getTaskBudgetStatus(usage: TaskUsage, budget: TaskBudget): TaskBudgetLimitStatus[] {
+  const statuses: TaskBudgetLimitStatus[] = [];
+
+  for (const limit of BUDGET_LIMITS) {
+    const max = budget[limit] ?? 0;
+    if (!(max > 0)) {
+      continue;
+    }
+    const used = getUsedAmount(usage, limit);
+    statuses.push({ limit, used, max, ratio: used / max });
+  }
+
+  return statuses.sort((a, b) => b.ratio - a.ratio);
+}
+
+export function isTaskBudgetEmpty(budget: TaskBudget | undefined): boolean {
+  return !budget || BUDGET_LIMITS.every((limit) => !((budget[limit] ?? 0) > 0));
+}
+
+export function getBudgetWarningThreshold(budget: TaskBudget): number {
+  const threshold = budget.warningThreshold;
+  return threshold !== undefined && threshold > 0 && threshold <= 1
+    ? threshold
+    : DEFAULT_BUDGET_WARNING_THRESHOLD;
+}
+
+/**
+ * Human-readable reason used as TaskResult.error for an exceeded budget,
+ * e.g. "Budget exceeded: cost $1.27 reached the $1.00 limit".
+ */
+export function formatBudgetExceeded(status: TaskBudgetLimitStatus): string {
+  switch (status.limit) {
+    case 'maxInputTokens':
+      return `Budget exceeded: ${status.used} input tokens reached the ${status.max} token limit`;
+    case 'maxOutputTokens':
+      return `Budget exceeded: ${status.used} output tokens reached the ${status.max} token limit`;
+    case 'maxCostUsd':
+      return `Budget exceeded: cost $${status.used.toFixed(2)} reached the $${status.max.toFixed(2)} limit`;
+    case 'maxSteps':
+      return `Budget exceeded: ${status.used} steps reached the ${status.max} step limit`;
+  }
+}
@@ -0,0 +1,90 @@
+import type { Task, TaskMessage } from '../common/types/task.js';
+import { createMessageId } from '../common/utils/id.js';
+
+/** Longest a single transcript entry may be before it is truncated */
+const MAX_TRANSCRIPT_ENTRY_LENGTH = 2_000;
+
+/** Overall transcript budget, well below the systemPromptAppend sanitize limit */
+const MAX_TRANSCRIPT_LENGTH = 24_000;
+
+/** How a forked task picks up the parent's conversation */
+export interface TaskForkPlan {
+  /** Parent messages up to and including the fork point, with fresh IDs */
+  messages: TaskMessage[];
+  /** Transcript of the conversation up to the fork point, for the fork's new session */
+  systemPromptAppend: string;
+}
+
+/**
+ * Work out how to fork `parent` at `messageId`.
+ *
+ * A fork always starts a fresh session seeded with a transcript of the
+ * conversation up to that message. Resuming the parent's session would append
+ * the fork's turns to it, and the parent would see them when it continues.
+ */
+export function planTaskFork(parent: Task, messageId: string): TaskForkPlan {
+  const index = parent.messages.findIndex((message) => message.id === messageId);
+  if (index === -1) {
+    throw new Error(`Message ${messageId} not found in task ${parent.id}`);
+  }
+
+  const history = parent.messages.slice(0, index + 1);
+  const messages = history.map((message) => ({ ...message, id: createMessageId() }));
+
+  return { messages, systemPromptAppend: formatForkTranscript(history) };
+}
+
+function formatTranscriptEntry(message: TaskMessage): string | null {
+  const content = message.content.trim();
+  let label: string;
+  switch (message.type) {
+    case 'user':
+      label = '[user]';
+      break;
+    case 'assistant':
+      label = '[assistant]';
+      break;
+    case 'tool':
+      label = `[tool: ${message.toolName ?? 'unknown'}]`;
+      break;
+    case 'system':
+      return null;
+  }
+  if (!content && message.type !== 'tool') {
+    return null;
+  }
+  const text =
+    content.length > MAX_TRANSCRIPT_ENTRY_LENGTH
+      ? `${content.slice(0, MAX_TRANSCRIPT_ENTRY_LENGTH)}…`
+      : content;
+  return text ? `${label} ${text}` : label;
+}
+
+/**
+ * Summarize a conversation for a new session. The first entry (the original
+ * request) is always kept; the oldest entries after it are dropped when the
+ * transcript would exceed MAX_TRANSCRIPT_LENGTH.
+ */
+export function formatForkTranscript(messages: TaskMessage[]): string {
+  const entries = messages
+    .map(formatTranscriptEntry)
+    .filter((entry): entry is string => entry !== null);
+
+  let omitted = 0;
+  let length = entries.reduce((total, entry) => total + entry.length + 1, 0);
+  while (length > MAX_TRANSCRIPT_LENGTH && entries.length > 2) {
+    const [removed] = entries.splice(1, 1);
+    length -= removed.length + 1;
+    omitted++;
+  }
+  if (omitted > 0) {
+    entries.splice(1, 0, `[${omitted} earlier messages omitted]`);
+  }
+
+  return [
+    'This task continues an earlier conversation. Treat the transcript below as the history so far and carry on from its last message.',
+    '<transcript>',
+    ...entries,
+    '</transcript>',
+  ].join('\n');
+}
@@ -0,0 +1,112 @@
+import type { Task, TaskConfig, TaskMessage, TaskRunConfig } from '../common/types/task.js';
+import { TODO_STATUS_MARKERS, type TodoItem } from '../common/types/todo.js';
+import { formatForkTranscript } from './task-fork.js';
+
+/** How many of the most recent tool calls the recovery prompt lists */
+const MAX_RECENT_TOOLS = 10;
+
+/** Longest excerpt of the agent's last message quoted in the recovery prompt */
+const MAX_LAST_MESSAGE_LENGTH = 1_000;
+
+/** How an interrupted task is restarted */
+export interface TaskRecoveryPlan {
+  /** Prompt describing the work done before the interruption */
+  prompt: string;
+  /** Stored session to continue, when the task had one */
+  sessionId?: string;
+  /** Reconstructed transcript, when there is no session to continue */
+  systemPromptAppend?: string;
+}
+
+function lastAssistantMessage(messages: TaskMessage[]): string | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.type === 'assistant' && message.content.trim()) {
+      const content = message.content.trim();
+      return content.length > MAX_LAST_MESSAGE_LENGTH
+        ? `${content.slice(0, MAX_LAST_MESSAGE_LENGTH)}…`
+        : content;
+    }
+  }
+  return null;
+}
+
+/**
+ * Describe an interrupted task's progress so the agent can carry on
+ * without redoing finished work.
+ */
+export function buildRecoveryPrompt(task: Task, todos: TodoItem[]): string {
+  const sections = [
+    'This task was interrupted before it finished because the app was closed or crashed. Continue from where it stopped and do not redo work that is already done.',
+    `Original request:\n${task.prompt}`,
+  ];
+
+  if (todos.length > 0) {
+    const lines = todos.map((todo) => `${TODO_STATUS_MARKERS[todo.status]} ${todo.content}`);
+    sections.push(
+      `Todo list at the time of the interruption ([x] done, [~] in progress and possibly half-finished, [ ] not started, [-] dropped):\n${lines.join('\n')}`,
+    );
+  }
+
+  const tools = task.messages
+    .filter((message) => message.type === 'tool' && message.toolName)
+    .map((message) => message.toolName!);
+  if (tools.length > 0) {
+    const recent = tools.slice(-MAX_RECENT_TOOLS);
+    const omitted = tools.length - recent.length;
+    sections.push(
+      `Tool calls made so far: ${tools.length}${omitted > 0 ? ` (last ${recent.length} shown)` : ''}\n${recent.join(', ')}`,
+    );
+  }
+
+  const lastMessage = lastAssistantMessage(task.messages);
+  if (lastMessage) {
+    sections.push(`Your last message before the interruption:\n${lastMessage}`);
+  }
+
+  sections.push(
+    'Check the current state of anything that was in progress before changing it, then finish the remaining work.',
+  );
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Work out how to restart an interrupted task. The stored session is reused
+ * when there is one; otherwise the conversation so far is passed along as a
+ * transcript, as for a fork.
+ */
+export function planTaskRecovery(task: Task, todos: TodoItem[]): TaskRecoveryPlan {
+  const prompt = buildRecoveryPrompt(task, todos);
+  const sessionId = task.sessionId || task.result?.sessionId;
+
+  if (sessionId) {
+    return { prompt, sessionId };
+  }
+
+  if (task.messages.length === 0) {
+    return { prompt };
+  }
+
+  return { prompt, systemPromptAppend: formatForkTranscript(task.messages) };
+}
+
+/** The part of a task's config it is started with again when it is resumed, recovered, or forked */
+export function getTaskRunConfig(config: TaskConfig): TaskRunConfig {
+  const runConfig: TaskRunConfig = {
+    workingDirectory: config.workingDirectory,
+    allowedTools: config.allowedTools,
+    outputSchema: config.outputSchema,
+    budget: config.budget,
+    maxDurationMs: config.maxDurationMs,
+    maxIdleMs: config.maxIdleMs,
+    verifications: config.verifications,
+    stuckPolicy: config.stuckPolicy,
+  };
+  // Without a provider the model ID is only for display and the task follows the active model
+  if (config.providerId) {
+    runConfig.providerId = config.providerId;
+    runConfig.modelId = config.modelId;
+  }
+  return runConfig;
+}
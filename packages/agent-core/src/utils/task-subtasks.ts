@@ -0,0 +1,72 @@
+import type { SubtaskResult } from '../common/types/task.js';
+
+/** Longest excerpt of a sub-task's final message passed back to the parent */
+const MAX_SUBTASK_SUMMARY_LENGTH = 4_000;
+
+const STATUS_LABELS: Record<SubtaskResult['status'], string> = {
+  success: 'completed',
+  error: 'failed',
+  interrupted: 'interrupted',
+  cancelled: 'cancelled',
+};
+
+/**
+ * Prompt for a sub-task spawned from a parent's plan. The sub-task only sees
+ * its own step, so the parent's request and goal are given as context.
+ */
+export function buildSubtaskPrompt(parentPrompt: string, step: string, goal?: string): string {
+  const sections = [
+    step,
+    'This is one independent part of a larger task that runs in parallel with other parts. Only do this part; other sub-tasks handle the rest.',
+    `Original request of the larger task:\n${parentPrompt}`,
+  ];
+
+  if (goal) {
+    sections.push(`Overall goal:\n${goal}`);
+  }
+
+  sections.push(
+    'When you call complete_task, make the summary self-contained: it is passed back to the larger task as your result.',
+  );
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Prompt that resumes a parent task once all of its sub-tasks have ended,
+ * listing each step with its outcome and final message.
+ */
+export function buildSubtaskResultsPrompt(results: SubtaskResult[]): string {
+  const entries = results.map((subtask, i) => {
+    const lines = [`### ${i + 1}. ${subtask.step}`, `Status: ${STATUS_LABELS[subtask.status]}`];
+    if (subtask.result?.error) {
+      lines.push(`Error: ${subtask.result.error}`);
+    }
+    const summary = subtask.summary?.trim();
+    if (summary) {
+      lines.push(
+        summary.length > MAX_SUBTASK_SUMMARY_LENGTH
+          ? `${summary.slice(0, MAX_SUBTASK_SUMMARY_LENGTH)}…`
+          : summary,
+      );
+    }
+    return lines.join('\n');
+  });
+
+  return [
+    'Your sub-tasks have finished. Their results are below.',
+    ...entries,
+    'Continue with the remaining steps of your plan using these results. Redo any failed or cancelled part yourself if it is still needed, then call complete_task.',
+  ].join('\n\n');
+}
+
+/**
+ * Prompt that resumes a task whose sub-tasks could not be spawned, so it
+ * carries out the steps itself.
+ */
+export function buildSubtasksUnavailablePrompt(steps: string[]): string {
+  return [
+    'Sub-tasks are not available for this task, so nothing was started in parallel.',
+    `Carry out these steps yourself, then continue with the rest of your plan:\n${steps.map((step, i) => `${i + 1}. ${step}`).join('\n')}`,
+  ].join('\n\n');
+}
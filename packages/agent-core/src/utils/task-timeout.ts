@@ -0,0 +1,78 @@
+import type { TaskTimeout, TaskTimeoutLimits } from '../common/types/task.js';
+
+/** Activity of a running task, as epoch milliseconds */
+export interface TaskActivity {
+  startedAt: number;
+  lastActivityAt: number;
+  /** True while the task is legitimately quiet, e.g. waiting on the user */
+  idlePaused?: boolean;
+}
+
+function isLimit(value: number | undefined): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Combine a task's own limits with the app defaults. A limit set on the task
+ * wins, so 0 there turns off a default.
+ */
+export function resolveTaskTimeoutLimits(
+  config: TaskTimeoutLimits,
+  defaults?: TaskTimeoutLimits,
+): TaskTimeoutLimits {
+  const maxDurationMs = config.maxDurationMs ?? defaults?.maxDurationMs;
+  const maxIdleMs = config.maxIdleMs ?? defaults?.maxIdleMs;
+  return {
+    ...(isLimit(maxDurationMs) && { maxDurationMs }),
+    ...(isLimit(maxIdleMs) && { maxIdleMs }),
+  };
+}
+
+export function hasTaskTimeoutLimits(limits: TaskTimeoutLimits): boolean {
+  return isLimit(limits.maxDurationMs) || isLimit(limits.maxIdleMs);
+}
+
+/** The first time limit the task has run past at `now`, or null */
+export function getExceededTimeout(
+  limits: TaskTimeoutLimits,
+  activity: TaskActivity,
+  now: number,
+): TaskTimeout | null {
+  if (isLimit(limits.maxDurationMs) && now - activity.startedAt >= limits.maxDurationMs) {
+    return { kind: 'duration', limitMs: limits.maxDurationMs };
+  }
+
+  if (
+    isLimit(limits.maxIdleMs) &&
+    !activity.idlePaused &&
+    now - Math.max(activity.startedAt, activity.lastActivityAt) >= limits.maxIdleMs
+  ) {
+    return { kind: 'idle', limitMs: limits.maxIdleMs };
+  }
+
+  return null;
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  if (totalSeconds < 60) {
+    return `${totalSeconds} s`;
+  }
+
+  const totalMinutes = Math.round(totalSeconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) {
+    return `${minutes} min`;
+  }
+  return minutes === 0 ? `${hours} h` : `${hours} h ${minutes} min`;
+}
+
+export function formatTaskTimeout(timeout: TaskTimeout): string {
+  switch (timeout.kind) {
+    case 'duration':
+      return `Timed out: the task ran longer than its ${formatDuration(timeout.limitMs)} limit`;
+    case 'idle':
+      return `Timed out: no activity for ${formatDuration(timeout.limitMs)}`;
+  }
+}
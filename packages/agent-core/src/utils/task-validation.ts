@@ -1,5 +1,8 @@
-import type { TaskConfig } from '../common/types/task.js';
+import type { TaskBudget, TaskConfig } from '../common/types/task.js';
+import type { ProviderId } from '../common/types/providerSettings.js';
 import { sanitizeString } from './sanitize.js';
+import { validateVerificationChecks } from './verification.js';
+import { validateStuckPolicy } from './stuck-policy.js';
 
 /**
  * Validates and sanitizes a TaskConfig object.
@@ -27,12 +30,71 @@ export function validateTaskConfig(config: TaskConfig): TaskConfig {
       .map((tool) => sanitizeString(tool, 'allowedTools', 64))
       .slice(0, 20);
   }
+  if (config.providerId) {
+    validated.providerId = sanitizeString(config.providerId, 'providerId', 64) as ProviderId;
+    if (config.modelId) {
+      validated.modelId = sanitizeString(config.modelId, 'modelId', 256);
+    }
+  }
   if (config.systemPromptAppend) {
     validated.systemPromptAppend = sanitizeString(config.systemPromptAppend, 'systemPromptAppend');
   }
   if (config.outputSchema && typeof config.outputSchema === 'object') {
     validated.outputSchema = config.outputSchema;
   }
+  if (typeof config.priority === 'number' && Number.isFinite(config.priority)) {
+    validated.priority = Math.trunc(config.priority);
+  }
+  if (config.budget && typeof config.budget === 'object') {
+    const budget = validateTaskBudget(config.budget);
+    if (budget) {
+      validated.budget = budget;
+    }
+  }
+  // 0 is kept: it turns off the app's default limit for this task
+  for (const key of ['maxDurationMs', 'maxIdleMs'] as const) {
+    const value = config[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      validated[key] = Math.floor(value);
+    }
+  }
+  if (Array.isArray(config.verifications)) {
+    validated.verifications = validateVerificationChecks(config.verifications);
+  }
+  const stuckPolicy = validateStuckPolicy(config.stuckPolicy);
+  if (stuckPolicy) {
+    validated.stuckPolicy = stuckPolicy;
+  }
+
+  return validated;
+}
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * Keeps only the positive numeric limits of a budget.
+ * Returns undefined when no usable limit is left.
+ */
+function validateTaskBudget(budget: TaskBudget): TaskBudget | undefined {
+  const validated: TaskBudget = {};
+
+  for (const key of ['maxInputTokens', 'maxOutputTokens', 'maxSteps'] as const) {
+    if (isPositiveNumber(budget[key])) {
+      validated[key] = Math.floor(budget[key]);
+    }
+  }
+  if (isPositiveNumber(budget.maxCostUsd)) {
+    validated.maxCostUsd = budget.maxCostUsd;
+  }
+
+  if (Object.keys(validated).length === 0) {
+    return undefined;
+  }
+
+  if (isPositiveNumber(budget.warningThreshold) && budget.warningThreshold <= 1) {
+    validated.warningThreshold = budget.warningThreshold;
+  }
 
   return validated;
 }
@@ -0,0 +1,80 @@
+import fs from 'fs';
+import path from 'path';
+import type { TrashEntry } from '../common/types/trash.js';
+
+/** Files or folders larger than this are not kept; the operation still goes ahead */
+export const TRASH_MAX_ITEM_BYTES = 200 * 1024 * 1024;
+
+/** Where the copy for a trash entry lives under the trash root */
+export function getTrashItemPath(
+  trashRoot: string,
+  entry: Pick<TrashEntry, 'id' | 'originalPath'>,
+): string {
+  return path.join(trashRoot, entry.id, path.basename(entry.originalPath) || 'item');
+}
+
+/** Total size of a file or folder, stopping early once it passes the limit */
+function measure(target: string, limit: number): number {
+  const stats = fs.lstatSync(target);
+  if (!stats.isDirectory()) {
+    return stats.size;
+  }
+  let total = 0;
+  for (const name of fs.readdirSync(target)) {
+    total += measure(path.join(target, name), limit - total);
+    if (total > limit) {
+      break;
+    }
+  }
+  return total;
+}
+
+/**
+ * Copy a file or folder into the trash before it is deleted or overwritten.
+ * Returns null when there is nothing to keep (the path does not exist) or it
+ * is larger than the limit.
+ */
+export function copyToTrash(
+  trashRoot: string,
+  entry: Pick<TrashEntry, 'id' | 'originalPath'>,
+  maxBytes: number = TRASH_MAX_ITEM_BYTES,
+): { isDirectory: boolean; sizeBytes: number } | null {
+  let stats: fs.Stats;
+  try {
+    stats = fs.lstatSync(entry.originalPath);
+  } catch {
+    return null;
+  }
+
+  const sizeBytes = measure(entry.originalPath, maxBytes);
+  if (sizeBytes > maxBytes) {
+    return null;
+  }
+
+  const destination = getTrashItemPath(trashRoot, entry);
+  fs.mkdirSync(path.dirname(destination), { recursive: true });
+  fs.cpSync(entry.originalPath, destination, { recursive: true, verbatimSymlinks: true });
+  return { isDirectory: stats.isDirectory(), sizeBytes };
+}
+
+/**
+ * Put a trashed copy back at its original path, replacing whatever is there
+ * now, and remove it from the trash
+ */
+export function restoreFromTrash(trashRoot: string, entry: TrashEntry): void {
+  const source = getTrashItemPath(trashRoot, entry);
+  if (!fs.existsSync(source)) {
+    throw new Error(`The trashed copy of ${entry.originalPath} is missing`);
+  }
+  fs.mkdirSync(path.dirname(entry.originalPath), { recursive: true });
+  if (entry.isDirectory) {
+    fs.rmSync(entry.originalPath, { recursive: true, force: true });
+  }
+  fs.cpSync(source, entry.originalPath, { recursive: true, force: true, verbatimSymlinks: true });
+  removeFromTrash(trashRoot, entry);
+}
+
+/** Delete a trash entry's copy for good */
+export function removeFromTrash(trashRoot: string, entry: Pick<TrashEntry, 'id'>): void {
+  fs.rmSync(path.join(trashRoot, entry.id), { recursive: true, force: true });
+}
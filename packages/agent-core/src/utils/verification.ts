@@ -0,0 +1,207 @@
+import { spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import type {
+  VerificationCheck,
+  VerificationCheckType,
+  VerificationResult,
+} from '../common/types/verification.js';
+import { sanitizeString } from './sanitize.js';
+
+const DEFAULT_COMMAND_TIMEOUT_MS = 120_000;
+const DEFAULT_URL_TIMEOUT_MS = 15_000;
+const OUTPUT_TAIL_CHARS = 2000;
+const MAX_CHECKS = 20;
+
+const CHECK_TYPES: VerificationCheckType[] = ['command', 'file-exists', 'url-status'];
+
+/** Short label for a check in results and prompts */
+export function describeVerificationCheck(check: VerificationCheck): string {
+  if (check.name) {
+    return check.name;
+  }
+  switch (check.type) {
+    case 'command':
+      return `\`${check.command}\``;
+    case 'file-exists':
+      return `file exists: ${check.path}`;
+    case 'url-status':
+      return `${check.url} responds`;
+  }
+}
+
+function tail(output: string): string {
+  const trimmed = output.trim();
+  return trimmed.length > OUTPUT_TAIL_CHARS ? `…${trimmed.slice(-OUTPUT_TAIL_CHARS)}` : trimmed;
+}
+
+function runCommandCheck(
+  check: Extract<VerificationCheck, { type: 'command' }>,
+  cwd: string,
+): Promise<VerificationResult> {
+  const expectExitCode = check.expectExitCode ?? 0;
+  const timeoutMs = check.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS;
+
+  return new Promise((resolve) => {
+    let output = '';
+    let settled = false;
+    const finish = (result: VerificationResult) => {
+      if (!settled) {
+        settled = true;
+        clearTimeout(timer);
+        resolve(result);
+      }
+    };
+
+    // On POSIX the shell gets its own process group so a timeout also stops
+    // whatever the command started, which would otherwise keep the pipes open
+    const detached = process.platform !== 'win32';
+    const child = spawn(check.command, { cwd, shell: true, env: process.env, detached });
+    const timer = setTimeout(() => {
+      try {
+        if (detached && child.pid) {
+          process.kill(-child.pid, 'SIGKILL');
+        } else {
+          child.kill();
+        }
+      } catch {
+        // already exited
+      }
+      finish({ check, passed: false, message: `Timed out after ${timeoutMs}ms` });
+    }, timeoutMs);
+
+    const append = (chunk: Buffer) => {
+      output = (output + chunk.toString()).slice(-OUTPUT_TAIL_CHARS * 2);
+    };
+    child.stdout?.on('data', append);
+    child.stderr?.on('data', append);
+
+    child.on('error', (error) => {
+      finish({ check, passed: false, message: `Could not run command: ${error.message}` });
+    });
+    child.on('close', (code) => {
+      const passed = code === expectExitCode;
+      const outputTail = tail(output);
+      finish({
+        check,
+        passed,
+        message: passed
+          ? `Exited with code ${code}`
+          : `Exited with code ${code} (expected ${expectExitCode})${outputTail ? `\n${outputTail}` : ''}`,
+      });
+    });
+  });
+}
+
+function runFileExistsCheck(
+  check: Extract<VerificationCheck, { type: 'file-exists' }>,
+  cwd: string,
+): VerificationResult {
+  const resolved = path.resolve(cwd, check.path);
+  const passed = fs.existsSync(resolved);
+  return { check, passed, message: passed ? `Found ${resolved}` : `${resolved} does not exist` };
+}
+
+async function runUrlStatusCheck(
+  check: Extract<VerificationCheck, { type: 'url-status' }>,
+): Promise<VerificationResult> {
+  try {
+    const response = await fetch(check.url, {
+      signal: AbortSignal.timeout(check.timeoutMs ?? DEFAULT_URL_TIMEOUT_MS),
+    });
+    const passed =
+      check.expectStatus === undefined
+        ? response.status >= 200 && response.status < 300
+        : response.status === check.expectStatus;
+    const expected = check.expectStatus ?? '2xx';
+    return {
+      check,
+      passed,
+      message: passed
+        ? `Responded with ${response.status}`
+        : `Responded with ${response.status} (expected ${expected})`,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { check, passed: false, message: `Request failed: ${message}` };
+  }
+}
+
+/**
+ * Run verification checks one after another in the task's working directory.
+ * A check that cannot run counts as failed rather than throwing.
+ */
+export async function runVerificationChecks(
+  checks: VerificationCheck[],
+  cwd: string,
+): Promise<VerificationResult[]> {
+  const results: VerificationResult[] = [];
+  for (const check of checks) {
+    switch (check.type) {
+      case 'command':
+        results.push(await runCommandCheck(check, cwd));
+        break;
+      case 'file-exists':
+        results.push(runFileExistsCheck(check, cwd));
+        break;
+      case 'url-status':
+        results.push(await runUrlStatusCheck(check));
+        break;
+    }
+  }
+  return results;
+}
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+/**
+ * Keep only well-formed checks, sanitizing their strings. Used on checks that
+ * arrive over IPC or the local API.
+ */
+export function validateVerificationChecks(checks: unknown): VerificationCheck[] {
+  if (!Array.isArray(checks)) {
+    return [];
+  }
+
+  const validated: VerificationCheck[] = [];
+  for (const raw of checks.slice(0, MAX_CHECKS)) {
+    if (!raw || typeof raw !== 'object' || !CHECK_TYPES.includes(raw.type)) {
+      continue;
+    }
+    const name =
+      typeof raw.name === 'string' && raw.name.trim()
+        ? sanitizeString(raw.name, 'verification name', 128)
+        : undefined;
+    const timeoutMs = isPositiveInteger(raw.timeoutMs) ? raw.timeoutMs : undefined;
+
+    if (raw.type === 'command' && typeof raw.command === 'string' && raw.command.trim()) {
+      validated.push({
+        type: 'command',
+        command: sanitizeString(raw.command, 'verification command', 4096),
+        ...(Number.isInteger(raw.expectExitCode) && { expectExitCode: raw.expectExitCode }),
+        ...(timeoutMs && { timeoutMs }),
+        ...(name && { name }),
+      });
+    } else if (raw.type === 'file-exists' && typeof raw.path === 'string' && raw.path.trim()) {
+      validated.push({
+        type: 'file-exists',
+        path: sanitizeString(raw.path, 'verification path', 1024),
+        ...(name && { name }),
+      });
+    } else if (
+      raw.type === 'url-status' &&
+      typeof raw.url === 'string' &&
+      /^https?:\/\//i.test(raw.url)
+    ) {
+      validated.push({
+        type: 'url-status',
+        url: sanitizeString(raw.url, 'verification url', 2048),
+        ...(isPositiveInteger(raw.expectStatus) && { expectStatus: raw.expectStatus }),
+        ...(timeoutMs && { timeoutMs }),
+        ...(name && { name }),
+      });
+    }
+  }
+  return validated;
+}
@@ -0,0 +1,29 @@
+import crypto from 'crypto';
+
+const SIGNATURE_PREFIX = 'sha256=';
+
+/** Generate a random secret for signing a webhook target's payloads */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Sign a webhook body. The timestamp (unix seconds) is signed along with the
+ * body as `<timestamp>.<body>`, so a captured request cannot be replayed with
+ * a fresh timestamp.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `${SIGNATURE_PREFIX}${digest}`;
+}
+
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
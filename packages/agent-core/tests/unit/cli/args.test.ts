@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import {
+  CliUsageError,
+  getDefaultDataDir,
+  parseCliArgs,
+  type CliEnvironment,
+} from '../../../src/cli/args.js';
+
+const interactiveEnv: CliEnvironment = {
+  cwd: '/work',
+  env: {},
+  platform: 'linux',
+  homeDir: '/home/user',
+  isInteractive: true,
+};
+
+const pipedEnv: CliEnvironment = { ...interactiveEnv, isInteractive: false };
+
+describe('parseCliArgs', () => {
+  it('should parse a run command with defaults', () => {
+    const command = parseCliArgs(['run', 'fix', 'the', 'tests'], interactiveEnv);
+
+    expect(command).toEqual({
+      command: 'run',
+      readPromptFromStdin: false,
+      options: {
+        prompt: 'fix the tests',
+        model: undefined,
+        workingDirectory: '/work',
+        format: 'text',
+        permissionPolicy: 'prompt',
+        dataDir: path.join('/home/user', '.config', 'Accomplish'),
+        opencodePath: undefined,
+        sessionId: undefined,
+        browser: true,
+        verbose: false,
+      },
+    });
+  });
+
+  it('should accept flags after the prompt', () => {
+    const command = parseCliArgs(
+      ['run', 'do it', '--model', 'anthropic/claude-sonnet-4-5', '-C', 'sub', '-f', 'ndjson'],
+      interactiveEnv,
+    );
+
+    expect(command.command).toBe('run');
+    if (command.command !== 'run') return;
+    expect(command.options.model).toBe('anthropic/claude-sonnet-4-5');
+    expect(command.options.workingDirectory).toBe(path.resolve('/work', 'sub'));
+    expect(command.options.format).toBe('ndjson');
+  });
+
+  it('should map policy flags to permission policies', () => {
+    const approve = parseCliArgs(['run', 'x', '--auto-approve'], interactiveEnv);
+    const deny = parseCliArgs(['run', 'x', '--deny-all'], interactiveEnv);
+
+    expect(approve.command === 'run' && approve.options.permissionPolicy).toBe('auto-approve');
+    expect(deny.command === 'run' && deny.options.permissionPolicy).toBe('deny-all');
+  });
+
+  it('should deny by default when not attached to a TTY', () => {
+    const command = parseCliArgs(['run', 'x'], pipedEnv);
+    expect(command.command === 'run' && command.options.permissionPolicy).toBe('deny-all');
+  });
+
+  it('should read the prompt from stdin when piped', () => {
+    const missing = parseCliArgs(['run'], pipedEnv);
+    const dash = parseCliArgs(['run', '-'], pipedEnv);
+
+    expect(missing.command === 'run' && missing.readPromptFromStdin).toBe(true);
+    expect(dash.command === 'run' && dash.readPromptFromStdin).toBe(true);
+  });
+
+  it('should prefer --data-dir over ACCOMPLISH_DATA_DIR', () => {
+    const env = { ...interactiveEnv, env: { ACCOMPLISH_DATA_DIR: '/data/env' } };
+
+    const fromEnv = parseCliArgs(['run', 'x'], env);
+    const fromFlag = parseCliArgs(['run', 'x', '--data-dir', 'local'], env);
+
+    expect(fromEnv.command === 'run' && fromEnv.options.dataDir).toBe('/data/env');
+    expect(fromFlag.command === 'run' && fromFlag.options.dataDir).toBe(
+      path.resolve('/work', 'local'),
+    );
+  });
+
+  it('should collect budget flags into a task budget', () => {
+    const command = parseCliArgs(
+      ['run', 'x', '--max-cost', '0.5', '--max-steps', '20'],
+      interactiveEnv,
+    );
+    expect(command.command === 'run' && command.options.budget).toEqual({
+      maxCostUsd: 0.5,
+      maxSteps: 20,
+    });
+
+    const unbudgeted = parseCliArgs(['run', 'x'], interactiveEnv);
+    expect(unbudgeted.command === 'run' && unbudgeted.options.budget).toBeUndefined();
+
+    expect(() => parseCliArgs(['run', 'x', '--max-steps', '2.5'], interactiveEnv)).toThrow(
+      '--max-steps',
+    );
+    expect(() => parseCliArgs(['run', 'x', '--max-cost', '-1'], interactiveEnv)).toThrow(
+      '--max-cost',
+    );
+  });
+
+  it('should collect verification flags into checks', () => {
+    const command = parseCliArgs(
+      [
+        'run',
+        'x',
+        '--verify',
+        'npm test',
+        '--verify',
+        'npm run lint',
+        '--verify-file',
+        'dist/index.html',
+        '--verify-url',
+        'http://localhost:3000',
+      ],
+      interactiveEnv,
+    );
+    expect(command.command === 'run' && command.options.verifications).toEqual([
+      { type: 'command', command: 'npm test' },
+      { type: 'command', command: 'npm run lint' },
+      { type: 'file-exists', path: 'dist/index.html' },
+      { type: 'url-status', url: 'http://localhost:3000' },
+    ]);
+
+    const unverified = parseCliArgs(['run', 'x'], interactiveEnv);
+    expect(unverified.command === 'run' && unverified.options.verifications).toBeUndefined();
+
+    expect(() => parseCliArgs(['run', 'x', '--verify-url', 'localhost'], interactiveEnv)).toThrow(
+      '--verify-url',
+    );
+  });
+
+  it('should return help and version commands', () => {
+    expect(parseCliArgs([], interactiveEnv)).toEqual({ command: 'help' });
+    expect(parseCliArgs(['run', '--help'], interactiveEnv)).toEqual({ command: 'help' });
+    expect(parseCliArgs(['--version'], interactiveEnv)).toEqual({ command: 'version' });
+  });
+
+  it('should reject invalid usage', () => {
+    expect(() => parseCliArgs(['deploy'], interactiveEnv)).toThrow(CliUsageError);
+    expect(() => parseCliArgs(['run'], interactiveEnv)).toThrow('Missing prompt');
+    expect(() => parseCliArgs(['run', 'x', '--bogus'], interactiveEnv)).toThrow(CliUsageError);
+    expect(() => parseCliArgs(['run', 'x', '-f', 'xml'], interactiveEnv)).toThrow('--format');
+    expect(() => parseCliArgs(['run', 'x', '--model', 'sonnet'], interactiveEnv)).toThrow(
+      '--model',
+    );
+    expect(() =>
+      parseCliArgs(['run', 'x', '--auto-approve', '--deny-all'], interactiveEnv),
+    ).toThrow('cannot be used together');
+  });
+});
+
+describe('getDefaultDataDir', () => {
+  it('should match the desktop app user data location per platform', () => {
+    expect(getDefaultDataDir('darwin', '/Users/me', {})).toBe(
+      path.join('/Users/me', 'Library', 'Application Support', 'Accomplish'),
+    );
+    expect(getDefaultDataDir('win32', 'C:/Users/me', { APPDATA: 'C:/Roaming' })).toBe(
+      path.join('C:/Roaming', 'Accomplish'),
+    );
+    expect(getDefaultDataDir('linux', '/home/me', { XDG_CONFIG_HOME: '/xdg' })).toBe(
+      path.join('/xdg', 'Accomplish'),
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { createEventEmitter, formatEventAsText } from '../../../src/cli/output.js';
+
+describe('createEventEmitter', () => {
+  it('should write one JSON object per line in ndjson mode', () => {
+    const chunks: string[] = [];
+    const emit = createEventEmitter('ndjson', (chunk) => chunks.push(chunk));
+
+    emit({ type: 'status', status: 'running' });
+    emit({ type: 'complete', result: { status: 'success' } });
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks.every((chunk) => chunk.endsWith('\n'))).toBe(true);
+    const events = chunks.map((chunk) => JSON.parse(chunk));
+    expect(events[0]).toMatchObject({ type: 'status', status: 'running' });
+    expect(events[1]).toMatchObject({ type: 'complete', result: { status: 'success' } });
+    expect(typeof events[0].timestamp).toBe('string');
+  });
+
+  it('should skip events without text in text mode', () => {
+    const chunks: string[] = [];
+    const emit = createEventEmitter('text', (chunk) => chunks.push(chunk));
+
+    emit({ type: 'progress', progress: { stage: 'loading' } });
+    emit({ type: 'progress', progress: { stage: 'loading', message: 'Loading agent...' } });
+
+    expect(chunks).toEqual(['[loading] Loading agent...\n']);
+  });
+});
+
+describe('formatEventAsText', () => {
+  it('should format messages by type', () => {
+    const base = { id: 'm1', timestamp: '2024-01-01T00:00:00.000Z' };
+
+    expect(
+      formatEventAsText({
+        type: 'message',
+        message: { ...base, type: 'assistant', content: 'Hi' },
+      }),
+    ).toBe('Hi');
+    expect(
+      formatEventAsText({
+        type: 'message',
+        message: { ...base, type: 'tool', content: 'Using tool', toolName: 'Read' },
+      }),
+    ).toBe('[tool] Read');
+  });
+
+  it('should format todos with status markers', () => {
+    expect(
+      formatEventAsText({
+        type: 'todos',
+        todos: [
+          { id: '1', content: 'Plan', status: 'completed', priority: 'high' },
+          { id: '2', content: 'Build', status: 'in_progress', priority: 'medium' },
+        ],
+      }),
+    ).toBe('[x] Plan\n[~] Build');
+  });
+
+  it('should format permission decisions', () => {
+    expect(
+      formatEventAsText({
+        type: 'permission',
+        decision: 'deny',
+        request: {
+          id: 'filereq_1',
+          taskId: 'task_1',
+          type: 'file',
+          fileOperation: 'delete',
+          filePath: '/tmp/a.txt',
+          createdAt: '2024-01-01T00:00:00.000Z',
+        },
+      }),
+    ).toBe('[permission] delete /tmp/a.txt -> denied');
+  });
+
+  it('should include duration and error on completion', () => {
+    expect(
+      formatEventAsText({
+        type: 'complete',
+        result: { status: 'error', durationMs: 1500, error: 'Boom' },
+      }),
+    ).toBe('[done] error in 1.5s: Boom');
+  });
+
+  it('should list verification results before completion', () => {
+    expect(
+      formatEventAsText({
+        type: 'complete',
+        result: {
+          status: 'error',
+          error: 'Verification failed: `npm test`',
+          verification: [
+            { check: { type: 'file-exists', path: 'dist' }, passed: true, message: 'Found dist' },
+            { check: { type: 'command', command: 'npm test' }, passed: false, message: 'Exit 1' },
+          ],
+        },
+      }),
+    ).toBe(
+      '[verify] passed file exists: dist\n[verify] failed `npm test`\n[done] error: Verification failed: `npm test`',
+    );
+  });
+});
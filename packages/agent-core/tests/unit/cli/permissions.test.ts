@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { PermissionRequest } from '../../../src/common/types/permission.js';
+import type { SandboxMode } from '../../../src/common/types/sandbox.js';
+import { createPermissionHandler } from '../../../src/factories/permission-handler.js';
+import {
+  createPermissionResolver,
+  parseQuestionAnswer,
+  startPermissionServers,
+  type PermissionServers,
+} from '../../../src/cli/permissions.js';
+
+const fileRequest: PermissionRequest = {
+  id: 'filereq_1',
+  taskId: 'task_1',
+  type: 'file',
+  fileOperation: 'create',
+  filePath: '/tmp/out.txt',
+  createdAt: '2024-01-01T00:00:00.000Z',
+};
+
+const questionRequest: PermissionRequest = {
+  id: 'questionreq_1',
+  taskId: 'task_1',
+  type: 'question',
+  question: 'Which format?',
+  options: [{ label: 'CSV' }, { label: 'JSON' }],
+  createdAt: '2024-01-01T00:00:00.000Z',
+};
+
+describe('createPermissionResolver', () => {
+  it('should approve everything with auto-approve', async () => {
+    const resolver = createPermissionResolver('auto-approve');
+
+    await expect(resolver.resolveFilePermission(fileRequest)).resolves.toBe(true);
+    await expect(resolver.resolveQuestion(questionRequest)).resolves.toEqual({
+      selectedOptions: ['CSV'],
+    });
+  });
+
+  it('should deny everything with deny-all', async () => {
+    const resolver = createPermissionResolver('deny-all');
+
+    await expect(resolver.resolveFilePermission(fileRequest)).resolves.toBe(false);
+    await expect(resolver.resolveQuestion(questionRequest)).resolves.toEqual({ denied: true });
+  });
+
+  it('should ask the prompter one request at a time', async () => {
+    const answers = ['y', 'n'];
+    const asked: string[] = [];
+    const prompter = vi.fn(async (question: string) => {
+      asked.push(question);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return answers.shift() ?? '';
+    });
+    const resolver = createPermissionResolver('prompt', prompter);
+
+    const results = await Promise.all([
+      resolver.resolveFilePermission(fileRequest),
+      resolver.resolveFilePermission({ ...fileRequest, filePath: '/tmp/other.txt' }),
+    ]);
+
+    expect(results).toEqual([true, false]);
+    expect(asked[0]).toContain('Allow create /tmp/out.txt?');
+    expect(asked[1]).toContain('/tmp/other.txt');
+  });
+
+  it('should ask typed questions again until the answer fits', async () => {
+    const answers = ['12', 'abc', '8'];
+    const asked: string[] = [];
+    const prompter = vi.fn(async (question: string) => {
+      asked.push(question);
+      return answers.shift() ?? '';
+    });
+    const resolver = createPermissionResolver('prompt', prompter);
+
+    const response = await resolver.resolveQuestion({
+      ...questionRequest,
+      options: undefined,
+      inputType: 'number',
+      constraints: { min: 1, max: 10 },
+    });
+
+    expect(response).toEqual({ customText: '8' });
+    expect(asked[0]).toContain('Type a number');
+    expect(asked[1]).toContain('Invalid answer (aboveMax)');
+    expect(asked[2]).toContain('Invalid answer (notANumber)');
+  });
+
+  it('should turn y and n into yes and no for confirmations', async () => {
+    const resolver = createPermissionResolver('prompt', async () => 'Y');
+
+    await expect(
+      resolver.resolveQuestion({ ...questionRequest, options: undefined, inputType: 'confirm' }),
+    ).resolves.toEqual({ customText: 'yes' });
+  });
+});
+
+describe('parseQuestionAnswer', () => {
+  const options = [{ label: 'A' }, { label: 'B' }, { label: 'C' }];
+
+  it('should decline on empty input', () => {
+    expect(parseQuestionAnswer('', options, false)).toEqual({ denied: true });
+  });
+
+  it('should map option numbers to labels', () => {
+    expect(parseQuestionAnswer('2', options, false)).toEqual({ selectedOptions: ['B'] });
+    expect(parseQuestionAnswer('1, 3', options, true)).toEqual({ selectedOptions: ['A', 'C'] });
+  });
+
+  it('should treat anything else as custom text', () => {
+    expect(parseQuestionAnswer('1, 3', options, false)).toEqual({ customText: '1, 3' });
+    expect(parseQuestionAnswer('7', options, false)).toEqual({ customText: '7' });
+    expect(parseQuestionAnswer('something else', options, false)).toEqual({
+      customText: 'something else',
+    });
+  });
+});
+
+describe('startPermissionServers', () => {
+  let servers: PermissionServers | null = null;
+
+  afterEach(async () => {
+    await servers?.close();
+    servers = null;
+  });
+
+  it('should answer MCP permission and question requests from the resolver', async () => {
+    const onResolved = vi.fn();
+    servers = await startPermissionServers({
+      handler: createPermissionHandler(),
+      resolver: createPermissionResolver('auto-approve'),
+      getTaskId: () => 'task_1',
+      onResolved,
+    });
+
+    const permission = await fetch(`http://127.0.0.1:${servers.permissionPort}/permission`, {
+      method: 'POST',
+      body: JSON.stringify({ operation: 'create', filePath: '/tmp/out.txt' }),
+    });
+    expect(permission.status).toBe(200);
+    await expect(permission.json()).resolves.toEqual({ allowed: true });
+
+    const question = await fetch(`http://127.0.0.1:${servers.questionPort}/question`, {
+      method: 'POST',
+      body: JSON.stringify({ question: 'Which format?', options: [{ label: 'CSV' }] }),
+    });
+    expect(question.status).toBe(200);
+    await expect(question.json()).resolves.toEqual({ selectedOptions: ['CSV'] });
+
+    expect(onResolved).toHaveBeenCalledTimes(2);
+    expect(onResolved.mock.calls[0][0]).toMatchObject({ type: 'file', taskId: 'task_1' });
+    expect(onResolved.mock.calls[0][1]).toBe('allow');
+  });
+
+  it('should reject requests without an active task', async () => {
+    servers = await startPermissionServers({
+      handler: createPermissionHandler(),
+      resolver: createPermissionResolver('auto-approve'),
+      getTaskId: () => null,
+    });
+
+    const response = await fetch(`http://127.0.0.1:${servers.permissionPort}/permission`, {
+      method: 'POST',
+      body: JSON.stringify({ operation: 'create', filePath: '/tmp/out.txt' }),
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject requests outside the sandbox and escalate them in warn mode', async () => {
+    const onResolved = vi.fn();
+    const sandbox = {
+      enabled: true,
+      mode: 'reject' as SandboxMode,
+      allowedRoots: [],
+      workingDirectory: '/tmp/sandbox-work',
+    };
+    servers = await startPermissionServers({
+      handler: createPermissionHandler(),
+      resolver: createPermissionResolver('auto-approve'),
+      getTaskId: () => 'task_1',
+      sandbox,
+      onResolved,
+    });
+    const request = (filePath: string) =>
+      fetch(`http://127.0.0.1:${servers!.permissionPort}/permission`, {
+        method: 'POST',
+        body: JSON.stringify({ operation: 'modify', filePath }),
+      }).then((response) => response.json());
+
+    await expect(request('/tmp/sandbox-work/notes.md')).resolves.toEqual({ allowed: true });
+    const rejected = await request('/tmp/sandbox-work/../elsewhere.md');
+    expect(rejected.allowed).toBe(false);
+    expect(rejected.reason).toContain('/tmp/sandbox-work/../elsewhere.md');
+    expect(onResolved.mock.calls[1][1]).toBe('deny');
+
+    // Auto-approve never approves a request the sandbox escalates
+    await servers.close();
+    servers = await startPermissionServers({
+      handler: createPermissionHandler(),
+      resolver: createPermissionResolver('auto-approve'),
+      getTaskId: () => 'task_1',
+      sandbox: { ...sandbox, mode: 'warn' },
+      onResolved,
+    });
+    await expect(request('/etc/hosts')).resolves.toEqual({ allowed: false });
+    expect(onResolved.mock.calls[2][0].sandboxViolations).toEqual(['/etc/hosts']);
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createLocalApiServer } from '../../../src/factories/local-api.js';
+import type { LocalApiServerAPI } from '../../../src/types/local-api.js';
+import type { StoredTask } from '../../../src/types/storage.js';
+
+const TOKEN = 'acc_test_token';
+
+function createStoredTask(id: string): StoredTask {
+  return {
+    id,
+    prompt: 'Summarize my inbox',
+    status: 'running',
+    messages: [],
+    createdAt: new Date().toISOString(),
+  };
+}
+
+function createHandlers() {
+  const tasks = new Map<string, StoredTask>([['task_1', createStoredTask('task_1')]]);
+  return {
+    tasks,
+    startTask: vi.fn(async (config: { prompt: string }) => ({
+      ...createStoredTask('task_2'),
+      prompt: config.prompt,
+    })),
+    cancelTask: vi.fn(async (taskId: string) => {
+      tasks.get(taskId)!.status = 'cancelled';
+    }),
+    interruptTask: vi.fn(async () => {}),
+    listTasks: vi.fn(() => [...tasks.values()]),
+    getTask: vi.fn((taskId: string) => tasks.get(taskId) ?? null),
+    respondToPermission: vi.fn(async () => {}),
+  };
+}
+
+/** Read SSE events from a streaming response until `count` events arrived or the stream ended */
+async function readEvents(response: Response, count: number) {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const events: { event: string; data: Record<string, unknown> }[] = [];
+  let buffer = '';
+  while (events.length < count) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const chunk = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const event = /^event: (.+)$/m.exec(chunk)?.[1];
+      const data = /^data: (.+)$/m.exec(chunk)?.[1];
+      if (event && data) {
+        events.push({ event, data: JSON.parse(data) });
+      }
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+  return { events, reader };
+}
+
+describe('LocalApiServer', () => {
+  let handlers: ReturnType<typeof createHandlers>;
+  let server: LocalApiServerAPI;
+  let baseUrl: string;
+
+  const request = (path: string, init: RequestInit = {}, token: string | null = TOKEN) =>
+    fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    });
+
+  beforeEach(async () => {
+    handlers = createHandlers();
+    server = createLocalApiServer({ port: 0, token: TOKEN, handlers });
+    await server.start();
+    baseUrl = `http://127.0.0.1:${server.getPort()}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('rejects requests without the bearer token', async () => {
+    const missing = await request('/v1/tasks', {}, null);
+    const wrong = await request('/v1/tasks', {}, 'acc_wrong_token');
+
+    expect(missing.status).toBe(401);
+    expect(wrong.status).toBe(401);
+    expect(handlers.listTasks).not.toHaveBeenCalled();
+  });
+
+  it('lists, gets and starts tasks', async () => {
+    const list = await request('/v1/tasks');
+    expect(await list.json()).toHaveLength(1);
+
+    const task = await request('/v1/tasks/task_1');
+    expect((await task.json()).id).toBe('task_1');
+
+    const missing = await request('/v1/tasks/task_404');
+    expect(missing.status).toBe(404);
+
+    const started = await request('/v1/tasks', {
+      method: 'POST',
+      body: JSON.stringify({ prompt: 'Book a flight' }),
+    });
+    expect(started.status).toBe(201);
+    expect(handlers.startTask).toHaveBeenCalledWith({ prompt: 'Book a flight' });
+  });
+
+  it('reports invalid bodies as 400 and handler failures as 500', async () => {
+    const invalid = await request('/v1/tasks', { method: 'POST', body: '{oops' });
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual({ error: 'Invalid JSON' });
+
+    const noPrompt = await request('/v1/tasks', { method: 'POST', body: '{"prompt":"  "}' });
+    expect(noPrompt.status).toBe(400);
+    expect(await noPrompt.json()).toEqual({ error: 'prompt is required' });
+    expect(handlers.startTask).not.toHaveBeenCalled();
+
+    handlers.startTask.mockRejectedValueOnce(new Error('No provider is ready'));
+    const failed = await request('/v1/tasks', { method: 'POST', body: '{"prompt":"x"}' });
+    expect(failed.status).toBe(500);
+    expect(await failed.json()).toEqual({ error: 'No provider is ready' });
+  });
+
+  it('cancels and interrupts tasks with POST only', async () => {
+    const cancelled = await request('/v1/tasks/task_1/cancel', { method: 'POST' });
+    expect((await cancelled.json()).status).toBe('cancelled');
+
+    await request('/v1/tasks/task_1/interrupt', { method: 'POST' });
+    expect(handlers.interruptTask).toHaveBeenCalledWith('task_1');
+
+    const wrongMethod = await request('/v1/tasks/task_1/cancel');
+    expect(wrongMethod.status).toBe(405);
+  });
+
+  it('validates and forwards permission responses', async () => {
+    const invalid = await request('/v1/permissions/filereq_1', {
+      method: 'POST',
+      body: JSON.stringify({ taskId: 'task_1', decision: 'maybe' }),
+    });
+    expect(invalid.status).toBe(400);
+
+    const ok = await request('/v1/permissions/filereq_1', {
+      method: 'POST',
+      body: JSON.stringify({ taskId: 'task_1', decision: 'allow', selectedOptions: ['Yes'] }),
+    });
+    expect(ok.status).toBe(200);
+    expect(handlers.respondToPermission).toHaveBeenCalledWith({
+      requestId: 'filereq_1',
+      taskId: 'task_1',
+      decision: 'allow',
+      selectedOptions: ['Yes'],
+    });
+  });
+
+  it('streams task events and closes the stream when the task completes', async () => {
+    const response = await request('/v1/tasks/task_1/events');
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+
+    const pending = readEvents(response, 10);
+    // Give the server a tick to register the stream before publishing
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    server.publish({ type: 'progress', taskId: 'task_1', stage: 'thinking' });
+    server.publish({ type: 'progress', taskId: 'task_other', stage: 'thinking' });
+    server.publish({ type: 'complete', taskId: 'task_1', result: { status: 'success' } });
+
+    const { events } = await pending;
+    expect(events.map((e) => e.event)).toEqual(['status', 'progress', 'complete']);
+    expect(events[0].data).toEqual({ type: 'status', taskId: 'task_1', status: 'running' });
+  });
+
+  it('sends the final status and closes the stream for a finished task', async () => {
+    handlers.tasks.get('task_1')!.status = 'completed';
+
+    const response = await request('/v1/tasks/task_1/events');
+    const { events } = await readEvents(response, 10);
+
+    expect(events).toEqual([
+      { event: 'status', data: { type: 'status', taskId: 'task_1', status: 'completed' } },
+    ]);
+  });
+
+  it('fails to start when the port is already in use', async () => {
+    const other = createLocalApiServer({ port: server.getPort()!, token: TOKEN, handlers });
+
+    await expect(other.start()).rejects.toThrow(/EADDRINUSE/);
+    expect(other.isRunning()).toBe(false);
+  });
+});
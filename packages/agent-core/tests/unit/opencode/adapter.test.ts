@@ -1,5 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { OpenCodeCliNotFoundError } from '../../../src/internal/classes/OpenCodeAdapter.js';
+import { EventEmitter } from 'events';
+import type { IPty } from 'node-pty';
+import {
+  OpenCodeAdapter,
+  OpenCodeCliNotFoundError,
+} from '../../../src/internal/classes/OpenCodeAdapter.js';
+import type { TaskConfig } from '../../../src/common/types/task.js';
 import {
   NON_TASK_CONTINUATION_TOOLS,
   isNonTaskContinuationToolName,
@@ -61,6 +67,154 @@ describe('OpenCodeAdapter', () => {
   });
 });
 
+class FakePty extends EventEmitter {
+  pid = 1;
+  write = vi.fn();
+  kill = vi.fn();
+
+  onData(callback: (data: string) => void) {
+    this.on('data', callback);
+    return { dispose: () => this.off('data', callback) };
+  }
+
+  onExit(callback: (event: { exitCode: number; signal?: number }) => void) {
+    this.on('exit', callback);
+    return { dispose: () => this.off('exit', callback) };
+  }
+}
+
+/** Runs the real adapter against fake PTYs, one per spawned turn. */
+class FakePtyAdapter extends OpenCodeAdapter {
+  ptys: FakePty[] = [];
+
+  protected spawnCli(): IPty {
+    const fake = new FakePty();
+    this.ptys.push(fake);
+    return fake as unknown as IPty;
+  }
+}
+
+describe('OpenCodeAdapter model switching', () => {
+  const stepStart = JSON.stringify({
+    type: 'step_start',
+    part: { id: 'prt_1', sessionID: 'ses_1', messageID: 'msg_1', type: 'step-start' },
+  });
+  const fallback = { providerId: 'openai' as const, modelId: 'openai/gpt-4o' };
+
+  let adapter: FakePtyAdapter;
+  let buildCliArgs: ReturnType<typeof vi.fn<(config: TaskConfig) => Promise<string[]>>>;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    buildCliArgs = vi.fn(async () => []);
+    adapter = new FakePtyAdapter({
+      platform: 'linux',
+      isPackaged: false,
+      tempPath: '/tmp',
+      getCliCommand: () => ({ command: 'opencode', args: [] }),
+      buildEnvironment: async () => ({}),
+      buildCliArgs,
+    });
+    await adapter.startTask({
+      taskId: 'task_1',
+      prompt: 'Book a flight',
+      providerId: 'anthropic',
+      modelId: 'anthropic/claude-sonnet-4',
+    });
+    adapter.ptys[0].emit('data', `${stepStart}\n`);
+  });
+
+  afterEach(() => {
+    adapter.dispose();
+    vi.restoreAllMocks();
+  });
+
+  it.each([0, 1, null])(
+    'should stop the turn and resume on the new model when it exits with %s',
+    async (exitCode) => {
+      const onSwitch = vi.fn();
+      const onError = vi.fn();
+      const onComplete = vi.fn();
+      adapter.on('model-switch', onSwitch);
+      adapter.on('error', onError);
+      adapter.on('complete', onComplete);
+
+      await adapter.switchModel(fallback, 'Carry on');
+      expect(onSwitch).toHaveBeenCalledWith(fallback);
+      expect(adapter.ptys[0].write).toHaveBeenCalledWith('\x03');
+
+      adapter.ptys[0].emit('exit', { exitCode });
+      await vi.waitFor(() => expect(adapter.ptys).toHaveLength(2));
+
+      expect(buildCliArgs).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          prompt: 'Carry on',
+          sessionId: 'ses_1',
+          providerId: 'openai',
+          modelId: 'openai/gpt-4o',
+        }),
+      );
+      expect(onError).not.toHaveBeenCalled();
+      expect(onComplete).not.toHaveBeenCalled();
+    },
+  );
+
+  it('should treat a later non-zero exit as a failure again', async () => {
+    const onError = vi.fn();
+    adapter.on('error', onError);
+
+    await adapter.switchModel(fallback, 'Carry on');
+    adapter.ptys[0].emit('exit', { exitCode: 1 });
+    await vi.waitFor(() => expect(adapter.ptys).toHaveLength(2));
+
+    adapter.ptys[1].emit('exit', { exitCode: 1 });
+    expect(onError).toHaveBeenCalledWith(new Error('OpenCode CLI exited with code 1'));
+  });
+});
+
+describe('OpenCodeAdapter stdout logging', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should never log or emit secret answers', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const adapter = new FakePtyAdapter({
+      platform: 'linux',
+      isPackaged: false,
+      tempPath: '/tmp',
+      getCliCommand: () => ({ command: 'opencode', args: [] }),
+      buildEnvironment: async () => ({}),
+      buildCliArgs: async () => [],
+    });
+    const debug = vi.fn();
+    adapter.on('debug', debug);
+    await adapter.startTask({ taskId: 'task_1', prompt: 'Log in' });
+
+    const toolUse = JSON.stringify({
+      type: 'tool_use',
+      part: {
+        id: 'prt_1',
+        sessionID: 'ses_1',
+        messageID: 'msg_1',
+        type: 'tool',
+        tool: 'AskUserQuestion',
+        state: { status: 'completed', output: 'User answered: [secret]hunter2[/secret]' },
+      },
+    });
+    adapter.ptys[0].emit('data', `${toolUse}\n`);
+
+    const stdout = debug.mock.calls.filter(([event]) => event.type === 'stdout');
+    expect(stdout).toHaveLength(1);
+    expect(stdout[0][0].message).toContain('User answered: [hidden]');
+    expect(JSON.stringify(debug.mock.calls)).not.toContain('hunter2');
+    expect(JSON.stringify(log.mock.calls)).not.toContain('hunter2');
+    adapter.dispose();
+  });
+});
+
 describe('Shell escaping utilities', () => {
   // Test the escaping logic indirectly through observable behavior
   // These utilities are private but critical for security
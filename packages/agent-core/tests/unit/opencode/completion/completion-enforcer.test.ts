@@ -376,6 +376,85 @@ describe('CompletionEnforcer', () => {
     });
   });
 
+  describe('verification', () => {
+    const successArgs = {
+      status: 'success',
+      summary: 'Done',
+      original_request_summary: 'Build it',
+    };
+    const check = { type: 'command' as const, command: 'npm test' };
+
+    it('should hold success until the checks pass', async () => {
+      const run = vi
+        .fn()
+        .mockResolvedValue([{ check, passed: true, message: 'Exited with code 0' }]);
+      enforcer.setVerifications([check], run);
+
+      enforcer.handleCompleteTaskDetection(successArgs);
+      expect(enforcer.isPendingVerification()).toBe(true);
+      expect(enforcer.handleStepFinish('stop')).toBe('pending');
+
+      await enforcer.handleProcessExit(0);
+
+      expect(run).toHaveBeenCalledWith([check]);
+      expect(onCompleteMock).toHaveBeenCalled();
+      expect(onStartContinuationMock).not.toHaveBeenCalled();
+      expect(enforcer.getState()).toBe(CompletionFlowState.DONE);
+      expect(enforcer.getVerificationError()).toBeUndefined();
+    });
+
+    it('should send failed checks back to the agent and run them again on the next success', async () => {
+      const run = vi
+        .fn()
+        .mockResolvedValueOnce([{ check, passed: false, message: '2 tests failed' }])
+        .mockResolvedValueOnce([{ check, passed: true, message: 'Exited with code 0' }]);
+      enforcer.setVerifications([check], run);
+
+      enforcer.handleCompleteTaskDetection(successArgs);
+      await enforcer.handleProcessExit(0);
+
+      expect(onCompleteMock).not.toHaveBeenCalled();
+      expect(onStartContinuationMock).toHaveBeenCalledWith(
+        expect.stringContaining('2 tests failed'),
+      );
+      expect(enforcer.getVerificationError()).toBe('Verification failed: `npm test`');
+
+      expect(enforcer.handleCompleteTaskDetection(successArgs)).toBe(true);
+      await enforcer.handleProcessExit(0);
+
+      expect(run).toHaveBeenCalledTimes(2);
+      expect(onCompleteMock).toHaveBeenCalled();
+      expect(enforcer.getVerificationError()).toBeUndefined();
+    });
+
+    it('should complete with the failures once verification attempts run out', async () => {
+      const run = vi.fn().mockResolvedValue([{ check, passed: false, message: 'still failing' }]);
+      enforcer.setVerifications([check], run);
+
+      for (let attempt = 0; attempt < 4; attempt++) {
+        enforcer.handleCompleteTaskDetection(successArgs);
+        await enforcer.handleProcessExit(0);
+      }
+
+      expect(onStartContinuationMock).toHaveBeenCalledTimes(3);
+      expect(onCompleteMock).toHaveBeenCalledTimes(1);
+      expect(enforcer.getVerificationResults()).toEqual([
+        { check, passed: false, message: 'still failing' },
+      ]);
+    });
+
+    it('should not run checks for blocked or partial results', async () => {
+      const run = vi.fn();
+      enforcer.setVerifications([check], run);
+
+      enforcer.handleCompleteTaskDetection({ ...successArgs, status: 'blocked' });
+      await enforcer.handleProcessExit(0);
+
+      expect(run).not.toHaveBeenCalled();
+      expect(onCompleteMock).toHaveBeenCalled();
+    });
+  });
+
   describe('shouldComplete', () => {
     it('should return true when DONE', () => {
       enforcer.handleCompleteTaskDetection({
@@ -627,4 +706,105 @@ describe('CompletionEnforcer', () => {
       expect(action).toBe('complete'); // Max retries reached
     });
   });
+
+  describe('output schema', () => {
+    const schema = {
+      type: 'object',
+      required: ['answer'],
+      properties: { answer: { type: 'number' } },
+    };
+
+    const completeWith = (target: CompletionEnforcer, result?: unknown) =>
+      target.handleCompleteTaskDetection({
+        status: 'success',
+        summary: 'Done',
+        original_request_summary: 'Compute the answer',
+        result,
+      });
+
+    beforeEach(() => {
+      enforcer.setOutputSchema(schema);
+    });
+
+    it('should keep a valid result as the structured output', () => {
+      completeWith(enforcer, '{"answer":42}');
+
+      expect(enforcer.getState()).toBe(CompletionFlowState.DONE);
+      expect(enforcer.getStructuredOutput()).toEqual({ answer: 42 });
+      expect(enforcer.getOutputError()).toBeUndefined();
+      expect(enforcer.handleStepFinish('stop')).toBe('complete');
+    });
+
+    it('should send validation errors back as a continuation prompt', async () => {
+      completeWith(enforcer, '{"answer":"forty-two"}');
+
+      expect(enforcer.getState()).toBe(CompletionFlowState.OUTPUT_VALIDATION_PENDING);
+      expect(enforcer.shouldComplete()).toBe(false);
+      expect(enforcer.handleStepFinish('stop')).toBe('pending');
+
+      await enforcer.handleProcessExit(0);
+
+      expect(onStartContinuationMock).toHaveBeenCalledTimes(1);
+      const prompt = onStartContinuationMock.mock.calls[0][0] as string;
+      expect(prompt).toContain('/answer must be number');
+      expect(prompt).toContain('"required"');
+      expect(enforcer.isInContinuation()).toBe(true);
+      expect(onCompleteMock).not.toHaveBeenCalled();
+    });
+
+    it('should accept a corrected result after a rejected one', async () => {
+      completeWith(enforcer);
+      enforcer.handleStepFinish('stop');
+      await enforcer.handleProcessExit(0);
+
+      completeWith(enforcer, '{"answer":1}');
+
+      expect(enforcer.getState()).toBe(CompletionFlowState.DONE);
+      expect(enforcer.getStructuredOutput()).toEqual({ answer: 1 });
+    });
+
+    it('should give up after the retry limit with an output error', async () => {
+      const limitedEnforcer = new CompletionEnforcer(callbacks, 10, 1);
+      limitedEnforcer.setOutputSchema(schema);
+
+      completeWith(limitedEnforcer, '{}');
+      limitedEnforcer.handleStepFinish('stop');
+      await limitedEnforcer.handleProcessExit(0);
+      expect(onStartContinuationMock).toHaveBeenCalledTimes(1);
+
+      completeWith(limitedEnforcer, '{}');
+      limitedEnforcer.handleStepFinish('stop');
+      await limitedEnforcer.handleProcessExit(0);
+
+      expect(onStartContinuationMock).toHaveBeenCalledTimes(1);
+      expect(onCompleteMock).toHaveBeenCalledTimes(1);
+      expect(limitedEnforcer.getState()).toBe(CompletionFlowState.MAX_RETRIES_REACHED);
+      expect(limitedEnforcer.getOutputError()).toBe(
+        "Result does not match the output schema: (root) must have required property 'answer'",
+      );
+    });
+
+    it('should not treat a schema-bound task as conversational', () => {
+      expect(enforcer.handleStepFinish('stop')).toBe('pending');
+    });
+
+    it('should report a missing result when the task ends without one', () => {
+      enforcer.handleCompleteTaskDetection({
+        status: 'blocked',
+        summary: 'Login required',
+        original_request_summary: 'Compute the answer',
+      });
+
+      expect(enforcer.getOutputError()).toBe(
+        'Task finished without a result matching the output schema',
+      );
+    });
+
+    it('should clear the schema on reset', () => {
+      enforcer.reset();
+
+      expect(enforcer.getOutputError()).toBeUndefined();
+      expect(enforcer.handleStepFinish('stop')).toBe('complete');
+    });
+  });
 });
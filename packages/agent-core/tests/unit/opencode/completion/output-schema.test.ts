@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { OutputSchemaValidator } from '../../../../src/opencode/completion/output-schema.js';
+
+const schema = {
+  type: 'object',
+  required: ['title', 'count'],
+  properties: {
+    title: { type: 'string' },
+    count: { type: 'integer', minimum: 0 },
+  },
+  additionalProperties: false,
+};
+
+describe('OutputSchemaValidator', () => {
+  it('should parse and accept a matching JSON string', () => {
+    const validator = new OutputSchemaValidator(schema);
+
+    expect(validator.validate('{"title":"Report","count":3}')).toEqual({
+      valid: true,
+      output: { title: 'Report', count: 3 },
+    });
+  });
+
+  it('should accept an already-parsed value', () => {
+    const validator = new OutputSchemaValidator(schema);
+
+    expect(validator.validate({ title: 'Report', count: 0 }).valid).toBe(true);
+  });
+
+  it('should report every schema violation', () => {
+    const validator = new OutputSchemaValidator(schema);
+
+    const result = validator.validate('{"count":-1,"extra":true}');
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors).toContain("(root) must have required property 'title'");
+      expect(result.errors).toContain('/count must be >= 0');
+      expect(result.errors).toContain('(root) must NOT have additional properties');
+    }
+  });
+
+  it('should reject a missing result', () => {
+    const validator = new OutputSchemaValidator(schema);
+
+    expect(validator.validate(undefined)).toEqual({
+      valid: false,
+      errors: ['No result was provided'],
+    });
+  });
+
+  it('should reject a result that is not JSON', () => {
+    const validator = new OutputSchemaValidator(schema);
+
+    const result = validator.validate('title: Report');
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors[0]).toMatch(/^Result is not valid JSON/);
+    }
+  });
+
+  it('should throw for a schema that cannot be compiled', () => {
+    expect(() => new OutputSchemaValidator({ type: 'not-a-type' })).toThrow();
+  });
+});
@@ -5,6 +5,7 @@ import os from 'os';
 import {
   generateConfig,
   getOpenCodeConfigPath,
+  buildCliArgs,
   ACCOMPLISH_AGENT_NAME,
   ConfigGeneratorOptions,
   ProviderConfig,
@@ -21,6 +22,7 @@ describe('ConfigGenerator', () => {
     ['ask-user-question', 'dist/index.mjs'],
     ['complete-task', 'dist/index.mjs'],
     ['start-task', 'dist/index.mjs'],
+    ['report-checkpoint', 'dist/index.mjs'],
     ['dev-browser-mcp', 'dist/index.mjs'],
   ] as const;
 
@@ -176,6 +178,7 @@ describe('ConfigGenerator', () => {
       expect(result.mcpServers['dev-browser-mcp']).toBeDefined();
       expect(result.mcpServers['complete-task']).toBeDefined();
       expect(result.mcpServers['start-task']).toBeDefined();
+      expect(result.mcpServers['report-checkpoint']).toBeDefined();
     });
 
     it('should set permission API port in environment', () => {
@@ -470,6 +473,33 @@ describe('ConfigGenerator', () => {
     });
   });
 
+  describe('buildCliArgs', () => {
+    it('should pass the prompt as the last argument', () => {
+      const args = buildCliArgs({ prompt: 'Do the thing', sessionId: 'ses_1' });
+
+      expect(args).toContain('--session');
+      expect(args[args.length - 1]).toBe('Do the thing');
+    });
+
+    it('should prepend systemPromptAppend to the prompt', () => {
+      const args = buildCliArgs({ prompt: 'Continue', systemPromptAppend: 'Earlier context' });
+
+      expect(args[args.length - 1]).toBe('Earlier context\n\nContinue');
+    });
+
+    it('should describe the output schema ahead of the prompt', () => {
+      const args = buildCliArgs({
+        prompt: 'List the files',
+        outputSchema: { type: 'array', items: { type: 'string' } },
+      });
+
+      const prompt = args[args.length - 1];
+      expect(prompt).toContain('## Required Output Format');
+      expect(prompt).toContain('"type": "array"');
+      expect(prompt.endsWith('\n\nList the files')).toBe(true);
+    });
+  });
+
   describe('system prompt content', () => {
     it('should include identity section', () => {
       const options: ConfigGeneratorOptions = {
@@ -219,6 +219,11 @@ describe('sanitizeToolOutput', () => {
     const result = sanitizeToolOutput('Element [cursor=pointer] here', false);
     expect(result).toBe('Element here');
   });
+
+  it('hides secret answers', () => {
+    const result = sanitizeToolOutput('User provided the secret: [secret]hunter2[/secret]', false);
+    expect(result).toBe('User provided the secret: [hidden]');
+  });
 });
 
 describe('getToolDisplayName', () => {
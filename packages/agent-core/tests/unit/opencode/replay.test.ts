@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { OpenCodeMessage } from '../../../src/common/types/opencode.js';
+import type { TaskResult } from '../../../src/common/types/task.js';
+import type { TaskCallbacks, TaskManagerOptions } from '../../../src/types/task-manager.js';
+import {
+  OpenCodeRecorder,
+  parseOpenCodeRecording,
+  readOpenCodeRecording,
+  type OpenCodeRecording,
+  type OpenCodeRecordingEntry,
+} from '../../../src/opencode/recording.js';
+import { TaskManager } from '../../../src/internal/classes/TaskManager.js';
+
+const SESSION_ID = 'ses_1';
+
+function part(type: string, extra: Record<string, unknown> = {}) {
+  return { id: `prt_${type}`, sessionID: SESSION_ID, messageID: 'msg_1', type, ...extra };
+}
+
+const stepStart = { type: 'step_start', part: part('step-start') } as OpenCodeMessage;
+const stepFinish = {
+  type: 'step_finish',
+  part: part('step-finish', { reason: 'stop', tokens: { input: 10, output: 5, reasoning: 0 } }),
+} as OpenCodeMessage;
+const text = (value: string) =>
+  ({ type: 'text', part: part('text', { text: value }) }) as OpenCodeMessage;
+const toolUse = (tool: string, input: unknown) =>
+  ({
+    type: 'tool_use',
+    part: part('tool', { tool, state: { status: 'completed', input, output: 'ok' } }),
+  }) as OpenCodeMessage;
+
+function message(offsetMs: number, msg: OpenCodeMessage): OpenCodeRecordingEntry {
+  return { type: 'message', offsetMs, message: msg };
+}
+
+function exit(offsetMs: number, exitCode = 0): OpenCodeRecordingEntry {
+  return { type: 'exit', offsetMs, exitCode };
+}
+
+function createRecording(entries: OpenCodeRecordingEntry[]): OpenCodeRecording {
+  return {
+    version: 1,
+    taskId: 'task_recorded',
+    prompt: 'Say hello',
+    recordedAt: '2026-01-01T00:00:00.000Z',
+    entries,
+  };
+}
+
+function createOptions(recording: OpenCodeRecording, speed = 0): TaskManagerOptions {
+  return {
+    adapterOptions: {
+      platform: 'linux',
+      isPackaged: false,
+      tempPath: os.tmpdir(),
+      getCliCommand: () => ({ command: 'opencode', args: [] }),
+      buildEnvironment: async () => ({}),
+      buildCliArgs: async () => [],
+    },
+    defaultWorkingDirectory: os.tmpdir(),
+    isCliAvailable: async () => true,
+    getReplayRecording: () => recording,
+    replayOptions: { speed },
+  };
+}
+
+describe('OpenCode recording and replay', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('OpenCodeRecorder', () => {
+    let testDir: string;
+
+    beforeEach(() => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recording-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('should write messages and exits that read back as a recording', () => {
+      const filePath = path.join(testDir, 'nested', 'task_1.jsonl');
+      const recorder = new OpenCodeRecorder(filePath, { taskId: 'task_1', prompt: 'Say hello' });
+      recorder.recordMessage(text('Hello'));
+      recorder.recordExit(0);
+
+      const recording = readOpenCodeRecording(filePath);
+
+      expect(recording).toMatchObject({ version: 1, taskId: 'task_1', prompt: 'Say hello' });
+      expect(recording.entries).toEqual([
+        { type: 'message', offsetMs: expect.any(Number), message: text('Hello') },
+        { type: 'exit', offsetMs: expect.any(Number), exitCode: 0 },
+      ]);
+    });
+
+    it('should hide secret answers in recorded tool output', () => {
+      const filePath = path.join(testDir, 'task_1.jsonl');
+      const recorder = new OpenCodeRecorder(filePath, { taskId: 'task_1', prompt: 'Log in' });
+      recorder.recordMessage({
+        type: 'tool_use',
+        part: part('tool', {
+          tool: 'AskUserQuestion',
+          state: { status: 'completed', output: 'User answered: [secret]hunter"2[/secret]' },
+        }),
+      } as OpenCodeMessage);
+
+      expect(fs.readFileSync(filePath, 'utf8')).not.toContain('hunter');
+      const [entry] = readOpenCodeRecording(filePath).entries;
+      expect(entry).toMatchObject({
+        message: { part: { state: { output: 'User answered: [hidden]' } } },
+      });
+    });
+
+    it('should reject recordings from another format version', () => {
+      expect(() => parseOpenCodeRecording('{"version":2,"taskId":"t","prompt":"p"}')).toThrow(
+        'Unsupported recording version: 2',
+      );
+    });
+  });
+
+  describe('replay through TaskManager', () => {
+    let manager: TaskManager;
+    let callbacks: TaskCallbacks;
+    let completed: Promise<TaskResult>;
+
+    const replay = async (recording: OpenCodeRecording, speed = 0) => {
+      manager = new TaskManager(createOptions(recording, speed));
+      await manager.startTask('task_replay', { prompt: recording.prompt }, callbacks);
+    };
+
+    beforeEach(() => {
+      let resolveCompleted: (result: TaskResult) => void;
+      completed = new Promise((resolve) => {
+        resolveCompleted = resolve;
+      });
+      callbacks = {
+        onProgress: vi.fn(),
+        onPermissionRequest: vi.fn(),
+        onComplete: vi.fn((result: TaskResult) => resolveCompleted(result)),
+        onError: vi.fn(),
+        onStatusChange: vi.fn(),
+        onMessage: vi.fn(),
+        onStepFinish: vi.fn(),
+      };
+    });
+
+    afterEach(() => {
+      manager.dispose();
+    });
+
+    it('should reproduce the callbacks of a recorded task', async () => {
+      await replay(
+        createRecording([
+          message(10, stepStart),
+          message(20, text('Hello there')),
+          message(30, stepFinish),
+          exit(40),
+        ]),
+      );
+
+      expect(await completed).toMatchObject({ status: 'success', sessionId: SESSION_ID });
+      expect(callbacks.onMessage).toHaveBeenCalledWith(text('Hello there'));
+      expect(callbacks.onStepFinish).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: 'stop', tokens: { input: 10, output: 5, reasoning: 0 } }),
+      );
+      expect(callbacks.onError).not.toHaveBeenCalled();
+    });
+
+    it('should play the next recorded run for each continuation', async () => {
+      const startTask = toolUse('start_task', {
+        original_request: 'Say hello',
+        needs_planning: true,
+        skills: [],
+      });
+      const completeTask = toolUse('complete_task', {
+        status: 'success',
+        summary: 'Said hello',
+        original_request_summary: 'Say hello',
+      });
+
+      await replay(
+        createRecording([
+          message(10, stepStart),
+          message(20, startTask),
+          message(30, stepFinish),
+          exit(40),
+          message(50, stepStart),
+          message(60, completeTask),
+          message(70, stepFinish),
+          exit(80),
+        ]),
+      );
+
+      expect(await completed).toMatchObject({ status: 'success', sessionId: SESSION_ID });
+      expect(callbacks.onStepFinish).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop a replay on interrupt like the CLI does', async () => {
+      await replay(createRecording([message(10, stepStart), message(20, text('Working'))]));
+      await vi.waitFor(() => expect(callbacks.onMessage).toHaveBeenCalled());
+
+      await manager.interruptTask('task_replay');
+
+      expect(await completed).toMatchObject({ status: 'interrupted', sessionId: SESSION_ID });
+    });
+
+    it('should keep the recorded pace', async () => {
+      vi.useFakeTimers();
+      await replay(createRecording([message(1_000, text('Late')), exit(1_100)]), 1);
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(callbacks.onMessage).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(callbacks.onMessage).toHaveBeenCalledWith(text('Late'));
+    });
+  });
+});
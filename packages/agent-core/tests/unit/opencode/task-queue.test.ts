@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { TaskCallbacks, TaskManagerOptions } from '../../../src/types/task-manager.js';
+
+vi.mock('../../../src/internal/classes/OpenCodeAdapter.js', async () => {
+  const { EventEmitter } = await import('events');
+  class FakeAdapter extends EventEmitter {
+    running = true;
+    startTask = vi.fn(() => new Promise<never>(() => {}));
+    cancelTask = vi.fn(async () => {});
+    dispose = vi.fn();
+  }
+  class OpenCodeCliNotFoundError extends Error {}
+  return { OpenCodeAdapter: FakeAdapter, OpenCodeCliNotFoundError };
+});
+
+const { TaskManager } = await import('../../../src/internal/classes/TaskManager.js');
+
+function createOptions(): TaskManagerOptions {
+  return {
+    adapterOptions: {
+      platform: 'linux',
+      isPackaged: false,
+      tempPath: '/tmp',
+      getCliCommand: () => ({ command: 'opencode', args: [] }),
+      buildEnvironment: async () => ({}),
+      buildCliArgs: async () => [],
+    },
+    defaultWorkingDirectory: '/tmp',
+    maxConcurrentTasks: 1,
+    isCliAvailable: async () => true,
+  };
+}
+
+function createCallbacks(): TaskCallbacks {
+  return {
+    onProgress: vi.fn(),
+    onPermissionRequest: vi.fn(),
+    onComplete: vi.fn(),
+    onError: vi.fn(),
+    onStatusChange: vi.fn(),
+  };
+}
+
+describe('TaskManager queue', () => {
+  let manager: InstanceType<typeof TaskManager>;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    manager = new TaskManager({ ...createOptions(), maxConcurrentTasks: 4 });
+    for (const id of ['active-1', 'active-2', 'active-3', 'active-4']) {
+      await manager.startTask(id, { prompt: id }, createCallbacks());
+    }
+  });
+
+  afterEach(() => {
+    manager.dispose();
+    vi.restoreAllMocks();
+  });
+
+  const queuedIds = () => manager.getQueuedTasks().map((q) => q.taskId);
+
+  it('should order queued tasks by priority, then enqueue time', async () => {
+    await manager.startTask('low', { prompt: 'low', priority: -1 }, createCallbacks());
+    await manager.startTask('normal-1', { prompt: 'normal 1' }, createCallbacks());
+    await manager.startTask('high', { prompt: 'high', priority: 5 }, createCallbacks());
+    await manager.startTask('normal-2', { prompt: 'normal 2' }, createCallbacks());
+
+    expect(queuedIds()).toEqual(['high', 'normal-1', 'normal-2', 'low']);
+    expect(manager.getQueuedTasks()[0]).toMatchObject({ prompt: 'high', priority: 5 });
+  });
+
+  it('should start the highest-priority queued task when a slot frees up', async () => {
+    const normal = createCallbacks();
+    const high = createCallbacks();
+    await manager.startTask('normal', { prompt: 'normal' }, normal);
+    await manager.startTask('high', { prompt: 'high', priority: 1 }, high);
+
+    await manager.cancelTask('active-1');
+
+    expect(high.onStatusChange).toHaveBeenCalledWith('running');
+    expect(normal.onStatusChange).not.toHaveBeenCalled();
+    expect(queuedIds()).toEqual(['normal']);
+  });
+
+  it('should move a queued task and keep later enqueues behind it', async () => {
+    await manager.startTask('a', { prompt: 'a', priority: 2 }, createCallbacks());
+    await manager.startTask('b', { prompt: 'b' }, createCallbacks());
+    await manager.startTask('c', { prompt: 'c' }, createCallbacks());
+
+    expect(manager.reorderQueuedTask('c', 0)).toBe(true);
+    expect(queuedIds()).toEqual(['c', 'a', 'b']);
+    expect(manager.getQueuedTasks()[0].priority).toBe(2);
+
+    expect(manager.reorderQueuedTask('c', 99)).toBe(true);
+    expect(queuedIds()).toEqual(['a', 'b', 'c']);
+    expect(manager.getQueuedTasks()[2].priority).toBe(0);
+  });
+
+  it('should return false when reordering a task that is not queued', () => {
+    expect(manager.reorderQueuedTask('active-1', 0)).toBe(false);
+    expect(manager.reorderQueuedTask('missing', 0)).toBe(false);
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { EventEmitter } from 'events';
+import type { TaskCallbacks, TaskManagerOptions } from '../../../src/types/task-manager.js';
+
+type FakeAdapterInstance = EventEmitter & {
+  taskId: string;
+  summary?: string;
+  resumeWithSubtaskResults: ReturnType<typeof vi.fn>;
+};
+
+const adapters: FakeAdapterInstance[] = [];
+
+vi.mock('../../../src/internal/classes/OpenCodeAdapter.js', async () => {
+  const { EventEmitter } = await import('events');
+  class FakeAdapter extends EventEmitter {
+    running = true;
+    summary?: string;
+    startTask = vi.fn(() => new Promise<never>(() => {}));
+    cancelTask = vi.fn(async () => {});
+    resumeWithSubtaskResults = vi.fn(async () => {});
+    getLastAssistantMessage = vi.fn(() => this.summary);
+    dispose = vi.fn();
+
+    constructor(
+      _options: unknown,
+      public taskId: string,
+    ) {
+      super();
+      adapters.push(this as unknown as FakeAdapterInstance);
+    }
+  }
+  class OpenCodeCliNotFoundError extends Error {}
+  return { OpenCodeAdapter: FakeAdapter, OpenCodeCliNotFoundError };
+});
+
+const { TaskManager } = await import('../../../src/internal/classes/TaskManager.js');
+
+function createOptions(maxConcurrentTasks: number): TaskManagerOptions {
+  return {
+    adapterOptions: {
+      platform: 'linux',
+      isPackaged: false,
+      tempPath: '/tmp',
+      getCliCommand: () => ({ command: 'opencode', args: [] }),
+      buildEnvironment: async () => ({}),
+      buildCliArgs: async () => [],
+    },
+    defaultWorkingDirectory: '/tmp',
+    maxConcurrentTasks,
+    isCliAvailable: async () => true,
+  };
+}
+
+function createCallbacks(overrides: Partial<TaskCallbacks> = {}): TaskCallbacks {
+  return {
+    onProgress: vi.fn(),
+    onPermissionRequest: vi.fn(),
+    onComplete: vi.fn(),
+    onError: vi.fn(),
+    onStatusChange: vi.fn(),
+    ...overrides,
+  };
+}
+
+const adapterFor = (taskId: string) => adapters.find((adapter) => adapter.taskId === taskId)!;
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('TaskManager sub-tasks', () => {
+  let manager: InstanceType<typeof TaskManager>;
+  let subtaskCallbacks: Map<string, TaskCallbacks>;
+  let parentCallbacks: TaskCallbacks;
+
+  const startParent = async (maxConcurrentTasks = 1) => {
+    manager = new TaskManager(createOptions(maxConcurrentTasks));
+    await manager.startTask(
+      'parent',
+      { prompt: 'Compare laptops', providerId: 'openai', modelId: 'gpt-5', priority: 2 },
+      parentCallbacks,
+    );
+    await flush();
+  };
+
+  const fanOut = async (steps: string[]) => {
+    adapterFor('parent').emit('subtasks', { steps, goal: 'Pick one' });
+    await flush();
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    adapters.length = 0;
+    subtaskCallbacks = new Map();
+    parentCallbacks = createCallbacks({
+      createSubtaskCallbacks: vi.fn((subtaskId: string) => {
+        const callbacks = createCallbacks();
+        subtaskCallbacks.set(subtaskId, callbacks);
+        return callbacks;
+      }),
+      onSubtaskStarted: vi.fn(),
+    });
+  });
+
+  afterEach(() => {
+    manager.dispose();
+    vi.restoreAllMocks();
+  });
+
+  it('should start a child per step even when the parent holds the only slot', async () => {
+    await startParent(1);
+    await fanOut(['Research A', 'Research B']);
+
+    const [first, second] = [...subtaskCallbacks.keys()];
+    expect(manager.hasActiveTask(first)).toBe(true);
+    expect(manager.isTaskQueued(second)).toBe(true);
+    expect(parentCallbacks.onSubtaskStarted).toHaveBeenCalledWith(
+      expect.objectContaining({ id: first, parentTaskId: 'parent', status: 'running' }),
+    );
+    expect(parentCallbacks.onSubtaskStarted).toHaveBeenCalledWith(
+      expect.objectContaining({ id: second, parentTaskId: 'parent', status: 'queued' }),
+    );
+  });
+
+  it('should give children the parent model and priority', async () => {
+    await startParent(3);
+    await fanOut(['Research A']);
+
+    const [childId] = [...subtaskCallbacks.keys()];
+    const startTask = (adapterFor(childId) as unknown as { startTask: ReturnType<typeof vi.fn> })
+      .startTask;
+    expect(startTask).toHaveBeenCalledWith(
+      expect.objectContaining({
+        providerId: 'openai',
+        modelId: 'gpt-5',
+        priority: 2,
+        prompt: expect.stringContaining('Compare laptops'),
+      }),
+    );
+  });
+
+  it('should resume the parent once every child has ended', async () => {
+    await startParent(3);
+    await fanOut(['Research A', 'Research B']);
+    const [first, second] = [...subtaskCallbacks.keys()];
+
+    adapterFor(first).summary = 'A is light';
+    adapterFor(first).emit('complete', { status: 'success' });
+    expect(adapterFor('parent').resumeWithSubtaskResults).not.toHaveBeenCalled();
+
+    adapterFor(second).emit('error', new Error('Site down'));
+
+    const prompt = adapterFor('parent').resumeWithSubtaskResults.mock.calls[0][0] as string;
+    expect(prompt).toContain('### 1. Research A\nStatus: completed\nA is light');
+    expect(prompt).toContain('### 2. Research B\nStatus: failed\nError: Site down');
+    expect(subtaskCallbacks.get(first)!.onComplete).toHaveBeenCalled();
+  });
+
+  it('should cancel pending children when the parent is cancelled', async () => {
+    await startParent(1);
+    await fanOut(['Research A', 'Research B']);
+    const [first, second] = [...subtaskCallbacks.keys()];
+
+    await manager.cancelTask('parent');
+    await flush();
+
+    expect(manager.hasActiveTask(first)).toBe(false);
+    expect(manager.isTaskQueued(second)).toBe(false);
+    expect(subtaskCallbacks.get(first)!.onStatusChange).toHaveBeenCalledWith('cancelled');
+    expect(subtaskCallbacks.get(second)!.onStatusChange).toHaveBeenCalledWith('cancelled');
+  });
+
+  it('should have the parent run the steps itself when the host cannot track children', async () => {
+    parentCallbacks = createCallbacks();
+    await startParent(3);
+    await fanOut(['Research A']);
+
+    expect(manager.getActiveTaskCount()).toBe(1);
+    expect(adapterFor('parent').resumeWithSubtaskResults).toHaveBeenCalledWith(
+      expect.stringContaining('1. Research A'),
+    );
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { EventEmitter } from 'events';
+import type { TaskConfig } from '../../../src/common/types/task.js';
+import type { TaskCallbacks, TaskManagerOptions } from '../../../src/types/task-manager.js';
+
+type FakeAdapterInstance = EventEmitter & {
+  lastActivityAt: number;
+  interruptTask: ReturnType<typeof vi.fn>;
+  cancelTask: ReturnType<typeof vi.fn>;
+};
+
+const adapters: FakeAdapterInstance[] = [];
+
+vi.mock('../../../src/internal/classes/OpenCodeAdapter.js', async () => {
+  const { EventEmitter } = await import('events');
+  class FakeAdapter extends EventEmitter {
+    running = true;
+    lastActivityAt = Date.now();
+    startTask = vi.fn(() => new Promise<never>(() => {}));
+    interruptTask = vi.fn(async () => {});
+    cancelTask = vi.fn(async () => {});
+    getLastActivityAt = vi.fn(() => this.lastActivityAt);
+    isAwaitingSubtasks = vi.fn(() => false);
+    getSessionId = vi.fn(() => 'ses_1');
+    getLastAssistantMessage = vi.fn(() => undefined);
+    dispose = vi.fn();
+
+    constructor() {
+      super();
+      adapters.push(this as unknown as FakeAdapterInstance);
+    }
+  }
+  class OpenCodeCliNotFoundError extends Error {}
+  return { OpenCodeAdapter: FakeAdapter, OpenCodeCliNotFoundError };
+});
+
+const { TaskManager } = await import('../../../src/internal/classes/TaskManager.js');
+
+const MINUTE = 60_000;
+
+function createOptions(overrides: Partial<TaskManagerOptions> = {}): TaskManagerOptions {
+  return {
+    adapterOptions: {
+      platform: 'linux',
+      isPackaged: false,
+      tempPath: '/tmp',
+      getCliCommand: () => ({ command: 'opencode', args: [] }),
+      buildEnvironment: async () => ({}),
+      buildCliArgs: async () => [],
+    },
+    defaultWorkingDirectory: '/tmp',
+    isCliAvailable: async () => true,
+    ...overrides,
+  };
+}
+
+function createCallbacks(): TaskCallbacks {
+  return {
+    onProgress: vi.fn(),
+    onPermissionRequest: vi.fn(),
+    onComplete: vi.fn(),
+    onError: vi.fn(),
+    onStatusChange: vi.fn(),
+  };
+}
+
+describe('TaskManager timeouts', () => {
+  let manager: InstanceType<typeof TaskManager>;
+  let callbacks: TaskCallbacks;
+
+  const start = async (config: Partial<TaskConfig>, options?: Partial<TaskManagerOptions>) => {
+    manager = new TaskManager(createOptions(options));
+    await manager.startTask('task_1', { prompt: 'Book a flight', ...config }, callbacks);
+    await vi.advanceTimersByTimeAsync(0);
+    return adapters[adapters.length - 1];
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    adapters.length = 0;
+    callbacks = createCallbacks();
+  });
+
+  afterEach(() => {
+    manager.dispose();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should interrupt a task that runs past its wall-clock limit', async () => {
+    const adapter = await start({ maxDurationMs: MINUTE });
+
+    await vi.advanceTimersByTimeAsync(MINUTE);
+    expect(adapter.interruptTask).toHaveBeenCalled();
+
+    adapter.emit('complete', { status: 'interrupted', sessionId: 'ses_1' });
+
+    expect(callbacks.onComplete).toHaveBeenCalledWith({
+      status: 'interrupted',
+      sessionId: 'ses_1',
+      error: 'Timed out: the task ran longer than its 1 min limit',
+      timedOut: { kind: 'duration', limitMs: MINUTE },
+    });
+  });
+
+  it('should use the app default idle limit and reset it on activity', async () => {
+    const adapter = await start({}, { getDefaultTimeouts: () => ({ maxIdleMs: MINUTE }) });
+
+    await vi.advanceTimersByTimeAsync(50_000);
+    adapter.lastActivityAt = Date.now();
+    await vi.advanceTimersByTimeAsync(50_000);
+    expect(adapter.interruptTask).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(adapter.interruptTask).toHaveBeenCalled();
+  });
+
+  it('should not count time spent waiting on a permission request as idle', async () => {
+    const adapter = await start({ maxIdleMs: MINUTE });
+
+    adapter.emit('permission-request', { id: 'perm_1', taskId: 'task_1', type: 'tool' });
+    await vi.advanceTimersByTimeAsync(5 * MINUTE);
+
+    expect(adapter.interruptTask).not.toHaveBeenCalled();
+  });
+
+  it('should kill a timed-out task that ignores the interrupt', async () => {
+    const adapter = await start({ maxIdleMs: MINUTE });
+
+    await vi.advanceTimersByTimeAsync(MINUTE + 10_000);
+
+    expect(adapter.cancelTask).toHaveBeenCalled();
+    expect(callbacks.onComplete).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'interrupted',
+        timedOut: { kind: 'idle', limitMs: MINUTE },
+      }),
+    );
+    expect(manager.hasActiveTask('task_1')).toBe(false);
+  });
+
+  it('should keep the result of a task that finished anyway', async () => {
+    const adapter = await start({ maxDurationMs: MINUTE });
+
+    await vi.advanceTimersByTimeAsync(MINUTE);
+    adapter.emit('complete', { status: 'success', sessionId: 'ses_1' });
+
+    expect(callbacks.onComplete).toHaveBeenCalledWith({ status: 'success', sessionId: 'ses_1' });
+  });
+});
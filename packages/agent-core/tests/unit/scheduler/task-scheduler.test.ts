@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTaskScheduler } from '../../../src/factories/scheduler.js';
+import type { TaskSchedulerOptions } from '../../../src/types/scheduler.js';
+import type { TaskSchedule } from '../../../src/common/types/schedule.js';
+import type { Task } from '../../../src/common/types/task.js';
+
+function createMockStorage() {
+  const schedules = new Map<string, TaskSchedule>();
+  const savedTasks: Task[] = [];
+
+  return {
+    schedules,
+    savedTasks,
+    getAllSchedules: vi.fn(() => [...schedules.values()]),
+    getEnabledSchedules: vi.fn(() => [...schedules.values()].filter((s) => s.isEnabled)),
+    getScheduleById: vi.fn((id: string) => schedules.get(id) ?? null),
+    upsertSchedule: vi.fn((schedule: TaskSchedule) => {
+      schedules.set(schedule.id, { ...schedule });
+    }),
+    recordScheduleRun: vi.fn(
+      (id: string, taskId: string, runAt: string, nextRunAt: string | null) => {
+        const schedule = schedules.get(id);
+        if (schedule) {
+          schedules.set(id, {
+            ...schedule,
+            lastTaskId: taskId,
+            lastRunAt: runAt,
+            nextRunAt: nextRunAt ?? undefined,
+          });
+        }
+      },
+    ),
+    deleteSchedule: vi.fn((id: string) => {
+      schedules.delete(id);
+    }),
+    clearAllSchedules: vi.fn(() => schedules.clear()),
+    saveTask: vi.fn((task: Task) => {
+      savedTasks.push(task);
+    }),
+  };
+}
+
+function createMockTaskManager() {
+  return {
+    startTask: vi.fn(
+      async (taskId: string, config: { prompt: string }): Promise<Task> => ({
+        id: taskId,
+        prompt: config.prompt,
+        status: 'running',
+        messages: [],
+        createdAt: new Date().toISOString(),
+      }),
+    ),
+    hasActiveTask: vi.fn((_taskId: string) => false),
+  };
+}
+
+describe('TaskScheduler', () => {
+  let storage: ReturnType<typeof createMockStorage>;
+  let taskManager: ReturnType<typeof createMockTaskManager>;
+  let options: TaskSchedulerOptions;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    storage = createMockStorage();
+    taskManager = createMockTaskManager();
+    options = {
+      storage,
+      taskManager,
+      createCallbacks: vi.fn(() => ({
+        onProgress: vi.fn(),
+        onPermissionRequest: vi.fn(),
+        onComplete: vi.fn(),
+        onError: vi.fn(),
+      })),
+    };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('createSchedule', () => {
+    it('should persist the schedule with its next run time', () => {
+      const scheduler = createTaskScheduler(options);
+
+      const schedule = scheduler.createSchedule({
+        name: 'Daily report',
+        cronExpression: '0 9 * * *',
+        config: { prompt: 'Summarize my inbox' },
+      });
+
+      expect(schedule.id).toMatch(/^sched_/);
+      expect(schedule.isEnabled).toBe(true);
+      expect(schedule.nextRunAt).toBeDefined();
+      expect(storage.upsertSchedule).toHaveBeenCalledWith(schedule);
+    });
+
+    it('should reject invalid cron expressions', () => {
+      const scheduler = createTaskScheduler(options);
+
+      expect(() =>
+        scheduler.createSchedule({
+          name: 'Broken',
+          cronExpression: 'every day',
+          config: { prompt: 'x' },
+        }),
+      ).toThrow('Invalid cron expression');
+      expect(storage.upsertSchedule).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setScheduleEnabled', () => {
+    it('should clear the next run time when paused and recompute it when resumed', () => {
+      const scheduler = createTaskScheduler(options);
+      const schedule = scheduler.createSchedule({
+        name: 'Hourly',
+        cronExpression: '@hourly',
+        config: { prompt: 'Check status' },
+      });
+
+      const paused = scheduler.setScheduleEnabled(schedule.id, false);
+      expect(paused.isEnabled).toBe(false);
+      expect(paused.nextRunAt).toBeUndefined();
+
+      const resumed = scheduler.setScheduleEnabled(schedule.id, true);
+      expect(resumed.isEnabled).toBe(true);
+      expect(resumed.nextRunAt).toBeDefined();
+    });
+
+    it('should throw for unknown schedules', () => {
+      const scheduler = createTaskScheduler(options);
+
+      expect(() => scheduler.setScheduleEnabled('sched_missing', true)).toThrow(
+        'Schedule not found',
+      );
+    });
+  });
+
+  describe('checkDueSchedules', () => {
+    it('should start due schedules and record the run in task history', async () => {
+      const scheduler = createTaskScheduler(options);
+      const schedule = scheduler.createSchedule({
+        name: 'Every minute',
+        cronExpression: '* * * * *',
+        config: { prompt: 'Ping', workingDirectory: '/tmp/project' },
+      });
+
+      await scheduler.checkDueSchedules(new Date(Date.parse(schedule.nextRunAt!) + 1000));
+
+      expect(taskManager.startTask).toHaveBeenCalledTimes(1);
+      const [taskId, config] = taskManager.startTask.mock.calls[0];
+      expect(config).toEqual({ prompt: 'Ping', workingDirectory: '/tmp/project' });
+
+      expect(storage.savedTasks).toHaveLength(1);
+      expect(storage.savedTasks[0].id).toBe(taskId);
+      expect(storage.savedTasks[0].scheduleId).toBe(schedule.id);
+      expect(storage.savedTasks[0].messages[0]).toMatchObject({ type: 'user', content: 'Ping' });
+
+      const updated = storage.schedules.get(schedule.id)!;
+      expect(updated.lastTaskId).toBe(taskId);
+      expect(Date.parse(updated.nextRunAt!)).toBeGreaterThan(Date.parse(schedule.nextRunAt!));
+    });
+
+    it('should not start schedules that are not yet due or are paused', async () => {
+      const scheduler = createTaskScheduler(options);
+      const upcoming = scheduler.createSchedule({
+        name: 'Later',
+        cronExpression: '* * * * *',
+        config: { prompt: 'Later' },
+      });
+      const paused = scheduler.createSchedule({
+        name: 'Paused',
+        cronExpression: '* * * * *',
+        config: { prompt: 'Paused' },
+        isEnabled: false,
+      });
+
+      await scheduler.checkDueSchedules(new Date(Date.parse(upcoming.nextRunAt!) - 1000));
+      expect(taskManager.startTask).not.toHaveBeenCalled();
+      expect(paused.nextRunAt).toBeUndefined();
+    });
+
+    it('should skip a run while the previous run is still active', async () => {
+      const scheduler = createTaskScheduler(options);
+      const schedule = scheduler.createSchedule({
+        name: 'Overlapping',
+        cronExpression: '* * * * *',
+        config: { prompt: 'Long job' },
+      });
+      storage.schedules.set(schedule.id, { ...schedule, lastTaskId: 'task_previous' });
+      taskManager.hasActiveTask.mockReturnValue(true);
+
+      await scheduler.checkDueSchedules(new Date(Date.parse(schedule.nextRunAt!) + 1000));
+
+      expect(taskManager.startTask).not.toHaveBeenCalled();
+      expect(Date.parse(storage.schedules.get(schedule.id)!.nextRunAt!)).toBeGreaterThan(
+        Date.parse(schedule.nextRunAt!),
+      );
+    });
+
+    it('should skip the run when canRun returns false', async () => {
+      const scheduler = createTaskScheduler({ ...options, canRun: () => false });
+      const schedule = scheduler.createSchedule({
+        name: 'Not ready',
+        cronExpression: '* * * * *',
+        config: { prompt: 'Nope' },
+      });
+
+      await scheduler.checkDueSchedules(new Date(Date.parse(schedule.nextRunAt!) + 1000));
+
+      expect(taskManager.startTask).not.toHaveBeenCalled();
+    });
+
+    it('should apply prepareConfig and notify onTaskStarted', async () => {
+      const onTaskStarted = vi.fn();
+      const scheduler = createTaskScheduler({
+        ...options,
+        prepareConfig: (config) => ({ ...config, modelId: 'model-x' }),
+        onTaskStarted,
+      });
+      const schedule = scheduler.createSchedule({
+        name: 'Prepared',
+        cronExpression: '* * * * *',
+        config: { prompt: 'Go' },
+      });
+
+      await scheduler.checkDueSchedules(new Date(Date.parse(schedule.nextRunAt!) + 1000));
+
+      expect(taskManager.startTask.mock.calls[0][1]).toEqual({ prompt: 'Go', modelId: 'model-x' });
+      expect(onTaskStarted).toHaveBeenCalledWith(
+        expect.objectContaining({ scheduleId: schedule.id }),
+        expect.objectContaining({ id: schedule.id }),
+      );
+    });
+  });
+
+  describe('start/stop', () => {
+    it('should move stale next run times forward on start', () => {
+      const scheduler = createTaskScheduler(options);
+      const schedule = scheduler.createSchedule({
+        name: 'Stale',
+        cronExpression: '* * * * *',
+        config: { prompt: 'Stale' },
+      });
+      storage.schedules.set(schedule.id, {
+        ...schedule,
+        nextRunAt: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+      });
+
+      scheduler.start();
+      try {
+        expect(scheduler.isRunning()).toBe(true);
+        expect(Date.parse(storage.schedules.get(schedule.id)!.nextRunAt!)).toBeGreaterThan(
+          Date.now(),
+        );
+      } finally {
+        scheduler.stop();
+      }
+      expect(scheduler.isRunning()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import type { TaskStatus } from '../../../src/common/types/task.js';
+
+/**
+ * Requires the better-sqlite3 native module; skipped when it is not available.
+ */
+
+describe('taskHistory repository', () => {
+  let testDir: string;
+  let databaseModule: typeof import('../../../src/storage/database.js') | null = null;
+  let historyModule: typeof import('../../../src/storage/repositories/taskHistory.js') | null =
+    null;
+
+  beforeAll(async () => {
+    try {
+      databaseModule = await import('../../../src/storage/database.js');
+      historyModule = await import('../../../src/storage/repositories/taskHistory.js');
+    } catch (_err) {
+      console.warn('Skipping task history tests: better-sqlite3 native module not available');
+    }
+  });
+
+  beforeEach(() => {
+    testDir = path.join(
+      os.tmpdir(),
+      `history-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    );
+    fs.mkdirSync(testDir, { recursive: true });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    if (databaseModule) {
+      databaseModule.initializeDatabase({ databasePath: path.join(testDir, 'test.db') });
+    }
+  });
+
+  afterEach(() => {
+    databaseModule?.resetDatabaseInstance();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const saveTask = (id: string, status: TaskStatus) => {
+    historyModule!.saveTask({
+      id,
+      prompt: id,
+      status,
+      messages: [],
+      createdAt: new Date().toISOString(),
+    });
+  };
+
+  describe('updateTaskTimedOut', () => {
+    it('should store the time limit a task was stopped for', () => {
+      if (!historyModule) return;
+
+      saveTask('task_slow', 'interrupted');
+      historyModule.updateTaskTimedOut('task_slow', { kind: 'idle', limitMs: 300_000 });
+
+      expect(historyModule.getTask('task_slow')?.timedOut).toEqual({
+        kind: 'idle',
+        limitMs: 300_000,
+      });
+    });
+  });
+
+  describe('run config', () => {
+    it('should store the settings a task is started with again', () => {
+      if (!historyModule) return;
+
+      historyModule.saveTask({
+        id: 'task_config',
+        prompt: 'task_config',
+        status: 'running',
+        messages: [],
+        createdAt: new Date().toISOString(),
+        runConfig: { workingDirectory: '/work', providerId: 'openai', modelId: 'gpt-4o' },
+      });
+      expect(historyModule.getTask('task_config')?.runConfig).toEqual({
+        workingDirectory: '/work',
+        providerId: 'openai',
+        modelId: 'gpt-4o',
+      });
+
+      historyModule.updateTaskRunConfig('task_config', {
+        workingDirectory: '/work',
+        providerId: 'anthropic',
+        modelId: 'claude-haiku',
+      });
+      expect(historyModule.getTask('task_config')?.runConfig?.providerId).toBe('anthropic');
+    });
+  });
+
+  describe('reconcileOrphanedTasks', () => {
+    it('should interrupt started tasks and cancel queued ones', () => {
+      if (!historyModule) return;
+
+      saveTask('task_running', 'running');
+      saveTask('task_waiting', 'waiting_permission');
+      saveTask('task_queued', 'queued');
+      saveTask('task_pending', 'pending');
+      saveTask('task_done', 'completed');
+
+      const result = historyModule.reconcileOrphanedTasks();
+
+      expect(result.interrupted.sort()).toEqual(['task_running', 'task_waiting']);
+      expect(result.cancelled.sort()).toEqual(['task_pending', 'task_queued']);
+      expect(historyModule.getTask('task_running')?.status).toBe('interrupted');
+      expect(historyModule.getTask('task_running')?.completedAt).toBeDefined();
+      expect(historyModule.getTask('task_queued')?.status).toBe('cancelled');
+      expect(historyModule.getTask('task_done')?.status).toBe('completed');
+    });
+
+    it('should leave nothing to do on a second pass', () => {
+      if (!historyModule) return;
+
+      saveTask('task_running', 'running');
+      historyModule.reconcileOrphanedTasks();
+
+      expect(historyModule.reconcileOrphanedTasks()).toEqual({ interrupted: [], cancelled: [] });
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * Requires the better-sqlite3 native module; skipped when it is not available.
+ */
+
+describe('taskUsage repository', () => {
+  let testDir: string;
+  let databaseModule: typeof import('../../../src/storage/database.js') | null = null;
+  let usageModule: typeof import('../../../src/storage/repositories/taskUsage.js') | null = null;
+
+  beforeAll(async () => {
+    try {
+      databaseModule = await import('../../../src/storage/database.js');
+      usageModule = await import('../../../src/storage/repositories/taskUsage.js');
+    } catch (_err) {
+      console.warn('Skipping task usage tests: better-sqlite3 native module not available');
+    }
+  });
+
+  beforeEach(() => {
+    testDir = path.join(
+      os.tmpdir(),
+      `usage-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    );
+    fs.mkdirSync(testDir, { recursive: true });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    if (databaseModule) {
+      databaseModule.initializeDatabase({ databasePath: path.join(testDir, 'test.db') });
+    }
+  });
+
+  afterEach(() => {
+    databaseModule?.resetDatabaseInstance();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const step = (model: string, input: number, output: number, cost: number) => ({
+    model,
+    tokens: { input, output, reasoning: 0, cache: { read: 10, write: 0 } },
+    cost,
+  });
+
+  it('should store one record per step with the provider taken from the model ID', () => {
+    if (!usageModule) return;
+
+    usageModule.recordTaskUsage('task_1', step('anthropic/claude-sonnet-4-5', 100, 20, 0.5));
+    usageModule.recordTaskUsage('task_1', { tokens: undefined, cost: 0.1 });
+
+    const records = usageModule.getUsageForTask('task_1');
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({
+      providerId: 'anthropic',
+      modelId: 'anthropic/claude-sonnet-4-5',
+      inputTokens: 100,
+      outputTokens: 20,
+      cacheReadTokens: 10,
+      costUsd: 0.5,
+    });
+    expect(records[1]).toMatchObject({ providerId: 'unknown', modelId: 'unknown', costUsd: 0.1 });
+  });
+
+  it('should aggregate by day, provider, model and task', () => {
+    if (!usageModule) return;
+
+    usageModule.recordTaskUsage('a', step('openai/gpt-5', 100, 10, 1), '2026-03-01T10:00:00.000Z');
+    usageModule.recordTaskUsage('a', step('openai/gpt-5', 50, 5, 0.5), '2026-03-02T10:00:00.000Z');
+    usageModule.recordTaskUsage(
+      'b',
+      step('anthropic/claude-haiku', 10, 1, 0.25),
+      '2026-03-02T11:00:00.000Z',
+    );
+
+    expect(usageModule.getUsageTotals()).toMatchObject({
+      inputTokens: 160,
+      costUsd: 1.75,
+      steps: 3,
+      taskCount: 2,
+    });
+    expect(usageModule.getUsageBreakdown('day').map((row) => [row.key, row.costUsd])).toEqual([
+      ['2026-03-02', 0.75],
+      ['2026-03-01', 1],
+    ]);
+    expect(usageModule.getUsageBreakdown('provider').map((row) => row.key)).toEqual([
+      'openai',
+      'anthropic',
+    ]);
+    expect(
+      usageModule.getUsageBreakdown('model', { since: '2026-03-02T00:00:00.000Z' }),
+    ).toMatchObject([{ key: 'openai/gpt-5', costUsd: 0.5, steps: 1, taskCount: 1 }, {}]);
+
+    const byTask = usageModule.getUsageByTask();
+    expect(byTask.map((row) => row.taskId)).toEqual(['b', 'a']);
+    expect(byTask[1]).toMatchObject({
+      costUsd: 1.5,
+      steps: 2,
+      firstRecordedAt: '2026-03-01T10:00:00.000Z',
+      lastRecordedAt: '2026-03-02T10:00:00.000Z',
+    });
+    expect(byTask[1].prompt).toBeUndefined();
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseCronExpression,
+  isValidCronExpression,
+  getNextCronRun,
+} from '../../../src/utils/cron.js';
+
+/** Build a local-time date so assertions are independent of the test machine's timezone */
+function local(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  return new Date(year, month - 1, day, hour, minute, 0, 0);
+}
+
+describe('cron', () => {
+  describe('parseCronExpression', () => {
+    it('should expand wildcards, ranges, steps and lists', () => {
+      const schedule = parseCronExpression('*/15 9-17 1,15 * 1-5');
+
+      expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...schedule.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+      expect(schedule.months.size).toBe(12);
+      expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+      expect(schedule.dayOfMonthRestricted).toBe(true);
+      expect(schedule.dayOfWeekRestricted).toBe(true);
+    });
+
+    it('should accept month and weekday names', () => {
+      const schedule = parseCronExpression('0 8 * JAN,jul MON-FRI');
+
+      expect([...schedule.months]).toEqual([1, 7]);
+      expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should treat 7 as Sunday', () => {
+      const schedule = parseCronExpression('0 0 * * 7');
+
+      expect([...schedule.daysOfWeek]).toEqual([0]);
+    });
+
+    it('should expand macros', () => {
+      const schedule = parseCronExpression('@daily');
+
+      expect([...schedule.minutes]).toEqual([0]);
+      expect([...schedule.hours]).toEqual([0]);
+      expect(schedule.dayOfMonthRestricted).toBe(false);
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(() => parseCronExpression('* * * *')).toThrow('expected 5 fields');
+      expect(() => parseCronExpression('60 * * * *')).toThrow('out of range');
+      expect(() => parseCronExpression('*/0 * * * *')).toThrow('bad minute step');
+      expect(() => parseCronExpression('* 5-2 * * *')).toThrow('reversed');
+      expect(() => parseCronExpression('* * * FOO *')).toThrow('bad month value');
+    });
+  });
+
+  describe('isValidCronExpression', () => {
+    it('should report validity without throwing', () => {
+      expect(isValidCronExpression('0 9 * * 1')).toBe(true);
+      expect(isValidCronExpression('not a cron')).toBe(false);
+    });
+  });
+
+  describe('getNextCronRun', () => {
+    it('should return the next matching minute strictly after the reference time', () => {
+      const next = getNextCronRun('*/15 * * * *', local(2025, 3, 10, 9, 15));
+
+      expect(next).toEqual(local(2025, 3, 10, 9, 30));
+    });
+
+    it('should roll over to the next day', () => {
+      const next = getNextCronRun('30 8 * * *', local(2025, 3, 10, 9, 0));
+
+      expect(next).toEqual(local(2025, 3, 11, 8, 30));
+    });
+
+    it('should honour day-of-week restrictions', () => {
+      // 2025-03-14 is a Friday
+      const next = getNextCronRun('0 9 * * MON', local(2025, 3, 14, 12, 0));
+
+      expect(next).toEqual(local(2025, 3, 17, 9, 0));
+    });
+
+    it('should match either day-of-month or day-of-week when both are restricted', () => {
+      // 2025-03-12 is a Wednesday; the 15th comes before the next Monday (17th)
+      const next = getNextCronRun('0 0 15 * MON', local(2025, 3, 12, 0, 0));
+
+      expect(next).toEqual(local(2025, 3, 15, 0, 0));
+    });
+
+    it('should skip months that do not match', () => {
+      const next = getNextCronRun('0 0 1 JUN *', local(2025, 3, 10, 0, 0));
+
+      expect(next).toEqual(local(2025, 6, 1, 0, 0));
+    });
+
+    it('should return null for expressions that never match', () => {
+      expect(getNextCronRun('0 0 31 2 *', local(2025, 1, 1))).toBeNull();
+    });
+  });
+});
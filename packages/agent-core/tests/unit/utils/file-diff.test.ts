@@ -0,0 +1,117 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, afterEach } from 'vitest';
+import { computeFileDiff, readFileDiff } from '../../../src/utils/file-diff.js';
+
+function numbered(count: number): string {
+  return Array.from({ length: count }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+}
+
+describe('file diff', () => {
+  describe('computeFileDiff', () => {
+    it('produces a hunk with context around a changed line', () => {
+      const diff = computeFileDiff(numbered(10), numbered(10).replace('line 5\n', 'line five\n'));
+
+      expect(diff.additions).toBe(1);
+      expect(diff.deletions).toBe(1);
+      expect(diff.oldLineCount).toBe(10);
+      expect(diff.hunks).toHaveLength(1);
+      const [hunk] = diff.hunks;
+      expect(hunk).toMatchObject({ oldStart: 2, oldLines: 7, newStart: 2, newLines: 7 });
+      expect(hunk.lines.map((line) => line.type)).toEqual([
+        'context',
+        'context',
+        'context',
+        'remove',
+        'add',
+        'context',
+        'context',
+        'context',
+      ]);
+      expect(hunk.lines[3]).toEqual({ type: 'remove', content: 'line 5', oldLine: 5 });
+      expect(hunk.lines[4]).toEqual({ type: 'add', content: 'line five', newLine: 5 });
+    });
+
+    it('splits distant changes into separate hunks and merges close ones', () => {
+      const old = numbered(30);
+      const distant = old.replace('line 2\n', 'two\n').replace('line 25\n', 'twenty-five\n');
+      const close = old.replace('line 2\n', 'two\n').replace('line 6\n', 'six\n');
+
+      expect(computeFileDiff(old, distant).hunks).toHaveLength(2);
+      expect(computeFileDiff(old, close).hunks).toHaveLength(1);
+    });
+
+    it('treats every line of a new file as an addition', () => {
+      const diff = computeFileDiff(null, 'a\nb\n');
+
+      expect(diff.isNewFile).toBe(true);
+      expect(diff.additions).toBe(2);
+      expect(diff.hunks[0]).toMatchObject({ oldStart: 0, oldLines: 0, newStart: 1, newLines: 2 });
+    });
+
+    it('finds a minimal diff for insertions in the middle', () => {
+      const diff = computeFileDiff('a\nb\nc\nd\n', 'a\nb\nx\nc\nd\ny\n');
+
+      expect(diff.additions).toBe(2);
+      expect(diff.deletions).toBe(0);
+    });
+
+    it('reports no hunks when the content is unchanged', () => {
+      const diff = computeFileDiff('same\n', 'same\n');
+
+      expect(diff.hunks).toEqual([]);
+      expect(diff.additions).toBe(0);
+    });
+
+    it('caps the number of lines and marks the diff truncated', () => {
+      const diff = computeFileDiff(null, numbered(50), { maxLines: 20 });
+
+      expect(diff.truncated).toBe(true);
+      expect(diff.hunks[0].lines).toHaveLength(20);
+      expect(diff.additions).toBe(50);
+    });
+  });
+
+  describe('readFileDiff', () => {
+    let tempDir: string | undefined;
+
+    afterEach(() => {
+      if (tempDir) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+        tempDir = undefined;
+      }
+    });
+
+    it('diffs against the file on disk, or an empty file when it is missing', () => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-diff-'));
+      const filePath = path.join(tempDir, 'a.txt');
+      fs.writeFileSync(filePath, 'one\ntwo\n');
+
+      expect(readFileDiff(filePath, 'one\n2\n')).toMatchObject({ additions: 1, deletions: 1 });
+      expect(readFileDiff(path.join(tempDir, 'missing.txt'), 'new\n')).toMatchObject({
+        isNewFile: true,
+        additions: 1,
+      });
+    });
+
+    it('reads relative paths from the base folder and skips them without one', () => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-diff-'));
+      fs.writeFileSync(path.join(tempDir, 'a.txt'), 'one\n');
+
+      expect(readFileDiff('a.txt', 'one\ntwo\n', { baseDir: tempDir })).toMatchObject({
+        additions: 1,
+        deletions: 0,
+      });
+      expect(readFileDiff('a.txt', 'one\ntwo\n')).toBeNull();
+    });
+
+    it('skips binary content', () => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-diff-'));
+      const filePath = path.join(tempDir, 'image.bin');
+      fs.writeFileSync(filePath, Buffer.from([0, 1, 2]));
+
+      expect(readFileDiff(filePath, 'text\n')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatPermissionAudit,
+  formatPermissionAuditCsv,
+} from '../../../src/utils/permission-audit.js';
+import type { PermissionAuditEntry } from '../../../src/common/types/permission-audit.js';
+
+const fileEntry: PermissionAuditEntry = {
+  id: 2,
+  requestId: 'filereq_1',
+  taskId: 'task_1',
+  requestType: 'file',
+  fileOperation: 'move',
+  filePaths: ['/work/a.txt', '/work/b.txt'],
+  outcome: 'allowed',
+  decidedBy: 'rule',
+  ruleId: 'rule_1',
+  requestedAt: '2026-01-01T00:00:00.000Z',
+  respondedAt: '2026-01-01T00:00:01.000Z',
+};
+
+const questionEntry: PermissionAuditEntry = {
+  id: 1,
+  requestId: 'questionreq_1',
+  taskId: 'task_1',
+  requestType: 'question',
+  filePaths: [],
+  question: 'Deploy to "production", now?',
+  outcome: 'timed-out',
+  requestedAt: '2026-01-01T00:00:00.000Z',
+  respondedAt: '2026-01-01T00:05:00.000Z',
+};
+
+describe('permission audit export', () => {
+  it('writes a header and one row per entry', () => {
+    const lines = formatPermissionAuditCsv([fileEntry]).split('\r\n');
+
+    expect(lines[0]).toBe(
+      'id,requestedAt,respondedAt,taskId,requestId,requestType,fileOperation,filePaths,approvedPaths,toolName,question,outcome,decidedBy,ruleId,selectedOptions,customText',
+    );
+    expect(lines[1]).toBe(
+      '2,2026-01-01T00:00:00.000Z,2026-01-01T00:00:01.000Z,task_1,filereq_1,file,move,"/work/a.txt\n/work/b.txt",,,,allowed,rule,rule_1,,',
+    );
+  });
+
+  it('quotes fields with commas and quotes and leaves missing values empty', () => {
+    const csv = formatPermissionAuditCsv([questionEntry]);
+
+    expect(csv).toContain(',"Deploy to ""production"", now?",timed-out,,,,');
+  });
+
+  it('keeps spreadsheets from running fields as formulas', () => {
+    const csv = formatPermissionAuditCsv([
+      {
+        ...questionEntry,
+        question: '=HYPERLINK("http://evil.test","Click")',
+        selectedOptions: ['+1', 'ok'],
+        customText: '@SUM(A1)',
+      },
+    ]);
+
+    expect(csv).toContain(`,"'=HYPERLINK(""http://evil.test"",""Click"")",`);
+    expect(csv).toContain(`,"'+1\nok",'@SUM(A1)\r\n`);
+  });
+
+  it('exports JSON that round-trips', () => {
+    const json = formatPermissionAudit([fileEntry, questionEntry], 'json');
+
+    expect(JSON.parse(json)).toEqual([fileEntry, questionEntry]);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findMatchingPermissionRule,
+  matchesPathGlob,
+  validatePermissionRuleInput,
+} from '../../../src/utils/permission-rules.js';
+import type { PermissionRule } from '../../../src/common/types/permission-rule.js';
+
+function rule(overrides: Partial<PermissionRule>): PermissionRule {
+  return {
+    id: `rule_${Math.random().toString(36).slice(2)}`,
+    decision: 'allow',
+    scope: 'global',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const context = { taskId: 'task_1', workingDirectory: '/work/site' };
+
+describe('permission rules', () => {
+  describe('matchesPathGlob', () => {
+    it('keeps * within one folder and lets ** cross folders', () => {
+      expect(matchesPathGlob('/work/site/a.txt', '/work/site/*.txt')).toBe(true);
+      expect(matchesPathGlob('/work/site/docs/a.txt', '/work/site/*.txt')).toBe(false);
+      expect(matchesPathGlob('/work/site/docs/a.txt', '/work/site/**')).toBe(true);
+      expect(matchesPathGlob('/work/site/a.txt', '/work/site/**/a.txt')).toBe(true);
+      expect(matchesPathGlob('/work/other/a.txt', '/work/site/**')).toBe(false);
+    });
+
+    it('resolves relative paths and globs against the base directory', () => {
+      expect(matchesPathGlob('src/index.ts', 'src/**', '/work/site')).toBe(true);
+      expect(matchesPathGlob('/work/site/src/index.ts', 'src/*.ts', '/work/site')).toBe(true);
+      expect(matchesPathGlob('../elsewhere/index.ts', 'src/**', '/work/site')).toBe(false);
+    });
+  });
+
+  describe('findMatchingPermissionRule', () => {
+    it('matches on operation, path and tool name', () => {
+      const match = rule({ operation: 'modify', pathGlob: '/work/site/**', toolName: 'Edit' });
+      const rules = [match];
+
+      expect(
+        findMatchingPermissionRule(
+          rules,
+          { fileOperation: 'modify', filePath: '/work/site/a.ts', toolName: 'edit' },
+          context,
+        ),
+      ).toBe(match);
+      expect(
+        findMatchingPermissionRule(
+          rules,
+          { fileOperation: 'delete', filePath: '/work/site/a.ts', toolName: 'Edit' },
+          context,
+        ),
+      ).toBeNull();
+      expect(
+        findMatchingPermissionRule(
+          rules,
+          { fileOperation: 'modify', filePath: '/work/site/a.ts', toolName: 'Bash' },
+          context,
+        ),
+      ).toBeNull();
+    });
+
+    it('requires every path, including a move destination, to match', () => {
+      const rules = [rule({ pathGlob: '/work/site/**' })];
+
+      expect(
+        findMatchingPermissionRule(
+          rules,
+          { fileOperation: 'move', filePath: '/work/site/a.ts', targetPath: '/tmp/a.ts' },
+          context,
+        ),
+      ).toBeNull();
+      expect(
+        findMatchingPermissionRule(
+          rules,
+          { fileOperation: 'delete', filePaths: ['/work/site/a.ts', '/work/site/b/c.ts'] },
+          context,
+        ),
+      ).not.toBeNull();
+    });
+
+    it('only applies task and project rules in their scope', () => {
+      const taskRule = rule({ scope: 'task', taskId: 'task_2', operation: 'create' });
+      const projectRule = rule({
+        scope: 'project',
+        workingDirectory: '/work/site',
+        operation: 'create',
+      });
+      const request = { fileOperation: 'create' as const, filePath: '/work/site/new.ts' };
+
+      expect(findMatchingPermissionRule([taskRule], request, context)).toBeNull();
+      expect(
+        findMatchingPermissionRule([taskRule], request, { ...context, taskId: 'task_2' }),
+      ).toBe(taskRule);
+      expect(findMatchingPermissionRule([projectRule], request, context)).toBe(projectRule);
+      expect(
+        findMatchingPermissionRule([projectRule], request, {
+          ...context,
+          workingDirectory: '/work/other',
+        }),
+      ).toBeNull();
+    });
+
+    it('lets a deny rule win over an allow rule', () => {
+      const allow = rule({ pathGlob: '/work/site/**' });
+      const deny = rule({ decision: 'deny', operation: 'delete' });
+
+      expect(
+        findMatchingPermissionRule(
+          [allow, deny],
+          { fileOperation: 'delete', filePath: '/work/site/a.ts' },
+          context,
+        ),
+      ).toBe(deny);
+    });
+  });
+
+  describe('validatePermissionRuleInput', () => {
+    it('sanitizes a well-formed rule', () => {
+      expect(
+        validatePermissionRuleInput({
+          decision: 'allow',
+          scope: 'project',
+          operation: 'create',
+          pathGlob: '  src/**  ',
+          workingDirectory: '/work/site',
+        }),
+      ).toMatchObject({
+        decision: 'allow',
+        scope: 'project',
+        operation: 'create',
+        pathGlob: 'src/**',
+        workingDirectory: '/work/site',
+      });
+    });
+
+    it('rejects malformed rules and rules that match everything', () => {
+      expect(() => validatePermissionRuleInput({ decision: 'maybe', scope: 'global' })).toThrow();
+      expect(() =>
+        validatePermissionRuleInput({ decision: 'allow', scope: 'global', operation: 'copy' }),
+      ).toThrow();
+      expect(() => validatePermissionRuleInput({ decision: 'allow', scope: 'global' })).toThrow(
+        /needs an operation, a path or a tool/,
+      );
+      expect(() =>
+        validatePermissionRuleInput({ decision: 'allow', scope: 'task', operation: 'create' }),
+      ).toThrow(/needs a task/);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateQuestionAnswer,
+  validateQuestionInput,
+} from '../../../src/common/utils/question-answer.js';
+
+describe('validateQuestionInput', () => {
+  it('should accept known input types with usable constraints', () => {
+    expect(validateQuestionInput('choice')).toBeNull();
+    expect(validateQuestionInput('text', { pattern: '[a-z]+', maxLength: 10 })).toBeNull();
+    expect(validateQuestionInput('date', { minDate: '2024-02-29' })).toBeNull();
+  });
+
+  it('should reject unknown input types', () => {
+    expect(validateQuestionInput('color')).toContain('inputType must be one of');
+  });
+
+  it('should reject patterns that do not compile', () => {
+    expect(validateQuestionInput('text', { pattern: '([a-z' })).toContain('not a valid regular');
+  });
+
+  it('should reject non-numeric limits and non-positive steps', () => {
+    expect(validateQuestionInput('number', { min: '1' as unknown as number })).toBe(
+      'constraints.min must be a number',
+    );
+    expect(validateQuestionInput('number', { step: 0 })).toBe(
+      'constraints.step must be greater than 0',
+    );
+  });
+
+  it('should reject dates that do not exist', () => {
+    expect(validateQuestionInput('date', { maxDate: '2023-02-29' })).toBe(
+      'constraints.maxDate must be a date as YYYY-MM-DD',
+    );
+  });
+});
+
+describe('validateQuestionAnswer', () => {
+  it('should never check option answers', () => {
+    expect(validateQuestionAnswer('choice', {}, undefined)).toBeNull();
+  });
+
+  it('should require an answer for typed questions', () => {
+    expect(validateQuestionAnswer('text', {}, '')).toBe('required');
+    expect(validateQuestionAnswer('file', {}, undefined)).toBe('required');
+  });
+
+  it('should check text length and match the whole pattern', () => {
+    const constraints = { minLength: 2, maxLength: 4, pattern: '[A-Z]+' };
+    expect(validateQuestionAnswer('text', constraints, 'A')).toBe('tooShort');
+    expect(validateQuestionAnswer('text', constraints, 'ABCDE')).toBe('tooLong');
+    expect(validateQuestionAnswer('secret', constraints, 'ABc')).toBe('pattern');
+    expect(validateQuestionAnswer('text', constraints, 'ABC')).toBeNull();
+  });
+
+  it('should check numbers against the range and step', () => {
+    const constraints = { min: 1, max: 2, step: 0.1 };
+    expect(validateQuestionAnswer('number', constraints, 'abc')).toBe('notANumber');
+    expect(validateQuestionAnswer('number', constraints, '0.9')).toBe('belowMin');
+    expect(validateQuestionAnswer('number', constraints, '2.1')).toBe('aboveMax');
+    expect(validateQuestionAnswer('number', constraints, '1.25')).toBe('step');
+    expect(validateQuestionAnswer('number', constraints, '1.3')).toBeNull();
+  });
+
+  it('should check dates against the range', () => {
+    const constraints = { minDate: '2024-01-01', maxDate: '2024-12-31' };
+    expect(validateQuestionAnswer('date', constraints, '2024-13-01')).toBe('notADate');
+    expect(validateQuestionAnswer('date', constraints, '2023-12-31')).toBe('beforeMinDate');
+    expect(validateQuestionAnswer('date', constraints, '2025-01-01')).toBe('afterMaxDate');
+    expect(validateQuestionAnswer('date', constraints, '2024-06-15')).toBeNull();
+  });
+
+  it('should only accept yes or no for confirmations', () => {
+    expect(validateQuestionAnswer('confirm', {}, 'yes')).toBeNull();
+    expect(validateQuestionAnswer('confirm', {}, 'no')).toBeNull();
+    expect(validateQuestionAnswer('confirm', {}, 'maybe')).toBe('notYesOrNo');
+  });
+});
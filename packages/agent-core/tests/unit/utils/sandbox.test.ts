@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  findSandboxViolations,
+  isPathWithinRoot,
+  resolveSandboxPath,
+} from '../../../src/utils/sandbox.js';
+
+describe('sandbox', () => {
+  let tempDir: string;
+  let workDir: string;
+  let outsideDir: string;
+
+  beforeAll(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-test-')));
+    workDir = path.join(tempDir, 'work');
+    outsideDir = path.join(tempDir, 'outside');
+    fs.mkdirSync(workDir);
+    fs.mkdirSync(outsideDir);
+    fs.symlinkSync(outsideDir, path.join(workDir, 'escape'), 'dir');
+    fs.mkdirSync(path.join(outsideDir, 'a', 'b'), { recursive: true });
+    fs.symlinkSync(path.join(outsideDir, 'a', 'b'), path.join(workDir, 'deep'), 'dir');
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('resolveSandboxPath', () => {
+    it('should collapse relative segments against the base directory', () => {
+      expect(resolveSandboxPath('notes/../a.txt', workDir)).toBe(path.join(workDir, 'a.txt'));
+    });
+
+    it('should follow symlinks and keep segments that do not exist yet', () => {
+      expect(resolveSandboxPath(path.join(workDir, 'escape', 'new', 'file.txt'), workDir)).toBe(
+        path.join(outsideDir, 'new', 'file.txt'),
+      );
+    });
+
+    it('should follow a symlink before the `..` after it', () => {
+      const expected = path.join(outsideDir, 'a', 'x.txt');
+      expect(resolveSandboxPath(['deep', '..', 'x.txt'].join(path.sep), workDir)).toBe(expected);
+      expect(resolveSandboxPath([workDir, 'deep', '..', 'x.txt'].join(path.sep), workDir)).toBe(
+        expected,
+      );
+    });
+  });
+
+  describe('isPathWithinRoot', () => {
+    it('should accept the root and paths beneath it', () => {
+      expect(isPathWithinRoot(workDir, workDir)).toBe(true);
+      expect(isPathWithinRoot(path.join(workDir, 'a', 'b.txt'), workDir)).toBe(true);
+    });
+
+    it('should reject siblings that share a prefix', () => {
+      expect(isPathWithinRoot(`${workDir}-other`, workDir)).toBe(false);
+      expect(isPathWithinRoot(tempDir, workDir)).toBe(false);
+    });
+  });
+
+  describe('findSandboxViolations', () => {
+    it('should allow paths inside the working directory', () => {
+      expect(
+        findSandboxViolations(
+          { filePath: path.join(workDir, 'a.txt'), filePaths: ['b.txt'] },
+          workDir,
+        ),
+      ).toEqual([]);
+    });
+
+    it('should report traversal, symlink escapes and move destinations', () => {
+      const traversal = path.join(workDir, '..', 'outside', 'a.txt');
+      const throughLink = path.join(workDir, 'escape', 'b.txt');
+      const destination = path.join(outsideDir, 'moved.txt');
+
+      expect(
+        findSandboxViolations(
+          {
+            filePaths: [traversal, throughLink, path.join(workDir, 'ok.txt')],
+            targetPath: destination,
+          },
+          workDir,
+        ),
+      ).toEqual([traversal, throughLink, destination]);
+    });
+
+    it('should report a symlink followed by `..` that leaves the working directory', () => {
+      const filePath = [workDir, 'deep', '..', 'x.txt'].join(path.sep);
+      expect(findSandboxViolations({ filePath }, workDir)).toEqual([filePath]);
+    });
+
+    it('should allow paths under an extra allowed root', () => {
+      expect(
+        findSandboxViolations({ filePath: path.join(workDir, 'escape', 'b.txt') }, workDir, [
+          outsideDir,
+        ]),
+      ).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createSnapshot,
+  diffSnapshot,
+  pruneSnapshotObjects,
+  rollbackToSnapshot,
+} from '../../../src/utils/snapshot.js';
+
+describe('snapshot', () => {
+  let tempDir: string;
+  let storeRoot: string;
+  let workDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshot-test-'));
+    storeRoot = path.join(tempDir, 'store');
+    workDir = path.join(tempDir, 'work');
+    fs.mkdirSync(path.join(workDir, 'src'), { recursive: true });
+    fs.writeFileSync(path.join(workDir, 'README.md'), '# Project\n');
+    fs.writeFileSync(path.join(workDir, 'src', 'index.ts'), 'export {};\n');
+    fs.writeFileSync(path.join(workDir, 'src', 'copy.ts'), 'export {};\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('createSnapshot', () => {
+    it('should list files and folders and store identical content once', async () => {
+      const manifest = await createSnapshot(storeRoot, workDir);
+
+      expect(Object.keys(manifest!.files).sort()).toEqual([
+        'README.md',
+        path.join('src', 'copy.ts'),
+        path.join('src', 'index.ts'),
+      ]);
+      expect(manifest!.directories).toEqual(['src']);
+      const objects = fs
+        .readdirSync(path.join(storeRoot, 'objects'))
+        .flatMap((prefix) => fs.readdirSync(path.join(storeRoot, 'objects', prefix)));
+      expect(objects).toHaveLength(2);
+    });
+
+    it('should skip ignored folders', async () => {
+      fs.mkdirSync(path.join(workDir, 'node_modules', 'pkg'), { recursive: true });
+      fs.writeFileSync(path.join(workDir, 'node_modules', 'pkg', 'index.js'), '');
+
+      const manifest = await createSnapshot(storeRoot, workDir);
+
+      expect(Object.keys(manifest!.files)).not.toContain(
+        path.join('node_modules', 'pkg', 'index.js'),
+      );
+      expect(manifest!.directories).not.toContain('node_modules');
+    });
+
+    it('should list large files without keeping their content', async () => {
+      fs.writeFileSync(path.join(workDir, 'big.bin'), Buffer.alloc(64));
+
+      const manifest = await createSnapshot(storeRoot, workDir, { maxFileBytes: 32 });
+
+      expect(manifest!.files['big.bin']).toMatchObject({ hash: null, size: 64 });
+    });
+
+    it('should return null when the folder has too many files', async () => {
+      expect(await createSnapshot(storeRoot, workDir, { maxFiles: 2 })).toBeNull();
+    });
+  });
+
+  describe('diffSnapshot', () => {
+    it('should report modified, created, and deleted files', async () => {
+      const manifest = await createSnapshot(storeRoot, workDir);
+      fs.writeFileSync(path.join(workDir, 'README.md'), '# Changed\n');
+      fs.rmSync(path.join(workDir, 'src', 'copy.ts'));
+      fs.writeFileSync(path.join(workDir, 'new.txt'), 'new');
+
+      const changes = await diffSnapshot(workDir, manifest!);
+
+      expect(changes).toEqual([
+        { path: 'new.txt', change: 'created' },
+        { path: 'README.md', change: 'modified' },
+        { path: path.join('src', 'copy.ts'), change: 'deleted' },
+      ]);
+    });
+
+    it('should report nothing when the folder is unchanged', async () => {
+      const manifest = await createSnapshot(storeRoot, workDir);
+
+      expect(await diffSnapshot(workDir, manifest!)).toEqual([]);
+    });
+  });
+
+  describe('rollbackToSnapshot', () => {
+    it('should restore the folder to the snapshot', async () => {
+      const manifest = await createSnapshot(storeRoot, workDir);
+      fs.writeFileSync(path.join(workDir, 'README.md'), '# Changed\n');
+      fs.rmSync(path.join(workDir, 'src'), { recursive: true });
+      fs.mkdirSync(path.join(workDir, 'dist', 'nested'), { recursive: true });
+      fs.writeFileSync(path.join(workDir, 'dist', 'nested', 'out.js'), 'built');
+
+      const result = await rollbackToSnapshot(storeRoot, workDir, manifest!);
+
+      expect(result).toEqual({ restored: 3, removed: 1, failed: [] });
+      expect(fs.readFileSync(path.join(workDir, 'README.md'), 'utf8')).toBe('# Project\n');
+      expect(fs.readFileSync(path.join(workDir, 'src', 'index.ts'), 'utf8')).toBe('export {};\n');
+      expect(fs.existsSync(path.join(workDir, 'dist'))).toBe(false);
+      expect(await diffSnapshot(workDir, manifest!)).toEqual([]);
+    });
+
+    it('should replace a file the agent swapped for a symlink without writing through it', async () => {
+      const manifest = await createSnapshot(storeRoot, workDir);
+      const outside = path.join(tempDir, 'outside.md');
+      fs.writeFileSync(outside, 'outside\n');
+      fs.rmSync(path.join(workDir, 'README.md'));
+      fs.symlinkSync(outside, path.join(workDir, 'README.md'));
+
+      const result = await rollbackToSnapshot(storeRoot, workDir, manifest!);
+
+      expect(result.failed).toEqual([]);
+      expect(fs.lstatSync(path.join(workDir, 'README.md')).isSymbolicLink()).toBe(false);
+      expect(fs.readFileSync(path.join(workDir, 'README.md'), 'utf8')).toBe('# Project\n');
+      expect(fs.readFileSync(outside, 'utf8')).toBe('outside\n');
+    });
+
+    it('should refuse to restore through a folder the agent swapped for a symlink', async () => {
+      const manifest = await createSnapshot(storeRoot, workDir);
+      const outsideDir = path.join(tempDir, 'outside');
+      fs.mkdirSync(outsideDir);
+      fs.rmSync(path.join(workDir, 'src'), { recursive: true });
+      fs.symlinkSync(outsideDir, path.join(workDir, 'src'), 'dir');
+
+      const result = await rollbackToSnapshot(storeRoot, workDir, manifest!);
+
+      expect(result.failed.sort()).toEqual([
+        path.join('src', 'copy.ts'),
+        path.join('src', 'index.ts'),
+      ]);
+      expect(fs.readdirSync(outsideDir)).toEqual([]);
+    });
+
+    it('should leave files whose content was not kept alone', async () => {
+      fs.writeFileSync(path.join(workDir, 'big.bin'), Buffer.alloc(64));
+      const manifest = await createSnapshot(storeRoot, workDir, { maxFileBytes: 32 });
+      fs.writeFileSync(path.join(workDir, 'big.bin'), Buffer.alloc(128));
+
+      await rollbackToSnapshot(storeRoot, workDir, manifest!);
+
+      expect(fs.statSync(path.join(workDir, 'big.bin')).size).toBe(128);
+    });
+  });
+
+  describe('pruneSnapshotObjects', () => {
+    it('should remove content no snapshot refers to', async () => {
+      const manifest = await createSnapshot(storeRoot, workDir);
+      const readmeHash = manifest!.files['README.md'].hash!;
+
+      const removed = await pruneSnapshotObjects(storeRoot, new Set([readmeHash]));
+
+      expect(removed).toBe(1);
+      expect(
+        fs.existsSync(path.join(storeRoot, 'objects', readmeHash.slice(0, 2), readmeHash)),
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createThoughtStreamHandler } from '../../../src/factories/thought-stream.js';
+import { getStuckModelSwitchPrompt, validateStuckPolicy } from '../../../src/utils/stuck-policy.js';
+import type { CheckpointEvent, StuckPolicy } from '../../../src/common/types/thought-stream.js';
+import type { ThoughtStreamAPI } from '../../../src/types/thought-stream.js';
+
+function stuck(
+  taskId = 'task_1',
+  blocker = 'Login page rejects the test account',
+): CheckpointEvent {
+  return {
+    taskId,
+    status: 'stuck',
+    summary: 'Trying to sign in',
+    blocker,
+    agentName: 'agent',
+    timestamp: Date.now(),
+  };
+}
+
+describe('stuck policy', () => {
+  describe('validateStuckPolicy', () => {
+    it('keeps a well-formed policy', () => {
+      expect(
+        validateStuckPolicy({
+          action: 'switch-model',
+          fallbackModel: { providerId: 'anthropic', modelId: 'claude-opus' },
+          abortAfter: 3,
+        }),
+      ).toEqual({
+        action: 'switch-model',
+        fallbackModel: { providerId: 'anthropic', modelId: 'claude-opus' },
+        abortAfter: 3,
+      });
+    });
+
+    it('rejects unknown actions and drops invalid fields', () => {
+      expect(validateStuckPolicy({ action: 'explode' })).toBeUndefined();
+      expect(validateStuckPolicy('ask-user')).toBeUndefined();
+      expect(validateStuckPolicy({ action: 'ask-user', abortAfter: 0 })).toEqual({
+        action: 'ask-user',
+      });
+    });
+
+    it('falls back to notify when switch-model has no fallback model', () => {
+      expect(validateStuckPolicy({ action: 'switch-model', abortAfter: 2 })).toEqual({
+        action: 'notify',
+        abortAfter: 2,
+      });
+    });
+  });
+
+  describe('evaluateCheckpoint', () => {
+    let handler: ThoughtStreamAPI;
+
+    beforeEach(() => {
+      handler = createThoughtStreamHandler();
+      handler.registerTask('task_1');
+    });
+
+    it('ignores progress reports, inactive tasks and tasks without a policy', () => {
+      const policy: StuckPolicy = { action: 'ask-user' };
+      expect(handler.evaluateCheckpoint({ ...stuck(), status: 'progress' }, policy)).toBeNull();
+      expect(handler.evaluateCheckpoint(stuck('task_unknown'), policy)).toBeNull();
+      expect(handler.evaluateCheckpoint(stuck())).toBeNull();
+    });
+
+    it('asks the user on every stuck report', () => {
+      const policy: StuckPolicy = { action: 'ask-user' };
+      expect(handler.evaluateCheckpoint(stuck(), policy)).toEqual({
+        action: 'ask-user',
+        stuckCount: 1,
+      });
+      expect(handler.evaluateCheckpoint(stuck(), policy)).toEqual({
+        action: 'ask-user',
+        stuckCount: 2,
+      });
+    });
+
+    it('switches to the fallback model only once', () => {
+      const policy: StuckPolicy = {
+        action: 'switch-model',
+        fallbackModel: { providerId: 'openai', modelId: 'gpt-5' },
+      };
+      expect(handler.evaluateCheckpoint(stuck(), policy)).toEqual({
+        action: 'switch-model',
+        stuckCount: 1,
+        fallbackModel: { providerId: 'openai', modelId: 'gpt-5' },
+      });
+      expect(handler.evaluateCheckpoint(stuck(), policy)).toBeNull();
+    });
+
+    it('aborts once the stuck count reaches abortAfter', () => {
+      const policy: StuckPolicy = { action: 'notify', abortAfter: 2 };
+      expect(handler.evaluateCheckpoint(stuck(), policy)).toBeNull();
+      expect(handler.evaluateCheckpoint(stuck(), policy)).toEqual({
+        action: 'abort',
+        stuckCount: 2,
+        reason:
+          'Aborted after the agent reported being stuck 2 time(s): Login page rejects the test account',
+      });
+    });
+
+    it('resets the stuck count when the task is unregistered', () => {
+      const policy: StuckPolicy = { action: 'notify', abortAfter: 2 };
+      handler.evaluateCheckpoint(stuck(), policy);
+      handler.unregisterTask('task_1');
+      handler.registerTask('task_1');
+      expect(handler.evaluateCheckpoint(stuck(), policy)).toBeNull();
+    });
+  });
+
+  it('builds a continuation prompt that carries the blocker', () => {
+    const prompt = getStuckModelSwitchPrompt(stuck());
+    expect(prompt).toContain('Login page rejects the test account');
+    expect(prompt).toContain('Trying to sign in');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { getFilePermissionArtifacts } from '../../../src/utils/task-artifacts.js';
+
+describe('getFilePermissionArtifacts', () => {
+  it('should return a single artifact for a single-file request', () => {
+    expect(
+      getFilePermissionArtifacts({ fileOperation: 'create', filePath: '/work/notes.md' }),
+    ).toEqual([{ operation: 'create', filePath: '/work/notes.md' }]);
+  });
+
+  it('should return one artifact per path in a batch, ignoring duplicates', () => {
+    expect(
+      getFilePermissionArtifacts({
+        fileOperation: 'delete',
+        filePath: '/work/a.txt',
+        filePaths: ['/work/a.txt', '/work/b.txt', '/work/a.txt'],
+      }),
+    ).toEqual([
+      { operation: 'delete', filePath: '/work/a.txt' },
+      { operation: 'delete', filePath: '/work/b.txt' },
+    ]);
+  });
+
+  it('should keep the destination of a move or rename', () => {
+    expect(
+      getFilePermissionArtifacts({
+        fileOperation: 'rename',
+        filePath: '/work/old.txt',
+        targetPath: '/work/new.txt',
+      }),
+    ).toEqual([{ operation: 'rename', filePath: '/work/old.txt', targetPath: '/work/new.txt' }]);
+  });
+
+  it('should ignore a target path for operations that do not move files', () => {
+    expect(
+      getFilePermissionArtifacts({
+        fileOperation: 'modify',
+        filePath: '/work/a.txt',
+        targetPath: '/work/b.txt',
+      }),
+    ).toEqual([{ operation: 'modify', filePath: '/work/a.txt' }]);
+  });
+
+  it('should return nothing when the request has no file operation or path', () => {
+    expect(getFilePermissionArtifacts({ filePath: '/work/a.txt' })).toEqual([]);
+    expect(getFilePermissionArtifacts({ fileOperation: 'create' })).toEqual([]);
+  });
+});
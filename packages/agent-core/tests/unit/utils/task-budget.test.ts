@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addStepUsage,
+  createEmptyTaskUsage,
+  formatBudgetExceeded,
+  getBudgetWarningThreshold,
+  getTaskBudgetStatus,
+  isTaskBudgetEmpty,
+} from '../../../src/utils/task-budget.js';
+
+describe('task-budget', () => {
+  describe('addStepUsage', () => {
+    it('should accumulate tokens, cost and steps without mutating the total', () => {
+      const empty = createEmptyTaskUsage();
+      const once = addStepUsage(empty, {
+        tokens: { input: 100, output: 20, reasoning: 5, cache: { read: 50, write: 10 } },
+        cost: 0.01,
+      });
+      const twice = addStepUsage(once, { tokens: { input: 40, output: 10, reasoning: 0 } });
+
+      expect(empty.steps).toBe(0);
+      expect(twice).toEqual({
+        inputTokens: 140,
+        outputTokens: 30,
+        reasoningTokens: 5,
+        cacheReadTokens: 50,
+        cacheWriteTokens: 10,
+        costUsd: 0.01,
+        steps: 2,
+      });
+    });
+
+    it('should count missing or non-numeric values as zero', () => {
+      const usage = addStepUsage(createEmptyTaskUsage(), {
+        tokens: { input: NaN, output: 5, reasoning: 0 },
+      });
+
+      expect(usage.inputTokens).toBe(0);
+      expect(usage.outputTokens).toBe(5);
+      expect(usage.costUsd).toBe(0);
+      expect(usage.steps).toBe(1);
+    });
+  });
+
+  describe('getTaskBudgetStatus', () => {
+    it('should report only the limits that are set, most consumed first', () => {
+      const usage = {
+        ...createEmptyTaskUsage(),
+        inputTokens: 500,
+        outputTokens: 80,
+        reasoningTokens: 20,
+        costUsd: 0.9,
+        steps: 3,
+      };
+
+      const statuses = getTaskBudgetStatus(usage, {
+        maxInputTokens: 1000,
+        maxOutputTokens: 100,
+        maxCostUsd: 1,
+      });
+
+      expect(statuses.map((status) => status.limit)).toEqual([
+        'maxOutputTokens',
+        'maxCostUsd',
+        'maxInputTokens',
+      ]);
+      expect(statuses[0]).toEqual({ limit: 'maxOutputTokens', used: 100, max: 100, ratio: 1 });
+    });
+
+    it('should ignore zero limits', () => {
+      expect(getTaskBudgetStatus(createEmptyTaskUsage(), { maxSteps: 0 })).toEqual([]);
+    });
+  });
+
+  describe('isTaskBudgetEmpty', () => {
+    it('should treat a budget without positive limits as empty', () => {
+      expect(isTaskBudgetEmpty(undefined)).toBe(true);
+      expect(isTaskBudgetEmpty({ warningThreshold: 0.5 })).toBe(true);
+      expect(isTaskBudgetEmpty({ maxSteps: 10 })).toBe(false);
+    });
+  });
+
+  describe('getBudgetWarningThreshold', () => {
+    it('should fall back to the default for missing or out-of-range thresholds', () => {
+      expect(getBudgetWarningThreshold({})).toBe(0.8);
+      expect(getBudgetWarningThreshold({ warningThreshold: 1.5 })).toBe(0.8);
+      expect(getBudgetWarningThreshold({ warningThreshold: 0.5 })).toBe(0.5);
+    });
+  });
+
+  describe('formatBudgetExceeded', () => {
+    it('should describe which limit was reached', () => {
+      expect(formatBudgetExceeded({ limit: 'maxCostUsd', used: 1.2712, max: 1, ratio: 1.27 })).toBe(
+        'Budget exceeded: cost $1.27 reached the $1.00 limit',
+      );
+      expect(formatBudgetExceeded({ limit: 'maxSteps', used: 10, max: 10, ratio: 1 })).toBe(
+        'Budget exceeded: 10 steps reached the 10 step limit',
+      );
+    });
+  });
+});
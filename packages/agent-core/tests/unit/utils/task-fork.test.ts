@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import type { Task, TaskMessage } from '../../../src/common/types/task.js';
+import { formatForkTranscript, planTaskFork } from '../../../src/utils/task-fork.js';
+
+function message(id: string, type: TaskMessage['type'], content: string): TaskMessage {
+  return { id, type, content, timestamp: '2026-01-01T00:00:00.000Z' };
+}
+
+function createTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task_parent',
+    prompt: 'Write a report',
+    status: 'completed',
+    sessionId: 'ses_parent',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    messages: [
+      message('msg_1', 'user', 'Write a report'),
+      message('msg_2', 'assistant', 'Here is a first draft'),
+      { ...message('msg_3', 'tool', 'Wrote report.md'), toolName: 'Write' },
+      message('msg_4', 'assistant', 'The report is done'),
+    ],
+    ...overrides,
+  };
+}
+
+describe('task-fork', () => {
+  describe('planTaskFork', () => {
+    it('should copy messages up to and including the fork point with fresh IDs', () => {
+      const plan = planTaskFork(createTask(), 'msg_2');
+
+      expect(plan.messages.map((m) => m.content)).toEqual([
+        'Write a report',
+        'Here is a first draft',
+      ]);
+      expect(plan.messages.map((m) => m.id)).not.toContain('msg_1');
+      expect(new Set(plan.messages.map((m) => m.id)).size).toBe(2);
+    });
+
+    it('should never hand the parent session to the fork', () => {
+      const parent = createTask({ result: { status: 'success', sessionId: 'ses_result' } });
+
+      for (const messageId of ['msg_2', 'msg_4']) {
+        const plan = planTaskFork(parent, messageId);
+        expect(plan).not.toHaveProperty('sessionId');
+        expect(JSON.stringify(plan)).not.toMatch(/ses_parent|ses_result/);
+      }
+    });
+
+    it('should build a transcript when forking from the last message', () => {
+      const plan = planTaskFork(createTask(), 'msg_4');
+
+      expect(plan.messages).toHaveLength(4);
+      expect(plan.systemPromptAppend).toContain('[assistant] The report is done');
+    });
+
+    it('should build a transcript when forking from an earlier message', () => {
+      const plan = planTaskFork(createTask(), 'msg_3');
+
+      expect(plan.systemPromptAppend).toContain('[user] Write a report');
+      expect(plan.systemPromptAppend).toContain('[tool: Write] Wrote report.md');
+      expect(plan.systemPromptAppend).not.toContain('The report is done');
+    });
+
+    it('should throw for an unknown message', () => {
+      expect(() => planTaskFork(createTask(), 'msg_missing')).toThrow(/not found/);
+    });
+  });
+
+  describe('formatForkTranscript', () => {
+    it('should skip system messages', () => {
+      const transcript = formatForkTranscript([
+        message('a', 'user', 'Hi'),
+        message('b', 'system', 'Internal note'),
+      ]);
+
+      expect(transcript).not.toContain('Internal note');
+    });
+
+    it('should keep the first request and drop the oldest entries when too long', () => {
+      const long = 'x'.repeat(1_500);
+      const messages = [
+        message('first', 'user', 'Original request'),
+        ...Array.from({ length: 30 }, (_, i) => message(`m${i}`, 'assistant', `${i} ${long}`)),
+      ];
+
+      const transcript = formatForkTranscript(messages);
+
+      expect(transcript).toContain('[user] Original request');
+      expect(transcript).toMatch(/\[\d+ earlier messages omitted\]/);
+      expect(transcript).toContain('[assistant] 29 ');
+      expect(transcript).not.toContain('[assistant] 0 ');
+      expect(transcript.length).toBeLessThan(26_000);
+    });
+  });
+});
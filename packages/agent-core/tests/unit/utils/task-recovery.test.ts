@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import type { Task, TaskMessage } from '../../../src/common/types/task.js';
+import type { TodoItem } from '../../../src/common/types/todo.js';
+import {
+  buildRecoveryPrompt,
+  getTaskRunConfig,
+  planTaskRecovery,
+} from '../../../src/utils/task-recovery.js';
+
+function message(id: string, type: TaskMessage['type'], content: string): TaskMessage {
+  return { id, type, content, timestamp: '2026-01-01T00:00:00.000Z' };
+}
+
+function createTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task_1',
+    prompt: 'Clean up the downloads folder',
+    status: 'interrupted',
+    sessionId: 'ses_1',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    messages: [
+      message('msg_1', 'user', 'Clean up the downloads folder'),
+      { ...message('msg_2', 'tool', 'Listed 40 files'), toolName: 'Bash' },
+      message('msg_3', 'assistant', 'Moving the PDFs into Documents'),
+    ],
+    ...overrides,
+  };
+}
+
+const todos: TodoItem[] = [
+  { id: '1', content: 'List files', status: 'completed', priority: 'high' },
+  { id: '2', content: 'Move PDFs', status: 'in_progress', priority: 'medium' },
+  { id: '3', content: 'Delete installers', status: 'pending', priority: 'low' },
+];
+
+describe('task-recovery', () => {
+  describe('buildRecoveryPrompt', () => {
+    it('should describe the request, todo progress, tools and last message', () => {
+      const prompt = buildRecoveryPrompt(createTask(), todos);
+
+      expect(prompt).toContain('Clean up the downloads folder');
+      expect(prompt).toContain('[x] List files');
+      expect(prompt).toContain('[~] Move PDFs');
+      expect(prompt).toContain('[ ] Delete installers');
+      expect(prompt).toContain('Tool calls made so far: 1');
+      expect(prompt).toContain('Moving the PDFs into Documents');
+    });
+
+    it('should only list the most recent tool calls', () => {
+      const messages = Array.from({ length: 15 }, (_, i) => ({
+        ...message(`t${i}`, 'tool', ''),
+        toolName: `tool${i}`,
+      }));
+
+      const prompt = buildRecoveryPrompt(createTask({ messages }), []);
+
+      expect(prompt).toContain('Tool calls made so far: 15 (last 10 shown)');
+      expect(prompt).toContain('tool14');
+      expect(prompt).not.toContain('tool4,');
+      expect(prompt).not.toContain('Todo list');
+    });
+  });
+
+  describe('planTaskRecovery', () => {
+    it('should reuse the stored session', () => {
+      const plan = planTaskRecovery(createTask(), todos);
+
+      expect(plan.sessionId).toBe('ses_1');
+      expect(plan.systemPromptAppend).toBeUndefined();
+    });
+
+    it('should fall back to a transcript when there is no session', () => {
+      const plan = planTaskRecovery(createTask({ sessionId: undefined }), todos);
+
+      expect(plan.sessionId).toBeUndefined();
+      expect(plan.systemPromptAppend).toContain('[assistant] Moving the PDFs into Documents');
+    });
+
+    it('should start from the prompt alone when nothing ran yet', () => {
+      const plan = planTaskRecovery(createTask({ sessionId: undefined, messages: [] }), []);
+
+      expect(plan).toEqual({ prompt: expect.stringContaining('Clean up the downloads folder') });
+    });
+  });
+
+  describe('getTaskRunConfig', () => {
+    it('should keep the settings a restarted task needs and drop the rest', () => {
+      const runConfig = getTaskRunConfig({
+        prompt: 'Clean up',
+        taskId: 'task_1',
+        sessionId: 'ses_1',
+        systemPromptAppend: 'transcript',
+        priority: 2,
+        workingDirectory: '/work',
+        providerId: 'anthropic',
+        modelId: 'claude-sonnet',
+        maxIdleMs: 60_000,
+        stuckPolicy: { action: 'ask-user' },
+      });
+
+      expect(JSON.parse(JSON.stringify(runConfig))).toEqual({
+        workingDirectory: '/work',
+        providerId: 'anthropic',
+        modelId: 'claude-sonnet',
+        maxIdleMs: 60_000,
+        stuckPolicy: { action: 'ask-user' },
+      });
+    });
+
+    it('should not keep a display-only model without a provider', () => {
+      expect(getTaskRunConfig({ prompt: 'Clean up', modelId: 'claude-sonnet' }).modelId).toBe(
+        undefined,
+      );
+    });
+  });
+});
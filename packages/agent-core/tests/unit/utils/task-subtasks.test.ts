@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import type { SubtaskResult } from '../../../src/common/types/task.js';
+import {
+  buildSubtaskPrompt,
+  buildSubtaskResultsPrompt,
+  buildSubtasksUnavailablePrompt,
+} from '../../../src/utils/task-subtasks.js';
+
+describe('task-subtasks', () => {
+  describe('buildSubtaskPrompt', () => {
+    it('should lead with the step and give the parent request as context', () => {
+      const prompt = buildSubtaskPrompt(
+        'Compare three laptops',
+        'Research the ThinkPad X1',
+        'Pick the best laptop',
+      );
+
+      expect(prompt.startsWith('Research the ThinkPad X1')).toBe(true);
+      expect(prompt).toContain('Original request of the larger task:\nCompare three laptops');
+      expect(prompt).toContain('Overall goal:\nPick the best laptop');
+    });
+
+    it('should leave out the goal when there is none', () => {
+      expect(buildSubtaskPrompt('Compare laptops', 'Research one')).not.toContain('Overall goal');
+    });
+  });
+
+  describe('buildSubtaskResultsPrompt', () => {
+    it('should list every step with its outcome in plan order', () => {
+      const results: SubtaskResult[] = [
+        {
+          taskId: 'task_a',
+          step: 'Research the ThinkPad X1',
+          status: 'success',
+          result: { status: 'success' },
+          summary: 'Weighs 1.1 kg',
+        },
+        {
+          taskId: 'task_b',
+          step: 'Research the MacBook Air',
+          status: 'error',
+          result: { status: 'error', error: 'Site unreachable' },
+        },
+        { taskId: 'task_c', step: 'Research the XPS 13', status: 'cancelled' },
+      ];
+
+      const prompt = buildSubtaskResultsPrompt(results);
+
+      expect(prompt).toContain('### 1. Research the ThinkPad X1\nStatus: completed\nWeighs 1.1 kg');
+      expect(prompt).toContain(
+        '### 2. Research the MacBook Air\nStatus: failed\nError: Site unreachable',
+      );
+      expect(prompt).toContain('### 3. Research the XPS 13\nStatus: cancelled');
+      expect(prompt).toContain('call complete_task');
+    });
+
+    it('should truncate long summaries', () => {
+      const prompt = buildSubtaskResultsPrompt([
+        { taskId: 'task_a', step: 'Step', status: 'success', summary: 'x'.repeat(5_000) },
+      ]);
+
+      expect(prompt).toContain(`${'x'.repeat(4_000)}…`);
+      expect(prompt).not.toContain('x'.repeat(4_001));
+    });
+  });
+
+  describe('buildSubtasksUnavailablePrompt', () => {
+    it('should ask the task to run the steps itself', () => {
+      const prompt = buildSubtasksUnavailablePrompt(['First', 'Second']);
+
+      expect(prompt).toContain('1. First\n2. Second');
+    });
+  });
+});
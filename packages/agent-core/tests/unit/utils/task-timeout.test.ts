@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatTaskTimeout,
+  getExceededTimeout,
+  hasTaskTimeoutLimits,
+  resolveTaskTimeoutLimits,
+} from '../../../src/utils/task-timeout.js';
+
+const MINUTE = 60_000;
+
+describe('task-timeout', () => {
+  describe('resolveTaskTimeoutLimits', () => {
+    it('should fill in app defaults the task does not set', () => {
+      const limits = resolveTaskTimeoutLimits(
+        { maxIdleMs: 5 * MINUTE },
+        { maxDurationMs: 60 * MINUTE, maxIdleMs: 10 * MINUTE },
+      );
+
+      expect(limits).toEqual({ maxDurationMs: 60 * MINUTE, maxIdleMs: 5 * MINUTE });
+    });
+
+    it('should let a task turn off a default with 0', () => {
+      const limits = resolveTaskTimeoutLimits({ maxDurationMs: 0 }, { maxDurationMs: MINUTE });
+
+      expect(limits).toEqual({});
+      expect(hasTaskTimeoutLimits(limits)).toBe(false);
+    });
+  });
+
+  describe('getExceededTimeout', () => {
+    const limits = { maxDurationMs: 30 * MINUTE, maxIdleMs: 5 * MINUTE };
+
+    it('should report the wall-clock limit first', () => {
+      const timeout = getExceededTimeout(limits, { startedAt: 0, lastActivityAt: 0 }, 30 * MINUTE);
+
+      expect(timeout).toEqual({ kind: 'duration', limitMs: 30 * MINUTE });
+    });
+
+    it('should measure idle time from the last activity', () => {
+      const activity = { startedAt: 0, lastActivityAt: 10 * MINUTE };
+
+      expect(getExceededTimeout(limits, activity, 14 * MINUTE)).toBeNull();
+      expect(getExceededTimeout(limits, activity, 15 * MINUTE)).toEqual({
+        kind: 'idle',
+        limitMs: 5 * MINUTE,
+      });
+    });
+
+    it('should not count idle time while paused', () => {
+      const activity = { startedAt: 0, lastActivityAt: 0, idlePaused: true };
+
+      expect(getExceededTimeout(limits, activity, 20 * MINUTE)).toBeNull();
+    });
+  });
+
+  describe('formatTaskTimeout', () => {
+    it('should describe the limit that was hit', () => {
+      expect(formatTaskTimeout({ kind: 'duration', limitMs: 90 * MINUTE })).toBe(
+        'Timed out: the task ran longer than its 1 h 30 min limit',
+      );
+      expect(formatTaskTimeout({ kind: 'idle', limitMs: 45_000 })).toBe(
+        'Timed out: no activity for 45 s',
+      );
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { TrashEntry } from '../../../src/common/types/trash.js';
+import {
+  copyToTrash,
+  getTrashItemPath,
+  removeFromTrash,
+  restoreFromTrash,
+} from '../../../src/utils/trash.js';
+
+describe('trash', () => {
+  let tempDir: string;
+  let trashRoot: string;
+  let workDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'trash-test-'));
+    trashRoot = path.join(tempDir, 'trash');
+    workDir = path.join(tempDir, 'work');
+    fs.mkdirSync(workDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function toEntry(id: string, originalPath: string, isDirectory = false): TrashEntry {
+    return {
+      id,
+      taskId: 'task_1',
+      originalPath,
+      reason: 'delete',
+      isDirectory,
+      sizeBytes: 0,
+      trashedAt: new Date().toISOString(),
+    };
+  }
+
+  describe('copyToTrash', () => {
+    it('should copy a file into a folder named after the entry', () => {
+      const filePath = path.join(workDir, 'notes.txt');
+      fs.writeFileSync(filePath, 'hello');
+
+      const result = copyToTrash(trashRoot, { id: 'trash_1', originalPath: filePath });
+
+      expect(result).toEqual({ isDirectory: false, sizeBytes: 5 });
+      const copy = getTrashItemPath(trashRoot, { id: 'trash_1', originalPath: filePath });
+      expect(copy).toBe(path.join(trashRoot, 'trash_1', 'notes.txt'));
+      expect(fs.readFileSync(copy, 'utf8')).toBe('hello');
+      expect(fs.existsSync(filePath)).toBe(true);
+    });
+
+    it('should copy a folder with its contents', () => {
+      const dirPath = path.join(workDir, 'src');
+      fs.mkdirSync(path.join(dirPath, 'nested'), { recursive: true });
+      fs.writeFileSync(path.join(dirPath, 'a.ts'), 'abc');
+      fs.writeFileSync(path.join(dirPath, 'nested', 'b.ts'), 'de');
+
+      const result = copyToTrash(trashRoot, { id: 'trash_2', originalPath: dirPath });
+
+      expect(result).toEqual({ isDirectory: true, sizeBytes: 5 });
+      const copy = getTrashItemPath(trashRoot, { id: 'trash_2', originalPath: dirPath });
+      expect(fs.readFileSync(path.join(copy, 'nested', 'b.ts'), 'utf8')).toBe('de');
+    });
+
+    it('should return null for a path that does not exist', () => {
+      const result = copyToTrash(trashRoot, {
+        id: 'trash_3',
+        originalPath: path.join(workDir, 'missing.txt'),
+      });
+
+      expect(result).toBeNull();
+      expect(fs.existsSync(path.join(trashRoot, 'trash_3'))).toBe(false);
+    });
+
+    it('should skip items larger than the limit', () => {
+      const filePath = path.join(workDir, 'big.bin');
+      fs.writeFileSync(filePath, Buffer.alloc(64));
+
+      const result = copyToTrash(trashRoot, { id: 'trash_4', originalPath: filePath }, 32);
+
+      expect(result).toBeNull();
+      expect(fs.existsSync(path.join(trashRoot, 'trash_4'))).toBe(false);
+    });
+  });
+
+  describe('restoreFromTrash', () => {
+    it('should put back an overwritten file and remove the copy', () => {
+      const filePath = path.join(workDir, 'config.json');
+      fs.writeFileSync(filePath, '{"a":1}');
+      copyToTrash(trashRoot, { id: 'trash_5', originalPath: filePath });
+      fs.writeFileSync(filePath, '{"a":2}');
+
+      restoreFromTrash(trashRoot, toEntry('trash_5', filePath));
+
+      expect(fs.readFileSync(filePath, 'utf8')).toBe('{"a":1}');
+      expect(fs.existsSync(path.join(trashRoot, 'trash_5'))).toBe(false);
+    });
+
+    it('should recreate a deleted folder and its parents', () => {
+      const dirPath = path.join(workDir, 'deep', 'assets');
+      fs.mkdirSync(dirPath, { recursive: true });
+      fs.writeFileSync(path.join(dirPath, 'logo.svg'), '<svg/>');
+      copyToTrash(trashRoot, { id: 'trash_6', originalPath: dirPath });
+      fs.rmSync(path.join(workDir, 'deep'), { recursive: true });
+
+      restoreFromTrash(trashRoot, toEntry('trash_6', dirPath, true));
+
+      expect(fs.readFileSync(path.join(dirPath, 'logo.svg'), 'utf8')).toBe('<svg/>');
+    });
+
+    it('should throw when the trashed copy is missing', () => {
+      const filePath = path.join(workDir, 'gone.txt');
+
+      expect(() => restoreFromTrash(trashRoot, toEntry('trash_7', filePath))).toThrow(/missing/);
+    });
+  });
+
+  describe('removeFromTrash', () => {
+    it('should delete the copy', () => {
+      const filePath = path.join(workDir, 'old.txt');
+      fs.writeFileSync(filePath, 'old');
+      copyToTrash(trashRoot, { id: 'trash_8', originalPath: filePath });
+
+      removeFromTrash(trashRoot, { id: 'trash_8' });
+
+      expect(fs.existsSync(path.join(trashRoot, 'trash_8'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import {
+  describeVerificationCheck,
+  runVerificationChecks,
+  validateVerificationChecks,
+} from '../../../src/utils/verification.js';
+
+describe('verification', () => {
+  let tempDir: string;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verification-test-'));
+    fs.writeFileSync(path.join(tempDir, 'built.txt'), 'ok');
+    server = http.createServer((req, res) => {
+      res.statusCode = req.url === '/missing' ? 404 : 200;
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('runVerificationChecks', () => {
+    it('should pass commands that exit with the expected code and report output of failures', async () => {
+      const results = await runVerificationChecks(
+        [
+          { type: 'command', command: 'node -e "process.exit(0)"' },
+          { type: 'command', command: 'node -e "console.error(\'broken\'); process.exit(2)"' },
+          { type: 'command', command: 'node -e "process.exit(3)"', expectExitCode: 3 },
+        ],
+        tempDir,
+      );
+
+      expect(results.map((result) => result.passed)).toEqual([true, false, true]);
+      expect(results[1].message).toContain('Exited with code 2 (expected 0)');
+      expect(results[1].message).toContain('broken');
+    });
+
+    it('should fail commands that run past their timeout', async () => {
+      const [result] = await runVerificationChecks(
+        [{ type: 'command', command: 'node -e "setTimeout(() => {}, 10000)"', timeoutMs: 200 }],
+        tempDir,
+      );
+
+      expect(result.passed).toBe(false);
+      expect(result.message).toContain('Timed out');
+    });
+
+    it('should resolve file checks against the working directory', async () => {
+      const results = await runVerificationChecks(
+        [
+          { type: 'file-exists', path: 'built.txt' },
+          { type: 'file-exists', path: 'missing.txt' },
+        ],
+        tempDir,
+      );
+
+      expect(results.map((result) => result.passed)).toEqual([true, false]);
+      expect(results[1].message).toContain(path.join(tempDir, 'missing.txt'));
+    });
+
+    it('should check URL status codes', async () => {
+      const results = await runVerificationChecks(
+        [
+          { type: 'url-status', url: `${baseUrl}/health` },
+          { type: 'url-status', url: `${baseUrl}/missing` },
+          { type: 'url-status', url: `${baseUrl}/missing`, expectStatus: 404 },
+        ],
+        tempDir,
+      );
+
+      expect(results.map((result) => result.passed)).toEqual([true, false, true]);
+      expect(results[1].message).toBe('Responded with 404 (expected 2xx)');
+    });
+  });
+
+  describe('validateVerificationChecks', () => {
+    it('should keep well-formed checks and drop the rest', () => {
+      expect(
+        validateVerificationChecks([
+          { type: 'command', command: 'npm test', timeoutMs: 5000, extra: true },
+          { type: 'file-exists', path: '' },
+          { type: 'url-status', url: 'file:///etc/passwd' },
+          { type: 'url-status', url: 'https://example.com', expectStatus: 204 },
+          { type: 'unknown' },
+          null,
+        ]),
+      ).toEqual([
+        { type: 'command', command: 'npm test', timeoutMs: 5000 },
+        { type: 'url-status', url: 'https://example.com', expectStatus: 204 },
+      ]);
+      expect(validateVerificationChecks('npm test')).toEqual([]);
+    });
+  });
+
+  describe('describeVerificationCheck', () => {
+    it('should prefer the check name', () => {
+      expect(describeVerificationCheck({ type: 'command', command: 'npm test' })).toBe(
+        '`npm test`',
+      );
+      expect(
+        describeVerificationCheck({ type: 'file-exists', path: 'dist', name: 'Build output' }),
+      ).toBe('Build output');
+    });
+  });
+});
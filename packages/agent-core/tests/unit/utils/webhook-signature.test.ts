@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '../../../src/utils/webhook-signature.js';
+
+describe('webhook signatures', () => {
+  const body = JSON.stringify({ event: 'task.completed' });
+
+  it('signs the timestamp and body with HMAC-SHA256', () => {
+    const signature = signWebhookPayload('secret', 1700000000, body);
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(signWebhookPayload('secret', 1700000000, body)).toBe(signature);
+    expect(signWebhookPayload('secret', 1700000001, body)).not.toBe(signature);
+    expect(signWebhookPayload('other', 1700000000, body)).not.toBe(signature);
+  });
+
+  it('verifies only matching signatures', () => {
+    const signature = signWebhookPayload('secret', 1700000000, body);
+
+    expect(verifyWebhookSignature('secret', 1700000000, body, signature)).toBe(true);
+    expect(verifyWebhookSignature('secret', 1700000000, `${body} `, signature)).toBe(false);
+    expect(verifyWebhookSignature('secret', 1700000000, body, 'sha256=bad')).toBe(false);
+  });
+
+  it('generates distinct secrets', () => {
+    const secret = generateWebhookSecret();
+
+    expect(secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(generateWebhookSecret()).not.toBe(secret);
+  });
+});
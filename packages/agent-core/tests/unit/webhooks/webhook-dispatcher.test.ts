@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createWebhookDispatcher } from '../../../src/factories/webhooks.js';
+import { verifyWebhookSignature } from '../../../src/utils/webhook-signature.js';
+import type { WebhookDelivery, WebhookTarget } from '../../../src/common/types/webhook.js';
+import type { WebhookDispatcherAPI } from '../../../src/types/webhooks.js';
+
+function createMockStorage() {
+  const targets = new Map<string, WebhookTarget>();
+  const deliveries = new Map<string, WebhookDelivery>();
+
+  return {
+    targets,
+    deliveries,
+    getAllWebhookTargets: vi.fn(() => [...targets.values()]),
+    getWebhookTargetById: vi.fn((id: string) => targets.get(id) ?? null),
+    upsertWebhookTarget: vi.fn((target: WebhookTarget) => {
+      targets.set(target.id, { ...target });
+    }),
+    deleteWebhookTarget: vi.fn((id: string) => {
+      targets.delete(id);
+    }),
+    clearAllWebhookTargets: vi.fn(() => targets.clear()),
+    getWebhookDeliveries: vi.fn((limit: number) =>
+      [...deliveries.values()].reverse().slice(0, limit),
+    ),
+    upsertWebhookDelivery: vi.fn((delivery: WebhookDelivery) => {
+      deliveries.set(delivery.id, { ...delivery });
+    }),
+    pruneWebhookDeliveries: vi.fn(),
+  };
+}
+
+function respond(status: number): Response {
+  return { ok: status >= 200 && status < 300, status } as Response;
+}
+
+describe('WebhookDispatcher', () => {
+  let storage: ReturnType<typeof createMockStorage>;
+  let dispatcher: WebhookDispatcherAPI;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    storage = createMockStorage();
+    dispatcher = createWebhookDispatcher({
+      storage,
+      describeTask: (taskId) => ({ id: taskId, prompt: 'Book a flight', status: 'completed' }),
+      initialBackoffMs: 1000,
+      maxAttempts: 3,
+    });
+  });
+
+  afterEach(() => {
+    dispatcher.dispose();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('creates targets with a secret and only known events', () => {
+    const target = dispatcher.createTarget({
+      name: 'CI',
+      url: 'https://example.com/hook',
+      events: ['task.failed', 'task.started'],
+    });
+
+    expect(target.secret).toMatch(/^whsec_/);
+    expect(target.events).toEqual(['task.started', 'task.failed']);
+    expect(target.isEnabled).toBe(true);
+    expect(dispatcher.listTargets()).toHaveLength(1);
+  });
+
+  it('rejects invalid URLs and empty event lists', () => {
+    expect(() =>
+      dispatcher.createTarget({ name: 'Bad', url: 'ftp://example.com', events: ['task.failed'] }),
+    ).toThrow('Webhook URL must use http or https protocol');
+    expect(() =>
+      dispatcher.createTarget({ name: 'None', url: 'https://example.com', events: [] }),
+    ).toThrow('Select at least one webhook event');
+  });
+
+  it('sends a signed payload to subscribed, enabled targets only', async () => {
+    fetchMock.mockResolvedValue(respond(200));
+    const target = dispatcher.createTarget({
+      name: 'Done',
+      url: 'https://example.com/done',
+      events: ['task.completed'],
+    });
+    dispatcher.createTarget({
+      name: 'Started',
+      url: 'https://example.com/started',
+      events: ['task.started'],
+    });
+    const disabled = dispatcher.createTarget({
+      name: 'Off',
+      url: 'https://example.com/off',
+      events: ['task.completed'],
+    });
+    dispatcher.updateTarget(disabled.id, { isEnabled: false });
+
+    dispatcher.dispatch('task.completed', 'task_1', { durationMs: 1200 });
+    await vi.runAllTimersAsync();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    const payload = JSON.parse(init.body as string);
+
+    expect(url).toBe('https://example.com/done');
+    expect(headers['X-Accomplish-Event']).toBe('task.completed');
+    expect(headers['X-Accomplish-Delivery']).toBe(payload.id);
+    expect(
+      verifyWebhookSignature(
+        target.secret,
+        Number(headers['X-Accomplish-Timestamp']),
+        init.body as string,
+        headers['X-Accomplish-Signature'],
+      ),
+    ).toBe(true);
+    expect(payload).toMatchObject({
+      event: 'task.completed',
+      task: { id: 'task_1', prompt: 'Book a flight', status: 'completed' },
+      data: { durationMs: 1200 },
+    });
+
+    const [delivery] = dispatcher.listDeliveries();
+    expect(delivery).toMatchObject({ status: 'success', attempts: 1, responseStatus: 200 });
+  });
+
+  it('retries failed deliveries with exponential backoff and the same payload', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+      .mockResolvedValueOnce(respond(503))
+      .mockResolvedValueOnce(respond(204));
+    dispatcher.createTarget({ name: 'Flaky', url: 'https://example.com', events: ['task.failed'] });
+
+    dispatcher.dispatch('task.failed', 'task_1', { error: 'boom' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(dispatcher.listDeliveries()[0]).toMatchObject({ status: 'pending', attempts: 1 });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(dispatcher.listDeliveries()[0]).toMatchObject({
+      status: 'pending',
+      attempts: 2,
+      responseStatus: 503,
+    });
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(dispatcher.listDeliveries()[0]).toMatchObject({
+      status: 'success',
+      attempts: 3,
+      responseStatus: 204,
+    });
+
+    const bodies = fetchMock.mock.calls.map(([, init]) => (init as RequestInit).body);
+    expect(new Set(bodies).size).toBe(1);
+  });
+
+  it('gives up after the last attempt', async () => {
+    fetchMock.mockResolvedValue(respond(500));
+    dispatcher.createTarget({ name: 'Down', url: 'https://example.com', events: ['task.failed'] });
+
+    dispatcher.dispatch('task.failed', 'task_1');
+    await vi.runAllTimersAsync();
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(dispatcher.listDeliveries()[0]).toMatchObject({
+      status: 'failed',
+      attempts: 3,
+      error: 'HTTP 500',
+    });
+  });
+
+  it('does not retry client errors', async () => {
+    fetchMock.mockResolvedValue(respond(404));
+    dispatcher.createTarget({ name: 'Gone', url: 'https://example.com', events: ['task.failed'] });
+
+    dispatcher.dispatch('task.failed', 'task_1');
+    await vi.runAllTimersAsync();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(dispatcher.listDeliveries()[0]).toMatchObject({ status: 'failed', attempts: 1 });
+  });
+
+  it('cancels pending retries when the target is deleted', async () => {
+    fetchMock.mockResolvedValue(respond(500));
+    const target = dispatcher.createTarget({
+      name: 'Down',
+      url: 'https://example.com',
+      events: ['task.failed'],
+    });
+
+    dispatcher.dispatch('task.failed', 'task_1');
+    await vi.advanceTimersByTimeAsync(0);
+    dispatcher.deleteTarget(target.id);
+    await vi.runAllTimersAsync();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -12,6 +12,7 @@ const mcpDistOutputs = [
   'mcp-tools/ask-user-question/dist/index.mjs',
   'mcp-tools/complete-task/dist/index.mjs',
   'mcp-tools/start-task/dist/index.mjs',
+  'mcp-tools/report-checkpoint/dist/index.mjs',
   'mcp-tools/dev-browser-mcp/dist/index.mjs',
   'mcp-tools/dev-browser/dist/start-server.mjs',
   'mcp-tools/dev-browser/dist/start-relay.mjs',